@@ -1,7 +1,15 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Purchase order PDFs read their font from disk at runtime. Keys match
+  // anywhere in the route path, so this covers the purchase order pages
+  // whose actions confirm, approve or send a PO and the PDF download route
+  outputFileTracingIncludes: {
+    "/purchase-orders": [
+      "./node_modules/@expo-google-fonts/noto-sans-sc/400Regular/*.ttf",
+      "./node_modules/@expo-google-fonts/noto-sans-sc/700Bold/*.ttf",
+    ],
+  },
 };
 
 export default nextConfig;
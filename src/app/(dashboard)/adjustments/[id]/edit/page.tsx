@@ -32,6 +32,8 @@ export default async function EditAdjustmentPage({ params }: PageProps) {
         id,
         product_id,
         qty,
+        entered_qty,
+        entered_uom,
         lot_number,
         expiry_date,
         unit_cost
@@ -46,7 +48,7 @@ export default async function EditAdjustmentPage({ params }: PageProps) {
 
   const [locationsRes, productsRes] = await Promise.all([
     supabase.from('locations').select('*').eq('active', true).order('name'),
-    supabase.from('products').select('*').eq('active', true).order('sku'),
+    supabase.from('products').select('*, units:product_units(*)').eq('active', true).is('variant_options', null).order('sku'),
   ])
 
   return (
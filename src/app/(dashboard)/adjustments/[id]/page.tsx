@@ -14,7 +14,9 @@ import {
 } from '@/components/ui/table'
 import { ArrowLeft } from 'lucide-react'
 import { formatDate, formatCurrency } from '@/lib/utils'
+import { formatEnteredQty } from '@/lib/uom-utils'
 import { AdjustmentActions } from '@/components/adjustments/adjustment-actions'
+import { VoidedNotice } from '@/components/void-document-button'
 import { DocumentUpload } from '@/components/documents/document-upload'
 import { getTranslator, getLocale } from '@/lib/i18n/server'
 
@@ -26,6 +28,7 @@ const statusColors: Record<string, string> = {
   draft: 'bg-gray-100 text-gray-800',
   completed: 'bg-green-100 text-green-800',
   cancelled: 'bg-red-100 text-red-800',
+  voided: 'bg-gray-100 text-gray-500 line-through',
 }
 
 export default async function AdjustmentDetailPage({ params }: AdjustmentDetailPageProps) {
@@ -75,6 +78,7 @@ export default async function AdjustmentDetailPage({ params }: AdjustmentDetailP
     draft: t('common.draft'),
     completed: t('common.completed'),
     cancelled: t('common.cancelled'),
+    voided: t('common.voided'),
   }
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -106,6 +110,10 @@ export default async function AdjustmentDetailPage({ params }: AdjustmentDetailP
         <AdjustmentActions adjustment={adjustment} />
       </div>
 
+      {adjustment.status === 'voided' && (
+        <VoidedNotice voidedAt={adjustment.voided_at} reason={adjustment.void_reason} />
+      )}
+
       <div className="grid gap-6 md:grid-cols-2">
         <Card>
           <CardHeader>
@@ -165,6 +173,9 @@ export default async function AdjustmentDetailPage({ params }: AdjustmentDetailP
                       <span className={line.qty > 0 ? 'text-green-600' : 'text-red-600'}>
                         {line.qty > 0 ? '+' : ''}{line.qty} {t(`uom.${line.product?.base_uom}`)}
                       </span>
+                      {formatEnteredQty(line) && (
+                        <p className="text-xs text-gray-500">{formatEnteredQty(line)}</p>
+                      )}
                     </TableCell>
                     <TableCell className="text-center">{line.lot_number || '-'}</TableCell>
                     <TableCell className="text-center">
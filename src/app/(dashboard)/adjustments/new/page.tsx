@@ -21,7 +21,7 @@ export default async function NewAdjustmentPage() {
 
   const [locationsResult, productsResult] = await Promise.all([
     supabase.from('locations').select('*').eq('active', true).order('name'),
-    supabase.from('products').select('*').eq('active', true).order('sku'),
+    supabase.from('products').select('*, units:product_units(*)').eq('active', true).is('variant_options', null).order('sku'),
   ])
 
   return (
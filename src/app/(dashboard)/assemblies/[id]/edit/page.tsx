@@ -0,0 +1,71 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft } from 'lucide-react'
+import { AssemblyForm } from '@/components/forms/assembly-form'
+import { getTranslator } from '@/lib/i18n/server'
+import type { Product } from '@/types'
+
+interface PageProps {
+  params: Promise<{ id: string }>
+}
+
+export default async function EditAssemblyPage({ params }: PageProps) {
+  const { id } = await params
+  const supabase = await createClient()
+  const t = await getTranslator()
+
+  const { data: assembly, error } = await supabase
+    .from('assemblies')
+    .select('*')
+    .eq('id', id)
+    .single()
+
+  if (error || !assembly || assembly.status !== 'draft') {
+    notFound()
+  }
+
+  const [locationsRes, productsRes] = await Promise.all([
+    supabase.from('locations').select('*').eq('active', true).order('name'),
+    supabase
+      .from('products')
+      .select('*, bom:bom_lines!product_id(id, component_id, qty, component:products!component_id(id, sku, name, base_uom))')
+      .eq('active', true)
+      .is('variant_options', null)
+      .order('sku'),
+  ])
+
+  const products = ((productsRes.data || []) as Product[]).filter((p) => p.bom && p.bom.length > 0)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Link href={`/assemblies/${id}`}>
+          <Button variant="ghost" size="icon">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{t('assemblies.editAssembly')}</h1>
+          <p className="text-gray-600">{assembly.assembly_number}</p>
+        </div>
+      </div>
+
+      <AssemblyForm
+        locations={locationsRes.data || []}
+        products={products}
+        initialData={{
+          id: assembly.id,
+          assembly_type: assembly.assembly_type,
+          product_id: assembly.product_id,
+          location_id: assembly.location_id,
+          qty: assembly.qty,
+          lot_number: assembly.lot_number,
+          expiry_date: assembly.expiry_date,
+          notes: assembly.notes,
+        }}
+      />
+    </div>
+  )
+}
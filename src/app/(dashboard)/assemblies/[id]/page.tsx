@@ -0,0 +1,230 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ArrowLeft } from 'lucide-react'
+import { formatDate, formatCurrency } from '@/lib/utils'
+import { AssemblyActions } from '@/components/assemblies/assembly-actions'
+import { VoidedNotice } from '@/components/void-document-button'
+import { getTranslator, getLocale } from '@/lib/i18n/server'
+
+interface AssemblyDetailPageProps {
+  params: Promise<{ id: string }>
+}
+
+const statusColors: Record<string, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+  voided: 'bg-gray-100 text-gray-500 line-through',
+}
+
+export default async function AssemblyDetailPage({ params }: AssemblyDetailPageProps) {
+  const { id } = await params
+  const supabase = await createClient()
+  const t = await getTranslator()
+  const locale = await getLocale()
+
+  // Get current user's tenant settings for currency
+  const { data: { user } } = await supabase.auth.getUser()
+  const { data: userData } = await supabase
+    .from('users')
+    .select('tenant:tenants(settings)')
+    .eq('id', user?.id)
+    .single()
+
+  const currency = (userData?.tenant as { settings?: { default_currency?: string } })?.settings?.default_currency || 'USD'
+
+  const { data: assembly, error } = await supabase
+    .from('assemblies')
+    .select(`
+      *,
+      product:products(id, sku, name, base_uom),
+      location:locations(id, name),
+      lines:assembly_lines(
+        *,
+        product:products(id, sku, name, base_uom)
+      )
+    `)
+    .eq('id', id)
+    .single()
+
+  if (error || !assembly) {
+    notFound()
+  }
+
+  const statusTranslations: Record<string, string> = {
+    draft: t('common.draft'),
+    completed: t('common.completed'),
+    cancelled: t('common.cancelled'),
+    voided: t('common.voided'),
+  }
+
+  // An assembly consumes its components; a disassembly returns them to stock
+  const componentSign = assembly.assembly_type === 'assembly' ? -1 : 1
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const componentsTotal = assembly.lines?.reduce((sum: number, line: any) => {
+    return sum + line.qty * (line.unit_cost || 0)
+  }, 0) || 0
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-4">
+          <Link href="/assemblies">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <div className="flex items-center gap-3">
+              <h1 className="text-2xl font-bold text-gray-900">{assembly.assembly_number}</h1>
+              <Badge className={statusColors[assembly.status] || ''}>
+                {statusTranslations[assembly.status] || assembly.status}
+              </Badge>
+            </div>
+            <p className="text-gray-600">
+              {t(`assemblies.types.${assembly.assembly_type}`)} - {assembly.product?.sku} {assembly.product?.name}
+            </p>
+          </div>
+        </div>
+        <AssemblyActions assembly={assembly} />
+      </div>
+
+      {assembly.status === 'voided' && (
+        <VoidedNotice voidedAt={assembly.voided_at} reason={assembly.void_reason} />
+      )}
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('assemblies.assemblyDetails')}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div>
+              <span className="text-sm text-gray-500">{t('assemblies.type')}:</span>
+              <p className="font-medium">{t(`assemblies.types.${assembly.assembly_type}`)}</p>
+            </div>
+            <div>
+              <span className="text-sm text-gray-500">{t('stock.location')}:</span>
+              <p className="font-medium">{assembly.location?.name}</p>
+            </div>
+            <div>
+              <span className="text-sm text-gray-500">{t('common.createdAt')}:</span>
+              <p>{formatDate(assembly.created_at, locale)}</p>
+            </div>
+            {assembly.notes && (
+              <div>
+                <span className="text-sm text-gray-500">{t('common.notes')}:</span>
+                <p>{assembly.notes}</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('assemblies.finishedItem')}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div>
+              <span className="text-sm text-gray-500">{t('products.product')}:</span>
+              <p className="font-medium">
+                <span className="font-mono">{assembly.product?.sku}</span> - {assembly.product?.name}
+              </p>
+            </div>
+            <div>
+              <span className="text-sm text-gray-500">{t('common.quantity')}:</span>
+              <p className={`font-medium ${componentSign < 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {componentSign < 0 ? '+' : '-'}{assembly.qty} {t(`uom.${assembly.product?.base_uom}`)}
+              </p>
+            </div>
+            {(assembly.lot_number || assembly.expiry_date) && (
+              <div>
+                <span className="text-sm text-gray-500">{t('stock.lotNumber')} / {t('stock.expiryDate')}:</span>
+                <p>
+                  {assembly.lot_number || '-'} / {assembly.expiry_date ? formatDate(assembly.expiry_date, locale) : '-'}
+                </p>
+              </div>
+            )}
+            {assembly.unit_cost != null && (
+              <div>
+                <span className="text-sm text-gray-500">{t('purchaseOrders.unitCost')}:</span>
+                <p className="font-medium">{formatCurrency(assembly.unit_cost, currency, locale)}</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('assemblies.components')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('products.product')}</TableHead>
+                  <TableHead className="text-center w-[120px]">{t('common.quantity')}</TableHead>
+                  <TableHead className="text-center w-[140px]">{t('stock.lotNumber')}</TableHead>
+                  <TableHead className="text-center w-[120px]">{t('stock.expiryDate')}</TableHead>
+                  <TableHead className="text-right w-[120px]">{t('purchaseOrders.unitCost')}</TableHead>
+                  <TableHead className="text-right w-[120px]">{t('common.total')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {/* eslint-disable-next-line @typescript-eslint/no-explicit-any */}
+                {assembly.lines?.map((line: any) => (
+                  <TableRow key={line.id}>
+                    <TableCell>
+                      <div>
+                        <span className="font-mono text-sm">{line.product?.sku}</span>
+                        <p className="text-sm text-gray-600">{line.product?.name}</p>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-center">
+                      <span className={componentSign > 0 ? 'text-green-600' : 'text-red-600'}>
+                        {componentSign > 0 ? '+' : '-'}{line.qty} {t(`uom.${line.product?.base_uom}`)}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-center">{line.lot_number || '-'}</TableCell>
+                    <TableCell className="text-center">
+                      {line.expiry_date ? formatDate(line.expiry_date, locale) : '-'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {line.unit_cost != null ? formatCurrency(line.unit_cost, currency, locale) : '-'}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">
+                      {line.unit_cost != null ? formatCurrency(line.qty * line.unit_cost, currency, locale) : '-'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          {componentsTotal > 0 && (
+            <div className="flex justify-end mt-4">
+              <div className="text-lg font-bold">
+                {t('common.total')}: {formatCurrency(componentsTotal, currency, locale)}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,45 @@
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/server'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft } from 'lucide-react'
+import { AssemblyForm } from '@/components/forms/assembly-form'
+import { getTranslator } from '@/lib/i18n/server'
+import type { Product } from '@/types'
+
+export default async function NewAssemblyPage() {
+  const supabase = await createClient()
+  const t = await getTranslator()
+
+  const [locationsResult, productsResult] = await Promise.all([
+    supabase.from('locations').select('*').eq('active', true).order('name'),
+    supabase
+      .from('products')
+      .select('*, bom:bom_lines!product_id(id, component_id, qty, component:products!component_id(id, sku, name, base_uom))')
+      .eq('active', true)
+      .is('variant_options', null)
+      .order('sku'),
+  ])
+
+  // Only products with a bill of materials can be assembled
+  const products = ((productsResult.data || []) as Product[]).filter((p) => p.bom && p.bom.length > 0)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Link href="/assemblies">
+          <Button variant="ghost" size="icon">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{t('assemblies.newAssembly')}</h1>
+          <p className="text-gray-600">{t('assemblies.subtitle')}</p>
+        </div>
+      </div>
+      <AssemblyForm
+        locations={locationsResult.data || []}
+        products={products}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/server'
+import { Button } from '@/components/ui/button'
+import { Plus } from 'lucide-react'
+import { AssembliesTable } from '@/components/tables/assemblies-table'
+import { getTranslator } from '@/lib/i18n/server'
+
+export default async function AssembliesPage() {
+  const supabase = await createClient()
+  const t = await getTranslator()
+
+  const { data: assemblies, error } = await supabase
+    .from('assemblies')
+    .select(`
+      *,
+      product:products(id, sku, name, base_uom),
+      location:locations(id, name)
+    `)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    return <div className="text-red-600">{t('errors.serverError')}: {error.message}</div>
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{t('assemblies.title')}</h1>
+          <p className="text-gray-600">{t('assemblies.subtitle')}</p>
+        </div>
+        <Link href="/assemblies/new">
+          <Button>
+            <Plus className="mr-2 h-4 w-4" />
+            {t('assemblies.newAssembly')}
+          </Button>
+        </Link>
+      </div>
+
+      <AssembliesTable data={assemblies || []} />
+    </div>
+  )
+}
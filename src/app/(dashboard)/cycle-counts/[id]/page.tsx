@@ -17,6 +17,10 @@ import { formatDate } from '@/lib/utils'
 import { getTranslator, getLocale } from '@/lib/i18n/server'
 import { CountEntryForm } from '@/components/forms/count-entry-form'
 import { DocumentUpload } from '@/components/documents/document-upload'
+import { VoidDocumentButton, VoidedNotice } from '@/components/void-document-button'
+import { voidCycleCount } from '@/lib/actions/cycle-counts'
+import { SerialNumberList } from '@/components/serial-numbers-input'
+import { formatEnteredQty } from '@/lib/uom-utils'
 
 interface PageProps {
   params: Promise<{ id: string }>
@@ -26,6 +30,7 @@ const statusColors: Record<string, string> = {
   draft: 'bg-gray-100 text-gray-800',
   completed: 'bg-green-100 text-green-800',
   cancelled: 'bg-red-100 text-red-800',
+  voided: 'bg-gray-100 text-gray-500 line-through',
 }
 
 export default async function CycleCountDetailPage({ params }: PageProps) {
@@ -44,9 +49,12 @@ export default async function CycleCountDetailPage({ params }: PageProps) {
         product_id,
         system_qty,
         counted_qty,
+        entered_qty,
+        entered_uom,
         lot_number,
         expiry_date,
-        product:products(id, sku, name, base_uom)
+        serial_numbers,
+        product:products(id, sku, name, base_uom, allow_decimal_qty, track_serial, units:product_units(*))
       )
     `)
     .eq('id', id)
@@ -60,6 +68,7 @@ export default async function CycleCountDetailPage({ params }: PageProps) {
     draft: t('common.draft'),
     completed: t('common.completed'),
     cancelled: t('common.cancelled'),
+    voided: t('common.voided'),
   }
 
   const totalItems = cycleCount.lines?.length || 0
@@ -99,8 +108,15 @@ export default async function CycleCountDetailPage({ params }: PageProps) {
             </Button>
           </Link>
         )}
+        {cycleCount.status === 'completed' && (
+          <VoidDocumentButton onVoid={voidCycleCount.bind(null, id)} />
+        )}
       </div>
 
+      {cycleCount.status === 'voided' && (
+        <VoidedNotice voidedAt={cycleCount.voided_at} reason={cycleCount.void_reason} />
+      )}
+
       <div className="grid gap-4 md:grid-cols-3">
         <Card>
           <CardHeader className="pb-2">
@@ -174,6 +190,7 @@ export default async function CycleCountDetailPage({ params }: PageProps) {
                           <div>
                             <span className="font-mono text-sm">{line.product?.sku}</span>
                             <p className="text-sm text-gray-600">{line.product?.name}</p>
+                            <SerialNumberList serials={line.serial_numbers} />
                           </div>
                         </TableCell>
                         <TableCell>{line.lot_number || '-'}</TableCell>
@@ -182,6 +199,9 @@ export default async function CycleCountDetailPage({ params }: PageProps) {
                         </TableCell>
                         <TableCell className="text-right">
                           {line.counted_qty ?? '-'} {line.counted_qty !== null && line.product?.base_uom ? t(`uom.${line.product.base_uom}`) : ''}
+                          {formatEnteredQty(line) && (
+                            <p className="text-xs text-gray-500">{formatEnteredQty(line)}</p>
+                          )}
                         </TableCell>
                         <TableCell className="text-right">
                           <Badge
@@ -13,7 +13,7 @@ export default async function NewCycleCountPage() {
 
   const [locationsRes, productsRes, balancesRes] = await Promise.all([
     supabase.from('locations').select('*').eq('active', true).order('name'),
-    supabase.from('products').select('*').eq('active', true).order('sku'),
+    supabase.from('products').select('*').eq('active', true).is('variant_options', null).order('sku'),
     supabase.from('calculated_stock').select('*'),
   ])
 
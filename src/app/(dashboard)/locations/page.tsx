@@ -30,20 +30,22 @@ export default async function LocationsPage() {
     }
   }) || []
 
-  // Build hierarchical list: parent followed by its children
+  // Build hierarchical list: parent followed by its children, and each
+  // warehouse followed by its bins
   const rootLocations = locationsWithParent
     .filter(l => !l.parent_id)
     .sort((a, b) => a.name.localeCompare(b.name))
 
-  const locations: typeof locationsWithParent = []
-  for (const parent of rootLocations) {
-    locations.push(parent)
+  const locations: (typeof locationsWithParent[number] & { depth: number })[] = []
+  const addWithChildren = (location: typeof locationsWithParent[number], depth: number) => {
+    locations.push({ ...location, depth })
     // Add children immediately after their parent
     const children = locationsWithParent
-      .filter(l => l.parent_id === parent.id)
+      .filter(l => l.parent_id === location.id)
       .sort((a, b) => a.name.localeCompare(b.name))
-    locations.push(...children)
+    for (const child of children) addWithChildren(child, depth + 1)
   }
+  for (const parent of rootLocations) addWithChildren(parent, 0)
 
   return (
     <div className="space-y-6">
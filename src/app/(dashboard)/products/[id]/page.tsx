@@ -1,6 +1,10 @@
 import { notFound } from 'next/navigation'
 import { createClient } from '@/lib/supabase/server'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { ProductForm } from '@/components/forms/product-form'
+import { SupplierProductForm } from '@/components/forms/supplier-product-form'
+import { SupplierProductsTable } from '@/components/tables/supplier-products-table'
+import { getTranslator } from '@/lib/i18n/server'
 
 interface EditProductPageProps {
   params: Promise<{ id: string }>
@@ -9,27 +13,96 @@ interface EditProductPageProps {
 export default async function EditProductPage({ params }: EditProductPageProps) {
   const { id } = await params
   const supabase = await createClient()
+  const t = await getTranslator()
 
-  const [productResult, categoriesResult] = await Promise.all([
+  const { data: { user } } = await supabase.auth.getUser()
+
+  const [
+    productResult,
+    categoriesResult,
+    variantsResult,
+    componentsResult,
+    catalogueResult,
+    suppliersResult,
+    userResult,
+  ] = await Promise.all([
     supabase
       .from('products')
-      .select('*')
+      .select('*, units:product_units(*), bom:bom_lines!product_id(*)')
       .eq('id', id)
       .single(),
     supabase
       .from('categories')
       .select('*')
       .order('name'),
+    supabase
+      .from('products')
+      .select('*')
+      .eq('parent_id', id)
+      .order('sku'),
+    supabase
+      .from('products')
+      .select('*')
+      .is('variant_options', null)
+      .neq('id', id)
+      .order('sku'),
+    supabase
+      .from('supplier_products')
+      .select('*, supplier:suppliers(id, code, name)')
+      .eq('product_id', id)
+      .order('created_at'),
+    supabase
+      .from('suppliers')
+      .select('id, code, name')
+      .eq('active', true)
+      .order('name'),
+    supabase
+      .from('users')
+      .select('tenant:tenants(settings)')
+      .eq('id', user?.id)
+      .single(),
   ])
 
   if (productResult.error || !productResult.data) {
     notFound()
   }
 
+  const parentId = productResult.data.parent_id
+  const { data: parent } = parentId
+    ? await supabase.from('products').select('id, sku, name').eq('id', parentId).single()
+    : { data: null }
+
+  const currency = (userResult.data?.tenant as { settings?: { default_currency?: string } })?.settings?.default_currency || 'USD'
+  const supplierOptions = (suppliersResult.data || []).map((s) => ({ id: s.id, label: s.code ? `${s.code} - ${s.name}` : s.name }))
+  // Variant parents are never ordered themselves
+  const purchasable = !productResult.data.variant_options
+
   return (
-    <ProductForm
-      product={productResult.data}
-      categories={categoriesResult.data || []}
-    />
+    <div className="space-y-6">
+      <ProductForm
+        product={productResult.data}
+        categories={categoriesResult.data || []}
+        variants={variantsResult.data || []}
+        components={componentsResult.data || []}
+        parent={parent}
+      />
+
+      {purchasable && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>{t('supplierProducts.suppliersTitle')}</CardTitle>
+            <SupplierProductForm productId={id} options={supplierOptions} defaultCurrency={currency} />
+          </CardHeader>
+          <CardContent>
+            <SupplierProductsTable
+              data={catalogueResult.data || []}
+              view="product"
+              options={supplierOptions}
+              defaultCurrency={currency}
+            />
+          </CardContent>
+        </Card>
+      )}
+    </div>
   )
 }
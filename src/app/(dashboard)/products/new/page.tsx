@@ -4,10 +4,23 @@ import { ProductForm } from '@/components/forms/product-form'
 export default async function NewProductPage() {
   const supabase = await createClient()
 
-  const { data: categories } = await supabase
-    .from('categories')
-    .select('*')
-    .order('name')
+  const [categoriesResult, componentsResult] = await Promise.all([
+    supabase
+      .from('categories')
+      .select('*')
+      .order('name'),
+    supabase
+      .from('products')
+      .select('*')
+      .eq('active', true)
+      .is('variant_options', null)
+      .order('sku'),
+  ])
 
-  return <ProductForm categories={categories || []} />
+  return (
+    <ProductForm
+      categories={categoriesResult.data || []}
+      components={componentsResult.data || []}
+    />
+  )
 }
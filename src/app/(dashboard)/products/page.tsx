@@ -21,7 +21,7 @@ export default async function ProductsPage() {
 
   const { data: products, error } = await supabase
     .from('products')
-    .select('*, category:categories(id, name)')
+    .select('*, category:categories(id, name), units:product_units(*)')
     .order('sku', { ascending: true })
 
   if (error) {
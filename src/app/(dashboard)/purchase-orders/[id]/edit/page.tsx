@@ -33,7 +33,9 @@ export default async function EditPurchaseOrderPage({ params }: PageProps) {
         id,
         product_id,
         qty_ordered,
-        unit_cost
+        unit_cost,
+        entered_qty,
+        entered_uom
       )
     `)
     .eq('id', id)
@@ -43,10 +45,11 @@ export default async function EditPurchaseOrderPage({ params }: PageProps) {
     notFound()
   }
 
-  const [suppliersRes, locationsRes, productsRes] = await Promise.all([
+  const [suppliersRes, locationsRes, productsRes, supplierProductsRes] = await Promise.all([
     supabase.from('suppliers').select('*').eq('active', true).order('name'),
-    supabase.from('locations').select('*').eq('active', true).order('name'),
-    supabase.from('products').select('*').eq('active', true).order('sku'),
+    supabase.from('locations').select('*').eq('active', true).neq('type', 'bin').order('name'),
+    supabase.from('products').select('*, units:product_units(*)').eq('active', true).is('variant_options', null).order('sku'),
+    supabase.from('supplier_products').select('*'),
   ])
 
   return (
@@ -67,6 +70,7 @@ export default async function EditPurchaseOrderPage({ params }: PageProps) {
         suppliers={suppliersRes.data || []}
         locations={locationsRes.data || []}
         products={productsRes.data || []}
+        supplierProducts={supplierProductsRes.data || []}
         currency={currency}
         locale={locale}
         initialData={{
@@ -12,11 +12,18 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table'
-import { ArrowLeft } from 'lucide-react'
-import { formatCurrency, formatDate } from '@/lib/utils'
+import { ArrowLeft, Plus } from 'lucide-react'
+import { formatCurrency, formatDate, formatDateTime } from '@/lib/utils'
 import { PurchaseOrderActions } from '@/components/purchase-order-actions'
+import { LandedCostForm } from '@/components/forms/landed-cost-form'
+import { VoidDocumentButton } from '@/components/void-document-button'
+import { voidPurchaseOrderReceipt } from '@/lib/actions/purchase-orders'
 import { DocumentUpload } from '@/components/documents/document-upload'
 import { getTranslator, getLocale } from '@/lib/i18n/server'
+import { formatEnteredQty } from '@/lib/uom-utils'
+import { SerialNumberList } from '@/components/serial-numbers-input'
+import { resolvePoApproval, canApprovePo } from '@/lib/po-approval-utils'
+import type { LandedCost, PurchaseOrderApproval, PurchaseOrderReceipt, SupplierInvoice, Tenant, UserRole } from '@/types'
 
 interface PageProps {
   params: Promise<{ id: string }>
@@ -24,12 +31,20 @@ interface PageProps {
 
 const statusColors: Record<string, string> = {
   draft: 'bg-gray-100 text-gray-800',
+  pending_approval: 'bg-purple-100 text-purple-800',
   confirmed: 'bg-blue-100 text-blue-800',
   partial: 'bg-yellow-100 text-yellow-800',
   completed: 'bg-green-100 text-green-800',
   cancelled: 'bg-red-100 text-red-800',
 }
 
+const invoiceStatusColors: Record<string, string> = {
+  matched: 'bg-green-100 text-green-800',
+  mismatch: 'bg-orange-100 text-orange-800',
+  approved: 'bg-blue-100 text-blue-800',
+  cancelled: 'bg-red-100 text-red-800',
+}
+
 export default async function PurchaseOrderDetailPage({ params }: PageProps) {
   const { id } = await params
   const supabase = await createClient()
@@ -40,11 +55,13 @@ export default async function PurchaseOrderDetailPage({ params }: PageProps) {
   const { data: { user } } = await supabase.auth.getUser()
   const { data: userData } = await supabase
     .from('users')
-    .select('tenant:tenants(settings)')
+    .select('role, tenant:tenants(settings)')
     .eq('id', user?.id)
     .single()
 
-  const currency = (userData?.tenant as { settings?: { default_currency?: string } })?.settings?.default_currency || 'USD'
+  const settings = (userData?.tenant as { settings?: Partial<Tenant['settings']> })?.settings
+  const currency = settings?.default_currency || 'USD'
+  const canApprove = canApprovePo(resolvePoApproval(settings?.po_approval), userData?.role as UserRole | undefined)
 
   const { data: po, error } = await supabase
     .from('purchase_orders')
@@ -58,6 +75,8 @@ export default async function PurchaseOrderDetailPage({ params }: PageProps) {
         qty_ordered,
         qty_received,
         unit_cost,
+        entered_qty,
+        entered_uom,
         product:products(id, sku, name, base_uom)
       )
     `)
@@ -68,6 +87,38 @@ export default async function PurchaseOrderDetailPage({ params }: PageProps) {
     notFound()
   }
 
+  const [receiptsRes, landedCostsRes, approvalsRes, invoicesRes] = await Promise.all([
+    supabase
+      .from('po_receipts')
+      .select('*, lines:po_receipt_lines(id, qty, serial_numbers, bin:locations!bin_id(id, name))')
+      .eq('po_id', id)
+      .order('received_at'),
+    supabase
+      .from('landed_costs')
+      .select('*')
+      .eq('po_id', id)
+      .order('created_at'),
+    supabase
+      .from('purchase_order_approvals')
+      .select('*, decided_by_user:users!purchase_order_approvals_decided_by_fkey(id, name)')
+      .eq('po_id', id)
+      .order('decided_at'),
+    supabase
+      .from('supplier_invoices')
+      .select('*, lines:supplier_invoice_lines(qty_invoiced, unit_price)')
+      .eq('po_id', id)
+      .order('invoice_date'),
+  ])
+
+  const receipts = (receiptsRes.data || []) as PurchaseOrderReceipt[]
+  const hasActiveReceipts = receipts.some((receipt) => !receipt.voided_at)
+  const landedCosts = (landedCostsRes.data || []) as LandedCost[]
+  const landedCostTotal = landedCosts.reduce((sum, cost) => sum + Number(cost.amount), 0)
+  const approvals = (approvalsRes.data || []) as PurchaseOrderApproval[]
+  const invoices = (invoicesRes.data || []) as SupplierInvoice[]
+  const canInvoice = (userData?.role === 'admin' || userData?.role === 'manager')
+    && ['confirmed', 'partial', 'completed'].includes(po.status)
+
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const orderTotal = po.lines?.reduce((sum: number, line: any) => {
     return sum + line.qty_ordered * line.unit_cost
@@ -97,9 +148,15 @@ export default async function PurchaseOrderDetailPage({ params }: PageProps) {
             <p className="text-gray-600">{t('purchaseOrders.orderDate')}: {formatDate(po.order_date, locale)}</p>
           </div>
         </div>
-        <PurchaseOrderActions po={po} />
+        <PurchaseOrderActions po={po} canApprove={canApprove} />
       </div>
 
+      {po.status === 'pending_approval' && (
+        <div className="rounded-md border border-purple-200 bg-purple-50 p-4 text-sm text-purple-800">
+          {canApprove ? t('poApprovals.pendingNoticeApprover') : t('poApprovals.pendingNotice')}
+        </div>
+      )}
+
       <div className="grid gap-6 md:grid-cols-2">
         <Card>
           <CardHeader>
@@ -141,6 +198,12 @@ export default async function PurchaseOrderDetailPage({ params }: PageProps) {
               <span className="text-sm text-gray-500">{t('purchaseOrders.expectedDate')}:</span>
               <p>{po.expected_date ? formatDate(po.expected_date, locale) : '-'}</p>
             </div>
+            {po.sent_at && (
+              <div>
+                <span className="text-sm text-gray-500">{t('purchaseOrders.sentToSupplier')}:</span>
+                <p>{po.sent_to} · {formatDateTime(po.sent_at, locale)}</p>
+              </div>
+            )}
             {po.notes && (
               <div>
                 <span className="text-sm text-gray-500">{t('common.notes')}:</span>
@@ -182,6 +245,9 @@ export default async function PurchaseOrderDetailPage({ params }: PageProps) {
                       </TableCell>
                       <TableCell className="text-right">
                         {line.qty_ordered} {t(`uom.${line.product?.base_uom}`)}
+                        {formatEnteredQty(line) && (
+                          <p className="text-xs text-gray-500">{formatEnteredQty(line)}</p>
+                        )}
                       </TableCell>
                       <TableCell className="text-right">
                         {line.qty_received} {t(`uom.${line.product?.base_uom}`)}
@@ -215,6 +281,242 @@ export default async function PurchaseOrderDetailPage({ params }: PageProps) {
         </CardContent>
       </Card>
 
+      {receipts.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('purchaseOrders.receipts')}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('purchaseOrders.receipt')}</TableHead>
+                    <TableHead className="text-right">{t('purchaseOrders.received')}</TableHead>
+                    <TableHead>{t('common.status')}</TableHead>
+                    <TableHead className="text-right">{t('common.actions')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {receipts.map((receipt, index) => (
+                    <TableRow key={receipt.id}>
+                      <TableCell>
+                        {t('landedCosts.receiptLabel', {
+                          number: index + 1,
+                          date: formatDate(receipt.received_at, locale),
+                        })}
+                        {(receipt.lines || []).some((line) => line.bin) && (
+                          <p className="text-xs text-gray-500">
+                            {t('purchaseOrders.putawayBin')}:{' '}
+                            {[...new Set((receipt.lines || []).flatMap((line) => (line.bin ? [line.bin.name] : [])))].join(', ')}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {(receipt.lines || []).reduce((sum, line) => sum + Number(line.qty), 0)}
+                        <SerialNumberList serials={(receipt.lines || []).flatMap((line) => line.serial_numbers || [])} />
+                      </TableCell>
+                      <TableCell>
+                        {receipt.voided_at ? (
+                          <div>
+                            <Badge className="bg-gray-100 text-gray-500 line-through">
+                              {t('common.voided')}
+                            </Badge>
+                            {receipt.void_reason && (
+                              <p className="mt-1 text-sm text-gray-500">{receipt.void_reason}</p>
+                            )}
+                          </div>
+                        ) : (
+                          <Badge className="bg-green-100 text-green-800">
+                            {t('common.completed')}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {!receipt.voided_at && (
+                          <VoidDocumentButton
+                            size="sm"
+                            onVoid={voidPurchaseOrderReceipt.bind(null, po.id, receipt.id)}
+                          />
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {approvals.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('poApprovals.history')}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('common.date')}</TableHead>
+                    <TableHead>{t('poApprovals.decision')}</TableHead>
+                    <TableHead>{t('poApprovals.decidedBy')}</TableHead>
+                    <TableHead className="text-right">{t('purchaseOrders.orderTotal')}</TableHead>
+                    <TableHead>{t('poApprovals.comment')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {approvals.map((approval) => (
+                    <TableRow key={approval.id}>
+                      <TableCell>{formatDateTime(approval.decided_at, locale)}</TableCell>
+                      <TableCell>
+                        <Badge
+                          className={approval.decision === 'approved' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}
+                        >
+                          {t(`poApprovals.decisions.${approval.decision}`)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{approval.decided_by_user?.name || '-'}</TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(Number(approval.order_total), currency, locale)}
+                      </TableCell>
+                      <TableCell className="text-sm">{approval.comment || '-'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>{t('landedCosts.title')}</CardTitle>
+          {hasActiveReceipts && po.status !== 'cancelled' && (
+            <LandedCostForm poId={po.id} receipts={receipts} />
+          )}
+        </CardHeader>
+        <CardContent>
+          {landedCosts.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              {hasActiveReceipts ? t('landedCosts.empty') : t('landedCosts.receiveFirst')}
+            </p>
+          ) : (
+            <>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('common.date')}</TableHead>
+                      <TableHead>{t('landedCosts.chargeType')}</TableHead>
+                      <TableHead>{t('landedCosts.appliesTo')}</TableHead>
+                      <TableHead>{t('landedCosts.allocationMethod')}</TableHead>
+                      <TableHead className="text-right">{t('common.amount')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {landedCosts.map((cost) => {
+                      const receiptIndex = receipts.findIndex((r) => r.id === cost.receipt_id)
+                      return (
+                        <TableRow key={cost.id}>
+                          <TableCell>{formatDate(cost.created_at, locale)}</TableCell>
+                          <TableCell>
+                            <div>
+                              <span>{t(`landedCosts.chargeTypes.${cost.charge_type}`)}</span>
+                              {cost.description && (
+                                <p className="text-sm text-gray-600">{cost.description}</p>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            {receiptIndex >= 0
+                              ? t('landedCosts.receiptLabel', {
+                                  number: receiptIndex + 1,
+                                  date: formatDate(receipts[receiptIndex].received_at, locale),
+                                })
+                              : t('landedCosts.allReceipts')}
+                          </TableCell>
+                          <TableCell>{t(`landedCosts.allocationMethods.${cost.allocation_method}`)}</TableCell>
+                          <TableCell className="text-right font-medium">
+                            {formatCurrency(cost.amount, currency, locale)}
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+              <div className="mt-4 text-right text-sm font-medium">
+                {t('landedCosts.total')}: {formatCurrency(landedCostTotal, currency, locale)}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {(canInvoice || invoices.length > 0) && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>{t('supplierInvoices.title')}</CardTitle>
+            {canInvoice && (
+              <Link href={`/supplier-invoices/new?po=${po.id}`}>
+                <Button variant="outline" size="sm">
+                  <Plus className="mr-2 h-4 w-4" />
+                  {t('supplierInvoices.recordInvoice')}
+                </Button>
+              </Link>
+            )}
+          </CardHeader>
+          <CardContent>
+            {invoices.length === 0 ? (
+              <p className="text-sm text-gray-500">{t('supplierInvoices.noInvoicesForPo')}</p>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('supplierInvoices.invoiceNumber')}</TableHead>
+                      <TableHead>{t('supplierInvoices.invoiceDate')}</TableHead>
+                      <TableHead>{t('common.status')}</TableHead>
+                      <TableHead className="text-right">{t('supplierInvoices.invoiceTotal')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {invoices.map((invoice) => (
+                      <TableRow key={invoice.id}>
+                        <TableCell>
+                          <Link href={`/supplier-invoices/${invoice.id}`} className="font-mono text-blue-600 hover:underline">
+                            {invoice.invoice_number}
+                          </Link>
+                        </TableCell>
+                        <TableCell>{formatDate(invoice.invoice_date, locale)}</TableCell>
+                        <TableCell>
+                          <Badge className={invoiceStatusColors[invoice.status] || ''}>
+                            {invoice.status === 'cancelled' ? t('common.cancelled') : t(`supplierInvoices.${invoice.status}`)}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right font-medium">
+                          {formatCurrency(
+                            (invoice.lines || []).reduce(
+                              (sum, line) => sum + Number(line.qty_invoiced) * Number(line.unit_price),
+                              0
+                            ),
+                            currency,
+                            locale
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       <DocumentUpload
         entityType="purchase_order"
         entityId={po.id}
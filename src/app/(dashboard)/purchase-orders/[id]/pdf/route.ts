@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { buildPurchaseOrderPdf } from '@/lib/purchase-order-pdf'
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  const pdf = await buildPurchaseOrderPdf(supabase, id)
+  if (!pdf) {
+    return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 })
+  }
+
+  return new NextResponse(Buffer.from(pdf.content), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${pdf.fileName}"`,
+      'Cache-Control': 'no-store',
+    },
+  })
+}
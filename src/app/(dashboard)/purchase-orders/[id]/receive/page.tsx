@@ -39,7 +39,9 @@ export default async function ReceivePage({ params }: PageProps) {
         qty_ordered,
         qty_received,
         unit_cost,
-        product:products(id, sku, name, base_uom, track_expiry, track_lot)
+        entered_qty,
+        entered_uom,
+        product:products(id, sku, name, base_uom, allow_decimal_qty, track_expiry, track_lot, track_serial, units:product_units(*))
       )
     `)
     .eq('id', id)
@@ -75,6 +77,23 @@ export default async function ReceivePage({ params }: PageProps) {
     (line: any) => line.qty_ordered > line.qty_received
   )
 
+  // Bins to put the goods away in, and what they already hold
+  const { data: bins } = await supabase
+    .from('locations')
+    .select('id, name')
+    .eq('parent_id', po.location_id)
+    .eq('type', 'bin')
+    .eq('active', true)
+    .order('name')
+
+  const { data: binBalances } = bins && bins.length > 0
+    ? await supabase
+        .from('inventory_balances')
+        .select('product_id, location_id, qty_on_hand')
+        .in('location_id', bins.map((bin) => bin.id))
+        .gt('qty_on_hand', 0)
+    : { data: [] }
+
   return (
     <div className="space-y-6">
       <div className="flex items-center gap-4">
@@ -96,7 +115,14 @@ export default async function ReceivePage({ params }: PageProps) {
         </div>
       </div>
 
-      <ReceiveForm poId={id} lines={linesToReceive || []} currency={currency} locale={locale} />
+      <ReceiveForm
+        poId={id}
+        lines={linesToReceive || []}
+        bins={bins || []}
+        binBalances={binBalances || []}
+        currency={currency}
+        locale={locale}
+      />
     </div>
   )
 }
@@ -0,0 +1,137 @@
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ArrowLeft } from 'lucide-react'
+import { PoDecisionForm } from '@/components/forms/po-decision-form'
+import { resolvePoApproval, canApprovePo } from '@/lib/po-approval-utils'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import { getTranslator, getLocale } from '@/lib/i18n/server'
+import type { Tenant, UserRole } from '@/types'
+
+interface PendingOrder {
+  id: string
+  po_number: string
+  order_date: string
+  supplier: { id: string; name: string } | null
+  location: { id: string; name: string } | null
+  lines: { qty_ordered: number; unit_cost: number }[]
+}
+
+export default async function PurchaseOrderApprovalsPage() {
+  const supabase = await createClient()
+  const t = await getTranslator()
+  const locale = await getLocale()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  const { data: userData } = await supabase
+    .from('users')
+    .select('role, tenant:tenants(settings)')
+    .eq('id', user?.id)
+    .single()
+
+  const settings = (userData?.tenant as { settings?: Partial<Tenant['settings']> })?.settings
+  if (!canApprovePo(resolvePoApproval(settings?.po_approval), userData?.role as UserRole | undefined)) {
+    redirect('/purchase-orders')
+  }
+  const currency = settings?.default_currency || 'USD'
+
+  const { data, error } = await supabase
+    .from('purchase_orders')
+    .select(`
+      id, po_number, order_date,
+      supplier:suppliers(id, name),
+      location:locations(id, name),
+      lines:purchase_order_lines(qty_ordered, unit_cost)
+    `)
+    .eq('status', 'pending_approval')
+    .order('updated_at')
+
+  if (error) {
+    return <div className="text-red-600">{t('errors.serverError')}: {error.message}</div>
+  }
+
+  const orders = (data || []) as unknown as PendingOrder[]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Link href="/purchase-orders">
+          <Button variant="ghost" size="icon">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{t('poApprovals.queueTitle')}</h1>
+          <p className="text-gray-600">{t('poApprovals.queueSubtitle')}</p>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('purchaseOrders.poNumber')}</TableHead>
+                  <TableHead>{t('purchaseOrders.supplier')}</TableHead>
+                  <TableHead>{t('purchaseOrders.receiveToLocation')}</TableHead>
+                  <TableHead>{t('purchaseOrders.orderDate')}</TableHead>
+                  <TableHead className="text-right">{t('purchaseOrders.orderTotal')}</TableHead>
+                  <TableHead className="w-[220px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {orders.length > 0 ? (
+                  orders.map((order) => {
+                    const total = order.lines.reduce(
+                      (sum, line) => sum + Number(line.qty_ordered) * Number(line.unit_cost),
+                      0
+                    )
+
+                    return (
+                      <TableRow key={order.id}>
+                        <TableCell>
+                          <Link href={`/purchase-orders/${order.id}`} className="font-mono text-blue-600 hover:underline">
+                            {order.po_number}
+                          </Link>
+                        </TableCell>
+                        <TableCell>{order.supplier?.name || '-'}</TableCell>
+                        <TableCell>{order.location?.name || '-'}</TableCell>
+                        <TableCell>{formatDate(order.order_date, locale)}</TableCell>
+                        <TableCell className="text-right font-medium">
+                          {formatCurrency(total, currency, locale)}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-2">
+                            <PoDecisionForm poId={order.id} poNumber={order.po_number} decision="approved" size="sm" />
+                            <PoDecisionForm poId={order.id} poNumber={order.po_number} decision="rejected" size="sm" />
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={6} className="h-24 text-center text-gray-500">
+                      {t('poApprovals.queueEmpty')}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
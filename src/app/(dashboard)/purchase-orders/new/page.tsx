@@ -20,10 +20,11 @@ export default async function NewPurchaseOrderPage() {
 
   const currency = (userData?.tenant as { settings?: { default_currency?: string } })?.settings?.default_currency || 'USD'
 
-  const [suppliersRes, locationsRes, productsRes] = await Promise.all([
+  const [suppliersRes, locationsRes, productsRes, supplierProductsRes] = await Promise.all([
     supabase.from('suppliers').select('*').eq('active', true).order('name'),
-    supabase.from('locations').select('*').eq('active', true).order('name'),
-    supabase.from('products').select('*').eq('active', true).order('sku'),
+    supabase.from('locations').select('*').eq('active', true).neq('type', 'bin').order('name'),
+    supabase.from('products').select('*, units:product_units(*)').eq('active', true).is('variant_options', null).order('sku'),
+    supabase.from('supplier_products').select('*'),
   ])
 
   return (
@@ -44,6 +45,7 @@ export default async function NewPurchaseOrderPage() {
         suppliers={suppliersRes.data || []}
         locations={locationsRes.data || []}
         products={productsRes.data || []}
+        supplierProducts={supplierProductsRes.data || []}
         currency={currency}
         locale={locale}
       />
@@ -1,9 +1,11 @@
 import Link from 'next/link'
 import { createClient } from '@/lib/supabase/server'
 import { Button } from '@/components/ui/button'
-import { Plus } from 'lucide-react'
+import { Plus, ClipboardCheck } from 'lucide-react'
 import { PurchaseOrdersTable } from '@/components/tables/purchase-orders-table'
+import { resolvePoApproval, canApprovePo } from '@/lib/po-approval-utils'
 import { getTranslator } from '@/lib/i18n/server'
+import type { Tenant, UserRole } from '@/types'
 
 export default async function PurchaseOrdersPage() {
   const supabase = await createClient()
@@ -22,6 +24,17 @@ export default async function PurchaseOrdersPage() {
     return <div className="text-red-600">{t('errors.serverError')}: {error.message}</div>
   }
 
+  const { data: { user } } = await supabase.auth.getUser()
+  const { data: userData } = await supabase
+    .from('users')
+    .select('role, tenant:tenants(settings)')
+    .eq('id', user?.id)
+    .single()
+
+  const settings = (userData?.tenant as { settings?: Partial<Tenant['settings']> })?.settings
+  const canApprove = canApprovePo(resolvePoApproval(settings?.po_approval), userData?.role as UserRole | undefined)
+  const pendingCount = (purchaseOrders || []).filter((po) => po.status === 'pending_approval').length
+
   return (
     <div className="space-y-6">
       <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
@@ -29,12 +42,22 @@ export default async function PurchaseOrdersPage() {
           <h1 className="text-2xl font-bold text-gray-900">{t('purchaseOrders.title')}</h1>
           <p className="text-gray-600">{t('purchaseOrders.subtitle')}</p>
         </div>
-        <Link href="/purchase-orders/new">
-          <Button>
-            <Plus className="mr-2 h-4 w-4" />
-            {t('purchaseOrders.newPO')}
-          </Button>
-        </Link>
+        <div className="flex gap-2">
+          {canApprove && (
+            <Link href="/purchase-orders/approvals">
+              <Button variant="outline">
+                <ClipboardCheck className="mr-2 h-4 w-4" />
+                {t('poApprovals.queueLink', { count: pendingCount })}
+              </Button>
+            </Link>
+          )}
+          <Link href="/purchase-orders/new">
+            <Button>
+              <Plus className="mr-2 h-4 w-4" />
+              {t('purchaseOrders.newPO')}
+            </Button>
+          </Link>
+        </div>
       </div>
 
       <PurchaseOrdersTable data={purchaseOrders || []} />
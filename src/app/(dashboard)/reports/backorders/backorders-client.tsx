@@ -0,0 +1,292 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import Link from 'next/link'
+import {
+  ColumnDef,
+  flexRender,
+  getCoreRowModel,
+  getPaginationRowModel,
+  getSortedRowModel,
+  getFilteredRowModel,
+  useReactTable,
+  SortingState,
+} from '@tanstack/react-table'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useTranslation } from '@/lib/i18n'
+import { formatDate } from '@/lib/utils'
+
+export interface BackorderData {
+  id: string
+  customer_id: string | null
+  customer_name: string | null
+  product_id: string
+  sku: string
+  name: string
+  base_uom: string
+  qty_outstanding: number
+  oldest_date: string
+  shipments: { id: string; shipment_number: string }[]
+}
+
+interface BackordersClientProps {
+  data: BackorderData[]
+  customers: string[]
+}
+
+export function BackordersClient({ data, customers }: BackordersClientProps) {
+  const [sorting, setSorting] = useState<SortingState>([])
+  const [globalFilter, setGlobalFilter] = useState('')
+  const [customerFilter, setCustomerFilter] = useState<string>('all')
+  const { t, locale } = useTranslation()
+
+  // Filter data based on all filters
+  const filteredData = useMemo(() => {
+    let result = data
+
+    if (customerFilter !== 'all') {
+      result = result.filter((item) => item.customer_name === customerFilter)
+    }
+
+    if (globalFilter) {
+      const search = globalFilter.toLowerCase()
+      result = result.filter(
+        (item) =>
+          item.sku?.toLowerCase().includes(search) ||
+          item.name?.toLowerCase().includes(search) ||
+          item.customer_name?.toLowerCase().includes(search)
+      )
+    }
+
+    return result
+  }, [data, customerFilter, globalFilter])
+
+  // Summary stats from filtered data
+  const { customerCount, productCount, shipmentCount } = useMemo(() => ({
+    customerCount: new Set(filteredData.map((item) => item.customer_name || '')).size,
+    productCount: new Set(filteredData.map((item) => item.product_id)).size,
+    shipmentCount: new Set(filteredData.flatMap((item) => item.shipments.map((s) => s.id))).size,
+  }), [filteredData])
+
+  // Table columns
+  const columns: ColumnDef<BackorderData>[] = useMemo(
+    () => [
+      {
+        accessorKey: 'customer_name',
+        header: t('shipments.customer'),
+        cell: ({ row }) => row.original.customer_name || '-',
+      },
+      {
+        accessorKey: 'sku',
+        header: t('products.sku'),
+        cell: ({ row }) => <span className="font-mono">{row.original.sku}</span>,
+      },
+      {
+        accessorKey: 'name',
+        header: t('products.product'),
+      },
+      {
+        accessorKey: 'qty_outstanding',
+        header: t('reports.outstanding'),
+        cell: ({ row }) => (
+          <span className="font-medium text-orange-600">
+            {row.original.qty_outstanding} {t(`uom.${row.original.base_uom}`)}
+          </span>
+        ),
+      },
+      {
+        id: 'shipments',
+        header: t('nav.shipments'),
+        cell: ({ row }) => (
+          <div className="flex flex-wrap gap-2">
+            {row.original.shipments.map((shipment) => (
+              <Link
+                key={shipment.id}
+                href={`/shipments/${shipment.id}`}
+                className="font-mono text-blue-600 hover:underline"
+              >
+                {shipment.shipment_number}
+              </Link>
+            ))}
+          </div>
+        ),
+      },
+      {
+        accessorKey: 'oldest_date',
+        header: t('reports.oldestOrder'),
+        cell: ({ row }) => formatDate(row.original.oldest_date, locale),
+      },
+    ],
+    [t, locale]
+  )
+
+  const table = useReactTable({
+    data: filteredData,
+    columns,
+    getCoreRowModel: getCoreRowModel(),
+    getPaginationRowModel: getPaginationRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+    onSortingChange: setSorting,
+    state: { sorting },
+    initialState: {
+      pagination: { pageSize: 15 },
+    },
+  })
+
+  return (
+    <div className="space-y-6">
+      {/* Summary Cards */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm font-medium text-gray-500">
+              {t('reports.customersWaiting')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold text-orange-600">{customerCount}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm font-medium text-gray-500">
+              {t('reports.productsBackordered')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{productCount}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm font-medium text-gray-500">
+              {t('reports.openShipments')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{shipmentCount}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Table Card */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('reports.backorders')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {/* Filters Row */}
+            <div className="flex flex-wrap gap-4">
+              <Input
+                placeholder={t('reports.search')}
+                value={globalFilter}
+                onChange={(e) => setGlobalFilter(e.target.value)}
+                className="max-w-sm"
+              />
+              <Select value={customerFilter} onValueChange={setCustomerFilter}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue placeholder={t('shipments.customer')} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t('reports.allCustomers')}</SelectItem>
+                  {customers.map((customer) => (
+                    <SelectItem key={customer} value={customer}>
+                      {customer}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Table */}
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  {table.getHeaderGroups().map((headerGroup) => (
+                    <TableRow key={headerGroup.id}>
+                      {headerGroup.headers.map((header) => (
+                        <TableHead key={header.id}>
+                          {header.isPlaceholder
+                            ? null
+                            : flexRender(header.column.columnDef.header, header.getContext())}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableHeader>
+                <TableBody>
+                  {table.getRowModel().rows?.length ? (
+                    table.getRowModel().rows.map((row) => (
+                      <TableRow key={row.id}>
+                        {row.getVisibleCells().map((cell) => (
+                          <TableCell key={cell.id}>
+                            {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={columns.length} className="h-24 text-center">
+                        {t('reports.noBackorders')}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+
+            {/* Pagination */}
+            <div className="flex items-center justify-between">
+              <div className="text-sm text-muted-foreground">
+                {t('table.showing')} {table.getRowModel().rows.length} {t('table.of')}{' '}
+                {filteredData.length} {t('table.entries')}
+              </div>
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => table.previousPage()}
+                  disabled={!table.getCanPreviousPage()}
+                >
+                  {t('common.previous')}
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  {t('table.page')} {table.getState().pagination.pageIndex + 1} {t('table.of')}{' '}
+                  {table.getPageCount() || 1}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => table.nextPage()}
+                  disabled={!table.getCanNextPage()}
+                >
+                  {t('common.next')}
+                </Button>
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+'use client'
+
+import { ExportButton } from '@/components/export-button'
+import { useTranslation } from '@/lib/i18n'
+
+interface BackordersExportData {
+  [key: string]: unknown
+  customer: string
+  sku: string
+  product: string
+  uom: string
+  outstanding: number
+  shipments: string
+  oldest_date: string
+}
+
+interface BackordersExportProps {
+  data: BackordersExportData[]
+}
+
+export function BackordersExport({ data }: BackordersExportProps) {
+  const { t } = useTranslation()
+
+  const columns: { key: keyof BackordersExportData; header: string }[] = [
+    { key: 'customer', header: t('shipments.customer') },
+    { key: 'sku', header: t('products.sku') },
+    { key: 'product', header: t('products.product') },
+    { key: 'uom', header: t('reports.unit') },
+    { key: 'outstanding', header: t('reports.outstanding') },
+    { key: 'shipments', header: t('nav.shipments') },
+    { key: 'oldest_date', header: t('reports.oldestOrder') },
+  ]
+
+  return (
+    <ExportButton
+      data={data}
+      columns={columns}
+      filename={`backorders-report-${new Date().toISOString().split('T')[0]}`}
+    />
+  )
+}
@@ -0,0 +1,98 @@
+import { createClient } from '@/lib/supabase/server'
+import Link from 'next/link'
+import { ArrowLeft } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { BackordersExport } from './backorders-export'
+import { BackordersClient, type BackorderData } from './backorders-client'
+import { getTranslator } from '@/lib/i18n/server'
+
+export default async function BackordersReportPage() {
+  const supabase = await createClient()
+  const t = await getTranslator()
+
+  // Outstanding lines on partial shipments and open backorders
+  const { data: lines } = await supabase
+    .from('shipment_backorders')
+    .select(`
+      line_id,
+      shipment_id,
+      shipment_number,
+      customer_id,
+      customer_name,
+      product_id,
+      qty_outstanding,
+      created_at
+    `)
+    .order('created_at')
+
+  const productIds = Array.from(new Set((lines || []).map((line) => line.product_id)))
+  const { data: products } = productIds.length > 0
+    ? await supabase
+        .from('products')
+        .select('id, sku, name, base_uom')
+        .in('id', productIds)
+    : { data: [] }
+
+  const productsById = new Map((products || []).map((p) => [p.id, p]))
+
+  // One row per customer and product, oldest open shipment first
+  const grouped = new Map<string, BackorderData>()
+  lines?.forEach((line) => {
+    const key = `${line.customer_id || line.customer_name || ''}|${line.product_id}`
+    const product = productsById.get(line.product_id)
+    const current: BackorderData = grouped.get(key) || {
+      id: key,
+      customer_id: line.customer_id,
+      customer_name: line.customer_name,
+      product_id: line.product_id,
+      sku: product?.sku || '',
+      name: product?.name || '',
+      base_uom: product?.base_uom || '',
+      qty_outstanding: 0,
+      oldest_date: line.created_at,
+      shipments: [],
+    }
+    current.qty_outstanding += Number(line.qty_outstanding)
+    if (!current.shipments.some((s) => s.id === line.shipment_id)) {
+      current.shipments.push({ id: line.shipment_id, shipment_number: line.shipment_number })
+    }
+    grouped.set(key, current)
+  })
+  const backorders = Array.from(grouped.values())
+
+  const customers = Array.from(
+    new Set(backorders.map((b) => b.customer_name).filter((name): name is string => !!name))
+  ).sort((a, b) => a.localeCompare(b))
+
+  // Prepare export data with all fields
+  const exportData = backorders.map((item) => ({
+    customer: item.customer_name || '',
+    sku: item.sku,
+    product: item.name,
+    uom: item.base_uom,
+    outstanding: item.qty_outstanding,
+    shipments: item.shipments.map((s) => s.shipment_number).join(', '),
+    oldest_date: item.oldest_date.split('T')[0],
+  }))
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Link href="/reports">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{t('reports.backorders')}</h1>
+            <p className="text-gray-600">{t('reports.backordersDesc')}</p>
+          </div>
+        </div>
+        <BackordersExport data={exportData} />
+      </div>
+
+      <BackordersClient data={backorders} customers={customers} />
+    </div>
+  )
+}
@@ -0,0 +1,248 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { useRouter } from 'next/navigation'
+import { useForm, useFieldArray } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ShoppingCart, Trash2, Loader2 } from 'lucide-react'
+import { createReplenishmentSchema, type ReplenishmentFormData } from '@/lib/validations/purchase-order'
+import { generatePurchaseOrders } from '@/lib/actions/purchase-orders'
+import { useTranslation } from '@/lib/i18n'
+import type { LowStockData, ReplenishmentDefaults } from './low-stock-client'
+
+interface GeneratePurchaseOrdersDialogProps {
+  items: LowStockData[]
+  replenishment: Record<string, ReplenishmentDefaults>
+  suppliers: { id: string; name: string }[]
+  locations: { id: string; name: string }[]
+}
+
+export function GeneratePurchaseOrdersDialog({
+  items,
+  replenishment,
+  suppliers,
+  locations,
+}: GeneratePurchaseOrdersDialogProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const { t } = useTranslation()
+  const schema = useMemo(() => createReplenishmentSchema(t), [t])
+
+  // Suggested quantities from reorder_qty or max_stock, less what is already on
+  // order and rounded to the supplier's minimum and pack size
+  const buildDefaults = (): ReplenishmentFormData => ({
+    lines: items.map((item) => ({
+      product_id: item.id,
+      supplier_id: replenishment[item.id]?.supplier_id || '',
+      location_id: replenishment[item.id]?.location_id || locations[0]?.id || '',
+      qty: replenishment[item.id]?.suggested_qty || item.reorder_qty,
+      unit_cost: replenishment[item.id]?.unit_cost ?? item.current_cost,
+    })),
+  })
+
+  const {
+    control,
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    setError,
+    setValue,
+    watch,
+  } = useForm<ReplenishmentFormData>({
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    resolver: zodResolver(schema) as any,
+    defaultValues: buildDefaults(),
+  })
+
+  const { fields, remove } = useFieldArray({ control, name: 'lines' })
+
+  const onSubmit = async (data: ReplenishmentFormData) => {
+    setIsSubmitting(true)
+    try {
+      const result = await generatePurchaseOrders(data)
+      if (result.error) {
+        if ('_form' in result.error && result.error._form) {
+          setError('root', { message: result.error._form[0] })
+        } else {
+          setError('root', { message: t('reports.replenishment.invalidLines') })
+        }
+        return
+      }
+      toast.success(t('toast.purchaseOrdersGenerated', { count: result.ids?.length || 0 }))
+      setOpen(false)
+      router.push('/purchase-orders')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleOpenChange = (newOpen: boolean) => {
+    setOpen(newOpen)
+    if (newOpen) reset(buildDefaults())
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" disabled={items.length === 0}>
+          <ShoppingCart className="mr-2 h-4 w-4" />
+          {t('reports.replenishment.generate', { count: items.length })}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('reports.replenishment.title')}</DialogTitle>
+          <DialogDescription>{t('reports.replenishment.description')}</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('products.product')}</TableHead>
+                  <TableHead className="text-right">{t('reports.onHand')}</TableHead>
+                  <TableHead className="text-right">{t('reports.replenishment.onOrder')}</TableHead>
+                  <TableHead className="w-[110px]">{t('common.quantity')}</TableHead>
+                  <TableHead className="w-[180px]">{t('purchaseOrders.supplier')}</TableHead>
+                  <TableHead className="w-[180px]">{t('purchaseOrders.receiveToLocation')}</TableHead>
+                  <TableHead className="w-[110px]">{t('purchaseOrders.unitCost')}</TableHead>
+                  <TableHead className="w-[60px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {fields.map((field, index) => {
+                  const item = items.find((i) => i.id === field.product_id)
+                  const lineErrors = errors.lines?.[index]
+
+                  return (
+                    <TableRow key={field.id}>
+                      <TableCell>
+                        <span className="font-mono text-sm">{item?.sku}</span>
+                        <span className="block text-sm text-gray-500">{item?.name}</span>
+                      </TableCell>
+                      <TableCell className="text-right">{item?.total_on_hand}</TableCell>
+                      <TableCell className="text-right">{replenishment[field.product_id]?.on_order || 0}</TableCell>
+                      <TableCell>
+                        <Input type="number" step="any" min="0" {...register(`lines.${index}.qty`)} />
+                        {lineErrors?.qty && (
+                          <p className="text-xs text-red-500">{lineErrors.qty.message}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={watch(`lines.${index}.supplier_id`) || undefined}
+                          onValueChange={(value) => {
+                            setValue(`lines.${index}.supplier_id`, value)
+                            const price = replenishment[field.product_id]?.prices[value]
+                            if (price !== undefined) setValue(`lines.${index}.unit_cost`, price)
+                          }}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder={t('purchaseOrders.selectSupplier')} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {suppliers.map((supplier) => (
+                              <SelectItem key={supplier.id} value={supplier.id}>
+                                {supplier.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {lineErrors?.supplier_id && (
+                          <p className="text-xs text-red-500">{lineErrors.supplier_id.message}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={watch(`lines.${index}.location_id`) || undefined}
+                          onValueChange={(value) => setValue(`lines.${index}.location_id`, value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder={t('shipments.selectLocation')} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {locations.map((location) => (
+                              <SelectItem key={location.id} value={location.id}>
+                                {location.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {lineErrors?.location_id && (
+                          <p className="text-xs text-red-500">{lineErrors.location_id.message}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Input type="number" step="0.01" min="0" {...register(`lines.${index}.unit_cost`)} />
+                        {lineErrors?.unit_cost && (
+                          <p className="text-xs text-red-500">{lineErrors.unit_cost.message}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {fields.length > 1 && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => remove(index)}
+                            className="h-8 w-8 p-0 text-red-600"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </div>
+
+          <p className="text-sm text-gray-500">{t('reports.replenishment.grouping')}</p>
+
+          {errors.root && (
+            <p className="text-sm text-red-500">{errors.root.message}</p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('reports.replenishment.create')}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
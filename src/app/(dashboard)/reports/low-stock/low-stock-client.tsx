@@ -33,6 +33,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
 import {
   Select,
   SelectContent,
@@ -42,6 +43,7 @@ import {
 } from '@/components/ui/select'
 import { useTranslation } from '@/lib/i18n'
 import { formatCurrency } from '@/lib/utils'
+import { GeneratePurchaseOrdersDialog } from './generate-purchase-orders-dialog'
 
 export interface LowStockData {
   id: string
@@ -56,9 +58,26 @@ export interface LowStockData {
   total_on_hand: number
 }
 
+// Prefill for generating a purchase order line
+export interface ReplenishmentDefaults {
+  on_order: number
+  suggested_qty: number
+  // Supplier, destination and cost of the product's latest purchase order
+  supplier_id: string | null
+  location_id: string | null
+  unit_cost: number
+  // Catalogue price per supplier
+  prices: Record<string, number>
+}
+
 interface LowStockClientProps {
   data: LowStockData[]
+  // Variants combined into their parent product
+  rolledUpData: LowStockData[]
   categories: { id: string; name: string }[]
+  replenishment: Record<string, ReplenishmentDefaults>
+  suppliers: { id: string; name: string }[]
+  locations: { id: string; name: string }[]
   currency?: string
 }
 
@@ -67,16 +86,27 @@ const COLORS = [
   '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16',
 ]
 
-export function LowStockClient({ data, categories, currency = 'USD' }: LowStockClientProps) {
+export function LowStockClient({
+  data,
+  rolledUpData,
+  categories,
+  replenishment,
+  suppliers,
+  locations,
+  currency = 'USD',
+}: LowStockClientProps) {
   const [sorting, setSorting] = useState<SortingState>([])
   const [globalFilter, setGlobalFilter] = useState('')
   const [categoryFilter, setCategoryFilter] = useState<string>('all')
   const [statusFilter, setStatusFilter] = useState<string>('all')
+  const [variantView, setVariantView] = useState<string>('variants')
+  // Purchase orders are raised per variant, so rows are only selectable unrolled
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
   const { t, locale } = useTranslation()
 
   // Filter data based on all filters
   const filteredData = useMemo(() => {
-    let result = data
+    let result = variantView === 'parents' ? rolledUpData : data
 
     if (categoryFilter !== 'all') {
       result = result.filter((item) => item.category_id === categoryFilter)
@@ -99,7 +129,7 @@ export function LowStockClient({ data, categories, currency = 'USD' }: LowStockC
     }
 
     return result
-  }, [data, categoryFilter, statusFilter, globalFilter])
+  }, [data, rolledUpData, variantView, categoryFilter, statusFilter, globalFilter])
 
   // Chart data from filtered data
   const chartData = useMemo(() => {
@@ -144,9 +174,46 @@ export function LowStockClient({ data, categories, currency = 'USD' }: LowStockC
     [currency, locale, t]
   )
 
+  const selectable = variantView === 'variants'
+  const selectedItems = useMemo(
+    () => (selectable ? data.filter((item) => selectedIds.has(item.id)) : []),
+    [data, selectable, selectedIds]
+  )
+
+  const handleSelectAll = useCallback((checked: boolean) => {
+    setSelectedIds(checked ? new Set(filteredData.map((item) => item.id)) : new Set())
+  }, [filteredData])
+
+  const handleSelectOne = useCallback((id: string, checked: boolean) => {
+    setSelectedIds((current) => {
+      const next = new Set(current)
+      if (checked) {
+        next.add(id)
+      } else {
+        next.delete(id)
+      }
+      return next
+    })
+  }, [])
+
   // Table columns
   const columns: ColumnDef<LowStockData>[] = useMemo(
     () => [
+      ...(selectable ? [{
+        id: 'select',
+        header: () => (
+          <Checkbox
+            checked={filteredData.length > 0 && filteredData.every((item) => selectedIds.has(item.id))}
+            onCheckedChange={(checked) => handleSelectAll(checked as boolean)}
+          />
+        ),
+        cell: ({ row }) => (
+          <Checkbox
+            checked={selectedIds.has(row.original.id)}
+            onCheckedChange={(checked) => handleSelectOne(row.original.id, checked as boolean)}
+          />
+        ),
+      } as ColumnDef<LowStockData>] : []),
       {
         accessorKey: 'sku',
         header: t('products.sku'),
@@ -195,8 +262,13 @@ export function LowStockClient({ data, categories, currency = 'USD' }: LowStockC
           )
         },
       },
+      ...(selectable ? [{
+        id: 'suggested_qty',
+        header: t('reports.replenishment.suggestedQty'),
+        cell: ({ row }) => replenishment[row.original.id]?.suggested_qty ?? '-',
+      } as ColumnDef<LowStockData>] : []),
     ],
-    [t]
+    [t, selectable, filteredData, selectedIds, handleSelectAll, handleSelectOne, replenishment]
   )
 
   const table = useReactTable({
@@ -290,8 +362,16 @@ export function LowStockClient({ data, categories, currency = 'USD' }: LowStockC
 
       {/* Table Card */}
       <Card>
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between">
           <CardTitle>{`${filteredData.length} ${t('reports.productsNeedReordering')}`}</CardTitle>
+          {selectable && (
+            <GeneratePurchaseOrdersDialog
+              items={selectedItems}
+              replenishment={replenishment}
+              suppliers={suppliers}
+              locations={locations}
+            />
+          )}
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
@@ -326,6 +406,15 @@ export function LowStockClient({ data, categories, currency = 'USD' }: LowStockC
                   <SelectItem value="low">{t('reports.statusLow')}</SelectItem>
                 </SelectContent>
               </Select>
+              <Select value={variantView} onValueChange={setVariantView}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="variants">{t('reports.showVariants')}</SelectItem>
+                  <SelectItem value="parents">{t('reports.rollUpToParent')}</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
 
             {/* Table */}
@@ -3,13 +3,24 @@ import Link from 'next/link'
 import { ArrowLeft } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { LowStockExport } from './low-stock-export'
-import { LowStockClient, type LowStockData } from './low-stock-client'
+import { LowStockClient, type LowStockData, type ReplenishmentDefaults } from './low-stock-client'
 import { getTranslator } from '@/lib/i18n/server'
+import { suggestOrderQty, applySupplierTerms } from '@/lib/replenishment-utils'
+import type { SupplierProduct } from '@/types'
 
 export default async function LowStockReportPage() {
   const supabase = await createClient()
   const t = await getTranslator()
 
+  const { data: { user } } = await supabase.auth.getUser()
+  const { data: userData } = await supabase
+    .from('users')
+    .select('tenant:tenants(settings)')
+    .eq('id', user?.id)
+    .single()
+
+  const currency = (userData?.tenant as { settings?: { default_currency?: string } })?.settings?.default_currency || 'USD'
+
   // Get products with their total stock across all locations
   const { data: products } = await supabase
     .from('products')
@@ -20,15 +31,25 @@ export default async function LowStockReportPage() {
       base_uom,
       reorder_point,
       reorder_qty,
+      max_stock,
+      allow_decimal_qty,
       current_cost,
       category_id,
       category:categories(name),
+      parent_id,
       active
     `)
     .eq('active', true)
+    .is('variant_options', null)
     .gt('reorder_point', 0)
     .order('sku')
 
+  // Variant parents hold no stock themselves; they're only used to roll up
+  const { data: parents } = await supabase
+    .from('products')
+    .select('id, sku, name, base_uom, current_cost, category_id, category:categories(name)')
+    .not('variant_options', 'is', null)
+
   // Get categories for filter
   const { data: categories } = await supabase
     .from('categories')
@@ -48,8 +69,7 @@ export default async function LowStockReportPage() {
     stockByProduct.set(b.product_id, current + b.qty_on_hand)
   })
 
-  // Filter products that are below reorder point
-  const lowStock: LowStockData[] = (products || [])
+  const allItems: (LowStockData & { parent_id: string | null })[] = (products || [])
     .map((p) => ({
       id: p.id,
       sku: p.sku,
@@ -62,10 +82,118 @@ export default async function LowStockReportPage() {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       category_name: (p.category as any)?.name || null,
       total_on_hand: stockByProduct.get(p.id) || 0,
+      parent_id: p.parent_id,
     }))
+
+  // Filter products that are below reorder point
+  const belowReorderPoint = (items: LowStockData[]) => items
     .filter((p) => p.total_on_hand < p.reorder_point)
     .sort((a, b) => a.total_on_hand - b.total_on_hand)
 
+  const lowStock = belowReorderPoint(allItems)
+
+  // Open purchase order lines for the low stock products: quantities still to
+  // arrive, and the supplier, destination and cost they were last bought at
+  const lowStockIds = lowStock.map((item) => item.id)
+  const [{ data: poLines }, { data: catalogue }, { data: suppliers }, { data: locations }] = await Promise.all([
+    supabase
+      .from('purchase_order_lines')
+      .select('product_id, qty_ordered, qty_received, unit_cost, po:purchase_orders!inner(supplier_id, location_id, order_date, status)')
+      .in('product_id', lowStockIds)
+      .neq('po.status', 'cancelled'),
+    supabase
+      .from('supplier_products')
+      .select('*')
+      .in('product_id', lowStockIds),
+    supabase.from('suppliers').select('id, name').eq('active', true).order('name'),
+    supabase.from('locations').select('id, name').eq('active', true).neq('type', 'bin').order('name'),
+  ])
+
+  type POLine = {
+    product_id: string
+    qty_ordered: number
+    qty_received: number
+    unit_cost: number
+    po: { supplier_id: string; location_id: string; order_date: string; status: string }
+  }
+  const lastLineByProduct = new Map<string, POLine>()
+  const onOrderByProduct = new Map<string, number>()
+  const openLines = (poLines || []) as unknown as POLine[]
+  openLines.forEach((line) => {
+    if (['draft', 'confirmed', 'partial'].includes(line.po.status)) {
+      const outstanding = Math.max(0, line.qty_ordered - line.qty_received)
+      onOrderByProduct.set(line.product_id, (onOrderByProduct.get(line.product_id) || 0) + outstanding)
+    }
+    const last = lastLineByProduct.get(line.product_id)
+    if (!last || line.po.order_date > last.po.order_date) {
+      lastLineByProduct.set(line.product_id, line)
+    }
+  })
+
+  const replenishment: Record<string, ReplenishmentDefaults> = {}
+  lowStock.forEach((item) => {
+    const product = products?.find((p) => p.id === item.id)
+    if (!product) return
+    const onOrder = onOrderByProduct.get(item.id) || 0
+    const last = lastLineByProduct.get(item.id)
+
+    // Catalogue prices in the tenant's currency, by supplier
+    const entries = ((catalogue || []) as SupplierProduct[]).filter((sp) => sp.product_id === item.id)
+    const prices: Record<string, number> = {}
+    entries.forEach((sp) => {
+      const price = sp.contract_price ?? sp.last_price
+      if (price !== null && (!sp.currency || sp.currency === currency)) prices[sp.supplier_id] = price
+    })
+
+    // The preferred supplier wins over whoever the product was last bought from
+    const preferred = entries.find((sp) => sp.preferred)
+    const supplierId = preferred?.supplier_id || last?.po.supplier_id || null
+    const suggestedQty = suggestOrderQty(product, item.total_on_hand, onOrder)
+    const terms = entries.find((sp) => sp.supplier_id === supplierId)
+
+    replenishment[item.id] = {
+      on_order: onOrder,
+      suggested_qty: terms && suggestedQty > 0 ? applySupplierTerms(suggestedQty, terms) : suggestedQty,
+      supplier_id: supplierId,
+      location_id: last?.po.location_id || null,
+      unit_cost: supplierId && supplierId in prices
+        ? prices[supplierId]
+        : last && last.po.supplier_id === supplierId ? last.unit_cost : item.current_cost,
+      prices,
+    }
+  })
+
+  // Roll variants up to their parent: combined on hand against combined reorder points
+  const rolledUp = new Map<string, typeof allItems[number]>()
+  const standalone: LowStockData[] = []
+  allItems.forEach((item) => {
+    const parent = parents?.find((p) => p.id === item.parent_id)
+    if (!parent) {
+      standalone.push(item)
+      return
+    }
+    const current = rolledUp.get(parent.id)
+    if (current) {
+      current.reorder_point += item.reorder_point
+      current.reorder_qty += item.reorder_qty
+      current.total_on_hand += item.total_on_hand
+      return
+    }
+    rolledUp.set(parent.id, {
+      ...item,
+      parent_id: null,
+      id: parent.id,
+      sku: parent.sku,
+      name: parent.name,
+      base_uom: parent.base_uom,
+      current_cost: parent.current_cost,
+      category_id: parent.category_id,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      category_name: (parent.category as any)?.name || null,
+    })
+  })
+  const lowStockByParent = belowReorderPoint([...standalone, ...rolledUp.values()])
+
   // Prepare export data with all fields
   const exportData = lowStock.map((item) => ({
     sku: item.sku,
@@ -99,7 +227,12 @@ export default async function LowStockReportPage() {
 
       <LowStockClient
         data={lowStock}
+        rolledUpData={lowStockByParent}
         categories={categories || []}
+        replenishment={replenishment}
+        suppliers={suppliers || []}
+        locations={locations || []}
+        currency={currency}
       />
     </div>
   )
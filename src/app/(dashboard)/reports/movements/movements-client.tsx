@@ -50,6 +50,7 @@ import type { MovementType } from '@/types'
 
 export interface MovementData {
   id: string
+  effective_date: string
   created_at: string
   movement_type: MovementType
   qty: number
@@ -88,6 +89,8 @@ const referenceTypeToPath: Record<string, string> = {
   adjustment: '/adjustments',
   cycle_count: '/cycle-counts',
   return: '/returns',
+  assembly: '/assemblies',
+  supplier_invoice: '/supplier-invoices',
 }
 
 const MOVEMENT_COLORS: Record<string, string> = {
@@ -100,6 +103,12 @@ const MOVEMENT_COLORS: Record<string, string> = {
   return_in: '#06b6d4',
   return_out: '#f97316',
   void: '#6b7280',
+  assembly_consume: '#a16207',
+  assembly_produce: '#14b8a6',
+  bin_move: '#64748b',
+  transfer_loss: '#b91c1c',
+  transfer_return: '#0ea5e9',
+  cost_adjustment: '#a16207',
 }
 
 export function MovementsClient({ data, locations, currency = 'USD' }: MovementsClientProps) {
@@ -119,6 +128,12 @@ export function MovementsClient({ data, locations, currency = 'USD' }: Movements
     return_in: t('movementTypes.return_in'),
     return_out: t('movementTypes.return_out'),
     void: t('movementTypes.void'),
+    assembly_consume: t('movementTypes.assembly_consume'),
+    assembly_produce: t('movementTypes.assembly_produce'),
+    bin_move: t('movementTypes.bin_move'),
+    transfer_loss: t('movementTypes.transfer_loss'),
+    transfer_return: t('movementTypes.transfer_return'),
+    cost_adjustment: t('movementTypes.cost_adjustment'),
   }), [t])
 
   // Filter data based on all filters
@@ -161,7 +176,7 @@ export function MovementsClient({ data, locations, currency = 'USD' }: Movements
     }
 
     filteredData.forEach((item) => {
-      const dateStr = item.created_at.split('T')[0]
+      const dateStr = item.effective_date
       if (groupedByDate.has(dateStr)) {
         groupedByDate.set(dateStr, (groupedByDate.get(dateStr) || 0) + 1)
       }
@@ -211,9 +226,9 @@ export function MovementsClient({ data, locations, currency = 'USD' }: Movements
   const columns: ColumnDef<MovementData>[] = useMemo(
     () => [
       {
-        accessorKey: 'created_at',
+        accessorKey: 'effective_date',
         header: t('common.date'),
-        cell: ({ row }) => formatDate(row.original.created_at, locale),
+        cell: ({ row }) => formatDate(row.original.effective_date, locale),
       },
       {
         accessorKey: 'movement_type',
@@ -324,6 +339,8 @@ export function MovementsClient({ data, locations, currency = 'USD' }: Movements
   const movementTypes = [
     'receive', 'ship', 'transfer_out', 'transfer_in',
     'adjustment', 'count_variance', 'return_in', 'return_out',
+    'assembly_consume', 'assembly_produce', 'bin_move',
+    'transfer_loss', 'transfer_return', 'cost_adjustment',
   ]
 
   return (
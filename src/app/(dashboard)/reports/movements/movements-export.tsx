@@ -6,6 +6,7 @@ import { useTranslation } from '@/lib/i18n'
 interface MovementExportData {
   [key: string]: unknown
   date: string
+  posted_at: string
   type: string
   sku: string
   product: string
@@ -33,6 +34,7 @@ export function MovementsExport({ data }: MovementsExportProps) {
 
   const columns: { key: keyof MovementExportData; header: string }[] = [
     { key: 'date', header: t('common.date') },
+    { key: 'posted_at', header: t('reports.postedAt') },
     { key: 'type', header: t('locations.type') },
     { key: 'document_number', header: t('reports.documentNumber') },
     { key: 'sku', header: t('products.sku') },
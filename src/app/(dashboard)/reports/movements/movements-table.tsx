@@ -36,6 +36,7 @@ import type { MovementType } from '@/types'
 
 export interface MovementData {
   id: string
+  effective_date: string
   created_at: string
   movement_type: MovementType
   qty: number
@@ -74,6 +75,8 @@ const referenceTypeToPath: Record<string, string> = {
   adjustment: '/adjustments',
   cycle_count: '/cycle-counts',
   return: '/returns',
+  assembly: '/assemblies',
+  supplier_invoice: '/supplier-invoices',
 }
 
 export function MovementsTable({ data, locations, currency = 'USD' }: MovementsTableProps) {
@@ -93,6 +96,12 @@ export function MovementsTable({ data, locations, currency = 'USD' }: MovementsT
     return_in: t('movementTypes.return_in'),
     return_out: t('movementTypes.return_out'),
     void: t('movementTypes.void'),
+    assembly_consume: t('movementTypes.assembly_consume'),
+    assembly_produce: t('movementTypes.assembly_produce'),
+    bin_move: t('movementTypes.bin_move'),
+    transfer_loss: t('movementTypes.transfer_loss'),
+    transfer_return: t('movementTypes.transfer_return'),
+    cost_adjustment: t('movementTypes.cost_adjustment'),
   }
 
   const filteredData = useMemo(() => {
@@ -112,9 +121,9 @@ export function MovementsTable({ data, locations, currency = 'USD' }: MovementsT
   const columns: ColumnDef<MovementData>[] = useMemo(
     () => [
       {
-        accessorKey: 'created_at',
+        accessorKey: 'effective_date',
         header: t('common.date'),
-        cell: ({ row }) => formatDate(row.original.created_at, locale),
+        cell: ({ row }) => formatDate(row.original.effective_date, locale),
       },
       {
         accessorKey: 'movement_type',
@@ -233,6 +242,12 @@ export function MovementsTable({ data, locations, currency = 'USD' }: MovementsT
     'count_variance',
     'return_in',
     'return_out',
+    'assembly_consume',
+    'assembly_produce',
+    'bin_move',
+    'transfer_loss',
+    'transfer_return',
+    'cost_adjustment',
   ]
 
   return (
@@ -125,6 +125,36 @@ async function enrichMovementsWithDocuments(
     )
   }
 
+  if (refsByType.has('assembly')) {
+    const ids = Array.from(refsByType.get('assembly')!)
+    fetchPromises.push(
+      (async () => {
+        const { data } = await supabase
+          .from('assemblies')
+          .select('id, assembly_number')
+          .in('id', ids)
+        const map = new Map<string, { number: string }>()
+        data?.forEach((d) => map.set(d.id, { number: d.assembly_number }))
+        docMaps.set('assembly', map)
+      })()
+    )
+  }
+
+  if (refsByType.has('supplier_invoice')) {
+    const ids = Array.from(refsByType.get('supplier_invoice')!)
+    fetchPromises.push(
+      (async () => {
+        const { data } = await supabase
+          .from('supplier_invoices')
+          .select('id, invoice_number')
+          .in('id', ids)
+        const map = new Map<string, { number: string }>()
+        data?.forEach((d) => map.set(d.id, { number: d.invoice_number }))
+        docMaps.set('supplier_invoice', map)
+      })()
+    )
+  }
+
   await Promise.all(fetchPromises)
 
   // Enrich movements with document numbers and locations
@@ -150,6 +180,7 @@ export default async function MovementsReportPage() {
     .from('stock_movements')
     .select(`
       id,
+      effective_date,
       created_at,
       movement_type,
       qty,
@@ -163,6 +194,7 @@ export default async function MovementsReportPage() {
       product:products(id, sku, name, base_uom),
       location:locations(id, name)
     `)
+    .order('effective_date', { ascending: false })
     .order('created_at', { ascending: false })
     .limit(500)
 
@@ -179,7 +211,8 @@ export default async function MovementsReportPage() {
 
   // Prepare export data with all fields
   const exportData = enrichedMovements.map((m) => ({
-    date: m.created_at,
+    date: m.effective_date,
+    posted_at: m.created_at,
     type: m.movement_type,
     sku: m.product?.sku || '',
     product: m.product?.name || '',
@@ -0,0 +1,291 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import {
+  ColumnDef,
+  flexRender,
+  getCoreRowModel,
+  getPaginationRowModel,
+  getSortedRowModel,
+  getFilteredRowModel,
+  useReactTable,
+  SortingState,
+} from '@tanstack/react-table'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useTranslation } from '@/lib/i18n'
+import { formatCurrency, formatDate } from '@/lib/utils'
+
+export interface NegativeStockData {
+  id: string
+  product_id: string
+  sku: string
+  name: string
+  base_uom: string
+  location_id: string
+  location_name: string
+  lot_number: string | null
+  qty_on_hand: number
+  // Provisional cost of the open deficits, corrected when receipts cover them
+  deficit_value: number
+  oldest_at: string | null
+}
+
+interface NegativeStockClientProps {
+  data: NegativeStockData[]
+  locations: { id: string; name: string }[]
+  costCorrections: number
+  currency?: string
+}
+
+export function NegativeStockClient({
+  data,
+  locations,
+  costCorrections,
+  currency = 'USD',
+}: NegativeStockClientProps) {
+  const [sorting, setSorting] = useState<SortingState>([])
+  const [globalFilter, setGlobalFilter] = useState('')
+  const [locationFilter, setLocationFilter] = useState<string>('all')
+  const { t, locale } = useTranslation()
+
+  // Filter data based on all filters
+  const filteredData = useMemo(() => {
+    let result = data
+
+    if (locationFilter !== 'all') {
+      result = result.filter((item) => item.location_id === locationFilter)
+    }
+
+    if (globalFilter) {
+      const search = globalFilter.toLowerCase()
+      result = result.filter(
+        (item) =>
+          item.sku?.toLowerCase().includes(search) ||
+          item.name?.toLowerCase().includes(search) ||
+          item.lot_number?.toLowerCase().includes(search)
+      )
+    }
+
+    return result
+  }, [data, locationFilter, globalFilter])
+
+  // Summary stats from filtered data
+  const { productCount, deficitValue } = useMemo(() => ({
+    productCount: new Set(filteredData.map((item) => item.product_id)).size,
+    deficitValue: filteredData.reduce((sum, item) => sum + item.deficit_value, 0),
+  }), [filteredData])
+
+  // Table columns
+  const columns: ColumnDef<NegativeStockData>[] = useMemo(
+    () => [
+      {
+        accessorKey: 'location_name',
+        header: t('stock.location'),
+      },
+      {
+        accessorKey: 'sku',
+        header: t('products.sku'),
+        cell: ({ row }) => <span className="font-mono">{row.original.sku}</span>,
+      },
+      {
+        accessorKey: 'name',
+        header: t('products.product'),
+      },
+      {
+        accessorKey: 'lot_number',
+        header: t('reports.lotNumber'),
+        cell: ({ row }) => row.original.lot_number || '-',
+      },
+      {
+        accessorKey: 'qty_on_hand',
+        header: t('reports.onHand'),
+        cell: ({ row }) => (
+          <span className="font-medium text-red-600">
+            {row.original.qty_on_hand} {t(`uom.${row.original.base_uom}`)}
+          </span>
+        ),
+      },
+      {
+        accessorKey: 'deficit_value',
+        header: t('reports.deficitValue'),
+        cell: ({ row }) => formatCurrency(row.original.deficit_value, currency, locale),
+      },
+      {
+        accessorKey: 'oldest_at',
+        header: t('reports.negativeSince'),
+        cell: ({ row }) => (row.original.oldest_at ? formatDate(row.original.oldest_at, locale) : '-'),
+      },
+    ],
+    [t, locale, currency]
+  )
+
+  const table = useReactTable({
+    data: filteredData,
+    columns,
+    getCoreRowModel: getCoreRowModel(),
+    getPaginationRowModel: getPaginationRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+    onSortingChange: setSorting,
+    state: { sorting },
+    initialState: {
+      pagination: { pageSize: 15 },
+    },
+  })
+
+  return (
+    <div className="space-y-6">
+      {/* Summary Cards */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm font-medium text-gray-500">
+              {t('reports.productsBelowZero')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold text-red-600">{productCount}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm font-medium text-gray-500">
+              {t('reports.deficitValue')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{formatCurrency(deficitValue, currency, locale)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm font-medium text-gray-500">
+              {t('reports.costCorrections')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{formatCurrency(costCorrections, currency, locale)}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Table Card */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('reports.negativeStock')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {/* Filters Row */}
+            <div className="flex flex-wrap gap-4">
+              <Input
+                placeholder={t('reports.search')}
+                value={globalFilter}
+                onChange={(e) => setGlobalFilter(e.target.value)}
+                className="max-w-sm"
+              />
+              <Select value={locationFilter} onValueChange={setLocationFilter}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue placeholder={t('reports.filterByLocation')} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t('reports.allLocations')}</SelectItem>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Table */}
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  {table.getHeaderGroups().map((headerGroup) => (
+                    <TableRow key={headerGroup.id}>
+                      {headerGroup.headers.map((header) => (
+                        <TableHead key={header.id}>
+                          {header.isPlaceholder
+                            ? null
+                            : flexRender(header.column.columnDef.header, header.getContext())}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableHeader>
+                <TableBody>
+                  {table.getRowModel().rows?.length ? (
+                    table.getRowModel().rows.map((row) => (
+                      <TableRow key={row.id}>
+                        {row.getVisibleCells().map((cell) => (
+                          <TableCell key={cell.id}>
+                            {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={columns.length} className="h-24 text-center">
+                        {t('reports.noNegativeStock')}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+
+            {/* Pagination */}
+            <div className="flex items-center justify-between">
+              <div className="text-sm text-muted-foreground">
+                {t('table.showing')} {table.getRowModel().rows.length} {t('table.of')}{' '}
+                {filteredData.length} {t('table.entries')}
+              </div>
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => table.previousPage()}
+                  disabled={!table.getCanPreviousPage()}
+                >
+                  {t('common.previous')}
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  {t('table.page')} {table.getState().pagination.pageIndex + 1} {t('table.of')}{' '}
+                  {table.getPageCount() || 1}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => table.nextPage()}
+                  disabled={!table.getCanNextPage()}
+                >
+                  {t('common.next')}
+                </Button>
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+'use client'
+
+import { ExportButton } from '@/components/export-button'
+import { useTranslation } from '@/lib/i18n'
+
+interface NegativeStockExportData {
+  [key: string]: unknown
+  location: string
+  sku: string
+  product: string
+  lot_number: string
+  uom: string
+  qty_on_hand: number
+  deficit_value: number
+  since: string
+}
+
+interface NegativeStockExportProps {
+  data: NegativeStockExportData[]
+}
+
+export function NegativeStockExport({ data }: NegativeStockExportProps) {
+  const { t } = useTranslation()
+
+  const columns: { key: keyof NegativeStockExportData; header: string }[] = [
+    { key: 'location', header: t('stock.location') },
+    { key: 'sku', header: t('products.sku') },
+    { key: 'product', header: t('products.product') },
+    { key: 'lot_number', header: t('reports.lotNumber') },
+    { key: 'uom', header: t('reports.unit') },
+    { key: 'qty_on_hand', header: t('reports.onHand') },
+    { key: 'deficit_value', header: t('reports.deficitValue') },
+    { key: 'since', header: t('reports.negativeSince') },
+  ]
+
+  return (
+    <ExportButton
+      data={data}
+      columns={columns}
+      filename={`negative-stock-report-${new Date().toISOString().split('T')[0]}`}
+    />
+  )
+}
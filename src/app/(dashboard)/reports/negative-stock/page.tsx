@@ -0,0 +1,125 @@
+import { createClient } from '@/lib/supabase/server'
+import Link from 'next/link'
+import { ArrowLeft } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { NegativeStockExport } from './negative-stock-export'
+import { NegativeStockClient, type NegativeStockData } from './negative-stock-client'
+import { getTranslator } from '@/lib/i18n/server'
+import type { Tenant } from '@/types'
+
+export default async function NegativeStockReportPage() {
+  const supabase = await createClient()
+  const t = await getTranslator()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  const { data: userData } = await supabase
+    .from('users')
+    .select('tenant:tenants(settings)')
+    .eq('id', user?.id)
+    .single()
+
+  const settings = (userData?.tenant as { settings?: Partial<Tenant['settings']> })?.settings
+  const currency = settings?.default_currency || 'USD'
+
+  // Balances below zero with the provisional value of their open deficits
+  const { data: balances } = await supabase
+    .from('negative_stock')
+    .select('balance_id, product_id, location_id, lot_number, expiry_date, qty_on_hand, deficit_value, oldest_at')
+    .order('qty_on_hand')
+
+  // Corrections already posted by receipts that covered a deficit
+  const { data: settledDeficits } = await supabase
+    .from('negative_stock_deficits')
+    .select('qty, remaining_qty, unit_cost, settled_value')
+
+  const costCorrections = (settledDeficits || []).reduce(
+    (sum, deficit) =>
+      sum + Number(deficit.settled_value) - (Number(deficit.qty) - Number(deficit.remaining_qty)) * Number(deficit.unit_cost),
+    0
+  )
+
+  const productIds = Array.from(new Set((balances || []).map((balance) => balance.product_id)))
+  const { data: products } = productIds.length > 0
+    ? await supabase
+        .from('products')
+        .select('id, sku, name, base_uom')
+        .in('id', productIds)
+    : { data: [] }
+
+  const { data: locations } = await supabase
+    .from('locations')
+    .select('id, name, type, parent_id')
+    .order('name')
+
+  const productsById = new Map((products || []).map((p) => [p.id, p]))
+  const locationsById = new Map((locations || []).map((l) => [l.id, l]))
+
+  // Bins read as "Warehouse › Bin"
+  const locationName = (locationId: string) => {
+    const location = locationsById.get(locationId)
+    if (!location) return ''
+    const warehouse = location.type === 'bin' && location.parent_id ? locationsById.get(location.parent_id) : undefined
+    return warehouse ? `${warehouse.name} › ${location.name}` : location.name
+  }
+
+  const negativeStock: NegativeStockData[] = (balances || []).map((balance) => {
+    const product = productsById.get(balance.product_id)
+    return {
+      id: balance.balance_id,
+      product_id: balance.product_id,
+      sku: product?.sku || '',
+      name: product?.name || '',
+      base_uom: product?.base_uom || '',
+      location_id: balance.location_id,
+      location_name: locationName(balance.location_id),
+      lot_number: balance.lot_number,
+      qty_on_hand: Number(balance.qty_on_hand),
+      deficit_value: Number(balance.deficit_value),
+      oldest_at: balance.oldest_at,
+    }
+  })
+
+  const locationOptions = Array.from(
+    new Map(negativeStock.map((item) => [item.location_id, item.location_name])).entries()
+  )
+    .map(([id, name]) => ({ id, name }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+
+  // Prepare export data with all fields
+  const exportData = negativeStock.map((item) => ({
+    location: item.location_name,
+    sku: item.sku,
+    product: item.name,
+    lot_number: item.lot_number || '',
+    uom: item.base_uom,
+    qty_on_hand: item.qty_on_hand,
+    deficit_value: item.deficit_value,
+    since: item.oldest_at ? item.oldest_at.split('T')[0] : '',
+  }))
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Link href="/reports">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{t('reports.negativeStock')}</h1>
+            <p className="text-gray-600">{t('reports.negativeStockDesc')}</p>
+          </div>
+        </div>
+        <NegativeStockExport data={exportData} />
+      </div>
+
+      <NegativeStockClient
+        data={negativeStock}
+        locations={locationOptions}
+        costCorrections={costCorrections}
+        currency={currency}
+      />
+    </div>
+  )
+}
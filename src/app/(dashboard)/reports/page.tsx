@@ -1,6 +1,6 @@
 import Link from 'next/link'
 import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { FileText, AlertTriangle, Clock, BarChart3 } from 'lucide-react'
+import { FileText, AlertTriangle, Clock, BarChart3, PackageX, MinusCircle } from 'lucide-react'
 import { getTranslator } from '@/lib/i18n/server'
 
 export default async function ReportsPage() {
@@ -31,6 +31,18 @@ export default async function ReportsPage() {
       href: '/reports/expiring',
       icon: Clock,
     },
+    {
+      title: t('reports.backorders'),
+      description: t('reports.backordersDesc'),
+      href: '/reports/backorders',
+      icon: PackageX,
+    },
+    {
+      title: t('reports.negativeStock'),
+      description: t('reports.negativeStockDesc'),
+      href: '/reports/negative-stock',
+      icon: MinusCircle,
+    },
   ]
 
   return (
@@ -4,22 +4,55 @@ import Link from 'next/link'
 import { ArrowLeft } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { ValuationExport } from './valuation-export'
+import { AsOfDatePicker } from '@/components/as-of-date-picker'
 import { ValuationClient, type ValuationData } from './valuation-client'
-import { getTranslator } from '@/lib/i18n/server'
+import { getTranslator, getLocale } from '@/lib/i18n/server'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import { buildVariantParentMap } from '@/lib/variant-utils'
+import type { Tenant } from '@/types'
 
-export default async function ValuationReportPage() {
+interface ValuationReportPageProps {
+  searchParams: Promise<{ as_of?: string }>
+}
+
+export default async function ValuationReportPage({ searchParams }: ValuationReportPageProps) {
+  const { as_of } = await searchParams
+  // A past date reconstructs the position from the movement ledger
+  const asOf = as_of && /^\d{4}-\d{2}-\d{2}$/.test(as_of) ? as_of : undefined
   const supabase = await createClient()
   const t = await getTranslator()
+  const locale = await getLocale()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  const { data: userData } = await supabase
+    .from('users')
+    .select('tenant:tenants(settings)')
+    .eq('id', user?.id)
+    .single()
+
+  const settings = (userData?.tenant as { settings?: Partial<Tenant['settings']> })?.settings
+  const costingMethod = settings?.costing_method || 'weighted_average'
+  const currency = settings?.default_currency || 'USD'
 
   // Use calculated stock (from stock_movements) as source of truth
-  const { data: balances } = await supabase.rpc('get_calculated_stock')
+  const { data: balances } = asOf
+    ? await supabase.rpc('get_stock_as_of', { p_as_of: asOf })
+    : await supabase.rpc('get_calculated_stock')
 
   const { data: locations } = await supabase
     .from('locations')
-    .select('id, name')
+    .select('id, name, type, parent_id')
     .eq('active', true)
     .order('name')
 
+  // Sent transfers still on the road are part of inventory value too - only known for today
+  const { data: inTransit } = asOf ? { data: [] } : await supabase
+    .from('in_transit_stock')
+    .select('transfer_id, inventory_value')
+
+  const inTransitValue = (inTransit || []).reduce((sum, line) => sum + Number(line.inventory_value), 0)
+  const inTransitTransfers = new Set((inTransit || []).map((line) => line.transfer_id)).size
+
   // Get categories for chart grouping and filtering
   const { data: categories } = await supabase
     .from('categories')
@@ -27,6 +60,12 @@ export default async function ValuationReportPage() {
     .eq('active', true)
     .order('name')
 
+  // Variants and their parents, for rolling stock up to the parent
+  const { data: variantProducts } = await supabase
+    .from('products')
+    .select('id, sku, name, parent_id')
+    .or('parent_id.not.is.null,variant_options.not.is.null')
+
   // Prepare table data
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const tableData: ValuationData[] = balances?.map((b: any, index: number) => ({
@@ -67,16 +106,40 @@ export default async function ValuationReportPage() {
           </Link>
           <div>
             <h1 className="text-2xl font-bold text-gray-900">{t('reports.valuation')}</h1>
-            <p className="text-gray-600">{t('reports.valuationDesc')}</p>
+            <p className="text-gray-600">
+              {asOf ? t('stock.asOfSubtitle', { date: formatDate(asOf, locale) }) : t('reports.valuationDesc')}
+            </p>
+            <p className="text-sm text-gray-500">
+              {t('settings.costingMethod')}: {t(`settings.costingMethods.${costingMethod}`)}
+            </p>
           </div>
         </div>
-        <ValuationExport data={exportData} />
+        <div className="flex items-center gap-2">
+          <AsOfDatePicker value={asOf} />
+          <ValuationExport data={exportData} asOf={asOf} />
+        </div>
       </div>
 
+      {inTransitValue > 0 && (
+        <Card>
+          <CardContent className="flex items-center justify-between pt-6">
+            <div>
+              <p className="font-medium">{t('stock.inTransit')}</p>
+              <p className="text-sm text-gray-500">
+                {t('reports.inTransitTransfers', { count: inTransitTransfers })}
+              </p>
+            </div>
+            <p className="text-2xl font-bold">{formatCurrency(inTransitValue, currency, locale)}</p>
+          </CardContent>
+        </Card>
+      )}
+
       <ValuationClient
         data={tableData}
         locations={locations || []}
         categories={categories || []}
+        variantParents={buildVariantParentMap(variantProducts || [])}
+        currency={currency}
       />
     </div>
   )
@@ -44,6 +44,9 @@ import {
 } from '@/components/ui/select'
 import { useTranslation } from '@/lib/i18n'
 import { formatCurrency } from '@/lib/utils'
+import { rollUpToParents, type VariantParent } from '@/lib/variant-utils'
+import { buildBinWarehouseMap, rollUpToWarehouses } from '@/lib/bin-utils'
+import type { Location } from '@/types'
 
 export interface ValuationData {
   id: string
@@ -67,8 +70,10 @@ export interface ValuationData {
 
 interface ValuationClientProps {
   data: ValuationData[]
-  locations: { id: string; name: string }[]
+  locations: Pick<Location, 'id' | 'name' | 'type' | 'parent_id'>[]
   categories: { id: string; name: string }[]
+  // Variant product id -> parent product
+  variantParents: Record<string, VariantParent>
   currency?: string
 }
 
@@ -81,14 +86,20 @@ export function ValuationClient({
   data,
   locations,
   categories,
+  variantParents,
   currency = 'USD',
 }: ValuationClientProps) {
   const [sorting, setSorting] = useState<SortingState>([])
   const [globalFilter, setGlobalFilter] = useState('')
   const [locationFilter, setLocationFilter] = useState<string>('all')
   const [categoryFilter, setCategoryFilter] = useState<string>('all')
+  const [variantView, setVariantView] = useState<string>('variants')
+  const [binView, setBinView] = useState<string>('bins')
   const { t, locale } = useTranslation()
 
+  const binWarehouses = useMemo(() => buildBinWarehouseMap(locations), [locations])
+  const hasBins = Object.keys(binWarehouses).length > 0
+
   // Create categories map for lookup
   const categoriesMap = useMemo(
     () => new Map(categories.map((c) => [c.id, c.name])),
@@ -97,10 +108,16 @@ export function ValuationClient({
 
   // Filter data based on all filters
   const filteredData = useMemo(() => {
-    let result = data
+    let result = variantView === 'parents' ? rollUpToParents(data, variantParents) : data
+    if (binView === 'warehouses') {
+      result = rollUpToWarehouses(result, binWarehouses)
+    }
 
+    // A warehouse filter includes the stock in its bins
     if (locationFilter !== 'all') {
-      result = result.filter((item) => item.location_id === locationFilter)
+      result = result.filter(
+        (item) => item.location_id === locationFilter || binWarehouses[item.location_id]?.id === locationFilter
+      )
     }
 
     if (categoryFilter !== 'all') {
@@ -118,7 +135,7 @@ export function ValuationClient({
     }
 
     return result
-  }, [data, locationFilter, categoryFilter, globalFilter])
+  }, [data, variantParents, variantView, binWarehouses, binView, locationFilter, categoryFilter, globalFilter])
 
   // Chart data calculated from filtered data
   const chartData = useMemo(() => {
@@ -391,6 +408,26 @@ export function ValuationClient({
                   ))}
                 </SelectContent>
               </Select>
+              <Select value={variantView} onValueChange={setVariantView}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="variants">{t('reports.showVariants')}</SelectItem>
+                  <SelectItem value="parents">{t('reports.rollUpToParent')}</SelectItem>
+                </SelectContent>
+              </Select>
+              {hasBins && (
+                <Select value={binView} onValueChange={setBinView}>
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="bins">{t('reports.showBins')}</SelectItem>
+                    <SelectItem value="warehouses">{t('reports.rollUpToWarehouse')}</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
             </div>
 
             {/* Table */}
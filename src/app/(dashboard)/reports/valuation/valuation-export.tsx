@@ -18,9 +18,10 @@ interface ValuationExportData {
 
 interface ValuationExportProps {
   data: ValuationExportData[]
+  asOf?: string
 }
 
-export function ValuationExport({ data }: ValuationExportProps) {
+export function ValuationExport({ data, asOf }: ValuationExportProps) {
   const { t } = useTranslation()
 
   const columns: { key: keyof ValuationExportData; header: string }[] = [
@@ -39,7 +40,7 @@ export function ValuationExport({ data }: ValuationExportProps) {
     <ExportButton
       data={data}
       columns={columns}
-      filename={`inventory-valuation-${new Date().toISOString().split('T')[0]}`}
+      filename={`inventory-valuation-${asOf || new Date().toISOString().split('T')[0]}`}
     />
   )
 }
@@ -25,8 +25,11 @@ export default async function EditReturnPage({ params }: PageProps) {
         id,
         product_id,
         qty,
+        entered_qty,
+        entered_uom,
         lot_number,
-        expiry_date
+        expiry_date,
+        serial_numbers
       )
     `)
     .eq('id', id)
@@ -40,7 +43,7 @@ export default async function EditReturnPage({ params }: PageProps) {
     supabase.from('customers').select('*').eq('active', true).order('name'),
     supabase.from('suppliers').select('*').eq('active', true).order('name'),
     supabase.from('locations').select('*').eq('active', true).order('name'),
-    supabase.from('products').select('*').eq('active', true).order('sku'),
+    supabase.from('products').select('*, units:product_units(*)').eq('active', true).is('variant_options', null).order('sku'),
     supabase.from('calculated_stock').select('*'),
   ])
 
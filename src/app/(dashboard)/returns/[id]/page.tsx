@@ -14,9 +14,12 @@ import {
 } from '@/components/ui/table'
 import { ArrowLeft } from 'lucide-react'
 import { formatCurrency, formatDate } from '@/lib/utils'
+import { formatEnteredQty } from '@/lib/uom-utils'
 import { ReturnActions } from '@/components/return-actions'
+import { VoidedNotice } from '@/components/void-document-button'
 import { DocumentUpload } from '@/components/documents/document-upload'
 import { getTranslator, getLocale } from '@/lib/i18n/server'
+import { SerialNumberList } from '@/components/serial-numbers-input'
 
 interface PageProps {
   params: Promise<{ id: string }>
@@ -26,6 +29,7 @@ const statusColors: Record<string, string> = {
   draft: 'bg-gray-100 text-gray-800',
   completed: 'bg-green-100 text-green-800',
   cancelled: 'bg-red-100 text-red-800',
+  voided: 'bg-gray-100 text-gray-500 line-through',
 }
 
 const typeColors: Record<string, string> = {
@@ -58,9 +62,12 @@ export default async function ReturnDetailPage({ params }: PageProps) {
         id,
         product_id,
         qty,
+        entered_qty,
+        entered_uom,
         lot_number,
         expiry_date,
         unit_cost,
+        serial_numbers,
         product:products(id, sku, name, base_uom)
       )
     `)
@@ -80,6 +87,7 @@ export default async function ReturnDetailPage({ params }: PageProps) {
     draft: t('common.draft'),
     completed: t('common.completed'),
     cancelled: t('common.cancelled'),
+    voided: t('common.voided'),
   }
 
   const typeTranslations: Record<string, string> = {
@@ -112,6 +120,10 @@ export default async function ReturnDetailPage({ params }: PageProps) {
         <ReturnActions returnDoc={returnDoc} />
       </div>
 
+      {returnDoc.status === 'voided' && (
+        <VoidedNotice voidedAt={returnDoc.voided_at} reason={returnDoc.void_reason} />
+      )}
+
       <div className="grid gap-6 md:grid-cols-2">
         <Card>
           <CardHeader>
@@ -193,10 +205,14 @@ export default async function ReturnDetailPage({ params }: PageProps) {
                       <div>
                         <span className="font-mono text-sm">{line.product?.sku}</span>
                         <p className="text-sm text-gray-600">{line.product?.name}</p>
+                        <SerialNumberList serials={line.serial_numbers} />
                       </div>
                     </TableCell>
                     <TableCell className="text-center">
                       {line.qty} {t(`uom.${line.product?.base_uom}`)}
+                      {formatEnteredQty(line) && (
+                        <p className="text-xs text-gray-500">{formatEnteredQty(line)}</p>
+                      )}
                     </TableCell>
                     <TableCell className="text-center">{line.lot_number || '-'}</TableCell>
                     <TableCell className="text-center">
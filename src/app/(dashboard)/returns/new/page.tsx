@@ -15,7 +15,7 @@ export default async function NewReturnPage() {
     supabase.from('customers').select('*').eq('active', true).order('name'),
     supabase.from('suppliers').select('*').eq('active', true).order('name'),
     supabase.from('locations').select('*').eq('active', true).order('name'),
-    supabase.from('products').select('*').eq('active', true).order('sku'),
+    supabase.from('products').select('*, units:product_units(*)').eq('active', true).is('variant_options', null).order('sku'),
     supabase.from('calculated_stock').select('*'),
   ])
 
@@ -0,0 +1,5 @@
+import { DetailSkeleton } from '@/components/ui/form-skeleton'
+
+export default function SerialDetailLoading() {
+  return <DetailSkeleton />
+}
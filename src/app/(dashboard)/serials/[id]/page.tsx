@@ -0,0 +1,165 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ArrowLeft } from 'lucide-react'
+import { formatDate } from '@/lib/utils'
+import { getSerialMovements } from '@/lib/actions/serials'
+import { getTranslator, getLocale } from '@/lib/i18n/server'
+
+interface SerialDetailPageProps {
+  params: Promise<{ id: string }>
+}
+
+const statusColors: Record<string, string> = {
+  in_stock: 'bg-green-100 text-green-800',
+  in_transit: 'bg-blue-100 text-blue-800',
+  out: 'bg-gray-100 text-gray-800',
+}
+
+const referenceTypeToPath: Record<string, string> = {
+  po: '/purchase-orders',
+  shipment: '/shipments',
+  transfer: '/transfers',
+  cycle_count: '/cycle-counts',
+  return: '/returns',
+}
+
+export default async function SerialDetailPage({ params }: SerialDetailPageProps) {
+  const { id } = await params
+  const supabase = await createClient()
+  const t = await getTranslator()
+  const locale = await getLocale()
+
+  const { data: serial, error } = await supabase
+    .from('serial_numbers')
+    .select(`
+      *,
+      product:products(id, sku, name),
+      location:locations(id, name)
+    `)
+    .eq('id', id)
+    .single()
+
+  if (error || !serial) {
+    notFound()
+  }
+
+  const { data: movements } = await getSerialMovements(id)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Link href="/serials">
+          <Button variant="ghost" size="icon">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </Link>
+        <div>
+          <div className="flex items-center gap-3">
+            <h1 className="text-2xl font-bold text-gray-900 font-mono">{serial.serial_number}</h1>
+            <Badge className={statusColors[serial.status] || ''}>
+              {t(`serials.statuses.${serial.status}`)}
+            </Badge>
+          </div>
+          <p className="text-gray-600">
+            {serial.product?.sku} {serial.product?.name}
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('serials.unitDetails')}</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-4">
+          <div>
+            <span className="text-sm text-gray-500">{t('products.product')}:</span>
+            <p className="font-medium">
+              <Link href={`/products/${serial.product_id}`} className="text-blue-600 hover:underline">
+                {serial.product?.sku}
+              </Link>
+            </p>
+          </div>
+          <div>
+            <span className="text-sm text-gray-500">{t('stock.location')}:</span>
+            <p className="font-medium">{serial.location?.name || '-'}</p>
+          </div>
+          <div>
+            <span className="text-sm text-gray-500">{t('stock.lotNumber')}:</span>
+            <p className="font-medium">{serial.lot_number || '-'}</p>
+          </div>
+          <div>
+            <span className="text-sm text-gray-500">{t('stock.expiryDate')}:</span>
+            <p className="font-medium">{serial.expiry_date ? formatDate(serial.expiry_date, locale) : '-'}</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('serials.history')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('common.date')}</TableHead>
+                  <TableHead>{t('locations.type')}</TableHead>
+                  <TableHead>{t('stock.location')}</TableHead>
+                  <TableHead>{t('serials.direction')}</TableHead>
+                  <TableHead>{t('reports.documentNumber')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {movements && movements.length > 0 ? (
+                  movements.map((movement) => {
+                    const path = movement.reference_type ? referenceTypeToPath[movement.reference_type] : undefined
+                    return (
+                      <TableRow key={movement.id}>
+                        <TableCell>{formatDate(movement.created_at, locale)}</TableCell>
+                        <TableCell>{t(`movementTypes.${movement.movement_type}`)}</TableCell>
+                        <TableCell>{movement.location?.name || '-'}</TableCell>
+                        <TableCell>
+                          <span className={movement.direction > 0 ? 'text-green-600' : 'text-red-600'}>
+                            {movement.direction > 0 ? t('serials.directionIn') : t('serials.directionOut')}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          {path && movement.reference_id ? (
+                            <Link href={`${path}/${movement.reference_id}`} className="font-mono text-blue-600 hover:underline">
+                              {movement.document_number || t('common.view')}
+                            </Link>
+                          ) : (
+                            '-'
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-24 text-center text-gray-500">
+                      {t('serials.noHistory')}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,17 @@
+import { Skeleton } from '@/components/ui/skeleton'
+import { TableSkeleton } from '@/components/ui/table-skeleton'
+
+export default function SerialsLoading() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <Skeleton className="h-8 w-40 mb-2" />
+        <Skeleton className="h-4 w-64" />
+      </div>
+
+      <Skeleton className="h-10 w-72" />
+
+      <TableSkeleton columns={6} rows={5} />
+    </div>
+  )
+}
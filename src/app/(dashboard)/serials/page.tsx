@@ -0,0 +1,37 @@
+import { createClient } from '@/lib/supabase/server'
+import { SerialNumbersTable } from '@/components/tables/serial-numbers-table'
+import { getTranslator } from '@/lib/i18n/server'
+
+interface SerialsPageProps {
+  searchParams: Promise<{ q?: string }>
+}
+
+export default async function SerialsPage({ searchParams }: SerialsPageProps) {
+  const { q } = await searchParams
+  const supabase = await createClient()
+  const t = await getTranslator()
+
+  const { data: serials, error } = await supabase
+    .from('serial_numbers')
+    .select(`
+      *,
+      product:products(id, sku, name),
+      location:locations(id, name)
+    `)
+    .order('updated_at', { ascending: false })
+
+  if (error) {
+    return <div className="text-red-600">{t('errors.serverError')}: {error.message}</div>
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">{t('serials.title')}</h1>
+        <p className="text-gray-600">{t('serials.subtitle')}</p>
+      </div>
+
+      <SerialNumbersTable data={serials || []} initialSearch={q} />
+    </div>
+  )
+}
@@ -7,12 +7,19 @@ import { LogoutButton } from '@/components/logout-button'
 import { ProfileForm } from '@/components/forms/profile-form'
 import { OrganizationForm } from '@/components/forms/organization-form'
 import { LanguageSelector } from '@/components/forms/language-selector'
-import { ClipboardList } from 'lucide-react'
-import { getTranslator } from '@/lib/i18n/server'
+import { PoApprovalForm } from '@/components/forms/po-approval-form'
+import { InvoiceMatchingForm } from '@/components/forms/invoice-matching-form'
+import { ClipboardList, Lock, Scale } from 'lucide-react'
+import { getTranslator, getLocale } from '@/lib/i18n/server'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import { DOC_NUMBER_TYPES, formatDocNumber, resolveDocNumberFormats } from '@/lib/doc-number-utils'
+import { resolvePoApproval } from '@/lib/po-approval-utils'
+import { resolveInvoiceMatching } from '@/lib/invoice-match-utils'
 
 export default async function SettingsPage() {
   const supabase = await createClient()
   const t = await getTranslator()
+  const locale = await getLocale()
 
   const { data: { user } } = await supabase.auth.getUser()
 
@@ -22,6 +29,20 @@ export default async function SettingsPage() {
     .eq('id', user?.id)
     .single()
 
+  const docNumberFormats = resolveDocNumberFormats(userData?.tenant?.settings?.doc_number_formats)
+  const poApproval = resolvePoApproval(userData?.tenant?.settings?.po_approval)
+  const invoiceMatching = resolveInvoiceMatching(userData?.tenant?.settings?.invoice_matching)
+  const isAdmin = userData?.role === 'admin'
+
+  const [suppliersRes, locationsRes] = isAdmin
+    ? await Promise.all([
+        supabase.from('suppliers').select('id, name').eq('active', true).order('name'),
+        supabase.from('locations').select('id, name').eq('active', true).neq('type', 'bin').order('name'),
+      ])
+    : [{ data: [] }, { data: [] }]
+  const suppliers = suppliersRes.data || []
+  const locations = locationsRes.data || []
+
   return (
     <div className="space-y-6">
       <div>
@@ -65,6 +86,10 @@ export default async function SettingsPage() {
                 currentName={userData?.tenant?.name || ''}
                 currentCurrency={userData?.tenant?.settings?.default_currency || 'USD'}
                 requireAdjustmentApproval={userData?.tenant?.settings?.require_adjustment_approval || false}
+                fefoDefault={userData?.tenant?.settings?.fefo_default || false}
+                costingMethod={userData?.tenant?.settings?.costing_method || 'weighted_average'}
+                allowNegativeStock={userData?.tenant?.settings?.allow_negative_stock || false}
+                docNumberFormats={docNumberFormats}
               />
             )}
           </CardHeader>
@@ -83,6 +108,43 @@ export default async function SettingsPage() {
                 {userData?.tenant?.settings?.require_adjustment_approval ? t('common.yes') : t('common.no')}
               </p>
             </div>
+            <div className="space-y-1">
+              <Label className="text-sm text-gray-500">{t('settings.fefoDefault')}</Label>
+              <p className="font-medium">
+                {userData?.tenant?.settings?.fefo_default ? t('common.yes') : t('common.no')}
+              </p>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-sm text-gray-500">{t('settings.costingMethod')}</Label>
+              <p className="font-medium">
+                {t(`settings.costingMethods.${userData?.tenant?.settings?.costing_method || 'weighted_average'}`)}
+              </p>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-sm text-gray-500">{t('settings.allowNegativeStock')}</Label>
+              <p className="font-medium">
+                {userData?.tenant?.settings?.allow_negative_stock ? t('common.yes') : t('common.no')}
+              </p>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-sm text-gray-500">{t('settings.lockDate')}</Label>
+              <p className="font-medium">
+                {userData?.tenant?.settings?.lock_date
+                  ? formatDate(userData.tenant.settings.lock_date, locale)
+                  : t('settings.noLockDate')}
+              </p>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-sm text-gray-500">{t('settings.docNumbering')}</Label>
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                {DOC_NUMBER_TYPES.map((type) => (
+                  <div key={type} className="flex justify-between gap-2">
+                    <span className="text-gray-600">{t(`settings.docTypes.${type}`)}</span>
+                    <span className="font-mono">{formatDocNumber(docNumberFormats[type], 1)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
           </CardContent>
         </Card>
       </div>
@@ -104,6 +166,104 @@ export default async function SettingsPage() {
         </Card>
       )}
 
+      {userData?.role === 'admin' && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('reconciliation.title')}</CardTitle>
+            <CardDescription>{t('reconciliation.cardDesc')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link href="/settings/reconciliation">
+              <Button variant="outline">
+                <Scale className="h-4 w-4 mr-2" />
+                {t('reconciliation.open')}
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
+      )}
+
+      {isAdmin && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle>{t('poApprovals.settingsTitle')}</CardTitle>
+              <CardDescription>{t('poApprovals.settingsDesc')}</CardDescription>
+            </div>
+            <PoApprovalForm rules={poApproval} suppliers={suppliers} locations={locations} />
+          </CardHeader>
+          <CardContent className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <Label className="text-sm text-gray-500">{t('poApprovals.enabled')}</Label>
+              <p className="font-medium">{poApproval.enabled ? t('common.yes') : t('common.no')}</p>
+            </div>
+            <div>
+              <Label className="text-sm text-gray-500">{t('poApprovals.threshold')}</Label>
+              <p className="font-medium">
+                {poApproval.threshold !== null
+                  ? formatCurrency(poApproval.threshold, userData?.tenant?.settings?.default_currency || 'USD', locale)
+                  : '-'}
+              </p>
+            </div>
+            <div>
+              <Label className="text-sm text-gray-500">{t('poApprovals.suppliers')}</Label>
+              <p className="font-medium">
+                {suppliers.filter((s) => poApproval.supplier_ids.includes(s.id)).map((s) => s.name).join(', ') || '-'}
+              </p>
+            </div>
+            <div>
+              <Label className="text-sm text-gray-500">{t('poApprovals.locations')}</Label>
+              <p className="font-medium">
+                {locations.filter((l) => poApproval.location_ids.includes(l.id)).map((l) => l.name).join(', ') || '-'}
+              </p>
+            </div>
+            <div>
+              <Label className="text-sm text-gray-500">{t('poApprovals.approverRoles')}</Label>
+              <p className="font-medium">{poApproval.approver_roles.map((role) => t(`users.${role}`)).join(', ')}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {isAdmin && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle>{t('supplierInvoices.settingsTitle')}</CardTitle>
+              <CardDescription>{t('supplierInvoices.settingsDesc')}</CardDescription>
+            </div>
+            <InvoiceMatchingForm rules={invoiceMatching} />
+          </CardHeader>
+          <CardContent className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <Label className="text-sm text-gray-500">{t('supplierInvoices.qtyTolerance')}</Label>
+              <p className="font-medium">{invoiceMatching.qty_tolerance_pct}%</p>
+            </div>
+            <div>
+              <Label className="text-sm text-gray-500">{t('supplierInvoices.priceTolerance')}</Label>
+              <p className="font-medium">{invoiceMatching.price_tolerance_pct}%</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {userData?.role === 'admin' && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('periods.title')}</CardTitle>
+            <CardDescription>{t('periods.cardDesc')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link href="/settings/periods">
+              <Button variant="outline">
+                <Lock className="h-4 w-4 mr-2" />
+                {t('periods.open')}
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>{t('settings.language')}</CardTitle>
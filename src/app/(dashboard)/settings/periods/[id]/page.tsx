@@ -0,0 +1,136 @@
+import { redirect, notFound } from 'next/navigation'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/server'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ArrowLeft } from 'lucide-react'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import { getTranslator, getLocale } from '@/lib/i18n/server'
+import type { InventoryPeriod, InventoryPeriodSnapshot, Tenant } from '@/types'
+
+interface PeriodDetailPageProps {
+  params: Promise<{ id: string }>
+}
+
+export default async function PeriodDetailPage({ params }: PeriodDetailPageProps) {
+  const { id } = await params
+  const supabase = await createClient()
+  const t = await getTranslator()
+  const locale = await getLocale()
+
+  // Check authentication
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) redirect('/login')
+
+  const { data: currentUser } = await supabase
+    .from('users')
+    .select('role, tenant:tenants(settings)')
+    .eq('id', user.id)
+    .single()
+
+  if (!currentUser || currentUser.role !== 'admin') {
+    redirect('/settings')
+  }
+
+  const currency = (currentUser.tenant as { settings?: Partial<Tenant['settings']> })?.settings?.default_currency || 'USD'
+
+  const { data: period, error } = await supabase
+    .from('inventory_periods')
+    .select('*')
+    .eq('id', id)
+    .single()
+
+  if (error || !period) {
+    notFound()
+  }
+
+  const { data } = await supabase
+    .from('inventory_period_snapshots')
+    .select(`
+      *,
+      product:products(id, sku, name, base_uom),
+      location:locations(id, name)
+    `)
+    .eq('period_id', id)
+    .order('value', { ascending: false })
+
+  const snapshots = (data || []) as InventoryPeriodSnapshot[]
+  const { period_end, status, total_qty, total_value } = period as InventoryPeriod
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Link href="/settings/periods">
+          <Button variant="ghost" size="icon">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </Link>
+        <div>
+          <div className="flex items-center gap-3">
+            <h1 className="text-2xl font-bold text-gray-900">
+              {t('periods.snapshotTitle', { date: formatDate(period_end, locale) })}
+            </h1>
+            <Badge variant="outline">{t(`periods.statuses.${status}`)}</Badge>
+          </div>
+          <p className="text-gray-600">
+            {t('periods.totalQty')}: {Number(total_qty).toLocaleString()} • {t('reports.totalValue')}:{' '}
+            {formatCurrency(Number(total_value), currency, locale)}
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('periods.snapshot')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('products.sku')}</TableHead>
+                  <TableHead>{t('products.product')}</TableHead>
+                  <TableHead>{t('stock.location')}</TableHead>
+                  <TableHead className="text-right">{t('common.quantity')}</TableHead>
+                  <TableHead className="text-right">{t('reports.totalValue')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {snapshots.length > 0 ? (
+                  snapshots.map((snapshot) => (
+                    <TableRow key={snapshot.id}>
+                      <TableCell className="font-mono">{snapshot.product?.sku}</TableCell>
+                      <TableCell>{snapshot.product?.name}</TableCell>
+                      <TableCell>{snapshot.location?.name || '-'}</TableCell>
+                      <TableCell className="text-right">
+                        {Number(snapshot.qty).toLocaleString()} {snapshot.product?.base_uom}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(Number(snapshot.value), currency, locale)}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-24 text-center text-gray-500">
+                      {t('periods.noSnapshot')}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,158 @@
+import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/server'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ArrowLeft } from 'lucide-react'
+import { ClosePeriodForm } from '@/components/forms/close-period-form'
+import { ReopenPeriodForm } from '@/components/forms/reopen-period-form'
+import { formatCurrency, formatDate, formatDateTime } from '@/lib/utils'
+import { getTranslator, getLocale } from '@/lib/i18n/server'
+import type { InventoryPeriod, Tenant } from '@/types'
+
+const statusColors: Record<string, string> = {
+  closed: 'bg-gray-100 text-gray-800',
+  reopened: 'bg-yellow-100 text-yellow-800',
+}
+
+export default async function PeriodsPage() {
+  const supabase = await createClient()
+  const t = await getTranslator()
+  const locale = await getLocale()
+
+  // Check authentication
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) redirect('/login')
+
+  // Check authorization - only admins can close and reopen periods
+  const { data: currentUser } = await supabase
+    .from('users')
+    .select('role, tenant:tenants(settings)')
+    .eq('id', user.id)
+    .single()
+
+  if (!currentUser || currentUser.role !== 'admin') {
+    redirect('/settings')
+  }
+
+  const settings = (currentUser.tenant as { settings?: Partial<Tenant['settings']> })?.settings
+  const currency = settings?.default_currency || 'USD'
+  const lockDate = settings?.lock_date
+
+  const { data } = await supabase
+    .from('inventory_periods')
+    .select(`
+      *,
+      closed_by_user:users!inventory_periods_closed_by_fkey(id, name),
+      reopened_by_user:users!inventory_periods_reopened_by_fkey(id, name)
+    `)
+    .order('period_end', { ascending: false })
+
+  const periods = (data || []) as InventoryPeriod[]
+  // Only the latest closed period can be reopened
+  const latestClosed = periods.find((period) => period.status === 'closed')
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Link href="/settings">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{t('periods.title')}</h1>
+            <p className="text-gray-600">
+              {lockDate
+                ? t('periods.lockedThrough', { date: formatDate(lockDate, locale) })
+                : t('periods.noLockDate')}
+            </p>
+          </div>
+        </div>
+        <ClosePeriodForm />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('periods.history')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('periods.periodEnd')}</TableHead>
+                  <TableHead>{t('common.status')}</TableHead>
+                  <TableHead className="text-right">{t('periods.totalQty')}</TableHead>
+                  <TableHead className="text-right">{t('reports.totalValue')}</TableHead>
+                  <TableHead>{t('periods.closedBy')}</TableHead>
+                  <TableHead>{t('periods.reopenNote')}</TableHead>
+                  <TableHead className="w-[120px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {periods.length > 0 ? (
+                  periods.map((period) => (
+                    <TableRow key={period.id}>
+                      <TableCell>
+                        <Link href={`/settings/periods/${period.id}`} className="font-medium text-blue-600 hover:underline">
+                          {formatDate(period.period_end, locale)}
+                        </Link>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={statusColors[period.status] || ''}>
+                          {t(`periods.statuses.${period.status}`)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{Number(period.total_qty).toLocaleString()}</TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(Number(period.total_value), currency, locale)}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {period.closed_by_user?.name || '-'}
+                        <span className="block text-gray-500">{formatDateTime(period.closed_at, locale)}</span>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {period.reopened_at ? (
+                          <>
+                            {period.reopen_note}
+                            <span className="block text-gray-500">
+                              {period.reopened_by_user?.name} • {formatDateTime(period.reopened_at, locale)}
+                            </span>
+                          </>
+                        ) : (
+                          '-'
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {period.id === latestClosed?.id && (
+                          <ReopenPeriodForm periodId={period.id} periodEnd={period.period_end} />
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={7} className="h-24 text-center text-gray-500">
+                      {t('periods.noPeriods')}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
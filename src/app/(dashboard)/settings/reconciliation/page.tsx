@@ -0,0 +1,55 @@
+import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/server'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft } from 'lucide-react'
+import { ReconciliationTable } from '@/components/tables/reconciliation-table'
+import { getBalanceDiscrepancies } from '@/lib/actions/reconciliation'
+import { getTranslator } from '@/lib/i18n/server'
+import type { Tenant } from '@/types'
+
+export default async function ReconciliationPage() {
+  const supabase = await createClient()
+  const t = await getTranslator()
+
+  // Check authentication
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) redirect('/login')
+
+  // Check authorization - only admins can repair balances
+  const { data: currentUser } = await supabase
+    .from('users')
+    .select('role, tenant:tenants(settings)')
+    .eq('id', user.id)
+    .single()
+
+  if (!currentUser || currentUser.role !== 'admin') {
+    redirect('/settings')
+  }
+
+  const currency = (currentUser.tenant as { settings?: Partial<Tenant['settings']> })?.settings?.default_currency || 'USD'
+
+  const { data: discrepancies, error } = await getBalanceDiscrepancies()
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Link href="/settings">
+          <Button variant="ghost" size="icon">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{t('reconciliation.title')}</h1>
+          <p className="text-gray-600">{t('reconciliation.subtitle')}</p>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : (
+        <ReconciliationTable data={discrepancies || []} currency={currency} />
+      )}
+    </div>
+  )
+}
@@ -25,8 +25,12 @@ export default async function EditShipmentPage({ params }: PageProps) {
         id,
         product_id,
         qty,
+        entered_qty,
+        entered_uom,
         lot_number,
-        expiry_date
+        expiry_date,
+        serial_numbers,
+        bin_id
       )
     `)
     .eq('id', id)
@@ -36,10 +40,20 @@ export default async function EditShipmentPage({ params }: PageProps) {
     notFound()
   }
 
+  // Tenant default for FEFO auto-allocation of expiry-tracked products
+  const { data: { user } } = await supabase.auth.getUser()
+  const { data: userData } = await supabase
+    .from('users')
+    .select('tenant:tenants(settings)')
+    .eq('id', user?.id)
+    .single()
+
+  const fefoDefault = (userData?.tenant as { settings?: { fefo_default?: boolean } })?.settings?.fefo_default || false
+
   const [customersRes, locationsRes, productsRes, balancesRes] = await Promise.all([
     supabase.from('customers').select('*').eq('active', true).order('name'),
     supabase.from('locations').select('*').eq('active', true).order('name'),
-    supabase.from('products').select('*').eq('active', true).order('sku'),
+    supabase.from('products').select('*, units:product_units(*)').eq('active', true).is('variant_options', null).order('sku'),
     supabase.from('calculated_stock').select('*'),
   ])
 
@@ -62,6 +76,7 @@ export default async function EditShipmentPage({ params }: PageProps) {
         locations={locationsRes.data || []}
         products={productsRes.data || []}
         stockBalances={balancesRes.data || []}
+        fefoDefault={fefoDefault}
         initialData={{
           id: shipment.id,
           location_id: shipment.location_id,
@@ -13,10 +13,13 @@ import {
   TableRow,
 } from '@/components/ui/table'
 import { ArrowLeft } from 'lucide-react'
-import { formatCurrency, formatDate } from '@/lib/utils'
+import { formatCurrency, formatDate, formatDateTime } from '@/lib/utils'
 import { ShipmentActions } from '@/components/shipment-actions'
+import { VoidedNotice } from '@/components/void-document-button'
 import { DocumentUpload } from '@/components/documents/document-upload'
 import { getTranslator, getLocale } from '@/lib/i18n/server'
+import { formatEnteredQty } from '@/lib/uom-utils'
+import { SerialNumberList } from '@/components/serial-numbers-input'
 
 interface PageProps {
   params: Promise<{ id: string }>
@@ -25,8 +28,10 @@ interface PageProps {
 const statusColors: Record<string, string> = {
   draft: 'bg-gray-100 text-gray-800',
   confirmed: 'bg-blue-100 text-blue-800',
+  partial: 'bg-yellow-100 text-yellow-800',
   completed: 'bg-green-100 text-green-800',
   cancelled: 'bg-red-100 text-red-800',
+  voided: 'bg-gray-100 text-gray-500 line-through',
 }
 
 export default async function ShipmentDetailPage({ params }: PageProps) {
@@ -51,14 +56,20 @@ export default async function ShipmentDetailPage({ params }: PageProps) {
       *,
       customer:customers(id, name, code, email, phone),
       location:locations(id, name, type),
+      reservations(status, expires_at, product_id, lot_number, expiry_date, qty),
       lines:shipment_lines(
         id,
         product_id,
         qty,
+        qty_shipped,
+        entered_qty,
+        entered_uom,
         lot_number,
         expiry_date,
         unit_cost,
-        product:products(id, sku, name, base_uom)
+        serial_numbers,
+        product:products(id, sku, name, base_uom),
+        bin:locations!bin_id(id, name)
       )
     `)
     .eq('id', id)
@@ -68,16 +79,69 @@ export default async function ShipmentDetailPage({ params }: PageProps) {
     notFound()
   }
 
+  // Backorder chain: the shipment this one was split from and any split from it
+  const [backorderSourceRes, backordersRes] = await Promise.all([
+    shipment.backorder_of
+      ? supabase.from('shipments').select('id, shipment_number').eq('id', shipment.backorder_of).single()
+      : Promise.resolve({ data: null }),
+    supabase
+      .from('shipments')
+      .select('id, shipment_number, status')
+      .eq('backorder_of', id)
+      .order('created_at'),
+  ])
+  const backorderSource = backorderSourceRes.data as { id: string; shipment_number: string } | null
+  const backorders = (backordersRes.data || []) as { id: string; shipment_number: string; status: string }[]
+
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const shipmentTotal = shipment.lines?.reduce((sum: number, line: any) => {
-    return sum + line.qty * (line.unit_cost || 0)
+    return sum + line.qty_shipped * (line.unit_cost || 0)
   }, 0) || 0
 
+  // Active reservations hold stock for confirmed shipments until shipped or cancelled
+  const activeReservations = (shipment.reservations || []).filter(
+    (r: { status: string; expires_at: string | null }) =>
+      r.status === 'active' && (!r.expires_at || new Date(r.expires_at) > new Date())
+  )
+  const reservationExpiry = activeReservations
+    .map((r: { expires_at: string | null }) => r.expires_at)
+    .filter(Boolean)
+    .sort()[0] as string | undefined
+
+  // What each open line could ship now: available stock plus this shipment's own reservations
+  const isShippable = shipment.status === 'confirmed' || shipment.status === 'partial'
+  const availableByLine: Record<string, number> = {}
+  if (isShippable) {
+    const { data: stock } = await supabase
+      .from('calculated_stock')
+      .select('product_id, lot_number, expiry_date, available_qty')
+      .eq('location_id', shipment.location_id)
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .in('product_id', (shipment.lines || []).map((line: any) => line.product_id))
+
+    const balanceKey = (row: { product_id: string; lot_number: string | null; expiry_date: string | null }) =>
+      `${row.product_id}|${row.lot_number || ''}|${row.expiry_date || ''}`
+    const availableByBalance = new Map<string, number>()
+    stock?.forEach((row) => {
+      availableByBalance.set(balanceKey(row), (availableByBalance.get(balanceKey(row)) || 0) + Number(row.available_qty))
+    })
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    activeReservations.forEach((r: any) => {
+      availableByBalance.set(balanceKey(r), (availableByBalance.get(balanceKey(r)) || 0) + Number(r.qty))
+    })
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    shipment.lines?.forEach((line: any) => {
+      availableByLine[line.id] = Math.max(0, availableByBalance.get(balanceKey(line)) || 0)
+    })
+  }
+
   const statusTranslations: Record<string, string> = {
     draft: t('common.draft'),
     confirmed: t('common.confirmed'),
+    partial: t('common.partial'),
     completed: t('common.completed'),
     cancelled: t('common.cancelled'),
+    voided: t('common.voided'),
   }
 
   return (
@@ -101,9 +165,13 @@ export default async function ShipmentDetailPage({ params }: PageProps) {
             </p>
           </div>
         </div>
-        <ShipmentActions shipment={shipment} />
+        <ShipmentActions shipment={shipment} availableByLine={availableByLine} />
       </div>
 
+      {shipment.status === 'voided' && (
+        <VoidedNotice voidedAt={shipment.voided_at} reason={shipment.void_reason} />
+      )}
+
       <div className="grid gap-6 md:grid-cols-2">
         <Card>
           <CardHeader>
@@ -144,6 +212,47 @@ export default async function ShipmentDetailPage({ params }: PageProps) {
               <span className="text-sm text-gray-500">{t('common.createdAt')}:</span>
               <p>{formatDate(shipment.created_at, locale)}</p>
             </div>
+            {backorderSource && (
+              <div>
+                <span className="text-sm text-gray-500">{t('shipments.backorderOf')}:</span>
+                <p>
+                  <Link
+                    href={`/shipments/${backorderSource.id}`}
+                    className="font-mono text-blue-600 hover:underline"
+                  >
+                    {backorderSource.shipment_number}
+                  </Link>
+                </p>
+              </div>
+            )}
+            {backorders.length > 0 && (
+              <div>
+                <span className="text-sm text-gray-500">{t('shipments.backorders')}:</span>
+                <div className="flex flex-wrap gap-2">
+                  {backorders.map((backorder) => (
+                    <Link
+                      key={backorder.id}
+                      href={`/shipments/${backorder.id}`}
+                      className="font-mono text-blue-600 hover:underline"
+                    >
+                      {backorder.shipment_number} ({statusTranslations[backorder.status] || backorder.status})
+                    </Link>
+                  ))}
+                </div>
+              </div>
+            )}
+            {isShippable && (
+              <div>
+                <span className="text-sm text-gray-500">{t('stock.reserved')}:</span>
+                {activeReservations.length === 0 ? (
+                  <p className="text-orange-600">{t('shipments.reservationExpired')}</p>
+                ) : reservationExpiry ? (
+                  <p>{t('shipments.reservedUntil', { date: formatDateTime(reservationExpiry, locale) })}</p>
+                ) : (
+                  <p>{t('shipments.reservedUntilShipped')}</p>
+                )}
+              </div>
+            )}
             {shipment.notes && (
               <div>
                 <span className="text-sm text-gray-500">{t('common.notes')}:</span>
@@ -165,6 +274,7 @@ export default async function ShipmentDetailPage({ params }: PageProps) {
                 <TableRow>
                   <TableHead>{t('products.product')}</TableHead>
                   <TableHead className="text-center w-[120px]">{t('common.quantity')}</TableHead>
+                  <TableHead className="text-center w-[120px]">{t('shipments.shipped')}</TableHead>
                   <TableHead className="text-center w-[140px]">{t('stock.lotNumber')}</TableHead>
                   <TableHead className="text-center w-[120px]">{t('stock.expiryDate')}</TableHead>
                   <TableHead className="text-right w-[120px]">{t('purchaseOrders.unitCost')}</TableHead>
@@ -179,10 +289,22 @@ export default async function ShipmentDetailPage({ params }: PageProps) {
                       <div>
                         <span className="font-mono text-sm">{line.product?.sku}</span>
                         <p className="text-sm text-gray-600">{line.product?.name}</p>
+                        {line.bin && (
+                          <p className="text-xs text-gray-500">{t('locations.bin')}: {line.bin.name}</p>
+                        )}
+                        <SerialNumberList serials={line.serial_numbers} />
                       </div>
                     </TableCell>
                     <TableCell className="text-center">
                       {line.qty} {t(`uom.${line.product?.base_uom}`)}
+                      {formatEnteredQty(line) && (
+                        <p className="text-xs text-gray-500">{formatEnteredQty(line)}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-center">
+                      <span className={line.qty_shipped < line.qty ? 'text-orange-600' : 'text-green-600'}>
+                        {line.qty_shipped} {t(`uom.${line.product?.base_uom}`)}
+                      </span>
                     </TableCell>
                     <TableCell className="text-center">{line.lot_number || '-'}</TableCell>
                     <TableCell className="text-center">
@@ -192,7 +314,7 @@ export default async function ShipmentDetailPage({ params }: PageProps) {
                       {line.unit_cost ? formatCurrency(line.unit_cost, currency, locale) : '-'}
                     </TableCell>
                     <TableCell className="text-right font-medium">
-                      {line.unit_cost ? formatCurrency(line.qty * line.unit_cost, currency, locale) : '-'}
+                      {line.unit_cost ? formatCurrency(line.qty_shipped * line.unit_cost, currency, locale) : '-'}
                     </TableCell>
                   </TableRow>
                 ))}
@@ -200,7 +322,7 @@ export default async function ShipmentDetailPage({ params }: PageProps) {
             </Table>
           </div>
 
-          {shipment.status === 'completed' && shipmentTotal > 0 && (
+          {(shipment.status === 'completed' || shipment.status === 'partial') && shipmentTotal > 0 && (
             <div className="flex justify-end mt-4">
               <div className="text-lg font-bold">
                 {t('common.total')}: {formatCurrency(shipmentTotal, currency, locale)}
@@ -11,10 +11,20 @@ export default async function NewShipmentPage() {
   const supabase = await createClient()
   const t = await getTranslator()
 
+  // Tenant default for FEFO auto-allocation of expiry-tracked products
+  const { data: { user } } = await supabase.auth.getUser()
+  const { data: userData } = await supabase
+    .from('users')
+    .select('tenant:tenants(settings)')
+    .eq('id', user?.id)
+    .single()
+
+  const fefoDefault = (userData?.tenant as { settings?: { fefo_default?: boolean } })?.settings?.fefo_default || false
+
   const [customersRes, locationsRes, productsRes, balancesRes] = await Promise.all([
     supabase.from('customers').select('*').eq('active', true).order('name'),
     supabase.from('locations').select('*').eq('active', true).order('name'),
-    supabase.from('products').select('*').eq('active', true).order('sku'),
+    supabase.from('products').select('*, units:product_units(*)').eq('active', true).is('variant_options', null).order('sku'),
     supabase.from('calculated_stock').select('*'),
   ])
 
@@ -37,6 +47,7 @@ export default async function NewShipmentPage() {
         locations={locationsRes.data || []}
         products={productsRes.data || []}
         stockBalances={balancesRes.data || []}
+        fefoDefault={fefoDefault}
       />
     </div>
   )
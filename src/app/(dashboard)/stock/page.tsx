@@ -1,14 +1,32 @@
 export const dynamic = 'force-dynamic'
 
 import { createClient } from '@/lib/supabase/server'
+import Link from 'next/link'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
 import { StockTable } from '@/components/tables/stock-table'
-import { formatCurrency } from '@/lib/utils'
+import { AsOfDatePicker } from '@/components/as-of-date-picker'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import { buildVariantParentMap } from '@/lib/variant-utils'
 import { Package, MapPin, DollarSign, AlertTriangle } from 'lucide-react'
 import { getTranslator, getLocale } from '@/lib/i18n/server'
-import type { InventoryBalance } from '@/types'
+import type { InTransitStock, InventoryBalance } from '@/types'
 
-export default async function StockPage() {
+interface StockPageProps {
+  searchParams: Promise<{ as_of?: string }>
+}
+
+export default async function StockPage({ searchParams }: StockPageProps) {
+  const { as_of } = await searchParams
+  // A past date reconstructs the position from the movement ledger
+  const asOf = as_of && /^\d{4}-\d{2}-\d{2}$/.test(as_of) ? as_of : undefined
   const supabase = await createClient()
   const t = await getTranslator()
   const locale = await getLocale()
@@ -24,20 +42,51 @@ export default async function StockPage() {
   const currency = (userData?.tenant as { settings?: { default_currency?: string } })?.settings?.default_currency || 'USD'
 
   // Fetch calculated stock from stock_movements (source of truth)
-  const { data: currentStock, error } = await supabase
-    .rpc('get_calculated_stock') as { data: InventoryBalance[] | null; error: Error | null }
+  const { data: currentStock, error } = await (asOf
+    ? supabase.rpc('get_stock_as_of', { p_as_of: asOf })
+    : supabase.rpc('get_calculated_stock')) as { data: InventoryBalance[] | null; error: Error | null }
 
   // Fetch historical/depleted stock (qty = 0)
-  const { data: depletedStock } = await supabase
-    .rpc('get_historical_stock') as { data: InventoryBalance[] | null; error: Error | null }
+  const { data: depletedStock } = asOf
+    ? { data: [] }
+    : await supabase.rpc('get_historical_stock') as { data: InventoryBalance[] | null; error: Error | null }
+
+  // Stock on sent transfers that has not arrived yet - only known for today
+  const { data: inTransitRows } = asOf ? { data: [] } : await supabase
+    .from('in_transit_stock')
+    .select(`
+      *,
+      product:products(id, sku, name, base_uom),
+      from_location:locations!from_location_id(id, name),
+      to_location:locations!to_location_id(id, name)
+    `)
+    .order('sent_at')
 
-  // Fetch locations for filter
+  // Units stock is displayed in, for products that have one
+  const { data: stockUnits } = await supabase
+    .from('product_units')
+    .select('*')
+    .eq('is_stock_default', true)
+
+  // Variants and their parents, for rolling stock up to the parent
+  const { data: variantProducts } = await supabase
+    .from('products')
+    .select('id, sku, name, parent_id')
+    .or('parent_id.not.is.null,variant_options.not.is.null')
+
+  // Fetch locations for filter, with bins' warehouses for rolling them up
   const { data: locations } = await supabase
     .from('locations')
-    .select('id, name')
+    .select('id, name, type, parent_id')
     .eq('active', true)
     .order('name')
 
+  // Serialized products, whose bin moves name their units
+  const { data: serialProducts } = await supabase
+    .from('products')
+    .select('id')
+    .eq('track_serial', true)
+
   if (error) {
     return <div className="text-red-600">{t('errors.serverError')}: {error.message}</div>
   }
@@ -47,15 +96,22 @@ export default async function StockPage() {
   const totalProducts = new Set(stockData.map((b: InventoryBalance) => b.product_id)).size
   const totalLocations = new Set(stockData.map((b: InventoryBalance) => b.location_id)).size
   const totalValue = stockData.reduce((sum: number, b: InventoryBalance) => sum + (b.inventory_value || 0), 0)
+  const inTransit = (inTransitRows || []) as InTransitStock[]
+  const inTransitValue = inTransit.reduce((sum, line) => sum + Number(line.inventory_value), 0)
   const lowStockCount = stockData.filter((b: InventoryBalance) =>
     b.product?.reorder_point && b.qty_on_hand <= b.product.reorder_point
   ).length
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-2xl font-bold text-gray-900">{t('stock.title')}</h1>
-        <p className="text-gray-600">{t('stock.subtitle')}</p>
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{t('stock.title')}</h1>
+          <p className="text-gray-600">
+            {asOf ? t('stock.asOfSubtitle', { date: formatDate(asOf, locale) }) : t('stock.subtitle')}
+          </p>
+        </div>
+        <AsOfDatePicker value={asOf} />
       </div>
 
       {/* Stats Cards */}
@@ -87,6 +143,11 @@ export default async function StockPage() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{formatCurrency(totalValue, currency, locale)}</div>
+            {inTransitValue > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {t('stock.plusInTransit', { value: formatCurrency(inTransitValue, currency, locale) })}
+              </p>
+            )}
           </CardContent>
         </Card>
 
@@ -101,7 +162,71 @@ export default async function StockPage() {
         </Card>
       </div>
 
-      <StockTable data={stockData} depletedData={depletedStock || []} locations={locations || []} currency={currency} />
+      {inTransit.length > 0 && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>{t('stock.inTransit')}</CardTitle>
+            <span className="text-sm font-medium">
+              {formatCurrency(inTransitValue, currency, locale)}
+            </span>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('transfers.transferNumber')}</TableHead>
+                    <TableHead>{t('products.product')}</TableHead>
+                    <TableHead>{t('transfers.fromLocation')} → {t('transfers.toLocation')}</TableHead>
+                    <TableHead>{t('transfers.sent')}</TableHead>
+                    <TableHead className="text-right">{t('common.quantity')}</TableHead>
+                    <TableHead className="text-right">{t('stock.inventoryValue')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {inTransit.map((line) => (
+                    <TableRow key={line.line_id}>
+                      <TableCell>
+                        <Link
+                          href={`/transfers/${line.transfer_id}`}
+                          className="font-mono text-blue-600 hover:underline"
+                        >
+                          {line.transfer_number}
+                        </Link>
+                      </TableCell>
+                      <TableCell>
+                        <span className="font-mono text-sm">{line.product?.sku}</span>
+                        <p className="text-sm text-gray-600">{line.product?.name}</p>
+                      </TableCell>
+                      <TableCell>
+                        {line.from_location?.name} → {line.to_location?.name}
+                      </TableCell>
+                      <TableCell>{line.sent_at ? formatDate(line.sent_at, locale) : '-'}</TableCell>
+                      <TableCell className="text-right">
+                        {line.qty} {t(`uom.${line.product?.base_uom}`)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(line.inventory_value, currency, locale)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <StockTable
+        data={stockData}
+        depletedData={depletedStock || []}
+        locations={locations || []}
+        stockUnits={stockUnits || []}
+        variantParents={buildVariantParentMap(variantProducts || [])}
+        serialProductIds={(serialProducts || []).map((product) => product.id)}
+        currency={currency}
+        asOf={asOf}
+      />
     </div>
   )
 }
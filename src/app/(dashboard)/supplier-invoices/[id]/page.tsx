@@ -0,0 +1,269 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ArrowLeft } from 'lucide-react'
+import { formatCurrency, formatDate, formatDateTime } from '@/lib/utils'
+import { SupplierInvoiceActions } from '@/components/supplier-invoice-actions'
+import { DocumentUpload } from '@/components/documents/document-upload'
+import { getTranslator, getLocale } from '@/lib/i18n/server'
+import type { SupplierInvoice, SupplierInvoiceLine } from '@/types'
+
+interface PageProps {
+  params: Promise<{ id: string }>
+}
+
+const statusColors: Record<string, string> = {
+  matched: 'bg-green-100 text-green-800',
+  mismatch: 'bg-orange-100 text-orange-800',
+  approved: 'bg-blue-100 text-blue-800',
+  cancelled: 'bg-red-100 text-red-800',
+}
+
+export default async function SupplierInvoiceDetailPage({ params }: PageProps) {
+  const { id } = await params
+  const supabase = await createClient()
+  const t = await getTranslator()
+  const locale = await getLocale()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  const { data: userData } = await supabase
+    .from('users')
+    .select('tenant:tenants(settings)')
+    .eq('id', user?.id)
+    .single()
+
+  const currency = (userData?.tenant as { settings?: { default_currency?: string } })?.settings?.default_currency || 'USD'
+
+  const { data, error } = await supabase
+    .from('supplier_invoices')
+    .select(`
+      *,
+      supplier:suppliers(id, name),
+      purchase_order:purchase_orders(id, po_number),
+      approved_by_user:users!supplier_invoices_approved_by_fkey(id, name),
+      lines:supplier_invoice_lines(
+        *,
+        product:products(id, sku, name, base_uom)
+      )
+    `)
+    .eq('id', id)
+    .single()
+
+  if (error || !data) {
+    notFound()
+  }
+
+  const invoice = data as SupplierInvoice & { approved_by_user?: { id: string; name: string } | null }
+  const lines = (invoice.lines || []) as SupplierInvoiceLine[]
+  const invoiceTotal = lines.reduce((sum, line) => sum + Number(line.qty_invoiced) * Number(line.unit_price), 0)
+  const poValue = lines.reduce((sum, line) => sum + Number(line.qty_invoiced) * Number(line.po_unit_cost), 0)
+  const costAdjustment = lines.reduce((sum, line) => sum + Number(line.cost_adjustment), 0)
+
+  const statusTranslations: Record<string, string> = {
+    matched: t('supplierInvoices.matched'),
+    mismatch: t('supplierInvoices.mismatch'),
+    approved: t('supplierInvoices.approved'),
+    cancelled: t('common.cancelled'),
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-4">
+          <Link href="/supplier-invoices">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <div className="flex items-center gap-3">
+              <h1 className="text-2xl font-bold text-gray-900">{invoice.invoice_number}</h1>
+              <Badge className={statusColors[invoice.status] || ''}>
+                {statusTranslations[invoice.status] || invoice.status}
+              </Badge>
+            </div>
+            <p className="text-gray-600">{invoice.supplier?.name}</p>
+          </div>
+        </div>
+        <SupplierInvoiceActions invoice={invoice} />
+      </div>
+
+      {invoice.status === 'mismatch' && (
+        <div className="rounded-md border border-orange-200 bg-orange-50 p-4 text-sm text-orange-800">
+          {t('supplierInvoices.mismatchNotice')}
+        </div>
+      )}
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('supplierInvoices.details')}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div>
+              <span className="text-sm text-gray-500">{t('supplierInvoices.purchaseOrder')}:</span>
+              <p>
+                <Link href={`/purchase-orders/${invoice.po_id}`} className="font-mono text-blue-600 hover:underline">
+                  {invoice.purchase_order?.po_number}
+                </Link>
+              </p>
+            </div>
+            <div>
+              <span className="text-sm text-gray-500">{t('supplierInvoices.invoiceDate')}:</span>
+              <p className="font-medium">{formatDate(invoice.invoice_date, locale)}</p>
+            </div>
+            {invoice.due_date && (
+              <div>
+                <span className="text-sm text-gray-500">{t('supplierInvoices.dueDate')}:</span>
+                <p className="font-medium">{formatDate(invoice.due_date, locale)}</p>
+              </div>
+            )}
+            {invoice.notes && (
+              <div>
+                <span className="text-sm text-gray-500">{t('common.notes')}:</span>
+                <p>{invoice.notes}</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('supplierInvoices.matching')}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div>
+              <span className="text-sm text-gray-500">{t('supplierInvoices.invoiceTotal')}:</span>
+              <p className="font-medium">{formatCurrency(invoiceTotal, currency, locale)}</p>
+            </div>
+            <div>
+              <span className="text-sm text-gray-500">{t('supplierInvoices.poValue')}:</span>
+              <p className="font-medium">{formatCurrency(poValue, currency, locale)}</p>
+            </div>
+            {invoice.posted_at && (
+              <div>
+                <span className="text-sm text-gray-500">{t('supplierInvoices.costAdjustment')}:</span>
+                <p className="font-medium">
+                  {formatCurrency(costAdjustment, currency, locale)}
+                  <span className="ml-2 text-sm font-normal text-gray-500">
+                    ({t('supplierInvoices.postedAt', { date: formatDateTime(invoice.posted_at, locale) })})
+                  </span>
+                </p>
+              </div>
+            )}
+            {invoice.approved_at && (
+              <div>
+                <span className="text-sm text-gray-500">{t('supplierInvoices.approvedBy')}:</span>
+                <p className="font-medium">
+                  {invoice.approved_by_user?.name || '-'}
+                  <span className="ml-2 text-sm font-normal text-gray-500">
+                    {formatDateTime(invoice.approved_at, locale)}
+                  </span>
+                </p>
+                {invoice.approval_note && <p className="text-sm text-gray-600">{invoice.approval_note}</p>}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('supplierInvoices.invoiceLines')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('products.product')}</TableHead>
+                  <TableHead className="text-right">{t('purchaseOrders.ordered')}</TableHead>
+                  <TableHead className="text-right">{t('purchaseOrders.received')}</TableHead>
+                  <TableHead className="text-right">{t('supplierInvoices.previouslyInvoiced')}</TableHead>
+                  <TableHead className="text-right">{t('supplierInvoices.qtyInvoiced')}</TableHead>
+                  <TableHead className="text-right">{t('supplierInvoices.poPrice')}</TableHead>
+                  <TableHead className="text-right">{t('supplierInvoices.invoicePrice')}</TableHead>
+                  <TableHead>{t('supplierInvoices.match')}</TableHead>
+                  {invoice.posted_at && (
+                    <TableHead className="text-right">{t('supplierInvoices.costAdjustment')}</TableHead>
+                  )}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line) => (
+                  <TableRow key={line.id}>
+                    <TableCell>
+                      <div>
+                        <span className="font-mono text-sm">{line.product?.sku}</span>
+                        <p className="text-sm text-gray-600">{line.product?.name}</p>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {line.qty_ordered} {t(`uom.${line.product?.base_uom}`)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {line.qty_received} {t(`uom.${line.product?.base_uom}`)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {line.qty_previously_invoiced} {t(`uom.${line.product?.base_uom}`)}
+                    </TableCell>
+                    <TableCell className={line.qty_match ? 'text-right' : 'text-right font-medium text-orange-600'}>
+                      {line.qty_invoiced} {t(`uom.${line.product?.base_uom}`)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(line.po_unit_cost, currency, locale)}
+                    </TableCell>
+                    <TableCell className={line.price_match ? 'text-right' : 'text-right font-medium text-orange-600'}>
+                      {formatCurrency(line.unit_price, currency, locale)}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {line.qty_match && line.price_match && (
+                          <Badge className="bg-green-100 text-green-800">{t('supplierInvoices.matched')}</Badge>
+                        )}
+                        {!line.qty_match && (
+                          <Badge className="bg-orange-100 text-orange-800">{t('supplierInvoices.qtyMismatch')}</Badge>
+                        )}
+                        {!line.price_match && (
+                          <Badge className="bg-orange-100 text-orange-800">{t('supplierInvoices.priceMismatch')}</Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    {invoice.posted_at && (
+                      <TableCell className="text-right">
+                        {Number(line.cost_adjustment) !== 0 ? formatCurrency(line.cost_adjustment, currency, locale) : '-'}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex justify-end mt-4">
+            <div className="text-lg font-bold">
+              {t('common.total')}: {formatCurrency(invoiceTotal, currency, locale)}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <DocumentUpload
+        entityType="supplier_invoice"
+        entityId={invoice.id}
+        readOnly={invoice.status === 'cancelled'}
+      />
+    </div>
+  )
+}
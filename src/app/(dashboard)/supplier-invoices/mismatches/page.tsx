@@ -0,0 +1,163 @@
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ArrowLeft } from 'lucide-react'
+import { InvoiceApprovalForm } from '@/components/forms/invoice-approval-form'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import { getTranslator, getLocale } from '@/lib/i18n/server'
+import type { Tenant } from '@/types'
+
+interface MismatchedInvoice {
+  id: string
+  invoice_number: string
+  invoice_date: string
+  po_id: string
+  supplier: { id: string; name: string } | null
+  purchase_order: { id: string; po_number: string } | null
+  lines: {
+    qty_invoiced: number
+    unit_price: number
+    po_unit_cost: number
+    qty_match: boolean
+    price_match: boolean
+  }[]
+}
+
+export default async function SupplierInvoiceMismatchesPage() {
+  const supabase = await createClient()
+  const t = await getTranslator()
+  const locale = await getLocale()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  const { data: userData } = await supabase
+    .from('users')
+    .select('role, tenant:tenants(settings)')
+    .eq('id', user?.id)
+    .single()
+
+  if (!userData || (userData.role !== 'admin' && userData.role !== 'manager')) {
+    redirect('/')
+  }
+  const currency = (userData.tenant as { settings?: Partial<Tenant['settings']> })?.settings?.default_currency || 'USD'
+
+  const { data, error } = await supabase
+    .from('supplier_invoices')
+    .select(`
+      id, invoice_number, invoice_date, po_id,
+      supplier:suppliers(id, name),
+      purchase_order:purchase_orders(id, po_number),
+      lines:supplier_invoice_lines(qty_invoiced, unit_price, po_unit_cost, qty_match, price_match)
+    `)
+    .eq('status', 'mismatch')
+    .order('created_at')
+
+  if (error) {
+    return <div className="text-red-600">{t('errors.serverError')}: {error.message}</div>
+  }
+
+  const invoices = (data || []) as unknown as MismatchedInvoice[]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Link href="/supplier-invoices">
+          <Button variant="ghost" size="icon">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{t('supplierInvoices.mismatchQueue')}</h1>
+          <p className="text-gray-600">{t('supplierInvoices.mismatchQueueSubtitle')}</p>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('supplierInvoices.invoiceNumber')}</TableHead>
+                  <TableHead>{t('purchaseOrders.poNumber')}</TableHead>
+                  <TableHead>{t('purchaseOrders.supplier')}</TableHead>
+                  <TableHead>{t('supplierInvoices.invoiceDate')}</TableHead>
+                  <TableHead>{t('supplierInvoices.issues')}</TableHead>
+                  <TableHead className="text-right">{t('supplierInvoices.priceVariance')}</TableHead>
+                  <TableHead className="w-[140px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invoices.length > 0 ? (
+                  invoices.map((invoice) => {
+                    const qtyIssues = invoice.lines.filter((line) => !line.qty_match).length
+                    const priceIssues = invoice.lines.filter((line) => !line.price_match).length
+                    const variance = invoice.lines.reduce(
+                      (sum, line) => sum + (Number(line.unit_price) - Number(line.po_unit_cost)) * Number(line.qty_invoiced),
+                      0
+                    )
+
+                    return (
+                      <TableRow key={invoice.id}>
+                        <TableCell>
+                          <Link href={`/supplier-invoices/${invoice.id}`} className="font-mono text-blue-600 hover:underline">
+                            {invoice.invoice_number}
+                          </Link>
+                        </TableCell>
+                        <TableCell>
+                          <Link href={`/purchase-orders/${invoice.po_id}`} className="font-mono text-blue-600 hover:underline">
+                            {invoice.purchase_order?.po_number}
+                          </Link>
+                        </TableCell>
+                        <TableCell>{invoice.supplier?.name || '-'}</TableCell>
+                        <TableCell>{formatDate(invoice.invoice_date, locale)}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {qtyIssues > 0 && (
+                              <Badge className="bg-orange-100 text-orange-800">
+                                {t('supplierInvoices.qtyIssues', { count: qtyIssues })}
+                              </Badge>
+                            )}
+                            {priceIssues > 0 && (
+                              <Badge className="bg-orange-100 text-orange-800">
+                                {t('supplierInvoices.priceIssues', { count: priceIssues })}
+                              </Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell className={variance > 0 ? 'text-right font-medium text-red-600' : 'text-right font-medium'}>
+                          {formatCurrency(variance, currency, locale)}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex justify-end">
+                            <InvoiceApprovalForm invoiceId={invoice.id} invoiceNumber={invoice.invoice_number} size="sm" />
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={7} className="h-24 text-center text-gray-500">
+                      {t('supplierInvoices.mismatchQueueEmpty')}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,5 @@
+import { FormSkeleton } from '@/components/ui/form-skeleton'
+
+export default function NewSupplierInvoiceLoading() {
+  return <FormSkeleton fields={4} hasLines lineCount={3} />
+}
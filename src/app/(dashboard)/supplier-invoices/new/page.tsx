@@ -0,0 +1,102 @@
+export const dynamic = 'force-dynamic'
+
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft } from 'lucide-react'
+import { SupplierInvoiceForm } from '@/components/forms/supplier-invoice-form'
+import { resolveInvoiceMatching } from '@/lib/invoice-match-utils'
+import { getTranslator, getLocale } from '@/lib/i18n/server'
+import type { PurchaseOrderLine, Product, Tenant } from '@/types'
+
+interface NewSupplierInvoicePageProps {
+  searchParams: Promise<{ po?: string }>
+}
+
+export default async function NewSupplierInvoicePage({ searchParams }: NewSupplierInvoicePageProps) {
+  const { po: poId } = await searchParams
+  const supabase = await createClient()
+  const t = await getTranslator()
+  const locale = await getLocale()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  const { data: userData } = await supabase
+    .from('users')
+    .select('role, tenant:tenants(settings)')
+    .eq('id', user?.id)
+    .single()
+
+  if (!userData || (userData.role !== 'admin' && userData.role !== 'manager')) {
+    redirect('/')
+  }
+  const settings = (userData.tenant as { settings?: Partial<Tenant['settings']> })?.settings
+  const currency = settings?.default_currency || 'USD'
+
+  const { data: purchaseOrders } = await supabase
+    .from('purchase_orders')
+    .select('id, po_number, supplier:suppliers(name)')
+    .in('status', ['confirmed', 'partial', 'completed'])
+    .order('created_at', { ascending: false })
+
+  const { data: po } = poId
+    ? await supabase
+        .from('purchase_orders')
+        .select(`
+          id, po_number, status,
+          lines:purchase_order_lines(
+            id, po_id, product_id, qty_ordered, qty_received, unit_cost, entered_qty, entered_uom,
+            product:products(id, sku, name, base_uom)
+          )
+        `)
+        .eq('id', poId)
+        .in('status', ['confirmed', 'partial', 'completed'])
+        .maybeSingle()
+    : { data: null }
+
+  // Quantities already billed on the PO's lines
+  const previouslyInvoiced: Record<string, number> = {}
+  if (po) {
+    const { data: invoiced } = await supabase
+      .from('supplier_invoice_lines')
+      .select('po_line_id, qty_invoiced, invoice:supplier_invoices!inner(status)')
+      .in('po_line_id', (po.lines || []).map((line) => line.id))
+      .neq('invoice.status', 'cancelled')
+
+    for (const line of invoiced || []) {
+      previouslyInvoiced[line.po_line_id] = (previouslyInvoiced[line.po_line_id] || 0) + Number(line.qty_invoiced)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Link href={po ? `/purchase-orders/${po.id}` : '/supplier-invoices'}>
+          <Button variant="ghost" size="icon">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            {po ? `${t('supplierInvoices.recordInvoice')}: ${po.po_number}` : t('supplierInvoices.recordInvoice')}
+          </h1>
+          <p className="text-gray-600">{t('supplierInvoices.recordInvoiceSubtitle')}</p>
+        </div>
+      </div>
+
+      <SupplierInvoiceForm
+        key={po?.id || 'none'}
+        purchaseOrders={(purchaseOrders || []) as unknown as { id: string; po_number: string; supplier: { name: string } | null }[]}
+        po={po ? {
+          id: po.id,
+          po_number: po.po_number,
+          lines: (po.lines || []) as unknown as (PurchaseOrderLine & { product?: Product })[],
+        } : null}
+        previouslyInvoiced={previouslyInvoiced}
+        rules={resolveInvoiceMatching(settings?.invoice_matching)}
+        currency={currency}
+        locale={locale}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { Button } from '@/components/ui/button'
+import { AlertTriangle, Plus } from 'lucide-react'
+import { SupplierInvoicesTable } from '@/components/tables/supplier-invoices-table'
+import { getTranslator } from '@/lib/i18n/server'
+import type { SupplierInvoice, Tenant } from '@/types'
+
+export default async function SupplierInvoicesPage() {
+  const supabase = await createClient()
+  const t = await getTranslator()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  const { data: userData } = await supabase
+    .from('users')
+    .select('role, tenant:tenants(settings)')
+    .eq('id', user?.id)
+    .single()
+
+  // Only admins and managers handle supplier invoices
+  if (!userData || (userData.role !== 'admin' && userData.role !== 'manager')) {
+    redirect('/')
+  }
+  const currency = (userData.tenant as { settings?: Partial<Tenant['settings']> })?.settings?.default_currency || 'USD'
+
+  const { data: invoices, error } = await supabase
+    .from('supplier_invoices')
+    .select(`
+      *,
+      supplier:suppliers(id, name),
+      purchase_order:purchase_orders(id, po_number),
+      lines:supplier_invoice_lines(qty_invoiced, unit_price)
+    `)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    return <div className="text-red-600">{t('errors.serverError')}: {error.message}</div>
+  }
+
+  const mismatchCount = (invoices || []).filter((invoice) => invoice.status === 'mismatch').length
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{t('supplierInvoices.title')}</h1>
+          <p className="text-gray-600">{t('supplierInvoices.subtitle')}</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Link href="/supplier-invoices/mismatches">
+            <Button variant="outline">
+              <AlertTriangle className="mr-2 h-4 w-4" />
+              {t('supplierInvoices.mismatchQueueCount', { count: mismatchCount })}
+            </Button>
+          </Link>
+          <Link href="/supplier-invoices/new">
+            <Button>
+              <Plus className="mr-2 h-4 w-4" />
+              {t('supplierInvoices.recordInvoice')}
+            </Button>
+          </Link>
+        </div>
+      </div>
+
+      <SupplierInvoicesTable data={(invoices || []) as SupplierInvoice[]} currency={currency} />
+    </div>
+  )
+}
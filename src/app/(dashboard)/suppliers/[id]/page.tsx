@@ -1,6 +1,10 @@
 import { notFound } from 'next/navigation'
 import { createClient } from '@/lib/supabase/server'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { SupplierForm } from '@/components/forms/supplier-form'
+import { SupplierProductForm } from '@/components/forms/supplier-product-form'
+import { SupplierProductsTable } from '@/components/tables/supplier-products-table'
+import { getTranslator } from '@/lib/i18n/server'
 
 interface EditSupplierPageProps {
   params: Promise<{ id: string }>
@@ -9,16 +13,59 @@ interface EditSupplierPageProps {
 export default async function EditSupplierPage({ params }: EditSupplierPageProps) {
   const { id } = await params
   const supabase = await createClient()
+  const t = await getTranslator()
 
-  const { data: supplier, error } = await supabase
-    .from('suppliers')
-    .select('*')
-    .eq('id', id)
-    .single()
+  const { data: { user } } = await supabase.auth.getUser()
 
-  if (error || !supplier) {
+  const [supplierResult, catalogueResult, productsResult, userResult] = await Promise.all([
+    supabase
+      .from('suppliers')
+      .select('*')
+      .eq('id', id)
+      .single(),
+    supabase
+      .from('supplier_products')
+      .select('*, product:products(id, sku, name, base_uom)')
+      .eq('supplier_id', id)
+      .order('created_at'),
+    supabase
+      .from('products')
+      .select('id, sku, name')
+      .eq('active', true)
+      .is('variant_options', null)
+      .order('sku'),
+    supabase
+      .from('users')
+      .select('tenant:tenants(settings)')
+      .eq('id', user?.id)
+      .single(),
+  ])
+
+  if (supplierResult.error || !supplierResult.data) {
     notFound()
   }
 
-  return <SupplierForm supplier={supplier} />
+  const currency = (userResult.data?.tenant as { settings?: { default_currency?: string } })?.settings?.default_currency || 'USD'
+  const productOptions = (productsResult.data || []).map((p) => ({ id: p.id, label: `${p.sku} - ${p.name}` }))
+
+  return (
+    <div className="space-y-6">
+      <SupplierForm supplier={supplierResult.data} />
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>{t('supplierProducts.title')}</CardTitle>
+          <SupplierProductForm supplierId={id} options={productOptions} defaultCurrency={currency} />
+        </CardHeader>
+        <CardContent>
+          <SupplierProductsTable
+            data={catalogueResult.data || []}
+            view="supplier"
+            options={productOptions}
+            defaultCurrency={currency}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  )
 }
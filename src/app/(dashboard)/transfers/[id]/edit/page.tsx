@@ -25,8 +25,11 @@ export default async function EditTransferPage({ params }: PageProps) {
         id,
         product_id,
         qty,
+        entered_qty,
+        entered_uom,
         lot_number,
-        expiry_date
+        expiry_date,
+        serial_numbers
       )
     `)
     .eq('id', id)
@@ -36,9 +39,19 @@ export default async function EditTransferPage({ params }: PageProps) {
     notFound()
   }
 
+  // Tenant default for FEFO auto-allocation of expiry-tracked products
+  const { data: { user } } = await supabase.auth.getUser()
+  const { data: userData } = await supabase
+    .from('users')
+    .select('tenant:tenants(settings)')
+    .eq('id', user?.id)
+    .single()
+
+  const fefoDefault = (userData?.tenant as { settings?: { fefo_default?: boolean } })?.settings?.fefo_default || false
+
   const [locationsRes, productsRes, balancesRes] = await Promise.all([
-    supabase.from('locations').select('*').eq('active', true).order('name'),
-    supabase.from('products').select('*').eq('active', true).order('sku'),
+    supabase.from('locations').select('*').eq('active', true).neq('type', 'bin').order('name'),
+    supabase.from('products').select('*, units:product_units(*)').eq('active', true).is('variant_options', null).order('sku'),
     supabase.from('calculated_stock').select('*'),
   ])
 
@@ -60,6 +73,7 @@ export default async function EditTransferPage({ params }: PageProps) {
         locations={locationsRes.data || []}
         products={productsRes.data || []}
         stockBalances={balancesRes.data || []}
+        fefoDefault={fefoDefault}
         initialData={{
           id: transfer.id,
           from_location_id: transfer.from_location_id,
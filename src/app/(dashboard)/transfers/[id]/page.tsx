@@ -10,6 +10,9 @@ import { formatDate, formatCurrency } from '@/lib/utils'
 import { TransferActions } from '@/components/transfers/transfer-actions'
 import { DocumentUpload } from '@/components/documents/document-upload'
 import { getTranslator, getLocale } from '@/lib/i18n/server'
+import { formatEnteredQty } from '@/lib/uom-utils'
+import { SerialNumberList } from '@/components/serial-numbers-input'
+import type { TransferDiscrepancy } from '@/types'
 
 interface TransferDetailPageProps {
   params: Promise<{ id: string }>
@@ -56,6 +59,20 @@ export default async function TransferDetailPage({ params }: TransferDetailPageP
     notFound()
   }
 
+  const { data: discrepancyRows } = await supabase
+    .from('transfer_discrepancies')
+    .select('*, product:products(id, sku, name, base_uom)')
+    .eq('transfer_id', id)
+    .order('created_at')
+
+  const discrepancies = (discrepancyRows || []) as TransferDiscrepancy[]
+
+  // Sent but not yet received stock is in transit at the cost it left with
+  const inTransitValue = transfer.status === 'confirmed'
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ? (transfer.lines || []).reduce((sum: number, line: any) => sum + line.qty * (line.unit_cost || 0), 0)
+    : 0
+
   const statusTranslations: Record<string, string> = {
     draft: t('common.draft'),
     confirmed: t('common.confirmed'),
@@ -111,6 +128,12 @@ export default async function TransferDetailPage({ params }: TransferDetailPageP
                 <p>{formatDate(transfer.sent_at, locale)}</p>
               </div>
             )}
+            {transfer.status === 'confirmed' && (
+              <div>
+                <span className="text-sm text-gray-500">{t('transfers.inTransitValue')}:</span>
+                <p className="font-medium">{formatCurrency(inTransitValue, currency, locale)}</p>
+              </div>
+            )}
             {transfer.received_at && (
               <div>
                 <span className="text-sm text-gray-500">{t('transfers.received')}:</span>
@@ -138,6 +161,9 @@ export default async function TransferDetailPage({ params }: TransferDetailPageP
                 <TableRow>
                   <TableHead>{t('products.product')}</TableHead>
                   <TableHead className="text-center w-[120px]">{t('common.quantity')}</TableHead>
+                  {transfer.status === 'completed' && (
+                    <TableHead className="text-center w-[120px]">{t('transfers.qtyReceived')}</TableHead>
+                  )}
                   <TableHead className="text-center w-[140px]">{t('stock.lotNumber')}</TableHead>
                   <TableHead className="text-center w-[120px]">{t('stock.expiryDate')}</TableHead>
                   <TableHead className="text-right w-[120px]">{t('purchaseOrders.unitCost')}</TableHead>
@@ -152,11 +178,22 @@ export default async function TransferDetailPage({ params }: TransferDetailPageP
                       <div>
                         <span className="font-mono text-sm">{line.product?.sku}</span>
                         <p className="text-sm text-gray-600">{line.product?.name}</p>
+                        <SerialNumberList serials={line.serial_numbers} />
                       </div>
                     </TableCell>
                     <TableCell className="text-center">
                       {line.qty} {t(`uom.${line.product?.base_uom}`)}
+                      {formatEnteredQty(line) && (
+                        <p className="text-xs text-gray-500">{formatEnteredQty(line)}</p>
+                      )}
                     </TableCell>
+                    {transfer.status === 'completed' && (
+                      <TableCell className="text-center">
+                        <span className={line.qty_received !== null && line.qty_received !== line.qty ? 'text-orange-600' : ''}>
+                          {line.qty_received ?? line.qty} {t(`uom.${line.product?.base_uom}`)}
+                        </span>
+                      </TableCell>
+                    )}
                     <TableCell className="text-center">{line.lot_number || '-'}</TableCell>
                     <TableCell className="text-center">
                       {line.expiry_date ? formatDate(line.expiry_date, locale) : '-'}
@@ -175,6 +212,53 @@ export default async function TransferDetailPage({ params }: TransferDetailPageP
         </CardContent>
       </Card>
 
+      {discrepancies.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('transfers.discrepancies')}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('products.product')}</TableHead>
+                    <TableHead className="text-right">{t('transfers.qtySent')}</TableHead>
+                    <TableHead className="text-right">{t('transfers.qtyReceived')}</TableHead>
+                    <TableHead className="text-right">{t('transfers.difference')}</TableHead>
+                    <TableHead>{t('transfers.discrepancyResolution')}</TableHead>
+                    <TableHead className="text-right">{t('transfers.discrepancyValue')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {discrepancies.map((discrepancy) => (
+                    <TableRow key={discrepancy.id}>
+                      <TableCell>
+                        <div>
+                          <span className="font-mono text-sm">{discrepancy.product?.sku}</span>
+                          <p className="text-sm text-gray-600">{discrepancy.product?.name}</p>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{discrepancy.qty_sent}</TableCell>
+                      <TableCell className="text-right">{discrepancy.qty_received}</TableCell>
+                      <TableCell className="text-right">
+                        <span className={discrepancy.qty_difference < 0 ? 'text-red-600' : 'text-blue-600'}>
+                          {discrepancy.qty_difference > 0 ? `+${discrepancy.qty_difference}` : discrepancy.qty_difference}
+                        </span>
+                      </TableCell>
+                      <TableCell>{t(`transfers.resolutions.${discrepancy.resolution}`)}</TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(discrepancy.qty_difference * discrepancy.unit_cost, currency, locale)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <DocumentUpload
         entityType="transfer"
         entityId={transfer.id}
@@ -0,0 +1,87 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { ArrowLeft } from 'lucide-react'
+import { TransferReceiveForm } from '@/components/forms/transfer-receive-form'
+import { getTranslator } from '@/lib/i18n/server'
+
+interface PageProps {
+  params: Promise<{ id: string }>
+}
+
+export default async function TransferReceivePage({ params }: PageProps) {
+  const { id } = await params
+  const supabase = await createClient()
+  const t = await getTranslator()
+
+  const { data: transfer, error } = await supabase
+    .from('transfers')
+    .select(`
+      *,
+      from_location:locations!transfers_from_location_id_fkey(id, name),
+      to_location:locations!transfers_to_location_id_fkey(id, name),
+      lines:transfer_lines(
+        id,
+        product_id,
+        qty,
+        lot_number,
+        expiry_date,
+        unit_cost,
+        serial_numbers,
+        product:products(id, sku, name, base_uom, allow_decimal_qty, track_serial)
+      )
+    `)
+    .eq('id', id)
+    .single()
+
+  if (error || !transfer) {
+    notFound()
+  }
+
+  if (transfer.status !== 'confirmed') {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center gap-4">
+          <Link href={`/transfers/${id}`}>
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{t('transfers.cannotReceive')}</h1>
+            <p className="text-gray-600">
+              {t('transfers.cannotReceiveDesc', { status: t(`common.${transfer.status}`) })}
+            </p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Link href={`/transfers/${id}`}>
+          <Button variant="ghost" size="icon">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </Link>
+        <div>
+          <div className="flex items-center gap-3">
+            <h1 className="text-2xl font-bold text-gray-900">
+              {t('transfers.receiveTransfer')}: {transfer.transfer_number}
+            </h1>
+            <Badge variant="secondary">{t('transfers.inTransit')}</Badge>
+          </div>
+          <p className="text-gray-600">
+            {transfer.from_location?.name} → {transfer.to_location?.name}
+          </p>
+        </div>
+      </div>
+
+      <TransferReceiveForm transferId={id} lines={transfer.lines || []} />
+    </div>
+  )
+}
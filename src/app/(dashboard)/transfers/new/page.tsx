@@ -11,9 +11,19 @@ export default async function NewTransferPage() {
   const supabase = await createClient()
   const t = await getTranslator()
 
+  // Tenant default for FEFO auto-allocation of expiry-tracked products
+  const { data: { user } } = await supabase.auth.getUser()
+  const { data: userData } = await supabase
+    .from('users')
+    .select('tenant:tenants(settings)')
+    .eq('id', user?.id)
+    .single()
+
+  const fefoDefault = (userData?.tenant as { settings?: { fefo_default?: boolean } })?.settings?.fefo_default || false
+
   const [locationsResult, productsResult, balancesResult] = await Promise.all([
-    supabase.from('locations').select('*').eq('active', true).order('name'),
-    supabase.from('products').select('*').eq('active', true).order('sku'),
+    supabase.from('locations').select('*').eq('active', true).neq('type', 'bin').order('name'),
+    supabase.from('products').select('*, units:product_units(*)').eq('active', true).is('variant_options', null).order('sku'),
     supabase.from('calculated_stock').select('*'),
   ])
 
@@ -34,6 +44,7 @@ export default async function NewTransferPage() {
         locations={locationsResult.data || []}
         products={productsResult.data || []}
         stockBalances={balancesResult.data || []}
+        fefoDefault={fefoDefault}
       />
     </div>
   )
@@ -5,7 +5,8 @@ import { Button } from '@/components/ui/button'
 import { toast } from 'sonner'
 import { CheckCircle, Pencil, XCircle } from 'lucide-react'
 import Link from 'next/link'
-import { postAdjustment, cancelAdjustment } from '@/lib/actions/adjustments'
+import { postAdjustment, cancelAdjustment, voidAdjustment } from '@/lib/actions/adjustments'
+import { VoidDocumentButton } from '@/components/void-document-button'
 import { useTranslation } from '@/lib/i18n'
 import type { Adjustment } from '@/types'
 
@@ -60,5 +61,9 @@ export function AdjustmentActions({ adjustment }: AdjustmentActionsProps) {
     )
   }
 
+  if (adjustment.status === 'completed') {
+    return <VoidDocumentButton onVoid={(reason) => voidAdjustment(adjustment.id, reason)} />
+  }
+
   return null
 }
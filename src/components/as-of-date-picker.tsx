@@ -0,0 +1,62 @@
+'use client'
+
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import { useCallback } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { X } from 'lucide-react'
+import { useTranslation } from '@/lib/i18n'
+
+interface AsOfDatePickerProps {
+  value?: string
+}
+
+/**
+ * Point in time a stock page reconstructs, kept in the `as_of` search param.
+ * Clearing it goes back to the current position.
+ */
+export function AsOfDatePicker({ value }: AsOfDatePickerProps) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const { t } = useTranslation()
+  const today = new Date().toISOString().split('T')[0]
+
+  const updateAsOf = useCallback(
+    (asOf: string | undefined) => {
+      const params = new URLSearchParams(searchParams.toString())
+
+      if (asOf) {
+        params.set('as_of', asOf)
+      } else {
+        params.delete('as_of')
+      }
+
+      const query = params.toString()
+      router.push(query ? `${pathname}?${query}` : pathname)
+    },
+    [router, pathname, searchParams]
+  )
+
+  return (
+    <div className="flex items-center gap-2">
+      <Label htmlFor="as-of" className="text-sm text-gray-500 whitespace-nowrap">
+        {t('stock.asOf')}
+      </Label>
+      <Input
+        id="as-of"
+        type="date"
+        className="w-[160px]"
+        max={today}
+        value={value || ''}
+        onChange={(e) => updateAsOf(e.target.value || undefined)}
+      />
+      {value && (
+        <Button variant="ghost" size="icon" onClick={() => updateAsOf(undefined)} title={t('stock.asOfClear')}>
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  )
+}
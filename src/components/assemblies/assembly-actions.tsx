@@ -0,0 +1,69 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { toast } from 'sonner'
+import { CheckCircle, Pencil, XCircle } from 'lucide-react'
+import Link from 'next/link'
+import { postAssembly, cancelAssembly, voidAssembly } from '@/lib/actions/assemblies'
+import { VoidDocumentButton } from '@/components/void-document-button'
+import { useTranslation } from '@/lib/i18n'
+import type { Assembly } from '@/types'
+
+interface AssemblyActionsProps {
+  assembly: Assembly
+}
+
+export function AssemblyActions({ assembly }: AssemblyActionsProps) {
+  const router = useRouter()
+  const { t } = useTranslation()
+
+  const handlePost = async () => {
+    if (!confirm(t('assemblies.confirmPost'))) return
+    const result = await postAssembly(assembly.id)
+    if (result.error) {
+      toast.error(result.error)
+    } else {
+      toast.success(t('toast.assemblyPosted'))
+      router.refresh()
+    }
+  }
+
+  const handleCancel = async () => {
+    if (!confirm(t('dialog.cancelMessage'))) return
+    const result = await cancelAssembly(assembly.id)
+    if (result.error) {
+      toast.error(result.error)
+    } else {
+      toast.success(t('toast.assemblyCancelled'))
+      router.refresh()
+    }
+  }
+
+  if (assembly.status === 'draft') {
+    return (
+      <div className="flex gap-2">
+        <Link href={`/assemblies/${assembly.id}/edit`}>
+          <Button variant="outline">
+            <Pencil className="mr-2 h-4 w-4" />
+            {t('common.edit')}
+          </Button>
+        </Link>
+        <Button onClick={handlePost}>
+          <CheckCircle className="mr-2 h-4 w-4" />
+          {t('assemblies.post')}
+        </Button>
+        <Button variant="destructive" onClick={handleCancel}>
+          <XCircle className="mr-2 h-4 w-4" />
+          {t('common.cancel')}
+        </Button>
+      </div>
+    )
+  }
+
+  if (assembly.status === 'completed') {
+    return <VoidDocumentButton onVoid={(reason) => voidAssembly(assembly.id, reason)} />
+  }
+
+  return null
+}
@@ -0,0 +1,152 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { ArrowRightLeft } from 'lucide-react'
+import { toast } from 'sonner'
+import { useTranslation } from '@/lib/i18n'
+import { moveBinStock } from '@/lib/actions/bins'
+import { SerialNumbersInput } from '@/components/serial-numbers-input'
+import type { InventoryBalance, Location } from '@/types'
+
+interface BinMoveDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  stockItem: InventoryBalance | null
+  // The warehouse and its other bins
+  destinations: Pick<Location, 'id' | 'name'>[]
+  trackSerial?: boolean
+}
+
+/**
+ * Move a stock row's quantity to another bin of the same warehouse
+ */
+export function BinMoveDialog({ open, onOpenChange, stockItem, destinations, trackSerial }: BinMoveDialogProps) {
+  const router = useRouter()
+  const { t } = useTranslation()
+  const [toLocationId, setToLocationId] = useState('')
+  const [qty, setQty] = useState('')
+  const [serialNumbers, setSerialNumbers] = useState('')
+  const [isProcessing, setIsProcessing] = useState(false)
+
+  const available = stockItem ? stockItem.available_qty ?? stockItem.qty_on_hand : 0
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) {
+      setToLocationId('')
+      setQty('')
+      setSerialNumbers('')
+    }
+    onOpenChange(value)
+  }
+
+  const handleMove = async () => {
+    if (!stockItem) return
+
+    setIsProcessing(true)
+    const result = await moveBinStock({
+      product_id: stockItem.product_id,
+      from_location_id: stockItem.location_id,
+      to_location_id: toLocationId,
+      qty: Number(qty),
+      lot_number: stockItem.lot_number,
+      expiry_date: stockItem.expiry_date,
+      serial_numbers: trackSerial ? serialNumbers : null,
+    })
+    setIsProcessing(false)
+
+    if (result.error) {
+      const messages = Object.values(result.error).flat()
+      toast.error(messages[0] || t('toast.errorOccurred'))
+      return
+    }
+
+    toast.success(t('toast.binStockMoved'))
+    handleOpenChange(false)
+    router.refresh()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('stock.moveToBin')}</DialogTitle>
+          <DialogDescription>
+            {stockItem?.product?.sku} {stockItem?.product?.name} · {stockItem?.location?.name}
+            {stockItem?.lot_number && ` · ${stockItem.lot_number}`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label>{t('stock.moveTo')}</Label>
+            <Select value={toLocationId} onValueChange={setToLocationId}>
+              <SelectTrigger>
+                <SelectValue placeholder={t('locations.selectBin')} />
+              </SelectTrigger>
+              <SelectContent>
+                {destinations.map((location) => (
+                  <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="move_qty">{t('common.quantity')}</Label>
+            <Input
+              id="move_qty"
+              type="number"
+              min="0"
+              max={available}
+              step="any"
+              value={qty}
+              onChange={(e) => setQty(e.target.value)}
+            />
+            <p className="text-xs text-gray-500">
+              {t('stock.available')}: {available} {t(`uom.${stockItem?.product?.base_uom}`)}
+            </p>
+          </div>
+          {trackSerial && (
+            <div className="space-y-2">
+              <Label>{t('serials.serialNumbers')}</Label>
+              <SerialNumbersInput
+                value={serialNumbers}
+                onChange={setSerialNumbers}
+                expected={Number(qty) || 0}
+              />
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            {t('common.cancel')}
+          </Button>
+          <Button
+            onClick={handleMove}
+            disabled={isProcessing || !toLocationId || !(Number(qty) > 0) || Number(qty) > available}
+          >
+            <ArrowRightLeft className="mr-2 h-4 w-4" />
+            {isProcessing ? t('common.loading') : t('stock.move')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -19,7 +19,7 @@ import { useTranslation } from '@/lib/i18n'
 
 interface MovementTrendsChartProps {
   data: {
-    created_at: string
+    effective_date: string
     movement_type: string
     qty: number
   }[]
@@ -35,6 +35,12 @@ const MOVEMENT_COLORS: Record<string, string> = {
   return_in: '#06b6d4', // cyan
   return_out: '#f97316', // orange
   void: '#6b7280', // gray
+  assembly_consume: '#a16207', // yellow-brown
+  assembly_produce: '#14b8a6', // teal
+  bin_move: '#64748b', // slate
+  transfer_loss: '#b91c1c', // dark red
+  transfer_return: '#0ea5e9', // sky
+  cost_adjustment: '#a16207', // amber
 }
 
 export function MovementTrendsChart({ data }: MovementTrendsChartProps) {
@@ -54,7 +60,7 @@ export function MovementTrendsChart({ data }: MovementTrendsChartProps) {
     }
 
     data.forEach((item) => {
-      const dateStr = item.created_at.split('T')[0]
+      const dateStr = item.effective_date
       if (groupedByDate.has(dateStr)) {
         groupedByDate.set(dateStr, (groupedByDate.get(dateStr) || 0) + 1)
       }
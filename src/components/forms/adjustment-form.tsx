@@ -30,6 +30,8 @@ import { createAdjustmentSchema, type AdjustmentFormData } from '@/lib/validatio
 import { createAdjustment, updateAdjustment } from '@/lib/actions/adjustments'
 import { useTranslation } from '@/lib/i18n'
 import { formatCurrency } from '@/lib/utils'
+import { toBaseQty, getDefaultUnit, findInvalidQtyLine } from '@/lib/uom-utils'
+import { UnitSelect } from '@/components/unit-select'
 import { DocumentUpload, type DocumentUploadHandle } from '@/components/documents/document-upload'
 import type { Location, Product } from '@/types'
 
@@ -42,7 +44,15 @@ interface AdjustmentFormProps {
     location_id: string
     reason: string
     notes: string | null
-    lines: { product_id: string; qty: number; lot_number: string | null; expiry_date: string | null; unit_cost: number | null }[]
+    lines: {
+      product_id: string
+      qty: number
+      entered_qty?: number | null
+      entered_uom?: string | null
+      lot_number: string | null
+      expiry_date: string | null
+      unit_cost: number | null
+    }[]
   }
 }
 
@@ -81,7 +91,9 @@ export function AdjustmentForm({ locations, products, currency = 'USD', initialD
           notes: initialData.notes || '',
           lines: initialData.lines.map((l) => ({
             product_id: l.product_id,
-            qty: l.qty,
+            // Edit in the unit the line was entered in
+            qty: l.entered_uom ? l.entered_qty ?? l.qty : l.qty,
+            entered_uom: l.entered_uom ?? null,
             lot_number: l.lot_number || '',
             expiry_date: l.expiry_date || '',
             unit_cost: l.unit_cost || 0,
@@ -91,7 +103,7 @@ export function AdjustmentForm({ locations, products, currency = 'USD', initialD
           location_id: '',
           reason: 'correction' as const,
           notes: '',
-          lines: [{ product_id: '', qty: 0, lot_number: '', expiry_date: '', unit_cost: 0 }],
+          lines: [{ product_id: '', qty: 0, entered_uom: null, lot_number: '', expiry_date: '', unit_cost: 0 }],
         },
   })
 
@@ -106,23 +118,37 @@ export function AdjustmentForm({ locations, products, currency = 'USD', initialD
   // Watch all lines for calculating totals
   const watchedLines = watch('lines')
 
+  // Quantity in base units; unit_cost is always per base unit
+  const getBaseQty = (line?: { product_id: string; qty: number; entered_uom?: string | null }) => {
+    const qty = Number(line?.qty) || 0
+    const product = products.find((p) => p.id === line?.product_id)
+    return product ? toBaseQty(qty, line?.entered_uom, product)?.qty ?? qty : qty
+  }
+
   // Calculate grand total
   const grandTotal = watchedLines.reduce((sum, line) => {
-    const qty = Number(line.qty) || 0
     const unitCost = Number(line.unit_cost) || 0
-    return sum + Math.abs(qty * unitCost)
+    return sum + Math.abs(getBaseQty(line) * unitCost)
   }, 0)
 
-  // Auto-fill unit_cost when product is selected
+  // Auto-fill unit and unit_cost when product is selected
   const handleProductChange = (index: number, productId: string) => {
     setValue(`lines.${index}.product_id`, productId)
     const product = activeProducts.find((p) => p.id === productId)
+    setValue(`lines.${index}.entered_uom`, getDefaultUnit(product, 'stock'))
     if (product?.current_cost) {
       setValue(`lines.${index}.unit_cost`, product.current_cost)
     }
   }
 
   const onSubmit = async (data: AdjustmentFormData) => {
+    const invalidLine = findInvalidQtyLine(data.lines, products)
+    if (invalidLine) {
+      const sku = products.find((p) => p.id === invalidLine.product_id)?.sku ?? ''
+      toast.error(t('validation.wholeQtyRequired', { sku }))
+      return
+    }
+
     try {
       const result = isEdit
         ? await updateAdjustment(initialData!.id, data)
@@ -216,7 +242,7 @@ export function AdjustmentForm({ locations, products, currency = 'USD', initialD
             type="button"
             variant="outline"
             size="sm"
-            onClick={() => append({ product_id: '', qty: 0, lot_number: '', expiry_date: '', unit_cost: 0 })}
+            onClick={() => append({ product_id: '', qty: 0, entered_uom: null, lot_number: '', expiry_date: '', unit_cost: 0 })}
           >
             <Plus className="mr-2 h-4 w-4" />
             {t('common.addLine')}
@@ -237,6 +263,7 @@ export function AdjustmentForm({ locations, products, currency = 'USD', initialD
                 <TableRow>
                   <TableHead className="w-[250px]">{t('products.product')} *</TableHead>
                   <TableHead className="w-[100px]">{t('common.quantity')} *</TableHead>
+                  <TableHead className="w-[140px]">{t('common.unit')}</TableHead>
                   <TableHead className="w-[120px]">{t('stock.lotNumber')}</TableHead>
                   <TableHead className="w-[130px]">{t('stock.expiryDate')}</TableHead>
                   <TableHead className="w-[120px]">{t('purchaseOrders.unitCost')}</TableHead>
@@ -246,9 +273,11 @@ export function AdjustmentForm({ locations, products, currency = 'USD', initialD
               </TableHeader>
               <TableBody>
                 {fields.map((field, index) => {
-                  const qty = Number(watchedLines[index]?.qty) || 0
+                  const product = products.find((p) => p.id === watchedLines[index]?.product_id)
+                  const enteredUom = watchedLines[index]?.entered_uom
+                  const baseQty = getBaseQty(watchedLines[index])
                   const unitCost = Number(watchedLines[index]?.unit_cost) || 0
-                  const lineTotal = Math.abs(qty * unitCost)
+                  const lineTotal = Math.abs(baseQty * unitCost)
 
                   return (
                     <TableRow key={field.id}>
@@ -282,12 +311,24 @@ export function AdjustmentForm({ locations, products, currency = 'USD', initialD
                           placeholder="+10 / -5"
                           className="text-center"
                         />
+                        {enteredUom && product && (
+                          <p className="text-xs text-gray-500 mt-1 text-center">
+                            = {baseQty} {t(`uom.${product.base_uom}`)}
+                          </p>
+                        )}
                         {errors.lines?.[index]?.qty && (
                           <p className="text-sm text-red-600 mt-1">
                             {errors.lines[index]?.qty?.message}
                           </p>
                         )}
                       </TableCell>
+                      <TableCell>
+                        <UnitSelect
+                          product={product}
+                          value={enteredUom}
+                          onChange={(unit) => setValue(`lines.${index}.entered_uom`, unit)}
+                        />
+                      </TableCell>
                       <TableCell>
                         <Input
                           {...register(`lines.${index}.lot_number`)}
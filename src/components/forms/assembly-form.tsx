@@ -0,0 +1,272 @@
+'use client'
+
+import { useMemo } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Textarea } from '@/components/ui/textarea'
+import { toast } from 'sonner'
+import { createAssemblySchema, type AssemblyFormData } from '@/lib/validations/assembly'
+import { createAssembly, updateAssembly } from '@/lib/actions/assemblies'
+import { useTranslation } from '@/lib/i18n'
+import type { AssemblyType, Location, Product } from '@/types'
+
+interface AssemblyFormProps {
+  locations: Location[]
+  // Products with their bill of materials joined
+  products: Product[]
+  initialData?: {
+    id: string
+    assembly_type: AssemblyType
+    product_id: string
+    location_id: string
+    qty: number
+    lot_number: string | null
+    expiry_date: string | null
+    notes: string | null
+  }
+}
+
+export function AssemblyForm({ locations, products, initialData }: AssemblyFormProps) {
+  const router = useRouter()
+  const { t } = useTranslation()
+  const isEdit = !!initialData
+
+  const schema = useMemo(() => createAssemblySchema(t), [t])
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<AssemblyFormData>({
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    resolver: zodResolver(schema) as any,
+    defaultValues: initialData
+      ? {
+          assembly_type: initialData.assembly_type,
+          product_id: initialData.product_id,
+          location_id: initialData.location_id,
+          qty: initialData.qty,
+          lot_number: initialData.lot_number || '',
+          expiry_date: initialData.expiry_date || '',
+          notes: initialData.notes || '',
+        }
+      : {
+          assembly_type: 'assembly' as const,
+          product_id: '',
+          location_id: '',
+          qty: 1,
+          lot_number: '',
+          expiry_date: '',
+          notes: '',
+        },
+  })
+
+  const activeLocations = locations.filter((l) => l.active)
+
+  const assemblyType = watch('assembly_type')
+  const selectedProduct = products.find((p) => p.id === watch('product_id'))
+  const qty = Number(watch('qty')) || 0
+
+  const onSubmit = async (data: AssemblyFormData) => {
+    try {
+      const result = isEdit
+        ? await updateAssembly(initialData!.id, data)
+        : await createAssembly(data)
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const err = (result as any)?.error
+      if (err) {
+        if (typeof err === 'object') {
+          Object.entries(err).forEach(([field, messages]) => {
+            if (Array.isArray(messages)) {
+              messages.forEach((msg) => toast.error(`${field}: ${msg}`))
+            }
+          })
+        }
+        return
+      }
+
+      toast.success(isEdit ? t('toast.assemblyUpdated') : t('toast.assemblyCreated'))
+      router.replace(isEdit ? `/assemblies/${initialData!.id}` : '/assemblies')
+      router.refresh()
+    } catch {
+      toast.error(t('toast.errorOccurred'))
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{isEdit ? t('assemblies.editAssembly') : t('assemblies.assemblyDetails')}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>{t('assemblies.type')} *</Label>
+              <Select
+                value={assemblyType}
+                onValueChange={(value: string) => setValue('assembly_type', value as AssemblyType)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="assembly">{t('assemblies.types.assembly')}</SelectItem>
+                  <SelectItem value="disassembly">{t('assemblies.types.disassembly')}</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500">
+                {assemblyType === 'assembly' ? t('assemblies.assemblyHint') : t('assemblies.disassemblyHint')}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t('locations.title')} *</Label>
+              <Select
+                value={watch('location_id')}
+                onValueChange={(value) => setValue('location_id', value)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder={t('common.selectOption')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeLocations.map((loc) => (
+                    <SelectItem key={loc.id} value={loc.id}>
+                      {loc.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {errors.location_id && (
+                <p className="text-sm text-red-600">{errors.location_id.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t('assemblies.finishedItem')} *</Label>
+              <Select
+                value={watch('product_id')}
+                onValueChange={(value) => setValue('product_id', value)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder={t('common.selectOption')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {products.map((prod) => (
+                    <SelectItem key={prod.id} value={prod.id}>
+                      {prod.sku} - {prod.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {errors.product_id && (
+                <p className="text-sm text-red-600">{errors.product_id.message}</p>
+              )}
+              {products.length === 0 && (
+                <p className="text-xs text-gray-500">{t('assemblies.noBomProducts')}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t('common.quantity')} *</Label>
+              <div className="flex items-center gap-2">
+                <Input type="number" step="0.0001" min="0" {...register('qty')} />
+                {selectedProduct && (
+                  <span className="text-sm text-gray-500">{t(`uom.${selectedProduct.base_uom}`)}</span>
+                )}
+              </div>
+              {errors.qty && (
+                <p className="text-sm text-red-600">{errors.qty.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t('stock.lotNumber')}</Label>
+              <Input {...register('lot_number')} placeholder={t('common.optional')} />
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t('stock.expiryDate')}</Label>
+              <Input type="date" {...register('expiry_date')} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>{t('common.notes')}</Label>
+            <Textarea {...register('notes')} placeholder={t('common.optional')} />
+          </div>
+        </CardContent>
+      </Card>
+
+      {selectedProduct && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('assemblies.requiredComponents')}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-gray-500 mb-4">
+              {assemblyType === 'assembly' ? t('assemblies.consumedHint') : t('assemblies.returnedHint')}
+            </p>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('products.component')}</TableHead>
+                    <TableHead className="text-right w-[140px]">{t('products.qtyPerUnit')}</TableHead>
+                    <TableHead className="text-right w-[140px]">{t('common.quantity')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selectedProduct.bom?.map((line) => (
+                    <TableRow key={line.id}>
+                      <TableCell>
+                        <span className="font-mono text-sm">{line.component?.sku}</span>
+                        <p className="text-sm text-gray-600">{line.component?.name}</p>
+                      </TableCell>
+                      <TableCell className="text-right">{line.qty}</TableCell>
+                      <TableCell className="text-right font-medium">
+                        {Math.round(line.qty * qty * 10000) / 10000} {t(`uom.${line.component?.base_uom}`)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="flex gap-4">
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? t('common.loading') : (isEdit ? t('assemblies.updateAssembly') : t('assemblies.createAssembly'))}
+        </Button>
+        <Button type="button" variant="outline" onClick={() => router.push(isEdit ? `/assemblies/${initialData!.id}` : '/assemblies')}>
+          {t('common.cancel')}
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,116 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { useRouter } from 'next/navigation'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Lock, Loader2 } from 'lucide-react'
+import { createClosePeriodSchema, type ClosePeriodFormData } from '@/lib/validations/settings'
+import { closePeriod } from '@/lib/actions/periods'
+import { useTranslation } from '@/lib/i18n'
+
+// Last day of the previous month, the usual period to close
+function lastMonthEnd(): string {
+  const today = new Date()
+  const end = new Date(Date.UTC(today.getFullYear(), today.getMonth(), 0))
+  return end.toISOString().split('T')[0]
+}
+
+export function ClosePeriodForm() {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const { t } = useTranslation()
+  const schema = useMemo(() => createClosePeriodSchema(t), [t])
+
+  const defaultValues: ClosePeriodFormData = { period_end: lastMonthEnd() }
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    setError,
+  } = useForm<ClosePeriodFormData>({
+    resolver: zodResolver(schema),
+    defaultValues,
+  })
+
+  const onSubmit = async (data: ClosePeriodFormData) => {
+    setIsSubmitting(true)
+    try {
+      const result = await closePeriod(data)
+      if (result.error) {
+        if ('_form' in result.error && result.error._form) {
+          setError('root', { message: result.error._form[0] })
+        } else if ('period_end' in result.error && result.error.period_end) {
+          setError('period_end', { message: result.error.period_end[0] })
+        }
+        return
+      }
+      toast.success(t('toast.periodClosed'))
+      setOpen(false)
+      reset(defaultValues)
+      router.refresh()
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleOpenChange = (newOpen: boolean) => {
+    setOpen(newOpen)
+    if (!newOpen) reset(defaultValues)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button>
+          <Lock className="mr-2 h-4 w-4" />
+          {t('periods.close')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('periods.close')}</DialogTitle>
+          <DialogDescription>{t('periods.closeDesc')}</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="period-end">{t('periods.periodEnd')}</Label>
+            <Input id="period-end" type="date" {...register('period_end')} />
+            {errors.period_end && (
+              <p className="text-sm text-red-500">{errors.period_end.message}</p>
+            )}
+          </div>
+
+          {errors.root && (
+            <p className="text-sm text-red-500">{errors.root.message}</p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('periods.close')}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { Fragment, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -17,6 +17,10 @@ import { Badge } from '@/components/ui/badge'
 import { toast } from 'sonner'
 import { updateCountedQty, postCycleCount } from '@/lib/actions/cycle-counts'
 import { useTranslation } from '@/lib/i18n'
+import { SerialNumbersInput } from '@/components/serial-numbers-input'
+import { findInvalidSerialLine, formatSerialNumbers, parseSerialNumbers } from '@/lib/serial-utils'
+import { toBaseQty, findInvalidQtyLine } from '@/lib/uom-utils'
+import { UnitSelect } from '@/components/unit-select'
 import type { CycleCountLine, Product } from '@/types'
 
 interface CountEntryFormProps {
@@ -28,9 +32,25 @@ export function CountEntryForm({ countId, lines }: CountEntryFormProps) {
   const router = useRouter()
   const { t } = useTranslation()
   const [isSubmitting, setIsSubmitting] = useState(false)
+  // Counted quantities in the unit they were entered in
   const [countedValues, setCountedValues] = useState<Record<string, number>>(
     Object.fromEntries(
-      lines.map((line) => [line.id, line.counted_qty ?? line.system_qty])
+      lines.map((line) => [
+        line.id,
+        line.entered_uom ? line.entered_qty ?? line.counted_qty ?? 0 : line.counted_qty ?? line.system_qty,
+      ])
+    )
+  )
+  const [unitValues, setUnitValues] = useState<Record<string, string | null>>(
+    Object.fromEntries(lines.map((line) => [line.id, line.entered_uom ?? null]))
+  )
+
+  // Units counted on serialized lines
+  const [serialValues, setSerialValues] = useState<Record<string, string>>(
+    Object.fromEntries(
+      lines
+        .filter((line) => line.product?.track_serial)
+        .map((line) => [line.id, formatSerialNumbers(line.serial_numbers)])
     )
   )
 
@@ -38,6 +58,24 @@ export function CountEntryForm({ countId, lines }: CountEntryFormProps) {
     setCountedValues((prev) => ({ ...prev, [lineId]: value }))
   }
 
+  const updateUnit = (lineId: string, unit: string | null) => {
+    setUnitValues((prev) => ({ ...prev, [lineId]: unit }))
+  }
+
+  // The counted quantity of a serialized line follows the units entered
+  const updateSerials = (lineId: string, value: string) => {
+    setSerialValues((prev) => ({ ...prev, [lineId]: value }))
+    updateValue(lineId, parseSerialNumbers(value).length)
+    updateUnit(lineId, null)
+  }
+
+  // Counted quantity in base units
+  const getCountedQty = (line: CycleCountLine & { product?: Product }) => {
+    const counted = countedValues[line.id] ?? 0
+    if (!line.product) return counted
+    return toBaseQty(counted, unitValues[line.id], line.product)?.qty ?? counted
+  }
+
   const handleSave = async () => {
     setIsSubmitting(true)
     try {
@@ -45,6 +83,8 @@ export function CountEntryForm({ countId, lines }: CountEntryFormProps) {
         lines: Object.entries(countedValues).map(([line_id, counted_qty]) => ({
           line_id,
           counted_qty,
+          entered_uom: unitValues[line_id] ?? null,
+          serial_numbers: serialValues[line_id] ?? null,
         })),
       }
       const result = await updateCountedQty(countId, formData)
@@ -62,6 +102,28 @@ export function CountEntryForm({ countId, lines }: CountEntryFormProps) {
   }
 
   const handlePost = async () => {
+    const products = lines.flatMap((line) => (line.product ? [line.product] : []))
+    const enteredLines = lines.map((line) => ({
+      product_id: line.product_id,
+      qty: countedValues[line.id] ?? 0,
+      entered_uom: unitValues[line.id],
+      serial_numbers: serialValues[line.id],
+    }))
+
+    const invalidLine = findInvalidQtyLine(enteredLines, products)
+    if (invalidLine) {
+      const sku = products.find((p) => p.id === invalidLine.product_id)?.sku ?? ''
+      toast.error(t('validation.wholeQtyRequired', { sku }))
+      return
+    }
+
+    const invalidSerialLine = findInvalidSerialLine(enteredLines, products)
+    if (invalidSerialLine) {
+      const sku = products.find((p) => p.id === invalidSerialLine.product_id)?.sku ?? ''
+      toast.error(t('validation.serialCountMismatch', { sku }))
+      return
+    }
+
     if (!confirm(t('cycleCounts.confirmPost'))) return
 
     // First save current counts
@@ -83,10 +145,7 @@ export function CountEntryForm({ countId, lines }: CountEntryFormProps) {
     }
   }
 
-  const totalVariance = lines.reduce((sum, line) => {
-    const counted = countedValues[line.id] ?? 0
-    return sum + (counted - line.system_qty)
-  }, 0)
+  const totalVariance = lines.reduce((sum, line) => sum + (getCountedQty(line) - line.system_qty), 0)
 
   return (
     <Card>
@@ -102,44 +161,73 @@ export function CountEntryForm({ countId, lines }: CountEntryFormProps) {
                 <TableHead>{t('stock.lotNumber')}</TableHead>
                 <TableHead className="text-right">{t('cycleCounts.systemQty')}</TableHead>
                 <TableHead className="w-[120px]">{t('cycleCounts.countedQty')}</TableHead>
+                <TableHead className="w-[140px]">{t('common.unit')}</TableHead>
                 <TableHead className="text-right">{t('cycleCounts.variance')}</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {lines.map((line) => {
                 const counted = countedValues[line.id] ?? 0
-                const variance = counted - line.system_qty
+                const unit = unitValues[line.id]
+                const countedQty = getCountedQty(line)
+                const variance = countedQty - line.system_qty
 
                 return (
-                  <TableRow key={line.id}>
-                    <TableCell>
-                      <div>
-                        <span className="font-mono text-sm">{line.product?.sku}</span>
-                        <p className="text-sm text-gray-600">{line.product?.name}</p>
-                      </div>
-                    </TableCell>
-                    <TableCell>{line.lot_number || '-'}</TableCell>
-                    <TableCell className="text-right">
-                      {line.system_qty} {line.product?.base_uom ? t(`uom.${line.product.base_uom}`) : ''}
-                    </TableCell>
-                    <TableCell>
-                      <Input
-                        type="number"
-                        min="0"
-                        step="any"
-                        value={counted}
-                        onChange={(e) => updateValue(line.id, parseFloat(e.target.value) || 0)}
-                        className="w-24"
-                      />
-                    </TableCell>
-                    <TableCell className="text-right">
-                      <Badge
-                        variant={variance === 0 ? 'secondary' : variance > 0 ? 'default' : 'destructive'}
-                      >
-                        {variance > 0 ? '+' : ''}{variance} {line.product?.base_uom ? t(`uom.${line.product.base_uom}`) : ''}
-                      </Badge>
-                    </TableCell>
-                  </TableRow>
+                  <Fragment key={line.id}>
+                    <TableRow className={line.product?.track_serial ? 'border-b-0' : undefined}>
+                      <TableCell>
+                        <div>
+                          <span className="font-mono text-sm">{line.product?.sku}</span>
+                          <p className="text-sm text-gray-600">{line.product?.name}</p>
+                        </div>
+                      </TableCell>
+                      <TableCell>{line.lot_number || '-'}</TableCell>
+                      <TableCell className="text-right">
+                        {line.system_qty} {line.product?.base_uom ? t(`uom.${line.product.base_uom}`) : ''}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={counted}
+                          onChange={(e) => updateValue(line.id, parseFloat(e.target.value) || 0)}
+                          className="w-24"
+                        />
+                        {unit && line.product && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            = {countedQty} {t(`uom.${line.product.base_uom}`)}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <UnitSelect
+                          product={line.product}
+                          value={unit}
+                          onChange={(value) => updateUnit(line.id, value)}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Badge
+                          variant={variance === 0 ? 'secondary' : variance > 0 ? 'default' : 'destructive'}
+                        >
+                          {variance > 0 ? '+' : ''}{variance} {line.product?.base_uom ? t(`uom.${line.product.base_uom}`) : ''}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                    {line.product?.track_serial && (
+                      <TableRow>
+                        <TableCell colSpan={6} className="pt-0">
+                          <p className="text-xs text-gray-500 mb-1">{t('serials.serialNumbersCounted')}</p>
+                          <SerialNumbersInput
+                            value={serialValues[line.id]}
+                            onChange={(value) => updateSerials(line.id, value)}
+                            expected={countedQty}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
                 )
               })}
             </TableBody>
@@ -0,0 +1,109 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { useRouter } from 'next/navigation'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { CheckCircle, Loader2 } from 'lucide-react'
+import { createInvoiceApprovalSchema, type InvoiceApprovalFormData } from '@/lib/validations/supplier-invoice'
+import { approveSupplierInvoice } from '@/lib/actions/supplier-invoices'
+import { useTranslation } from '@/lib/i18n'
+
+interface InvoiceApprovalFormProps {
+  invoiceId: string
+  invoiceNumber: string
+  size?: 'default' | 'sm'
+}
+
+export function InvoiceApprovalForm({ invoiceId, invoiceNumber, size = 'default' }: InvoiceApprovalFormProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const { t } = useTranslation()
+  const schema = useMemo(() => createInvoiceApprovalSchema(t), [t])
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    setError,
+  } = useForm<InvoiceApprovalFormData>({
+    resolver: zodResolver(schema),
+    defaultValues: { note: '' },
+  })
+
+  const onSubmit = async (data: InvoiceApprovalFormData) => {
+    setIsSubmitting(true)
+    try {
+      const result = await approveSupplierInvoice(invoiceId, data)
+      if (result.error) {
+        setError('root', { message: result.error })
+        return
+      }
+      toast.success(t('toast.supplierInvoiceApproved'))
+      setOpen(false)
+      reset({ note: '' })
+      router.refresh()
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleOpenChange = (newOpen: boolean) => {
+    setOpen(newOpen)
+    if (!newOpen) reset({ note: '' })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size={size}>
+          <CheckCircle className="mr-2 h-4 w-4" />
+          {t('supplierInvoices.approve')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('supplierInvoices.approveTitle', { number: invoiceNumber })}</DialogTitle>
+          <DialogDescription>{t('supplierInvoices.approveDesc')}</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`invoice-approval-note-${invoiceId}`}>{t('supplierInvoices.approvalNote')} *</Label>
+            <Textarea id={`invoice-approval-note-${invoiceId}`} {...register('note')} rows={3} />
+            {errors.note && (
+              <p className="text-sm text-red-500">{errors.note.message}</p>
+            )}
+          </div>
+
+          {errors.root && (
+            <p className="text-sm text-red-500">{errors.root.message}</p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('supplierInvoices.approve')}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,123 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Pencil, Loader2 } from 'lucide-react'
+import { createInvoiceMatchingSchema, type InvoiceMatchingFormData } from '@/lib/validations/settings'
+import { updateInvoiceMatchingSettings } from '@/lib/actions/settings'
+import { useTranslation } from '@/lib/i18n'
+import type { InvoiceMatchingSettings } from '@/types'
+
+interface InvoiceMatchingFormProps {
+  rules: InvoiceMatchingSettings
+}
+
+export function InvoiceMatchingForm({ rules }: InvoiceMatchingFormProps) {
+  const [open, setOpen] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const { t } = useTranslation()
+  const schema = useMemo(() => createInvoiceMatchingSchema(t), [t])
+
+  const defaultValues: InvoiceMatchingFormData = {
+    qty_tolerance_pct: rules.qty_tolerance_pct,
+    price_tolerance_pct: rules.price_tolerance_pct,
+  }
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    setError,
+  } = useForm<InvoiceMatchingFormData>({
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    resolver: zodResolver(schema) as any,
+    defaultValues,
+  })
+
+  const onSubmit = async (data: InvoiceMatchingFormData) => {
+    setIsSubmitting(true)
+    try {
+      const result = await updateInvoiceMatchingSettings(data)
+      if (result.error) {
+        if ('_form' in result.error && result.error._form) {
+          setError('root', { message: result.error._form[0] })
+        } else {
+          setError('root', { message: t('toast.validationError') })
+        }
+        return
+      }
+      toast.success(t('toast.invoiceMatchingSettingsSaved'))
+      setOpen(false)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleOpenChange = (newOpen: boolean) => {
+    setOpen(newOpen)
+    if (!newOpen) reset(defaultValues)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <Pencil className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('supplierInvoices.settingsTitle')}</DialogTitle>
+          <DialogDescription>{t('supplierInvoices.settingsDesc')}</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="qty_tolerance_pct">{t('supplierInvoices.qtyTolerance')}</Label>
+            <Input id="qty_tolerance_pct" type="number" step="0.01" min="0" max="100" {...register('qty_tolerance_pct')} />
+            <p className="text-sm text-gray-500">{t('supplierInvoices.qtyToleranceDesc')}</p>
+            {errors.qty_tolerance_pct && (
+              <p className="text-sm text-red-500">{errors.qty_tolerance_pct.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="price_tolerance_pct">{t('supplierInvoices.priceTolerance')}</Label>
+            <Input id="price_tolerance_pct" type="number" step="0.01" min="0" max="100" {...register('price_tolerance_pct')} />
+            <p className="text-sm text-gray-500">{t('supplierInvoices.priceToleranceDesc')}</p>
+            {errors.price_tolerance_pct && (
+              <p className="text-sm text-red-500">{errors.price_tolerance_pct.message}</p>
+            )}
+          </div>
+
+          {errors.root && (
+            <p className="text-sm text-red-500">{errors.root.message}</p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('common.save')}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
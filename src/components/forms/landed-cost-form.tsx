@@ -0,0 +1,208 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { useRouter } from 'next/navigation'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Plus, Loader2 } from 'lucide-react'
+import { createLandedCostSchema, type LandedCostFormData } from '@/lib/validations/purchase-order'
+import { addLandedCost } from '@/lib/actions/purchase-orders'
+import { useTranslation } from '@/lib/i18n'
+import { formatDate } from '@/lib/utils'
+import type { LandedCostAllocationMethod, LandedCostChargeType } from '@/types'
+
+const CHARGE_TYPES: LandedCostChargeType[] = ['freight', 'duty', 'handling', 'insurance', 'other']
+const ALLOCATION_METHODS: LandedCostAllocationMethod[] = ['value', 'quantity', 'weight']
+
+interface LandedCostFormProps {
+  poId: string
+  receipts: { id: string; received_at: string; voided_at?: string | null }[]
+}
+
+export function LandedCostForm({ poId, receipts }: LandedCostFormProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const { t, locale } = useTranslation()
+  const schema = useMemo(() => createLandedCostSchema(t), [t])
+
+  const defaultValues: LandedCostFormData = {
+    receipt_id: null,
+    charge_type: 'freight',
+    description: '',
+    amount: 0,
+    allocation_method: 'value',
+  }
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    setError,
+    setValue,
+    watch,
+  } = useForm<LandedCostFormData>({
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    resolver: zodResolver(schema) as any,
+    defaultValues,
+  })
+
+  const onSubmit = async (data: LandedCostFormData) => {
+    setIsSubmitting(true)
+    try {
+      const result = await addLandedCost(poId, data)
+      if (result.error) {
+        if ('_form' in result.error && result.error._form) {
+          setError('root', { message: result.error._form[0] })
+        } else if ('amount' in result.error && result.error.amount) {
+          setError('amount', { message: result.error.amount[0] })
+        }
+        return
+      }
+      toast.success(t('toast.landedCostAdded'))
+      setOpen(false)
+      reset(defaultValues)
+      router.refresh()
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleOpenChange = (newOpen: boolean) => {
+    setOpen(newOpen)
+    if (!newOpen) reset(defaultValues)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Plus className="mr-2 h-4 w-4" />
+          {t('landedCosts.add')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('landedCosts.add')}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="landed-receipt">{t('landedCosts.appliesTo')}</Label>
+            <Select
+              value={watch('receipt_id') || 'all'}
+              onValueChange={(value) => setValue('receipt_id', value === 'all' ? null : value)}
+            >
+              <SelectTrigger id="landed-receipt">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t('landedCosts.allReceipts')}</SelectItem>
+                {receipts.map((receipt, index) => !receipt.voided_at && (
+                  <SelectItem key={receipt.id} value={receipt.id}>
+                    {t('landedCosts.receiptLabel', {
+                      number: index + 1,
+                      date: formatDate(receipt.received_at, locale),
+                    })}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="landed-charge-type">{t('landedCosts.chargeType')}</Label>
+              <Select
+                value={watch('charge_type')}
+                onValueChange={(value) => setValue('charge_type', value as LandedCostChargeType)}
+              >
+                <SelectTrigger id="landed-charge-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CHARGE_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {t(`landedCosts.chargeTypes.${type}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="landed-amount">{t('common.amount')}</Label>
+              <Input
+                id="landed-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                {...register('amount')}
+              />
+              {errors.amount && (
+                <p className="text-sm text-red-500">{errors.amount.message}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="landed-method">{t('landedCosts.allocationMethod')}</Label>
+            <Select
+              value={watch('allocation_method')}
+              onValueChange={(value) => setValue('allocation_method', value as LandedCostAllocationMethod)}
+            >
+              <SelectTrigger id="landed-method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ALLOCATION_METHODS.map((method) => (
+                  <SelectItem key={method} value={method}>
+                    {t(`landedCosts.allocationMethods.${method}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-gray-500">{t('landedCosts.allocationMethodDesc')}</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="landed-description">{t('common.description')}</Label>
+            <Input id="landed-description" {...register('description')} />
+          </div>
+
+          {errors.root && (
+            <p className="text-sm text-red-500">{errors.root.message}</p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('landedCosts.allocate')}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
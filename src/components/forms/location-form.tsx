@@ -25,7 +25,7 @@ import { createLocationSchema, type LocationFormData } from '@/lib/validations/l
 import { createLocation, updateLocation } from '@/lib/actions/locations'
 import { useTranslation } from '@/lib/i18n'
 import { DocumentUpload, type DocumentUploadHandle } from '@/components/documents/document-upload'
-import type { Location } from '@/types'
+import type { Location, LocationType } from '@/types'
 
 interface LocationFormProps {
   location?: Location
@@ -56,6 +56,7 @@ export function LocationForm({ location, locations }: LocationFormProps) {
       is_parent: location?.is_parent || false,
       address: location?.address || '',
       active: location?.active ?? true,
+      allow_negative_stock: location?.allow_negative_stock ?? null,
     },
   })
 
@@ -92,6 +93,8 @@ export function LocationForm({ location, locations }: LocationFormProps) {
   }
 
   const isParent = watch('is_parent')
+  const allowNegativeStock = watch('allow_negative_stock')
+  const isBin = watch('type') === 'bin'
 
   // Only show locations marked as "parent locations" in the dropdown
   // Also exclude current location if editing
@@ -100,6 +103,12 @@ export function LocationForm({ location, locations }: LocationFormProps) {
     l.id !== location?.id // Exclude self when editing
   )
 
+  // Bins sit directly in a warehouse
+  const warehouseOptions = locations.filter((l) =>
+    l.type === 'warehouse' &&
+    l.id !== location?.id
+  )
+
   return (
     <div className="space-y-6">
       <div className="flex items-center gap-4">
@@ -140,7 +149,16 @@ export function LocationForm({ location, locations }: LocationFormProps) {
                 <Label htmlFor="type">{t('locations.type')} *</Label>
                 <Select
                   value={watch('type')}
-                  onValueChange={(value: string) => setValue('type', value as 'warehouse' | 'store' | 'outlet')}
+                  onValueChange={(value: string) => {
+                    setValue('type', value as LocationType)
+                    // Bins can't hold other locations, and their warehouse
+                    // isn't a parent location for anything else
+                    if (value === 'bin') {
+                      setValue('is_parent', false)
+                    } else if (isBin) {
+                      setValue('parent_id', null)
+                    }
+                  }}
                 >
                   <SelectTrigger id="type">
                     <SelectValue />
@@ -149,6 +167,7 @@ export function LocationForm({ location, locations }: LocationFormProps) {
                     <SelectItem value="warehouse">{t('locations.warehouse')}</SelectItem>
                     <SelectItem value="store">{t('locations.store')}</SelectItem>
                     <SelectItem value="outlet">{t('locations.outlet')}</SelectItem>
+                    <SelectItem value="bin">{t('locations.bin')}</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -164,53 +183,106 @@ export function LocationForm({ location, locations }: LocationFormProps) {
               />
             </div>
 
-            <div className="flex items-center space-x-3 rounded-lg border p-4">
-              <Checkbox
-                id="is_parent"
-                checked={isParent}
-                onCheckedChange={(checked) => {
-                  setValue('is_parent', !!checked)
-                  // If marking as parent, clear the parent_id (parent locations cannot have parents)
-                  if (checked) {
-                    setValue('parent_id', null)
-                  }
-                }}
-              />
-              <div className="space-y-1">
-                <Label htmlFor="is_parent" className="cursor-pointer font-medium">
-                  {t('locations.isParentLocation')}
-                </Label>
-                <p className="text-sm text-gray-500">
-                  {t('locations.isParentLocationHint')}
-                </p>
-              </div>
-            </div>
-
-            {!isParent && (
+            {isBin ? (
               <div className="space-y-2">
-                <Label htmlFor="parent_id">{t('locations.parentLocation')} ({t('common.optional')})</Label>
+                <Label htmlFor="parent_id">{t('locations.binWarehouse')} *</Label>
                 <Select
-                  value={watch('parent_id') || 'none'}
-                  onValueChange={(value) => setValue('parent_id', value === 'none' ? null : value)}
+                  value={watch('parent_id') || ''}
+                  onValueChange={(value) => setValue('parent_id', value)}
                 >
                   <SelectTrigger id="parent_id">
-                    <SelectValue placeholder={t('locations.noParent')} />
+                    <SelectValue placeholder={t('locations.selectWarehouse')} />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="none">{t('locations.noParent')}</SelectItem>
-                    {parentOptions.map((loc) => (
+                    {warehouseOptions.map((loc) => (
                       <SelectItem key={loc.id} value={loc.id}>
                         {loc.name}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
+                {errors.parent_id && (
+                  <p className="text-sm text-red-600">{errors.parent_id.message}</p>
+                )}
                 <p className="text-sm text-gray-500">
-                  {t('locations.parentHint')}
+                  {t('locations.binHint')}
                 </p>
               </div>
+            ) : (
+              <>
+              <div className="flex items-center space-x-3 rounded-lg border p-4">
+                <Checkbox
+                  id="is_parent"
+                  checked={isParent}
+                  onCheckedChange={(checked) => {
+                    setValue('is_parent', !!checked)
+                    // If marking as parent, clear the parent_id (parent locations cannot have parents)
+                    if (checked) {
+                      setValue('parent_id', null)
+                    }
+                  }}
+                />
+                <div className="space-y-1">
+                  <Label htmlFor="is_parent" className="cursor-pointer font-medium">
+                    {t('locations.isParentLocation')}
+                  </Label>
+                  <p className="text-sm text-gray-500">
+                    {t('locations.isParentLocationHint')}
+                  </p>
+                </div>
+              </div>
+
+              {!isParent && (
+                <div className="space-y-2">
+                  <Label htmlFor="parent_id">{t('locations.parentLocation')} ({t('common.optional')})</Label>
+                  <Select
+                    value={watch('parent_id') || 'none'}
+                    onValueChange={(value) => setValue('parent_id', value === 'none' ? null : value)}
+                  >
+                    <SelectTrigger id="parent_id">
+                      <SelectValue placeholder={t('locations.noParent')} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">{t('locations.noParent')}</SelectItem>
+                      {parentOptions.map((loc) => (
+                        <SelectItem key={loc.id} value={loc.id}>
+                          {loc.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-gray-500">
+                    {t('locations.parentHint')}
+                  </p>
+                </div>
+              )}
+              </>
             )}
 
+            <div className="space-y-2">
+              <Label htmlFor="allow_negative_stock">{t('locations.negativeStock')}</Label>
+              <Select
+                value={allowNegativeStock == null ? 'inherit' : allowNegativeStock ? 'allow' : 'block'}
+                onValueChange={(value) =>
+                  setValue('allow_negative_stock', value === 'inherit' ? null : value === 'allow')
+                }
+              >
+                <SelectTrigger id="allow_negative_stock">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="inherit">
+                    {isBin ? t('locations.negativeStockInheritWarehouse') : t('locations.negativeStockInherit')}
+                  </SelectItem>
+                  <SelectItem value="allow">{t('locations.negativeStockAllow')}</SelectItem>
+                  <SelectItem value="block">{t('locations.negativeStockBlock')}</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-gray-500">
+                {t('locations.negativeStockHint')}
+              </p>
+            </div>
+
             <div className="flex items-center justify-between">
               <div>
                 <Label>{t('common.active')}</Label>
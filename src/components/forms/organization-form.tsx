@@ -25,21 +25,33 @@ import { Pencil, Loader2 } from 'lucide-react'
 import { createOrganizationSchema, type OrganizationFormData } from '@/lib/validations/settings'
 import { updateOrganization } from '@/lib/actions/settings'
 import { useTranslation } from '@/lib/i18n'
+import { DOC_NUMBER_TYPES, formatDocNumber } from '@/lib/doc-number-utils'
+import type { CostingMethod, DocNumberFormat, DocNumberType } from '@/types'
 
 const CURRENCY_CODES = [
   'USD', 'EUR', 'GBP', 'JPY', 'CNY', 'INR', 'AUD', 'CAD', 'CHF', 'SGD', 'PHP', 'MYR', 'IDR', 'THB', 'VND'
 ] as const
 
+const COSTING_METHODS: CostingMethod[] = ['weighted_average', 'fifo']
+
 interface OrganizationFormProps {
   currentName: string
   currentCurrency: string
   requireAdjustmentApproval: boolean
+  fefoDefault: boolean
+  costingMethod: CostingMethod
+  allowNegativeStock: boolean
+  docNumberFormats: Record<DocNumberType, DocNumberFormat>
 }
 
 export function OrganizationForm({
   currentName,
   currentCurrency,
   requireAdjustmentApproval,
+  fefoDefault,
+  costingMethod,
+  allowNegativeStock,
+  docNumberFormats,
 }: OrganizationFormProps) {
   const [open, setOpen] = useState(false)
   const [isSubmitting, setIsSubmitting] = useState(false)
@@ -61,11 +73,19 @@ export function OrganizationForm({
       name: currentName,
       default_currency: currentCurrency,
       require_adjustment_approval: requireAdjustmentApproval,
+      fefo_default: fefoDefault,
+      costing_method: costingMethod,
+      allow_negative_stock: allowNegativeStock,
+      doc_number_formats: docNumberFormats,
     },
   })
 
   const watchCurrency = watch('default_currency')
   const watchApproval = watch('require_adjustment_approval')
+  const watchFefoDefault = watch('fefo_default')
+  const watchCostingMethod = watch('costing_method')
+  const watchAllowNegativeStock = watch('allow_negative_stock')
+  const watchFormats = watch('doc_number_formats')
 
   const onSubmit = async (data: OrganizationFormData) => {
     setIsSubmitting(true)
@@ -92,6 +112,10 @@ export function OrganizationForm({
         name: currentName,
         default_currency: currentCurrency,
         require_adjustment_approval: requireAdjustmentApproval,
+        fefo_default: fefoDefault,
+        costing_method: costingMethod,
+        allow_negative_stock: allowNegativeStock,
+        doc_number_formats: docNumberFormats,
       })
     }
   }
@@ -103,7 +127,7 @@ export function OrganizationForm({
           <Pencil className="h-4 w-4" />
         </Button>
       </DialogTrigger>
-      <DialogContent>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>{t('settings.editOrganization')}</DialogTitle>
         </DialogHeader>
@@ -156,6 +180,110 @@ export function OrganizationForm({
             />
           </div>
 
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="fefo-default">{t('settings.fefoDefault')}</Label>
+              <p className="text-sm text-gray-500">
+                {t('settings.fefoDefaultDesc')}
+              </p>
+            </div>
+            <Switch
+              id="fefo-default"
+              checked={watchFefoDefault}
+              onCheckedChange={(checked) => setValue('fefo_default', checked)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="costing-method">{t('settings.costingMethod')}</Label>
+            <Select
+              value={watchCostingMethod}
+              onValueChange={(value) => setValue('costing_method', value as CostingMethod)}
+            >
+              <SelectTrigger id="costing-method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COSTING_METHODS.map((method) => (
+                  <SelectItem key={method} value={method}>
+                    {t(`settings.costingMethods.${method}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-gray-500">{t('settings.costingMethodDesc')}</p>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="allow-negative-stock">{t('settings.allowNegativeStock')}</Label>
+              <p className="text-sm text-gray-500">
+                {t('settings.allowNegativeStockDesc')}
+              </p>
+            </div>
+            <Switch
+              id="allow-negative-stock"
+              checked={watchAllowNegativeStock}
+              onCheckedChange={(checked) => setValue('allow_negative_stock', checked)}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <div className="space-y-0.5">
+              <Label>{t('settings.docNumbering')}</Label>
+              <p className="text-sm text-gray-500">{t('settings.docNumberingDesc')}</p>
+            </div>
+            <div className="grid grid-cols-[1fr_5rem_4rem_auto_auto] items-center gap-x-3 gap-y-1 text-xs text-gray-500">
+              <span>{t('settings.docType')}</span>
+              <span>{t('settings.docPrefix')}</span>
+              <span>{t('settings.docPadding')}</span>
+              <span>{t('settings.docIncludeYear')}</span>
+              <span>{t('settings.docResetYearly')}</span>
+            </div>
+            {DOC_NUMBER_TYPES.map((type) => {
+              const format = watchFormats?.[type] ?? docNumberFormats[type]
+              const formatErrors = errors.doc_number_formats?.[type]
+              return (
+                <div key={type} className="space-y-1">
+                  <div className="grid grid-cols-[1fr_5rem_4rem_auto_auto] items-center gap-x-3">
+                    <div>
+                      <p className="text-sm font-medium">{t(`settings.docTypes.${type}`)}</p>
+                      <p className="text-xs text-gray-500 font-mono">
+                        {formatDocNumber({ ...format, padding: Number(format.padding) || 1 }, 1)}
+                      </p>
+                    </div>
+                    <Input
+                      {...register(`doc_number_formats.${type}.prefix`)}
+                      aria-label={t('settings.docPrefix')}
+                    />
+                    <Input
+                      type="number"
+                      min={1}
+                      max={10}
+                      {...register(`doc_number_formats.${type}.padding`)}
+                      aria-label={t('settings.docPadding')}
+                    />
+                    <Switch
+                      checked={format.include_year}
+                      onCheckedChange={(checked) => setValue(`doc_number_formats.${type}.include_year`, checked)}
+                      aria-label={t('settings.docIncludeYear')}
+                    />
+                    <Switch
+                      checked={format.reset_yearly}
+                      onCheckedChange={(checked) => setValue(`doc_number_formats.${type}.reset_yearly`, checked)}
+                      aria-label={t('settings.docResetYearly')}
+                    />
+                  </div>
+                  {formatErrors && (
+                    <p className="text-sm text-red-500">
+                      {formatErrors.prefix?.message || formatErrors.padding?.message || formatErrors.reset_yearly?.message}
+                    </p>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+
           {errors.root && (
             <p className="text-sm text-red-500">{errors.root.message}</p>
           )}
@@ -0,0 +1,235 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Pencil, Loader2 } from 'lucide-react'
+import { createPoApprovalSchema, type PoApprovalFormData } from '@/lib/validations/settings'
+import { updatePoApprovalSettings } from '@/lib/actions/settings'
+import { useTranslation } from '@/lib/i18n'
+import type { PoApprovalSettings } from '@/types'
+
+const APPROVER_ROLES = ['admin', 'manager'] as const
+
+interface PoApprovalFormProps {
+  rules: PoApprovalSettings
+  suppliers: { id: string; name: string }[]
+  locations: { id: string; name: string }[]
+}
+
+export function PoApprovalForm({ rules, suppliers, locations }: PoApprovalFormProps) {
+  const [open, setOpen] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const { t } = useTranslation()
+  const schema = useMemo(() => createPoApprovalSchema(t), [t])
+
+  const defaultValues: PoApprovalFormData = {
+    enabled: rules.enabled,
+    threshold: rules.threshold,
+    supplier_ids: rules.supplier_ids,
+    location_ids: rules.location_ids,
+    approver_roles: rules.approver_roles.filter(
+      (role): role is PoApprovalFormData['approver_roles'][number] =>
+        (APPROVER_ROLES as readonly string[]).includes(role)
+    ),
+  }
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    setError,
+    setValue,
+    watch,
+  } = useForm<PoApprovalFormData>({
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    resolver: zodResolver(schema) as any,
+    defaultValues,
+  })
+
+  const watchEnabled = watch('enabled')
+  const watchSuppliers = watch('supplier_ids')
+  const watchLocations = watch('location_ids')
+  const watchRoles = watch('approver_roles')
+
+  const toggle = <T extends string>(list: T[], value: T, checked: boolean) =>
+    checked ? [...list, value] : list.filter((item) => item !== value)
+
+  const onSubmit = async (data: PoApprovalFormData) => {
+    setIsSubmitting(true)
+    try {
+      const result = await updatePoApprovalSettings(data)
+      if (result.error) {
+        if ('_form' in result.error && result.error._form) {
+          setError('root', { message: result.error._form[0] })
+        } else {
+          setError('root', { message: t('toast.validationError') })
+        }
+        return
+      }
+      toast.success(t('toast.poApprovalSettingsSaved'))
+      setOpen(false)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleOpenChange = (newOpen: boolean) => {
+    setOpen(newOpen)
+    if (!newOpen) reset(defaultValues)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <Pencil className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('poApprovals.settingsTitle')}</DialogTitle>
+          <DialogDescription>{t('poApprovals.settingsDesc')}</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="flex items-center justify-between rounded-md border p-3">
+            <div>
+              <Label htmlFor="po-approval-enabled">{t('poApprovals.enabled')}</Label>
+              <p className="text-sm text-gray-500">{t('poApprovals.enabledDesc')}</p>
+            </div>
+            <Switch
+              id="po-approval-enabled"
+              checked={watchEnabled}
+              onCheckedChange={(checked) => setValue('enabled', checked)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="po-approval-threshold">{t('poApprovals.threshold')}</Label>
+            <Input
+              id="po-approval-threshold"
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder={t('common.optional')}
+              disabled={!watchEnabled}
+              {...register('threshold', {
+                setValueAs: (value: unknown) => (value === '' || value === null ? null : value),
+              })}
+            />
+            <p className="text-sm text-gray-500">{t('poApprovals.thresholdDesc')}</p>
+            {errors.threshold && (
+              <p className="text-sm text-red-500">{errors.threshold.message}</p>
+            )}
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>{t('poApprovals.suppliers')}</Label>
+              <p className="text-sm text-gray-500">{t('poApprovals.suppliersDesc')}</p>
+              <div className="max-h-48 space-y-2 overflow-y-auto rounded-md border p-3">
+                {suppliers.length > 0 ? (
+                  suppliers.map((supplier) => (
+                    <div key={supplier.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`po-approval-supplier-${supplier.id}`}
+                        checked={watchSuppliers.includes(supplier.id)}
+                        disabled={!watchEnabled}
+                        onCheckedChange={(checked) =>
+                          setValue('supplier_ids', toggle(watchSuppliers, supplier.id, !!checked))
+                        }
+                      />
+                      <Label htmlFor={`po-approval-supplier-${supplier.id}`} className="cursor-pointer font-normal">
+                        {supplier.name}
+                      </Label>
+                    </div>
+                  ))
+                ) : (
+                  <p className="text-sm text-gray-500">{t('poApprovals.noOptions')}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t('poApprovals.locations')}</Label>
+              <p className="text-sm text-gray-500">{t('poApprovals.locationsDesc')}</p>
+              <div className="max-h-48 space-y-2 overflow-y-auto rounded-md border p-3">
+                {locations.length > 0 ? (
+                  locations.map((location) => (
+                    <div key={location.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`po-approval-location-${location.id}`}
+                        checked={watchLocations.includes(location.id)}
+                        disabled={!watchEnabled}
+                        onCheckedChange={(checked) =>
+                          setValue('location_ids', toggle(watchLocations, location.id, !!checked))
+                        }
+                      />
+                      <Label htmlFor={`po-approval-location-${location.id}`} className="cursor-pointer font-normal">
+                        {location.name}
+                      </Label>
+                    </div>
+                  ))
+                ) : (
+                  <p className="text-sm text-gray-500">{t('poApprovals.noOptions')}</p>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>{t('poApprovals.approverRoles')}</Label>
+            <div className="flex gap-6">
+              {APPROVER_ROLES.map((role) => (
+                <div key={role} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`po-approval-role-${role}`}
+                    checked={watchRoles.includes(role)}
+                    onCheckedChange={(checked) =>
+                      setValue('approver_roles', toggle(watchRoles, role, !!checked))
+                    }
+                  />
+                  <Label htmlFor={`po-approval-role-${role}`} className="cursor-pointer font-normal">
+                    {t(`users.${role}`)}
+                  </Label>
+                </div>
+              ))}
+            </div>
+            {errors.approver_roles && (
+              <p className="text-sm text-red-500">{errors.approver_roles.message}</p>
+            )}
+          </div>
+
+          {errors.root && (
+            <p className="text-sm text-red-500">{errors.root.message}</p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('common.save')}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,133 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { useRouter } from 'next/navigation'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { CheckCircle, XCircle, Loader2 } from 'lucide-react'
+import { createPoDecisionSchema, type PoDecisionFormData } from '@/lib/validations/purchase-order'
+import { decidePurchaseOrder } from '@/lib/actions/purchase-orders'
+import { useTranslation } from '@/lib/i18n'
+import type { PoApprovalDecision } from '@/types'
+
+interface PoDecisionFormProps {
+  poId: string
+  poNumber: string
+  decision: PoApprovalDecision
+  size?: 'default' | 'sm'
+}
+
+export function PoDecisionForm({ poId, poNumber, decision, size = 'default' }: PoDecisionFormProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const { t } = useTranslation()
+  const schema = useMemo(() => createPoDecisionSchema(t), [t])
+  const approving = decision === 'approved'
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    setError,
+  } = useForm<PoDecisionFormData>({
+    resolver: zodResolver(schema),
+    defaultValues: { decision, comment: '' },
+  })
+
+  const onSubmit = async (data: PoDecisionFormData) => {
+    setIsSubmitting(true)
+    try {
+      const result = await decidePurchaseOrder(poId, data)
+      if (result.error) {
+        setError('root', { message: result.error })
+        return
+      }
+      toast.success(approving ? t('toast.poApproved') : t('toast.poRejected'))
+      if (result.emailedTo) toast.success(t('toast.poSentToSupplier', { email: result.emailedTo }))
+      if (result.emailError) toast.warning(t('toast.poEmailFailed'))
+      if (result.attachError) toast.warning(t('toast.poAttachFailed'))
+      setOpen(false)
+      reset({ decision, comment: '' })
+      router.refresh()
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleOpenChange = (newOpen: boolean) => {
+    setOpen(newOpen)
+    if (!newOpen) reset({ decision, comment: '' })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {approving ? (
+          <Button size={size}>
+            <CheckCircle className="mr-2 h-4 w-4" />
+            {t('poApprovals.approve')}
+          </Button>
+        ) : (
+          <Button variant="outline" size={size} className="text-red-600">
+            <XCircle className="mr-2 h-4 w-4" />
+            {t('poApprovals.reject')}
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {approving ? t('poApprovals.approveTitle', { number: poNumber }) : t('poApprovals.rejectTitle', { number: poNumber })}
+          </DialogTitle>
+          <DialogDescription>
+            {approving ? t('poApprovals.approveDesc') : t('poApprovals.rejectDesc')}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`po-decision-comment-${poId}`}>
+              {t('poApprovals.comment')}{!approving && ' *'}
+            </Label>
+            <Textarea
+              id={`po-decision-comment-${poId}`}
+              {...register('comment')}
+              placeholder={approving ? t('common.optional') : undefined}
+              rows={3}
+            />
+            {errors.comment && (
+              <p className="text-sm text-red-500">{errors.comment.message}</p>
+            )}
+          </div>
+
+          {errors.root && (
+            <p className="text-sm text-red-500">{errors.root.message}</p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" variant={approving ? 'default' : 'destructive'} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {approving ? t('poApprovals.approve') : t('poApprovals.reject')}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,11 +1,11 @@
 'use client'
 
 import { useMemo, useRef } from 'react'
-import { useForm } from 'react-hook-form'
+import { useForm, useFieldArray } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
-import { ArrowLeft } from 'lucide-react'
+import { ArrowLeft, Plus, Trash2, Wand2 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -17,22 +17,48 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { Switch } from '@/components/ui/switch'
+import { Checkbox } from '@/components/ui/checkbox'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
 import { toast } from 'sonner'
 import { createProductSchema, type ProductFormData } from '@/lib/validations/product'
+import { getProductUnits } from '@/lib/uom-utils'
+import {
+  buildVariantCombinations,
+  formatVariantValues,
+  toVariantOptions,
+  variantKey,
+  variantName,
+  variantSku,
+  type VariantParent,
+} from '@/lib/variant-utils'
 import { createProduct, updateProduct } from '@/lib/actions/products'
 import { useTranslation } from '@/lib/i18n'
 import { DocumentUpload, type DocumentUploadHandle } from '@/components/documents/document-upload'
 import type { Product, Category } from '@/types'
 
 const UOM_KEYS = ['EA', 'KG', 'G', 'L', 'ML', 'M', 'CM', 'BOX', 'PACK'] as const
+const UNIT_DEFAULTS = ['is_purchase_default', 'is_sales_default', 'is_stock_default'] as const
 
 interface ProductFormProps {
   product?: Product
   categories: Category[]
+  // Existing variants when editing a variant parent
+  variants?: Product[]
+  // Parent when editing a variant
+  parent?: VariantParent | null
+  // Products that can go into the bill of materials
+  components?: Product[]
 }
 
-export function ProductForm({ product, categories }: ProductFormProps) {
+export function ProductForm({ product, categories, variants = [], parent, components = [] }: ProductFormProps) {
   const router = useRouter()
   const { t } = useTranslation()
   const isEdit = !!product
@@ -42,6 +68,7 @@ export function ProductForm({ product, categories }: ProductFormProps) {
 
   const {
     register,
+    control,
     handleSubmit,
     setValue,
     watch,
@@ -55,21 +82,85 @@ export function ProductForm({ product, categories }: ProductFormProps) {
       barcode: product?.barcode || '',
       category_id: product?.category_id || null,
       base_uom: product?.base_uom || 'EA',
-      pack_uom_name: product?.pack_uom_name || '',
-      pack_qty_in_base: product?.pack_qty_in_base || null,
+      units: getProductUnits(product).map((unit) => ({
+        name: unit.name,
+        factor: unit.factor,
+        barcode: unit.barcode || '',
+        is_purchase_default: unit.is_purchase_default,
+        is_sales_default: unit.is_sales_default,
+        is_stock_default: unit.is_stock_default,
+      })),
       current_cost: product?.current_cost || 0,
+      weight: product?.weight || null,
       track_expiry: product?.track_expiry || false,
       track_lot: product?.track_lot || false,
+      track_serial: product?.track_serial || false,
       reorder_point: product?.reorder_point || 0,
       reorder_qty: product?.reorder_qty || 0,
+      max_stock: product?.max_stock || null,
       active: product?.active ?? true,
+      bom: (product?.bom || []).map((line) => ({
+        component_id: line.component_id,
+        qty: line.qty,
+      })),
+      variant_options: (product?.variant_options || []).map((option) => ({
+        name: option.name,
+        values: option.values.join(', '),
+      })),
+      variants: [],
     },
   })
 
+  const { fields: unitFields, append: appendUnit, remove: removeUnit } = useFieldArray({
+    control,
+    name: 'units',
+  })
+
+  const { fields: bomFields, append: appendBomLine, remove: removeBomLine } = useFieldArray({
+    control,
+    name: 'bom',
+  })
+
+  const { fields: optionFields, append: appendOption, remove: removeOption } = useFieldArray({
+    control,
+    name: 'variant_options',
+  })
+
+  const { fields: newVariantFields, append: appendVariants, remove: removeVariant } = useFieldArray({
+    control,
+    name: 'variants',
+  })
+
+  const baseUom = watch('base_uom')
+  const units = watch('units')
   const trackExpiry = watch('track_expiry')
   const trackLot = watch('track_lot')
+  const trackSerial = watch('track_serial')
   const active = watch('active')
 
+  // Add a row for every attribute combination that isn't a variant yet
+  const generateVariants = () => {
+    const existing = new Set([
+      ...variants.map((variant) => variantKey(variant.variant_values)),
+      ...watch('variants').map((variant) => variantKey(variant.values)),
+    ])
+    const combinations = buildVariantCombinations(toVariantOptions(watch('variant_options')))
+      .filter((values) => !existing.has(variantKey(values)))
+
+    if (combinations.length === 0) {
+      toast.info(t('products.noNewVariants'))
+      return
+    }
+
+    const sku = watch('sku')
+    const name = watch('name')
+    appendVariants(combinations.map((values) => ({
+      sku: variantSku(sku, values),
+      name: variantName(name, values),
+      values,
+    })))
+  }
+
   const onSubmit = async (data: ProductFormData) => {
     try {
       const result = isEdit
@@ -208,29 +299,353 @@ export function ProductForm({ product, categories }: ProductFormProps) {
                   </SelectContent>
                 </Select>
               </div>
+            </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="pack_uom_name">{t('products.packUom')}</Label>
-                <Input
-                  id="pack_uom_name"
-                  {...register('pack_uom_name')}
-                  placeholder={t('products.packUomPlaceholder')}
-                />
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>{t('products.alternateUnits')}</Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => appendUnit({
+                    name: '',
+                    factor: 1,
+                    barcode: '',
+                    is_purchase_default: false,
+                    is_sales_default: false,
+                    is_stock_default: false,
+                  })}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  {t('products.addUnit')}
+                </Button>
               </div>
+              {unitFields.length > 0 && (
+                <div className="rounded-md border overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-[160px]">{t('products.unitName')}</TableHead>
+                        <TableHead className="w-[180px]">{t('products.unitFactor')}</TableHead>
+                        <TableHead className="w-[180px]">{t('products.barcode')}</TableHead>
+                        <TableHead className="text-center">{t('products.purchaseDefault')}</TableHead>
+                        <TableHead className="text-center">{t('products.salesDefault')}</TableHead>
+                        <TableHead className="text-center">{t('products.stockDefault')}</TableHead>
+                        <TableHead className="w-[60px]"></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {unitFields.map((field, index) => (
+                        <TableRow key={field.id}>
+                          <TableCell>
+                            <Input
+                              {...register(`units.${index}.name`)}
+                              placeholder={t('products.packUomPlaceholder')}
+                            />
+                            {errors.units?.[index]?.name && (
+                              <p className="text-xs text-red-600 mt-1">{errors.units[index]?.name?.message}</p>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <Input
+                                type="number"
+                                step="0.0001"
+                                {...register(`units.${index}.factor`)}
+                                className="w-24"
+                              />
+                              <span className="text-sm text-gray-500">{t(`uom.${baseUom}`)}</span>
+                            </div>
+                            {errors.units?.[index]?.factor && (
+                              <p className="text-xs text-red-600 mt-1">{errors.units[index]?.factor?.message}</p>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <Input {...register(`units.${index}.barcode`)} />
+                          </TableCell>
+                          {UNIT_DEFAULTS.map((key) => (
+                            <TableCell key={key} className="text-center">
+                              <Checkbox
+                                checked={!!units?.[index]?.[key]}
+                                onCheckedChange={(checked) => {
+                                  // Only one unit per product can hold each default
+                                  units?.forEach((_, i) => {
+                                    if (i !== index) setValue(`units.${i}.${key}`, false)
+                                  })
+                                  setValue(`units.${index}.${key}`, checked === true)
+                                }}
+                              />
+                            </TableCell>
+                          ))}
+                          <TableCell>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => removeUnit(index)}
+                              className="h-8 w-8 p-0 text-red-600"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+              {errors.units && 'message' in errors.units && (
+                <p className="text-sm text-red-600">{errors.units.message}</p>
+              )}
+              <p className="text-sm text-gray-500">
+                {t('products.unitsHint')}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
 
+        {parent ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('products.variants')}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              <p className="text-sm">
+                {t('products.variantOf')}{' '}
+                <Link href={`/products/${parent.id}`} className="font-mono text-blue-600 hover:underline">
+                  {parent.sku}
+                </Link>{' '}
+                - {parent.name}
+              </p>
+              <p className="text-sm text-gray-500">{formatVariantValues(product?.variant_values)}</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('products.variants')}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
               <div className="space-y-2">
-                <Label htmlFor="pack_qty_in_base">{t('products.packQty')}</Label>
-                <Input
-                  id="pack_qty_in_base"
-                  type="number"
-                  step="0.0001"
-                  {...register('pack_qty_in_base')}
-                  placeholder="e.g., 12"
-                />
+                <div className="flex items-center justify-between">
+                  <Label>{t('products.variantAttributes')}</Label>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => appendOption({ name: '', values: '' })}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    {t('products.addAttribute')}
+                  </Button>
+                </div>
+                {optionFields.map((field, index) => (
+                  <div key={field.id} className="flex items-start gap-2">
+                    <div className="w-48">
+                      <Input
+                        {...register(`variant_options.${index}.name`)}
+                        placeholder={t('products.attributeNamePlaceholder')}
+                      />
+                      {errors.variant_options?.[index]?.name && (
+                        <p className="text-xs text-red-600 mt-1">{errors.variant_options[index]?.name?.message}</p>
+                      )}
+                    </div>
+                    <div className="flex-1">
+                      <Input
+                        {...register(`variant_options.${index}.values`)}
+                        placeholder={t('products.attributeValuesPlaceholder')}
+                      />
+                      {errors.variant_options?.[index]?.values && (
+                        <p className="text-xs text-red-600 mt-1">{errors.variant_options[index]?.values?.message}</p>
+                      )}
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeOption(index)}
+                      className="h-9 w-9 p-0 text-red-600"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                {errors.variant_options && 'message' in errors.variant_options && (
+                  <p className="text-sm text-red-600">{errors.variant_options.message}</p>
+                )}
+                <p className="text-sm text-gray-500">
+                  {t('products.variantsHint')}
+                </p>
               </div>
-            </div>
+
+              {optionFields.length > 0 && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>{t('products.variantMatrix')}</Label>
+                    <Button type="button" variant="outline" size="sm" onClick={generateVariants}>
+                      <Wand2 className="mr-2 h-4 w-4" />
+                      {t('products.generateVariants')}
+                    </Button>
+                  </div>
+                  {(variants.length > 0 || newVariantFields.length > 0) && (
+                    <div className="rounded-md border overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead className="w-[160px]">{t('products.variant')}</TableHead>
+                            <TableHead className="w-[220px]">{t('products.sku')}</TableHead>
+                            <TableHead>{t('products.name')}</TableHead>
+                            <TableHead className="w-[60px]"></TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {variants.map((variant) => (
+                            <TableRow key={variant.id}>
+                              <TableCell>{formatVariantValues(variant.variant_values)}</TableCell>
+                              <TableCell>
+                                <Link
+                                  href={`/products/${variant.id}`}
+                                  className="font-mono text-sm text-blue-600 hover:underline"
+                                >
+                                  {variant.sku}
+                                </Link>
+                              </TableCell>
+                              <TableCell className={variant.active ? '' : 'text-gray-400'}>
+                                {variant.name}
+                              </TableCell>
+                              <TableCell></TableCell>
+                            </TableRow>
+                          ))}
+                          {newVariantFields.map((field, index) => (
+                            <TableRow key={field.id}>
+                              <TableCell>{formatVariantValues(field.values)}</TableCell>
+                              <TableCell>
+                                <Input {...register(`variants.${index}.sku`)} className="font-mono" />
+                                {errors.variants?.[index]?.sku && (
+                                  <p className="text-xs text-red-600 mt-1">{errors.variants[index]?.sku?.message}</p>
+                                )}
+                              </TableCell>
+                              <TableCell>
+                                <Input {...register(`variants.${index}.name`)} />
+                                {errors.variants?.[index]?.name && (
+                                  <p className="text-xs text-red-600 mt-1">{errors.variants[index]?.name?.message}</p>
+                                )}
+                              </TableCell>
+                              <TableCell>
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => removeVariant(index)}
+                                  className="h-8 w-8 p-0 text-red-600"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+                  {errors.variants && 'message' in errors.variants && (
+                    <p className="text-sm text-red-600">{errors.variants.message}</p>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>{t('products.billOfMaterials')}</CardTitle>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => appendBomLine({ component_id: '', qty: 1 })}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              {t('products.addComponent')}
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {bomFields.length > 0 && (
+              <div className="rounded-md border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('products.component')}</TableHead>
+                      <TableHead className="w-[220px]">{t('products.qtyPerUnit')}</TableHead>
+                      <TableHead className="w-[60px]"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {bomFields.map((field, index) => {
+                      const component = components.find((p) => p.id === watch(`bom.${index}.component_id`))
+                      return (
+                        <TableRow key={field.id}>
+                          <TableCell>
+                            <Select
+                              value={watch(`bom.${index}.component_id`)}
+                              onValueChange={(value) => setValue(`bom.${index}.component_id`, value)}
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder={t('common.selectOption')} />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {components.map((p) => (
+                                  <SelectItem key={p.id} value={p.id}>
+                                    {p.sku} - {p.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            {errors.bom?.[index]?.component_id && (
+                              <p className="text-xs text-red-600 mt-1">{errors.bom[index]?.component_id?.message}</p>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <Input
+                                type="number"
+                                step="0.0001"
+                                {...register(`bom.${index}.qty`)}
+                                className="w-28"
+                              />
+                              {component && (
+                                <span className="text-sm text-gray-500">{t(`uom.${component.base_uom}`)}</span>
+                              )}
+                            </div>
+                            {errors.bom?.[index]?.qty && (
+                              <p className="text-xs text-red-600 mt-1">{errors.bom[index]?.qty?.message}</p>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => removeBomLine(index)}
+                              className="h-8 w-8 p-0 text-red-600"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+            {errors.bom && 'message' in errors.bom && (
+              <p className="text-sm text-red-600">{errors.bom.message}</p>
+            )}
             <p className="text-sm text-gray-500">
-              {t('products.packUnitHint')}
+              {t('products.bomHint', { uom: t(`uom.${baseUom}`) })}
             </p>
           </CardContent>
         </Card>
@@ -240,7 +655,7 @@ export function ProductForm({ product, categories }: ProductFormProps) {
             <CardTitle>{t('products.costAndReorder')}</CardTitle>
           </CardHeader>
           <CardContent className="space-y-6">
-            <div className="grid gap-4 md:grid-cols-3">
+            <div className="grid gap-4 md:grid-cols-4">
               <div className="space-y-2">
                 <Label htmlFor="current_cost">{t('products.currentCost')}</Label>
                 <Input
@@ -251,6 +666,17 @@ export function ProductForm({ product, categories }: ProductFormProps) {
                 />
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="weight">{t('products.weight')}</Label>
+                <Input
+                  id="weight"
+                  type="number"
+                  step="0.0001"
+                  {...register('weight')}
+                  placeholder={t('products.weightPlaceholder')}
+                />
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="reorder_point">{t('products.reorderPoint')}</Label>
                 <Input
@@ -270,6 +696,17 @@ export function ProductForm({ product, categories }: ProductFormProps) {
                   {...register('reorder_qty')}
                 />
               </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="max_stock">{t('products.maxStock')}</Label>
+                <Input
+                  id="max_stock"
+                  type="number"
+                  step="0.0001"
+                  {...register('max_stock')}
+                  placeholder={t('products.maxStockPlaceholder')}
+                />
+              </div>
             </div>
           </CardContent>
         </Card>
@@ -305,6 +742,19 @@ export function ProductForm({ product, categories }: ProductFormProps) {
               />
             </div>
 
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>{t('products.trackSerial')}</Label>
+                <p className="text-sm text-gray-500">
+                  {t('products.trackSerialDesc')}
+                </p>
+              </div>
+              <Switch
+                checked={trackSerial}
+                onCheckedChange={(checked) => setValue('track_serial', checked)}
+              />
+            </div>
+
             <div className="flex items-center justify-between">
               <div>
                 <Label>{t('common.active')}</Label>
@@ -29,14 +29,18 @@ import { toast } from 'sonner'
 import { createPurchaseOrderSchema, type PurchaseOrderFormData } from '@/lib/validations/purchase-order'
 import { createPurchaseOrder, updatePurchaseOrder } from '@/lib/actions/purchase-orders'
 import { formatCurrency } from '@/lib/utils'
+import { toBaseQty, fromBaseQty, getDefaultUnit, findInvalidQtyLine } from '@/lib/uom-utils'
 import { useTranslation } from '@/lib/i18n'
 import { DocumentUpload, type DocumentUploadHandle } from '@/components/documents/document-upload'
-import type { Supplier, Location, Product } from '@/types'
+import { UnitSelect } from '@/components/unit-select'
+import { applySupplierTerms, supplierTermsIssue } from '@/lib/replenishment-utils'
+import type { Supplier, Location, Product, SupplierProduct } from '@/types'
 
 interface PurchaseOrderFormProps {
   suppliers: Supplier[]
   locations: Location[]
   products: Product[]
+  supplierProducts?: SupplierProduct[]
   currency?: string
   locale?: string
   initialData?: {
@@ -46,11 +50,25 @@ interface PurchaseOrderFormProps {
     order_date: string
     expected_date: string | null
     notes: string | null
-    lines: { product_id: string; qty_ordered: number; unit_cost: number }[]
+    lines: {
+      product_id: string
+      qty_ordered: number
+      unit_cost: number
+      entered_qty?: number | null
+      entered_uom?: string | null
+    }[]
   }
 }
 
-export function PurchaseOrderForm({ suppliers, locations, products, currency = 'USD', locale = 'en', initialData }: PurchaseOrderFormProps) {
+export function PurchaseOrderForm({
+  suppliers,
+  locations,
+  products,
+  supplierProducts = [],
+  currency = 'USD',
+  locale = 'en',
+  initialData,
+}: PurchaseOrderFormProps) {
   const router = useRouter()
   const { t } = useTranslation()
   const docUploadRef = useRef<DocumentUploadHandle>(null)
@@ -77,8 +95,10 @@ export function PurchaseOrderForm({ suppliers, locations, products, currency = '
           notes: initialData.notes || '',
           lines: initialData.lines.map((l) => ({
             product_id: l.product_id,
-            qty_ordered: l.qty_ordered,
+            // Edit in the unit the line was entered in
+            qty_ordered: l.entered_uom ? l.entered_qty ?? l.qty_ordered : l.qty_ordered,
             unit_cost: l.unit_cost,
+            entered_uom: l.entered_uom ?? null,
           })),
         }
       : {
@@ -87,7 +107,7 @@ export function PurchaseOrderForm({ suppliers, locations, products, currency = '
           order_date: new Date().toISOString().split('T')[0],
           expected_date: '',
           notes: '',
-          lines: [{ product_id: '', qty_ordered: 1, unit_cost: 0 }],
+          lines: [{ product_id: '', qty_ordered: 1, unit_cost: 0, entered_uom: null }],
         },
   })
 
@@ -98,18 +118,53 @@ export function PurchaseOrderForm({ suppliers, locations, products, currency = '
 
   const watchedLines = watch('lines')
 
+  // Ordered quantity in base units; unit_cost is always per base unit
+  const getBaseQty = (line?: PurchaseOrderFormData['lines'][number]) => {
+    const qty = Number(line?.qty_ordered) || 0
+    const product = products.find((p) => p.id === line?.product_id)
+    if (!product) return qty
+    return toBaseQty(qty, line?.entered_uom, product)?.qty ?? qty
+  }
+
+  const getCatalogueEntry = (productId?: string, supplierId = watch('supplier_id')) =>
+    supplierProducts.find((sp) => sp.supplier_id === supplierId && sp.product_id === productId)
+
+  // Supplier's contract price, else the last price paid; only in the order's currency
+  const getCataloguePrice = (entry?: SupplierProduct) => {
+    if (!entry || (entry.currency && entry.currency !== currency)) return null
+    return entry.contract_price ?? entry.last_price
+  }
+
+  const handleSupplierChange = (supplierId: string) => {
+    setValue('supplier_id', supplierId)
+    watchedLines.forEach((line, index) => {
+      const price = getCataloguePrice(getCatalogueEntry(line?.product_id, supplierId))
+      if (price !== null) setValue(`lines.${index}.unit_cost`, price)
+    })
+  }
+
   const calculateLineTotal = (index: number) => {
     const line = watchedLines[index]
-    return (line?.qty_ordered || 0) * (line?.unit_cost || 0)
+    return getBaseQty(line) * (line?.unit_cost || 0)
   }
 
   const calculateOrderTotal = () => {
     return watchedLines.reduce((sum, line) => {
-      return sum + (line?.qty_ordered || 0) * (line?.unit_cost || 0)
+      return sum + getBaseQty(line) * (line?.unit_cost || 0)
     }, 0)
   }
 
   const onSubmit = async (data: PurchaseOrderFormData) => {
+    const invalidLine = findInvalidQtyLine(
+      data.lines.map((line) => ({ ...line, qty: line.qty_ordered })),
+      products
+    )
+    if (invalidLine) {
+      const sku = products.find((p) => p.id === invalidLine.product_id)?.sku ?? ''
+      toast.error(t('validation.wholeQtyRequired', { sku }))
+      return
+    }
+
     try {
       const result = isEdit
         ? await updatePurchaseOrder(initialData!.id, data)
@@ -148,7 +203,7 @@ export function PurchaseOrderForm({ suppliers, locations, products, currency = '
               <Label>{t('purchaseOrders.supplier')} *</Label>
               <Select
                 value={watch('supplier_id')}
-                onValueChange={(value) => setValue('supplier_id', value)}
+                onValueChange={handleSupplierChange}
               >
                 <SelectTrigger>
                   <SelectValue placeholder={t('common.selectOption')} />
@@ -229,7 +284,7 @@ export function PurchaseOrderForm({ suppliers, locations, products, currency = '
             type="button"
             variant="outline"
             size="sm"
-            onClick={() => append({ product_id: '', qty_ordered: 1, unit_cost: 0 })}
+            onClick={() => append({ product_id: '', qty_ordered: 1, unit_cost: 0, entered_uom: null })}
           >
             <Plus className="mr-2 h-4 w-4" />
             {t('common.addLine')}
@@ -246,84 +301,138 @@ export function PurchaseOrderForm({ suppliers, locations, products, currency = '
                 <TableRow>
                   <TableHead className="w-[300px]">{t('products.title')}</TableHead>
                   <TableHead className="w-[120px]">{t('common.quantity')}</TableHead>
+                  <TableHead className="w-[140px]">{t('common.unit')}</TableHead>
                   <TableHead className="w-[140px]">{t('purchaseOrders.unitCost')}</TableHead>
                   <TableHead className="w-[120px] text-right">{t('common.total')}</TableHead>
                   <TableHead className="w-[60px]"></TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {fields.map((field, index) => (
-                  <TableRow key={field.id}>
-                    <TableCell>
-                      <Select
-                        value={watch(`lines.${index}.product_id`)}
-                        onValueChange={(value) => {
-                          setValue(`lines.${index}.product_id`, value)
-                          // Prefill unit_cost and qty_ordered from product settings
-                          const selectedProduct = products.find(p => p.id === value)
-                          if (selectedProduct) {
-                            if (selectedProduct.current_cost) {
-                              setValue(`lines.${index}.unit_cost`, selectedProduct.current_cost)
-                            }
-                            if (selectedProduct.reorder_qty) {
-                              setValue(`lines.${index}.qty_ordered`, selectedProduct.reorder_qty)
+                {fields.map((field, index) => {
+                  const line = watchedLines[index]
+                  const product = products.find((p) => p.id === line?.product_id)
+                  const catalogueEntry = getCatalogueEntry(line?.product_id)
+                  const termsIssue = catalogueEntry ? supplierTermsIssue(getBaseQty(line), catalogueEntry) : null
+
+                  return (
+                    <TableRow key={field.id}>
+                      <TableCell>
+                        <Select
+                          value={watch(`lines.${index}.product_id`)}
+                          onValueChange={(value) => {
+                            setValue(`lines.${index}.product_id`, value)
+                            // Prefill unit, unit_cost and qty_ordered from product settings
+                            // and the supplier's catalogue terms
+                            const selectedProduct = products.find(p => p.id === value)
+                            const purchaseUnit = getDefaultUnit(selectedProduct, 'purchase')
+                            const entry = getCatalogueEntry(value)
+                            const cataloguePrice = getCataloguePrice(entry)
+                            setValue(`lines.${index}.entered_uom`, purchaseUnit)
+                            if (selectedProduct) {
+                              if (cataloguePrice !== null) {
+                                setValue(`lines.${index}.unit_cost`, cataloguePrice)
+                              } else if (selectedProduct.current_cost) {
+                                setValue(`lines.${index}.unit_cost`, selectedProduct.current_cost)
+                              }
+                              if (selectedProduct.reorder_qty) {
+                                const orderQty = entry
+                                  ? applySupplierTerms(selectedProduct.reorder_qty, entry)
+                                  : selectedProduct.reorder_qty
+                                // Round up to whole purchase units
+                                setValue(
+                                  `lines.${index}.qty_ordered`,
+                                  purchaseUnit
+                                    ? Math.ceil(fromBaseQty(orderQty, purchaseUnit, selectedProduct))
+                                    : orderQty
+                                )
+                              }
                             }
-                          }
-                        }}
-                      >
-                        <SelectTrigger>
-                          <SelectValue placeholder={t('common.selectOption')} />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {products.map((p) => (
-                            <SelectItem key={p.id} value={p.id}>
-                              {p.sku} - {p.name}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                      {errors.lines?.[index]?.product_id && (
-                        <p className="text-xs text-red-600 mt-1">
-                          {errors.lines[index]?.product_id?.message}
-                        </p>
-                      )}
-                    </TableCell>
-                    <TableCell>
-                      <Input
-                        type="number"
-                        min="1"
-                        step="any"
-                        {...register(`lines.${index}.qty_ordered`)}
-                        className="w-24"
-                      />
-                    </TableCell>
-                    <TableCell>
-                      <Input
-                        type="number"
-                        min="0"
-                        step="0.01"
-                        {...register(`lines.${index}.unit_cost`)}
-                        className="w-28"
-                      />
-                    </TableCell>
-                    <TableCell className="text-right font-medium">
-                      {formatCurrency(calculateLineTotal(index), currency, locale)}
-                    </TableCell>
-                    <TableCell>
-                      {fields.length > 1 && (
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => remove(index)}
-                          className="h-8 w-8 p-0 text-red-600"
+                          }}
                         >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      )}
-                    </TableCell>
-                  </TableRow>
-                ))}
+                          <SelectTrigger>
+                            <SelectValue placeholder={t('common.selectOption')} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {products.map((p) => (
+                              <SelectItem key={p.id} value={p.id}>
+                                {p.sku} - {p.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {catalogueEntry?.supplier_sku && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            {t('supplierProducts.supplierSku')}: {catalogueEntry.supplier_sku}
+                          </p>
+                        )}
+                        {errors.lines?.[index]?.product_id && (
+                          <p className="text-xs text-red-600 mt-1">
+                            {errors.lines[index]?.product_id?.message}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="1"
+                          step="any"
+                          {...register(`lines.${index}.qty_ordered`)}
+                          className="w-24"
+                        />
+                        {line?.entered_uom && product && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            = {getBaseQty(line)} {t(`uom.${product.base_uom}`)}
+                          </p>
+                        )}
+                        {termsIssue && product && (
+                          <p className="text-xs text-amber-600 mt-1">
+                            {termsIssue === 'min_order_qty'
+                              ? t('supplierProducts.belowMinOrderQty', {
+                                  qty: catalogueEntry?.min_order_qty ?? 0,
+                                  unit: t(`uom.${product.base_uom}`),
+                                })
+                              : t('supplierProducts.notPackMultiple', {
+                                  qty: catalogueEntry?.pack_size ?? 0,
+                                  unit: t(`uom.${product.base_uom}`),
+                                })}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <UnitSelect
+                          product={product}
+                          value={line?.entered_uom}
+                          onChange={(unit) => setValue(`lines.${index}.entered_uom`, unit)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          {...register(`lines.${index}.unit_cost`)}
+                          className="w-28"
+                        />
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        {formatCurrency(calculateLineTotal(index), currency, locale)}
+                      </TableCell>
+                      <TableCell>
+                        {fields.length > 1 && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => remove(index)}
+                            className="h-8 w-8 p-0 text-red-600"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
               </TableBody>
             </Table>
           </div>
@@ -1,10 +1,17 @@
 'use client'
 
-import { useState } from 'react'
+import { Fragment, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import {
   Table,
@@ -18,11 +25,19 @@ import { toast } from 'sonner'
 import { receivePurchaseOrder } from '@/lib/actions/purchase-orders'
 import { formatCurrency } from '@/lib/utils'
 import { useTranslation } from '@/lib/i18n'
-import type { PurchaseOrderLine, Product } from '@/types'
+import { toBaseQty, findUnit, findInvalidQtyLine, formatEnteredQty } from '@/lib/uom-utils'
+import { UnitSelect } from '@/components/unit-select'
+import { SerialNumbersInput } from '@/components/serial-numbers-input'
+import { findInvalidSerialLine } from '@/lib/serial-utils'
+import { suggestBin } from '@/lib/bin-utils'
+import type { PurchaseOrderLine, Product, Location, InventoryBalance } from '@/types'
 
 interface ReceiveFormProps {
   poId: string
   lines: (PurchaseOrderLine & { product?: Product })[]
+  // Bins of the PO's location, empty when it has none
+  bins?: Pick<Location, 'id' | 'name'>[]
+  binBalances?: Pick<InventoryBalance, 'product_id' | 'location_id' | 'qty_on_hand'>[]
   currency?: string
   locale?: string
 }
@@ -31,26 +46,54 @@ interface ReceiveLine {
   line_id: string
   product_id: string
   qty_to_receive: number
+  entered_uom: string | null
   lot_number: string
   expiry_date: string
+  serial_numbers: string
+  bin_id: string | null
 }
 
-export function ReceiveForm({ poId, lines, currency = 'USD', locale = 'en' }: ReceiveFormProps) {
+export function ReceiveForm({
+  poId,
+  lines,
+  bins = [],
+  binBalances = [],
+  currency = 'USD',
+  locale = 'en',
+}: ReceiveFormProps) {
   const router = useRouter()
   const { t } = useTranslation()
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [receivedDate, setReceivedDate] = useState(new Date().toISOString().split('T')[0])
   const [receiveLines, setReceiveLines] = useState<ReceiveLine[]>(
-    lines.map((line) => ({
-      line_id: line.id,
-      product_id: line.product_id,
-      qty_to_receive: line.qty_ordered - line.qty_received,
-      lot_number: '',
-      expiry_date: '',
-    }))
+    lines.map((line) => {
+      const remaining = line.qty_ordered - line.qty_received
+      const unit = line.product ? findUnit(line.product, line.entered_uom) : undefined
+      // Lines are received in the unit they were ordered in while whole units remain
+      const inUnit = !!unit && remaining % unit.factor === 0
+      return {
+        line_id: line.id,
+        product_id: line.product_id,
+        qty_to_receive: inUnit ? remaining / unit.factor : remaining,
+        entered_uom: inUnit ? unit.name : null,
+        lot_number: '',
+        expiry_date: '',
+        serial_numbers: '',
+        // Put away next to what's already stocked
+        bin_id: suggestBin(line.product_id, bins, binBalances),
+      }
+    })
   )
 
-  const updateLine = (index: number, field: keyof ReceiveLine, value: string | number) => {
+  // Quantity to receive in base units
+  const getBaseQty = (index: number) => {
+    const receiveLine = receiveLines[index]
+    const product = lines[index]?.product
+    if (!receiveLine || !product) return receiveLine?.qty_to_receive || 0
+    return toBaseQty(receiveLine.qty_to_receive, receiveLine.entered_uom, product)?.qty ?? receiveLine.qty_to_receive
+  }
+
+  const updateLine = (index: number, field: keyof ReceiveLine, value: string | number | null) => {
     setReceiveLines((prev) => {
       const updated = [...prev]
       updated[index] = { ...updated[index], [field]: value }
@@ -68,6 +111,33 @@ export function ReceiveForm({ poId, lines, currency = 'USD', locale = 'en' }: Re
       return
     }
 
+    const products = lines.flatMap((line) => (line.product ? [line.product] : []))
+    const invalidLine = findInvalidQtyLine(
+      receiveLines.map((line) => ({ ...line, qty: line.qty_to_receive })),
+      products
+    )
+    if (invalidLine) {
+      const sku = products.find((p) => p.id === invalidLine.product_id)?.sku ?? ''
+      toast.error(t('validation.wholeQtyRequired', { sku }))
+      return
+    }
+
+    const invalidSerialLine = findInvalidSerialLine(
+      receiveLines.map((line) => ({ ...line, qty: line.qty_to_receive })),
+      products
+    )
+    if (invalidSerialLine) {
+      const sku = products.find((p) => p.id === invalidSerialLine.product_id)?.sku ?? ''
+      toast.error(t('validation.serialCountMismatch', { sku }))
+      return
+    }
+
+    const overReceived = lines.find((line, index) => getBaseQty(index) > line.qty_ordered - line.qty_received)
+    if (overReceived) {
+      toast.error(t('purchaseOrders.cannotReceiveMoreThanOrdered', { sku: overReceived.product?.sku ?? '' }))
+      return
+    }
+
     setIsSubmitting(true)
     try {
       const result = await receivePurchaseOrder(poId, { lines: receiveLines, received_date: receivedDate })
@@ -116,8 +186,12 @@ export function ReceiveForm({ poId, lines, currency = 'USD', locale = 'en' }: Re
                     <TableHead className="text-right">{t('purchaseOrders.received')}</TableHead>
                     <TableHead className="text-right">{t('purchaseOrders.remaining')}</TableHead>
                     <TableHead className="w-[100px]">{t('purchaseOrders.qtyToReceive')}</TableHead>
+                    <TableHead className="w-[140px]">{t('common.unit')}</TableHead>
                     <TableHead className="w-[120px]">{t('purchaseOrders.lot')}</TableHead>
                     <TableHead className="w-[140px]">{t('purchaseOrders.expiry')}</TableHead>
+                    {bins.length > 0 && (
+                      <TableHead className="w-[160px]">{t('purchaseOrders.putawayBin')}</TableHead>
+                    )}
                     <TableHead className="text-right">{t('purchaseOrders.unitCost')}</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -127,64 +201,111 @@ export function ReceiveForm({ poId, lines, currency = 'USD', locale = 'en' }: Re
                     const product = line.product
 
                     return (
-                      <TableRow key={line.id}>
-                        <TableCell>
-                          <div>
-                            <span className="font-mono text-sm">{product?.sku}</span>
-                            <p className="text-sm text-gray-600">{product?.name}</p>
-                          </div>
-                        </TableCell>
-                        <TableCell className="text-right">
-                          {line.qty_ordered} {t(`uom.${product?.base_uom}`)}
-                        </TableCell>
-                        <TableCell className="text-right">
-                          {line.qty_received} {t(`uom.${product?.base_uom}`)}
-                        </TableCell>
-                        <TableCell className="text-right text-orange-600">
-                          {remaining} {t(`uom.${product?.base_uom}`)}
-                        </TableCell>
-                        <TableCell>
-                          <Input
-                            type="number"
-                            min="0"
-                            max={remaining}
-                            step="any"
-                            value={receiveLines[index]?.qty_to_receive || 0}
-                            onChange={(e) =>
-                              updateLine(index, 'qty_to_receive', parseFloat(e.target.value) || 0)
-                            }
-                            className="w-20"
-                          />
-                        </TableCell>
-                        <TableCell>
-                          {product?.track_lot ? (
+                      <Fragment key={line.id}>
+                        <TableRow className={product?.track_serial ? 'border-b-0' : undefined}>
+                          <TableCell>
+                            <div>
+                              <span className="font-mono text-sm">{product?.sku}</span>
+                              <p className="text-sm text-gray-600">{product?.name}</p>
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {line.qty_ordered} {t(`uom.${product?.base_uom}`)}
+                            {formatEnteredQty(line) && (
+                              <p className="text-xs text-gray-500">{formatEnteredQty(line)}</p>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {line.qty_received} {t(`uom.${product?.base_uom}`)}
+                          </TableCell>
+                          <TableCell className="text-right text-orange-600">
+                            {remaining} {t(`uom.${product?.base_uom}`)}
+                          </TableCell>
+                          <TableCell>
                             <Input
-                              type="text"
-                              placeholder={t('purchaseOrders.lot')}
-                              value={receiveLines[index]?.lot_number || ''}
-                              onChange={(e) => updateLine(index, 'lot_number', e.target.value)}
-                              className="w-28"
+                              type="number"
+                              min="0"
+                              max={receiveLines[index]?.entered_uom ? undefined : remaining}
+                              step="any"
+                              value={receiveLines[index]?.qty_to_receive || 0}
+                              onChange={(e) =>
+                                updateLine(index, 'qty_to_receive', parseFloat(e.target.value) || 0)
+                              }
+                              className="w-20"
                             />
-                          ) : (
-                            <span className="text-gray-400">-</span>
-                          )}
-                        </TableCell>
-                        <TableCell>
-                          {product?.track_expiry ? (
-                            <Input
-                              type="date"
-                              value={receiveLines[index]?.expiry_date || ''}
-                              onChange={(e) => updateLine(index, 'expiry_date', e.target.value)}
-                              className="w-36"
+                            {receiveLines[index]?.entered_uom && (
+                              <p className="text-xs text-gray-500 mt-1">
+                                = {getBaseQty(index)} {t(`uom.${product?.base_uom}`)}
+                              </p>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <UnitSelect
+                              product={product}
+                              value={receiveLines[index]?.entered_uom}
+                              onChange={(unit) => updateLine(index, 'entered_uom', unit)}
                             />
-                          ) : (
-                            <span className="text-gray-400">-</span>
+                          </TableCell>
+                          <TableCell>
+                            {product?.track_lot ? (
+                              <Input
+                                type="text"
+                                placeholder={t('purchaseOrders.lot')}
+                                value={receiveLines[index]?.lot_number || ''}
+                                onChange={(e) => updateLine(index, 'lot_number', e.target.value)}
+                                className="w-28"
+                              />
+                            ) : (
+                              <span className="text-gray-400">-</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {product?.track_expiry ? (
+                              <Input
+                                type="date"
+                                value={receiveLines[index]?.expiry_date || ''}
+                                onChange={(e) => updateLine(index, 'expiry_date', e.target.value)}
+                                className="w-36"
+                              />
+                            ) : (
+                              <span className="text-gray-400">-</span>
+                            )}
+                          </TableCell>
+                          {bins.length > 0 && (
+                            <TableCell>
+                              <Select
+                                value={receiveLines[index]?.bin_id || 'none'}
+                                onValueChange={(value) => updateLine(index, 'bin_id', value === 'none' ? null : value)}
+                              >
+                                <SelectTrigger className="w-36">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="none">{t('locations.noBin')}</SelectItem>
+                                  {bins.map((bin) => (
+                                    <SelectItem key={bin.id} value={bin.id}>{bin.name}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
                           )}
-                        </TableCell>
-                        <TableCell className="text-right">
-                          {formatCurrency(line.unit_cost, currency, locale)}
-                        </TableCell>
-                      </TableRow>
+                          <TableCell className="text-right">
+                            {formatCurrency(line.unit_cost, currency, locale)}
+                          </TableCell>
+                        </TableRow>
+                        {product?.track_serial && (
+                          <TableRow>
+                            <TableCell colSpan={bins.length > 0 ? 10 : 9} className="pt-0">
+                              <Label className="text-xs text-gray-500">{t('serials.serialNumbers')}</Label>
+                              <SerialNumbersInput
+                                value={receiveLines[index]?.serial_numbers}
+                                onChange={(value) => updateLine(index, 'serial_numbers', value)}
+                                expected={getBaseQty(index)}
+                              />
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </Fragment>
                     )
                   })}
                 </TableBody>
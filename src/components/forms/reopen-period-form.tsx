@@ -0,0 +1,119 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { useRouter } from 'next/navigation'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { LockOpen, Loader2 } from 'lucide-react'
+import { createReopenPeriodSchema, type ReopenPeriodFormData } from '@/lib/validations/settings'
+import { reopenPeriod } from '@/lib/actions/periods'
+import { useTranslation } from '@/lib/i18n'
+import { formatDate } from '@/lib/utils'
+
+interface ReopenPeriodFormProps {
+  periodId: string
+  periodEnd: string
+}
+
+export function ReopenPeriodForm({ periodId, periodEnd }: ReopenPeriodFormProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const { t, locale } = useTranslation()
+  const schema = useMemo(() => createReopenPeriodSchema(t), [t])
+
+  const defaultValues: ReopenPeriodFormData = { note: '' }
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    setError,
+  } = useForm<ReopenPeriodFormData>({
+    resolver: zodResolver(schema),
+    defaultValues,
+  })
+
+  const onSubmit = async (data: ReopenPeriodFormData) => {
+    setIsSubmitting(true)
+    try {
+      const result = await reopenPeriod(periodId, data)
+      if (result.error) {
+        if ('_form' in result.error && result.error._form) {
+          setError('root', { message: result.error._form[0] })
+        } else if ('note' in result.error && result.error.note) {
+          setError('note', { message: result.error.note[0] })
+        }
+        return
+      }
+      toast.success(t('toast.periodReopened'))
+      setOpen(false)
+      reset(defaultValues)
+      router.refresh()
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleOpenChange = (newOpen: boolean) => {
+    setOpen(newOpen)
+    if (!newOpen) reset(defaultValues)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <LockOpen className="mr-2 h-4 w-4" />
+          {t('periods.reopen')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('periods.reopenTitle', { date: formatDate(periodEnd, locale) })}</DialogTitle>
+          <DialogDescription>{t('periods.reopenDesc')}</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="reopen-note">{t('periods.reopenNote')}</Label>
+            <Textarea
+              id="reopen-note"
+              placeholder={t('periods.reopenNotePlaceholder')}
+              {...register('note')}
+            />
+            {errors.note && (
+              <p className="text-sm text-red-500">{errors.note.message}</p>
+            )}
+          </div>
+
+          {errors.root && (
+            <p className="text-sm text-red-500">{errors.root.message}</p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" variant="destructive" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('periods.reopen')}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
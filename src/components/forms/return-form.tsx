@@ -1,6 +1,6 @@
 'use client'
 
-import { useMemo, useRef } from 'react'
+import { Fragment, useMemo, useRef } from 'react'
 import { useForm, useFieldArray } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { useRouter } from 'next/navigation'
@@ -30,6 +30,10 @@ import { createReturnSchema, type ReturnFormData } from '@/lib/validations/retur
 import { createReturn, updateReturn } from '@/lib/actions/returns'
 import { useTranslation } from '@/lib/i18n'
 import { DocumentUpload, type DocumentUploadHandle } from '@/components/documents/document-upload'
+import { SerialNumbersInput } from '@/components/serial-numbers-input'
+import { findInvalidSerialLine, formatSerialNumbers } from '@/lib/serial-utils'
+import { toBaseQty, getDefaultUnit, findInvalidQtyLine } from '@/lib/uom-utils'
+import { UnitSelect } from '@/components/unit-select'
 import type { Customer, Supplier, Location, Product, InventoryBalance } from '@/types'
 
 interface ReturnFormProps {
@@ -46,7 +50,15 @@ interface ReturnFormProps {
     partner_name: string | null
     reason: string | null
     notes: string | null
-    lines: { product_id: string; qty: number; lot_number: string | null; expiry_date: string | null }[]
+    lines: {
+      product_id: string
+      qty: number
+      lot_number: string | null
+      expiry_date: string | null
+      entered_qty?: number | null
+      entered_uom?: string | null
+      serial_numbers?: string[] | null
+    }[]
   }
 }
 
@@ -78,9 +90,12 @@ export function ReturnForm({ customers, suppliers, locations, products, stockBal
           notes: initialData.notes || '',
           lines: initialData.lines.map((l) => ({
             product_id: l.product_id,
-            qty: l.qty,
+            // Edit in the unit the line was entered in
+            qty: l.entered_uom ? l.entered_qty ?? l.qty : l.qty,
+            entered_uom: l.entered_uom ?? null,
             lot_number: l.lot_number || '',
             expiry_date: l.expiry_date || '',
+            serial_numbers: formatSerialNumbers(l.serial_numbers),
           })),
         }
       : {
@@ -90,7 +105,7 @@ export function ReturnForm({ customers, suppliers, locations, products, stockBal
           partner_name: '',
           reason: '',
           notes: '',
-          lines: [{ product_id: '', qty: 1, lot_number: '', expiry_date: '' }],
+          lines: [{ product_id: '', qty: 1, entered_uom: null, lot_number: '', expiry_date: '', serial_numbers: '' }],
         },
   })
 
@@ -148,6 +163,20 @@ export function ReturnForm({ customers, suppliers, locations, products, stockBal
   }
 
   const onSubmit = async (data: ReturnFormData) => {
+    const invalidLine = findInvalidQtyLine(data.lines, products)
+    if (invalidLine) {
+      const sku = products.find((p) => p.id === invalidLine.product_id)?.sku ?? ''
+      toast.error(t('validation.wholeQtyRequired', { sku }))
+      return
+    }
+
+    const invalidSerialLine = findInvalidSerialLine(data.lines, products)
+    if (invalidSerialLine) {
+      const sku = products.find((p) => p.id === invalidSerialLine.product_id)?.sku ?? ''
+      toast.error(t('validation.serialCountMismatch', { sku }))
+      return
+    }
+
     // Set partner name from selected partner
     if (data.partner_id) {
       const partner = partners.find((p) => p.id === data.partner_id)
@@ -311,7 +340,7 @@ export function ReturnForm({ customers, suppliers, locations, products, stockBal
             type="button"
             variant="outline"
             size="sm"
-            onClick={() => append({ product_id: '', qty: 1, lot_number: '', expiry_date: '' })}
+            onClick={() => append({ product_id: '', qty: 1, entered_uom: null, lot_number: '', expiry_date: '', serial_numbers: '' })}
           >
             <Plus className="mr-2 h-4 w-4" />
             {t('returns.addItem')}
@@ -339,6 +368,7 @@ export function ReturnForm({ customers, suppliers, locations, products, stockBal
                     </>
                   )}
                   <TableHead className="w-[100px]">{t('returns.qty')}</TableHead>
+                  <TableHead className="w-[140px]">{t('common.unit')}</TableHead>
                   <TableHead className="w-[60px]"></TableHead>
                 </TableRow>
               </TableHeader>
@@ -347,6 +377,8 @@ export function ReturnForm({ customers, suppliers, locations, products, stockBal
                   const productId = watch(`lines.${index}.product_id`)
                   const lotNumber = watch(`lines.${index}.lot_number`)
                   const expiryDate = watch(`lines.${index}.expiry_date`)
+                  const qty = watch(`lines.${index}.qty`)
+                  const enteredUom = watch(`lines.${index}.entered_uom`)
                   const product = products.find((p) => p.id === productId)
                   const availableLots = productId ? getAvailableLots(productId) : []
                   const totalStock = productId ? getTotalStock(productId) : 0
@@ -362,136 +394,170 @@ export function ReturnForm({ customers, suppliers, locations, products, stockBal
                   const lotStock = selectedBalance?.qty_on_hand || 0
 
                   return (
-                    <TableRow key={field.id}>
-                      <TableCell>
-                        <Select
-                          value={watch(`lines.${index}.product_id`)}
-                          onValueChange={(value) => {
-                            setValue(`lines.${index}.product_id`, value)
-                            // Clear lot selection when product changes
-                            setValue(`lines.${index}.lot_number`, '')
-                            setValue(`lines.${index}.expiry_date`, '')
-                          }}
-                        >
-                          <SelectTrigger>
-                            <SelectValue placeholder={t('cycleCounts.selectProduct')} />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {availableProducts.map((p) => (
-                              <SelectItem key={p.id} value={p.id}>
-                                {p.sku} - {p.name}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        {errors.lines?.[index]?.product_id && (
-                          <p className="text-xs text-red-600 mt-1">
-                            {errors.lines[index]?.product_id?.message}
-                          </p>
-                        )}
-                      </TableCell>
+                    <Fragment key={field.id}>
+                      <TableRow className={product?.track_serial ? 'border-b-0' : undefined}>
+                        <TableCell>
+                          <Select
+                            value={watch(`lines.${index}.product_id`)}
+                            onValueChange={(value) => {
+                              setValue(`lines.${index}.product_id`, value)
+                              setValue(
+                                `lines.${index}.entered_uom`,
+                                getDefaultUnit(
+                                  products.find((p) => p.id === value),
+                                  isSupplierReturn ? 'purchase' : 'sales'
+                                )
+                              )
+                              // Clear lot selection when product changes
+                              setValue(`lines.${index}.lot_number`, '')
+                              setValue(`lines.${index}.serial_numbers`, '')
+                              setValue(`lines.${index}.expiry_date`, '')
+                            }}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder={t('cycleCounts.selectProduct')} />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {availableProducts.map((p) => (
+                                <SelectItem key={p.id} value={p.id}>
+                                  {p.sku} - {p.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {errors.lines?.[index]?.product_id && (
+                            <p className="text-xs text-red-600 mt-1">
+                              {errors.lines[index]?.product_id?.message}
+                            </p>
+                          )}
+                        </TableCell>
 
-                      {isSupplierReturn ? (
-                        <>
-                          <TableCell>
-                            {productId && availableLots.length > 0 ? (
-                              <Select
-                                value={selectedBalance?.id || 'none'}
-                                onValueChange={(balanceId) => {
-                                  if (balanceId === 'none') {
-                                    setValue(`lines.${index}.lot_number`, '')
-                                    setValue(`lines.${index}.expiry_date`, '')
-                                  } else {
-                                    const balance = stockBalances.find((b) => b.id === balanceId)
-                                    if (balance) {
-                                      setValue(`lines.${index}.lot_number`, balance.lot_number || '')
-                                      setValue(`lines.${index}.expiry_date`, balance.expiry_date || '')
+                        {isSupplierReturn ? (
+                          <>
+                            <TableCell>
+                              {productId && availableLots.length > 0 ? (
+                                <Select
+                                  value={selectedBalance?.id || 'none'}
+                                  onValueChange={(balanceId) => {
+                                    if (balanceId === 'none') {
+                                      setValue(`lines.${index}.lot_number`, '')
+                                      setValue(`lines.${index}.expiry_date`, '')
+                                    } else {
+                                      const balance = stockBalances.find((b) => b.id === balanceId)
+                                      if (balance) {
+                                        setValue(`lines.${index}.lot_number`, balance.lot_number || '')
+                                        setValue(`lines.${index}.expiry_date`, balance.expiry_date || '')
+                                      }
                                     }
-                                  }
-                                }}
-                              >
-                                <SelectTrigger>
-                                  <SelectValue placeholder={t('shipments.selectLot')} />
-                                </SelectTrigger>
-                                <SelectContent>
-                                  <SelectItem value="none">-- {t('shipments.selectLot')} --</SelectItem>
-                                  {availableLots.map((balance) => (
-                                    <SelectItem key={balance.id} value={balance.id}>
-                                      {formatLotDisplay(balance)}
-                                    </SelectItem>
-                                  ))}
-                                </SelectContent>
-                              </Select>
-                            ) : productId ? (
-                              <span className="text-gray-400 text-sm">{t('stock.noStockAvailable')}</span>
-                            ) : (
-                              <span className="text-gray-400 text-sm">-</span>
-                            )}
-                          </TableCell>
-                          <TableCell>
-                            <div className="text-sm">
-                              <div className={totalStock > 0 ? 'text-blue-600' : 'text-red-600'}>
-                                {t('common.total')}: {totalStock} {t(`uom.${product?.base_uom}`)}
-                              </div>
-                              {selectedBalance && (
-                                <div className={lotStock > 0 ? 'text-green-600' : 'text-red-600'}>
-                                  {t('stock.lot')}: {lotStock} {t(`uom.${product?.base_uom}`)}
+                                  }}
+                                >
+                                  <SelectTrigger>
+                                    <SelectValue placeholder={t('shipments.selectLot')} />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value="none">-- {t('shipments.selectLot')} --</SelectItem>
+                                    {availableLots.map((balance) => (
+                                      <SelectItem key={balance.id} value={balance.id}>
+                                        {formatLotDisplay(balance)}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              ) : productId ? (
+                                <span className="text-gray-400 text-sm">{t('stock.noStockAvailable')}</span>
+                              ) : (
+                                <span className="text-gray-400 text-sm">-</span>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <div className="text-sm">
+                                <div className={totalStock > 0 ? 'text-blue-600' : 'text-red-600'}>
+                                  {t('common.total')}: {totalStock} {t(`uom.${product?.base_uom}`)}
                                 </div>
+                                {selectedBalance && (
+                                  <div className={lotStock > 0 ? 'text-green-600' : 'text-red-600'}>
+                                    {t('stock.lot')}: {lotStock} {t(`uom.${product?.base_uom}`)}
+                                  </div>
+                                )}
+                              </div>
+                            </TableCell>
+                          </>
+                        ) : (
+                          <>
+                            <TableCell>
+                              {product?.track_lot ? (
+                                <Input
+                                  type="text"
+                                  placeholder={t('purchaseOrders.lot')}
+                                  {...register(`lines.${index}.lot_number`)}
+                                  className="w-28"
+                                />
+                              ) : (
+                                <span className="text-gray-400">-</span>
                               )}
-                            </div>
-                          </TableCell>
-                        </>
-                      ) : (
-                        <>
-                          <TableCell>
-                            {product?.track_lot ? (
-                              <Input
-                                type="text"
-                                placeholder={t('purchaseOrders.lot')}
-                                {...register(`lines.${index}.lot_number`)}
-                                className="w-28"
-                              />
-                            ) : (
-                              <span className="text-gray-400">-</span>
-                            )}
-                          </TableCell>
-                          <TableCell>
-                            {product?.track_expiry ? (
-                              <Input
-                                type="date"
-                                {...register(`lines.${index}.expiry_date`)}
-                                className="w-36"
-                              />
-                            ) : (
-                              <span className="text-gray-400">-</span>
-                            )}
+                            </TableCell>
+                            <TableCell>
+                              {product?.track_expiry ? (
+                                <Input
+                                  type="date"
+                                  {...register(`lines.${index}.expiry_date`)}
+                                  className="w-36"
+                                />
+                              ) : (
+                                <span className="text-gray-400">-</span>
+                              )}
+                            </TableCell>
+                          </>
+                        )}
+
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="1"
+                            step="any"
+                            {...register(`lines.${index}.qty`)}
+                            className="w-20"
+                          />
+                          {enteredUom && product && (
+                            <p className="text-xs text-gray-500 mt-1">
+                              = {toBaseQty(Number(qty) || 0, enteredUom, product)?.qty} {t(`uom.${product.base_uom}`)}
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <UnitSelect
+                            product={product}
+                            value={enteredUom}
+                            onChange={(unit) => setValue(`lines.${index}.entered_uom`, unit)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          {fields.length > 1 && (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => remove(index)}
+                              className="h-8 w-8 p-0 text-red-600"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {product?.track_serial && (
+                        <TableRow>
+                          <TableCell colSpan={6} className="pt-0">
+                            <Label className="text-xs text-gray-500">{t('serials.serialNumbers')}</Label>
+                            <SerialNumbersInput
+                              value={watch(`lines.${index}.serial_numbers`)}
+                              onChange={(value) => setValue(`lines.${index}.serial_numbers`, value)}
+                              expected={toBaseQty(Number(qty) || 0, enteredUom, product)?.qty ?? 0}
+                            />
                           </TableCell>
-                        </>
+                        </TableRow>
                       )}
-
-                      <TableCell>
-                        <Input
-                          type="number"
-                          min="1"
-                          step="any"
-                          {...register(`lines.${index}.qty`)}
-                          className="w-20"
-                        />
-                      </TableCell>
-                      <TableCell>
-                        {fields.length > 1 && (
-                          <Button
-                            type="button"
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => remove(index)}
-                            className="h-8 w-8 p-0 text-red-600"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        )}
-                      </TableCell>
-                    </TableRow>
+                    </Fragment>
                   )
                 })}
               </TableBody>
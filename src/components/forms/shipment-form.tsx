@@ -1,6 +1,6 @@
 'use client'
 
-import { useMemo, useRef } from 'react'
+import { Fragment, useMemo, useRef } from 'react'
 import { useForm, useFieldArray } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { useRouter } from 'next/navigation'
@@ -29,7 +29,12 @@ import { toast } from 'sonner'
 import { createShipmentSchema, type ShipmentFormData } from '@/lib/validations/shipment'
 import { createShipment, updateShipment } from '@/lib/actions/shipments'
 import { useTranslation } from '@/lib/i18n'
+import { toBaseQty, getDefaultUnit, findInvalidQtyLine } from '@/lib/uom-utils'
 import { DocumentUpload, type DocumentUploadHandle } from '@/components/documents/document-upload'
+import { UnitSelect } from '@/components/unit-select'
+import { SerialNumbersInput } from '@/components/serial-numbers-input'
+import { findInvalidSerialLine, formatSerialNumbers } from '@/lib/serial-utils'
+import { binsOf, suggestBin } from '@/lib/bin-utils'
 import type { Customer, Location, Product, InventoryBalance } from '@/types'
 
 interface ShipmentFormProps {
@@ -37,6 +42,7 @@ interface ShipmentFormProps {
   locations: Location[]
   products: Product[]
   stockBalances: InventoryBalance[]
+  fefoDefault?: boolean
   initialData?: {
     id: string
     location_id: string
@@ -44,11 +50,20 @@ interface ShipmentFormProps {
     customer_name: string | null
     ship_date: string | null
     notes: string | null
-    lines: { product_id: string; qty: number; lot_number: string | null; expiry_date: string | null }[]
+    lines: {
+      product_id: string
+      qty: number
+      lot_number: string | null
+      expiry_date: string | null
+      entered_qty?: number | null
+      entered_uom?: string | null
+      serial_numbers?: string[] | null
+      bin_id?: string | null
+    }[]
   }
 }
 
-export function ShipmentForm({ customers, locations, products, stockBalances, initialData }: ShipmentFormProps) {
+export function ShipmentForm({ customers, locations, products, stockBalances, fefoDefault, initialData }: ShipmentFormProps) {
   const router = useRouter()
   const { t } = useTranslation()
   const docUploadRef = useRef<DocumentUploadHandle>(null)
@@ -75,9 +90,14 @@ export function ShipmentForm({ customers, locations, products, stockBalances, in
           notes: initialData.notes || '',
           lines: initialData.lines.map((l) => ({
             product_id: l.product_id,
-            qty: l.qty,
+            // Edit in the unit the line was entered in
+            qty: l.entered_uom ? l.entered_qty ?? l.qty : l.qty,
+            entered_uom: l.entered_uom ?? null,
             lot_number: l.lot_number || '',
             expiry_date: l.expiry_date || '',
+            auto_allocate: false,
+            serial_numbers: formatSerialNumbers(l.serial_numbers),
+            bin_id: l.bin_id ?? null,
           })),
         }
       : {
@@ -86,7 +106,7 @@ export function ShipmentForm({ customers, locations, products, stockBalances, in
           customer_name: '',
           ship_date: new Date().toISOString().split('T')[0],
           notes: '',
-          lines: [{ product_id: '', qty: 1, lot_number: '', expiry_date: '' }],
+          lines: [{ product_id: '', qty: 1, entered_uom: null, lot_number: '', expiry_date: '', auto_allocate: false, serial_numbers: '', bin_id: null }],
         },
   })
 
@@ -98,28 +118,40 @@ export function ShipmentForm({ customers, locations, products, stockBalances, in
   const watchedLocationId = watch('location_id')
   const watchedCustomerId = watch('customer_id')
 
-  // Only show products that have stock in the selected source location
+  // Bins of the selected source location, lines pick from one of them or
+  // from the location's own stock
+  const bins = useMemo(() => binsOf(locations, watchedLocationId), [locations, watchedLocationId])
+
+  // Only show products that have stock in the selected source location or its bins
   const availableProducts = useMemo(() => {
     if (!watchedLocationId) return []
+    const stockLocationIds = new Set([watchedLocationId, ...bins.map((bin) => bin.id)])
     const productIdsWithStock = new Set(
       stockBalances
-        .filter((b) => b.location_id === watchedLocationId && b.qty_on_hand > 0)
+        .filter((b) => stockLocationIds.has(b.location_id) && b.qty_on_hand > 0)
         .map((b) => b.product_id)
     )
     return products.filter((p) => p.active && productIdsWithStock.has(p.id))
-  }, [watchedLocationId, stockBalances, products])
+  }, [watchedLocationId, bins, stockBalances, products])
+
+  // Get total available stock for a product at a location or bin (sum of all lots, net of reservations)
+  const getTotalStock = (productId: string, locationId: string) => {
+    return stockBalances
+      .filter((b) => b.product_id === productId && b.location_id === locationId)
+      .reduce((sum, b) => sum + (b.available_qty ?? b.qty_on_hand), 0)
+  }
 
-  // Get total available stock for a product at selected location (sum of all lots)
-  const getTotalStock = (productId: string) => {
+  // Get stock held by confirmed shipments for a product at a location or bin
+  const getTotalReserved = (productId: string, locationId: string) => {
     return stockBalances
-      .filter((b) => b.product_id === productId && b.location_id === watchedLocationId)
-      .reduce((sum, b) => sum + b.qty_on_hand, 0)
+      .filter((b) => b.product_id === productId && b.location_id === locationId)
+      .reduce((sum, b) => sum + (b.reserved_qty || 0), 0)
   }
 
-  // Get all available lots/batches for a product at selected location
-  const getAvailableLots = (productId: string) => {
+  // Get all available lots/batches for a product at a location or bin
+  const getAvailableLots = (productId: string, locationId: string) => {
     return stockBalances.filter(
-      (b) => b.product_id === productId && b.location_id === watchedLocationId && b.qty_on_hand > 0
+      (b) => b.product_id === productId && b.location_id === locationId && b.qty_on_hand > 0
     )
   }
 
@@ -141,11 +173,25 @@ export function ShipmentForm({ customers, locations, products, stockBalances, in
       parts.push(`${t('stock.expiry')}: ${balance.expiry_date}`)
     }
     const uom = products.find(p => p.id === balance.product_id)?.base_uom
-    parts.push(`(${balance.qty_on_hand} ${uom ? t(`uom.${uom}`) : ''})`)
+    parts.push(`(${balance.available_qty ?? balance.qty_on_hand} ${uom ? t(`uom.${uom}`) : ''})`)
     return parts.join(' - ')
   }
 
   const onSubmit = async (data: ShipmentFormData) => {
+    const invalidLine = findInvalidQtyLine(data.lines, products)
+    if (invalidLine) {
+      const sku = products.find((p) => p.id === invalidLine.product_id)?.sku ?? ''
+      toast.error(t('validation.wholeQtyRequired', { sku }))
+      return
+    }
+
+    const invalidSerialLine = findInvalidSerialLine(data.lines, products)
+    if (invalidSerialLine) {
+      const sku = products.find((p) => p.id === invalidSerialLine.product_id)?.sku ?? ''
+      toast.error(t('validation.serialCountMismatch', { sku }))
+      return
+    }
+
     if (data.customer_name && !data.customer_id) {
       data.customer_id = null
     }
@@ -194,6 +240,7 @@ export function ShipmentForm({ customers, locations, products, stockBalances, in
                   const currentLines = watch('lines')
                   currentLines.forEach((_, index) => {
                     setValue(`lines.${index}.product_id`, '')
+                    setValue(`lines.${index}.bin_id`, null)
                     setValue(`lines.${index}.lot_number`, '')
                     setValue(`lines.${index}.expiry_date`, '')
                   })
@@ -203,7 +250,7 @@ export function ShipmentForm({ customers, locations, products, stockBalances, in
                   <SelectValue placeholder={t('common.selectOption')} />
                 </SelectTrigger>
                 <SelectContent>
-                  {locations.map((l) => (
+                  {locations.filter((l) => l.type !== 'bin').map((l) => (
                     <SelectItem key={l.id} value={l.id}>{l.name}</SelectItem>
                   ))}
                 </SelectContent>
@@ -280,7 +327,7 @@ export function ShipmentForm({ customers, locations, products, stockBalances, in
             type="button"
             variant="outline"
             size="sm"
-            onClick={() => append({ product_id: '', qty: 1, lot_number: '', expiry_date: '' })}
+            onClick={() => append({ product_id: '', qty: 1, entered_uom: null, lot_number: '', expiry_date: '', auto_allocate: false, serial_numbers: '', bin_id: null })}
           >
             <Plus className="mr-2 h-4 w-4" />
             {t('common.addLine')}
@@ -296,9 +343,13 @@ export function ShipmentForm({ customers, locations, products, stockBalances, in
               <TableHeader>
                 <TableRow>
                   <TableHead className="w-[250px]">{t('products.title')}</TableHead>
+                  {bins.length > 0 && (
+                    <TableHead className="w-[180px]">{t('locations.bin')}</TableHead>
+                  )}
                   <TableHead className="w-[280px]">{t('stock.lotBatch')}</TableHead>
                   <TableHead className="w-[140px]">{t('stock.available')}</TableHead>
                   <TableHead className="w-[100px]">{t('common.quantity')}</TableHead>
+                  <TableHead className="w-[140px]">{t('common.unit')}</TableHead>
                   <TableHead className="w-[60px]"></TableHead>
                 </TableRow>
               </TableHeader>
@@ -307,119 +358,199 @@ export function ShipmentForm({ customers, locations, products, stockBalances, in
                   const productId = watch(`lines.${index}.product_id`)
                   const lotNumber = watch(`lines.${index}.lot_number`)
                   const expiryDate = watch(`lines.${index}.expiry_date`)
+                  const autoAllocate = watch(`lines.${index}.auto_allocate`)
+                  const qty = watch(`lines.${index}.qty`)
+                  const enteredUom = watch(`lines.${index}.entered_uom`)
+                  const binId = watch(`lines.${index}.bin_id`)
+                  const stockLocationId = binId || watchedLocationId
                   const product = products.find((p) => p.id === productId)
-                  const availableLots = productId ? getAvailableLots(productId) : []
-                  const totalStock = productId ? getTotalStock(productId) : 0
+                  const availableLots = productId ? getAvailableLots(productId, stockLocationId) : []
+                  const totalStock = productId ? getTotalStock(productId, stockLocationId) : 0
+                  const totalReserved = productId ? getTotalReserved(productId, stockLocationId) : 0
 
                   // Find the selected balance
                   const selectedBalance = stockBalances.find(
                     (b) =>
                       b.product_id === productId &&
-                      b.location_id === watchedLocationId &&
+                      b.location_id === stockLocationId &&
                       (b.lot_number || '') === (lotNumber || '') &&
                       (b.expiry_date || '') === (expiryDate || '')
                   )
-                  const lotStock = selectedBalance?.qty_on_hand || 0
+                  const lotStock = selectedBalance?.available_qty ?? selectedBalance?.qty_on_hand ?? 0
 
                   return (
-                    <TableRow key={field.id}>
-                      <TableCell>
-                        <Select
-                          value={watch(`lines.${index}.product_id`)}
-                          onValueChange={(value) => {
-                            setValue(`lines.${index}.product_id`, value)
-                            // Clear lot selection when product changes
-                            setValue(`lines.${index}.lot_number`, '')
-                            setValue(`lines.${index}.expiry_date`, '')
-                          }}
-                        >
-                          <SelectTrigger>
-                            <SelectValue placeholder={t('common.selectOption')} />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {availableProducts.map((p) => (
-                              <SelectItem key={p.id} value={p.id}>
-                                {p.sku} - {p.name}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        {errors.lines?.[index]?.product_id && (
-                          <p className="text-xs text-red-600 mt-1">
-                            {errors.lines[index]?.product_id?.message}
-                          </p>
-                        )}
-                      </TableCell>
-                      <TableCell>
-                        {productId && availableLots.length > 0 ? (
+                    <Fragment key={field.id}>
+                      <TableRow className={product?.track_serial ? 'border-b-0' : undefined}>
+                        <TableCell>
                           <Select
-                            value={selectedBalance?.id || 'none'}
-                            onValueChange={(balanceId) => {
-                              if (balanceId === 'none') {
-                                setValue(`lines.${index}.lot_number`, '')
-                                setValue(`lines.${index}.expiry_date`, '')
-                              } else {
-                                const balance = stockBalances.find((b) => b.id === balanceId)
-                                if (balance) {
-                                  setValue(`lines.${index}.lot_number`, balance.lot_number || '')
-                                  setValue(`lines.${index}.expiry_date`, balance.expiry_date || '')
-                                }
-                              }
+                            value={watch(`lines.${index}.product_id`)}
+                            onValueChange={(value) => {
+                              setValue(`lines.${index}.product_id`, value)
+                              setValue(
+                                `lines.${index}.entered_uom`,
+                                getDefaultUnit(products.find((p) => p.id === value), 'sales')
+                              )
+                              // Pick from the bin holding the most of it
+                              setValue(`lines.${index}.bin_id`, suggestBin(value, bins, stockBalances))
+                              // Clear lot selection when product changes
+                              setValue(`lines.${index}.lot_number`, '')
+                              setValue(`lines.${index}.expiry_date`, '')
+                              setValue(`lines.${index}.serial_numbers`, '')
+                              // Serialized lines name their units, so they aren't split across lots
+                              const selected = products.find((p) => p.id === value)
+                              setValue(
+                                `lines.${index}.auto_allocate`,
+                                !!fefoDefault && !!selected?.track_expiry && !selected?.track_serial
+                              )
                             }}
                           >
                             <SelectTrigger>
-                              <SelectValue placeholder={t('shipments.selectLot')} />
+                              <SelectValue placeholder={t('common.selectOption')} />
                             </SelectTrigger>
                             <SelectContent>
-                              <SelectItem value="none">-- {t('shipments.selectLot')} --</SelectItem>
-                              {availableLots.map((balance) => (
-                                <SelectItem key={balance.id} value={balance.id}>
-                                  {formatLotDisplay(balance)}
+                              {availableProducts.map((p) => (
+                                <SelectItem key={p.id} value={p.id}>
+                                  {p.sku} - {p.name}
                                 </SelectItem>
                               ))}
                             </SelectContent>
                           </Select>
-                        ) : productId ? (
-                          <span className="text-gray-400 text-sm">{t('stock.noStockAvailable')}</span>
-                        ) : (
-                          <span className="text-gray-400 text-sm">-</span>
+                          {errors.lines?.[index]?.product_id && (
+                            <p className="text-xs text-red-600 mt-1">
+                              {errors.lines[index]?.product_id?.message}
+                            </p>
+                          )}
+                        </TableCell>
+                        {bins.length > 0 && (
+                          <TableCell>
+                            <Select
+                              value={binId || 'none'}
+                              onValueChange={(value) => {
+                                setValue(`lines.${index}.bin_id`, value === 'none' ? null : value)
+                                // Lots differ per bin
+                                setValue(`lines.${index}.lot_number`, '')
+                                setValue(`lines.${index}.expiry_date`, '')
+                              }}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">{t('locations.noBin')}</SelectItem>
+                                {bins.map((bin) => (
+                                  <SelectItem key={bin.id} value={bin.id}>
+                                    {bin.name}
+                                    {productId && ` (${getTotalStock(productId, bin.id)})`}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
                         )}
-                      </TableCell>
-                      <TableCell>
-                        <div className="text-sm">
-                          <div className={totalStock > 0 ? 'text-blue-600' : 'text-red-600'}>
-                            {t('common.total')}: {totalStock} {t(`uom.${product?.base_uom}`)}
-                          </div>
-                          {selectedBalance && (
-                            <div className={lotStock > 0 ? 'text-green-600' : 'text-red-600'}>
-                              {t('stock.lot')}: {lotStock} {t(`uom.${product?.base_uom}`)}
+                        <TableCell>
+                          {productId && availableLots.length > 0 ? (
+                            <Select
+                              value={autoAllocate ? 'fefo' : selectedBalance?.id || 'none'}
+                              onValueChange={(balanceId) => {
+                                setValue(`lines.${index}.auto_allocate`, balanceId === 'fefo')
+                                if (balanceId === 'none' || balanceId === 'fefo') {
+                                  setValue(`lines.${index}.lot_number`, '')
+                                  setValue(`lines.${index}.expiry_date`, '')
+                                } else {
+                                  const balance = stockBalances.find((b) => b.id === balanceId)
+                                  if (balance) {
+                                    setValue(`lines.${index}.lot_number`, balance.lot_number || '')
+                                    setValue(`lines.${index}.expiry_date`, balance.expiry_date || '')
+                                  }
+                                }
+                              }}
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder={t('shipments.selectLot')} />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">-- {t('shipments.selectLot')} --</SelectItem>
+                                {!product?.track_serial && (
+                                  <SelectItem value="fefo">{t('stock.autoAllocateFefo')}</SelectItem>
+                                )}
+                                {availableLots.map((balance) => (
+                                  <SelectItem key={balance.id} value={balance.id}>
+                                    {formatLotDisplay(balance)}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : productId ? (
+                            <span className="text-gray-400 text-sm">{t('stock.noStockAvailable')}</span>
+                          ) : (
+                            <span className="text-gray-400 text-sm">-</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="text-sm">
+                            <div className={totalStock > 0 ? 'text-blue-600' : 'text-red-600'}>
+                              {t('common.total')}: {totalStock} {t(`uom.${product?.base_uom}`)}
                             </div>
+                            {totalReserved > 0 && (
+                              <div className="text-orange-600">
+                                {t('stock.reserved')}: {totalReserved} {t(`uom.${product?.base_uom}`)}
+                              </div>
+                            )}
+                            {selectedBalance && !autoAllocate && (
+                              <div className={lotStock > 0 ? 'text-green-600' : 'text-red-600'}>
+                                {t('stock.lot')}: {lotStock} {t(`uom.${product?.base_uom}`)}
+                              </div>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="1"
+                            step="any"
+                            {...register(`lines.${index}.qty`)}
+                            className="w-20"
+                          />
+                          {enteredUom && product && (
+                            <p className="text-xs text-gray-500 mt-1">
+                              = {toBaseQty(Number(qty) || 0, enteredUom, product)?.qty} {t(`uom.${product.base_uom}`)}
+                            </p>
                           )}
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <Input
-                          type="number"
-                          min="1"
-                          step="any"
-                          {...register(`lines.${index}.qty`)}
-                          className="w-20"
-                        />
-                      </TableCell>
-                      <TableCell>
-                        {fields.length > 1 && (
-                          <Button
-                            type="button"
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => remove(index)}
-                            className="h-8 w-8 p-0 text-red-600"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        )}
-                      </TableCell>
-                    </TableRow>
+                        </TableCell>
+                        <TableCell>
+                          <UnitSelect
+                            product={product}
+                            value={enteredUom}
+                            onChange={(unit) => setValue(`lines.${index}.entered_uom`, unit)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          {fields.length > 1 && (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => remove(index)}
+                              className="h-8 w-8 p-0 text-red-600"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {product?.track_serial && (
+                        <TableRow>
+                          <TableCell colSpan={bins.length > 0 ? 7 : 6} className="pt-0">
+                            <Label className="text-xs text-gray-500">{t('serials.serialNumbers')}</Label>
+                            <SerialNumbersInput
+                              value={watch(`lines.${index}.serial_numbers`)}
+                              onChange={(value) => setValue(`lines.${index}.serial_numbers`, value)}
+                              expected={toBaseQty(Number(qty) || 0, enteredUom, product)?.qty ?? 0}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
                   )
                 })}
               </TableBody>
@@ -0,0 +1,326 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { toast } from 'sonner'
+import { createSupplierInvoice } from '@/lib/actions/supplier-invoices'
+import { matchInvoiceLine } from '@/lib/invoice-match-utils'
+import { formatCurrency } from '@/lib/utils'
+import { useTranslation } from '@/lib/i18n'
+import type { InvoiceMatchingSettings, PurchaseOrderLine, Product } from '@/types'
+
+interface SupplierInvoiceFormProps {
+  // Purchase orders that can be invoiced
+  purchaseOrders: { id: string; po_number: string; supplier: { name: string } | null }[]
+  po: {
+    id: string
+    po_number: string
+    lines: (PurchaseOrderLine & { product?: Product })[]
+  } | null
+  // Quantity already invoiced per PO line on earlier invoices
+  previouslyInvoiced: Record<string, number>
+  rules: InvoiceMatchingSettings
+  currency?: string
+  locale?: string
+}
+
+interface InvoiceLine {
+  po_line_id: string
+  product_id: string
+  qty_invoiced: number
+  unit_price: number
+}
+
+export function SupplierInvoiceForm({
+  purchaseOrders,
+  po,
+  previouslyInvoiced,
+  rules,
+  currency = 'USD',
+  locale = 'en',
+}: SupplierInvoiceFormProps) {
+  const router = useRouter()
+  const { t } = useTranslation()
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [invoiceNumber, setInvoiceNumber] = useState('')
+  const [invoiceDate, setInvoiceDate] = useState(new Date().toISOString().split('T')[0])
+  const [dueDate, setDueDate] = useState('')
+  const [notes, setNotes] = useState('')
+  const [invoiceLines, setInvoiceLines] = useState<InvoiceLine[]>(
+    (po?.lines || []).map((line) => ({
+      po_line_id: line.id,
+      product_id: line.product_id,
+      // Prefill with what has been received but not yet billed
+      qty_invoiced: Math.max(line.qty_received - (previouslyInvoiced[line.id] || 0), 0),
+      unit_price: line.unit_cost,
+    }))
+  )
+
+  const updateLine = (index: number, field: 'qty_invoiced' | 'unit_price', value: number) => {
+    setInvoiceLines((prev) => {
+      const updated = [...prev]
+      updated[index] = { ...updated[index], [field]: value }
+      return updated
+    })
+  }
+
+  const matches = (po?.lines || []).map((line, index) =>
+    matchInvoiceLine(rules, {
+      qty_invoiced: invoiceLines[index]?.qty_invoiced || 0,
+      unit_price: invoiceLines[index]?.unit_price || 0,
+      qty_received: line.qty_received,
+      qty_previously_invoiced: previouslyInvoiced[line.id] || 0,
+      po_unit_cost: line.unit_cost,
+    })
+  )
+  const billedIndexes = invoiceLines.flatMap((line, index) => (line.qty_invoiced > 0 ? [index] : []))
+  const allMatched = billedIndexes.every((index) => matches[index].qty_match && matches[index].price_match)
+  const invoiceTotal = invoiceLines.reduce((sum, line) => sum + line.qty_invoiced * line.unit_price, 0)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!po) return
+
+    if (billedIndexes.length === 0) {
+      toast.error(t('validation.addAtLeastOneLine'))
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const result = await createSupplierInvoice({
+        po_id: po.id,
+        invoice_number: invoiceNumber,
+        invoice_date: invoiceDate,
+        due_date: dueDate || null,
+        notes: notes || null,
+        lines: invoiceLines,
+      })
+      if (result.error) {
+        const errors = result.error as Record<string, string[] | undefined>
+        toast.error(Object.values(errors).find((messages) => messages?.length)?.[0] || t('toast.validationError'))
+        return
+      }
+      toast.success(result.matched ? t('toast.supplierInvoiceMatched') : t('toast.supplierInvoiceMismatch'))
+      router.push(`/supplier-invoices/${result.id}`)
+    } catch {
+      toast.error(t('common.errorOccurred'))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <div className="space-y-6">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              <div className="space-y-2 sm:col-span-2 lg:col-span-4 max-w-md">
+                <Label>{t('supplierInvoices.purchaseOrder')} *</Label>
+                <Select
+                  value={po?.id || ''}
+                  onValueChange={(value) => router.push(`/supplier-invoices/new?po=${value}`)}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder={t('supplierInvoices.selectPurchaseOrder')} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {purchaseOrders.map((order) => (
+                      <SelectItem key={order.id} value={order.id}>
+                        {order.po_number}{order.supplier ? ` - ${order.supplier.name}` : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invoice_number">{t('supplierInvoices.invoiceNumber')} *</Label>
+                <Input
+                  id="invoice_number"
+                  value={invoiceNumber}
+                  onChange={(e) => setInvoiceNumber(e.target.value)}
+                  disabled={!po}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invoice_date">{t('supplierInvoices.invoiceDate')} *</Label>
+                <Input
+                  id="invoice_date"
+                  type="date"
+                  value={invoiceDate}
+                  onChange={(e) => setInvoiceDate(e.target.value)}
+                  disabled={!po}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="due_date">{t('supplierInvoices.dueDate')}</Label>
+                <Input
+                  id="due_date"
+                  type="date"
+                  value={dueDate}
+                  onChange={(e) => setDueDate(e.target.value)}
+                  disabled={!po}
+                />
+              </div>
+              <div className="space-y-2 sm:col-span-2 lg:col-span-4">
+                <Label htmlFor="notes">{t('common.notes')}</Label>
+                <Textarea
+                  id="notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  disabled={!po}
+                  rows={2}
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {po && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('supplierInvoices.invoiceLines')}</CardTitle>
+              <p className="text-sm text-gray-500">
+                {t('supplierInvoices.tolerances', {
+                  qty: rules.qty_tolerance_pct,
+                  price: rules.price_tolerance_pct,
+                })}
+              </p>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[250px]">{t('products.product')}</TableHead>
+                      <TableHead className="text-right">{t('purchaseOrders.ordered')}</TableHead>
+                      <TableHead className="text-right">{t('purchaseOrders.received')}</TableHead>
+                      <TableHead className="text-right">{t('supplierInvoices.previouslyInvoiced')}</TableHead>
+                      <TableHead className="w-[110px]">{t('supplierInvoices.qtyInvoiced')}</TableHead>
+                      <TableHead className="text-right">{t('supplierInvoices.poPrice')}</TableHead>
+                      <TableHead className="w-[130px]">{t('supplierInvoices.invoicePrice')}</TableHead>
+                      <TableHead>{t('supplierInvoices.match')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {po.lines.map((line, index) => {
+                      const product = line.product
+                      const billed = (invoiceLines[index]?.qty_invoiced || 0) > 0
+                      const match = matches[index]
+
+                      return (
+                        <TableRow key={line.id}>
+                          <TableCell>
+                            <div>
+                              <span className="font-mono text-sm">{product?.sku}</span>
+                              <p className="text-sm text-gray-600">{product?.name}</p>
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {line.qty_ordered} {t(`uom.${product?.base_uom}`)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {line.qty_received} {t(`uom.${product?.base_uom}`)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {previouslyInvoiced[line.id] || 0} {t(`uom.${product?.base_uom}`)}
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="any"
+                              value={invoiceLines[index]?.qty_invoiced || 0}
+                              onChange={(e) => updateLine(index, 'qty_invoiced', parseFloat(e.target.value) || 0)}
+                              className="w-24"
+                            />
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatCurrency(line.unit_cost, currency, locale)}
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="any"
+                              value={invoiceLines[index]?.unit_price ?? 0}
+                              onChange={(e) => updateLine(index, 'unit_price', parseFloat(e.target.value) || 0)}
+                              className="w-28"
+                            />
+                          </TableCell>
+                          <TableCell>
+                            {!billed ? (
+                              <span className="text-gray-400">-</span>
+                            ) : (
+                              <div className="flex flex-wrap gap-1">
+                                {match.qty_match && match.price_match && (
+                                  <Badge className="bg-green-100 text-green-800">{t('supplierInvoices.matched')}</Badge>
+                                )}
+                                {!match.qty_match && (
+                                  <Badge className="bg-orange-100 text-orange-800">{t('supplierInvoices.qtyMismatch')}</Badge>
+                                )}
+                                {!match.price_match && (
+                                  <Badge className="bg-orange-100 text-orange-800">{t('supplierInvoices.priceMismatch')}</Badge>
+                                )}
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="mt-4 flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                <p className={allMatched ? 'text-sm text-green-700' : 'text-sm text-orange-700'}>
+                  {allMatched ? t('supplierInvoices.willPost') : t('supplierInvoices.willQueue')}
+                </p>
+                <p className="font-medium">
+                  {t('supplierInvoices.invoiceTotal')}: {formatCurrency(invoiceTotal, currency, locale)}
+                </p>
+              </div>
+
+              <div className="flex gap-4 mt-6">
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? t('purchaseOrders.processing') : t('supplierInvoices.recordInvoice')}
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => router.push(`/purchase-orders/${po.id}`)}
+                >
+                  {t('common.cancel')}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </form>
+  )
+}
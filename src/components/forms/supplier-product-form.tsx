@@ -0,0 +1,234 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { useRouter } from 'next/navigation'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Plus, Pencil, Loader2 } from 'lucide-react'
+import { createSupplierProductSchema, type SupplierProductFormData } from '@/lib/validations/supplier'
+import { createSupplierProduct, updateSupplierProduct } from '@/lib/actions/suppliers'
+import { useTranslation } from '@/lib/i18n'
+import type { SupplierProduct } from '@/types'
+
+// Empty optional number inputs are stored as null rather than 0
+const optionalNumber = { setValueAs: (value: unknown) => (value === '' || value === null ? null : value) }
+
+interface SupplierProductFormProps {
+  // Fixed side of the link: the supplier or product page it is managed from
+  supplierId?: string
+  productId?: string
+  // Choices for the other side
+  options: { id: string; label: string }[]
+  supplierProduct?: SupplierProduct
+  defaultCurrency?: string
+}
+
+export function SupplierProductForm({
+  supplierId,
+  productId,
+  options,
+  supplierProduct,
+  defaultCurrency = 'USD',
+}: SupplierProductFormProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const { t } = useTranslation()
+  const schema = useMemo(() => createSupplierProductSchema(t), [t])
+  const isEdit = !!supplierProduct
+  const choosing = supplierId ? 'product_id' : 'supplier_id'
+
+  const defaultValues: SupplierProductFormData = {
+    supplier_id: supplierProduct?.supplier_id || supplierId || '',
+    product_id: supplierProduct?.product_id || productId || '',
+    supplier_sku: supplierProduct?.supplier_sku || '',
+    contract_price: supplierProduct?.contract_price ?? null,
+    currency: supplierProduct?.currency || defaultCurrency,
+    lead_time_days: supplierProduct?.lead_time_days ?? null,
+    min_order_qty: supplierProduct?.min_order_qty ?? null,
+    pack_size: supplierProduct?.pack_size ?? null,
+    preferred: supplierProduct?.preferred ?? false,
+  }
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    setError,
+    setValue,
+    watch,
+  } = useForm<SupplierProductFormData>({
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    resolver: zodResolver(schema) as any,
+    defaultValues,
+  })
+
+  const onSubmit = async (data: SupplierProductFormData) => {
+    setIsSubmitting(true)
+    try {
+      const result = isEdit
+        ? await updateSupplierProduct(supplierProduct.id, data)
+        : await createSupplierProduct(data)
+      if (result.error) {
+        if ('_form' in result.error && result.error._form) {
+          setError('root', { message: result.error._form[0] })
+        } else {
+          setError('root', { message: t('toast.validationError') })
+        }
+        return
+      }
+      toast.success(isEdit ? t('toast.supplierProductUpdated') : t('toast.supplierProductAdded'))
+      setOpen(false)
+      reset(defaultValues)
+      router.refresh()
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleOpenChange = (newOpen: boolean) => {
+    setOpen(newOpen)
+    if (!newOpen) reset(defaultValues)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {isEdit ? (
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title={t('common.edit')}>
+            <Pencil className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm">
+            <Plus className="mr-2 h-4 w-4" />
+            {t('supplierProducts.add')}
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isEdit ? t('supplierProducts.edit') : t('supplierProducts.add')}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="supplier-product-link">
+              {choosing === 'product_id' ? t('products.product') : t('purchaseOrders.supplier')} *
+            </Label>
+            <Select
+              value={watch(choosing) || undefined}
+              onValueChange={(value) => setValue(choosing, value)}
+              disabled={isEdit}
+            >
+              <SelectTrigger id="supplier-product-link">
+                <SelectValue placeholder={t('common.selectOption')} />
+              </SelectTrigger>
+              <SelectContent>
+                {options.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors[choosing] && (
+              <p className="text-sm text-red-500">{errors[choosing]?.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="supplier-sku">{t('supplierProducts.supplierSku')}</Label>
+            <Input id="supplier-sku" {...register('supplier_sku')} placeholder={t('common.optional')} />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="contract-price">{t('supplierProducts.contractPrice')}</Label>
+              <Input
+                id="contract-price"
+                type="number"
+                step="0.01"
+                min="0"
+                {...register('contract_price', optionalNumber)}
+              />
+              {errors.contract_price && (
+                <p className="text-sm text-red-500">{errors.contract_price.message}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="currency">{t('supplierProducts.currency')}</Label>
+              <Input id="currency" maxLength={3} {...register('currency')} />
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="lead-time">{t('supplierProducts.leadTimeDays')}</Label>
+              <Input id="lead-time" type="number" step="1" min="0" {...register('lead_time_days', optionalNumber)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="min-order-qty">{t('supplierProducts.minOrderQty')}</Label>
+              <Input id="min-order-qty" type="number" step="any" min="0" {...register('min_order_qty', optionalNumber)} />
+              {errors.min_order_qty && (
+                <p className="text-sm text-red-500">{errors.min_order_qty.message}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pack-size">{t('supplierProducts.packSize')}</Label>
+              <Input id="pack-size" type="number" step="any" min="0" {...register('pack_size', optionalNumber)} />
+              {errors.pack_size && (
+                <p className="text-sm text-red-500">{errors.pack_size.message}</p>
+              )}
+            </div>
+          </div>
+          <p className="text-sm text-gray-500">{t('supplierProducts.baseUnitHint')}</p>
+
+          <div className="flex items-center justify-between rounded-md border p-3">
+            <div>
+              <Label htmlFor="preferred">{t('supplierProducts.preferred')}</Label>
+              <p className="text-sm text-gray-500">{t('supplierProducts.preferredDesc')}</p>
+            </div>
+            <Switch
+              id="preferred"
+              checked={watch('preferred')}
+              onCheckedChange={(checked) => setValue('preferred', checked)}
+            />
+          </div>
+
+          {errors.root && (
+            <p className="text-sm text-red-500">{errors.root.message}</p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('common.save')}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
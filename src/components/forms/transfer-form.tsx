@@ -1,6 +1,6 @@
 'use client'
 
-import { useMemo, useRef } from 'react'
+import { Fragment, useMemo, useRef } from 'react'
 import { useForm, useFieldArray } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { useRouter } from 'next/navigation'
@@ -29,23 +29,36 @@ import { Plus, Trash2 } from 'lucide-react'
 import { createTransferSchema, type TransferFormData } from '@/lib/validations/transfer'
 import { createTransfer, updateTransfer } from '@/lib/actions/transfers'
 import { useTranslation } from '@/lib/i18n'
+import { toBaseQty, getDefaultUnit, findInvalidQtyLine } from '@/lib/uom-utils'
 import { DocumentUpload, type DocumentUploadHandle } from '@/components/documents/document-upload'
+import { UnitSelect } from '@/components/unit-select'
+import { SerialNumbersInput } from '@/components/serial-numbers-input'
+import { findInvalidSerialLine, formatSerialNumbers } from '@/lib/serial-utils'
 import type { Location, Product, InventoryBalance } from '@/types'
 
 interface TransferFormProps {
   locations: Location[]
   products: Product[]
   stockBalances: InventoryBalance[]
+  fefoDefault?: boolean
   initialData?: {
     id: string
     from_location_id: string
     to_location_id: string
     notes: string | null
-    lines: { product_id: string; qty: number; lot_number: string | null; expiry_date: string | null }[]
+    lines: {
+      product_id: string
+      qty: number
+      lot_number: string | null
+      expiry_date: string | null
+      entered_qty?: number | null
+      entered_uom?: string | null
+      serial_numbers?: string[] | null
+    }[]
   }
 }
 
-export function TransferForm({ locations, products, stockBalances, initialData }: TransferFormProps) {
+export function TransferForm({ locations, products, stockBalances, fefoDefault, initialData }: TransferFormProps) {
   const router = useRouter()
   const { t } = useTranslation()
   const docUploadRef = useRef<DocumentUploadHandle>(null)
@@ -70,16 +83,20 @@ export function TransferForm({ locations, products, stockBalances, initialData }
           notes: initialData.notes || '',
           lines: initialData.lines.map((l) => ({
             product_id: l.product_id,
-            qty: l.qty,
+            // Edit in the unit the line was entered in
+            qty: l.entered_uom ? l.entered_qty ?? l.qty : l.qty,
+            entered_uom: l.entered_uom ?? null,
             lot_number: l.lot_number || '',
             expiry_date: l.expiry_date || '',
+            auto_allocate: false,
+            serial_numbers: formatSerialNumbers(l.serial_numbers),
           })),
         }
       : {
           from_location_id: '',
           to_location_id: '',
           notes: '',
-          lines: [{ product_id: '', qty: 1, lot_number: '', expiry_date: '' }],
+          lines: [{ product_id: '', qty: 1, entered_uom: null, lot_number: '', expiry_date: '', auto_allocate: false, serial_numbers: '' }],
         },
   })
 
@@ -102,11 +119,18 @@ export function TransferForm({ locations, products, stockBalances, initialData }
     return products.filter((p) => p.active && productIdsWithStock.has(p.id))
   }, [fromLocationId, stockBalances, products])
 
-  // Get total available stock for a product at selected location (sum of all lots)
+  // Get total available stock for a product at selected location (sum of all lots, net of reservations)
   const getTotalStock = (productId: string) => {
     return stockBalances
       .filter((b) => b.product_id === productId && b.location_id === fromLocationId)
-      .reduce((sum, b) => sum + b.qty_on_hand, 0)
+      .reduce((sum, b) => sum + (b.available_qty ?? b.qty_on_hand), 0)
+  }
+
+  // Get stock held by confirmed shipments for a product at selected location
+  const getTotalReserved = (productId: string) => {
+    return stockBalances
+      .filter((b) => b.product_id === productId && b.location_id === fromLocationId)
+      .reduce((sum, b) => sum + (b.reserved_qty || 0), 0)
   }
 
   // Get all available lots/batches for a product at selected location (deduplicated by ID)
@@ -135,11 +159,25 @@ export function TransferForm({ locations, products, stockBalances, initialData }
       parts.push(`${t('stock.expiry')}: ${balance.expiry_date}`)
     }
     const uom = products.find(p => p.id === balance.product_id)?.base_uom
-    parts.push(`(${balance.qty_on_hand} ${uom ? t(`uom.${uom}`) : ''})`)
+    parts.push(`(${balance.available_qty ?? balance.qty_on_hand} ${uom ? t(`uom.${uom}`) : ''})`)
     return parts.join(' - ')
   }
 
   const onSubmit = async (data: TransferFormData) => {
+    const invalidLine = findInvalidQtyLine(data.lines, products)
+    if (invalidLine) {
+      const sku = products.find((p) => p.id === invalidLine.product_id)?.sku ?? ''
+      toast.error(t('validation.wholeQtyRequired', { sku }))
+      return
+    }
+
+    const invalidSerialLine = findInvalidSerialLine(data.lines, products)
+    if (invalidSerialLine) {
+      const sku = products.find((p) => p.id === invalidSerialLine.product_id)?.sku ?? ''
+      toast.error(t('validation.serialCountMismatch', { sku }))
+      return
+    }
+
     try {
       const result = isEdit
         ? await updateTransfer(initialData!.id, data)
@@ -249,7 +287,7 @@ export function TransferForm({ locations, products, stockBalances, initialData }
             type="button"
             variant="outline"
             size="sm"
-            onClick={() => append({ product_id: '', qty: 1, lot_number: '', expiry_date: '' })}
+            onClick={() => append({ product_id: '', qty: 1, entered_uom: null, lot_number: '', expiry_date: '', auto_allocate: false, serial_numbers: '' })}
           >
             <Plus className="mr-2 h-4 w-4" />
             {t('common.addLine')}
@@ -268,6 +306,7 @@ export function TransferForm({ locations, products, stockBalances, initialData }
                   <TableHead className="w-[280px]">{t('stock.lotBatch')}</TableHead>
                   <TableHead className="w-[140px]">{t('stock.available')}</TableHead>
                   <TableHead className="w-[100px]">{t('common.quantity')}</TableHead>
+                  <TableHead className="w-[140px]">{t('common.unit')}</TableHead>
                   <TableHead className="w-[60px]"></TableHead>
                 </TableRow>
               </TableHeader>
@@ -276,9 +315,13 @@ export function TransferForm({ locations, products, stockBalances, initialData }
                   const productId = watch(`lines.${index}.product_id`)
                   const lotNumber = watch(`lines.${index}.lot_number`)
                   const expiryDate = watch(`lines.${index}.expiry_date`)
+                  const autoAllocate = watch(`lines.${index}.auto_allocate`)
+                  const qty = watch(`lines.${index}.qty`)
+                  const enteredUom = watch(`lines.${index}.entered_uom`)
                   const product = products.find((p) => p.id === productId)
                   const availableLots = productId ? getAvailableLots(productId) : []
                   const totalStock = productId ? getTotalStock(productId) : 0
+                  const totalReserved = productId ? getTotalReserved(productId) : 0
 
                   // Find the selected balance
                   const selectedBalance = stockBalances.find(
@@ -288,107 +331,153 @@ export function TransferForm({ locations, products, stockBalances, initialData }
                       (b.lot_number || '') === (lotNumber || '') &&
                       (b.expiry_date || '') === (expiryDate || '')
                   )
-                  const lotStock = selectedBalance?.qty_on_hand || 0
+                  const lotStock = selectedBalance?.available_qty ?? selectedBalance?.qty_on_hand ?? 0
 
                   return (
-                    <TableRow key={field.id}>
-                      <TableCell>
-                        <Select
-                          value={watch(`lines.${index}.product_id`)}
-                          onValueChange={(value) => {
-                            setValue(`lines.${index}.product_id`, value)
-                            // Clear lot selection when product changes
-                            setValue(`lines.${index}.lot_number`, '')
-                            setValue(`lines.${index}.expiry_date`, '')
-                          }}
-                        >
-                          <SelectTrigger>
-                            <SelectValue placeholder={t('common.selectOption')} />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {availableProducts.map((p) => (
-                              <SelectItem key={p.id} value={p.id}>
-                                {p.sku} - {p.name}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        {errors.lines?.[index]?.product_id && (
-                          <p className="text-xs text-red-600 mt-1">
-                            {errors.lines[index]?.product_id?.message}
-                          </p>
-                        )}
-                      </TableCell>
-                      <TableCell>
-                        {productId && availableLots.length > 0 ? (
+                    <Fragment key={field.id}>
+                      <TableRow className={product?.track_serial ? 'border-b-0' : undefined}>
+                        <TableCell>
                           <Select
-                            value={selectedBalance?.id || 'none'}
-                            onValueChange={(balanceId) => {
-                              if (balanceId === 'none') {
-                                setValue(`lines.${index}.lot_number`, '')
-                                setValue(`lines.${index}.expiry_date`, '')
-                              } else {
-                                const balance = stockBalances.find((b) => b.id === balanceId)
-                                if (balance) {
-                                  setValue(`lines.${index}.lot_number`, balance.lot_number || '')
-                                  setValue(`lines.${index}.expiry_date`, balance.expiry_date || '')
-                                }
-                              }
+                            value={watch(`lines.${index}.product_id`)}
+                            onValueChange={(value) => {
+                              setValue(`lines.${index}.product_id`, value)
+                              setValue(
+                                `lines.${index}.entered_uom`,
+                                getDefaultUnit(products.find((p) => p.id === value), 'stock')
+                              )
+                              // Clear lot selection when product changes
+                              setValue(`lines.${index}.lot_number`, '')
+                              setValue(`lines.${index}.expiry_date`, '')
+                              setValue(`lines.${index}.serial_numbers`, '')
+                              // Serialized lines name their units, so they aren't split across lots
+                              const selected = products.find((p) => p.id === value)
+                              setValue(
+                                `lines.${index}.auto_allocate`,
+                                !!fefoDefault && !!selected?.track_expiry && !selected?.track_serial
+                              )
                             }}
                           >
                             <SelectTrigger>
-                              <SelectValue placeholder={t('shipments.selectLot')} />
+                              <SelectValue placeholder={t('common.selectOption')} />
                             </SelectTrigger>
                             <SelectContent>
-                              <SelectItem value="none">-- {t('shipments.selectLot')} --</SelectItem>
-                              {availableLots.map((balance) => (
-                                <SelectItem key={balance.id} value={balance.id}>
-                                  {formatLotDisplay(balance)}
+                              {availableProducts.map((p) => (
+                                <SelectItem key={p.id} value={p.id}>
+                                  {p.sku} - {p.name}
                                 </SelectItem>
                               ))}
                             </SelectContent>
                           </Select>
-                        ) : productId ? (
-                          <span className="text-gray-400 text-sm">{t('stock.noStockAvailable')}</span>
-                        ) : (
-                          <span className="text-gray-400 text-sm">-</span>
-                        )}
-                      </TableCell>
-                      <TableCell>
-                        <div className="text-sm">
-                          <div className={totalStock > 0 ? 'text-blue-600' : 'text-red-600'}>
-                            {t('common.total')}: {totalStock} {product?.base_uom ? t(`uom.${product.base_uom}`) : ''}
-                          </div>
-                          {selectedBalance && (
-                            <div className={lotStock > 0 ? 'text-green-600' : 'text-red-600'}>
-                              {t('stock.lot')}: {lotStock} {product?.base_uom ? t(`uom.${product.base_uom}`) : ''}
+                          {errors.lines?.[index]?.product_id && (
+                            <p className="text-xs text-red-600 mt-1">
+                              {errors.lines[index]?.product_id?.message}
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {productId && availableLots.length > 0 ? (
+                            <Select
+                              value={autoAllocate ? 'fefo' : selectedBalance?.id || 'none'}
+                              onValueChange={(balanceId) => {
+                                setValue(`lines.${index}.auto_allocate`, balanceId === 'fefo')
+                                if (balanceId === 'none' || balanceId === 'fefo') {
+                                  setValue(`lines.${index}.lot_number`, '')
+                                  setValue(`lines.${index}.expiry_date`, '')
+                                } else {
+                                  const balance = stockBalances.find((b) => b.id === balanceId)
+                                  if (balance) {
+                                    setValue(`lines.${index}.lot_number`, balance.lot_number || '')
+                                    setValue(`lines.${index}.expiry_date`, balance.expiry_date || '')
+                                  }
+                                }
+                              }}
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder={t('shipments.selectLot')} />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">-- {t('shipments.selectLot')} --</SelectItem>
+                                {!product?.track_serial && (
+                                  <SelectItem value="fefo">{t('stock.autoAllocateFefo')}</SelectItem>
+                                )}
+                                {availableLots.map((balance) => (
+                                  <SelectItem key={balance.id} value={balance.id}>
+                                    {formatLotDisplay(balance)}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : productId ? (
+                            <span className="text-gray-400 text-sm">{t('stock.noStockAvailable')}</span>
+                          ) : (
+                            <span className="text-gray-400 text-sm">-</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="text-sm">
+                            <div className={totalStock > 0 ? 'text-blue-600' : 'text-red-600'}>
+                              {t('common.total')}: {totalStock} {product?.base_uom ? t(`uom.${product.base_uom}`) : ''}
                             </div>
+                            {totalReserved > 0 && (
+                              <div className="text-orange-600">
+                                {t('stock.reserved')}: {totalReserved} {product?.base_uom ? t(`uom.${product.base_uom}`) : ''}
+                              </div>
+                            )}
+                            {selectedBalance && !autoAllocate && (
+                              <div className={lotStock > 0 ? 'text-green-600' : 'text-red-600'}>
+                                {t('stock.lot')}: {lotStock} {product?.base_uom ? t(`uom.${product.base_uom}`) : ''}
+                              </div>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="1"
+                            step="any"
+                            {...register(`lines.${index}.qty`)}
+                            className="w-20"
+                          />
+                          {enteredUom && product && (
+                            <p className="text-xs text-gray-500 mt-1">
+                              = {toBaseQty(Number(qty) || 0, enteredUom, product)?.qty} {t(`uom.${product.base_uom}`)}
+                            </p>
                           )}
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <Input
-                          type="number"
-                          min="1"
-                          step="any"
-                          {...register(`lines.${index}.qty`)}
-                          className="w-20"
-                        />
-                      </TableCell>
-                      <TableCell>
-                        {fields.length > 1 && (
-                          <Button
-                            type="button"
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => remove(index)}
-                            className="h-8 w-8 p-0 text-red-600"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        )}
-                      </TableCell>
-                    </TableRow>
+                        </TableCell>
+                        <TableCell>
+                          <UnitSelect
+                            product={product}
+                            value={enteredUom}
+                            onChange={(unit) => setValue(`lines.${index}.entered_uom`, unit)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          {fields.length > 1 && (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => remove(index)}
+                              className="h-8 w-8 p-0 text-red-600"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {product?.track_serial && (
+                        <TableRow>
+                          <TableCell colSpan={6} className="pt-0">
+                            <Label className="text-xs text-gray-500">{t('serials.serialNumbers')}</Label>
+                            <SerialNumbersInput
+                              value={watch(`lines.${index}.serial_numbers`)}
+                              onChange={(value) => setValue(`lines.${index}.serial_numbers`, value)}
+                              expected={toBaseQty(Number(qty) || 0, enteredUom, product)?.qty ?? 0}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
                   )
                 })}
               </TableBody>
@@ -0,0 +1,241 @@
+'use client'
+
+import { Fragment, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { toast } from 'sonner'
+import { receiveTransfer } from '@/lib/actions/transfers'
+import { useTranslation } from '@/lib/i18n'
+import { SerialNumbersInput } from '@/components/serial-numbers-input'
+import { findInvalidSerialLine, formatSerialNumbers } from '@/lib/serial-utils'
+import type { TransferLine, Product } from '@/types'
+
+interface TransferReceiveFormProps {
+  transferId: string
+  lines: (TransferLine & { product?: Product })[]
+}
+
+interface ReceiveLine {
+  line_id: string
+  qty_received: number
+  resolution: 'loss' | 'return_to_source'
+  // Serialized lines only
+  serial_numbers: string | null
+}
+
+export function TransferReceiveForm({ transferId, lines }: TransferReceiveFormProps) {
+  const router = useRouter()
+  const { t } = useTranslation()
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [receivedDate, setReceivedDate] = useState(new Date().toISOString().split('T')[0])
+  const [receiveLines, setReceiveLines] = useState<ReceiveLine[]>(
+    lines.map((line) => ({
+      line_id: line.id,
+      qty_received: line.qty,
+      resolution: 'loss',
+      // Every unit sent is expected to arrive
+      serial_numbers: line.product?.track_serial ? formatSerialNumbers(line.serial_numbers) : null,
+    }))
+  )
+
+  const updateLine = <K extends keyof ReceiveLine>(index: number, field: K, value: ReceiveLine[K]) => {
+    setReceiveLines((prev) => {
+      const updated = [...prev]
+      updated[index] = { ...updated[index], [field]: value }
+      return updated
+    })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const products = lines.flatMap((line) => (line.product ? [line.product] : []))
+    const invalidSerialLine = findInvalidSerialLine(
+      receiveLines.map((line, index) => ({
+        ...line,
+        product_id: lines[index].product_id,
+        qty: line.qty_received,
+      })),
+      products
+    )
+    if (invalidSerialLine) {
+      const sku = products.find((p) => p.id === invalidSerialLine.product_id)?.sku ?? ''
+      toast.error(t('validation.serialCountMismatch', { sku }))
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const result = await receiveTransfer(transferId, { lines: receiveLines, received_date: receivedDate })
+      if (result.error) {
+        toast.error(result.error)
+      } else {
+        toast.success(
+          result.discrepancies
+            ? t('transfers.receivedWithDiscrepancies', { count: result.discrepancies })
+            : t('toast.transferReceived')
+        )
+        router.push(`/transfers/${transferId}`)
+      }
+    } catch {
+      toast.error(t('common.errorOccurred'))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <div className="space-y-6">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="space-y-2 max-w-xs">
+              <Label htmlFor="received_date">{t('transfers.receiveDate')} *</Label>
+              <Input
+                id="received_date"
+                type="date"
+                value={receivedDate}
+                onChange={(e) => setReceivedDate(e.target.value)}
+                required
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('transfers.itemsToReceive')}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[250px]">{t('products.product')}</TableHead>
+                    <TableHead className="text-center">{t('stock.lotNumber')}</TableHead>
+                    <TableHead className="text-right">{t('transfers.qtySent')}</TableHead>
+                    <TableHead className="w-[120px]">{t('transfers.qtyReceived')}</TableHead>
+                    <TableHead className="text-right">{t('transfers.difference')}</TableHead>
+                    <TableHead className="w-[200px]">{t('transfers.discrepancyResolution')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line, index) => {
+                    const product = line.product
+                    const received = receiveLines[index]?.qty_received ?? 0
+                    const difference = received - line.qty
+
+                    return (
+                      <Fragment key={line.id}>
+                        <TableRow className={product?.track_serial ? 'border-b-0' : undefined}>
+                          <TableCell>
+                            <div>
+                              <span className="font-mono text-sm">{product?.sku}</span>
+                              <p className="text-sm text-gray-600">{product?.name}</p>
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-center">{line.lot_number || '-'}</TableCell>
+                          <TableCell className="text-right">
+                            {line.qty} {t(`uom.${product?.base_uom}`)}
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="any"
+                              value={received}
+                              onChange={(e) =>
+                                updateLine(index, 'qty_received', parseFloat(e.target.value) || 0)
+                              }
+                              className="w-24"
+                            />
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {difference === 0 ? (
+                              <span className="text-gray-400">-</span>
+                            ) : (
+                              <span className={difference < 0 ? 'text-red-600' : 'text-blue-600'}>
+                                {difference > 0 ? `+${difference}` : difference}
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {difference < 0 ? (
+                              <Select
+                                value={receiveLines[index]?.resolution}
+                                onValueChange={(value) =>
+                                  updateLine(index, 'resolution', value as ReceiveLine['resolution'])
+                                }
+                              >
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="loss">{t('transfers.resolutions.loss')}</SelectItem>
+                                  <SelectItem value="return_to_source">
+                                    {t('transfers.resolutions.return_to_source')}
+                                  </SelectItem>
+                                </SelectContent>
+                              </Select>
+                            ) : difference > 0 ? (
+                              <span className="text-sm text-gray-600">{t('transfers.resolutions.over_receipt')}</span>
+                            ) : (
+                              <span className="text-gray-400">-</span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                        {product?.track_serial && (
+                          <TableRow>
+                            <TableCell colSpan={6} className="pt-0">
+                              <Label className="text-xs text-gray-500">{t('serials.serialNumbersReceived')}</Label>
+                              <SerialNumbersInput
+                                value={receiveLines[index]?.serial_numbers}
+                                onChange={(value) => updateLine(index, 'serial_numbers', value)}
+                                expected={received}
+                              />
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </Fragment>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex gap-4 mt-6">
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? t('purchaseOrders.processing') : t('transfers.receiveTransfer')}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => router.push(`/transfers/${transferId}`)}
+              >
+                {t('common.cancel')}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </form>
+  )
+}
@@ -1,32 +1,55 @@
 'use client'
 
 import Link from 'next/link'
+import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/button'
-import { Package, XCircle, CheckCircle, Pencil } from 'lucide-react'
+import { Package, XCircle, CheckCircle, Pencil, FileDown, Mail, Loader2 } from 'lucide-react'
 import { toast } from 'sonner'
-import { confirmPurchaseOrder, cancelPurchaseOrder } from '@/lib/actions/purchase-orders'
+import { confirmPurchaseOrder, cancelPurchaseOrder, sendPurchaseOrder } from '@/lib/actions/purchase-orders'
+import { PoDecisionForm } from '@/components/forms/po-decision-form'
 import { useTranslation } from '@/lib/i18n'
 import type { PurchaseOrder } from '@/types'
 
 interface PurchaseOrderActionsProps {
   po: PurchaseOrder
+  // Whether the current user's role may approve purchase orders
+  canApprove?: boolean
 }
 
-export function PurchaseOrderActions({ po }: PurchaseOrderActionsProps) {
+export function PurchaseOrderActions({ po, canApprove = false }: PurchaseOrderActionsProps) {
   const router = useRouter()
   const { t } = useTranslation()
+  const [isSending, setIsSending] = useState(false)
 
   const handleConfirm = async () => {
     const result = await confirmPurchaseOrder(po.id)
     if (result.error) {
       toast.error(result.error)
     } else {
-      toast.success(t('toast.poConfirmed'))
+      toast.success(result.pendingApproval ? t('toast.poSubmittedForApproval') : t('toast.poConfirmed'))
+      if (result.emailedTo) toast.success(t('toast.poSentToSupplier', { email: result.emailedTo }))
+      if (result.emailError) toast.warning(t('toast.poEmailFailed'))
+      if (result.attachError) toast.warning(t('toast.poAttachFailed'))
       router.refresh()
     }
   }
 
+  const handleSend = async () => {
+    setIsSending(true)
+    try {
+      const result = await sendPurchaseOrder(po.id)
+      if (result.error) {
+        toast.error(result.error)
+      } else {
+        toast.success(t('toast.poSentToSupplier', { email: result.emailedTo || '' }))
+        router.refresh()
+      }
+    } finally {
+      setIsSending(false)
+    }
+  }
+
   const handleCancel = async () => {
     if (!confirm(t('purchaseOrders.confirmCancel'))) return
     const result = await cancelPurchaseOrder(po.id)
@@ -56,6 +79,13 @@ export function PurchaseOrderActions({ po }: PurchaseOrderActionsProps) {
         </Button>
       )}
 
+      {po.status === 'pending_approval' && canApprove && (
+        <>
+          <PoDecisionForm poId={po.id} poNumber={po.po_number} decision="approved" />
+          <PoDecisionForm poId={po.id} poNumber={po.po_number} decision="rejected" />
+        </>
+      )}
+
       {(po.status === 'confirmed' || po.status === 'partial') && (
         <Link href={`/purchase-orders/${po.id}/receive`}>
           <Button>
@@ -65,7 +95,21 @@ export function PurchaseOrderActions({ po }: PurchaseOrderActionsProps) {
         </Link>
       )}
 
-      {(po.status === 'draft' || po.status === 'confirmed') && (
+      <a href={`/purchase-orders/${po.id}/pdf`} download>
+        <Button variant="outline">
+          <FileDown className="mr-2 h-4 w-4" />
+          {t('purchaseOrders.downloadPdf')}
+        </Button>
+      </a>
+
+      {(po.status === 'confirmed' || po.status === 'partial') && po.supplier?.email && (
+        <Button variant="outline" onClick={handleSend} disabled={isSending}>
+          {isSending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />}
+          {po.sent_at ? t('purchaseOrders.resendToSupplier') : t('purchaseOrders.sendToSupplier')}
+        </Button>
+      )}
+
+      {(po.status === 'draft' || po.status === 'pending_approval' || po.status === 'confirmed') && (
         <Button variant="outline" onClick={handleCancel}>
           <XCircle className="mr-2 h-4 w-4" />
           {t('common.cancel')}
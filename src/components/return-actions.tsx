@@ -5,7 +5,8 @@ import { Button } from '@/components/ui/button'
 import { CheckCircle, Pencil, XCircle } from 'lucide-react'
 import Link from 'next/link'
 import { toast } from 'sonner'
-import { processReturn, cancelReturn } from '@/lib/actions/returns'
+import { processReturn, cancelReturn, voidReturn } from '@/lib/actions/returns'
+import { VoidDocumentButton } from '@/components/void-document-button'
 import { useTranslation } from '@/lib/i18n'
 import type { Return } from '@/types'
 
@@ -44,6 +45,10 @@ export function ReturnActions({ returnDoc }: ReturnActionsProps) {
     }
   }
 
+  if (returnDoc.status === 'completed') {
+    return <VoidDocumentButton onVoid={(reason) => voidReturn(returnDoc.id, reason)} />
+  }
+
   if (returnDoc.status !== 'draft') {
     return null
   }
@@ -0,0 +1,58 @@
+'use client'
+
+import Link from 'next/link'
+import { Textarea } from '@/components/ui/textarea'
+import { useTranslation } from '@/lib/i18n'
+import { parseSerialNumbers } from '@/lib/serial-utils'
+
+interface SerialNumbersInputProps {
+  // One per line or comma-separated
+  value: string | null | undefined
+  onChange: (value: string) => void
+  // Base units the line moves, one serial each
+  expected: number
+}
+
+/**
+ * Serial numbers of a line for a serialized product, with a running count
+ * against the line's quantity
+ */
+export function SerialNumbersInput({ value, onChange, expected }: SerialNumbersInputProps) {
+  const { t } = useTranslation()
+  const count = parseSerialNumbers(value).length
+
+  return (
+    <div className="space-y-1">
+      <Textarea
+        value={value || ''}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={t('serials.inputPlaceholder')}
+        rows={2}
+        className="font-mono text-sm"
+      />
+      <p className={`text-xs ${count === expected ? 'text-gray-500' : 'text-orange-600'}`}>
+        {t('serials.entered', { count, expected })}
+      </p>
+    </div>
+  )
+}
+
+/**
+ * Serials of a posted line, each linking to its unit history
+ */
+export function SerialNumberList({ serials }: { serials: string[] | null | undefined }) {
+  if (!serials || serials.length === 0) return null
+
+  return (
+    <p className="text-xs text-gray-500 font-mono">
+      {serials.map((serial, index) => (
+        <span key={serial}>
+          {index > 0 && ', '}
+          <Link href={`/serials?q=${encodeURIComponent(serial)}`} className="hover:underline">
+            {serial}
+          </Link>
+        </span>
+      ))}
+    </p>
+  )
+}
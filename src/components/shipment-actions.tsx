@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
 import {
   Dialog,
   DialogContent,
@@ -13,18 +14,27 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
-import { CheckCircle, Pencil, Truck, XCircle } from 'lucide-react'
+import { CheckCircle, CopyPlus, Pencil, Truck, XCircle } from 'lucide-react'
 import Link from 'next/link'
 import { toast } from 'sonner'
-import { confirmShipment, shipShipment, cancelShipment } from '@/lib/actions/shipments'
+import {
+  confirmShipment,
+  shipShipment,
+  cancelShipment,
+  voidShipment,
+  createShipmentBackorder,
+} from '@/lib/actions/shipments'
+import { VoidDocumentButton } from '@/components/void-document-button'
 import { useTranslation } from '@/lib/i18n'
-import type { Shipment } from '@/types'
+import type { Shipment, ShipmentLine } from '@/types'
 
 interface ShipmentActionsProps {
   shipment: Shipment
+  // Stock each line can ship right now, keyed by line id
+  availableByLine?: Record<string, number>
 }
 
-export function ShipmentActions({ shipment }: ShipmentActionsProps) {
+export function ShipmentActions({ shipment, availableByLine = {} }: ShipmentActionsProps) {
   const router = useRouter()
   const { t } = useTranslation()
   const [isShipDialogOpen, setIsShipDialogOpen] = useState(false)
@@ -33,6 +43,22 @@ export function ShipmentActions({ shipment }: ShipmentActionsProps) {
   )
   const [isProcessing, setIsProcessing] = useState(false)
 
+  const openLines = (shipment.lines || []).filter((line) => line.qty > line.qty_shipped)
+  const getDefaultShipQty = (line: ShipmentLine) =>
+    Math.max(0, Math.min(line.qty - line.qty_shipped, availableByLine[line.id] ?? line.qty - line.qty_shipped))
+  const [shipQtys, setShipQtys] = useState<Record<string, number>>({})
+  const [createBackorder, setCreateBackorder] = useState(false)
+
+  const openShipDialog = () => {
+    setShipQtys(Object.fromEntries(openLines.map((line) => [line.id, getDefaultShipQty(line)])))
+    setCreateBackorder(false)
+    setIsShipDialogOpen(true)
+  }
+
+  const hasShortfall = openLines.some(
+    (line) => (shipQtys[line.id] ?? 0) < line.qty - line.qty_shipped
+  )
+
   const handleConfirm = async () => {
     setIsProcessing(true)
     const result = await confirmShipment(shipment.id)
@@ -47,17 +73,39 @@ export function ShipmentActions({ shipment }: ShipmentActionsProps) {
 
   const handleShip = async () => {
     setIsProcessing(true)
-    const result = await shipShipment(shipment.id, shipDate)
+    const result = await shipShipment(shipment.id, shipDate, {
+      lines: openLines.map((line) => ({ line_id: line.id, qty_to_ship: shipQtys[line.id] ?? 0 })),
+      createBackorder: hasShortfall && createBackorder,
+    })
     setIsProcessing(false)
     if (result.error) {
       toast.error(result.error)
     } else {
-      toast.success(t('toast.shipmentCompleted'))
+      if (result.backorderId) {
+        toast.success(t('toast.backorderCreated'))
+      } else if (result.status === 'partial') {
+        toast.success(t('toast.shipmentPartiallyShipped'))
+      } else {
+        toast.success(t('toast.shipmentCompleted'))
+      }
       setIsShipDialogOpen(false)
       router.refresh()
     }
   }
 
+  const handleBackorder = async () => {
+    if (!confirm(t('shipments.confirmBackorder'))) return
+    setIsProcessing(true)
+    const result = await createShipmentBackorder(shipment.id)
+    setIsProcessing(false)
+    if (result.error) {
+      toast.error(result.error)
+    } else {
+      toast.success(t('toast.backorderCreated'))
+      router.push(`/shipments/${result.id}`)
+    }
+  }
+
   const handleCancel = async () => {
     if (!confirm(t('shipments.confirmCancel'))) return
     setIsProcessing(true)
@@ -90,19 +138,30 @@ export function ShipmentActions({ shipment }: ShipmentActionsProps) {
           </Button>
         )}
 
-        {shipment.status === 'confirmed' && (
-          <Button onClick={() => setIsShipDialogOpen(true)} disabled={isProcessing}>
+        {(shipment.status === 'confirmed' || shipment.status === 'partial') && (
+          <Button onClick={openShipDialog} disabled={isProcessing}>
             <Truck className="mr-2 h-4 w-4" />
             {t('shipments.ship')}
           </Button>
         )}
 
+        {shipment.status === 'partial' && (
+          <Button variant="outline" onClick={handleBackorder} disabled={isProcessing}>
+            <CopyPlus className="mr-2 h-4 w-4" />
+            {t('shipments.createBackorder')}
+          </Button>
+        )}
+
         {(shipment.status === 'draft' || shipment.status === 'confirmed') && (
           <Button variant="outline" onClick={handleCancel} disabled={isProcessing}>
             <XCircle className="mr-2 h-4 w-4" />
             {t('common.cancel')}
           </Button>
         )}
+
+        {(shipment.status === 'completed' || shipment.status === 'partial') && (
+          <VoidDocumentButton onVoid={(reason) => voidShipment(shipment.id, reason)} />
+        )}
       </div>
 
       <Dialog open={isShipDialogOpen} onOpenChange={setIsShipDialogOpen}>
@@ -123,6 +182,50 @@ export function ShipmentActions({ shipment }: ShipmentActionsProps) {
                 onChange={(e) => setShipDate(e.target.value)}
               />
             </div>
+
+            <div className="space-y-2">
+              {openLines.map((line) => (
+                <div key={line.id} className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <span className="font-mono text-sm">{line.product?.sku}</span>
+                    <p className="text-xs text-gray-500">
+                      {t('shipments.remaining')}: {line.qty - line.qty_shipped}
+                      {line.id in availableByLine && (
+                        <> | {t('stock.available')}: {availableByLine[line.id]}</>
+                      )}
+                    </p>
+                  </div>
+                  <Input
+                    type="number"
+                    step="any"
+                    min="0"
+                    max={line.qty - line.qty_shipped}
+                    className="w-28"
+                    aria-label={t('shipments.qtyToShip')}
+                    value={shipQtys[line.id] ?? 0}
+                    onChange={(e) =>
+                      setShipQtys((prev) => ({ ...prev, [line.id]: Number(e.target.value) || 0 }))
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+
+            {hasShortfall && (
+              <div className="flex items-center space-x-3 rounded-lg border p-4">
+                <Checkbox
+                  id="create_backorder"
+                  checked={createBackorder}
+                  onCheckedChange={(checked) => setCreateBackorder(!!checked)}
+                />
+                <div className="space-y-1">
+                  <Label htmlFor="create_backorder" className="cursor-pointer font-medium">
+                    {t('shipments.createBackorder')}
+                  </Label>
+                  <p className="text-sm text-gray-500">{t('shipments.createBackorderDesc')}</p>
+                </div>
+              </div>
+            )}
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsShipDialogOpen(false)}>
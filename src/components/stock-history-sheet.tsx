@@ -13,7 +13,7 @@ import { Skeleton } from '@/components/ui/skeleton'
 import { getStockMovements, type StockMovementWithDetails } from '@/lib/actions/stock'
 import { formatDate, formatCurrency } from '@/lib/utils'
 import { useTranslation } from '@/lib/i18n'
-import type { InventoryBalance } from '@/types'
+import type { InventoryBalance, Location, Product } from '@/types'
 import {
   Package,
   Truck,
@@ -22,6 +22,7 @@ import {
   RotateCcw,
   Calculator,
   XCircle,
+  Boxes,
 } from 'lucide-react'
 
 const referenceTypeToPath: Record<string, string> = {
@@ -31,12 +32,20 @@ const referenceTypeToPath: Record<string, string> = {
   adjustment: '/adjustments',
   cycle_count: '/cycle-counts',
   return: '/returns',
+  assembly: '/assemblies',
+  supplier_invoice: '/supplier-invoices',
+}
+
+// Any balance-shaped row: stock balances, reconciliation discrepancies
+type StockHistoryItem = Pick<InventoryBalance, 'product_id' | 'location_id' | 'lot_number'> & {
+  product?: Pick<Product, 'sku' | 'name' | 'base_uom'>
+  location?: Pick<Location, 'name'>
 }
 
 interface StockHistorySheetProps {
   open: boolean
   onOpenChange: (open: boolean) => void
-  stockItem: InventoryBalance | null
+  stockItem: StockHistoryItem | null
   currency?: string
 }
 
@@ -50,6 +59,12 @@ const movementTypeIcons: Record<string, typeof Package> = {
   return_in: RotateCcw,
   return_out: RotateCcw,
   void: XCircle,
+  assembly_consume: Boxes,
+  assembly_produce: Boxes,
+  bin_move: ArrowRightLeft,
+  transfer_loss: XCircle,
+  transfer_return: RotateCcw,
+  cost_adjustment: Calculator,
 }
 
 export function StockHistorySheet({
@@ -73,6 +88,12 @@ export function StockHistorySheet({
     return_in: t('movementTypes.return_in'),
     return_out: t('movementTypes.return_out'),
     void: t('movementTypes.void'),
+    assembly_consume: t('movementTypes.assembly_consume'),
+    assembly_produce: t('movementTypes.assembly_produce'),
+    bin_move: t('movementTypes.bin_move'),
+    transfer_loss: t('movementTypes.transfer_loss'),
+    transfer_return: t('movementTypes.transfer_return'),
+    cost_adjustment: t('movementTypes.cost_adjustment'),
   }
 
   const reasonLabels: Record<string, string> = {
@@ -122,12 +143,22 @@ export function StockHistorySheet({
         return movement.to_location_name ? `→ ${movement.to_location_name}` : ''
       case 'transfer_in':
         return movement.from_location_name ? `← ${movement.from_location_name}` : ''
+      case 'transfer_loss':
+        return movement.from_location_name ? `← ${movement.from_location_name}` : ''
+      case 'transfer_return':
+        return movement.to_location_name ? `← ${movement.to_location_name}` : ''
       case 'adjustment':
         return movement.reason ? reasonLabels[movement.reason] || movement.reason : ''
+      case 'cost_adjustment':
+        return movement.partner_name || ''
       case 'return_in':
         return movement.partner_name ? `← ${movement.partner_name}` : ''
       case 'return_out':
         return movement.partner_name ? `→ ${movement.partner_name}` : ''
+      case 'bin_move':
+        return movement.qty < 0
+          ? movement.to_location_name ? `→ ${movement.to_location_name}` : ''
+          : movement.from_location_name ? `← ${movement.from_location_name}` : ''
       default:
         return ''
     }
@@ -203,7 +234,7 @@ export function StockHistorySheet({
                           {movement.qty.toLocaleString()} {t(`uom.${stockItem?.product?.base_uom}`)}
                         </span>
                         <span className="text-xs text-muted-foreground whitespace-nowrap">
-                          {formatDate(movement.created_at, locale)}
+                          {formatDate(movement.effective_date, locale)}
                         </span>
                       </div>
                     </div>
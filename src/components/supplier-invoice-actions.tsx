@@ -0,0 +1,78 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { RefreshCw, Trash2, XCircle } from 'lucide-react'
+import { toast } from 'sonner'
+import { rematchSupplierInvoice, cancelSupplierInvoice, deleteSupplierInvoice } from '@/lib/actions/supplier-invoices'
+import { InvoiceApprovalForm } from '@/components/forms/invoice-approval-form'
+import { useTranslation } from '@/lib/i18n'
+import type { SupplierInvoice } from '@/types'
+
+interface SupplierInvoiceActionsProps {
+  invoice: SupplierInvoice
+}
+
+export function SupplierInvoiceActions({ invoice }: SupplierInvoiceActionsProps) {
+  const router = useRouter()
+  const { t } = useTranslation()
+
+  const handleRematch = async () => {
+    const result = await rematchSupplierInvoice(invoice.id)
+    if (result.error) {
+      toast.error(result.error)
+    } else {
+      toast.success(result.matched ? t('toast.supplierInvoiceMatched') : t('toast.supplierInvoiceStillMismatched'))
+      router.refresh()
+    }
+  }
+
+  const handleCancel = async () => {
+    if (!confirm(t('supplierInvoices.confirmCancel'))) return
+    const result = await cancelSupplierInvoice(invoice.id)
+    if (result.error) {
+      toast.error(result.error)
+    } else {
+      toast.success(t('toast.supplierInvoiceCancelled'))
+      router.refresh()
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!confirm(t('supplierInvoices.confirmDelete'))) return
+    const result = await deleteSupplierInvoice(invoice.id)
+    if (result.error) {
+      toast.error(result.error)
+    } else {
+      toast.success(t('toast.supplierInvoiceDeleted'))
+      router.push('/supplier-invoices')
+    }
+  }
+
+  if (invoice.status === 'cancelled') {
+    return (
+      <Button variant="outline" className="text-red-600" onClick={handleDelete}>
+        <Trash2 className="mr-2 h-4 w-4" />
+        {t('common.delete')}
+      </Button>
+    )
+  }
+
+  if (invoice.status !== 'mismatch') {
+    return null
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Button variant="outline" onClick={handleRematch}>
+        <RefreshCw className="mr-2 h-4 w-4" />
+        {t('supplierInvoices.rematch')}
+      </Button>
+      <InvoiceApprovalForm invoiceId={invoice.id} invoiceNumber={invoice.invoice_number} />
+      <Button variant="outline" onClick={handleCancel}>
+        <XCircle className="mr-2 h-4 w-4" />
+        {t('common.cancel')}
+      </Button>
+    </div>
+  )
+}
@@ -40,6 +40,7 @@ const STATUS_COLORS = {
   draft: 'secondary',
   completed: 'default',
   cancelled: 'destructive',
+  voided: 'outline',
 } as const
 
 interface AdjustmentsTableProps {
@@ -67,6 +68,7 @@ export function AdjustmentsTable({ data }: AdjustmentsTableProps) {
     draft: t('common.draft'),
     completed: t('common.completed'),
     cancelled: t('common.cancelled'),
+    voided: t('common.voided'),
   }
 
   const columns: ColumnDef<AdjustmentsTableProps['data'][0]>[] = [
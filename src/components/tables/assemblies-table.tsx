@@ -0,0 +1,248 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import {
+  ColumnDef,
+  flexRender,
+  getCoreRowModel,
+  getPaginationRowModel,
+  getSortedRowModel,
+  getFilteredRowModel,
+  useReactTable,
+  SortingState,
+} from '@tanstack/react-table'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { MoreHorizontal, Eye, CheckCircle, XCircle } from 'lucide-react'
+import { toast } from 'sonner'
+import { postAssembly, cancelAssembly } from '@/lib/actions/assemblies'
+import { formatDate } from '@/lib/utils'
+import { useTranslation } from '@/lib/i18n'
+import type { Assembly } from '@/types'
+
+const STATUS_COLORS = {
+  draft: 'secondary',
+  completed: 'default',
+  cancelled: 'destructive',
+  voided: 'outline',
+} as const
+
+interface AssembliesTableProps {
+  data: (Assembly & {
+    product?: { id: string; sku: string; name: string; base_uom: string }
+    location?: { id: string; name: string }
+  })[]
+}
+
+export function AssembliesTable({ data }: AssembliesTableProps) {
+  const [sorting, setSorting] = useState<SortingState>([])
+  const [globalFilter, setGlobalFilter] = useState('')
+  const { t, locale } = useTranslation()
+
+  const statusLabels: Record<string, string> = {
+    draft: t('common.draft'),
+    completed: t('common.completed'),
+    cancelled: t('common.cancelled'),
+    voided: t('common.voided'),
+  }
+
+  const columns: ColumnDef<AssembliesTableProps['data'][0]>[] = [
+    {
+      accessorKey: 'assembly_number',
+      header: t('assemblies.assemblyNumber'),
+      cell: ({ row }) => (
+        <Link href={`/assemblies/${row.original.id}`} className="font-mono text-blue-600 hover:underline">
+          {row.getValue('assembly_number')}
+        </Link>
+      ),
+    },
+    {
+      accessorKey: 'assembly_type',
+      header: t('assemblies.type'),
+      cell: ({ row }) => t(`assemblies.types.${row.original.assembly_type}`),
+    },
+    {
+      id: 'product',
+      accessorFn: (row) => `${row.product?.sku ?? ''} ${row.product?.name ?? ''}`,
+      header: t('assemblies.finishedItem'),
+      cell: ({ row }) => (
+        <div>
+          <span className="font-mono text-sm">{row.original.product?.sku}</span>
+          <p className="text-sm text-gray-600">{row.original.product?.name}</p>
+        </div>
+      ),
+    },
+    {
+      accessorKey: 'qty',
+      header: t('common.quantity'),
+      cell: ({ row }) => `${row.original.qty} ${t(`uom.${row.original.product?.base_uom}`)}`,
+    },
+    {
+      accessorKey: 'location',
+      header: t('stock.location'),
+      cell: ({ row }) => row.original.location?.name || '-',
+    },
+    {
+      accessorKey: 'status',
+      header: t('common.status'),
+      cell: ({ row }) => {
+        const status = row.getValue('status') as string
+        return (
+          <Badge variant={STATUS_COLORS[status as keyof typeof STATUS_COLORS] || 'secondary'}>
+            {statusLabels[status] || status}
+          </Badge>
+        )
+      },
+    },
+    {
+      accessorKey: 'created_at',
+      header: t('common.createdAt'),
+      cell: ({ row }) => formatDate(row.getValue('created_at'), locale),
+    },
+    {
+      id: 'actions',
+      cell: ({ row }) => {
+        const assembly = row.original
+
+        const handlePost = async () => {
+          if (!confirm(t('assemblies.confirmPost'))) return
+          const result = await postAssembly(assembly.id)
+          if (result.error) toast.error(result.error)
+          else toast.success(t('toast.assemblyPosted'))
+        }
+
+        const handleCancel = async () => {
+          if (!confirm(t('dialog.cancelMessage'))) return
+          const result = await cancelAssembly(assembly.id)
+          if (result.error) toast.error(result.error)
+          else toast.success(t('toast.assemblyCancelled'))
+        }
+
+        return (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" className="h-8 w-8 p-0">
+                <MoreHorizontal className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem asChild>
+                <Link href={`/assemblies/${assembly.id}`}>
+                  <Eye className="mr-2 h-4 w-4" />
+                  {t('common.view')}
+                </Link>
+              </DropdownMenuItem>
+              {assembly.status === 'draft' && (
+                <>
+                  <DropdownMenuItem onClick={handlePost}>
+                    <CheckCircle className="mr-2 h-4 w-4" />
+                    {t('assemblies.post')}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleCancel} className="text-red-600">
+                    <XCircle className="mr-2 h-4 w-4" />
+                    {t('common.cancel')}
+                  </DropdownMenuItem>
+                </>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )
+      },
+    },
+  ]
+
+  const table = useReactTable({
+    data,
+    columns,
+    getCoreRowModel: getCoreRowModel(),
+    getPaginationRowModel: getPaginationRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+    onSortingChange: setSorting,
+    onGlobalFilterChange: setGlobalFilter,
+    state: { sorting, globalFilter },
+  })
+
+  return (
+    <div className="space-y-4">
+      <Input
+        placeholder={t('assemblies.searchAssemblies')}
+        value={globalFilter ?? ''}
+        onChange={(e) => setGlobalFilter(e.target.value)}
+        className="max-w-sm"
+      />
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            {table.getHeaderGroups().map((headerGroup) => (
+              <TableRow key={headerGroup.id}>
+                {headerGroup.headers.map((header) => (
+                  <TableHead key={header.id}>
+                    {header.isPlaceholder
+                      ? null
+                      : flexRender(header.column.columnDef.header, header.getContext())}
+                  </TableHead>
+                ))}
+              </TableRow>
+            ))}
+          </TableHeader>
+          <TableBody>
+            {table.getRowModel().rows?.length ? (
+              table.getRowModel().rows.map((row) => (
+                <TableRow key={row.id}>
+                  {row.getVisibleCells().map((cell) => (
+                    <TableCell key={cell.id}>
+                      {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={columns.length} className="h-24 text-center">
+                  {t('assemblies.noAssemblies')}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex items-center justify-end space-x-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => table.previousPage()}
+          disabled={!table.getCanPreviousPage()}
+        >
+          {t('common.previous')}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => table.nextPage()}
+          disabled={!table.getCanNextPage()}
+        >
+          {t('common.next')}
+        </Button>
+      </div>
+    </div>
+  )
+}
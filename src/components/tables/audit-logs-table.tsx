@@ -46,6 +46,13 @@ const ACTION_COLORS: Record<string, string> = {
   count: 'bg-pink-100 text-pink-800',
   return: 'bg-lime-100 text-lime-800',
   approve: 'bg-violet-100 text-violet-800',
+  void: 'bg-rose-100 text-rose-800',
+  reconcile: 'bg-amber-100 text-amber-800',
+  close: 'bg-slate-100 text-slate-800',
+  reopen: 'bg-fuchsia-100 text-fuchsia-800',
+  reject: 'bg-red-100 text-red-800',
+  submit: 'bg-sky-100 text-sky-800',
+  send: 'bg-indigo-100 text-indigo-800',
 }
 
 interface AuditLogsTableProps {
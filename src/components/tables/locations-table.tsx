@@ -38,6 +38,8 @@ import type { Location } from '@/types'
 interface LocationWithParent extends Location {
   parent?: { id: string; name: string } | null
   isChild?: boolean
+  // 1 for children of a parent location, 2 for bins of such a child
+  depth?: number
 }
 
 interface LocationsTableProps {
@@ -53,6 +55,7 @@ export function LocationsTable({ data }: LocationsTableProps) {
     warehouse: t('locations.warehouse'),
     store: t('locations.store'),
     outlet: t('locations.outlet'),
+    bin: t('locations.bin'),
   }
 
   const columns: ColumnDef<LocationWithParent>[] = [
@@ -65,7 +68,7 @@ export function LocationsTable({ data }: LocationsTableProps) {
         return (
           <div className="flex items-center gap-2">
             {isChild && (
-              <span className="text-gray-400 ml-4">└</span>
+              <span className={`text-gray-400 ${(row.original.depth || 0) > 1 ? 'ml-8' : 'ml-4'}`}>└</span>
             )}
             <span className={isChild ? 'text-gray-700' : 'font-medium'}>
               {row.getValue('name')}
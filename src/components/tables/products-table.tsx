@@ -33,6 +33,8 @@ import { MoreHorizontal, Pencil, Trash2, Power } from 'lucide-react'
 import { toast } from 'sonner'
 import { deleteProduct, toggleProductActive } from '@/lib/actions/products'
 import { formatCurrency } from '@/lib/utils'
+import { getProductUnits } from '@/lib/uom-utils'
+import { formatVariantValues } from '@/lib/variant-utils'
 import { useTranslation } from '@/lib/i18n'
 import type { Product } from '@/types'
 
@@ -57,6 +59,20 @@ export function ProductsTable({ data, currency = 'USD' }: ProductsTableProps) {
     {
       accessorKey: 'name',
       header: t('products.name'),
+      cell: ({ row }) => {
+        const { name, variant_options, variant_values } = row.original
+        return (
+          <div>
+            <span>{name}</span>
+            {variant_options && (
+              <Badge variant="outline" className="ml-2">{t('products.variantParent')}</Badge>
+            )}
+            {variant_values && (
+              <p className="text-xs text-gray-500">{formatVariantValues(variant_values)}</p>
+            )}
+          </div>
+        )
+      },
     },
     {
       accessorKey: 'category',
@@ -71,10 +87,11 @@ export function ProductsTable({ data, currency = 'USD' }: ProductsTableProps) {
       header: t('products.baseUom'),
       cell: ({ row }) => {
         const uom = row.getValue('base_uom') as string
-        const packName = row.original.pack_uom_name
-        const packQty = row.original.pack_qty_in_base
         const localizedUom = t(`uom.${uom}`)
-        return packName ? `${localizedUom} (${packQty}/${packName})` : localizedUom
+        const units = getProductUnits(row.original)
+        return units.length > 0
+          ? `${localizedUom} (${units.map((unit) => `${Number(unit.factor)}/${unit.name}`).join(', ')})`
+          : localizedUom
       },
     },
     {
@@ -104,11 +121,13 @@ export function ProductsTable({ data, currency = 'USD' }: ProductsTableProps) {
       cell: ({ row }) => {
         const expiry = row.original.track_expiry
         const lot = row.original.track_lot
+        const serial = row.original.track_serial
         return (
           <div className="flex gap-1">
             {expiry && <Badge variant="outline">{t('table.expiry')}</Badge>}
             {lot && <Badge variant="outline">{t('table.lot')}</Badge>}
-            {!expiry && !lot && '-'}
+            {serial && <Badge variant="outline">{t('table.serial')}</Badge>}
+            {!expiry && !lot && !serial && '-'}
           </div>
         )
       },
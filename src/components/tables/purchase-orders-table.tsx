@@ -29,7 +29,7 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
-import { MoreHorizontal, Eye, Package, XCircle, Trash2 } from 'lucide-react'
+import { MoreHorizontal, Eye, Package, XCircle, Trash2, FileDown } from 'lucide-react'
 import { toast } from 'sonner'
 import { confirmPurchaseOrder, cancelPurchaseOrder, deletePurchaseOrder } from '@/lib/actions/purchase-orders'
 import { formatCurrency, formatDate } from '@/lib/utils'
@@ -42,6 +42,7 @@ interface PurchaseOrdersTableProps {
 
 const statusColors: Record<string, string> = {
   draft: 'bg-gray-100 text-gray-800',
+  pending_approval: 'bg-purple-100 text-purple-800',
   confirmed: 'bg-blue-100 text-blue-800',
   partial: 'bg-yellow-100 text-yellow-800',
   completed: 'bg-green-100 text-green-800',
@@ -55,6 +56,7 @@ export function PurchaseOrdersTable({ data }: PurchaseOrdersTableProps) {
 
   const statusLabels: Record<string, string> = {
     draft: t('common.draft'),
+    pending_approval: t('common.pending_approval'),
     confirmed: t('common.confirmed'),
     partial: t('common.partial'),
     completed: t('common.completed'),
@@ -120,7 +122,10 @@ export function PurchaseOrdersTable({ data }: PurchaseOrdersTableProps) {
           if (result.error) {
             toast.error(result.error)
           } else {
-            toast.success(t('toast.poConfirmed'))
+            toast.success(result.pendingApproval ? t('toast.poSubmittedForApproval') : t('toast.poConfirmed'))
+            if (result.emailedTo) toast.success(t('toast.poSentToSupplier', { email: result.emailedTo }))
+            if (result.emailError) toast.warning(t('toast.poEmailFailed'))
+            if (result.attachError) toast.warning(t('toast.poAttachFailed'))
           }
         }
 
@@ -158,6 +163,12 @@ export function PurchaseOrdersTable({ data }: PurchaseOrdersTableProps) {
                   {t('common.view')}
                 </Link>
               </DropdownMenuItem>
+              <DropdownMenuItem asChild>
+                <a href={`/purchase-orders/${po.id}/pdf`} download>
+                  <FileDown className="mr-2 h-4 w-4" />
+                  {t('purchaseOrders.downloadPdf')}
+                </a>
+              </DropdownMenuItem>
               {po.status === 'draft' && (
                 <DropdownMenuItem onClick={handleConfirm}>
                   <Package className="mr-2 h-4 w-4" />
@@ -172,7 +183,7 @@ export function PurchaseOrdersTable({ data }: PurchaseOrdersTableProps) {
                   </Link>
                 </DropdownMenuItem>
               )}
-              {(po.status === 'draft' || po.status === 'confirmed') && (
+              {(po.status === 'draft' || po.status === 'pending_approval' || po.status === 'confirmed') && (
                 <DropdownMenuItem onClick={handleCancel} className="text-orange-600">
                   <XCircle className="mr-2 h-4 w-4" />
                   {t('common.cancel')}
@@ -0,0 +1,222 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { History, RefreshCw } from 'lucide-react'
+import { toast } from 'sonner'
+import { StockHistorySheet } from '@/components/stock-history-sheet'
+import { rebuildInventoryBalances, type RebuildItem } from '@/lib/actions/reconciliation'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import { useTranslation } from '@/lib/i18n'
+import type { BalanceDiscrepancy } from '@/types'
+
+interface ReconciliationTableProps {
+  data: BalanceDiscrepancy[]
+  currency?: string
+}
+
+export function ReconciliationTable({ data, currency = 'USD' }: ReconciliationTableProps) {
+  const router = useRouter()
+  const { t, locale } = useTranslation()
+  const [selected, setSelected] = useState<BalanceDiscrepancy | null>(null)
+  const [sheetOpen, setSheetOpen] = useState(false)
+  const [preview, setPreview] = useState<RebuildItem[] | null>(null)
+  const [isProcessing, setIsProcessing] = useState(false)
+
+  const describe = (item: Pick<RebuildItem, 'product_id' | 'location_id' | 'lot_number' | 'expiry_date'>) => {
+    const row = data.find((d) =>
+      d.product_id === item.product_id &&
+      d.location_id === item.location_id &&
+      d.lot_number === item.lot_number &&
+      d.expiry_date === item.expiry_date
+    )
+    return [row?.product?.sku, row?.location?.name, item.lot_number].filter(Boolean).join(' • ')
+  }
+
+  // Dry run first, so the admin sees exactly what the rebuild will write
+  const handlePreview = async () => {
+    setIsProcessing(true)
+    const result = await rebuildInventoryBalances(true)
+    setIsProcessing(false)
+    if ('error' in result && result.error) {
+      toast.error(result.error)
+      return
+    }
+    setPreview(result.items || [])
+  }
+
+  const handleRebuild = async () => {
+    setIsProcessing(true)
+    const result = await rebuildInventoryBalances(false)
+    setIsProcessing(false)
+    if ('error' in result && result.error) {
+      toast.error(result.error)
+      return
+    }
+    toast.success(t('reconciliation.rebuilt', { count: result.items?.length || 0 }))
+    setPreview(null)
+    router.refresh()
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">
+          {t('reconciliation.found', { count: data.length })}
+        </p>
+        <Button onClick={handlePreview} disabled={isProcessing || data.length === 0}>
+          <RefreshCw className="mr-2 h-4 w-4" />
+          {t('reconciliation.rebuild')}
+        </Button>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t('products.sku')}</TableHead>
+              <TableHead>{t('stock.location')}</TableHead>
+              <TableHead>{t('reports.lotNumber')}</TableHead>
+              <TableHead className="text-right">{t('reconciliation.balanceQty')}</TableHead>
+              <TableHead className="text-right">{t('reconciliation.ledgerQty')}</TableHead>
+              <TableHead className="text-right">{t('reconciliation.difference')}</TableHead>
+              <TableHead className="text-right">{t('reconciliation.balanceCost')}</TableHead>
+              <TableHead className="text-right">{t('reconciliation.ledgerCost')}</TableHead>
+              <TableHead>{t('reconciliation.lastMovement')}</TableHead>
+              <TableHead className="w-16"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={10} className="h-24 text-center">
+                  {t('reconciliation.noDiscrepancies')}
+                </TableCell>
+              </TableRow>
+            ) : (
+              data.map((row) => {
+                const difference = Number(row.ledger_qty) - Number(row.balance_qty || 0)
+                return (
+                  <TableRow key={`${row.product_id}-${row.location_id}-${row.lot_number}-${row.expiry_date}`}>
+                    <TableCell>
+                      <div className="font-mono text-sm">{row.product?.sku}</div>
+                      <div className="text-xs text-gray-500">{row.product?.name}</div>
+                    </TableCell>
+                    <TableCell>{row.location?.name}</TableCell>
+                    <TableCell>{row.lot_number || '-'}</TableCell>
+                    <TableCell className="text-right">
+                      {row.balance_qty == null ? t('reconciliation.missing') : row.balance_qty}
+                    </TableCell>
+                    <TableCell className="text-right">{row.ledger_qty}</TableCell>
+                    <TableCell className={`text-right font-medium ${difference === 0 ? '' : difference > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {difference > 0 ? `+${difference}` : difference}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {row.balance_avg_cost == null ? '-' : formatCurrency(row.balance_avg_cost, currency, locale)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(row.ledger_avg_cost, currency, locale)}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-sm">
+                      {row.last_movement_at ? formatDate(row.last_movement_at, locale) : '-'}
+                      <div className="text-xs text-gray-500">
+                        {t('reconciliation.movementCount', { count: row.movement_count })}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title={t('stock.movementHistory')}
+                        onClick={() => {
+                          setSelected(row)
+                          setSheetOpen(true)
+                        }}
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                )
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <StockHistorySheet
+        open={sheetOpen}
+        onOpenChange={setSheetOpen}
+        stockItem={selected}
+        currency={currency}
+      />
+
+      <Dialog open={preview !== null} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{t('reconciliation.previewTitle')}</DialogTitle>
+            <DialogDescription>
+              {t('reconciliation.previewDescription', { count: preview?.length || 0 })}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('reconciliation.balance')}</TableHead>
+                  <TableHead className="text-right">{t('reconciliation.qtyChange')}</TableHead>
+                  <TableHead className="text-right">{t('reconciliation.costChange')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(preview || []).map((item) => (
+                  <TableRow key={`${item.product_id}-${item.location_id}-${item.lot_number}-${item.expiry_date}`}>
+                    <TableCell className="text-sm">{describe(item)}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {item.old_qty} → {item.new_qty}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {item.old_avg_cost == null ? '-' : formatCurrency(item.old_avg_cost, currency, locale)}
+                      {' → '}
+                      {formatCurrency(item.new_avg_cost, currency, locale)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPreview(null)}>
+              {t('common.cancel')}
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleRebuild}
+              disabled={isProcessing || !preview?.length}
+            >
+              <RefreshCw className="mr-2 h-4 w-4" />
+              {isProcessing ? t('common.loading') : t('reconciliation.applyRebuild')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
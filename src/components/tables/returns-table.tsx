@@ -44,6 +44,7 @@ const statusColors: Record<string, string> = {
   draft: 'bg-gray-100 text-gray-800',
   completed: 'bg-green-100 text-green-800',
   cancelled: 'bg-red-100 text-red-800',
+  voided: 'bg-gray-100 text-gray-500 line-through',
 }
 
 const typeColors: Record<string, string> = {
@@ -60,6 +61,7 @@ export function ReturnsTable({ data }: ReturnsTableProps) {
     draft: t('common.draft'),
     completed: t('common.completed'),
     cancelled: t('common.cancelled'),
+    voided: t('common.voided'),
   }
 
   const typeLabels: Record<string, string> = {
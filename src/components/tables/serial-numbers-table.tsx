@@ -0,0 +1,175 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import {
+  ColumnDef,
+  flexRender,
+  getCoreRowModel,
+  getPaginationRowModel,
+  getSortedRowModel,
+  getFilteredRowModel,
+  useReactTable,
+  SortingState,
+} from '@tanstack/react-table'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { formatDate } from '@/lib/utils'
+import { useTranslation } from '@/lib/i18n'
+import type { SerialNumber } from '@/types'
+
+const STATUS_COLORS = {
+  in_stock: 'default',
+  in_transit: 'secondary',
+  out: 'outline',
+} as const
+
+interface SerialNumbersTableProps {
+  data: (SerialNumber & {
+    product?: { id: string; sku: string; name: string }
+    location?: { id: string; name: string } | null
+  })[]
+  initialSearch?: string
+}
+
+export function SerialNumbersTable({ data, initialSearch }: SerialNumbersTableProps) {
+  const [sorting, setSorting] = useState<SortingState>([])
+  const [globalFilter, setGlobalFilter] = useState(initialSearch || '')
+  const { t, locale } = useTranslation()
+
+  const columns: ColumnDef<SerialNumbersTableProps['data'][0]>[] = [
+    {
+      accessorKey: 'serial_number',
+      header: t('serials.serialNumber'),
+      cell: ({ row }) => (
+        <Link href={`/serials/${row.original.id}`} className="font-mono text-blue-600 hover:underline">
+          {row.getValue('serial_number')}
+        </Link>
+      ),
+    },
+    {
+      id: 'product',
+      accessorFn: (row) => `${row.product?.sku ?? ''} ${row.product?.name ?? ''}`,
+      header: t('products.product'),
+      cell: ({ row }) => (
+        <div>
+          <span className="font-mono text-sm">{row.original.product?.sku}</span>
+          <p className="text-sm text-gray-600">{row.original.product?.name}</p>
+        </div>
+      ),
+    },
+    {
+      accessorKey: 'lot_number',
+      header: t('stock.lotNumber'),
+      cell: ({ row }) => row.original.lot_number || '-',
+    },
+    {
+      id: 'location',
+      accessorFn: (row) => row.location?.name ?? '',
+      header: t('stock.location'),
+      cell: ({ row }) => row.original.location?.name || '-',
+    },
+    {
+      accessorKey: 'status',
+      header: t('common.status'),
+      cell: ({ row }) => (
+        <Badge variant={STATUS_COLORS[row.original.status] || 'secondary'}>
+          {t(`serials.statuses.${row.original.status}`)}
+        </Badge>
+      ),
+    },
+    {
+      accessorKey: 'updated_at',
+      header: t('serials.lastMoved'),
+      cell: ({ row }) => formatDate(row.getValue('updated_at'), locale),
+    },
+  ]
+
+  const table = useReactTable({
+    data,
+    columns,
+    getCoreRowModel: getCoreRowModel(),
+    getPaginationRowModel: getPaginationRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+    onSortingChange: setSorting,
+    onGlobalFilterChange: setGlobalFilter,
+    state: { sorting, globalFilter },
+  })
+
+  return (
+    <div className="space-y-4">
+      <Input
+        placeholder={t('serials.searchSerials')}
+        value={globalFilter ?? ''}
+        onChange={(e) => setGlobalFilter(e.target.value)}
+        className="max-w-sm"
+      />
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            {table.getHeaderGroups().map((headerGroup) => (
+              <TableRow key={headerGroup.id}>
+                {headerGroup.headers.map((header) => (
+                  <TableHead key={header.id}>
+                    {header.isPlaceholder
+                      ? null
+                      : flexRender(header.column.columnDef.header, header.getContext())}
+                  </TableHead>
+                ))}
+              </TableRow>
+            ))}
+          </TableHeader>
+          <TableBody>
+            {table.getRowModel().rows?.length ? (
+              table.getRowModel().rows.map((row) => (
+                <TableRow key={row.id}>
+                  {row.getVisibleCells().map((cell) => (
+                    <TableCell key={cell.id}>
+                      {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={columns.length} className="h-24 text-center">
+                  {t('serials.noSerials')}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex items-center justify-end space-x-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => table.previousPage()}
+          disabled={!table.getCanPreviousPage()}
+        >
+          {t('common.previous')}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => table.nextPage()}
+          disabled={!table.getCanNextPage()}
+        >
+          {t('common.next')}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -43,8 +43,10 @@ interface ShipmentsTableProps {
 const statusColors: Record<string, string> = {
   draft: 'bg-gray-100 text-gray-800',
   confirmed: 'bg-blue-100 text-blue-800',
+  partial: 'bg-yellow-100 text-yellow-800',
   completed: 'bg-green-100 text-green-800',
   cancelled: 'bg-red-100 text-red-800',
+  voided: 'bg-gray-100 text-gray-500 line-through',
 }
 
 export function ShipmentsTable({ data }: ShipmentsTableProps) {
@@ -55,8 +57,10 @@ export function ShipmentsTable({ data }: ShipmentsTableProps) {
   const statusLabels: Record<string, string> = {
     draft: t('common.draft'),
     confirmed: t('common.confirmed'),
+    partial: t('common.partial'),
     completed: t('common.completed'),
     cancelled: t('common.cancelled'),
+    voided: t('common.voided'),
   }
 
   const columns: ColumnDef<Shipment>[] = [
@@ -125,6 +129,8 @@ export function ShipmentsTable({ data }: ShipmentsTableProps) {
           const result = await shipShipment(shipment.id)
           if (result.error) {
             toast.error(result.error)
+          } else if (result.status === 'partial') {
+            toast.success(t('toast.shipmentPartiallyShipped'))
           } else {
             toast.success(t('toast.shipmentCompleted'))
           }
@@ -170,7 +176,7 @@ export function ShipmentsTable({ data }: ShipmentsTableProps) {
                   {t('common.confirm')}
                 </DropdownMenuItem>
               )}
-              {shipment.status === 'confirmed' && (
+              {(shipment.status === 'confirmed' || shipment.status === 'partial') && (
                 <DropdownMenuItem onClick={handleShip}>
                   <Truck className="mr-2 h-4 w-4" />
                   {t('shipments.ship')}
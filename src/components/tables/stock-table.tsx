@@ -30,34 +30,90 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
+import { ArrowRightLeft } from 'lucide-react'
 import { StockHistorySheet } from '@/components/stock-history-sheet'
+import { BinMoveDialog } from '@/components/bin-move-dialog'
 import { formatCurrency, formatDate } from '@/lib/utils'
 import { useTranslation } from '@/lib/i18n'
-import type { InventoryBalance, Location } from '@/types'
+import { formatInStockUnit } from '@/lib/uom-utils'
+import { rollUpToParents, type VariantParent } from '@/lib/variant-utils'
+import { binsOf, buildBinWarehouseMap, rollUpToWarehouses } from '@/lib/bin-utils'
+import type { InventoryBalance, Location, ProductUnit } from '@/types'
 
 interface StockTableProps {
   data: InventoryBalance[]
   depletedData?: InventoryBalance[]
-  locations: Pick<Location, 'id' | 'name'>[]
+  locations: Pick<Location, 'id' | 'name' | 'type' | 'parent_id'>[]
+  stockUnits?: ProductUnit[]
+  // Variant product id -> parent product
+  variantParents?: Record<string, VariantParent>
+  // Products whose bin moves name their units
+  serialProductIds?: string[]
   currency?: string
+  // Set when showing a past position, which can't be acted on
+  asOf?: string
 }
 
-export function StockTable({ data, depletedData = [], locations, currency = 'USD' }: StockTableProps) {
+export function StockTable({
+  data,
+  depletedData = [],
+  locations,
+  stockUnits = [],
+  variantParents = {},
+  serialProductIds = [],
+  currency = 'USD',
+  asOf,
+}: StockTableProps) {
   const [sorting, setSorting] = useState<SortingState>([])
   const [globalFilter, setGlobalFilter] = useState('')
   const [locationFilter, setLocationFilter] = useState<string>('all')
   const [selectedStock, setSelectedStock] = useState<InventoryBalance | null>(null)
   const [sheetOpen, setSheetOpen] = useState(false)
   const [activeTab, setActiveTab] = useState('current')
+  const [variantView, setVariantView] = useState<string>('variants')
+  const [binView, setBinView] = useState<string>('bins')
+  const [moveStock, setMoveStock] = useState<InventoryBalance | null>(null)
+  const [moveOpen, setMoveOpen] = useState(false)
   const { t, locale } = useTranslation()
+  const hasVariants = Object.keys(variantParents).length > 0
+  const rolledUp = variantView === 'parents'
+  const binWarehouses = useMemo(() => buildBinWarehouseMap(locations), [locations])
+  const hasBins = Object.keys(binWarehouses).length > 0
+  const binsRolledUp = binView === 'warehouses'
 
+  // Warehouse a row's stock sits in: a bin's parent, otherwise its own location
+  const warehouseOf = (locationId: string) => binWarehouses[locationId]?.id ?? locationId
+
+  // Where a row can move to: the warehouse and its bins, except where it is
+  const moveDestinations = (item: InventoryBalance) => {
+    const warehouseId = warehouseOf(item.location_id)
+    return locations
+      .filter((location) => location.id === warehouseId || binWarehouses[location.id]?.id === warehouseId)
+      .filter((location) => location.id !== item.location_id)
+  }
+
+  // Quantity in the product's stock unit, e.g. "12 Case"
+  const inStockUnit = (qty: number, productId: string) =>
+    formatInStockUnit(qty, { units: stockUnits.filter((unit) => unit.product_id === productId) })
+
+  const currentData = useMemo(() => {
+    const rows = rolledUp ? rollUpToParents(data, variantParents) : data
+    return binsRolledUp ? rollUpToWarehouses(rows, binWarehouses) : rows
+  }, [data, variantParents, rolledUp, binWarehouses, binsRolledUp])
+
+  // A warehouse filter includes the stock in its bins
   const filteredData = locationFilter === 'all'
-    ? data
-    : data.filter(item => item.location_id === locationFilter)
+    ? currentData
+    : currentData.filter(item => item.location_id === locationFilter || warehouseOf(item.location_id) === locationFilter)
 
   const filteredDepletedData = locationFilter === 'all'
     ? depletedData
-    : depletedData.filter(item => item.location_id === locationFilter)
+    : depletedData.filter(item => item.location_id === locationFilter || warehouseOf(item.location_id) === locationFilter)
+
+  const handleMoveClick = (item: InventoryBalance) => {
+    setMoveStock(item)
+    setMoveOpen(true)
+  }
 
   const handleSkuClick = (item: InventoryBalance) => {
     setSelectedStock(item)
@@ -68,7 +124,10 @@ export function StockTable({ data, depletedData = [], locations, currency = 'USD
     {
       accessorKey: 'product.sku',
       header: t('products.sku'),
-      cell: ({ row }) => (
+      // History is per product and lot, so rolled-up rows have none to show
+      cell: ({ row }) => rolledUp || binsRolledUp ? (
+        <span className="font-mono">{row.original.product?.sku}</span>
+      ) : (
         <button
           onClick={() => handleSkuClick(row.original)}
           className="font-mono text-blue-600 hover:underline hover:text-blue-800 text-left"
@@ -86,7 +145,16 @@ export function StockTable({ data, depletedData = [], locations, currency = 'USD
     {
       accessorKey: 'location.name',
       header: t('stock.location'),
-      cell: ({ row }) => row.original.location?.name,
+      cell: ({ row }) => {
+        const warehouse = binWarehouses[row.original.location_id]
+        return warehouse ? (
+          <span>
+            {warehouse.name} <span className="text-muted-foreground">›</span> {row.original.location?.name}
+          </span>
+        ) : (
+          row.original.location?.name
+        )
+      },
     },
     {
       accessorKey: 'lot_number',
@@ -129,6 +197,9 @@ export function StockTable({ data, depletedData = [], locations, currency = 'USD
           <div className="flex items-center gap-2">
             <span className={isLowStock ? 'text-orange-600 font-medium' : qty === 0 ? 'text-muted-foreground' : ''}>
               {qty.toLocaleString()} {t(`uom.${product?.base_uom}`)}
+              {qty !== 0 && inStockUnit(qty, row.original.product_id) && (
+                <span className="block text-xs text-muted-foreground">{inStockUnit(qty, row.original.product_id)}</span>
+              )}
             </span>
             {isLowStock && (
               <Badge variant="secondary">{t('stock.lowStock')}</Badge>
@@ -140,6 +211,33 @@ export function StockTable({ data, depletedData = [], locations, currency = 'USD
         )
       },
     },
+    {
+      accessorKey: 'reserved_qty',
+      header: t('stock.reserved'),
+      cell: ({ row }) => {
+        const reserved = row.original.reserved_qty || 0
+        return (
+          <span className={reserved > 0 ? 'text-orange-600' : 'text-muted-foreground'}>
+            {reserved.toLocaleString()}
+          </span>
+        )
+      },
+    },
+    {
+      accessorKey: 'available_qty',
+      header: t('stock.available'),
+      cell: ({ row }) => {
+        const available = row.original.available_qty ?? row.original.qty_on_hand
+        return (
+          <span className={available <= 0 ? 'text-red-600 font-medium' : ''}>
+            {available.toLocaleString()} {t(`uom.${row.original.product?.base_uom}`)}
+            {available > 0 && inStockUnit(available, row.original.product_id) && (
+              <span className="block text-xs text-muted-foreground">{inStockUnit(available, row.original.product_id)}</span>
+            )}
+          </span>
+        )
+      },
+    },
     {
       accessorKey: 'avg_cost',
       header: t('stock.avgCost'),
@@ -150,8 +248,19 @@ export function StockTable({ data, depletedData = [], locations, currency = 'USD
       header: t('stock.inventoryValue'),
       cell: ({ row }) => formatCurrency(row.getValue('inventory_value'), currency, locale),
     },
+    {
+      id: 'actions',
+      // Stock in a warehouse with bins can be moved between them
+      cell: ({ row }) => !asOf && !rolledUp && !binsRolledUp && row.original.qty_on_hand > 0
+        && binsOf(locations, warehouseOf(row.original.location_id)).length > 0 ? (
+          <Button variant="ghost" size="sm" onClick={() => handleMoveClick(row.original)}>
+            <ArrowRightLeft className="mr-1 h-4 w-4" />
+            {t('stock.move')}
+          </Button>
+        ) : null,
+    },
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  ], [t, currency, locale])
+  ], [t, currency, locale, stockUnits, rolledUp, binsRolledUp, binWarehouses, asOf])
 
   const currentTable = useReactTable({
     data: filteredData,
@@ -165,9 +274,21 @@ export function StockTable({ data, depletedData = [], locations, currency = 'USD
     state: { sorting, globalFilter },
   })
 
+  // Depleted lots show when they last moved instead of the move action
+  const depletedColumns: ColumnDef<InventoryBalance>[] = useMemo(() => [
+    ...columns.filter((column) => column.id !== 'actions'),
+    {
+      accessorKey: 'last_movement_date',
+      header: t('stock.lastMovement'),
+      cell: ({ row }) => row.original.last_movement_date
+        ? formatDate(row.original.last_movement_date, locale)
+        : '-',
+    },
+  ], [columns, t, locale])
+
   const depletedTable = useReactTable({
     data: filteredDepletedData,
-    columns,
+    columns: depletedColumns,
     getCoreRowModel: getCoreRowModel(),
     getPaginationRowModel: getPaginationRowModel(),
     getSortedRowModel: getSortedRowModel(),
@@ -262,6 +383,28 @@ export function StockTable({ data, depletedData = [], locations, currency = 'USD
             ))}
           </SelectContent>
         </Select>
+        {hasVariants && (
+          <Select value={variantView} onValueChange={setVariantView}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="variants">{t('reports.showVariants')}</SelectItem>
+              <SelectItem value="parents">{t('reports.rollUpToParent')}</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+        {hasBins && (
+          <Select value={binView} onValueChange={setBinView}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="bins">{t('reports.showBins')}</SelectItem>
+              <SelectItem value="warehouses">{t('reports.rollUpToWarehouse')}</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
@@ -295,6 +438,14 @@ export function StockTable({ data, depletedData = [], locations, currency = 'USD
         stockItem={selectedStock}
         currency={currency}
       />
+
+      <BinMoveDialog
+        open={moveOpen}
+        onOpenChange={setMoveOpen}
+        stockItem={moveStock}
+        destinations={moveStock ? moveDestinations(moveStock) : []}
+        trackSerial={!!moveStock && serialProductIds.includes(moveStock.product_id)}
+      />
     </div>
   )
 }
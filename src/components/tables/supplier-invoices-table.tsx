@@ -0,0 +1,262 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import {
+  ColumnDef,
+  flexRender,
+  getCoreRowModel,
+  getPaginationRowModel,
+  getSortedRowModel,
+  getFilteredRowModel,
+  useReactTable,
+  SortingState,
+} from '@tanstack/react-table'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { MoreHorizontal, Eye, RefreshCw, XCircle } from 'lucide-react'
+import { toast } from 'sonner'
+import { rematchSupplierInvoice, cancelSupplierInvoice } from '@/lib/actions/supplier-invoices'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import { useTranslation } from '@/lib/i18n'
+import type { SupplierInvoice } from '@/types'
+
+interface SupplierInvoicesTableProps {
+  data: SupplierInvoice[]
+  currency?: string
+}
+
+const statusColors: Record<string, string> = {
+  matched: 'bg-green-100 text-green-800',
+  mismatch: 'bg-orange-100 text-orange-800',
+  approved: 'bg-blue-100 text-blue-800',
+  cancelled: 'bg-red-100 text-red-800',
+}
+
+export function SupplierInvoicesTable({ data, currency = 'USD' }: SupplierInvoicesTableProps) {
+  const [sorting, setSorting] = useState<SortingState>([])
+  const [globalFilter, setGlobalFilter] = useState('')
+  const { t, locale } = useTranslation()
+
+  const statusLabels: Record<string, string> = {
+    matched: t('supplierInvoices.matched'),
+    mismatch: t('supplierInvoices.mismatch'),
+    approved: t('supplierInvoices.approved'),
+    cancelled: t('common.cancelled'),
+  }
+
+  const columns: ColumnDef<SupplierInvoice>[] = [
+    {
+      accessorKey: 'invoice_number',
+      header: t('supplierInvoices.invoiceNumber'),
+      cell: ({ row }) => (
+        <Link
+          href={`/supplier-invoices/${row.original.id}`}
+          className="font-mono text-blue-600 hover:underline"
+        >
+          {row.getValue('invoice_number')}
+        </Link>
+      ),
+    },
+    {
+      accessorKey: 'purchase_order.po_number',
+      header: t('purchaseOrders.poNumber'),
+      cell: ({ row }) => (
+        <Link
+          href={`/purchase-orders/${row.original.po_id}`}
+          className="font-mono text-blue-600 hover:underline"
+        >
+          {row.original.purchase_order?.po_number}
+        </Link>
+      ),
+    },
+    {
+      accessorKey: 'supplier.name',
+      header: t('purchaseOrders.supplier'),
+      cell: ({ row }) => row.original.supplier?.name,
+    },
+    {
+      accessorKey: 'invoice_date',
+      header: t('supplierInvoices.invoiceDate'),
+      cell: ({ row }) => formatDate(row.getValue('invoice_date'), locale),
+    },
+    {
+      accessorKey: 'due_date',
+      header: t('supplierInvoices.dueDate'),
+      cell: ({ row }) => (row.original.due_date ? formatDate(row.original.due_date, locale) : '-'),
+    },
+    {
+      id: 'total',
+      header: t('supplierInvoices.invoiceTotal'),
+      cell: ({ row }) => {
+        const total = (row.original.lines || []).reduce(
+          (sum, line) => sum + Number(line.qty_invoiced) * Number(line.unit_price),
+          0
+        )
+        return formatCurrency(total, currency, locale)
+      },
+    },
+    {
+      accessorKey: 'status',
+      header: t('common.status'),
+      cell: ({ row }) => {
+        const status = row.getValue('status') as string
+        return (
+          <Badge className={statusColors[status] || ''}>
+            {statusLabels[status] || status}
+          </Badge>
+        )
+      },
+    },
+    {
+      id: 'actions',
+      header: t('common.actions'),
+      cell: ({ row }) => {
+        const invoice = row.original
+
+        const handleRematch = async () => {
+          const result = await rematchSupplierInvoice(invoice.id)
+          if (result.error) {
+            toast.error(result.error)
+          } else {
+            toast.success(result.matched ? t('toast.supplierInvoiceMatched') : t('toast.supplierInvoiceStillMismatched'))
+          }
+        }
+
+        const handleCancel = async () => {
+          if (!confirm(t('supplierInvoices.confirmCancel'))) return
+          const result = await cancelSupplierInvoice(invoice.id)
+          if (result.error) {
+            toast.error(result.error)
+          } else {
+            toast.success(t('toast.supplierInvoiceCancelled'))
+          }
+        }
+
+        return (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" className="h-8 w-8 p-0">
+                <MoreHorizontal className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem asChild>
+                <Link href={`/supplier-invoices/${invoice.id}`}>
+                  <Eye className="mr-2 h-4 w-4" />
+                  {t('common.view')}
+                </Link>
+              </DropdownMenuItem>
+              {invoice.status === 'mismatch' && (
+                <>
+                  <DropdownMenuItem onClick={handleRematch}>
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                    {t('supplierInvoices.rematch')}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleCancel} className="text-orange-600">
+                    <XCircle className="mr-2 h-4 w-4" />
+                    {t('common.cancel')}
+                  </DropdownMenuItem>
+                </>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )
+      },
+    },
+  ]
+
+  const table = useReactTable({
+    data,
+    columns,
+    getCoreRowModel: getCoreRowModel(),
+    getPaginationRowModel: getPaginationRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+    onSortingChange: setSorting,
+    onGlobalFilterChange: setGlobalFilter,
+    state: { sorting, globalFilter },
+  })
+
+  return (
+    <div className="space-y-4">
+      <Input
+        placeholder={t('supplierInvoices.searchInvoices')}
+        value={globalFilter ?? ''}
+        onChange={(e) => setGlobalFilter(e.target.value)}
+        className="max-w-sm"
+      />
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            {table.getHeaderGroups().map((headerGroup) => (
+              <TableRow key={headerGroup.id}>
+                {headerGroup.headers.map((header) => (
+                  <TableHead key={header.id}>
+                    {header.isPlaceholder
+                      ? null
+                      : flexRender(header.column.columnDef.header, header.getContext())}
+                  </TableHead>
+                ))}
+              </TableRow>
+            ))}
+          </TableHeader>
+          <TableBody>
+            {table.getRowModel().rows?.length ? (
+              table.getRowModel().rows.map((row) => (
+                <TableRow key={row.id}>
+                  {row.getVisibleCells().map((cell) => (
+                    <TableCell key={cell.id}>
+                      {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={columns.length} className="h-24 text-center">
+                  {t('supplierInvoices.noInvoices')}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex items-center justify-end space-x-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => table.previousPage()}
+          disabled={!table.getCanPreviousPage()}
+        >
+          {t('common.previous')}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => table.nextPage()}
+          disabled={!table.getCanNextPage()}
+        >
+          {t('common.next')}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,127 @@
+'use client'
+
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { SupplierProductForm } from '@/components/forms/supplier-product-form'
+import { deleteSupplierProduct } from '@/lib/actions/suppliers'
+import { formatCurrency } from '@/lib/utils'
+import { useTranslation } from '@/lib/i18n'
+import type { SupplierProduct } from '@/types'
+
+interface SupplierProductsTableProps {
+  data: SupplierProduct[]
+  // Which side the table is shown from; the other side is listed
+  view: 'supplier' | 'product'
+  options: { id: string; label: string }[]
+  defaultCurrency?: string
+}
+
+export function SupplierProductsTable({ data, view, options, defaultCurrency = 'USD' }: SupplierProductsTableProps) {
+  const router = useRouter()
+  const { t, locale } = useTranslation()
+
+  const handleDelete = async (id: string) => {
+    if (!confirm(t('dialog.deleteMessage'))) return
+
+    const result = await deleteSupplierProduct(id)
+    if (result.error) {
+      toast.error(result.error)
+    } else {
+      toast.success(t('toast.supplierProductRemoved'))
+      router.refresh()
+    }
+  }
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{view === 'supplier' ? t('products.product') : t('purchaseOrders.supplier')}</TableHead>
+            <TableHead>{t('supplierProducts.supplierSku')}</TableHead>
+            <TableHead className="text-right">{t('supplierProducts.price')}</TableHead>
+            <TableHead className="text-right">{t('supplierProducts.leadTimeDays')}</TableHead>
+            <TableHead className="text-right">{t('supplierProducts.minOrderQty')}</TableHead>
+            <TableHead className="text-right">{t('supplierProducts.packSize')}</TableHead>
+            <TableHead className="w-[100px]"></TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {data.length > 0 ? (
+            data.map((item) => {
+              const price = item.contract_price ?? item.last_price
+              const currency = item.currency || defaultCurrency
+
+              return (
+                <TableRow key={item.id}>
+                  <TableCell>
+                    {view === 'supplier' ? (
+                      <Link href={`/products/${item.product_id}`} className="text-blue-600 hover:underline">
+                        <span className="font-mono">{item.product?.sku}</span> - {item.product?.name}
+                      </Link>
+                    ) : (
+                      <Link href={`/suppliers/${item.supplier_id}`} className="text-blue-600 hover:underline">
+                        {item.supplier?.name}
+                      </Link>
+                    )}
+                    {item.preferred && (
+                      <Badge variant="secondary" className="ml-2">{t('supplierProducts.preferred')}</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="font-mono">{item.supplier_sku || '-'}</TableCell>
+                  <TableCell className="text-right">
+                    {price !== null ? formatCurrency(Number(price), currency, locale) : '-'}
+                    {item.contract_price === null && item.last_price !== null && (
+                      <span className="block text-xs text-gray-500">{t('supplierProducts.lastPrice')}</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{item.lead_time_days ?? '-'}</TableCell>
+                  <TableCell className="text-right">{item.min_order_qty ?? '-'}</TableCell>
+                  <TableCell className="text-right">{item.pack_size ?? '-'}</TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      <SupplierProductForm
+                        supplierProduct={item}
+                        options={options}
+                        supplierId={view === 'supplier' ? item.supplier_id : undefined}
+                        productId={view === 'product' ? item.product_id : undefined}
+                        defaultCurrency={defaultCurrency}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(item.id)}
+                        className="h-8 w-8 p-0 text-red-600"
+                        title={t('common.delete')}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              )
+            })
+          ) : (
+            <TableRow>
+              <TableCell colSpan={7} className="h-24 text-center text-gray-500">
+                {t('supplierProducts.empty')}
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
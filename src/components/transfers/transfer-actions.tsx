@@ -16,7 +16,7 @@ import {
 import { toast } from 'sonner'
 import { Send, CheckCircle, Pencil, XCircle } from 'lucide-react'
 import Link from 'next/link'
-import { sendTransfer, receiveTransfer, cancelTransfer } from '@/lib/actions/transfers'
+import { sendTransfer, cancelTransfer } from '@/lib/actions/transfers'
 import { useTranslation } from '@/lib/i18n'
 import type { Transfer } from '@/types'
 
@@ -28,9 +28,7 @@ export function TransferActions({ transfer }: TransferActionsProps) {
   const router = useRouter()
   const { t } = useTranslation()
   const [isSendDialogOpen, setIsSendDialogOpen] = useState(false)
-  const [isReceiveDialogOpen, setIsReceiveDialogOpen] = useState(false)
   const [sendDate, setSendDate] = useState(new Date().toISOString().split('T')[0])
-  const [receiveDate, setReceiveDate] = useState(new Date().toISOString().split('T')[0])
   const [isProcessing, setIsProcessing] = useState(false)
 
   const handleSend = async () => {
@@ -46,19 +44,6 @@ export function TransferActions({ transfer }: TransferActionsProps) {
     }
   }
 
-  const handleReceive = async () => {
-    setIsProcessing(true)
-    const result = await receiveTransfer(transfer.id, receiveDate)
-    setIsProcessing(false)
-    if (result.error) {
-      toast.error(result.error)
-    } else {
-      toast.success(t('toast.transferReceived'))
-      setIsReceiveDialogOpen(false)
-      router.refresh()
-    }
-  }
-
   const handleCancel = async () => {
     if (!confirm(t('transfers.confirmCancel'))) return
     const result = await cancelTransfer(transfer.id)
@@ -92,10 +77,12 @@ export function TransferActions({ transfer }: TransferActionsProps) {
       )}
 
       {transfer.status === 'confirmed' && (
-        <Button onClick={() => setIsReceiveDialogOpen(true)}>
-          <CheckCircle className="mr-2 h-4 w-4" />
-          {t('transfers.receiveTransfer')}
-        </Button>
+        <Link href={`/transfers/${transfer.id}/receive`}>
+          <Button>
+            <CheckCircle className="mr-2 h-4 w-4" />
+            {t('transfers.receiveTransfer')}
+          </Button>
+        </Link>
       )}
 
       {/* Send Dialog */}
@@ -129,38 +116,6 @@ export function TransferActions({ transfer }: TransferActionsProps) {
           </DialogFooter>
         </DialogContent>
       </Dialog>
-
-      {/* Receive Dialog */}
-      <Dialog open={isReceiveDialogOpen} onOpenChange={setIsReceiveDialogOpen}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>{t('transfers.confirmReceiveTitle')}</DialogTitle>
-            <DialogDescription>
-              {t('transfers.confirmReceiveDescription')}
-            </DialogDescription>
-          </DialogHeader>
-          <div className="space-y-4 py-4">
-            <div className="space-y-2">
-              <Label htmlFor="receive_date">{t('transfers.receiveDate')}</Label>
-              <Input
-                id="receive_date"
-                type="date"
-                value={receiveDate}
-                onChange={(e) => setReceiveDate(e.target.value)}
-              />
-            </div>
-          </div>
-          <DialogFooter>
-            <Button variant="outline" onClick={() => setIsReceiveDialogOpen(false)}>
-              {t('common.cancel')}
-            </Button>
-            <Button onClick={handleReceive} disabled={isProcessing}>
-              <CheckCircle className="mr-2 h-4 w-4" />
-              {isProcessing ? t('common.loading') : t('transfers.receiveTransfer')}
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
     </>
   )
 }
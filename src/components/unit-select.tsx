@@ -0,0 +1,56 @@
+'use client'
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useTranslation } from '@/lib/i18n'
+import { getProductUnits } from '@/lib/uom-utils'
+import type { Product } from '@/types'
+
+const BASE_UNIT = 'base'
+
+interface UnitSelectProps {
+  product?: Product
+  // Unit name, or empty for base units
+  value: string | null | undefined
+  onChange: (value: string | null) => void
+  className?: string
+}
+
+/**
+ * Choose between a product's base unit and its alternate units.
+ * Products without alternate units just show the base unit.
+ */
+export function UnitSelect({ product, value, onChange, className = 'w-28' }: UnitSelectProps) {
+  const { t } = useTranslation()
+
+  if (!product) return <span className="text-gray-400 text-sm">-</span>
+
+  const units = getProductUnits(product)
+  if (units.length === 0) {
+    return <span className="text-sm">{t(`uom.${product.base_uom}`)}</span>
+  }
+
+  return (
+    <Select
+      value={value || BASE_UNIT}
+      onValueChange={(unit) => onChange(unit === BASE_UNIT ? null : unit)}
+    >
+      <SelectTrigger className={className}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={BASE_UNIT}>{t(`uom.${product.base_uom}`)}</SelectItem>
+        {units.map((unit) => (
+          <SelectItem key={unit.name} value={unit.name}>
+            {unit.name} ({Number(unit.factor)} {t(`uom.${product.base_uom}`)})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
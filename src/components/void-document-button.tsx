@@ -0,0 +1,106 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Ban } from 'lucide-react'
+import { toast } from 'sonner'
+import { useTranslation } from '@/lib/i18n'
+import { formatDate } from '@/lib/utils'
+
+interface VoidDocumentButtonProps {
+  onVoid: (reason: string) => Promise<{ error?: string; success?: boolean }>
+  size?: 'default' | 'sm'
+}
+
+export function VoidDocumentButton({ onVoid, size = 'default' }: VoidDocumentButtonProps) {
+  const router = useRouter()
+  const { t } = useTranslation()
+  const [open, setOpen] = useState(false)
+  const [reason, setReason] = useState('')
+  const [isProcessing, setIsProcessing] = useState(false)
+
+  const handleVoid = async () => {
+    setIsProcessing(true)
+    const result = await onVoid(reason)
+    setIsProcessing(false)
+    if (result.error) {
+      toast.error(result.error)
+    } else {
+      toast.success(t('toast.documentVoided'))
+      setOpen(false)
+      setReason('')
+      router.refresh()
+    }
+  }
+
+  return (
+    <>
+      <Button variant="outline" size={size} onClick={() => setOpen(true)}>
+        <Ban className="mr-2 h-4 w-4" />
+        {t('void.void')}
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('void.title')}</DialogTitle>
+            <DialogDescription>{t('void.description')}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            <Label htmlFor="void_reason">{t('void.reason')}</Label>
+            <Textarea
+              id="void_reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={t('void.reasonPlaceholder')}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              {t('common.cancel')}
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleVoid}
+              disabled={isProcessing || !reason.trim()}
+            >
+              <Ban className="mr-2 h-4 w-4" />
+              {isProcessing ? t('common.loading') : t('void.void')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
+
+interface VoidedNoticeProps {
+  voidedAt: string | null
+  reason: string | null
+}
+
+export function VoidedNotice({ voidedAt, reason }: VoidedNoticeProps) {
+  const { t, locale } = useTranslation()
+
+  return (
+    <Alert variant="destructive">
+      <Ban className="h-4 w-4" />
+      <AlertTitle>
+        {voidedAt ? t('void.voidedOn', { date: formatDate(voidedAt, locale) }) : t('common.voided')}
+      </AlertTitle>
+      {reason && <AlertDescription>{reason}</AlertDescription>}
+    </Alert>
+  )
+}
@@ -15,6 +15,9 @@ import {
   RotateCcw,
   ClipboardCheck,
   Undo2,
+  Boxes,
+  ScanBarcode,
+  Receipt,
   LucideIcon,
 } from 'lucide-react'
 import type { UserRole } from '@/types'
@@ -61,6 +64,13 @@ export const navigationGroups: NavGroup[] = [
         icon: ClipboardList,
         roles: ['admin', 'manager', 'staff', 'readonly']
       },
+      {
+        name: 'Serial Numbers',
+        nameKey: 'nav.serials',
+        href: '/serials',
+        icon: ScanBarcode,
+        roles: ['admin', 'manager', 'staff', 'readonly']
+      },
       {
         name: 'Adjustments',
         nameKey: 'nav.adjustments',
@@ -68,6 +78,13 @@ export const navigationGroups: NavGroup[] = [
         icon: RotateCcw,
         roles: ['admin', 'manager']
       },
+      {
+        name: 'Assemblies',
+        nameKey: 'nav.assemblies',
+        href: '/assemblies',
+        icon: Boxes,
+        roles: ['admin', 'manager']
+      },
       {
         name: 'Cycle Counts',
         nameKey: 'nav.cycleCounts',
@@ -89,6 +106,13 @@ export const navigationGroups: NavGroup[] = [
         icon: ShoppingCart,
         roles: ['admin', 'manager', 'staff']
       },
+      {
+        name: 'Supplier Invoices',
+        nameKey: 'nav.supplierInvoices',
+        href: '/supplier-invoices',
+        icon: Receipt,
+        roles: ['admin', 'manager']
+      },
       {
         name: 'Shipments',
         nameKey: 'nav.shipments',
@@ -4,6 +4,8 @@ import { revalidatePath } from 'next/cache'
 import { createClient } from '@/lib/supabase/server'
 import { adjustmentSchema, type AdjustmentFormData } from '@/lib/validations/adjustment'
 import { createAuditLog } from '@/lib/audit'
+import { checkPostingDate } from '@/lib/actions/periods'
+import { convertUnitQuantities } from '@/lib/actions/stock'
 
 export async function createAdjustment(formData: AdjustmentFormData) {
   const supabase = await createClient()
@@ -24,13 +26,19 @@ export async function createAdjustment(formData: AdjustmentFormData) {
 
   if (!userData) return { error: { _form: ['User not found'] } }
 
-  // Generate adjustment number
-  const { count } = await supabase
-    .from('adjustments')
-    .select('*', { count: 'exact', head: true })
-    .eq('tenant_id', userData.tenant_id)
+  // Quantities entered in alternate units are stored in base units
+  const { data: quantities, error: qtyError } = await convertUnitQuantities(validated.data.lines)
+  if (qtyError || !quantities) return { error: { _form: [qtyError || 'Invalid quantities'] } }
+
+  // Allocate adjustment number from the tenant's document sequence
+  const { data: adjNumber, error: numberError } = await supabase.rpc('next_doc_number', {
+    p_tenant_id: userData.tenant_id,
+    p_doc_type: 'adjustment',
+  })
 
-  const adjNumber = `ADJ-${String((count || 0) + 1).padStart(6, '0')}`
+  if (numberError) {
+    return { error: { _form: [numberError.message] } }
+  }
 
   const { data: adjustment, error: adjError } = await supabase
     .from('adjustments')
@@ -50,10 +58,12 @@ export async function createAdjustment(formData: AdjustmentFormData) {
     return { error: { _form: [adjError.message] } }
   }
 
-  const lines = validated.data.lines.map((line) => ({
+  const lines = validated.data.lines.map((line, index) => ({
     adjustment_id: adjustment.id,
     product_id: line.product_id,
-    qty: line.qty,
+    qty: quantities[index].qty,
+    entered_qty: quantities[index].entered_qty,
+    entered_uom: quantities[index].entered_uom,
     lot_number: line.lot_number || null,
     expiry_date: line.expiry_date || null,
     unit_cost: line.unit_cost || null,
@@ -101,6 +111,9 @@ export async function updateAdjustment(id: string, formData: AdjustmentFormData)
   if (!adjustment) return { error: { _form: ['Adjustment not found'] } }
   if (adjustment.status !== 'draft') return { error: { _form: ['Can only edit draft adjustments'] } }
 
+  const { data: quantities, error: qtyError } = await convertUnitQuantities(validated.data.lines)
+  if (qtyError || !quantities) return { error: { _form: [qtyError || 'Invalid quantities'] } }
+
   const { error: updateError } = await supabase
     .from('adjustments')
     .update({
@@ -114,10 +127,12 @@ export async function updateAdjustment(id: string, formData: AdjustmentFormData)
 
   await supabase.from('adjustment_lines').delete().eq('adjustment_id', id)
 
-  const lines = validated.data.lines.map((line) => ({
+  const lines = validated.data.lines.map((line, index) => ({
     adjustment_id: id,
     product_id: line.product_id,
-    qty: line.qty,
+    qty: quantities[index].qty,
+    entered_qty: quantities[index].entered_qty,
+    entered_uom: quantities[index].entered_uom,
     lot_number: line.lot_number || null,
     expiry_date: line.expiry_date || null,
     unit_cost: line.unit_cost || null,
@@ -149,114 +164,29 @@ export async function postAdjustment(id: string) {
   const { data: { user } } = await supabase.auth.getUser()
   if (!user) return { error: 'Not authenticated' }
 
-  const { data: userData, error: userError } = await supabase
-    .from('users')
-    .select('tenant_id')
-    .eq('id', user.id)
-    .single()
-
-  if (userError || !userData?.tenant_id) {
-    console.error('Failed to get user tenant:', userError)
-    return { error: 'Failed to get user data' }
-  }
-
   const { data: adjustment } = await supabase
     .from('adjustments')
-    .select('*, adjustment_number, lines:adjustment_lines(*, product:products(id, sku, name))')
+    .select('status, adjustment_number, reason')
     .eq('id', id)
     .single()
 
   if (!adjustment) return { error: 'Adjustment not found' }
   if (adjustment.status !== 'draft') return { error: 'Can only post draft adjustments' }
 
-  const adjustedItems: { product_id: string; qty: number }[] = []
-
-  for (const line of adjustment.lines || []) {
-    // Get current balance to determine cost
-    const { data: balance } = await supabase
-      .from('inventory_balances')
-      .select('id, qty_on_hand, avg_cost')
-      .eq('product_id', line.product_id)
-      .eq('location_id', adjustment.location_id)
-      .maybeSingle()
-
-    // Use user-provided unit_cost if available, otherwise fall back to balance avg_cost
-    const unitCost = line.unit_cost ?? balance?.avg_cost ?? 0
-    adjustedItems.push({ product_id: line.product_id, qty: line.qty })
-
-    if (line.qty > 0) {
-      // Positive adjustment - add stock
-      if (balance) {
-        const newQty = balance.qty_on_hand + line.qty
-        await supabase
-          .from('inventory_balances')
-          .update({
-            qty_on_hand: newQty,
-            inventory_value: newQty * unitCost,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', balance.id)
-      } else {
-        await supabase.from('inventory_balances').insert({
-          tenant_id: userData.tenant_id,
-          product_id: line.product_id,
-          location_id: adjustment.location_id,
-          lot_number: line.lot_number || null,
-          expiry_date: line.expiry_date || null,
-          qty_on_hand: line.qty,
-          avg_cost: 0,
-          inventory_value: 0,
-        })
-      }
-    } else {
-      // Negative adjustment - remove stock
-      if (!balance || balance.qty_on_hand < Math.abs(line.qty)) {
-        return { error: `Insufficient stock for ${line.product?.sku || 'product'}` }
-      }
-
-      const newQty = balance.qty_on_hand + line.qty // line.qty is negative
-      await supabase
-        .from('inventory_balances')
-        .update({
-          qty_on_hand: newQty,
-          inventory_value: newQty * unitCost,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', balance.id)
-    }
-
-    // Update line with cost
-    await supabase
-      .from('adjustment_lines')
-      .update({ unit_cost: unitCost })
-      .eq('id', line.id)
-
-    // Record stock movement (extended_cost is a generated column, don't insert it)
-    const { error: movementError } = await supabase.from('stock_movements').insert({
-      tenant_id: userData.tenant_id,
-      product_id: line.product_id,
-      location_id: adjustment.location_id,
-      qty: line.qty,
-      movement_type: 'adjustment',
-      reference_type: 'adjustment',
-      reference_id: id,
-      lot_number: line.lot_number || null,
-      expiry_date: line.expiry_date || null,
-      unit_cost: unitCost,
-      reason: adjustment.reason,
-      created_by: user.id,
-    })
+  // Lock check and movements use the same date
+  const postingDate = new Date().toISOString().split('T')[0]
+  const periodError = await checkPostingDate(postingDate)
+  if (periodError) return { error: periodError }
 
-    if (movementError) {
-      console.error('Failed to create stock movement:', movementError)
-      return { error: `Failed to record stock movement: ${movementError.message}` }
-    }
-  }
+  // Balances, line costs, movements and status update in a single transaction
+  const { data, error } = await supabase.rpc('post_adjustment', {
+    p_adjustment_id: id,
+    p_adjustment_date: postingDate,
+  })
 
-  await supabase
-    .from('adjustments')
-    .update({ status: 'completed' })
-    .eq('id', id)
+  if (error) return { error: error.message }
+
+  const adjustedItems = (data || []) as { product_id: string; qty: number }[]
 
   // Audit log
   await createAuditLog({
@@ -305,3 +235,52 @@ export async function cancelAdjustment(id: string) {
   revalidatePath('/adjustments')
   return { success: true }
 }
+
+export async function voidAdjustment(id: string, reason: string) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: 'Not authenticated' }
+
+  const { data: adjustment } = await supabase
+    .from('adjustments')
+    .select('status, adjustment_number')
+    .eq('id', id)
+    .single()
+
+  if (!adjustment) return { error: 'Adjustment not found' }
+  if (adjustment.status !== 'completed') return { error: 'Can only void completed adjustments' }
+  if (!reason.trim()) return { error: 'A void reason is required' }
+
+  const periodError = await checkPostingDate()
+  if (periodError) return { error: periodError }
+
+  // Reversing movements, balances, costs and status update in a single transaction
+  const { data, error } = await supabase.rpc('void_adjustment', {
+    p_adjustment_id: id,
+    p_reason: reason.trim(),
+  })
+
+  if (error) return { error: error.message }
+
+  const reversedItems = (data || []) as { product_id: string; qty: number }[]
+
+  // Audit log
+  await createAuditLog({
+    action: 'void',
+    resourceType: 'adjustment',
+    resourceId: id,
+    resourceName: adjustment.adjustment_number,
+    oldValues: { status: 'completed' },
+    newValues: { status: 'voided', void_reason: reason.trim(), reversed_items: reversedItems },
+    notes: `Voided: ${reason.trim()}`,
+  })
+
+  revalidatePath('/adjustments')
+  revalidatePath(`/adjustments/${id}`)
+  revalidatePath('/stock')
+  revalidatePath('/shipments/new')
+  revalidatePath('/transfers/new')
+  revalidatePath('/returns/new')
+  return { success: true }
+}
@@ -0,0 +1,337 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { createClient } from '@/lib/supabase/server'
+import { assemblySchema, type AssemblyFormData } from '@/lib/validations/assembly'
+import { createAuditLog } from '@/lib/audit'
+import { allocateFefoLines } from '@/lib/actions/stock'
+import { checkPostingDate } from '@/lib/actions/periods'
+
+export async function createAssembly(formData: AssemblyFormData) {
+  const supabase = await createClient()
+
+  const validated = assemblySchema.safeParse(formData)
+  if (!validated.success) {
+    return { error: validated.error.flatten().fieldErrors }
+  }
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: { _form: ['Not authenticated'] } }
+
+  const { data: userData } = await supabase
+    .from('users')
+    .select('tenant_id')
+    .eq('id', user.id)
+    .single()
+
+  if (!userData) return { error: { _form: ['User not found'] } }
+
+  const { data: componentLines, error: componentsError } = await buildComponentLines(validated.data)
+  if (componentsError || !componentLines) {
+    return { error: { _form: [componentsError || 'Failed to build component lines'] } }
+  }
+
+  // Allocate assembly number from the tenant's document sequence
+  const { data: assemblyNumber, error: numberError } = await supabase.rpc('next_doc_number', {
+    p_tenant_id: userData.tenant_id,
+    p_doc_type: 'assembly',
+  })
+
+  if (numberError) {
+    return { error: { _form: [numberError.message] } }
+  }
+
+  const { data: assembly, error: assemblyError } = await supabase
+    .from('assemblies')
+    .insert({
+      tenant_id: userData.tenant_id,
+      assembly_number: assemblyNumber,
+      assembly_type: validated.data.assembly_type,
+      product_id: validated.data.product_id,
+      location_id: validated.data.location_id,
+      qty: validated.data.qty,
+      lot_number: validated.data.lot_number || null,
+      expiry_date: validated.data.expiry_date || null,
+      notes: validated.data.notes || null,
+      created_by: user.id,
+      status: 'draft',
+    })
+    .select()
+    .single()
+
+  if (assemblyError) {
+    return { error: { _form: [assemblyError.message] } }
+  }
+
+  const lines = componentLines.map((line) => ({
+    assembly_id: assembly.id,
+    product_id: line.product_id,
+    qty: line.qty,
+    lot_number: line.lot_number,
+    expiry_date: line.expiry_date,
+  }))
+
+  const { error: linesError } = await supabase.from('assembly_lines').insert(lines)
+
+  if (linesError) {
+    await supabase.from('assemblies').delete().eq('id', assembly.id)
+    return { error: { _form: [linesError.message] } }
+  }
+
+  // Audit log
+  await createAuditLog({
+    action: 'create',
+    resourceType: 'assembly',
+    resourceId: assembly.id,
+    resourceName: assemblyNumber,
+    newValues: {
+      assembly_number: assemblyNumber,
+      assembly_type: validated.data.assembly_type,
+      product_id: validated.data.product_id,
+      location_id: validated.data.location_id,
+      qty: validated.data.qty,
+      lines_count: lines.length,
+    },
+  })
+
+  revalidatePath('/assemblies')
+  return { success: true, id: assembly.id }
+}
+
+export async function updateAssembly(id: string, formData: AssemblyFormData) {
+  const supabase = await createClient()
+
+  const validated = assemblySchema.safeParse(formData)
+  if (!validated.success) {
+    return { error: validated.error.flatten().fieldErrors }
+  }
+
+  const { data: assembly } = await supabase
+    .from('assemblies')
+    .select('status, assembly_number')
+    .eq('id', id)
+    .single()
+
+  if (!assembly) return { error: { _form: ['Assembly not found'] } }
+  if (assembly.status !== 'draft') return { error: { _form: ['Can only edit draft assemblies'] } }
+
+  const { data: componentLines, error: componentsError } = await buildComponentLines(validated.data)
+  if (componentsError || !componentLines) {
+    return { error: { _form: [componentsError || 'Failed to build component lines'] } }
+  }
+
+  const { error: updateError } = await supabase
+    .from('assemblies')
+    .update({
+      assembly_type: validated.data.assembly_type,
+      product_id: validated.data.product_id,
+      location_id: validated.data.location_id,
+      qty: validated.data.qty,
+      lot_number: validated.data.lot_number || null,
+      expiry_date: validated.data.expiry_date || null,
+      notes: validated.data.notes || null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+
+  if (updateError) return { error: { _form: [updateError.message] } }
+
+  await supabase.from('assembly_lines').delete().eq('assembly_id', id)
+
+  const lines = componentLines.map((line) => ({
+    assembly_id: id,
+    product_id: line.product_id,
+    qty: line.qty,
+    lot_number: line.lot_number,
+    expiry_date: line.expiry_date,
+  }))
+
+  const { error: linesError } = await supabase.from('assembly_lines').insert(lines)
+  if (linesError) return { error: { _form: [linesError.message] } }
+
+  await createAuditLog({
+    action: 'update',
+    resourceType: 'assembly',
+    resourceId: id,
+    resourceName: assembly.assembly_number,
+    newValues: {
+      assembly_type: validated.data.assembly_type,
+      product_id: validated.data.product_id,
+      location_id: validated.data.location_id,
+      qty: validated.data.qty,
+      lines_count: lines.length,
+    },
+  })
+
+  revalidatePath('/assemblies')
+  revalidatePath(`/assemblies/${id}`)
+  return { success: true }
+}
+
+export async function postAssembly(id: string) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: 'Not authenticated' }
+
+  const { data: assembly } = await supabase
+    .from('assemblies')
+    .select('status, assembly_number, assembly_type')
+    .eq('id', id)
+    .single()
+
+  if (!assembly) return { error: 'Assembly not found' }
+  if (assembly.status !== 'draft') return { error: 'Can only post draft assemblies' }
+
+  // Lock check and movements use the same date
+  const postingDate = new Date().toISOString().split('T')[0]
+  const periodError = await checkPostingDate(postingDate)
+  if (periodError) return { error: periodError }
+
+  // Component and finished item movements, costs and status update in a single transaction
+  const { data, error } = await supabase.rpc('post_assembly', {
+    p_assembly_id: id,
+    p_assembly_date: postingDate,
+  })
+
+  if (error) return { error: error.message }
+
+  const movedItems = (data || []) as { product_id: string; qty: number }[]
+
+  // Audit log
+  await createAuditLog({
+    action: 'update',
+    resourceType: 'assembly',
+    resourceId: id,
+    resourceName: assembly.assembly_number,
+    oldValues: { status: 'draft' },
+    newValues: { status: 'completed', moved_items: movedItems },
+    notes: `Posted ${assembly.assembly_type} with ${movedItems.length} movement(s)`,
+  })
+
+  revalidatePath('/assemblies')
+  revalidatePath(`/assemblies/${id}`)
+  revalidatePath('/stock')
+  revalidatePath('/shipments/new')
+  revalidatePath('/transfers/new')
+  revalidatePath('/returns/new')
+  return { success: true }
+}
+
+export async function cancelAssembly(id: string) {
+  const supabase = await createClient()
+
+  const { data: assembly } = await supabase
+    .from('assemblies')
+    .select('status, assembly_number')
+    .eq('id', id)
+    .single()
+
+  if (!assembly) return { error: 'Assembly not found' }
+  if (assembly.status !== 'draft') return { error: 'Can only cancel draft assemblies' }
+
+  await supabase
+    .from('assemblies')
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+    .eq('id', id)
+
+  // Audit log
+  await createAuditLog({
+    action: 'cancel',
+    resourceType: 'assembly',
+    resourceId: id,
+    resourceName: assembly.assembly_number,
+    oldValues: { status: assembly.status },
+    newValues: { status: 'cancelled' },
+  })
+
+  revalidatePath('/assemblies')
+  return { success: true }
+}
+
+export async function voidAssembly(id: string, reason: string) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: 'Not authenticated' }
+
+  const { data: assembly } = await supabase
+    .from('assemblies')
+    .select('status, assembly_number')
+    .eq('id', id)
+    .single()
+
+  if (!assembly) return { error: 'Assembly not found' }
+  if (assembly.status !== 'completed') return { error: 'Can only void completed assemblies' }
+  if (!reason.trim()) return { error: 'A void reason is required' }
+
+  const periodError = await checkPostingDate()
+  if (periodError) return { error: periodError }
+
+  // Reversing movements, balances, costs and status update in a single transaction
+  const { data, error } = await supabase.rpc('void_assembly', {
+    p_assembly_id: id,
+    p_reason: reason.trim(),
+  })
+
+  if (error) return { error: error.message }
+
+  const reversedItems = (data || []) as { product_id: string; qty: number }[]
+
+  // Audit log
+  await createAuditLog({
+    action: 'void',
+    resourceType: 'assembly',
+    resourceId: id,
+    resourceName: assembly.assembly_number,
+    oldValues: { status: 'completed' },
+    newValues: { status: 'voided', void_reason: reason.trim(), reversed_items: reversedItems },
+    notes: `Voided: ${reason.trim()}`,
+  })
+
+  revalidatePath('/assemblies')
+  revalidatePath(`/assemblies/${id}`)
+  revalidatePath('/stock')
+  revalidatePath('/shipments/new')
+  revalidatePath('/transfers/new')
+  revalidatePath('/returns/new')
+  return { success: true }
+}
+
+interface ComponentLine {
+  product_id: string
+  qty: number
+  lot_number: string | null
+  expiry_date: string | null
+  auto_allocate?: boolean
+}
+
+// Component quantities from the product's bill of materials. Components an
+// assembly consumes are split across lots FEFO; a disassembly puts them back
+// without a lot.
+async function buildComponentLines(
+  data: AssemblyFormData
+): Promise<{ data: ComponentLine[] | null; error: string | null }> {
+  const supabase = await createClient()
+
+  const { data: bom, error } = await supabase
+    .from('bom_lines')
+    .select('component_id, qty')
+    .eq('product_id', data.product_id)
+    .order('created_at')
+
+  if (error) return { data: null, error: error.message }
+  if (!bom || bom.length === 0) return { data: null, error: 'Product has no bill of materials' }
+
+  const lines: ComponentLine[] = bom.map((line) => ({
+    product_id: line.component_id,
+    qty: Math.round(line.qty * data.qty * 10000) / 10000,
+    lot_number: null,
+    expiry_date: null,
+    auto_allocate: data.assembly_type === 'assembly',
+  }))
+
+  if (data.assembly_type === 'disassembly') return { data: lines, error: null }
+
+  return allocateFefoLines(data.location_id, lines)
+}
@@ -0,0 +1,60 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { createClient } from '@/lib/supabase/server'
+import { binMoveSchema, type BinMoveFormData } from '@/lib/validations/location'
+import { createAuditLog } from '@/lib/audit'
+import { toSerialNumbers } from '@/lib/serial-utils'
+import { checkPostingDate } from '@/lib/actions/periods'
+
+export async function moveBinStock(formData: BinMoveFormData) {
+  const supabase = await createClient()
+
+  const validated = binMoveSchema.safeParse(formData)
+  if (!validated.success) {
+    return { error: validated.error.flatten().fieldErrors }
+  }
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: { _form: ['Not authenticated'] } }
+
+  // Lock check and movements use the same date
+  const postingDate = new Date().toISOString().split('T')[0]
+  const periodError = await checkPostingDate(postingDate)
+  if (periodError) return { error: { _form: [periodError] } }
+
+  // Both legs, their cost and the serials' new bin post in a single transaction
+  const { data: moveId, error } = await supabase.rpc('move_bin_stock', {
+    p_product_id: validated.data.product_id,
+    p_from_location_id: validated.data.from_location_id,
+    p_to_location_id: validated.data.to_location_id,
+    p_qty: validated.data.qty,
+    p_lot_number: validated.data.lot_number?.trim() || null,
+    p_expiry_date: validated.data.expiry_date?.trim() || null,
+    p_serial_numbers: toSerialNumbers(validated.data.serial_numbers),
+    p_notes: validated.data.notes || null,
+    p_move_date: postingDate,
+  })
+
+  if (error) return { error: { _form: [error.message] } }
+
+  const { data: locations } = await supabase
+    .from('locations')
+    .select('id, name')
+    .in('id', [validated.data.from_location_id, validated.data.to_location_id])
+
+  const locationName = (id: string) => locations?.find((location) => location.id === id)?.name
+
+  // Audit log
+  await createAuditLog({
+    action: 'transfer',
+    resourceType: 'bin_move',
+    resourceId: moveId as string,
+    resourceName: `${locationName(validated.data.from_location_id)} → ${locationName(validated.data.to_location_id)}`,
+    newValues: validated.data,
+  })
+
+  revalidatePath('/stock')
+  revalidatePath('/shipments/new')
+  return { success: true, id: moveId as string }
+}
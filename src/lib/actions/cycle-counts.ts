@@ -10,6 +10,9 @@ import {
 } from '@/lib/validations/cycle-count'
 import { createAuditLog } from '@/lib/audit'
 import { deleteEntityDocuments } from '@/lib/actions/documents'
+import { toSerialNumbers } from '@/lib/serial-utils'
+import { checkPostingDate } from '@/lib/actions/periods'
+import { convertUnitQuantities } from '@/lib/actions/stock'
 
 export async function createCycleCount(formData: CycleCountFormData) {
   const supabase = await createClient()
@@ -30,13 +33,15 @@ export async function createCycleCount(formData: CycleCountFormData) {
 
   if (!userData) return { error: { _form: ['User not found'] } }
 
-  // Generate count number
-  const { count } = await supabase
-    .from('cycle_counts')
-    .select('*', { count: 'exact', head: true })
-    .eq('tenant_id', userData.tenant_id)
+  // Allocate count number from the tenant's document sequence
+  const { data: countNumber, error: numberError } = await supabase.rpc('next_doc_number', {
+    p_tenant_id: userData.tenant_id,
+    p_doc_type: 'cycle_count',
+  })
 
-  const countNumber = `CNT-${String((count || 0) + 1).padStart(6, '0')}`
+  if (numberError) {
+    return { error: { _form: [numberError.message] } }
+  }
 
   // Get current system quantities for each product at this location
   const productIds = validated.data.lines.map(l => l.product_id)
@@ -206,10 +211,30 @@ export async function updateCountedQty(countId: string, formData: CountEntryForm
   if (!cycleCount) return { error: 'Cycle count not found' }
   if (cycleCount.status !== 'draft') return { error: 'Can only update draft counts' }
 
-  for (const line of validated.data.lines) {
+  const { data: countLines } = await supabase
+    .from('cycle_count_lines')
+    .select('id, product_id')
+    .eq('count_id', countId)
+
+  const productIds = new Map(countLines?.map((line) => [line.id, line.product_id]) || [])
+  const enteredLines = validated.data.lines.flatMap((line) => {
+    const productId = productIds.get(line.line_id)
+    return productId ? [{ ...line, product_id: productId, qty: line.counted_qty }] : []
+  })
+
+  // Quantities counted in alternate units are stored in base units
+  const { data: quantities, error: qtyError } = await convertUnitQuantities(enteredLines)
+  if (qtyError || !quantities) return { error: qtyError || 'Invalid quantities' }
+
+  for (const [index, line] of enteredLines.entries()) {
     await supabase
       .from('cycle_count_lines')
-      .update({ counted_qty: line.counted_qty })
+      .update({
+        counted_qty: quantities[index].qty,
+        entered_qty: quantities[index].entered_qty,
+        entered_uom: quantities[index].entered_uom,
+        serial_numbers: toSerialNumbers(line.serial_numbers),
+      })
       .eq('id', line.line_id)
   }
 
@@ -233,15 +258,9 @@ export async function postCycleCount(id: string) {
   const { data: { user } } = await supabase.auth.getUser()
   if (!user) return { error: 'Not authenticated' }
 
-  const { data: userData } = await supabase
-    .from('users')
-    .select('tenant_id')
-    .eq('id', user.id)
-    .single()
-
   const { data: cycleCount } = await supabase
     .from('cycle_counts')
-    .select('*, count_number, lines:cycle_count_lines(*, product:products(id, sku, name))')
+    .select('status, count_number, count_date, lines:cycle_count_lines(counted_qty)')
     .eq('id', id)
     .single()
 
@@ -254,87 +273,17 @@ export async function postCycleCount(id: string) {
     return { error: 'All lines must be counted before posting' }
   }
 
-  const countedItems: { product_id: string; system_qty: number; counted_qty: number; variance: number }[] = []
-
-  // Create adjustments for variances
-  for (const line of cycleCount.lines || []) {
-    const variance = (line.counted_qty || 0) - line.system_qty
-    countedItems.push({
-      product_id: line.product_id,
-      system_qty: line.system_qty,
-      counted_qty: line.counted_qty || 0,
-      variance,
-    })
-
-    if (variance === 0) continue
+  const periodError = await checkPostingDate(cycleCount.count_date)
+  if (periodError) return { error: periodError }
 
-    // Get current balance for cost - must match lot_number and expiry_date
-    let balanceQuery = supabase
-      .from('inventory_balances')
-      .select('id, qty_on_hand, avg_cost')
-      .eq('product_id', line.product_id)
-      .eq('location_id', cycleCount.location_id)
-
-    // Handle null lot_number and expiry_date properly
-    if (line.lot_number) {
-      balanceQuery = balanceQuery.eq('lot_number', line.lot_number)
-    } else {
-      balanceQuery = balanceQuery.is('lot_number', null)
-    }
-
-    if (line.expiry_date) {
-      balanceQuery = balanceQuery.eq('expiry_date', line.expiry_date)
-    } else {
-      balanceQuery = balanceQuery.is('expiry_date', null)
-    }
-
-    const { data: balance } = await balanceQuery.maybeSingle()
-
-    const unitCost = balance?.avg_cost || 0
-
-    if (balance) {
-      // Update existing balance
-      await supabase
-        .from('inventory_balances')
-        .update({
-          qty_on_hand: line.counted_qty,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', balance.id)
-    } else if (line.counted_qty > 0) {
-      // Create new balance
-      await supabase.from('inventory_balances').insert({
-        tenant_id: userData?.tenant_id,
-        product_id: line.product_id,
-        location_id: cycleCount.location_id,
-        lot_number: line.lot_number || null,
-        expiry_date: line.expiry_date || null,
-        qty_on_hand: line.counted_qty,
-        avg_cost: 0,
-      })
-    }
+  // Variances are measured against the balance at posting time, in a single transaction
+  const { data, error } = await supabase.rpc('post_cycle_count', {
+    p_count_id: id,
+  })
 
-    // Record stock movement
-    await supabase.from('stock_movements').insert({
-      tenant_id: userData?.tenant_id,
-      product_id: line.product_id,
-      location_id: cycleCount.location_id,
-      qty: variance,
-      movement_type: 'count_variance',
-      reference_type: 'cycle_count',
-      reference_id: id,
-      lot_number: line.lot_number || null,
-      expiry_date: line.expiry_date || null,
-      unit_cost: unitCost,
-      reason: 'count_variance',
-      created_by: user.id,
-    })
-  }
+  if (error) return { error: error.message }
 
-  await supabase
-    .from('cycle_counts')
-    .update({ status: 'completed' })
-    .eq('id', id)
+  const countedItems = (data || []) as { product_id: string; system_qty: number; counted_qty: number; variance: number }[]
 
   // Audit log
   const totalVariance = countedItems.reduce((sum, item) => sum + Math.abs(item.variance), 0)
@@ -387,6 +336,55 @@ export async function cancelCycleCount(id: string) {
   return { success: true }
 }
 
+export async function voidCycleCount(id: string, reason: string) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: 'Not authenticated' }
+
+  const { data: cycleCount } = await supabase
+    .from('cycle_counts')
+    .select('status, count_number')
+    .eq('id', id)
+    .single()
+
+  if (!cycleCount) return { error: 'Cycle count not found' }
+  if (cycleCount.status !== 'completed') return { error: 'Can only void completed counts' }
+  if (!reason.trim()) return { error: 'A void reason is required' }
+
+  const periodError = await checkPostingDate()
+  if (periodError) return { error: periodError }
+
+  // Reversing movements, balances, costs and status update in a single transaction
+  const { data, error } = await supabase.rpc('void_cycle_count', {
+    p_count_id: id,
+    p_reason: reason.trim(),
+  })
+
+  if (error) return { error: error.message }
+
+  const reversedItems = (data || []) as { product_id: string; qty: number }[]
+
+  // Audit log
+  await createAuditLog({
+    action: 'void',
+    resourceType: 'cycle_count',
+    resourceId: id,
+    resourceName: cycleCount.count_number,
+    oldValues: { status: 'completed' },
+    newValues: { status: 'voided', void_reason: reason.trim(), reversed_items: reversedItems },
+    notes: `Voided: ${reason.trim()}`,
+  })
+
+  revalidatePath('/cycle-counts')
+  revalidatePath(`/cycle-counts/${id}`)
+  revalidatePath('/stock')
+  revalidatePath('/shipments/new')
+  revalidatePath('/transfers/new')
+  revalidatePath('/returns/new')
+  return { success: true }
+}
+
 export async function deleteCycleCount(id: string) {
   const supabase = await createClient()
 
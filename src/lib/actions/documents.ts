@@ -4,7 +4,12 @@ import { revalidatePath } from 'next/cache'
 import { createClient } from '@/lib/supabase/server'
 import { createAuditLog } from '@/lib/audit'
 import type { DocumentEntityType } from '@/types'
-import { ALLOWED_MIME_TYPES, MAX_FILE_SIZE, MAX_FILES_PER_ENTITY } from '@/lib/validations/document'
+import {
+  ALLOWED_MIME_TYPES,
+  MAX_FILE_SIZE,
+  MAX_FILES_PER_ENTITY,
+  sanitizeFileName,
+} from '@/lib/validations/document'
 
 const ENTITY_PATH_MAP: Record<string, string> = {
   product: '/products',
@@ -18,6 +23,7 @@ const ENTITY_PATH_MAP: Record<string, string> = {
   adjustment: '/adjustments',
   cycle_count: '/cycle-counts',
   return: '/returns',
+  supplier_invoice: '/supplier-invoices',
 }
 
 async function getUserContext() {
@@ -64,6 +70,8 @@ export async function uploadDocument(formData: FormData) {
     return { error: 'Missing required fields' }
   }
 
+  const fileName = sanitizeFileName(file.name)
+
   if (file.size > MAX_FILE_SIZE) {
     return { error: 'File exceeds 10MB limit' }
   }
@@ -89,7 +97,7 @@ export async function uploadDocument(formData: FormData) {
     .select('version')
     .eq('entity_type', entityType)
     .eq('entity_id', entityId)
-    .eq('file_name', file.name)
+    .eq('file_name', fileName)
     .order('version', { ascending: false })
     .limit(1)
 
@@ -99,7 +107,7 @@ export async function uploadDocument(formData: FormData) {
 
   // Build storage path
   const uuid = crypto.randomUUID()
-  const storagePath = `${userData.tenant_id}/${entityType}/${entityId}/${uuid}_${file.name}`
+  const storagePath = `${userData.tenant_id}/${entityType}/${entityId}/${uuid}_${fileName}`
 
   // Upload to Supabase Storage
   const { error: uploadError } = await supabase.storage
@@ -120,7 +128,7 @@ export async function uploadDocument(formData: FormData) {
       tenant_id: userData.tenant_id,
       entity_type: entityType,
       entity_id: entityId,
-      file_name: file.name,
+      file_name: fileName,
       file_size: file.size,
       mime_type: file.type,
       storage_path: storagePath,
@@ -142,11 +150,11 @@ export async function uploadDocument(formData: FormData) {
     action: 'upload',
     resourceType: 'document',
     resourceId: doc.id,
-    resourceName: file.name,
+    resourceName: fileName,
     newValues: {
       entity_type: entityType,
       entity_id: entityId,
-      file_name: file.name,
+      file_name: fileName,
       file_size: file.size,
       mime_type: file.type,
       version,
@@ -19,6 +19,22 @@ export async function getLocations() {
   return data
 }
 
+// Bins must sit directly in a warehouse
+async function checkBinParent(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  data: LocationFormData
+): Promise<string | null> {
+  if (data.type !== 'bin') return null
+
+  const { data: parent } = await supabase
+    .from('locations')
+    .select('type')
+    .eq('id', data.parent_id)
+    .single()
+
+  return parent?.type === 'warehouse' ? null : 'Bins must belong to a warehouse'
+}
+
 export async function createLocation(formData: LocationFormData) {
   const supabase = await createClient()
 
@@ -38,10 +54,14 @@ export async function createLocation(formData: LocationFormData) {
 
   if (!userData) return { error: { _form: ['User not found'] } }
 
+  const binError = await checkBinParent(supabase, validated.data)
+  if (binError) return { error: { parent_id: [binError] } }
+
   const { data: newLocation, error } = await supabase.from('locations').insert({
     tenant_id: userData.tenant_id,
     ...validated.data,
     parent_id: validated.data.parent_id || null,
+    is_parent: validated.data.type === 'bin' ? false : validated.data.is_parent,
   }).select().single()
 
   if (error) {
@@ -72,6 +92,9 @@ export async function updateLocation(id: string, formData: LocationFormData) {
     return { error: validated.error.flatten().fieldErrors }
   }
 
+  const binError = await checkBinParent(supabase, validated.data)
+  if (binError) return { error: { parent_id: [binError] } }
+
   // Get old values for audit
   const { data: oldLocation } = await supabase
     .from('locations')
@@ -82,6 +105,7 @@ export async function updateLocation(id: string, formData: LocationFormData) {
   const newValues = {
     ...validated.data,
     parent_id: validated.data.parent_id || null,
+    is_parent: validated.data.type === 'bin' ? false : validated.data.is_parent,
   }
 
   const { error } = await supabase
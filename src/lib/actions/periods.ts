@@ -0,0 +1,123 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { createClient } from '@/lib/supabase/server'
+import {
+  closePeriodSchema,
+  reopenPeriodSchema,
+  type ClosePeriodFormData,
+  type ReopenPeriodFormData,
+} from '@/lib/validations/settings'
+import { createAuditLog } from '@/lib/audit'
+import type { Tenant } from '@/types'
+
+/**
+ * Error when a posting dated `date` (today when omitted) falls in a closed
+ * period, null when it may post
+ */
+export async function checkPostingDate(date?: string | null): Promise<string | null> {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return 'Not authenticated'
+
+  const { data: userData } = await supabase
+    .from('users')
+    .select('tenant:tenants(settings)')
+    .eq('id', user.id)
+    .single()
+
+  const lockDate = (userData?.tenant as { settings?: Partial<Tenant['settings']> } | null)?.settings?.lock_date
+  const postingDate = (date || new Date().toISOString()).split('T')[0]
+
+  // ISO dates compare correctly as strings
+  if (lockDate && postingDate <= lockDate) {
+    return `Period is closed: postings dated on or before ${lockDate} are locked`
+  }
+  return null
+}
+
+export async function closePeriod(formData: ClosePeriodFormData) {
+  const supabase = await createClient()
+
+  const validated = closePeriodSchema.safeParse(formData)
+  if (!validated.success) {
+    return { error: validated.error.flatten().fieldErrors }
+  }
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: { _form: ['Not authenticated'] } }
+
+  // Snapshot, period row and lock date update in a single transaction
+  const { data: periodId, error } = await supabase.rpc('close_inventory_period', {
+    p_period_end: validated.data.period_end,
+  })
+
+  if (error) return { error: { _form: [error.message] } }
+
+  const { data: period } = await supabase
+    .from('inventory_periods')
+    .select('total_qty, total_value')
+    .eq('id', periodId as string)
+    .single()
+
+  // Audit log
+  await createAuditLog({
+    action: 'close',
+    resourceType: 'inventory_period',
+    resourceId: periodId as string,
+    resourceName: validated.data.period_end,
+    newValues: {
+      lock_date: validated.data.period_end,
+      total_qty: period?.total_qty,
+      total_value: period?.total_value,
+    },
+    notes: `Closed inventory period ending ${validated.data.period_end}`,
+  })
+
+  revalidatePath('/settings')
+  revalidatePath('/settings/periods')
+  return { success: true, id: periodId as string }
+}
+
+export async function reopenPeriod(id: string, formData: ReopenPeriodFormData) {
+  const supabase = await createClient()
+
+  const validated = reopenPeriodSchema.safeParse(formData)
+  if (!validated.success) {
+    return { error: validated.error.flatten().fieldErrors }
+  }
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: { _form: ['Not authenticated'] } }
+
+  const { data: period } = await supabase
+    .from('inventory_periods')
+    .select('period_end, status')
+    .eq('id', id)
+    .single()
+
+  if (!period) return { error: { _form: ['Period not found'] } }
+
+  const { error } = await supabase.rpc('reopen_inventory_period', {
+    p_period_id: id,
+    p_note: validated.data.note,
+  })
+
+  if (error) return { error: { _form: [error.message] } }
+
+  // Audit log
+  await createAuditLog({
+    action: 'reopen',
+    resourceType: 'inventory_period',
+    resourceId: id,
+    resourceName: period.period_end,
+    oldValues: { status: period.status },
+    newValues: { status: 'reopened' },
+    notes: validated.data.note,
+  })
+
+  revalidatePath('/settings')
+  revalidatePath('/settings/periods')
+  return { success: true }
+}
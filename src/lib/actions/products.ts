@@ -2,17 +2,25 @@
 
 import { revalidatePath } from 'next/cache'
 import { createClient } from '@/lib/supabase/server'
-import { productSchema, type ProductFormData } from '@/lib/validations/product'
+import {
+  productSchema,
+  type ProductFormData,
+  type ProductUnitFormData,
+  type BomLineFormData,
+  type VariantFormData,
+} from '@/lib/validations/product'
 import { createAuditLog } from '@/lib/audit'
 import { computeChanges } from '@/lib/audit-utils'
 import { deleteEntityDocuments } from '@/lib/actions/documents'
+import { toVariantOptions } from '@/lib/variant-utils'
+import type { Product } from '@/types'
 
 export async function getProducts() {
   const supabase = await createClient()
 
   const { data, error } = await supabase
     .from('products')
-    .select('*, category:categories(id, name)')
+    .select('*, category:categories(id, name), units:product_units(*)')
     .order('sku', { ascending: true })
 
   if (error) throw new Error(error.message)
@@ -24,7 +32,7 @@ export async function getProduct(id: string) {
 
   const { data, error } = await supabase
     .from('products')
-    .select('*, category:categories(id, name)')
+    .select('*, category:categories(id, name), units:product_units(*), bom:bom_lines!product_id(*)')
     .eq('id', id)
     .single()
 
@@ -53,12 +61,20 @@ export async function createProduct(formData: ProductFormData) {
 
   if (!userData) return { error: { _form: ['User not found'] } }
 
+  const { units, bom, variant_options, variants, ...productData } = validated.data
+  const options = toVariantOptions(variant_options)
+
+  if (variants.length > 0 && options.length === 0) {
+    return { error: { variant_options: ['Variants need at least one attribute'] } }
+  }
+
   // Insert
   const { data: newProduct, error } = await supabase.from('products').insert({
     tenant_id: userData.tenant_id,
-    ...validated.data,
-    pack_uom_name: validated.data.pack_uom_name || null,
-    pack_qty_in_base: validated.data.pack_qty_in_base || null,
+    ...productData,
+    variant_options: options.length > 0 ? options : null,
+    weight: validated.data.weight || null,
+    max_stock: validated.data.max_stock || null,
     barcode: validated.data.barcode || null,
     category_id: validated.data.category_id || null,
   }).select().single()
@@ -70,6 +86,24 @@ export async function createProduct(formData: ProductFormData) {
     return { error: { _form: [error.message] } }
   }
 
+  const unitsError = await saveProductUnits(newProduct.id, userData.tenant_id, units)
+  if (unitsError) {
+    await supabase.from('products').delete().eq('id', newProduct.id)
+    return { error: { units: [unitsError] } }
+  }
+
+  const bomError = await saveBomLines(newProduct.id, userData.tenant_id, bom)
+  if (bomError) {
+    await supabase.from('products').delete().eq('id', newProduct.id)
+    return { error: { bom: [bomError] } }
+  }
+
+  const variantsError = await createVariants(newProduct, units, variants)
+  if (variantsError) {
+    await supabase.from('products').delete().eq('id', newProduct.id)
+    return { error: { variants: [variantsError] } }
+  }
+
   // Audit log
   await createAuditLog({
     action: 'create',
@@ -99,13 +133,54 @@ export async function updateProduct(id: string, formData: ProductFormData) {
     .eq('id', id)
     .single()
 
+  const { units, bom, variant_options, variants, ...productData } = validated.data
+  const options = toVariantOptions(variant_options)
+
+  if (options.length > 0 && oldProduct?.parent_id) {
+    return { error: { variant_options: ['A variant cannot have variants of its own'] } }
+  }
+
+  if (options.length > 0 && !oldProduct?.variant_options) {
+    // Variant parents never hold stock, so stocked products can't become one
+    const { data: movements } = await supabase
+      .from('stock_movements')
+      .select('id')
+      .eq('product_id', id)
+      .limit(1)
+
+    if (movements && movements.length > 0) {
+      return { error: { variant_options: ['Products with stock history cannot have variants'] } }
+    }
+  }
+
+  if (options.length === 0 && oldProduct?.variant_options) {
+    const { data: children } = await supabase
+      .from('products')
+      .select('id')
+      .eq('parent_id', id)
+      .limit(1)
+
+    if (children && children.length > 0) {
+      return { error: { variant_options: ['Products with variants must keep at least one attribute'] } }
+    }
+  }
+
+  if (variants.length > 0 && options.length === 0) {
+    return { error: { variant_options: ['Variants need at least one attribute'] } }
+  }
+
+  if (bom.some((line) => line.component_id === id)) {
+    return { error: { bom: ['A product cannot be a component of itself'] } }
+  }
+
   // Update
   const { data: updatedProduct, error } = await supabase
     .from('products')
     .update({
-      ...validated.data,
-      pack_uom_name: validated.data.pack_uom_name || null,
-      pack_qty_in_base: validated.data.pack_qty_in_base || null,
+      ...productData,
+      variant_options: options.length > 0 ? options : null,
+      weight: validated.data.weight || null,
+      max_stock: validated.data.max_stock || null,
       barcode: validated.data.barcode || null,
       category_id: validated.data.category_id || null,
       updated_at: new Date().toISOString(),
@@ -121,6 +196,15 @@ export async function updateProduct(id: string, formData: ProductFormData) {
     return { error: { _form: [error.message] } }
   }
 
+  const unitsError = await saveProductUnits(id, updatedProduct.tenant_id, units)
+  if (unitsError) return { error: { units: [unitsError] } }
+
+  const bomError = await saveBomLines(id, updatedProduct.tenant_id, bom)
+  if (bomError) return { error: { bom: [bomError] } }
+
+  const variantsError = await createVariants(updatedProduct, units, variants)
+  if (variantsError) return { error: { variants: [variantsError] } }
+
   // Audit log
   await createAuditLog({
     action: 'update',
@@ -157,6 +241,26 @@ export async function deleteProduct(id: string) {
     return { error: 'Cannot delete product with existing inventory. Deactivate it instead.' }
   }
 
+  const { data: variants } = await supabase
+    .from('products')
+    .select('id')
+    .eq('parent_id', id)
+    .limit(1)
+
+  if (variants && variants.length > 0) {
+    return { error: 'Cannot delete product with variants. Delete its variants first.' }
+  }
+
+  const { data: usedIn } = await supabase
+    .from('bom_lines')
+    .select('id')
+    .eq('component_id', id)
+    .limit(1)
+
+  if (usedIn && usedIn.length > 0) {
+    return { error: 'Cannot delete product used in a bill of materials. Remove it from there first.' }
+  }
+
   // Check if product is used in any documents
   const { data: poLines } = await supabase
     .from('purchase_order_lines')
@@ -230,3 +334,121 @@ export async function toggleProductActive(id: string, active: boolean) {
   revalidatePath('/products')
   return { success: true }
 }
+
+// Replace a product's unit conversion rows
+async function saveProductUnits(productId: string, tenantId: string, units: ProductUnitFormData[]) {
+  const supabase = await createClient()
+
+  const { error: deleteError } = await supabase.from('product_units').delete().eq('product_id', productId)
+  if (deleteError) return deleteError.message
+
+  if (units.length === 0) return null
+
+  const { error } = await supabase.from('product_units').insert(
+    units.map((unit) => ({
+      tenant_id: tenantId,
+      product_id: productId,
+      name: unit.name,
+      factor: unit.factor,
+      barcode: unit.barcode?.trim() || null,
+      is_purchase_default: unit.is_purchase_default,
+      is_sales_default: unit.is_sales_default,
+      is_stock_default: unit.is_stock_default,
+    }))
+  )
+
+  if (error) {
+    return error.code === '23505' ? 'Unit barcode already exists' : error.message
+  }
+  return null
+}
+
+// Replace a product's bill of materials
+async function saveBomLines(productId: string, tenantId: string, bom: BomLineFormData[]) {
+  const supabase = await createClient()
+
+  const { error: deleteError } = await supabase.from('bom_lines').delete().eq('product_id', productId)
+  if (deleteError) return deleteError.message
+
+  if (bom.length === 0) return null
+
+  const { error } = await supabase.from('bom_lines').insert(
+    bom.map((line) => ({
+      tenant_id: tenantId,
+      product_id: productId,
+      component_id: line.component_id,
+      qty: line.qty,
+    }))
+  )
+
+  return error ? error.message : null
+}
+
+// Create new variants of a parent product. They start from the parent's
+// settings and units; unit barcodes identify a single product so aren't copied.
+async function createVariants(parent: Product, units: ProductUnitFormData[], variants: VariantFormData[]) {
+  if (variants.length === 0) return null
+
+  const supabase = await createClient()
+
+  const { data: created, error } = await supabase
+    .from('products')
+    .insert(
+      variants.map((variant) => ({
+        tenant_id: parent.tenant_id,
+        parent_id: parent.id,
+        sku: variant.sku,
+        name: variant.name,
+        variant_values: variant.values,
+        category_id: parent.category_id,
+        base_uom: parent.base_uom,
+        allow_decimal_qty: parent.allow_decimal_qty,
+        current_cost: parent.current_cost,
+        weight: parent.weight,
+        track_expiry: parent.track_expiry,
+        track_lot: parent.track_lot,
+        track_serial: parent.track_serial,
+        reorder_point: parent.reorder_point,
+        reorder_qty: parent.reorder_qty,
+        max_stock: parent.max_stock,
+        active: parent.active,
+      }))
+    )
+    .select()
+
+  if (error) {
+    return error.code === '23505' ? 'SKU already exists' : error.message
+  }
+
+  if (units.length > 0) {
+    const { error: unitsError } = await supabase.from('product_units').insert(
+      created.flatMap((variant) => units.map((unit) => ({
+        tenant_id: parent.tenant_id,
+        product_id: variant.id,
+        name: unit.name,
+        factor: unit.factor,
+        is_purchase_default: unit.is_purchase_default,
+        is_sales_default: unit.is_sales_default,
+        is_stock_default: unit.is_stock_default,
+      })))
+    )
+
+    if (unitsError) {
+      await supabase.from('products').delete().in('id', created.map((variant) => variant.id))
+      return unitsError.message
+    }
+  }
+
+  for (const variant of created) {
+    await createAuditLog({
+      action: 'create',
+      resourceType: 'product',
+      resourceId: variant.id,
+      resourceName: `${variant.sku} - ${variant.name}`,
+      newValues: variant,
+      notes: `Variant of ${parent.sku}`,
+    })
+  }
+
+  return null
+}
@@ -5,11 +5,26 @@ import { createClient } from '@/lib/supabase/server'
 import {
   purchaseOrderSchema,
   receiveSchema,
+  landedCostSchema,
+  replenishmentSchema,
+  poDecisionSchema,
   type PurchaseOrderFormData,
   type ReceiveFormData,
+  type LandedCostFormData,
+  type ReplenishmentFormData,
+  type PoDecisionFormData,
 } from '@/lib/validations/purchase-order'
 import { createAuditLog } from '@/lib/audit'
 import { deleteEntityDocuments } from '@/lib/actions/documents'
+import { storeGeneratedDocument } from '@/lib/documents/store'
+import { sendPurchaseOrderEmail } from '@/lib/email/purchase-order'
+import { buildPurchaseOrderPdf } from '@/lib/purchase-order-pdf'
+import { serverErrorLogger } from '@/lib/error-logger.server'
+import { convertUnitQuantities } from '@/lib/actions/stock'
+import { toSerialNumbers } from '@/lib/serial-utils'
+import { checkPostingDate } from '@/lib/actions/periods'
+import { resolvePoApproval, requiresPoApproval, canApprovePo } from '@/lib/po-approval-utils'
+import type { Tenant, UserRole } from '@/types'
 
 export async function createPurchaseOrder(formData: PurchaseOrderFormData) {
   const supabase = await createClient()
@@ -30,13 +45,21 @@ export async function createPurchaseOrder(formData: PurchaseOrderFormData) {
 
   if (!userData) return { error: { _form: ['User not found'] } }
 
-  // Generate PO number
-  const { count } = await supabase
-    .from('purchase_orders')
-    .select('*', { count: 'exact', head: true })
-    .eq('tenant_id', userData.tenant_id)
+  // Quantities entered in alternate units are stored in base units
+  const { data: quantities, error: qtyError } = await convertUnitQuantities(
+    validated.data.lines.map((line) => ({ ...line, qty: line.qty_ordered }))
+  )
+  if (qtyError || !quantities) return { error: { _form: [qtyError || 'Invalid quantities'] } }
+
+  // Allocate PO number from the tenant's document sequence
+  const { data: poNumber, error: numberError } = await supabase.rpc('next_doc_number', {
+    p_tenant_id: userData.tenant_id,
+    p_doc_type: 'purchase_order',
+  })
 
-  const poNumber = `PO-${String((count || 0) + 1).padStart(6, '0')}`
+  if (numberError) {
+    return { error: { _form: [numberError.message] } }
+  }
 
   const { data: po, error: poError } = await supabase
     .from('purchase_orders')
@@ -58,12 +81,14 @@ export async function createPurchaseOrder(formData: PurchaseOrderFormData) {
     return { error: { _form: [poError.message] } }
   }
 
-  const lines = validated.data.lines.map((line) => ({
+  const lines = validated.data.lines.map((line, index) => ({
     po_id: po.id,
     product_id: line.product_id,
-    qty_ordered: line.qty_ordered,
+    qty_ordered: quantities[index].qty,
     qty_received: 0,
     unit_cost: line.unit_cost,
+    entered_qty: quantities[index].entered_qty,
+    entered_uom: quantities[index].entered_uom,
   }))
 
   const { error: linesError } = await supabase.from('purchase_order_lines').insert(lines)
@@ -112,6 +137,11 @@ export async function updatePurchaseOrder(id: string, formData: PurchaseOrderFor
   if (!po) return { error: { _form: ['Purchase order not found'] } }
   if (po.status !== 'draft') return { error: { _form: ['Can only edit draft POs'] } }
 
+  const { data: quantities, error: qtyError } = await convertUnitQuantities(
+    validated.data.lines.map((line) => ({ ...line, qty: line.qty_ordered }))
+  )
+  if (qtyError || !quantities) return { error: { _form: [qtyError || 'Invalid quantities'] } }
+
   const { error: updateError } = await supabase
     .from('purchase_orders')
     .update({
@@ -129,12 +159,14 @@ export async function updatePurchaseOrder(id: string, formData: PurchaseOrderFor
   // Delete old lines and insert new ones
   await supabase.from('purchase_order_lines').delete().eq('po_id', id)
 
-  const lines = validated.data.lines.map((line) => ({
+  const lines = validated.data.lines.map((line, index) => ({
     po_id: id,
     product_id: line.product_id,
-    qty_ordered: line.qty_ordered,
+    qty_ordered: quantities[index].qty,
     qty_received: 0,
     unit_cost: line.unit_cost,
+    entered_qty: quantities[index].entered_qty,
+    entered_uom: quantities[index].entered_uom,
   }))
 
   const { error: linesError } = await supabase.from('purchase_order_lines').insert(lines)
@@ -158,18 +190,199 @@ export async function updatePurchaseOrder(id: string, formData: PurchaseOrderFor
   return { success: true }
 }
 
+export async function generatePurchaseOrders(formData: ReplenishmentFormData) {
+  const validated = replenishmentSchema.safeParse(formData)
+  if (!validated.success) {
+    return { error: validated.error.flatten().fieldErrors }
+  }
+
+  // One draft PO per supplier and destination, a product appearing once on each
+  const groups = new Map<string, { supplier_id: string; location_id: string; lines: PurchaseOrderFormData['lines'] }>()
+  for (const line of validated.data.lines) {
+    const key = `${line.supplier_id}:${line.location_id}`
+    const group = groups.get(key) || { supplier_id: line.supplier_id, location_id: line.location_id, lines: [] }
+    const existing = group.lines.find((l) => l.product_id === line.product_id)
+    if (existing) {
+      existing.qty_ordered += line.qty
+    } else {
+      group.lines.push({ product_id: line.product_id, qty_ordered: line.qty, unit_cost: line.unit_cost, entered_uom: null })
+    }
+    groups.set(key, group)
+  }
+
+  const ids: string[] = []
+  for (const group of groups.values()) {
+    const result = await createPurchaseOrder({
+      supplier_id: group.supplier_id,
+      location_id: group.location_id,
+      order_date: new Date().toISOString().split('T')[0],
+      expected_date: null,
+      notes: 'Generated from the low stock report',
+      lines: group.lines,
+    })
+
+    if (result.error) {
+      const message = '_form' in result.error && result.error._form ? result.error._form[0] : 'Invalid purchase order'
+      return { error: { _form: [ids.length > 0 ? `${message} (${ids.length} purchase order(s) created)` : message] } }
+    }
+    if (result.id) ids.push(result.id)
+  }
+
+  revalidatePath('/reports/low-stock')
+  return { success: true, ids }
+}
+
+// Record the confirmed unit costs as the supplier's last price
+async function recordSupplierPrices(
+  supplierId: string,
+  lines: { product_id: string; unit_cost: number }[]
+) {
+  const supabase = await createClient()
+
+  for (const line of lines) {
+    await supabase
+      .from('supplier_products')
+      .update({ last_price: line.unit_cost, updated_at: new Date().toISOString() })
+      .eq('supplier_id', supplierId)
+      .eq('product_id', line.product_id)
+  }
+}
+
+/**
+ * Render the PO as a PDF, optionally attach it to the PO's documents, and
+ * email it to the supplier when they have an address. Failures here never
+ * undo the confirmation; they are logged and reported back for the UI to show.
+ */
+async function dispatchPurchaseOrder(
+  id: string,
+  { attach }: { attach: boolean }
+): Promise<{ emailedTo?: string; emailError?: string; attachError?: string }> {
+  const supabase = await createClient()
+
+  let pdf: Awaited<ReturnType<typeof buildPurchaseOrderPdf>>
+  try {
+    pdf = await buildPurchaseOrderPdf(supabase, id)
+  } catch (error) {
+    const message = await logDispatchError(id, 'render', error)
+    return { emailError: message, attachError: attach ? message : undefined }
+  }
+  if (!pdf) return { emailError: 'Purchase order not found' }
+
+  let attachError: string | undefined
+  if (attach) {
+    try {
+      const stored = await storeGeneratedDocument({
+        entityType: 'purchase_order',
+        entityId: id,
+        fileName: pdf.fileName,
+        mimeType: 'application/pdf',
+        content: pdf.content,
+        notes: 'Generated on confirmation',
+      })
+      attachError = stored.error
+    } catch (error) {
+      attachError = await logDispatchError(id, 'attach', error)
+    }
+  }
+
+  if (!pdf.supplierEmail) return { attachError }
+
+  let result: Awaited<ReturnType<typeof sendPurchaseOrderEmail>>
+  try {
+    result = await sendPurchaseOrderEmail(pdf)
+  } catch (error) {
+    return { emailError: await logDispatchError(id, 'email', error), attachError }
+  }
+  if (!result.success) return { emailError: result.error || 'Failed to send email', attachError }
+
+  await supabase
+    .from('purchase_orders')
+    .update({ sent_at: new Date().toISOString(), sent_to: result.to })
+    .eq('id', id)
+
+  await createAuditLog({
+    action: 'send',
+    resourceType: 'purchase_order',
+    resourceId: id,
+    resourceName: pdf.data.poNumber,
+    newValues: { sent_to: result.to },
+  })
+
+  return { emailedTo: result.to, attachError }
+}
+
+async function logDispatchError(id: string, step: 'render' | 'attach' | 'email', error: unknown) {
+  const err = error instanceof Error ? error : new Error(String(error))
+  await serverErrorLogger.action('dispatchPurchaseOrder', err, { poId: id, step })
+  return err.message
+}
+
+async function getApprovalContext() {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return null
+
+  const { data: userData } = await supabase
+    .from('users')
+    .select('tenant_id, role, tenant:tenants(settings)')
+    .eq('id', user.id)
+    .single()
+
+  if (!userData) return null
+
+  const settings = (userData.tenant as { settings?: Partial<Tenant['settings']> } | null)?.settings
+  return {
+    userId: user.id,
+    tenantId: userData.tenant_id as string,
+    role: userData.role as UserRole,
+    rules: resolvePoApproval(settings?.po_approval),
+  }
+}
+
 export async function confirmPurchaseOrder(id: string) {
   const supabase = await createClient()
 
+  const context = await getApprovalContext()
+  if (!context) return { error: 'Not authenticated' }
+
   const { data: po } = await supabase
     .from('purchase_orders')
-    .select('status, po_number')
+    .select('status, po_number, supplier_id, location_id, lines:purchase_order_lines(product_id, qty_ordered, unit_cost)')
     .eq('id', id)
     .single()
 
   if (!po) return { error: 'Purchase order not found' }
   if (po.status !== 'draft') return { error: 'Can only confirm draft POs' }
 
+  const lines = (po.lines || []) as { product_id: string; qty_ordered: number; unit_cost: number }[]
+  const orderTotal = lines.reduce((sum, line) => sum + line.qty_ordered * line.unit_cost, 0)
+
+  // Over the tenant's limits the PO waits for an approver instead
+  if (requiresPoApproval(context.rules, { supplier_id: po.supplier_id, location_id: po.location_id, total: orderTotal })) {
+    const { error } = await supabase
+      .from('purchase_orders')
+      .update({ status: 'pending_approval', updated_at: new Date().toISOString() })
+      .eq('id', id)
+
+    if (error) return { error: error.message }
+
+    await createAuditLog({
+      action: 'submit',
+      resourceType: 'purchase_order',
+      resourceId: id,
+      resourceName: po.po_number,
+      oldValues: { status: po.status },
+      newValues: { status: 'pending_approval', order_total: orderTotal },
+      notes: 'Submitted for approval',
+    })
+
+    revalidatePath('/purchase-orders')
+    revalidatePath(`/purchase-orders/${id}`)
+    revalidatePath('/purchase-orders/approvals')
+    return { success: true, pendingApproval: true }
+  }
+
   const { error } = await supabase
     .from('purchase_orders')
     .update({ status: 'confirmed', updated_at: new Date().toISOString() })
@@ -177,6 +390,8 @@ export async function confirmPurchaseOrder(id: string) {
 
   if (error) return { error: error.message }
 
+  await recordSupplierPrices(po.supplier_id, lines)
+
   // Audit log
   await createAuditLog({
     action: 'confirm',
@@ -187,9 +402,111 @@ export async function confirmPurchaseOrder(id: string) {
     newValues: { status: 'confirmed' },
   })
 
+  const dispatch = await dispatchPurchaseOrder(id, { attach: true })
+
   revalidatePath('/purchase-orders')
   revalidatePath(`/purchase-orders/${id}`)
-  return { success: true }
+  return { success: true, emailedTo: dispatch.emailedTo, emailError: dispatch.emailError, attachError: dispatch.attachError }
+}
+
+export async function decidePurchaseOrder(id: string, formData: PoDecisionFormData) {
+  const supabase = await createClient()
+
+  const validated = poDecisionSchema.safeParse(formData)
+  if (!validated.success) {
+    return { error: validated.error.flatten().fieldErrors.comment?.[0] || 'Invalid decision' }
+  }
+
+  const context = await getApprovalContext()
+  if (!context) return { error: 'Not authenticated' }
+  if (!canApprovePo(context.rules, context.role)) {
+    return { error: 'You are not allowed to approve purchase orders' }
+  }
+
+  const { data: po } = await supabase
+    .from('purchase_orders')
+    .select('status, po_number, supplier_id, lines:purchase_order_lines(product_id, qty_ordered, unit_cost)')
+    .eq('id', id)
+    .single()
+
+  if (!po) return { error: 'Purchase order not found' }
+  if (po.status !== 'pending_approval') return { error: 'PO is not waiting for approval' }
+
+  const { decision, comment } = validated.data
+  const approved = decision === 'approved'
+  const lines = (po.lines || []) as { product_id: string; qty_ordered: number; unit_cost: number }[]
+  const orderTotal = lines.reduce((sum, line) => sum + line.qty_ordered * line.unit_cost, 0)
+  const now = new Date().toISOString()
+
+  // Approved POs are confirmed; rejected ones go back to draft for revision.
+  // The status guard keeps a concurrent decision from being recorded twice
+  const { data: decided, error } = await supabase
+    .from('purchase_orders')
+    .update(approved
+      ? { status: 'confirmed', approved_by: context.userId, approved_at: now, updated_at: now }
+      : { status: 'draft', updated_at: now })
+    .eq('id', id)
+    .eq('status', 'pending_approval')
+    .select('id')
+
+  if (error) return { error: error.message }
+  if (!decided?.length) return { error: 'PO is not waiting for approval' }
+
+  const { error: approvalError } = await supabase
+    .from('purchase_order_approvals')
+    .insert({
+      tenant_id: context.tenantId,
+      po_id: id,
+      decision,
+      comment: comment || null,
+      order_total: orderTotal,
+      decided_by: context.userId,
+    })
+
+  if (approvalError) return { error: approvalError.message }
+
+  if (approved) await recordSupplierPrices(po.supplier_id, lines)
+
+  await createAuditLog({
+    action: approved ? 'approve' : 'reject',
+    resourceType: 'purchase_order',
+    resourceId: id,
+    resourceName: po.po_number,
+    oldValues: { status: po.status },
+    newValues: { status: approved ? 'confirmed' : 'draft', order_total: orderTotal },
+    notes: comment || undefined,
+  })
+
+  const dispatch = approved ? await dispatchPurchaseOrder(id, { attach: true }) : {}
+
+  revalidatePath('/purchase-orders')
+  revalidatePath(`/purchase-orders/${id}`)
+  revalidatePath('/purchase-orders/approvals')
+  return { success: true, emailedTo: dispatch.emailedTo, emailError: dispatch.emailError, attachError: dispatch.attachError }
+}
+
+export async function sendPurchaseOrder(id: string) {
+  const supabase = await createClient()
+
+  const { data: po } = await supabase
+    .from('purchase_orders')
+    .select('status, supplier:suppliers(email)')
+    .eq('id', id)
+    .single()
+
+  if (!po) return { error: 'Purchase order not found' }
+  if (po.status !== 'confirmed' && po.status !== 'partial') {
+    return { error: 'Can only send confirmed POs' }
+  }
+  if (!(po.supplier as { email?: string | null } | null)?.email) {
+    return { error: 'Supplier has no email address' }
+  }
+
+  const dispatch = await dispatchPurchaseOrder(id, { attach: false })
+  if (dispatch.emailError) return { error: dispatch.emailError }
+
+  revalidatePath(`/purchase-orders/${id}`)
+  return { success: true, emailedTo: dispatch.emailedTo }
 }
 
 export async function receivePurchaseOrder(poId: string, formData: ReceiveFormData) {
@@ -203,155 +520,201 @@ export async function receivePurchaseOrder(poId: string, formData: ReceiveFormDa
   const { data: { user } } = await supabase.auth.getUser()
   if (!user) return { error: 'Not authenticated' }
 
-  const { data: userData } = await supabase
-    .from('users')
-    .select('tenant_id')
-    .eq('id', user.id)
-    .single()
-
-  if (!userData) return { error: 'User not found' }
-
   const { data: po } = await supabase
     .from('purchase_orders')
-    .select('*, location_id, po_number')
+    .select('status, po_number')
     .eq('id', poId)
     .single()
 
   if (!po) return { error: 'Purchase order not found' }
-  if (po.status === 'draft') return { error: 'PO must be confirmed before receiving' }
+  if (po.status === 'draft' || po.status === 'pending_approval') return { error: 'PO must be confirmed before receiving' }
   if (po.status === 'completed') return { error: 'PO is already completed' }
   if (po.status === 'cancelled') return { error: 'Cannot receive cancelled PO' }
 
   const oldStatus = po.status
-  const receivedItems: { product_id: string; qty: number }[] = []
   const receivedDate = validated.data.received_date || new Date().toISOString().split('T')[0]
 
-  // Process each line
-  for (const line of validated.data.lines) {
-    if (line.qty_to_receive <= 0) continue
+  const { data: quantities, error: qtyError } = await convertUnitQuantities(
+    validated.data.lines.map((line) => ({ ...line, qty: line.qty_to_receive }))
+  )
+  if (qtyError || !quantities) return { error: qtyError || 'Invalid quantities' }
+
+  const periodError = await checkPostingDate(receivedDate)
+  if (periodError) return { error: periodError }
+
+  // Line quantities, balances, movements and PO status update in a single transaction
+  const { data, error } = await supabase.rpc('receive_purchase_order', {
+    p_po_id: poId,
+    p_lines: validated.data.lines.map((line, index) => ({
+      line_id: line.line_id,
+      qty_to_receive: quantities[index].qty,
+      entered_qty: quantities[index].entered_qty,
+      entered_uom: quantities[index].entered_uom,
+      lot_number: line.lot_number?.trim() || null,
+      expiry_date: line.expiry_date?.trim() || null,
+      serial_numbers: toSerialNumbers(line.serial_numbers),
+      bin_id: line.bin_id || null,
+    })),
+    p_received_date: receivedDate,
+  })
 
-    // Update PO line qty_received
-    const { data: poLine } = await supabase
-      .from('purchase_order_lines')
-      .select('qty_ordered, qty_received, unit_cost')
-      .eq('id', line.line_id)
-      .single()
+  if (error) return { error: error.message }
 
-    if (!poLine) continue
+  const result = data as {
+    status: string
+    receipt_id: string | null
+    items: { product_id: string; qty: number }[]
+  }
+  const newStatus = result.status
+  const receivedItems = result.items || []
 
-    const newReceived = (poLine.qty_received || 0) + line.qty_to_receive
-    if (newReceived > poLine.qty_ordered) {
-      return { error: `Cannot receive more than ordered for line ${line.line_id}` }
-    }
+  // Audit log
+  await createAuditLog({
+    action: 'receive',
+    resourceType: 'purchase_order',
+    resourceId: poId,
+    resourceName: po.po_number,
+    oldValues: { status: oldStatus },
+    newValues: {
+      status: newStatus,
+      receipt_id: result.receipt_id,
+      received_items: receivedItems,
+      received_date: receivedDate,
+    },
+    notes: `Received ${receivedItems.length} item(s) on ${receivedDate}`,
+  })
 
-    await supabase
-      .from('purchase_order_lines')
-      .update({ qty_received: newReceived })
-      .eq('id', line.line_id)
+  revalidatePath('/purchase-orders')
+  revalidatePath(`/purchase-orders/${poId}`)
+  revalidatePath('/stock')
+  revalidatePath('/shipments/new')
+  revalidatePath('/transfers/new')
+  revalidatePath('/returns/new')
+  return { success: true }
+}
 
-    const unitCost = poLine.unit_cost || 0
-    receivedItems.push({ product_id: line.product_id, qty: line.qty_to_receive })
+export async function addLandedCost(poId: string, formData: LandedCostFormData) {
+  const supabase = await createClient()
 
-    // Update or create inventory balance
-    let balanceQuery = supabase
-      .from('inventory_balances')
-      .select('id, qty_on_hand, avg_cost')
-      .eq('product_id', line.product_id)
-      .eq('location_id', po.location_id)
+  const validated = landedCostSchema.safeParse(formData)
+  if (!validated.success) {
+    return { error: validated.error.flatten().fieldErrors }
+  }
 
-    // Handle lot_number: use .eq() for values, .is() for null
-    const lotNumber = line.lot_number?.trim() || null
-    if (lotNumber) {
-      balanceQuery = balanceQuery.eq('lot_number', lotNumber)
-    } else {
-      balanceQuery = balanceQuery.is('lot_number', null)
-    }
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: { _form: ['Not authenticated'] } }
 
-    // Handle expiry_date: use .eq() for values, .is() for null
-    const expiryDate = line.expiry_date?.trim() || null
-    if (expiryDate) {
-      balanceQuery = balanceQuery.eq('expiry_date', expiryDate)
-    } else {
-      balanceQuery = balanceQuery.is('expiry_date', null)
-    }
+  const { data: po } = await supabase
+    .from('purchase_orders')
+    .select('status, po_number')
+    .eq('id', poId)
+    .single()
 
-    const { data: existingBalance } = await balanceQuery.maybeSingle()
-
-    if (existingBalance) {
-      // Weighted average cost
-      const newQty = existingBalance.qty_on_hand + line.qty_to_receive
-      const newAvgCost = ((existingBalance.qty_on_hand * existingBalance.avg_cost) +
-        (line.qty_to_receive * unitCost)) / newQty
-
-      await supabase
-        .from('inventory_balances')
-        .update({
-          qty_on_hand: newQty,
-          avg_cost: newAvgCost,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', existingBalance.id)
-    } else {
-      await supabase.from('inventory_balances').insert({
-        tenant_id: userData.tenant_id,
-        product_id: line.product_id,
-        location_id: po.location_id,
-        lot_number: lotNumber,
-        expiry_date: expiryDate,
-        qty_on_hand: line.qty_to_receive,
-        avg_cost: unitCost,
-      })
-    }
+  if (!po) return { error: { _form: ['Purchase order not found'] } }
 
-    // Update product current_cost
-    await supabase
-      .from('products')
-      .update({ current_cost: unitCost, updated_at: new Date().toISOString() })
-      .eq('id', line.product_id)
+  // The charge re-costs the receipts it lands on, so none may be in a closed period
+  let receiptQuery = supabase
+    .from('stock_movements')
+    .select('effective_date')
+    .eq('reference_type', 'po')
+    .eq('reference_id', poId)
+    .eq('movement_type', 'receive')
+    .order('effective_date', { ascending: true })
+    .limit(1)
+  if (validated.data.receipt_id) {
+    const { data: receiptLines } = await supabase
+      .from('po_receipt_lines')
+      .select('movement_id')
+      .eq('receipt_id', validated.data.receipt_id)
+    receiptQuery = receiptQuery.in('id', (receiptLines || []).map((line) => line.movement_id).filter(Boolean))
+  }
+  const { data: firstReceipt } = await receiptQuery.maybeSingle()
+
+  const periodError = await checkPostingDate(firstReceipt?.effective_date)
+  if (periodError) return { error: { _form: [periodError] } }
+
+  // Record the charge and spread it over received lines in a single transaction
+  const { data, error } = await supabase.rpc('apply_landed_cost', {
+    p_po_id: poId,
+    p_receipt_id: validated.data.receipt_id || null,
+    p_charge_type: validated.data.charge_type,
+    p_description: validated.data.description?.trim() || null,
+    p_amount: validated.data.amount,
+    p_allocation_method: validated.data.allocation_method,
+  })
 
-    // Record stock movement
-    await supabase.from('stock_movements').insert({
-      tenant_id: userData.tenant_id,
-      product_id: line.product_id,
-      location_id: po.location_id,
-      qty: line.qty_to_receive,
-      movement_type: 'receive',
-      reference_type: 'po',
-      reference_id: poId,
-      lot_number: lotNumber,
-      expiry_date: expiryDate,
-      unit_cost: unitCost,
-      created_by: user.id,
-    })
+  if (error) return { error: { _form: [error.message] } }
+
+  const result = data as {
+    landed_cost_id: string
+    items: { product_id: string; qty: number; amount: number }[]
   }
 
-  // Update PO status
-  const { data: allLines } = await supabase
-    .from('purchase_order_lines')
-    .select('qty_ordered, qty_received')
-    .eq('po_id', poId)
+  // Audit log
+  await createAuditLog({
+    action: 'create',
+    resourceType: 'purchase_order',
+    resourceId: poId,
+    resourceName: po.po_number,
+    newValues: {
+      landed_cost_id: result.landed_cost_id,
+      receipt_id: validated.data.receipt_id || null,
+      charge_type: validated.data.charge_type,
+      amount: validated.data.amount,
+      allocation_method: validated.data.allocation_method,
+      allocated_items: result.items,
+    },
+    notes: `Landed cost ${validated.data.charge_type} allocated to ${result.items.length} line(s)`,
+  })
+
+  revalidatePath(`/purchase-orders/${poId}`)
+  revalidatePath('/stock')
+  revalidatePath('/reports/valuation')
+  return { success: true }
+}
+
+export async function voidPurchaseOrderReceipt(poId: string, receiptId: string, reason: string) {
+  const supabase = await createClient()
 
-  const allComplete = allLines?.every(l => (l.qty_received || 0) >= l.qty_ordered)
-  const anyReceived = allLines?.some(l => (l.qty_received || 0) > 0)
-  const newStatus = allComplete ? 'completed' : anyReceived ? 'partial' : 'confirmed'
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: 'Not authenticated' }
 
-  await supabase
+  const { data: po } = await supabase
     .from('purchase_orders')
-    .update({
-      status: newStatus,
-      updated_at: new Date().toISOString(),
-    })
+    .select('status, po_number')
     .eq('id', poId)
+    .single()
+
+  if (!po) return { error: 'Purchase order not found' }
+  if (!reason.trim()) return { error: 'A void reason is required' }
+
+  const periodError = await checkPostingDate()
+  if (periodError) return { error: periodError }
+
+  // Reversing movements, received quantities and PO status in a single transaction
+  const { data, error } = await supabase.rpc('void_po_receipt', {
+    p_receipt_id: receiptId,
+    p_reason: reason.trim(),
+  })
+
+  if (error) return { error: error.message }
+
+  const result = data as { status: string; items: { product_id: string; qty: number }[] }
 
   // Audit log
   await createAuditLog({
-    action: 'receive',
+    action: 'void',
     resourceType: 'purchase_order',
     resourceId: poId,
     resourceName: po.po_number,
-    oldValues: { status: oldStatus },
-    newValues: { status: newStatus, received_items: receivedItems, received_date: receivedDate },
-    notes: `Received ${receivedItems.length} item(s) on ${receivedDate}`,
+    oldValues: { status: po.status },
+    newValues: {
+      status: result.status,
+      receipt_id: receiptId,
+      void_reason: reason.trim(),
+      reversed_items: result.items || [],
+    },
+    notes: `Voided receipt: ${reason.trim()}`,
   })
 
   revalidatePath('/purchase-orders')
@@ -373,8 +736,8 @@ export async function cancelPurchaseOrder(id: string) {
     .single()
 
   if (!po) return { error: 'Purchase order not found' }
-  if (po.status !== 'draft' && po.status !== 'confirmed') {
-    return { error: 'Can only cancel draft or confirmed POs' }
+  if (!['draft', 'pending_approval', 'confirmed'].includes(po.status)) {
+    return { error: 'Can only cancel draft, pending or confirmed POs' }
   }
 
   await supabase
@@ -0,0 +1,104 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { createClient } from '@/lib/supabase/server'
+import { createAuditLog } from '@/lib/audit'
+import type { BalanceDiscrepancy } from '@/types'
+
+export interface RebuildItem {
+  product_id: string
+  location_id: string
+  lot_number: string | null
+  expiry_date: string | null
+  old_qty: number
+  new_qty: number
+  old_avg_cost: number | null
+  new_avg_cost: number
+}
+
+export async function getBalanceDiscrepancies(): Promise<{ data: BalanceDiscrepancy[] | null; error: string | null }> {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { data: null, error: 'Not authenticated' }
+
+  const { data: discrepancies, error } = await supabase.rpc('get_balance_discrepancies')
+
+  if (error) return { data: null, error: error.message }
+  if (!discrepancies || discrepancies.length === 0) return { data: [], error: null }
+
+  const rows = discrepancies as BalanceDiscrepancy[]
+  const productIds = [...new Set(rows.map((row) => row.product_id))]
+  const locationIds = [...new Set(rows.map((row) => row.location_id))]
+
+  const [{ data: products }, { data: locations }] = await Promise.all([
+    supabase.from('products').select('id, sku, name, base_uom').in('id', productIds),
+    supabase.from('locations').select('id, name').in('id', locationIds),
+  ])
+
+  return {
+    data: rows.map((row) => ({
+      ...row,
+      product: products?.find((product) => product.id === row.product_id),
+      location: locations?.find((location) => location.id === row.location_id),
+    })),
+    error: null,
+  }
+}
+
+function balanceKey(item: RebuildItem) {
+  return {
+    product_id: item.product_id,
+    location_id: item.location_id,
+    lot_number: item.lot_number,
+    expiry_date: item.expiry_date,
+  }
+}
+
+/**
+ * Rewrite drifted inventory_balances from the movement ledger. A dry run
+ * only returns what would change.
+ */
+export async function rebuildInventoryBalances(dryRun: boolean) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: 'Not authenticated' }
+
+  const { data: userData } = await supabase
+    .from('users')
+    .select('tenant_id, role')
+    .eq('id', user.id)
+    .single()
+
+  if (!userData) return { error: 'User not found' }
+  if (userData.role !== 'admin') return { error: 'Only admins can rebuild inventory balances' }
+
+  const { data, error } = await supabase.rpc('rebuild_inventory_balances', { p_dry_run: dryRun })
+
+  if (error) return { error: error.message }
+
+  const items = ((data as { items?: RebuildItem[] } | null)?.items || [])
+
+  if (!dryRun && items.length > 0) {
+    // Audit log
+    await createAuditLog({
+      action: 'reconcile',
+      resourceType: 'inventory_balance',
+      resourceId: userData.tenant_id,
+      resourceName: `${items.length} balances`,
+      oldValues: {
+        balances: items.map((item) => ({ ...balanceKey(item), qty: item.old_qty, avg_cost: item.old_avg_cost })),
+      },
+      newValues: {
+        balances: items.map((item) => ({ ...balanceKey(item), qty: item.new_qty, avg_cost: item.new_avg_cost })),
+      },
+      notes: 'Inventory balances rebuilt from the movement ledger',
+    })
+
+    revalidatePath('/stock')
+    revalidatePath('/settings/reconciliation')
+  }
+
+  return { success: true, items }
+}
@@ -5,6 +5,9 @@ import { createClient } from '@/lib/supabase/server'
 import { returnSchema, type ReturnFormData } from '@/lib/validations/return'
 import { createAuditLog } from '@/lib/audit'
 import { deleteEntityDocuments } from '@/lib/actions/documents'
+import { toSerialNumbers } from '@/lib/serial-utils'
+import { checkPostingDate } from '@/lib/actions/periods'
+import { convertUnitQuantities } from '@/lib/actions/stock'
 
 export async function createReturn(formData: ReturnFormData) {
   const supabase = await createClient()
@@ -25,23 +28,19 @@ export async function createReturn(formData: ReturnFormData) {
 
   if (!userData) return { error: { _form: ['User not found'] } }
 
-  // Generate return number - get the max existing number to avoid duplicates
-  const { data: lastReturn } = await supabase
-    .from('returns')
-    .select('return_number')
-    .eq('tenant_id', userData.tenant_id)
-    .order('return_number', { ascending: false })
-    .limit(1)
-    .maybeSingle()
-
-  let nextNumber = 1
-  if (lastReturn?.return_number) {
-    const match = lastReturn.return_number.match(/RET-(\d+)/)
-    if (match) {
-      nextNumber = parseInt(match[1], 10) + 1
-    }
+  // Quantities entered in alternate units are stored in base units
+  const { data: quantities, error: qtyError } = await convertUnitQuantities(validated.data.lines)
+  if (qtyError || !quantities) return { error: { _form: [qtyError || 'Invalid quantities'] } }
+
+  // Allocate return number from the tenant's document sequence
+  const { data: returnNumber, error: numberError } = await supabase.rpc('next_doc_number', {
+    p_tenant_id: userData.tenant_id,
+    p_doc_type: 'return',
+  })
+
+  if (numberError) {
+    return { error: { _form: [numberError.message] } }
   }
-  const returnNumber = `RET-${String(nextNumber).padStart(6, '0')}`
 
   const { data: returnDoc, error: returnError } = await supabase
     .from('returns')
@@ -64,12 +63,15 @@ export async function createReturn(formData: ReturnFormData) {
     return { error: { _form: [returnError.message] } }
   }
 
-  const lines = validated.data.lines.map((line) => ({
+  const lines = validated.data.lines.map((line, index) => ({
     return_id: returnDoc.id,
     product_id: line.product_id,
-    qty: line.qty,
+    qty: quantities[index].qty,
+    entered_qty: quantities[index].entered_qty,
+    entered_uom: quantities[index].entered_uom,
     lot_number: line.lot_number || null,
     expiry_date: line.expiry_date || null,
+    serial_numbers: toSerialNumbers(line.serial_numbers),
   }))
 
   const { error: linesError } = await supabase.from('return_lines').insert(lines)
@@ -115,6 +117,9 @@ export async function updateReturn(id: string, formData: ReturnFormData) {
   if (!ret) return { error: { _form: ['Return not found'] } }
   if (ret.status !== 'draft') return { error: { _form: ['Can only edit draft returns'] } }
 
+  const { data: quantities, error: qtyError } = await convertUnitQuantities(validated.data.lines)
+  if (qtyError || !quantities) return { error: { _form: [qtyError || 'Invalid quantities'] } }
+
   const { error: updateError } = await supabase
     .from('returns')
     .update({
@@ -131,12 +136,15 @@ export async function updateReturn(id: string, formData: ReturnFormData) {
 
   await supabase.from('return_lines').delete().eq('return_id', id)
 
-  const lines = validated.data.lines.map((line) => ({
+  const lines = validated.data.lines.map((line, index) => ({
     return_id: id,
     product_id: line.product_id,
-    qty: line.qty,
+    qty: quantities[index].qty,
+    entered_qty: quantities[index].entered_qty,
+    entered_uom: quantities[index].entered_uom,
     lot_number: line.lot_number || null,
     expiry_date: line.expiry_date || null,
+    serial_numbers: toSerialNumbers(line.serial_numbers),
   }))
 
   const { error: linesError } = await supabase.from('return_lines').insert(lines)
@@ -165,137 +173,29 @@ export async function processReturn(id: string) {
   const { data: { user } } = await supabase.auth.getUser()
   if (!user) return { error: 'Not authenticated' }
 
-  const { data: userData } = await supabase
-    .from('users')
-    .select('tenant_id')
-    .eq('id', user.id)
-    .single()
-
   const { data: returnDoc } = await supabase
     .from('returns')
-    .select('*, return_number, lines:return_lines(*, product:products(id, sku, name))')
+    .select('status, return_number, return_type')
     .eq('id', id)
     .single()
 
   if (!returnDoc) return { error: 'Return not found' }
   if (returnDoc.status !== 'draft') return { error: 'Can only process draft returns' }
 
-  const isCustomerReturn = returnDoc.return_type === 'customer'
-  const movementType = isCustomerReturn ? 'return_in' : 'return_out'
-  const returnedItems: { product_id: string; qty: number }[] = []
-
-  for (const line of returnDoc.lines || []) {
-    // Normalize lot_number and expiry_date
-    const lotNumber = line.lot_number?.trim() || null
-    const expiryDate = line.expiry_date?.trim() || null
-
-    // Get current balance for cost - filter by lot/expiry for precision
-    let balanceQuery = supabase
-      .from('inventory_balances')
-      .select('id, qty_on_hand, avg_cost')
-      .eq('product_id', line.product_id)
-      .eq('location_id', returnDoc.location_id)
-
-    if (lotNumber) {
-      balanceQuery = balanceQuery.eq('lot_number', lotNumber)
-    } else {
-      balanceQuery = balanceQuery.or('lot_number.is.null,lot_number.eq.')
-    }
-
-    if (expiryDate) {
-      balanceQuery = balanceQuery.eq('expiry_date', expiryDate)
-    } else {
-      balanceQuery = balanceQuery.or('expiry_date.is.null,expiry_date.eq.')
-    }
-
-    const { data: balance, error: balanceError } = await balanceQuery.maybeSingle()
-
-    if (balanceError) {
-      return { error: `Error finding stock: ${balanceError.message}` }
-    }
-
-    const unitCost = balance?.avg_cost || 0
-    const qtyChange = isCustomerReturn ? line.qty : -line.qty
-    returnedItems.push({ product_id: line.product_id, qty: line.qty })
-
-    if (isCustomerReturn) {
-      // Customer return: ADD to inventory
-      if (balance) {
-        const newQty = balance.qty_on_hand + line.qty
-        const newAvgCost = ((balance.qty_on_hand * balance.avg_cost) + (line.qty * unitCost)) / newQty
-
-        const { error: updateError } = await supabase
-          .from('inventory_balances')
-          .update({
-            qty_on_hand: newQty,
-            avg_cost: newAvgCost,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', balance.id)
-
-        if (updateError) {
-          return { error: `Error updating stock: ${updateError.message}` }
-        }
-      } else {
-        const { error: insertError } = await supabase.from('inventory_balances').insert({
-          tenant_id: userData?.tenant_id,
-          product_id: line.product_id,
-          location_id: returnDoc.location_id,
-          lot_number: lotNumber,
-          expiry_date: expiryDate,
-          qty_on_hand: line.qty,
-          avg_cost: unitCost,
-        })
-
-        if (insertError) {
-          return { error: `Error creating stock: ${insertError.message}` }
-        }
-      }
-    } else {
-      // Supplier return: REMOVE from inventory
-      if (!balance || balance.qty_on_hand < line.qty) {
-        return { error: `Insufficient stock for ${line.product?.sku || 'product'}` }
-      }
-
-      const { error: updateError } = await supabase
-        .from('inventory_balances')
-        .update({
-          qty_on_hand: balance.qty_on_hand - line.qty,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', balance.id)
-
-      if (updateError) {
-        return { error: `Error updating stock: ${updateError.message}` }
-      }
-    }
-
-    // Update line with cost
-    await supabase
-      .from('return_lines')
-      .update({ unit_cost: unitCost })
-      .eq('id', line.id)
-
-    // Record stock movement
-    await supabase.from('stock_movements').insert({
-      tenant_id: userData?.tenant_id,
-      product_id: line.product_id,
-      location_id: returnDoc.location_id,
-      qty: qtyChange,
-      movement_type: movementType,
-      reference_type: 'return',
-      reference_id: id,
-      lot_number: lotNumber,
-      expiry_date: expiryDate,
-      unit_cost: unitCost,
-      created_by: user.id,
-    })
-  }
+  // Lock check and movements use the same date
+  const postingDate = new Date().toISOString().split('T')[0]
+  const periodError = await checkPostingDate(postingDate)
+  if (periodError) return { error: periodError }
 
-  await supabase
-    .from('returns')
-    .update({ status: 'completed' })
-    .eq('id', id)
+  // Customer returns add stock, supplier returns remove it - in a single transaction
+  const { data, error } = await supabase.rpc('process_return', {
+    p_return_id: id,
+    p_return_date: postingDate,
+  })
+
+  if (error) return { error: error.message }
+
+  const returnedItems = (data || []) as { product_id: string; qty: number }[]
 
   // Audit log
   await createAuditLog({
@@ -347,6 +247,55 @@ export async function cancelReturn(id: string) {
   return { success: true }
 }
 
+export async function voidReturn(id: string, reason: string) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: 'Not authenticated' }
+
+  const { data: returnDoc } = await supabase
+    .from('returns')
+    .select('status, return_number')
+    .eq('id', id)
+    .single()
+
+  if (!returnDoc) return { error: 'Return not found' }
+  if (returnDoc.status !== 'completed') return { error: 'Can only void completed returns' }
+  if (!reason.trim()) return { error: 'A void reason is required' }
+
+  const periodError = await checkPostingDate()
+  if (periodError) return { error: periodError }
+
+  // Reversing movements, balances, costs and status update in a single transaction
+  const { data, error } = await supabase.rpc('void_return', {
+    p_return_id: id,
+    p_reason: reason.trim(),
+  })
+
+  if (error) return { error: error.message }
+
+  const reversedItems = (data || []) as { product_id: string; qty: number }[]
+
+  // Audit log
+  await createAuditLog({
+    action: 'void',
+    resourceType: 'return',
+    resourceId: id,
+    resourceName: returnDoc.return_number,
+    oldValues: { status: 'completed' },
+    newValues: { status: 'voided', void_reason: reason.trim(), reversed_items: reversedItems },
+    notes: `Voided: ${reason.trim()}`,
+  })
+
+  revalidatePath('/returns')
+  revalidatePath(`/returns/${id}`)
+  revalidatePath('/stock')
+  revalidatePath('/shipments/new')
+  revalidatePath('/transfers/new')
+  revalidatePath('/returns/new')
+  return { success: true }
+}
+
 export async function deleteReturn(id: string) {
   const supabase = await createClient()
 
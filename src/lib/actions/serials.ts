@@ -0,0 +1,61 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import type { SerialMovement } from '@/types'
+
+export interface SerialMovementWithDetails extends SerialMovement {
+  document_number?: string
+}
+
+// Table and number column of each document type a serial can move on
+const documentNumbers: Record<string, { table: string; column: string }> = {
+  po: { table: 'purchase_orders', column: 'po_number' },
+  shipment: { table: 'shipments', column: 'shipment_number' },
+  transfer: { table: 'transfers', column: 'transfer_number' },
+  cycle_count: { table: 'cycle_counts', column: 'count_number' },
+  return: { table: 'returns', column: 'return_number' },
+}
+
+export async function getSerialMovements(
+  serialId: string
+): Promise<{ data: SerialMovementWithDetails[] | null; error: string | null }> {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { data: null, error: 'Not authenticated' }
+
+  const { data: movements, error } = await supabase
+    .from('serial_movements')
+    .select('*, location:locations(id, name)')
+    .eq('serial_id', serialId)
+    .order('created_at', { ascending: false })
+
+  if (error) return { data: null, error: error.message }
+  if (!movements || movements.length === 0) return { data: [], error: null }
+
+  // One lookup per document type rather than per movement
+  const numbers = new Map<string, string>()
+  await Promise.all(
+    Object.entries(documentNumbers).map(async ([referenceType, { table, column }]) => {
+      const ids = [...new Set(
+        movements
+          .filter((movement) => movement.reference_type === referenceType && movement.reference_id)
+          .map((movement) => movement.reference_id as string)
+      )]
+      if (ids.length === 0) return
+
+      const { data } = await supabase.from(table).select(`id, ${column}`).in('id', ids)
+      for (const doc of (data || []) as unknown as Record<string, string>[]) {
+        numbers.set(`${referenceType}:${doc.id}`, doc[column])
+      }
+    })
+  )
+
+  return {
+    data: movements.map((movement) => ({
+      ...movement,
+      document_number: numbers.get(`${movement.reference_type}:${movement.reference_id}`),
+    })) as SerialMovementWithDetails[],
+    error: null,
+  }
+}
@@ -5,11 +5,19 @@ import { createClient } from '@/lib/supabase/server'
 import {
   profileSchema,
   organizationSchema,
+  poApprovalSchema,
+  invoiceMatchingSchema,
   type ProfileFormData,
   type OrganizationFormData,
+  type PoApprovalFormData,
+  type InvoiceMatchingFormData,
 } from '@/lib/validations/settings'
 import { createAuditLog } from '@/lib/audit'
 import { computeChanges } from '@/lib/audit-utils'
+import { resolveDocNumberFormats } from '@/lib/doc-number-utils'
+import { resolvePoApproval } from '@/lib/po-approval-utils'
+import { resolveInvoiceMatching } from '@/lib/invoice-match-utils'
+import type { Tenant } from '@/types'
 
 export async function updateProfile(formData: ProfileFormData) {
   const supabase = await createClient()
@@ -79,17 +87,25 @@ export async function updateOrganization(formData: OrganizationFormData) {
     return { error: { _form: ['Only admins can update organization settings'] } }
   }
 
-  const tenant = currentUser.tenant as { name?: string; settings?: { default_currency?: string; require_adjustment_approval?: boolean } } | null
+  const tenant = currentUser.tenant as { name?: string; settings?: Partial<Tenant['settings']> } | null
   const oldValues = {
     name: tenant?.name,
     default_currency: tenant?.settings?.default_currency || 'USD',
     require_adjustment_approval: tenant?.settings?.require_adjustment_approval || false,
+    fefo_default: tenant?.settings?.fefo_default || false,
+    costing_method: tenant?.settings?.costing_method || 'weighted_average',
+    allow_negative_stock: tenant?.settings?.allow_negative_stock || false,
+    doc_number_formats: resolveDocNumberFormats(tenant?.settings?.doc_number_formats),
   }
 
   const newSettings = {
     ...tenant?.settings,
     default_currency: validated.data.default_currency,
     require_adjustment_approval: validated.data.require_adjustment_approval,
+    fefo_default: validated.data.fefo_default,
+    costing_method: validated.data.costing_method,
+    allow_negative_stock: validated.data.allow_negative_stock,
+    doc_number_formats: validated.data.doc_number_formats,
   }
 
   const { error } = await supabase
@@ -108,6 +124,10 @@ export async function updateOrganization(formData: OrganizationFormData) {
     name: validated.data.name,
     default_currency: validated.data.default_currency,
     require_adjustment_approval: validated.data.require_adjustment_approval,
+    fefo_default: validated.data.fefo_default,
+    costing_method: validated.data.costing_method,
+    allow_negative_stock: validated.data.allow_negative_stock,
+    doc_number_formats: validated.data.doc_number_formats,
   }
 
   // Audit log
@@ -125,3 +145,121 @@ export async function updateOrganization(formData: OrganizationFormData) {
   revalidatePath('/settings')
   return { success: true }
 }
+
+export async function updatePoApprovalSettings(formData: PoApprovalFormData) {
+  const supabase = await createClient()
+
+  const validated = poApprovalSchema.safeParse(formData)
+  if (!validated.success) {
+    return { error: validated.error.flatten().fieldErrors }
+  }
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: { _form: ['Not authenticated'] } }
+
+  const { data: currentUser } = await supabase
+    .from('users')
+    .select('tenant_id, role, tenant:tenants(*)')
+    .eq('id', user.id)
+    .single()
+
+  if (!currentUser) return { error: { _form: ['User not found'] } }
+
+  // Only admin can change who approves purchase orders
+  if (currentUser.role !== 'admin') {
+    return { error: { _form: ['Only admins can update approval settings'] } }
+  }
+
+  const tenant = currentUser.tenant as { name?: string; settings?: Partial<Tenant['settings']> } | null
+  const oldValues = { ...resolvePoApproval(tenant?.settings?.po_approval) }
+  const newValues = {
+    enabled: validated.data.enabled,
+    threshold: validated.data.threshold ?? null,
+    supplier_ids: validated.data.supplier_ids,
+    location_ids: validated.data.location_ids,
+    approver_roles: validated.data.approver_roles,
+  }
+
+  const { error } = await supabase
+    .from('tenants')
+    .update({
+      settings: { ...tenant?.settings, po_approval: newValues },
+    })
+    .eq('id', currentUser.tenant_id)
+
+  if (error) {
+    return { error: { _form: [error.message] } }
+  }
+
+  await createAuditLog({
+    action: 'update',
+    resourceType: 'settings',
+    resourceId: currentUser.tenant_id,
+    resourceName: tenant?.name,
+    oldValues,
+    newValues,
+    changes: computeChanges(oldValues, newValues),
+    notes: 'Purchase order approval settings updated',
+  })
+
+  revalidatePath('/settings')
+  revalidatePath('/purchase-orders')
+  return { success: true }
+}
+
+export async function updateInvoiceMatchingSettings(formData: InvoiceMatchingFormData) {
+  const supabase = await createClient()
+
+  const validated = invoiceMatchingSchema.safeParse(formData)
+  if (!validated.success) {
+    return { error: validated.error.flatten().fieldErrors }
+  }
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: { _form: ['Not authenticated'] } }
+
+  const { data: currentUser } = await supabase
+    .from('users')
+    .select('tenant_id, role, tenant:tenants(*)')
+    .eq('id', user.id)
+    .single()
+
+  if (!currentUser) return { error: { _form: ['User not found'] } }
+
+  if (currentUser.role !== 'admin') {
+    return { error: { _form: ['Only admins can update invoice matching settings'] } }
+  }
+
+  const tenant = currentUser.tenant as { name?: string; settings?: Partial<Tenant['settings']> } | null
+  const oldValues = { ...resolveInvoiceMatching(tenant?.settings?.invoice_matching) }
+  const newValues = {
+    qty_tolerance_pct: validated.data.qty_tolerance_pct,
+    price_tolerance_pct: validated.data.price_tolerance_pct,
+  }
+
+  const { error } = await supabase
+    .from('tenants')
+    .update({
+      settings: { ...tenant?.settings, invoice_matching: newValues },
+    })
+    .eq('id', currentUser.tenant_id)
+
+  if (error) {
+    return { error: { _form: [error.message] } }
+  }
+
+  await createAuditLog({
+    action: 'update',
+    resourceType: 'settings',
+    resourceId: currentUser.tenant_id,
+    resourceName: tenant?.name,
+    oldValues,
+    newValues,
+    changes: computeChanges(oldValues, newValues),
+    notes: 'Invoice matching tolerances updated',
+  })
+
+  revalidatePath('/settings')
+  revalidatePath('/supplier-invoices')
+  return { success: true }
+}
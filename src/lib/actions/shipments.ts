@@ -4,7 +4,10 @@ import { revalidatePath } from 'next/cache'
 import { createClient } from '@/lib/supabase/server'
 import { shipmentSchema, type ShipmentFormData } from '@/lib/validations/shipment'
 import { createAuditLog } from '@/lib/audit'
+import { allocateFefoLines, convertUnitQuantities } from '@/lib/actions/stock'
 import { deleteEntityDocuments } from '@/lib/actions/documents'
+import { toSerialNumbers } from '@/lib/serial-utils'
+import { checkPostingDate } from '@/lib/actions/periods'
 
 export async function createShipment(formData: ShipmentFormData) {
   const supabase = await createClient()
@@ -25,13 +28,30 @@ export async function createShipment(formData: ShipmentFormData) {
 
   if (!userData) return { error: { _form: ['User not found'] } }
 
-  // Generate shipment number
-  const { count } = await supabase
-    .from('shipments')
-    .select('*', { count: 'exact', head: true })
-    .eq('tenant_id', userData.tenant_id)
+  // Quantities entered in alternate units are stored in base units
+  const { data: quantities, error: qtyError } = await convertUnitQuantities(validated.data.lines)
+  if (qtyError || !quantities) return { error: { _form: [qtyError || 'Invalid quantities'] } }
+
+  // Split auto-allocate lines across lots, earliest expiry first (FEFO)
+  const { data: allocatedLines, error: allocationError } = await allocateFefoLines(
+    validated.data.location_id,
+    validated.data.lines.map((line, index) => ({ ...line, ...quantities[index] })),
+    { bins: true }
+  )
+
+  if (allocationError || !allocatedLines) {
+    return { error: { _form: [allocationError || 'Failed to allocate lots'] } }
+  }
+
+  // Allocate shipment number from the tenant's document sequence
+  const { data: shipmentNumber, error: numberError } = await supabase.rpc('next_doc_number', {
+    p_tenant_id: userData.tenant_id,
+    p_doc_type: 'shipment',
+  })
 
-  const shipmentNumber = `SHP-${String((count || 0) + 1).padStart(6, '0')}`
+  if (numberError) {
+    return { error: { _form: [numberError.message] } }
+  }
 
   const { data: shipment, error: shipmentError } = await supabase
     .from('shipments')
@@ -55,7 +75,7 @@ export async function createShipment(formData: ShipmentFormData) {
 
   // Build lines with unit_cost from inventory balance
   const lines = []
-  for (const line of validated.data.lines) {
+  for (const line of allocatedLines) {
     // Normalize lot_number and expiry_date (trim empty strings to null)
     const lotNumber = line.lot_number?.trim() || null
     const expiryDate = line.expiry_date?.trim() || null
@@ -65,7 +85,7 @@ export async function createShipment(formData: ShipmentFormData) {
       .from('inventory_balances')
       .select('avg_cost')
       .eq('product_id', line.product_id)
-      .eq('location_id', validated.data.location_id)
+      .eq('location_id', line.bin_id || validated.data.location_id)
 
     if (lotNumber) {
       balanceQuery = balanceQuery.eq('lot_number', lotNumber)
@@ -85,9 +105,13 @@ export async function createShipment(formData: ShipmentFormData) {
       shipment_id: shipment.id,
       product_id: line.product_id,
       qty: line.qty,
+      entered_qty: line.entered_qty,
+      entered_uom: line.entered_uom,
       lot_number: lotNumber,
       expiry_date: expiryDate,
       unit_cost: balance?.avg_cost || 0,
+      serial_numbers: toSerialNumbers(line.serial_numbers),
+      bin_id: line.bin_id || null,
     })
   }
 
@@ -133,6 +157,20 @@ export async function updateShipment(id: string, formData: ShipmentFormData) {
   if (!shipment) return { error: { _form: ['Shipment not found'] } }
   if (shipment.status !== 'draft') return { error: { _form: ['Can only edit draft shipments'] } }
 
+  const { data: quantities, error: qtyError } = await convertUnitQuantities(validated.data.lines)
+  if (qtyError || !quantities) return { error: { _form: [qtyError || 'Invalid quantities'] } }
+
+  // Split auto-allocate lines across lots, earliest expiry first (FEFO)
+  const { data: allocatedLines, error: allocationError } = await allocateFefoLines(
+    validated.data.location_id,
+    validated.data.lines.map((line, index) => ({ ...line, ...quantities[index] })),
+    { bins: true }
+  )
+
+  if (allocationError || !allocatedLines) {
+    return { error: { _form: [allocationError || 'Failed to allocate lots'] } }
+  }
+
   const { error: updateError } = await supabase
     .from('shipments')
     .update({
@@ -150,7 +188,7 @@ export async function updateShipment(id: string, formData: ShipmentFormData) {
   await supabase.from('shipment_lines').delete().eq('shipment_id', id)
 
   const lines = []
-  for (const line of validated.data.lines) {
+  for (const line of allocatedLines) {
     const lotNumber = line.lot_number?.trim() || null
     const expiryDate = line.expiry_date?.trim() || null
 
@@ -158,7 +196,7 @@ export async function updateShipment(id: string, formData: ShipmentFormData) {
       .from('inventory_balances')
       .select('avg_cost')
       .eq('product_id', line.product_id)
-      .eq('location_id', validated.data.location_id)
+      .eq('location_id', line.bin_id || validated.data.location_id)
 
     if (lotNumber) {
       balanceQuery = balanceQuery.eq('lot_number', lotNumber)
@@ -178,9 +216,13 @@ export async function updateShipment(id: string, formData: ShipmentFormData) {
       shipment_id: id,
       product_id: line.product_id,
       qty: line.qty,
+      entered_qty: line.entered_qty,
+      entered_uom: line.entered_uom,
       lot_number: lotNumber,
       expiry_date: expiryDate,
       unit_cost: balance?.avg_cost || 0,
+      serial_numbers: toSerialNumbers(line.serial_numbers),
+      bin_id: line.bin_id || null,
     })
   }
 
@@ -212,48 +254,21 @@ export async function confirmShipment(id: string) {
 
   const { data: shipment } = await supabase
     .from('shipments')
-    .select('*, shipment_number, lines:shipment_lines(*, product:products(id, sku, name))')
+    .select('status, shipment_number')
     .eq('id', id)
     .single()
 
   if (!shipment) return { error: 'Shipment not found' }
   if (shipment.status !== 'draft') return { error: 'Can only confirm draft shipments' }
 
-  // Check stock availability for all lines
-  for (const line of shipment.lines || []) {
-    // Normalize lot_number and expiry_date
-    const lotNumber = line.lot_number?.trim() || null
-    const expiryDate = line.expiry_date?.trim() || null
-
-    let balanceQuery = supabase
-      .from('inventory_balances')
-      .select('qty_on_hand')
-      .eq('product_id', line.product_id)
-      .eq('location_id', shipment.location_id)
-
-    if (lotNumber) {
-      balanceQuery = balanceQuery.eq('lot_number', lotNumber)
-    } else {
-      balanceQuery = balanceQuery.or('lot_number.is.null,lot_number.eq.')
-    }
-
-    if (expiryDate) {
-      balanceQuery = balanceQuery.eq('expiry_date', expiryDate)
-    } else {
-      balanceQuery = balanceQuery.or('expiry_date.is.null,expiry_date.eq.')
-    }
-
-    const { data: balance } = await balanceQuery.maybeSingle()
+  // Reserve available stock for every line and confirm in a single transaction
+  const { data, error } = await supabase.rpc('confirm_shipment', {
+    p_shipment_id: id,
+  })
 
-    if (!balance || balance.qty_on_hand < line.qty) {
-      return { error: `Insufficient stock for ${line.product?.sku || 'product'}` }
-    }
-  }
+  if (error) return { error: error.message }
 
-  await supabase
-    .from('shipments')
-    .update({ status: 'confirmed', updated_at: new Date().toISOString() })
-    .eq('id', id)
+  const reservedItems = (data || []) as { product_id: string; qty: number; reserved: number }[]
 
   // Audit log
   await createAuditLog({
@@ -262,128 +277,117 @@ export async function confirmShipment(id: string) {
     resourceId: id,
     resourceName: shipment.shipment_number,
     oldValues: { status: 'draft' },
-    newValues: { status: 'confirmed' },
+    newValues: { status: 'confirmed', reserved_items: reservedItems },
   })
 
   revalidatePath('/shipments')
   revalidatePath(`/shipments/${id}`)
+  revalidatePath('/stock')
+  revalidatePath('/shipments/new')
+  revalidatePath('/transfers/new')
   return { success: true }
 }
 
-export async function shipShipment(id: string, shipDate?: string) {
+export async function shipShipment(
+  id: string,
+  shipDate?: string,
+  options: { lines?: { line_id: string; qty_to_ship: number }[]; createBackorder?: boolean } = {}
+) {
   const supabase = await createClient()
 
   const { data: { user } } = await supabase.auth.getUser()
   if (!user) return { error: 'Not authenticated' }
 
-  const { data: userData } = await supabase
-    .from('users')
-    .select('tenant_id')
-    .eq('id', user.id)
-    .single()
-
   const { data: shipment } = await supabase
     .from('shipments')
-    .select('*, shipment_number, lines:shipment_lines(*, product:products(id, sku, name))')
+    .select('status, shipment_number')
     .eq('id', id)
     .single()
 
   if (!shipment) return { error: 'Shipment not found' }
-  if (shipment.status !== 'confirmed') return { error: 'Can only ship confirmed shipments' }
-
-  const shippedItems: { product_id: string; qty: number }[] = []
-
-  // Deduct stock and record movements
-  for (const line of shipment.lines || []) {
-    // Normalize lot_number and expiry_date
-    const lotNumber = line.lot_number?.trim() || null
-    const expiryDate = line.expiry_date?.trim() || null
+  if (shipment.status !== 'confirmed' && shipment.status !== 'partial') {
+    return { error: 'Can only ship confirmed or partially shipped shipments' }
+  }
 
-    // Query by product, location, lot_number, and expiry_date
-    let balanceQuery = supabase
-      .from('inventory_balances')
-      .select('id, qty_on_hand, avg_cost')
-      .eq('product_id', line.product_id)
-      .eq('location_id', shipment.location_id)
+  const periodError = await checkPostingDate(shipDate)
+  if (periodError) return { error: periodError }
 
-    if (lotNumber) {
-      balanceQuery = balanceQuery.eq('lot_number', lotNumber)
-    } else {
-      balanceQuery = balanceQuery.or('lot_number.is.null,lot_number.eq.')
-    }
+  // Stock deduction, movements, backorder and status change run in a single transaction.
+  // Without explicit lines every line ships as much as is available.
+  const { data, error } = await supabase.rpc('ship_shipment', {
+    p_shipment_id: id,
+    p_ship_date: shipDate || null,
+    p_lines: options.lines || null,
+    p_create_backorder: options.createBackorder || false,
+  })
 
-    if (expiryDate) {
-      balanceQuery = balanceQuery.eq('expiry_date', expiryDate)
-    } else {
-      balanceQuery = balanceQuery.or('expiry_date.is.null,expiry_date.eq.')
-    }
+  if (error) return { error: error.message }
 
-    const { data: balance, error: balanceError } = await balanceQuery.maybeSingle()
+  const result = data as {
+    status: string
+    backorder_id: string | null
+    items: { product_id: string; qty: number }[]
+  }
+  const shippedItems = result.items || []
 
-    if (balanceError) {
-      return { error: `Error finding stock: ${balanceError.message}` }
-    }
+  // Audit log
+  await createAuditLog({
+    action: 'ship',
+    resourceType: 'shipment',
+    resourceId: id,
+    resourceName: shipment.shipment_number,
+    oldValues: { status: shipment.status },
+    newValues: {
+      status: result.status,
+      shipped_items: shippedItems,
+      backorder_id: result.backorder_id,
+    },
+    notes: `Shipped ${shippedItems.length} item(s)`,
+  })
 
-    if (!balance || balance.qty_on_hand < line.qty) {
-      return { error: `Insufficient stock for ${line.product?.sku || 'product'}` }
-    }
+  revalidatePath('/shipments')
+  revalidatePath(`/shipments/${id}`)
+  revalidatePath('/stock')
+  revalidatePath('/shipments/new')
+  revalidatePath('/transfers/new')
+  revalidatePath('/returns/new')
+  revalidatePath('/reports/backorders')
+  return { success: true, status: result.status, backorderId: result.backorder_id }
+}
 
-    const unitCost = balance.avg_cost || 0
-    shippedItems.push({ product_id: line.product_id, qty: line.qty })
+export async function createShipmentBackorder(id: string) {
+  const supabase = await createClient()
 
-    // Deduct from inventory (using balance id for precision)
-    const { error: updateError } = await supabase
-      .from('inventory_balances')
-      .update({
-        qty_on_hand: balance.qty_on_hand - line.qty,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', balance.id)
-
-    if (updateError) {
-      return { error: `Error updating stock: ${updateError.message}` }
-    }
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: 'Not authenticated' }
 
-    // Update line with cost
-    await supabase
-      .from('shipment_lines')
-      .update({ unit_cost: unitCost })
-      .eq('id', line.id)
+  const { data: shipment } = await supabase
+    .from('shipments')
+    .select('status, shipment_number')
+    .eq('id', id)
+    .single()
 
-    // Record stock movement
-    await supabase.from('stock_movements').insert({
-      tenant_id: userData?.tenant_id,
-      product_id: line.product_id,
-      location_id: shipment.location_id,
-      qty: -line.qty,
-      movement_type: 'ship',
-      reference_type: 'shipment',
-      reference_id: id,
-      lot_number: lotNumber,
-      expiry_date: expiryDate,
-      unit_cost: unitCost,
-      created_by: user.id,
-    })
+  if (!shipment) return { error: 'Shipment not found' }
+  if (shipment.status !== 'partial') {
+    return { error: 'Can only create backorders for partially shipped shipments' }
   }
 
-  await supabase
-    .from('shipments')
-    .update({
-      status: 'completed',
-      ship_date: shipDate || shipment.ship_date || new Date().toISOString().split('T')[0],
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', id)
+  // Backorder creation, reservation release and closing the original in a single transaction
+  const { data: backorderId, error } = await supabase.rpc('create_shipment_backorder', {
+    p_shipment_id: id,
+  })
+
+  if (error) return { error: error.message }
 
   // Audit log
   await createAuditLog({
-    action: 'ship',
+    action: 'update',
     resourceType: 'shipment',
     resourceId: id,
     resourceName: shipment.shipment_number,
-    oldValues: { status: 'confirmed' },
-    newValues: { status: 'completed', shipped_items: shippedItems },
-    notes: `Shipped ${shippedItems.length} item(s)`,
+    oldValues: { status: 'partial' },
+    newValues: { status: 'completed', backorder_id: backorderId },
+    notes: 'Moved outstanding quantities to a backorder',
   })
 
   revalidatePath('/shipments')
@@ -391,8 +395,8 @@ export async function shipShipment(id: string, shipDate?: string) {
   revalidatePath('/stock')
   revalidatePath('/shipments/new')
   revalidatePath('/transfers/new')
-  revalidatePath('/returns/new')
-  return { success: true }
+  revalidatePath('/reports/backorders')
+  return { success: true, id: backorderId as string }
 }
 
 export async function cancelShipment(id: string) {
@@ -409,10 +413,12 @@ export async function cancelShipment(id: string) {
     return { error: 'Can only cancel draft or confirmed shipments' }
   }
 
-  await supabase
-    .from('shipments')
-    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
-    .eq('id', id)
+  // Cancels and frees any stock held for this shipment in one transaction
+  const { error } = await supabase.rpc('cancel_shipment', {
+    p_shipment_id: id,
+  })
+
+  if (error) return { error: error.message }
 
   // Audit log
   await createAuditLog({
@@ -426,6 +432,61 @@ export async function cancelShipment(id: string) {
 
   revalidatePath('/shipments')
   revalidatePath(`/shipments/${id}`)
+  revalidatePath('/stock')
+  revalidatePath('/shipments/new')
+  revalidatePath('/transfers/new')
+  return { success: true }
+}
+
+export async function voidShipment(id: string, reason: string) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: 'Not authenticated' }
+
+  const { data: shipment } = await supabase
+    .from('shipments')
+    .select('status, shipment_number')
+    .eq('id', id)
+    .single()
+
+  if (!shipment) return { error: 'Shipment not found' }
+  if (shipment.status !== 'completed' && shipment.status !== 'partial') {
+    return { error: 'Can only void completed or partially shipped shipments' }
+  }
+  if (!reason.trim()) return { error: 'A void reason is required' }
+
+  const periodError = await checkPostingDate()
+  if (periodError) return { error: periodError }
+
+  // Reversing movements, balances, costs and status update in a single transaction
+  const { data, error } = await supabase.rpc('void_shipment', {
+    p_shipment_id: id,
+    p_reason: reason.trim(),
+  })
+
+  if (error) return { error: error.message }
+
+  const reversedItems = (data || []) as { product_id: string; qty: number }[]
+
+  // Audit log
+  await createAuditLog({
+    action: 'void',
+    resourceType: 'shipment',
+    resourceId: id,
+    resourceName: shipment.shipment_number,
+    oldValues: { status: shipment.status },
+    newValues: { status: 'voided', void_reason: reason.trim(), reversed_items: reversedItems },
+    notes: `Voided: ${reason.trim()}`,
+  })
+
+  revalidatePath('/shipments')
+  revalidatePath(`/shipments/${id}`)
+  revalidatePath('/stock')
+  revalidatePath('/shipments/new')
+  revalidatePath('/transfers/new')
+  revalidatePath('/returns/new')
+  revalidatePath('/reports/backorders')
   return { success: true }
 }
 
@@ -1,6 +1,7 @@
 'use server'
 
 import { createClient } from '@/lib/supabase/server'
+import { toBaseQty, isAllowedQty, type ConvertedQty } from '@/lib/uom-utils'
 import type { StockMovement } from '@/types'
 
 interface GetStockMovementsParams {
@@ -35,6 +36,7 @@ export async function getStockMovements({
     `)
     .eq('product_id', productId)
     .eq('location_id', locationId)
+    .order('effective_date', { ascending: false })
     .order('created_at', { ascending: false })
     .limit(100)
 
@@ -134,6 +136,41 @@ export async function getStockMovements({
             }
             break
           }
+          case 'assembly': {
+            const { data: assembly } = await supabase
+              .from('assemblies')
+              .select('assembly_number')
+              .eq('id', movement.reference_id)
+              .single()
+            if (assembly) {
+              enriched.document_number = assembly.assembly_number
+            }
+            break
+          }
+          case 'supplier_invoice': {
+            const { data: invoice } = await supabase
+              .from('supplier_invoices')
+              .select('invoice_number, supplier:suppliers(name)')
+              .eq('id', movement.reference_id)
+              .single()
+            if (invoice) {
+              enriched.document_number = invoice.invoice_number
+              enriched.partner_name = (invoice.supplier as unknown as { name: string } | null)?.name
+            }
+            break
+          }
+          case 'bin_move': {
+            const { data: move } = await supabase
+              .from('bin_moves')
+              .select('from_location:locations!bin_moves_from_location_id_fkey(name), to_location:locations!bin_moves_to_location_id_fkey(name)')
+              .eq('id', movement.reference_id)
+              .single()
+            if (move) {
+              enriched.from_location_name = (move.from_location as unknown as { name: string } | null)?.name
+              enriched.to_location_name = (move.to_location as unknown as { name: string } | null)?.name
+            }
+            break
+          }
         }
       } catch {
         // Ignore errors for individual document lookups
@@ -179,3 +216,168 @@ export async function getDepletedStock() {
 
   return { data, error: null }
 }
+
+interface AllocatableLine {
+  product_id: string
+  qty: number
+  lot_number?: string | null
+  expiry_date?: string | null
+  auto_allocate?: boolean
+  entered_qty?: number | null
+  // Allocate within this bin of the location instead
+  bin_id?: string | null
+}
+
+/**
+ * Expand auto-allocate lines into one line per lot, earliest expiry first (FEFO).
+ * Lines with an explicit lot are returned unchanged. With `bins`, lines without
+ * a bin also allocate from the location's bins and get the bin they pick from.
+ */
+export async function allocateFefoLines<T extends AllocatableLine>(
+  locationId: string,
+  lines: T[],
+  { bins = false }: { bins?: boolean } = {}
+): Promise<{ data: T[] | null; error: string | null }> {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { data: null, error: 'Not authenticated' }
+
+  const { data: userData } = await supabase
+    .from('users')
+    .select('tenant_id')
+    .eq('id', user.id)
+    .single()
+
+  if (!userData) return { data: null, error: 'User not found' }
+
+  const allocated: T[] = []
+  // Quantity already taken per product and bin, so repeated lines don't reuse the same lots
+  const takenByStock = new Map<string, number>()
+
+  for (const line of lines) {
+    if (!line.auto_allocate) {
+      allocated.push(line)
+      continue
+    }
+
+    const stockLocationId = line.bin_id || locationId
+    const takenKey = `${line.product_id}-${stockLocationId}`
+    const taken = takenByStock.get(takenKey) || 0
+    const { data: picks, error } = await supabase.rpc('get_fefo_allocation', {
+      p_tenant_id: userData.tenant_id,
+      p_product_id: line.product_id,
+      p_location_id: stockLocationId,
+      p_qty_needed: taken + line.qty,
+      p_include_bins: bins && !line.bin_id,
+    })
+
+    if (error) return { data: null, error: error.message }
+
+    let toSkip = taken
+    let allocatedQty = 0
+    for (const pick of (picks || []) as {
+      lot_number: string | null
+      expiry_date: string | null
+      qty_to_use: number
+      bin_id: string | null
+    }[]) {
+      const skipped = Math.min(toSkip, pick.qty_to_use)
+      toSkip -= skipped
+      const qty = pick.qty_to_use - skipped
+      if (qty <= 0) continue
+
+      allocated.push({
+        ...line,
+        qty,
+        // Each lot keeps its share of the quantity as entered
+        entered_qty: line.entered_qty != null ? (line.entered_qty * qty) / line.qty : line.entered_qty,
+        lot_number: pick.lot_number,
+        expiry_date: pick.expiry_date,
+        bin_id: pick.bin_id || line.bin_id,
+        auto_allocate: false,
+      })
+      allocatedQty += qty
+    }
+
+    if (allocatedQty < line.qty) {
+      // Where negative stock is allowed the shortfall ships unlotted and
+      // takes that balance below zero
+      const { data: allowNegative } = await supabase.rpc('negative_stock_allowed', {
+        p_tenant_id: userData.tenant_id,
+        p_location_id: stockLocationId,
+      })
+
+      if (allowNegative) {
+        const qty = line.qty - allocatedQty
+        allocated.push({
+          ...line,
+          qty,
+          entered_qty: line.entered_qty != null ? (line.entered_qty * qty) / line.qty : line.entered_qty,
+          lot_number: null,
+          expiry_date: null,
+          auto_allocate: false,
+        })
+        takenByStock.set(takenKey, taken + line.qty)
+        continue
+      }
+
+      const { data: product } = await supabase
+        .from('products')
+        .select('sku')
+        .eq('id', line.product_id)
+        .single()
+
+      return {
+        data: null,
+        error: `Insufficient available stock for ${product?.sku || 'product'}: short by ${line.qty - allocatedQty}`,
+      }
+    }
+
+    takenByStock.set(takenKey, taken + line.qty)
+  }
+
+  return { data: allocated, error: null }
+}
+
+interface UnitLine {
+  product_id: string
+  qty: number
+  entered_uom?: string | null
+}
+
+/**
+ * Convert line quantities entered in alternate units to base units, using the
+ * product's current unit factors. Results are in the same order as the lines.
+ * Fails when a product has no such unit or needs whole base units.
+ */
+export async function convertUnitQuantities(
+  lines: UnitLine[]
+): Promise<{ data: ConvertedQty[] | null; error: string | null }> {
+  const supabase = await createClient()
+
+  const productIds = [...new Set(lines.map((line) => line.product_id))]
+  const { data: products, error } = await supabase
+    .from('products')
+    .select('id, sku, allow_decimal_qty, units:product_units(name, factor, is_purchase_default, is_sales_default, is_stock_default)')
+    .in('id', productIds)
+
+  if (error) return { data: null, error: error.message }
+
+  const converted: ConvertedQty[] = []
+  for (const line of lines) {
+    const product = products?.find((p) => p.id === line.product_id)
+    if (!product) return { data: null, error: 'Product not found' }
+
+    const result = toBaseQty(line.qty, line.entered_uom, product)
+    if (!result) {
+      return { data: null, error: `${product.sku} has no unit "${line.entered_uom}"` }
+    }
+    if (!isAllowedQty(result.qty, product)) {
+      return { data: null, error: `${product.sku} must be a whole number of base units (got ${result.qty})` }
+    }
+    converted.push(result)
+  }
+
+  return { data: converted, error: null }
+}
@@ -0,0 +1,420 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { createClient } from '@/lib/supabase/server'
+import {
+  supplierInvoiceSchema,
+  invoiceApprovalSchema,
+  type SupplierInvoiceFormData,
+  type InvoiceApprovalFormData,
+} from '@/lib/validations/supplier-invoice'
+import { createAuditLog } from '@/lib/audit'
+import { deleteEntityDocuments } from '@/lib/actions/documents'
+import { resolveInvoiceMatching, matchInvoiceLine } from '@/lib/invoice-match-utils'
+import type { InvoiceMatchingSettings, Tenant, UserRole } from '@/types'
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>
+
+interface MatchedLine {
+  po_line_id: string
+  product_id: string
+  qty_invoiced: number
+  unit_price: number
+  qty_ordered: number
+  qty_received: number
+  qty_previously_invoiced: number
+  po_unit_cost: number
+  qty_match: boolean
+  price_match: boolean
+}
+
+async function getInvoiceContext() {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return null
+
+  const { data: userData } = await supabase
+    .from('users')
+    .select('tenant_id, role, tenant:tenants(settings)')
+    .eq('id', user.id)
+    .single()
+
+  if (!userData) return null
+
+  const settings = (userData.tenant as { settings?: Partial<Tenant['settings']> } | null)?.settings
+  return {
+    userId: user.id,
+    tenantId: userData.tenant_id as string,
+    role: userData.role as UserRole,
+    rules: resolveInvoiceMatching(settings?.invoice_matching),
+  }
+}
+
+/**
+ * Snapshot each invoice line against its PO line and match it. Quantities
+ * invoiced on earlier, non-cancelled invoices count towards the received
+ * quantity; `before` limits those to invoices created before it.
+ */
+async function matchLines(
+  supabase: SupabaseClient,
+  poId: string,
+  lines: { po_line_id: string; product_id: string; qty_invoiced: number; unit_price: number }[],
+  rules: InvoiceMatchingSettings,
+  options: { excludeInvoiceId?: string; before?: string } = {}
+): Promise<{ lines?: MatchedLine[]; error?: string }> {
+  const { data: poLines } = await supabase
+    .from('purchase_order_lines')
+    .select('id, product_id, qty_ordered, qty_received, unit_cost')
+    .eq('po_id', poId)
+
+  const poLineMap = new Map((poLines || []).map((line) => [line.id as string, line]))
+
+  let invoicedQuery = supabase
+    .from('supplier_invoice_lines')
+    .select('po_line_id, qty_invoiced, invoice:supplier_invoices!inner(id, status, created_at)')
+    .in('po_line_id', lines.map((line) => line.po_line_id))
+    .neq('invoice.status', 'cancelled')
+  if (options.excludeInvoiceId) invoicedQuery = invoicedQuery.neq('invoice.id', options.excludeInvoiceId)
+  if (options.before) invoicedQuery = invoicedQuery.lt('invoice.created_at', options.before)
+  const { data: invoiced } = await invoicedQuery
+
+  const previouslyInvoiced = new Map<string, number>()
+  for (const line of invoiced || []) {
+    previouslyInvoiced.set(
+      line.po_line_id,
+      (previouslyInvoiced.get(line.po_line_id) || 0) + Number(line.qty_invoiced)
+    )
+  }
+
+  const matched: MatchedLine[] = []
+  for (const line of lines) {
+    const poLine = poLineMap.get(line.po_line_id)
+    if (!poLine || poLine.product_id !== line.product_id) {
+      return { error: 'Invoice line does not belong to this purchase order' }
+    }
+
+    const snapshot = {
+      po_line_id: line.po_line_id,
+      product_id: line.product_id,
+      qty_invoiced: Number(line.qty_invoiced),
+      unit_price: Number(line.unit_price),
+      qty_ordered: Number(poLine.qty_ordered),
+      qty_received: Number(poLine.qty_received),
+      qty_previously_invoiced: previouslyInvoiced.get(line.po_line_id) || 0,
+      po_unit_cost: Number(poLine.unit_cost),
+    }
+    matched.push({ ...snapshot, ...matchInvoiceLine(rules, snapshot) })
+  }
+
+  return { lines: matched }
+}
+
+function revalidateInvoice(id: string, poId: string, posted: boolean) {
+  revalidatePath('/supplier-invoices')
+  revalidatePath('/supplier-invoices/mismatches')
+  revalidatePath(`/supplier-invoices/${id}`)
+  revalidatePath(`/purchase-orders/${poId}`)
+  if (posted) {
+    revalidatePath('/stock')
+    revalidatePath('/reports/valuation')
+  }
+}
+
+export async function createSupplierInvoice(formData: SupplierInvoiceFormData) {
+  const supabase = await createClient()
+
+  const validated = supplierInvoiceSchema.safeParse(formData)
+  if (!validated.success) {
+    return { error: validated.error.flatten().fieldErrors }
+  }
+
+  const context = await getInvoiceContext()
+  if (!context) return { error: { _form: ['Not authenticated'] } }
+  if (context.role !== 'admin' && context.role !== 'manager') {
+    return { error: { _form: ['Only admins and managers can record supplier invoices'] } }
+  }
+
+  const { data: po } = await supabase
+    .from('purchase_orders')
+    .select('status, po_number, supplier_id')
+    .eq('id', validated.data.po_id)
+    .single()
+
+  if (!po) return { error: { _form: ['Purchase order not found'] } }
+  if (!['confirmed', 'partial', 'completed'].includes(po.status)) {
+    return { error: { _form: ['Can only invoice confirmed, partially received or completed POs'] } }
+  }
+
+  const { lines, error: matchError } = await matchLines(
+    supabase,
+    validated.data.po_id,
+    validated.data.lines.filter((line) => line.qty_invoiced > 0),
+    context.rules
+  )
+  if (matchError || !lines) return { error: { _form: [matchError || 'Invalid invoice lines'] } }
+
+  const isMatched = lines.every((line) => line.qty_match && line.price_match)
+
+  const invoiceNumber = validated.data.invoice_number.trim()
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('supplier_invoices')
+    .insert({
+      tenant_id: context.tenantId,
+      po_id: validated.data.po_id,
+      supplier_id: po.supplier_id,
+      invoice_number: invoiceNumber,
+      invoice_date: validated.data.invoice_date,
+      due_date: validated.data.due_date || null,
+      notes: validated.data.notes || null,
+      status: isMatched ? 'matched' : 'mismatch',
+      created_by: context.userId,
+    })
+    .select()
+    .single()
+
+  if (invoiceError) {
+    if (invoiceError.code === '23505') {
+      return { error: { invoice_number: ['This invoice number is already recorded for the supplier'] } }
+    }
+    return { error: { _form: [invoiceError.message] } }
+  }
+
+  const { error: linesError } = await supabase
+    .from('supplier_invoice_lines')
+    .insert(lines.map((line) => ({ ...line, tenant_id: context.tenantId, invoice_id: invoice.id })))
+
+  if (linesError) {
+    await supabase.from('supplier_invoices').delete().eq('id', invoice.id)
+    return { error: { _form: [linesError.message] } }
+  }
+
+  if (isMatched) {
+    const { error: postError } = await supabase.rpc('post_supplier_invoice', { p_invoice_id: invoice.id })
+    if (postError) {
+      await supabase.from('supplier_invoices').delete().eq('id', invoice.id)
+      return { error: { _form: [postError.message] } }
+    }
+  }
+
+  // Audit log
+  await createAuditLog({
+    action: 'create',
+    resourceType: 'supplier_invoice',
+    resourceId: invoice.id,
+    resourceName: invoiceNumber,
+    newValues: {
+      invoice_number: invoiceNumber,
+      po_id: validated.data.po_id,
+      po_number: po.po_number,
+      invoice_date: validated.data.invoice_date,
+      status: invoice.status,
+      lines_count: lines.length,
+      total: lines.reduce((sum, line) => sum + line.qty_invoiced * line.unit_price, 0),
+    },
+    notes: isMatched ? 'Matched and posted' : 'Sent to mismatch queue',
+  })
+
+  revalidateInvoice(invoice.id, validated.data.po_id, isMatched)
+  return { success: true, id: invoice.id, matched: isMatched }
+}
+
+export async function rematchSupplierInvoice(id: string) {
+  const supabase = await createClient()
+
+  const context = await getInvoiceContext()
+  if (!context) return { error: 'Not authenticated' }
+  if (context.role !== 'admin' && context.role !== 'manager') {
+    return { error: 'Only admins and managers can re-match supplier invoices' }
+  }
+
+  const { data: invoice } = await supabase
+    .from('supplier_invoices')
+    .select('status, invoice_number, po_id, created_at, lines:supplier_invoice_lines(id, po_line_id, product_id, qty_invoiced, unit_price)')
+    .eq('id', id)
+    .single()
+
+  if (!invoice) return { error: 'Supplier invoice not found' }
+  if (invoice.status !== 'mismatch') return { error: 'Only mismatched invoices can be re-matched' }
+
+  const invoiceLines = (invoice.lines || []) as {
+    id: string
+    po_line_id: string
+    product_id: string
+    qty_invoiced: number
+    unit_price: number
+  }[]
+
+  // Receipts since the invoice was entered may now cover it
+  const { lines, error: matchError } = await matchLines(supabase, invoice.po_id, invoiceLines, context.rules, {
+    excludeInvoiceId: id,
+    before: invoice.created_at,
+  })
+  if (matchError || !lines) return { error: matchError || 'Invalid invoice lines' }
+
+  const isMatched = lines.every((line) => line.qty_match && line.price_match)
+
+  for (const [index, line] of lines.entries()) {
+    const { error } = await supabase
+      .from('supplier_invoice_lines')
+      .update({
+        qty_ordered: line.qty_ordered,
+        qty_received: line.qty_received,
+        qty_previously_invoiced: line.qty_previously_invoiced,
+        po_unit_cost: line.po_unit_cost,
+        qty_match: line.qty_match,
+        price_match: line.price_match,
+      })
+      .eq('id', invoiceLines[index].id)
+
+    if (error) return { error: error.message }
+  }
+
+  if (isMatched) {
+    // Posts and marks the invoice matched in one transaction
+    const { error: postError } = await supabase.rpc('post_supplier_invoice', {
+      p_invoice_id: id,
+      p_status: 'matched',
+    })
+    if (postError) return { error: postError.message }
+  }
+
+  await createAuditLog({
+    action: 'update',
+    resourceType: 'supplier_invoice',
+    resourceId: id,
+    resourceName: invoice.invoice_number,
+    oldValues: { status: invoice.status },
+    newValues: { status: isMatched ? 'matched' : 'mismatch' },
+    notes: isMatched ? 'Re-matched and posted' : 'Re-matched, still mismatched',
+  })
+
+  revalidateInvoice(id, invoice.po_id, isMatched)
+  return { success: true, matched: isMatched }
+}
+
+export async function approveSupplierInvoice(id: string, formData: InvoiceApprovalFormData) {
+  const supabase = await createClient()
+
+  const validated = invoiceApprovalSchema.safeParse(formData)
+  if (!validated.success) {
+    return { error: validated.error.flatten().fieldErrors.note?.[0] || 'Invalid approval' }
+  }
+
+  const context = await getInvoiceContext()
+  if (!context) return { error: 'Not authenticated' }
+  if (context.role !== 'admin' && context.role !== 'manager') {
+    return { error: 'Only admins and managers can approve invoice mismatches' }
+  }
+
+  const { data: invoice } = await supabase
+    .from('supplier_invoices')
+    .select('status, invoice_number, po_id')
+    .eq('id', id)
+    .single()
+
+  if (!invoice) return { error: 'Supplier invoice not found' }
+  if (invoice.status !== 'mismatch') return { error: 'Only mismatched invoices need approval' }
+
+  // Accepting the invoice applies its prices to the received stock
+  const { error: postError } = await supabase.rpc('post_supplier_invoice', {
+    p_invoice_id: id,
+    p_status: 'approved',
+    p_approval_note: validated.data.note,
+  })
+  if (postError) return { error: postError.message }
+
+  await createAuditLog({
+    action: 'approve',
+    resourceType: 'supplier_invoice',
+    resourceId: id,
+    resourceName: invoice.invoice_number,
+    oldValues: { status: invoice.status },
+    newValues: { status: 'approved' },
+    notes: validated.data.note,
+  })
+
+  revalidateInvoice(id, invoice.po_id, true)
+  return { success: true }
+}
+
+export async function cancelSupplierInvoice(id: string) {
+  const supabase = await createClient()
+
+  const context = await getInvoiceContext()
+  if (!context) return { error: 'Not authenticated' }
+  if (context.role !== 'admin' && context.role !== 'manager') {
+    return { error: 'Only admins and managers can cancel supplier invoices' }
+  }
+
+  const { data: invoice } = await supabase
+    .from('supplier_invoices')
+    .select('status, invoice_number, po_id, posted_at')
+    .eq('id', id)
+    .single()
+
+  if (!invoice) return { error: 'Supplier invoice not found' }
+  if (invoice.posted_at || invoice.status !== 'mismatch') {
+    return { error: 'Can only cancel invoices waiting in the mismatch queue' }
+  }
+
+  const { error } = await supabase
+    .from('supplier_invoices')
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+    .eq('id', id)
+
+  if (error) return { error: error.message }
+
+  // Audit log
+  await createAuditLog({
+    action: 'cancel',
+    resourceType: 'supplier_invoice',
+    resourceId: id,
+    resourceName: invoice.invoice_number,
+    oldValues: { status: invoice.status },
+    newValues: { status: 'cancelled' },
+  })
+
+  revalidateInvoice(id, invoice.po_id, false)
+  return { success: true }
+}
+
+export async function deleteSupplierInvoice(id: string) {
+  const supabase = await createClient()
+
+  const context = await getInvoiceContext()
+  if (!context) return { error: 'Not authenticated' }
+  if (context.role !== 'admin' && context.role !== 'manager') {
+    return { error: 'Only admins and managers can delete supplier invoices' }
+  }
+
+  const { data: invoice } = await supabase
+    .from('supplier_invoices')
+    .select('status, invoice_number, po_id')
+    .eq('id', id)
+    .single()
+
+  if (!invoice) return { error: 'Supplier invoice not found' }
+  if (invoice.status !== 'cancelled') {
+    return { error: 'Can only delete cancelled invoices' }
+  }
+
+  await deleteEntityDocuments('supplier_invoice', id)
+
+  const { error } = await supabase.from('supplier_invoices').delete().eq('id', id)
+
+  if (error) return { error: error.message }
+
+  // Audit log
+  await createAuditLog({
+    action: 'delete',
+    resourceType: 'supplier_invoice',
+    resourceId: id,
+    resourceName: invoice.invoice_number,
+    oldValues: { status: invoice.status, po_id: invoice.po_id },
+  })
+
+  revalidatePath('/supplier-invoices')
+  revalidatePath(`/purchase-orders/${invoice.po_id}`)
+  return { success: true }
+}
@@ -2,7 +2,12 @@
 
 import { revalidatePath } from 'next/cache'
 import { createClient } from '@/lib/supabase/server'
-import { supplierSchema, type SupplierFormData } from '@/lib/validations/supplier'
+import {
+  supplierSchema,
+  supplierProductSchema,
+  type SupplierFormData,
+  type SupplierProductFormData,
+} from '@/lib/validations/supplier'
 import { createAuditLog } from '@/lib/audit'
 import { computeChanges } from '@/lib/audit-utils'
 import { deleteEntityDocuments } from '@/lib/actions/documents'
@@ -169,3 +174,168 @@ export async function deleteSupplier(id: string) {
   revalidatePath('/suppliers')
   return { success: true }
 }
+
+function toSupplierProductValues(data: SupplierProductFormData) {
+  return {
+    supplier_sku: data.supplier_sku || null,
+    contract_price: data.contract_price ?? null,
+    currency: data.currency ? data.currency.toUpperCase() : null,
+    lead_time_days: data.lead_time_days ?? null,
+    min_order_qty: data.min_order_qty || null,
+    pack_size: data.pack_size || null,
+    preferred: data.preferred,
+  }
+}
+
+// A product has at most one preferred supplier
+async function clearPreferredSupplier(productId: string, exceptId?: string) {
+  const supabase = await createClient()
+
+  let query = supabase
+    .from('supplier_products')
+    .update({ preferred: false, updated_at: new Date().toISOString() })
+    .eq('product_id', productId)
+    .eq('preferred', true)
+
+  if (exceptId) query = query.neq('id', exceptId)
+
+  const { error } = await query
+  return error?.message ?? null
+}
+
+export async function createSupplierProduct(formData: SupplierProductFormData) {
+  const supabase = await createClient()
+
+  const validated = supplierProductSchema.safeParse(formData)
+  if (!validated.success) {
+    return { error: validated.error.flatten().fieldErrors }
+  }
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: { _form: ['Not authenticated'] } }
+
+  const { data: userData } = await supabase
+    .from('users')
+    .select('tenant_id')
+    .eq('id', user.id)
+    .single()
+
+  if (!userData) return { error: { _form: ['User not found'] } }
+
+  if (validated.data.preferred) {
+    const clearError = await clearPreferredSupplier(validated.data.product_id)
+    if (clearError) return { error: { _form: [clearError] } }
+  }
+
+  const insertData = {
+    tenant_id: userData.tenant_id,
+    supplier_id: validated.data.supplier_id,
+    product_id: validated.data.product_id,
+    ...toSupplierProductValues(validated.data),
+  }
+
+  const { data: supplierProduct, error } = await supabase
+    .from('supplier_products')
+    .insert(insertData)
+    .select('id, supplier:suppliers(name), product:products(sku)')
+    .single()
+
+  if (error) {
+    if (error.code === '23505') {
+      return { error: { _form: ['This supplier already lists this product'] } }
+    }
+    return { error: { _form: [error.message] } }
+  }
+
+  await createAuditLog({
+    action: 'create',
+    resourceType: 'supplier_product',
+    resourceId: supplierProduct.id,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    resourceName: `${(supplierProduct.supplier as any)?.name} / ${(supplierProduct.product as any)?.sku}`,
+    newValues: insertData,
+  })
+
+  revalidatePath(`/suppliers/${validated.data.supplier_id}`)
+  revalidatePath(`/products/${validated.data.product_id}`)
+  return { success: true, id: supplierProduct.id }
+}
+
+export async function updateSupplierProduct(id: string, formData: SupplierProductFormData) {
+  const supabase = await createClient()
+
+  const validated = supplierProductSchema.safeParse(formData)
+  if (!validated.success) {
+    return { error: validated.error.flatten().fieldErrors }
+  }
+
+  const { data: oldSupplierProduct } = await supabase
+    .from('supplier_products')
+    .select('*, supplier:suppliers(name), product:products(sku)')
+    .eq('id', id)
+    .single()
+
+  if (!oldSupplierProduct) return { error: { _form: ['Supplier product not found'] } }
+
+  if (validated.data.preferred) {
+    const clearError = await clearPreferredSupplier(oldSupplierProduct.product_id, id)
+    if (clearError) return { error: { _form: [clearError] } }
+  }
+
+  // Supplier and product identify the link and stay as they are
+  const newValues = toSupplierProductValues(validated.data)
+
+  const { error } = await supabase
+    .from('supplier_products')
+    .update({ ...newValues, updated_at: new Date().toISOString() })
+    .eq('id', id)
+
+  if (error) return { error: { _form: [error.message] } }
+
+  const { supplier, product, ...oldValues } = oldSupplierProduct
+  await createAuditLog({
+    action: 'update',
+    resourceType: 'supplier_product',
+    resourceId: id,
+    resourceName: `${supplier?.name} / ${product?.sku}`,
+    oldValues,
+    newValues,
+    changes: computeChanges(oldValues, newValues),
+  })
+
+  revalidatePath(`/suppliers/${oldSupplierProduct.supplier_id}`)
+  revalidatePath(`/products/${oldSupplierProduct.product_id}`)
+  return { success: true }
+}
+
+export async function deleteSupplierProduct(id: string) {
+  const supabase = await createClient()
+
+  const { data: supplierProduct } = await supabase
+    .from('supplier_products')
+    .select('*, supplier:suppliers(name), product:products(sku)')
+    .eq('id', id)
+    .single()
+
+  if (!supplierProduct) return { error: 'Supplier product not found' }
+
+  const { error } = await supabase
+    .from('supplier_products')
+    .delete()
+    .eq('id', id)
+
+  if (error) return { error: error.message }
+
+  const { supplier, product, ...oldValues } = supplierProduct
+  await createAuditLog({
+    action: 'delete',
+    resourceType: 'supplier_product',
+    resourceId: id,
+    resourceName: `${supplier?.name} / ${product?.sku}`,
+    oldValues,
+  })
+
+  revalidatePath(`/suppliers/${supplierProduct.supplier_id}`)
+  revalidatePath(`/products/${supplierProduct.product_id}`)
+  return { success: true }
+}
@@ -2,8 +2,16 @@
 
 import { revalidatePath } from 'next/cache'
 import { createClient } from '@/lib/supabase/server'
-import { transferSchema, type TransferFormData } from '@/lib/validations/transfer'
+import {
+  transferSchema,
+  transferReceiveSchema,
+  type TransferFormData,
+  type TransferReceiveFormData,
+} from '@/lib/validations/transfer'
 import { createAuditLog } from '@/lib/audit'
+import { allocateFefoLines, convertUnitQuantities } from '@/lib/actions/stock'
+import { parseSerialNumbers, toSerialNumbers } from '@/lib/serial-utils'
+import { checkPostingDate } from '@/lib/actions/periods'
 
 export async function createTransfer(formData: TransferFormData) {
   const supabase = await createClient()
@@ -24,13 +32,29 @@ export async function createTransfer(formData: TransferFormData) {
 
   if (!userData) return { error: { _form: ['User not found'] } }
 
-  // Generate transfer number
-  const { count } = await supabase
-    .from('transfers')
-    .select('*', { count: 'exact', head: true })
-    .eq('tenant_id', userData.tenant_id)
+  // Quantities entered in alternate units are stored in base units
+  const { data: quantities, error: qtyError } = await convertUnitQuantities(validated.data.lines)
+  if (qtyError || !quantities) return { error: { _form: [qtyError || 'Invalid quantities'] } }
+
+  // Split auto-allocate lines across lots, earliest expiry first (FEFO)
+  const { data: allocatedLines, error: allocationError } = await allocateFefoLines(
+    validated.data.from_location_id,
+    validated.data.lines.map((line, index) => ({ ...line, ...quantities[index] }))
+  )
+
+  if (allocationError || !allocatedLines) {
+    return { error: { _form: [allocationError || 'Failed to allocate lots'] } }
+  }
 
-  const transferNumber = `TRF-${String((count || 0) + 1).padStart(6, '0')}`
+  // Allocate transfer number from the tenant's document sequence
+  const { data: transferNumber, error: numberError } = await supabase.rpc('next_doc_number', {
+    p_tenant_id: userData.tenant_id,
+    p_doc_type: 'transfer',
+  })
+
+  if (numberError) {
+    return { error: { _form: [numberError.message] } }
+  }
 
   const { data: transfer, error: transferError } = await supabase
     .from('transfers')
@@ -52,7 +76,7 @@ export async function createTransfer(formData: TransferFormData) {
 
   // Build lines with unit_cost from inventory balance
   const lines = []
-  for (const line of validated.data.lines) {
+  for (const line of allocatedLines) {
     // Normalize lot_number and expiry_date
     const lotNumber = line.lot_number?.trim() || null
     const expiryDate = line.expiry_date?.trim() || null
@@ -82,9 +106,12 @@ export async function createTransfer(formData: TransferFormData) {
       transfer_id: transfer.id,
       product_id: line.product_id,
       qty: line.qty,
+      entered_qty: line.entered_qty,
+      entered_uom: line.entered_uom,
       lot_number: lotNumber,
       expiry_date: expiryDate,
       unit_cost: balance?.avg_cost || 0,
+      serial_numbers: toSerialNumbers(line.serial_numbers),
     })
   }
 
@@ -130,6 +157,19 @@ export async function updateTransfer(id: string, formData: TransferFormData) {
   if (!transfer) return { error: { _form: ['Transfer not found'] } }
   if (transfer.status !== 'draft') return { error: { _form: ['Can only edit draft transfers'] } }
 
+  const { data: quantities, error: qtyError } = await convertUnitQuantities(validated.data.lines)
+  if (qtyError || !quantities) return { error: { _form: [qtyError || 'Invalid quantities'] } }
+
+  // Split auto-allocate lines across lots, earliest expiry first (FEFO)
+  const { data: allocatedLines, error: allocationError } = await allocateFefoLines(
+    validated.data.from_location_id,
+    validated.data.lines.map((line, index) => ({ ...line, ...quantities[index] }))
+  )
+
+  if (allocationError || !allocatedLines) {
+    return { error: { _form: [allocationError || 'Failed to allocate lots'] } }
+  }
+
   const { error: updateError } = await supabase
     .from('transfers')
     .update({
@@ -144,7 +184,7 @@ export async function updateTransfer(id: string, formData: TransferFormData) {
   await supabase.from('transfer_lines').delete().eq('transfer_id', id)
 
   const lines = []
-  for (const line of validated.data.lines) {
+  for (const line of allocatedLines) {
     const lotNumber = line.lot_number?.trim() || null
     const expiryDate = line.expiry_date?.trim() || null
 
@@ -172,9 +212,12 @@ export async function updateTransfer(id: string, formData: TransferFormData) {
       transfer_id: id,
       product_id: line.product_id,
       qty: line.qty,
+      entered_qty: line.entered_qty,
+      entered_uom: line.entered_uom,
       lot_number: lotNumber,
       expiry_date: expiryDate,
       unit_cost: balance?.avg_cost || 0,
+      serial_numbers: toSerialNumbers(line.serial_numbers),
     })
   }
 
@@ -204,109 +247,27 @@ export async function sendTransfer(id: string, sentDate?: string) {
   const { data: { user } } = await supabase.auth.getUser()
   if (!user) return { error: 'Not authenticated' }
 
-  const { data: userData } = await supabase
-    .from('users')
-    .select('tenant_id')
-    .eq('id', user.id)
-    .single()
-
   const { data: transfer } = await supabase
     .from('transfers')
-    .select('*, transfer_number, lines:transfer_lines(*, product:products(id, sku, name))')
+    .select('status, transfer_number')
     .eq('id', id)
     .single()
 
   if (!transfer) return { error: 'Transfer not found' }
   if (transfer.status !== 'draft') return { error: 'Can only send draft transfers' }
 
-  const transferredItems: { product_id: string; qty: number }[] = []
+  const periodError = await checkPostingDate(sentDate)
+  if (periodError) return { error: periodError }
 
-  // Check stock availability and deduct from source location
-  for (const line of transfer.lines || []) {
-    // Normalize lot_number and expiry_date
-    const lotNumber = line.lot_number?.trim() || null
-    const expiryDate = line.expiry_date?.trim() || null
-
-    // Build query with lot/expiry filters
-    // Handle both NULL and empty string for lot_number and expiry_date
-    let balanceQuery = supabase
-      .from('inventory_balances')
-      .select('id, qty_on_hand, avg_cost')
-      .eq('product_id', line.product_id)
-      .eq('location_id', transfer.from_location_id)
-
-    if (lotNumber) {
-      balanceQuery = balanceQuery.eq('lot_number', lotNumber)
-    } else {
-      // Match both NULL and empty string
-      balanceQuery = balanceQuery.or('lot_number.is.null,lot_number.eq.')
-    }
-
-    if (expiryDate) {
-      balanceQuery = balanceQuery.eq('expiry_date', expiryDate)
-    } else {
-      // Match both NULL and empty string
-      balanceQuery = balanceQuery.or('expiry_date.is.null,expiry_date.eq.')
-    }
-
-    const { data: balance, error: balanceError } = await balanceQuery.maybeSingle()
-
-    if (balanceError) {
-      return { error: `Error finding stock: ${balanceError.message}` }
-    }
-
-    if (!balance || balance.qty_on_hand < line.qty) {
-      return { error: `Insufficient stock for ${line.product?.sku || 'product'}` }
-    }
-
-    const unitCost = balance.avg_cost || 0
-    transferredItems.push({ product_id: line.product_id, qty: line.qty })
-
-    // Update inventory balance (deduct from source using balance id)
-    const { error: updateError } = await supabase
-      .from('inventory_balances')
-      .update({
-        qty_on_hand: balance.qty_on_hand - line.qty,
-        inventory_value: (balance.qty_on_hand - line.qty) * unitCost,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', balance.id)
-
-    if (updateError) {
-      return { error: `Error updating stock: ${updateError.message}` }
-    }
+  // Deduct from source location and record movements in a single transaction
+  const { data, error } = await supabase.rpc('send_transfer', {
+    p_transfer_id: id,
+    p_sent_date: sentDate || null,
+  })
 
-    // Update line with cost
-    await supabase
-      .from('transfer_lines')
-      .update({ unit_cost: unitCost })
-      .eq('id', line.id)
+  if (error) return { error: error.message }
 
-    // Record stock movement
-    await supabase.from('stock_movements').insert({
-      tenant_id: userData?.tenant_id,
-      product_id: line.product_id,
-      location_id: transfer.from_location_id,
-      qty: -line.qty,
-      movement_type: 'transfer_out',
-      reference_type: 'transfer',
-      reference_id: id,
-      lot_number: lotNumber,
-      expiry_date: expiryDate,
-      unit_cost: unitCost,
-      extended_cost: unitCost * line.qty,
-      created_by: user.id,
-    })
-  }
-
-  await supabase
-    .from('transfers')
-    .update({
-      status: 'confirmed',
-      sent_at: sentDate || new Date().toISOString().split('T')[0],
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', id)
+  const transferredItems = (data || []) as { product_id: string; qty: number }[]
 
   // Audit log
   await createAuditLog({
@@ -328,123 +289,48 @@ export async function sendTransfer(id: string, sentDate?: string) {
   return { success: true }
 }
 
-export async function receiveTransfer(id: string, receivedDate?: string) {
+export async function receiveTransfer(id: string, formData?: TransferReceiveFormData) {
   const supabase = await createClient()
 
+  const validated = formData ? transferReceiveSchema.safeParse(formData) : null
+  if (validated && !validated.success) {
+    return { error: 'Invalid receive data' }
+  }
+
   const { data: { user } } = await supabase.auth.getUser()
   if (!user) return { error: 'Not authenticated' }
 
-  const { data: userData } = await supabase
-    .from('users')
-    .select('tenant_id')
-    .eq('id', user.id)
-    .single()
-
   const { data: transfer } = await supabase
     .from('transfers')
-    .select('*, transfer_number, lines:transfer_lines(*)')
+    .select('status, transfer_number')
     .eq('id', id)
     .single()
 
   if (!transfer) return { error: 'Transfer not found' }
   if (transfer.status !== 'confirmed') return { error: 'Can only receive sent transfers' }
 
-  const receivedItems: { product_id: string; qty: number }[] = []
-
-  for (const line of transfer.lines || []) {
-    // Normalize lot_number and expiry_date
-    const lotNumber = line.lot_number?.trim() || null
-    const expiryDate = line.expiry_date?.trim() || null
-    const unitCost = line.unit_cost || 0
-    receivedItems.push({ product_id: line.product_id, qty: line.qty })
-
-    // Build query with lot/expiry filters for destination
-    // Handle both NULL and empty string for lot_number and expiry_date
-    let balanceQuery = supabase
-      .from('inventory_balances')
-      .select('id, qty_on_hand, avg_cost')
-      .eq('product_id', line.product_id)
-      .eq('location_id', transfer.to_location_id)
-
-    if (lotNumber) {
-      balanceQuery = balanceQuery.eq('lot_number', lotNumber)
-    } else {
-      balanceQuery = balanceQuery.or('lot_number.is.null,lot_number.eq.')
-    }
-
-    if (expiryDate) {
-      balanceQuery = balanceQuery.eq('expiry_date', expiryDate)
-    } else {
-      balanceQuery = balanceQuery.or('expiry_date.is.null,expiry_date.eq.')
-    }
-
-    const { data: existingBalance, error: balanceError } = await balanceQuery.maybeSingle()
-
-    if (balanceError) {
-      return { error: `Error finding destination stock: ${balanceError.message}` }
-    }
+  const periodError = await checkPostingDate(validated?.data.received_date)
+  if (periodError) return { error: periodError }
+
+  // Add to destination, record discrepancies and movements in a single transaction.
+  // Without lines every line is received in full.
+  const { data, error } = await supabase.rpc('receive_transfer', {
+    p_transfer_id: id,
+    p_received_date: validated?.data.received_date || null,
+    p_lines: validated?.data.lines.map((line) => ({
+      ...line,
+      serial_numbers: line.serial_numbers == null ? null : parseSerialNumbers(line.serial_numbers),
+    })) || null,
+  })
 
-    if (existingBalance) {
-      // Update existing balance with weighted average cost
-      const newQty = existingBalance.qty_on_hand + line.qty
-      const newAvgCost = ((existingBalance.qty_on_hand * (existingBalance.avg_cost || 0)) + (line.qty * unitCost)) / newQty
-
-      const { error: updateError } = await supabase
-        .from('inventory_balances')
-        .update({
-          qty_on_hand: newQty,
-          avg_cost: newAvgCost,
-          inventory_value: newQty * newAvgCost,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', existingBalance.id)
-
-      if (updateError) {
-        return { error: `Error updating destination stock: ${updateError.message}` }
-      }
-    } else {
-      // Create new balance
-      const { error: insertError } = await supabase.from('inventory_balances').insert({
-        tenant_id: userData?.tenant_id,
-        product_id: line.product_id,
-        location_id: transfer.to_location_id,
-        lot_number: lotNumber,
-        expiry_date: expiryDate,
-        qty_on_hand: line.qty,
-        avg_cost: unitCost,
-        inventory_value: line.qty * unitCost,
-      })
-
-      if (insertError) {
-        return { error: `Error creating destination stock: ${insertError.message}` }
-      }
-    }
+  if (error) return { error: error.message }
 
-    // Record stock movement
-    await supabase.from('stock_movements').insert({
-      tenant_id: userData?.tenant_id,
-      product_id: line.product_id,
-      location_id: transfer.to_location_id,
-      qty: line.qty,
-      movement_type: 'transfer_in',
-      reference_type: 'transfer',
-      reference_id: id,
-      lot_number: lotNumber,
-      expiry_date: expiryDate,
-      unit_cost: unitCost,
-      extended_cost: unitCost * line.qty,
-      created_by: user.id,
-    })
+  const result = data as {
+    items: { product_id: string; qty: number }[]
+    discrepancies: { product_id: string; qty_difference: number; resolution: string }[]
   }
-
-  await supabase
-    .from('transfers')
-    .update({
-      status: 'completed',
-      received_at: receivedDate || new Date().toISOString().split('T')[0],
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', id)
+  const receivedItems = result.items || []
+  const discrepancies = result.discrepancies || []
 
   // Audit log
   await createAuditLog({
@@ -453,8 +339,10 @@ export async function receiveTransfer(id: string, receivedDate?: string) {
     resourceId: id,
     resourceName: transfer.transfer_number,
     oldValues: { status: 'confirmed' },
-    newValues: { status: 'completed', received_items: receivedItems },
-    notes: `Received ${receivedItems.length} item(s)`,
+    newValues: { status: 'completed', received_items: receivedItems, discrepancies },
+    notes: discrepancies.length > 0
+      ? `Received ${receivedItems.length} item(s) with ${discrepancies.length} discrepancy(ies)`
+      : `Received ${receivedItems.length} item(s)`,
   })
 
   revalidatePath('/transfers')
@@ -463,7 +351,8 @@ export async function receiveTransfer(id: string, receivedDate?: string) {
   revalidatePath('/shipments/new')
   revalidatePath('/transfers/new')
   revalidatePath('/returns/new')
-  return { success: true }
+  revalidatePath('/reports/valuation')
+  return { success: true, discrepancies: discrepancies.length }
 }
 
 export async function cancelTransfer(id: string) {
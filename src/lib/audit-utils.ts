@@ -46,6 +46,13 @@ export const ACTION_LABELS: Record<AuditAction, string> = {
   return: 'Returned',
   approve: 'Approved',
   upload: 'Uploaded',
+  void: 'Voided',
+  reconcile: 'Reconciled',
+  close: 'Closed',
+  reopen: 'Reopened',
+  reject: 'Rejected',
+  submit: 'Submitted',
+  send: 'Sent',
 }
 
 // Resource type label mappings for display
@@ -55,13 +62,19 @@ export const RESOURCE_TYPE_LABELS: Record<AuditResourceType, string> = {
   category: 'Category',
   location: 'Location',
   supplier: 'Supplier',
+  supplier_product: 'Supplier Product',
   customer: 'Customer',
   purchase_order: 'Purchase Order',
+  supplier_invoice: 'Supplier Invoice',
   shipment: 'Shipment',
   transfer: 'Transfer',
   adjustment: 'Adjustment',
   cycle_count: 'Cycle Count',
   return: 'Return',
+  assembly: 'Assembly',
+  bin_move: 'Bin Move',
+  inventory_balance: 'Inventory Balance',
+  inventory_period: 'Inventory Period',
   document: 'Document',
   settings: 'Settings',
   tenant: 'Organization',
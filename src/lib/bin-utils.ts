@@ -0,0 +1,92 @@
+import type { RollUpRow } from '@/lib/variant-utils'
+import type { Location } from '@/types'
+
+export type BinWarehouse = Pick<Location, 'id' | 'name'>
+
+type BinLocation = Pick<Location, 'id' | 'name' | 'type' | 'parent_id'>
+
+/**
+ * Map bin location ids to the warehouse they sit in
+ */
+export function buildBinWarehouseMap(locations: BinLocation[]): Record<string, BinWarehouse> {
+  const byId = new Map(locations.map((location) => [location.id, location]))
+  const warehouses: Record<string, BinWarehouse> = {}
+  for (const location of locations) {
+    const warehouse = location.type === 'bin' && location.parent_id ? byId.get(location.parent_id) : undefined
+    if (warehouse) warehouses[location.id] = { id: warehouse.id, name: warehouse.name }
+  }
+  return warehouses
+}
+
+/**
+ * Active bins of a warehouse, by name
+ */
+export function binsOf<T extends BinLocation & { active?: boolean }>(locations: T[], warehouseId: string | null | undefined): T[] {
+  if (!warehouseId) return []
+  return locations
+    .filter((location) => location.type === 'bin' && location.parent_id === warehouseId && location.active !== false)
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * The bin holding the most of the product, or null when none does. Used as
+ * the putaway suggestion on receipt and the pick suggestion on shipments.
+ */
+export function suggestBin(
+  productId: string,
+  bins: Pick<Location, 'id'>[],
+  balances: { product_id: string; location_id: string; qty_on_hand: number }[]
+): string | null {
+  let best: { id: string; qty: number } | null = null
+  for (const bin of bins) {
+    const qty = balances
+      .filter((balance) => balance.product_id === productId && balance.location_id === bin.id)
+      .reduce((sum, balance) => sum + Number(balance.qty_on_hand), 0)
+    if (qty > 0 && (!best || qty > best.qty)) best = { id: bin.id, qty }
+  }
+  return best?.id ?? null
+}
+
+/**
+ * Combine bin stock rows into their warehouse, one row per product, lot and
+ * expiry date. avg_cost becomes the value-weighted average. Rows outside
+ * bins pass through, merged with their warehouse's bin rows where they match.
+ */
+export function rollUpToWarehouses<T extends RollUpRow & { location?: { name: string } | null }>(
+  rows: T[],
+  warehouses: Record<string, BinWarehouse>
+): T[] {
+  const result: T[] = []
+  const combined = new Map<string, T>()
+
+  for (const row of rows) {
+    const warehouse = warehouses[row.location_id]
+    const locationId = warehouse?.id ?? row.location_id
+    const key = `${row.product_id}-${locationId}-${row.lot_number || ''}-${row.expiry_date || ''}`
+
+    const existing = combined.get(key)
+    if (existing) {
+      existing.qty_on_hand += Number(row.qty_on_hand)
+      existing.inventory_value += Number(row.inventory_value)
+      if (existing.reserved_qty !== undefined) existing.reserved_qty += Number(row.reserved_qty || 0)
+      if (existing.available_qty !== undefined) existing.available_qty += Number(row.available_qty || 0)
+      continue
+    }
+
+    const first = {
+      ...row,
+      id: key,
+      location_id: locationId,
+      qty_on_hand: Number(row.qty_on_hand),
+      inventory_value: Number(row.inventory_value),
+      location: warehouse && row.location ? { ...row.location, id: warehouse.id, name: warehouse.name } : row.location,
+    }
+    combined.set(key, first)
+    result.push(first)
+  }
+
+  for (const row of combined.values()) {
+    row.avg_cost = row.qty_on_hand ? row.inventory_value / row.qty_on_hand : 0
+  }
+  return result
+}
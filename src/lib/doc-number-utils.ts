@@ -0,0 +1,49 @@
+import type { DocNumberFormat, DocNumberType } from '@/types'
+
+export const DOC_NUMBER_TYPES: DocNumberType[] = [
+  'purchase_order',
+  'shipment',
+  'transfer',
+  'adjustment',
+  'cycle_count',
+  'return',
+  'assembly',
+]
+
+/**
+ * Default formats - must stay in sync with next_doc_number() in the database
+ */
+export const DEFAULT_DOC_NUMBER_FORMATS: Record<DocNumberType, DocNumberFormat> = {
+  purchase_order: { prefix: 'PO-', include_year: false, padding: 6, reset_yearly: false },
+  shipment: { prefix: 'SHP-', include_year: false, padding: 6, reset_yearly: false },
+  transfer: { prefix: 'TRF-', include_year: false, padding: 6, reset_yearly: false },
+  adjustment: { prefix: 'ADJ-', include_year: false, padding: 6, reset_yearly: false },
+  cycle_count: { prefix: 'CNT-', include_year: false, padding: 6, reset_yearly: false },
+  return: { prefix: 'RET-', include_year: false, padding: 6, reset_yearly: false },
+  assembly: { prefix: 'ASM-', include_year: false, padding: 6, reset_yearly: false },
+}
+
+/**
+ * Merge a tenant's saved formats over the defaults
+ */
+export function resolveDocNumberFormats(
+  formats?: Partial<Record<DocNumberType, Partial<DocNumberFormat>>> | null
+): Record<DocNumberType, DocNumberFormat> {
+  const resolved = { ...DEFAULT_DOC_NUMBER_FORMATS }
+  for (const type of DOC_NUMBER_TYPES) {
+    resolved[type] = { ...DEFAULT_DOC_NUMBER_FORMATS[type], ...formats?.[type] }
+  }
+  return resolved
+}
+
+/**
+ * Format a document number the same way next_doc_number() does (used for previews)
+ */
+export function formatDocNumber(
+  format: DocNumberFormat,
+  sequence: number,
+  year: number = new Date().getFullYear()
+): string {
+  const yearSegment = format.include_year ? `${year}-` : ''
+  return `${format.prefix}${yearSegment}${String(sequence).padStart(format.padding, '0')}`
+}
@@ -0,0 +1,125 @@
+import 'server-only'
+
+import { createClient } from '@/lib/supabase/server'
+import { createAuditLog } from '@/lib/audit'
+import type { DocumentEntityType } from '@/types'
+import {
+  ALLOWED_MIME_TYPES,
+  MAX_FILE_SIZE,
+  MAX_FILES_PER_ENTITY,
+  sanitizeFileName,
+} from '@/lib/validations/document'
+
+/**
+ * Attach a file generated on the server (e.g. a purchase order PDF).
+ * Same storage layout, versioning and limits as uploadDocument. Not a
+ * server action: callers are trusted server code and revalidate their
+ * own pages.
+ */
+export async function storeGeneratedDocument(params: {
+  entityType: DocumentEntityType
+  entityId: string
+  fileName: string
+  mimeType: string
+  content: Uint8Array
+  notes?: string
+}) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { error: 'Not authenticated' }
+
+  const { data: userData } = await supabase
+    .from('users')
+    .select('tenant_id, name')
+    .eq('id', user.id)
+    .single()
+
+  if (!userData) return { error: 'Not authenticated' }
+
+  const { entityType, entityId, mimeType, content } = params
+  const fileName = sanitizeFileName(params.fileName)
+
+  if (content.byteLength > MAX_FILE_SIZE) {
+    return { error: 'File exceeds 10MB limit' }
+  }
+
+  if (!(ALLOWED_MIME_TYPES as readonly string[]).includes(mimeType)) {
+    return { error: 'File type not allowed' }
+  }
+
+  const { count } = await supabase
+    .from('documents')
+    .select('id', { count: 'exact', head: true })
+    .eq('entity_type', entityType)
+    .eq('entity_id', entityId)
+
+  if ((count || 0) >= MAX_FILES_PER_ENTITY) {
+    return { error: `Maximum ${MAX_FILES_PER_ENTITY} documents per entity` }
+  }
+
+  const { data: existingDocs } = await supabase
+    .from('documents')
+    .select('version')
+    .eq('entity_type', entityType)
+    .eq('entity_id', entityId)
+    .eq('file_name', fileName)
+    .order('version', { ascending: false })
+    .limit(1)
+
+  const version = existingDocs && existingDocs.length > 0
+    ? existingDocs[0].version + 1
+    : 1
+
+  const storagePath = `${userData.tenant_id}/${entityType}/${entityId}/${crypto.randomUUID()}_${fileName}`
+
+  const { error: uploadError } = await supabase.storage
+    .from('documents')
+    .upload(storagePath, content, {
+      contentType: mimeType,
+      upsert: false,
+    })
+
+  if (uploadError) {
+    return { error: `Upload failed: ${uploadError.message}` }
+  }
+
+  const { data: doc, error: insertError } = await supabase
+    .from('documents')
+    .insert({
+      tenant_id: userData.tenant_id,
+      entity_type: entityType,
+      entity_id: entityId,
+      file_name: fileName,
+      file_size: content.byteLength,
+      mime_type: mimeType,
+      storage_path: storagePath,
+      version,
+      notes: params.notes || null,
+      uploaded_by: user.id,
+      uploaded_by_name: userData.name,
+    })
+    .select()
+    .single()
+
+  if (insertError) {
+    await supabase.storage.from('documents').remove([storagePath])
+    return { error: insertError.message }
+  }
+
+  await createAuditLog({
+    action: 'upload',
+    resourceType: 'document',
+    resourceId: doc.id,
+    resourceName: fileName,
+    newValues: {
+      entity_type: entityType,
+      entity_id: entityId,
+      file_name: fileName,
+      file_size: content.byteLength,
+      mime_type: mimeType,
+      version,
+    },
+  })
+
+  return { success: true, document: doc }
+}
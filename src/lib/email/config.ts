@@ -13,4 +13,12 @@ export const emailConfig = {
 
   // Invitation expiry in hours
   invitationExpiryHours: 48,
+
+  // 'resend' sends for real; 'file' writes each email and its attachments
+  // to outboxDir so development never hits Resend
+  transport: (process.env.EMAIL_TRANSPORT ||
+    (process.env.NODE_ENV === 'production' ? 'resend' : 'file')) as 'resend' | 'file',
+
+  // Where the file transport writes emails
+  outboxDir: process.env.EMAIL_OUTBOX_DIR || '.email-outbox',
 }
@@ -0,0 +1,61 @@
+import 'server-only'
+
+import { deliverEmail } from './transport'
+import { generatePurchaseOrderEmail } from './templates/purchase-order'
+import { logError } from '@/lib/error-logger'
+import { formatCurrency } from '@/lib/utils'
+import type { PurchaseOrderPdf } from '@/lib/purchase-order-pdf'
+
+type Locale = 'en' | 'ja' | 'zh' | 'es'
+
+/**
+ * Email a rendered purchase order to its supplier. The recipient is always
+ * the email on the supplier record the PDF was built from.
+ */
+export async function sendPurchaseOrderEmail(pdf: PurchaseOrderPdf): Promise<{
+  success: boolean
+  to?: string
+  error?: string
+}> {
+  const to = pdf.supplierEmail
+  if (!to) return { success: false, error: 'Supplier has no email address' }
+
+  try {
+    const total = pdf.data.lines.reduce((sum, line) => sum + line.qty * line.unit_cost, 0)
+
+    const { subject, html, text } = generatePurchaseOrderEmail({
+      tenantName: pdf.data.tenantName,
+      supplierName: pdf.data.supplier.name,
+      contactName: pdf.contactName,
+      poNumber: pdf.data.poNumber,
+      expectedDate: pdf.data.expectedDate,
+      total: formatCurrency(total, pdf.data.currency, pdf.locale),
+      locale: pdf.locale as Locale,
+    })
+
+    await deliverEmail({
+      to,
+      subject,
+      html,
+      text,
+      attachments: [{ filename: pdf.fileName, content: pdf.content }],
+    })
+
+    return { success: true, to }
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error('Unknown error sending email')
+    console.error('Email send error:', error)
+    await logError({
+      message: error.message,
+      stack: error.stack,
+      type: 'api',
+      severity: 'error',
+      metadata: {
+        to,
+        poNumber: pdf.data.poNumber,
+        context: 'sendPurchaseOrderEmail',
+      },
+    })
+    return { success: false, error: error.message }
+  }
+}
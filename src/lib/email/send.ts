@@ -1,6 +1,6 @@
 'use server'
 
-import { getResend } from './resend'
+import { deliverEmail } from './transport'
 import { emailConfig } from './config'
 import { generateInvitationEmail } from './templates/invitation'
 import { logError } from '@/lib/error-logger'
@@ -33,28 +33,7 @@ export async function sendInvitationEmail(params: SendInvitationEmailParams): Pr
       locale: params.locale,
     })
 
-    const { error } = await getResend().emails.send({
-      from: `${emailConfig.appName} <${emailConfig.fromEmail}>`,
-      to: params.to,
-      subject,
-      html,
-      text,
-    })
-
-    if (error) {
-      console.error('Resend error:', error)
-      await logError({
-        message: error.message,
-        type: 'api',
-        severity: 'error',
-        metadata: {
-          to: params.to,
-          resendError: error,
-          context: 'sendInvitationEmail',
-        },
-      })
-      return { success: false, error: error.message }
-    }
+    await deliverEmail({ to: params.to, subject, html, text })
 
     return { success: true }
   } catch (err) {
@@ -0,0 +1,139 @@
+import { emailConfig } from '../config'
+
+type Locale = 'en' | 'ja' | 'zh' | 'es'
+
+interface PurchaseOrderEmailData {
+  tenantName: string
+  supplierName: string
+  contactName: string | null
+  poNumber: string
+  expectedDate: string | null
+  total: string
+  locale?: Locale
+}
+
+// Localized email content
+const translations: Record<Locale, {
+  subject: (poNumber: string, tenantName: string) => string
+  greeting: (name: string) => string
+  intro: (tenantName: string, poNumber: string) => string
+  totalText: (total: string) => string
+  expectedText: (date: string) => string
+  closing: string
+  footer: string
+}> = {
+  en: {
+    subject: (poNumber, tenantName) => `Purchase order ${poNumber} from ${tenantName}`,
+    greeting: (name) => `Hello ${name},`,
+    intro: (tenantName, poNumber) =>
+      `Please find attached purchase order <strong>${poNumber}</strong> from <strong>${tenantName}</strong>.`,
+    totalText: (total) => `Order total: <strong>${total}</strong>`,
+    expectedText: (date) => `Requested delivery date: <strong>${date}</strong>`,
+    closing: 'Please confirm receipt of this order and let us know of any changes to pricing or delivery.',
+    footer: `This email was sent by ${emailConfig.appName}`,
+  },
+  ja: {
+    subject: (poNumber, tenantName) => `${tenantName} からの発注書 ${poNumber}`,
+    greeting: (name) => `${name} 様`,
+    intro: (tenantName, poNumber) =>
+      `<strong>${tenantName}</strong> からの発注書 <strong>${poNumber}</strong> を添付にてお送りします。`,
+    totalText: (total) => `発注合計: <strong>${total}</strong>`,
+    expectedText: (date) => `希望納期: <strong>${date}</strong>`,
+    closing: 'ご確認のうえ、価格や納期に変更がある場合はご連絡ください。',
+    footer: `このメールは ${emailConfig.appName} から送信されました`,
+  },
+  zh: {
+    subject: (poNumber, tenantName) => `来自 ${tenantName} 的采购订单 ${poNumber}`,
+    greeting: (name) => `${name}，您好：`,
+    intro: (tenantName, poNumber) =>
+      `附件为 <strong>${tenantName}</strong> 的采购订单 <strong>${poNumber}</strong>。`,
+    totalText: (total) => `订单总额：<strong>${total}</strong>`,
+    expectedText: (date) => `要求交货日期：<strong>${date}</strong>`,
+    closing: '请确认收到此订单，如价格或交期有变动请告知我们。',
+    footer: `此邮件由 ${emailConfig.appName} 发送`,
+  },
+  es: {
+    subject: (poNumber, tenantName) => `Orden de compra ${poNumber} de ${tenantName}`,
+    greeting: (name) => `Hola ${name},`,
+    intro: (tenantName, poNumber) =>
+      `Adjuntamos la orden de compra <strong>${poNumber}</strong> de <strong>${tenantName}</strong>.`,
+    totalText: (total) => `Total del pedido: <strong>${total}</strong>`,
+    expectedText: (date) => `Fecha de entrega solicitada: <strong>${date}</strong>`,
+    closing: 'Por favor, confirma la recepción de este pedido e infórmanos de cualquier cambio de precio o plazo de entrega.',
+    footer: `Este correo fue enviado por ${emailConfig.appName}`,
+  },
+}
+
+export function generatePurchaseOrderEmail(data: PurchaseOrderEmailData): {
+  subject: string
+  html: string
+  text: string
+} {
+  const locale = data.locale || 'en'
+  const t = translations[locale]
+
+  const subject = t.subject(data.poNumber, data.tenantName)
+  const paragraphs = [
+    t.greeting(data.contactName || data.supplierName),
+    t.intro(data.tenantName, data.poNumber),
+    t.totalText(data.total),
+    ...(data.expectedDate ? [t.expectedText(data.expectedDate)] : []),
+    t.closing,
+  ]
+
+  const html = `
+<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${subject}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
+  <table role="presentation" style="width: 100%; border-collapse: collapse;">
+    <tr>
+      <td style="padding: 40px 20px;">
+        <table role="presentation" style="max-width: 600px; margin: 0 auto; background-color: #ffffff; border-radius: 8px; overflow: hidden; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="background-color: #10b981; padding: 32px 40px; text-align: center;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 24px; font-weight: 600;">
+                ${data.tenantName}
+              </h1>
+            </td>
+          </tr>
+
+          <!-- Body -->
+          <tr>
+            <td style="padding: 40px;">
+              ${paragraphs.map((paragraph) => `<p style="margin: 0 0 16px; color: #374151; font-size: 16px; line-height: 1.5;">
+                ${paragraph}
+              </p>`).join('\n              ')}
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 24px 40px; background-color: #f9fafb; border-top: 1px solid #e5e7eb;">
+              <p style="margin: 0; color: #9ca3af; font-size: 12px; line-height: 1.5; text-align: center;">
+                ${t.footer}
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+`
+
+  // Plain text version
+  const text = `
+${paragraphs.map((paragraph) => paragraph.replace(/<[^>]*>/g, '')).join('\n\n')}
+
+${t.footer}
+`
+
+  return { subject, html, text }
+}
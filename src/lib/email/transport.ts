@@ -0,0 +1,72 @@
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+import { getResend } from './resend'
+import { emailConfig } from './config'
+
+export interface EmailAttachment {
+  filename: string
+  content: Uint8Array
+}
+
+export interface EmailMessage {
+  to: string
+  subject: string
+  html: string
+  text: string
+  attachments?: EmailAttachment[]
+}
+
+/**
+ * Deliver an email through the configured transport.
+ * Throws on transport failures; callers decide how to report them.
+ */
+export async function deliverEmail(message: EmailMessage): Promise<void> {
+  const from = `${emailConfig.appName} <${emailConfig.fromEmail}>`
+
+  if (emailConfig.transport === 'file') {
+    await writeToOutbox(from, message)
+    return
+  }
+
+  const { error } = await getResend().emails.send({
+    from,
+    to: message.to,
+    subject: message.subject,
+    html: message.html,
+    text: message.text,
+    attachments: message.attachments?.map((attachment) => ({
+      filename: attachment.filename,
+      content: Buffer.from(attachment.content),
+    })),
+  })
+
+  if (error) {
+    console.error('Resend error:', error)
+    throw new Error(error.message)
+  }
+}
+
+// One folder per email: message.json, the HTML body and any attachments
+async function writeToOutbox(from: string, message: EmailMessage) {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+  const dir = path.join(emailConfig.outboxDir, `${stamp}_${crypto.randomUUID().slice(0, 8)}`)
+  await mkdir(dir, { recursive: true })
+
+  await writeFile(
+    path.join(dir, 'message.json'),
+    JSON.stringify({
+      from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      attachments: message.attachments?.map((attachment) => attachment.filename) || [],
+    }, null, 2)
+  )
+  await writeFile(path.join(dir, 'message.html'), message.html)
+
+  for (const attachment of message.attachments || []) {
+    await writeFile(path.join(dir, path.basename(attachment.filename)), attachment.content)
+  }
+
+  console.info(`Email to ${message.to} written to ${dir}`)
+}
@@ -0,0 +1,41 @@
+import type { InvoiceMatchingSettings } from '@/types'
+
+export const DEFAULT_INVOICE_MATCHING: InvoiceMatchingSettings = {
+  qty_tolerance_pct: 0,
+  price_tolerance_pct: 0,
+}
+
+/**
+ * Merge a tenant's saved matching tolerances over the defaults
+ */
+export function resolveInvoiceMatching(settings?: Partial<InvoiceMatchingSettings> | null): InvoiceMatchingSettings {
+  return { ...DEFAULT_INVOICE_MATCHING, ...settings }
+}
+
+// Rounding noise from numeric columns should never cause a mismatch
+const EPSILON = 0.000001
+
+/**
+ * Three-way match of one invoice line against its purchase order line.
+ * Quantity matches when everything invoiced so far is covered by what was
+ * received; price matches when the invoice price is within tolerance of
+ * the PO unit cost.
+ */
+export function matchInvoiceLine(
+  rules: InvoiceMatchingSettings,
+  line: {
+    qty_invoiced: number
+    unit_price: number
+    qty_received: number
+    qty_previously_invoiced: number
+    po_unit_cost: number
+  }
+): { qty_match: boolean; price_match: boolean } {
+  const maxQty = line.qty_received * (1 + rules.qty_tolerance_pct / 100)
+  const maxPriceDiff = line.po_unit_cost * (rules.price_tolerance_pct / 100)
+
+  return {
+    qty_match: line.qty_previously_invoiced + line.qty_invoiced <= maxQty + EPSILON,
+    price_match: Math.abs(line.unit_price - line.po_unit_cost) <= maxPriceDiff + EPSILON,
+  }
+}
@@ -0,0 +1,115 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { inflateSync } from 'zlib'
+import { describe, expect, it } from 'vitest'
+import fontkit, { type Font } from '@pdf-lib/fontkit'
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFRawStream } from 'pdf-lib'
+import messages from '../../../messages/ja.json'
+import { renderPurchaseOrderPdf, type PurchaseOrderPdfData } from './purchase-order'
+
+const FONT_DIR = path.join(process.cwd(), 'node_modules', '@expo-google-fonts', 'noto-sans-sc')
+const FONT_FILES = {
+  regular: path.join(FONT_DIR, '400Regular', 'NotoSansSC_400Regular.ttf'),
+  bold: path.join(FONT_DIR, '700Bold', 'NotoSansSC_700Bold.ttf'),
+}
+
+const data: PurchaseOrderPdfData = {
+  locale: 'ja',
+  tenantName: '株式会社サンプル',
+  poNumber: 'PO-0001',
+  orderDate: '2026-03-01',
+  expectedDate: '2026-03-15',
+  currency: 'JPY',
+  notes: '午前中に納品してください',
+  supplier: {
+    name: '上海供应商有限公司',
+    code: 'SUP-01',
+    contact_name: '王芳',
+    email: 'orders@example.com',
+    phone: '+86 21 5555 0100',
+    address: { street: '浦东新区世纪大道100号', city: '上海', country: '中国' },
+  },
+  deliverTo: '東京倉庫',
+  lines: [
+    { sku: 'TEA-001', name: '緑茶 ティーバッグ', supplier_sku: 'GT-100', qty: 120, uom: 'box', unit_cost: 450 },
+    { sku: 'CUP-002', name: 'Ceramic cup, white', supplier_sku: null, qty: 36, uom: 'pcs', unit_cost: 1200 },
+  ],
+}
+
+function decode(stream: PDFRawStream): Uint8Array {
+  const filter = stream.dict.get(PDFName.of('Filter'))
+  return filter === PDFName.of('FlateDecode') ? inflateSync(stream.contents) : stream.contents
+}
+
+// Outline of every glyph in a font, to recognise intact glyphs in a subset
+function outlines(font: Font): Set<string> {
+  return new Set(Array.from({ length: font.numGlyphs }, (_, id) => font.getGlyph(id).path.toSVG()))
+}
+
+// Subset glyphs a corrupt loca points at decode to garbage or throw
+function outline(font: Font, id: number): string | null {
+  try {
+    return font.getGlyph(id).path.toSVG()
+  } catch {
+    return null
+  }
+}
+
+function encodeSubset(font: Font, text: string): Promise<Uint8Array> {
+  const subset = font.createSubset()
+  for (const glyph of font.layout(text).glyphs) subset.includeGlyph(glyph)
+
+  return new Promise((resolve) => {
+    const chunks: Uint8Array[] = []
+    subset.encodeStream()
+      .on('data', (chunk) => chunks.push(chunk))
+      .on('end', () => resolve(Buffer.concat(chunks)))
+  })
+}
+
+describe('renderPurchaseOrderPdf', () => {
+  it('embeds font subsets whose glyphs match the source fonts', async () => {
+    const pdf = await PDFDocument.load(await renderPurchaseOrderPdf(data, messages.purchaseOrders.pdf))
+    expect(pdf.getPageCount()).toBe(1)
+
+    const sources = {
+      regular: outlines(fontkit.create(await readFile(FONT_FILES.regular))),
+      bold: outlines(fontkit.create(await readFile(FONT_FILES.bold))),
+    }
+
+    let fonts = 0
+    for (const [, object] of pdf.context.enumerateIndirectObjects()) {
+      if (!(object instanceof PDFDict) || object.get(PDFName.of('Subtype')) !== PDFName.of('Type0')) continue
+      fonts++
+
+      const baseFont = object.lookup(PDFName.of('BaseFont'), PDFName).asString()
+      const source = baseFont.includes('Bold') ? sources.bold : sources.regular
+      const fontFile = object
+        .lookup(PDFName.of('DescendantFonts'), PDFArray)
+        .lookup(0, PDFDict)
+        .lookup(PDFName.of('FontDescriptor'), PDFDict)
+        .lookup(PDFName.of('FontFile2'))
+      if (!(fontFile instanceof PDFRawStream)) throw new Error(`${baseFont} has no embedded font file`)
+      const embedded = fontkit.create(decode(fontFile))
+
+      expect(embedded.numGlyphs).toBeGreaterThan(20)
+      for (let id = 0; id < embedded.numGlyphs; id++) {
+        const glyph = outline(embedded, id)
+        expect(glyph !== null && source.has(glyph), `${baseFont} glyph ${id}`).toBe(true)
+      }
+    }
+
+    expect(fonts).toBe(2)
+  }, 30_000)
+
+  // padGlyphs exists only for this fontkit defect; drop it when this fails
+  it('still needs padded glyphs: fontkit corrupts subsets of the unpadded font', async () => {
+    const source = fontkit.create(await readFile(FONT_FILES.regular))
+    const text = '発注書 PO-0001 合計'
+    const subset = fontkit.create(await encodeSubset(source, text))
+
+    const sourceIds = [0, ...new Set(source.layout(text).glyphs.map((glyph) => glyph.id))]
+    const intact = sourceIds.every((id, index) => outline(subset, index) === outline(source, id))
+    expect(intact).toBe(false)
+  })
+})
@@ -0,0 +1,373 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { PDFDocument, rgb, type PDFFont, type PDFPage } from 'pdf-lib'
+import fontkit from '@pdf-lib/fontkit'
+
+export interface PurchaseOrderPdfData {
+  locale: string
+  tenantName: string
+  poNumber: string
+  orderDate: string
+  expectedDate: string | null
+  currency: string
+  notes: string | null
+  supplier: {
+    name: string
+    code: string | null
+    contact_name: string | null
+    email: string | null
+    phone: string | null
+    address: Record<string, unknown>
+  }
+  deliverTo: string
+  lines: {
+    sku: string
+    name: string
+    supplier_sku: string | null
+    qty: number
+    uom: string
+    unit_cost: number
+  }[]
+}
+
+export interface PurchaseOrderPdfLabels {
+  title: string
+  documentTitle: string
+  poNumber: string
+  orderDate: string
+  expected: string
+  deliverTo: string
+  supplier: string
+  attn: string
+  sku: string
+  description: string
+  qty: string
+  unitCost: string
+  amount: string
+  supplierSku: string
+  total: string
+  notes: string
+}
+
+const PAGE_WIDTH = 595.28 // A4
+const PAGE_HEIGHT = 841.89
+const MARGIN = 48
+const TEXT = rgb(0.15, 0.15, 0.15)
+const MUTED = rgb(0.42, 0.45, 0.5)
+const RULE = rgb(0.85, 0.86, 0.88)
+
+// Columns of the line table: label key, left edge, width and alignment
+const COLUMNS = [
+  { label: 'sku', x: MARGIN, width: 90 },
+  { label: 'description', x: MARGIN + 95, width: 190 },
+  { label: 'qty', x: MARGIN + 290, width: 60, right: true },
+  { label: 'unitCost', x: MARGIN + 355, width: 70, right: true },
+  { label: 'amount', x: MARGIN + 430, width: 69, right: true },
+] as const
+
+// Noto Sans SC covers Latin, kana and CJK ideographs, so one family prints
+// every supported locale. Subsetting keeps the PDF to the glyphs used.
+const FONT_DIR = path.join(process.cwd(), 'node_modules', '@expo-google-fonts', 'noto-sans-sc')
+const FONT_FILES = {
+  regular: path.join(FONT_DIR, '400Regular', 'NotoSansSC_400Regular.ttf'),
+  bold: path.join(FONT_DIR, '700Bold', 'NotoSansSC_700Bold.ttf'),
+}
+
+/**
+ * Works around a defect in @pdf-lib/fontkit 1.1.1 (TTFSubset#encode):
+ * the subsetter copies each glyph's bytes without padding and then lets
+ * loca.preEncode pick the short loca format whenever the subset's glyf
+ * table ends below 0x10000 bytes. Short loca stores offset / 2, so every
+ * glyph after one with an odd byte length points one byte early and
+ * renders garbled or blank. Noto Sans SC has many odd-length glyphs, so
+ * most purchase orders hit it.
+ *
+ * Rewriting glyf with each glyph padded to an even length (which the
+ * TrueType spec allows) makes every subset offset even. The new glyf and
+ * loca tables are appended and the table directory repointed at them;
+ * fonts already using short loca are even by definition and returned as
+ * is. purchase-order.test.ts fails once fontkit stops needing this.
+ */
+function padGlyphs(font: Uint8Array): Uint8Array {
+  const view = new DataView(font.buffer, font.byteOffset, font.byteLength)
+  const tables = new Map<string, { record: number; offset: number; length: number }>()
+  for (let i = 0; i < view.getUint16(4); i++) {
+    const record = 12 + i * 16
+    const tag = String.fromCharCode(...font.subarray(record, record + 4))
+    tables.set(tag, { record, offset: view.getUint32(record + 8), length: view.getUint32(record + 12) })
+  }
+
+  const head = tables.get('head')
+  const maxp = tables.get('maxp')
+  const loca = tables.get('loca')
+  const glyf = tables.get('glyf')
+  // Short loca offsets are even by definition
+  if (!head || !maxp || !loca || !glyf || view.getInt16(head.offset + 50) === 0) return font
+
+  const numGlyphs = view.getUint16(maxp.offset + 4)
+  const offsets = Array.from({ length: numGlyphs + 1 }, (_, i) => view.getUint32(loca.offset + i * 4))
+
+  const glyfLength = offsets.reduce(
+    (sum, offset, i) => (i === 0 ? sum : sum + ((offset - offsets[i - 1] + 1) & ~1)),
+    0
+  )
+  const glyfStart = (font.byteLength + 3) & ~3
+  const locaStart = (glyfStart + glyfLength + 3) & ~3
+  const output = new Uint8Array(locaStart + offsets.length * 4)
+  const out = new DataView(output.buffer)
+  output.set(font)
+
+  let cursor = 0
+  for (let i = 0; i < numGlyphs; i++) {
+    out.setUint32(locaStart + i * 4, cursor)
+    output.set(font.subarray(glyf.offset + offsets[i], glyf.offset + offsets[i + 1]), glyfStart + cursor)
+    cursor += (offsets[i + 1] - offsets[i] + 1) & ~1
+  }
+  out.setUint32(locaStart + numGlyphs * 4, cursor)
+
+  out.setUint32(glyf.record + 8, glyfStart)
+  out.setUint32(glyf.record + 12, glyfLength)
+  out.setUint32(loca.record + 8, locaStart)
+  out.setUint32(loca.record + 12, offsets.length * 4)
+  return output
+}
+
+let fontBytes: Promise<{ regular: Uint8Array; bold: Uint8Array }> | null = null
+
+function loadFonts() {
+  if (!fontBytes) {
+    fontBytes = Promise.all([readFile(FONT_FILES.regular), readFile(FONT_FILES.bold)])
+      .then(([regular, bold]) => ({ regular: padGlyphs(regular), bold: padGlyphs(bold) }))
+      .catch((error) => {
+        fontBytes = null
+        throw error
+      })
+  }
+  return fontBytes
+}
+
+const characterSets = new WeakMap<PDFFont, Set<number>>()
+
+/**
+ * Characters the embedded font has no glyph for (e.g. Hangul) are replaced
+ * so rendering never fails on them
+ */
+function printable(font: PDFFont, value: string): string {
+  let supported = characterSets.get(font)
+  if (!supported) {
+    supported = new Set(font.getCharacterSet())
+    characterSets.set(font, supported)
+  }
+  return Array.from(value.replace(/\s+/g, ' '))
+    .map((char) => (supported.has(char.codePointAt(0)!) ? char : '?'))
+    .join('')
+}
+
+function wrap(font: PDFFont, value: string, size: number, width: number): string[] {
+  const lines: string[] = []
+  let current = ''
+  for (const word of value.split(' ')) {
+    const next = current ? `${current} ${word}` : word
+    if (current && font.widthOfTextAtSize(next, size) > width) {
+      lines.push(current)
+      current = word
+    } else {
+      current = next
+    }
+    // CJK text has no spaces to break on, so split overlong runs by character
+    while (font.widthOfTextAtSize(current, size) > width) {
+      let fit = 1
+      const chars = Array.from(current)
+      while (fit < chars.length && font.widthOfTextAtSize(chars.slice(0, fit + 1).join(''), size) <= width) fit++
+      lines.push(chars.slice(0, fit).join(''))
+      current = chars.slice(fit).join('')
+    }
+  }
+  if (current) lines.push(current)
+  return lines
+}
+
+function truncate(font: PDFFont, value: string, size: number, width: number): string {
+  let text = value
+  while (text.length > 1 && font.widthOfTextAtSize(text, size) > width) {
+    text = text.slice(0, -2) + '…'
+  }
+  return text
+}
+
+function money(amount: number, currency: string, locale: string): string {
+  return new Intl.NumberFormat(locale, { style: 'currency', currency, currencyDisplay: 'code' }).format(amount)
+}
+
+function quantity(value: number, locale: string): string {
+  return new Intl.NumberFormat(locale, { maximumFractionDigits: 4 }).format(value)
+}
+
+function date(value: string, locale: string): string {
+  return new Intl.DateTimeFormat(locale, { year: 'numeric', month: 'short', day: 'numeric' }).format(new Date(value))
+}
+
+function addressLines(address: Record<string, unknown>): string[] {
+  const part = (key: string) => (typeof address?.[key] === 'string' ? (address[key] as string).trim() : '')
+  const cityLine = [part('city'), part('state'), part('postal_code')].filter(Boolean).join(', ')
+  return [part('street'), cityLine, part('country')].filter(Boolean)
+}
+
+/**
+ * Render a purchase order as an A4 PDF: tenant header, supplier block,
+ * line table and total in the tenant's default currency and locale
+ */
+export async function renderPurchaseOrderPdf(
+  data: PurchaseOrderPdfData,
+  labels: PurchaseOrderPdfLabels
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create()
+  pdf.registerFontkit(fontkit)
+
+  const fonts = await loadFonts()
+  const regular = await pdf.embedFont(fonts.regular, { subset: true })
+  const bold = await pdf.embedFont(fonts.bold, { subset: true })
+  const { locale } = data
+
+  pdf.setTitle(labels.documentTitle.replace('{number}', data.poNumber))
+  pdf.setProducer(data.tenantName)
+
+  let page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  let y = PAGE_HEIGHT - MARGIN
+
+  const draw = (
+    text: string,
+    x: number,
+    options: { size?: number; font?: PDFFont; color?: typeof TEXT; right?: boolean; width?: number } = {}
+  ) => {
+    const font = options.font || regular
+    const size = options.size || 10
+    let value = printable(font, text)
+    if (options.width) value = truncate(font, value, size, options.width)
+    const offset = options.right && options.width ? options.width - font.widthOfTextAtSize(value, size) : 0
+    page.drawText(value, { x: x + offset, y, size, font, color: options.color || TEXT })
+  }
+
+  const rule = () => {
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: PAGE_WIDTH - MARGIN, y },
+      thickness: 0.75,
+      color: RULE,
+    })
+  }
+
+  const tableHeader = () => {
+    for (const column of COLUMNS) {
+      draw(labels[column.label], column.x, {
+        font: bold,
+        size: 9,
+        color: MUTED,
+        width: column.width,
+        right: 'right' in column && column.right,
+      })
+    }
+    y -= 8
+    rule()
+    y -= 16
+  }
+
+  // Header: tenant on the left, document title on the right
+  draw(data.tenantName, MARGIN, { font: bold, size: 16, width: PAGE_WIDTH / 2 - MARGIN })
+  const title = printable(bold, labels.title)
+  page.drawText(title, {
+    x: PAGE_WIDTH - MARGIN - bold.widthOfTextAtSize(title, 16),
+    y,
+    size: 16,
+    font: bold,
+    color: TEXT,
+  })
+  y -= 22
+
+  const meta: [string, string][] = [
+    [labels.poNumber, data.poNumber],
+    [labels.orderDate, date(data.orderDate, locale)],
+  ]
+  if (data.expectedDate) meta.push([labels.expected, date(data.expectedDate, locale)])
+  meta.push([labels.deliverTo, data.deliverTo])
+
+  const metaTop = y
+  for (const [label, value] of meta) {
+    draw(label, PAGE_WIDTH / 2 + 40, { size: 9, color: MUTED })
+    draw(value, PAGE_WIDTH / 2 + 120, { size: 10, width: PAGE_WIDTH / 2 - MARGIN - 120 })
+    y -= 14
+  }
+  const metaBottom = y
+
+  // Supplier block
+  y = metaTop
+  draw(labels.supplier, MARGIN, { size: 9, color: MUTED })
+  y -= 14
+  const supplierLines = [
+    data.supplier.code ? `${data.supplier.name} (${data.supplier.code})` : data.supplier.name,
+    ...addressLines(data.supplier.address),
+    data.supplier.contact_name ? labels.attn.replace('{name}', data.supplier.contact_name) : '',
+    data.supplier.email || '',
+    data.supplier.phone || '',
+  ].filter(Boolean)
+  supplierLines.forEach((line, index) => {
+    draw(line, MARGIN, { font: index === 0 ? bold : regular, width: PAGE_WIDTH / 2 - MARGIN })
+    y -= 14
+  })
+
+  y = Math.min(y, metaBottom) - 16
+  tableHeader()
+
+  let total = 0
+  for (const line of data.lines) {
+    const amount = line.qty * line.unit_cost
+    total += amount
+
+    const rowHeight = line.supplier_sku ? 26 : 16
+    if (y - rowHeight < MARGIN + 40) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+      y = PAGE_HEIGHT - MARGIN
+      tableHeader()
+    }
+
+    draw(line.sku, COLUMNS[0].x, { width: COLUMNS[0].width })
+    draw(line.name, COLUMNS[1].x, { width: COLUMNS[1].width })
+    draw(`${quantity(line.qty, locale)} ${line.uom}`, COLUMNS[2].x, { width: COLUMNS[2].width, right: true })
+    draw(money(line.unit_cost, data.currency, locale), COLUMNS[3].x, { width: COLUMNS[3].width, right: true })
+    draw(money(amount, data.currency, locale), COLUMNS[4].x, { width: COLUMNS[4].width, right: true })
+
+    if (line.supplier_sku) {
+      y -= 11
+      draw(labels.supplierSku.replace('{sku}', line.supplier_sku), COLUMNS[1].x, { size: 8, color: MUTED, width: COLUMNS[1].width })
+    }
+    y -= 16
+  }
+
+  y += 6
+  rule()
+  y -= 18
+  draw(labels.total, COLUMNS[3].x, { font: bold, width: COLUMNS[3].width, right: true })
+  draw(money(total, data.currency, locale), COLUMNS[4].x, { font: bold, width: COLUMNS[4].width, right: true })
+
+  if (data.notes) {
+    y -= 32
+    if (y < MARGIN + 30) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+      y = PAGE_HEIGHT - MARGIN
+    }
+    draw(labels.notes, MARGIN, { size: 9, color: MUTED })
+    y -= 14
+    for (const paragraph of data.notes.split('\n')) {
+      for (const line of wrap(regular, printable(regular, paragraph), 10, PAGE_WIDTH - MARGIN * 2)) {
+        if (y < MARGIN) {
+          page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+          y = PAGE_HEIGHT - MARGIN
+        }
+        draw(line, MARGIN, { width: PAGE_WIDTH - MARGIN * 2 })
+        y -= 14
+      }
+    }
+  }
+
+  return pdf.save()
+}
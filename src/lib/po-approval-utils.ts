@@ -0,0 +1,33 @@
+import type { PoApprovalSettings, UserRole } from '@/types'
+
+export const DEFAULT_PO_APPROVAL: PoApprovalSettings = {
+  enabled: false,
+  threshold: null,
+  supplier_ids: [],
+  location_ids: [],
+  approver_roles: ['admin'],
+}
+
+/**
+ * Merge a tenant's saved approval rules over the defaults
+ */
+export function resolvePoApproval(settings?: Partial<PoApprovalSettings> | null): PoApprovalSettings {
+  return { ...DEFAULT_PO_APPROVAL, ...settings }
+}
+
+/**
+ * Whether confirming a purchase order with this supplier, location and total
+ * needs an approver
+ */
+export function requiresPoApproval(
+  rules: PoApprovalSettings,
+  po: { supplier_id: string; location_id: string; total: number }
+): boolean {
+  if (!rules.enabled) return false
+  if (rules.threshold !== null && po.total > rules.threshold) return true
+  return rules.supplier_ids.includes(po.supplier_id) || rules.location_ids.includes(po.location_id)
+}
+
+export function canApprovePo(rules: PoApprovalSettings, role?: UserRole | null): boolean {
+  return !!role && rules.approver_roles.includes(role)
+}
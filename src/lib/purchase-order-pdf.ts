@@ -0,0 +1,94 @@
+import { createClient } from '@/lib/supabase/server'
+import {
+  renderPurchaseOrderPdf,
+  type PurchaseOrderPdfData,
+  type PurchaseOrderPdfLabels,
+} from '@/lib/pdf/purchase-order'
+import { getMessages } from '@/lib/i18n/get-messages'
+import type { Locale } from '@/lib/i18n/config'
+import type { DocumentStatus, Tenant } from '@/types'
+
+export interface PurchaseOrderPdf {
+  fileName: string
+  content: Uint8Array
+  data: PurchaseOrderPdfData
+  status: DocumentStatus
+  supplierEmail: string | null
+  contactName: string | null
+  locale: string
+}
+
+interface PdfLine {
+  product_id: string
+  qty_ordered: number
+  unit_cost: number
+  product: { sku: string; name: string; base_uom: string } | null
+}
+
+/**
+ * Load a purchase order with its supplier, lines and tenant and render it
+ * as a PDF. Returns null when the PO is not visible to the current user.
+ */
+export async function buildPurchaseOrderPdf(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  id: string
+): Promise<PurchaseOrderPdf | null> {
+  const { data: po } = await supabase
+    .from('purchase_orders')
+    .select(`
+      tenant_id, po_number, status, order_date, expected_date, notes, supplier_id,
+      supplier:suppliers(name, code, contact_name, email, phone, address),
+      location:locations(name),
+      lines:purchase_order_lines(product_id, qty_ordered, unit_cost, product:products(sku, name, base_uom))
+    `)
+    .eq('id', id)
+    .single()
+
+  if (!po) return null
+
+  const [tenantRes, catalogueRes] = await Promise.all([
+    supabase.from('tenants').select('name, settings').eq('id', po.tenant_id).single(),
+    supabase.from('supplier_products').select('product_id, supplier_sku').eq('supplier_id', po.supplier_id),
+  ])
+
+  const tenant = tenantRes.data as Pick<Tenant, 'name' | 'settings'> | null
+  const supplierSkus = new Map(
+    (catalogueRes.data || []).map((item) => [item.product_id as string, item.supplier_sku as string | null])
+  )
+  const supplier = po.supplier as unknown as PurchaseOrderPdfData['supplier']
+  const location = po.location as unknown as { name: string } | null
+
+  // Printed in the tenant's language, not the viewer's
+  const locale = tenant?.settings?.default_locale || 'en'
+  const messages = await getMessages(locale as Locale)
+
+  const data: PurchaseOrderPdfData = {
+    locale,
+    tenantName: tenant?.name || '',
+    poNumber: po.po_number,
+    orderDate: po.order_date,
+    expectedDate: po.expected_date,
+    currency: tenant?.settings?.default_currency || 'USD',
+    notes: po.notes,
+    supplier,
+    deliverTo: location?.name || '',
+    lines: ((po.lines || []) as unknown as PdfLine[]).map((line) => ({
+      sku: line.product?.sku || '',
+      name: line.product?.name || '',
+      supplier_sku: supplierSkus.get(line.product_id) || null,
+      qty: Number(line.qty_ordered),
+      uom: line.product?.base_uom || '',
+      unit_cost: Number(line.unit_cost),
+    })),
+  }
+
+  return {
+    fileName: `${po.po_number}.pdf`,
+    content: await renderPurchaseOrderPdf(data, messages.purchaseOrders.pdf as PurchaseOrderPdfLabels),
+    data,
+    status: po.status,
+    supplierEmail: supplier?.email || null,
+    contactName: supplier?.contact_name || null,
+    locale,
+  }
+}
@@ -0,0 +1,44 @@
+import type { Product, SupplierProduct } from '@/types'
+
+export type ReplenishmentProduct = Pick<Product, 'reorder_point' | 'reorder_qty' | 'max_stock' | 'allow_decimal_qty'>
+export type SupplierTerms = Partial<Pick<SupplierProduct, 'min_order_qty' | 'pack_size'>>
+
+/**
+ * Base units to order for a product below its reorder point: up to max_stock
+ * when set, otherwise reorder_qty (at least enough to reach the reorder point).
+ * Quantities already on open purchase orders count as stock.
+ */
+export function suggestOrderQty(product: ReplenishmentProduct, onHand: number, onOrder = 0): number {
+  const position = onHand + onOrder
+  if (position >= product.reorder_point) return 0
+
+  const qty = product.max_stock
+    ? product.max_stock - position
+    : Math.max(product.reorder_qty, product.reorder_point - position)
+
+  if (qty <= 0) return 0
+  return product.allow_decimal_qty ? Math.round(qty * 10000) / 10000 : Math.ceil(qty)
+}
+
+/**
+ * Raises a base quantity to the supplier's minimum order quantity and rounds
+ * it up to whole packs.
+ */
+export function applySupplierTerms(qty: number, terms: SupplierTerms): number {
+  let result = Math.max(qty, terms.min_order_qty || 0)
+  if (terms.pack_size) {
+    result = Math.ceil(Math.round((result / terms.pack_size) * 10000) / 10000) * terms.pack_size
+  }
+  return Math.round(result * 10000) / 10000
+}
+
+/** Which of the supplier's terms a base quantity breaks, if any. */
+export function supplierTermsIssue(qty: number, terms: SupplierTerms): 'min_order_qty' | 'pack_size' | null {
+  if (qty <= 0) return null
+  if (terms.min_order_qty && qty < terms.min_order_qty) return 'min_order_qty'
+  if (terms.pack_size) {
+    const packs = qty / terms.pack_size
+    if (Math.abs(packs - Math.round(packs)) > 0.0001) return 'pack_size'
+  }
+  return null
+}
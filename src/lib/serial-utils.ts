@@ -0,0 +1,45 @@
+import { toBaseQty, type UnitProduct } from '@/lib/uom-utils'
+
+/**
+ * Split serials typed one per line or comma-separated, dropping blanks
+ */
+export function parseSerialNumbers(value: string | null | undefined): string[] {
+  return (value || '')
+    .split(/[\n,]/)
+    .map((serial) => serial.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Stored serials back to the one-per-line text the inputs edit
+ */
+export function formatSerialNumbers(serials: string[] | null | undefined): string {
+  return (serials || []).join('\n')
+}
+
+/**
+ * Serials to store on a line, null when none were entered
+ */
+export function toSerialNumbers(value: string | null | undefined): string[] | null {
+  const serials = parseSerialNumbers(value)
+  return serials.length > 0 ? serials : null
+}
+
+/**
+ * First serialized line whose serials don't match its base quantity one-to-one
+ */
+export function findInvalidSerialLine<
+  T extends { product_id: string; qty: number; entered_uom?: string | null; serial_numbers?: string | null }
+>(
+  lines: T[],
+  products: (UnitProduct & { id: string; track_serial: boolean })[]
+): T | null {
+  for (const line of lines) {
+    const product = products.find((p) => p.id === line.product_id)
+    if (!product?.track_serial) continue
+    const serials = parseSerialNumbers(line.serial_numbers)
+    const converted = toBaseQty(Number(line.qty) || 0, line.entered_uom, product)
+    if (serials.length !== converted?.qty || new Set(serials).size !== serials.length) return line
+  }
+  return null
+}
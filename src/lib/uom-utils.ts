@@ -0,0 +1,110 @@
+import type { Product, ProductUnit } from '@/types'
+
+export interface WithUnits {
+  units?: Pick<ProductUnit, 'name' | 'factor' | 'is_purchase_default' | 'is_sales_default' | 'is_stock_default'>[] | null
+}
+
+export type UnitProduct = Pick<Product, 'allow_decimal_qty'> & WithUnits
+
+export type UnitPurpose = 'purchase' | 'sales' | 'stock'
+
+export interface ConvertedQty {
+  qty: number
+  entered_qty: number | null
+  entered_uom: string | null
+}
+
+// Round away floating point noise at the database's 4 decimal places
+const roundQty = (qty: number) => Math.round(qty * 10000) / 10000
+
+/**
+ * A product's alternate units, smallest first
+ */
+export function getProductUnits<T extends WithUnits>(product?: T | null): NonNullable<T['units']> {
+  return [...(product?.units || [])].sort((a, b) => a.factor - b.factor) as NonNullable<T['units']>
+}
+
+/**
+ * Find a product unit by name (case-insensitive)
+ */
+export function findUnit(product: WithUnits, name: string | null | undefined) {
+  if (!name) return undefined
+  const lower = name.toLowerCase()
+  return product.units?.find((unit) => unit.name.toLowerCase() === lower)
+}
+
+/**
+ * Name of the unit a product defaults to for purchasing, sales or stock display.
+ * Null means the base unit.
+ */
+export function getDefaultUnit(product: WithUnits | null | undefined, purpose: UnitPurpose): string | null {
+  const key = `is_${purpose}_default` as const
+  return product?.units?.find((unit) => unit[key])?.name ?? null
+}
+
+/**
+ * Convert a quantity entered in any of the product's units to base units.
+ * An empty unit means base units. Returns null for a unit the product doesn't have.
+ */
+export function toBaseQty(
+  qty: number,
+  enteredUom: string | null | undefined,
+  product: UnitProduct
+): ConvertedQty | null {
+  if (!enteredUom) {
+    return { qty, entered_qty: null, entered_uom: null }
+  }
+  const unit = findUnit(product, enteredUom)
+  if (!unit) return null
+  return { qty: roundQty(qty * unit.factor), entered_qty: qty, entered_uom: unit.name }
+}
+
+/**
+ * Express a base quantity in one of the product's units
+ */
+export function fromBaseQty(qty: number, unitName: string | null | undefined, product: WithUnits): number {
+  const unit = findUnit(product, unitName)
+  return unit ? roundQty(qty / unit.factor) : qty
+}
+
+/**
+ * Products without allow_decimal_qty only accept whole base units
+ */
+export function isAllowedQty(qty: number, product: Pick<Product, 'allow_decimal_qty'>): boolean {
+  return product.allow_decimal_qty || Number.isInteger(qty)
+}
+
+/**
+ * First line whose quantity isn't valid for its product after conversion
+ */
+export function findInvalidQtyLine<T extends { product_id: string; qty: number; entered_uom?: string | null }>(
+  lines: T[],
+  products: (UnitProduct & { id: string })[]
+): T | null {
+  for (const line of lines) {
+    const product = products.find((p) => p.id === line.product_id)
+    if (!product) continue
+    const converted = toBaseQty(Number(line.qty) || 0, line.entered_uom, product)
+    if (!converted || !isAllowedQty(converted.qty, product)) return line
+  }
+  return null
+}
+
+/**
+ * "2 Case" for lines entered in an alternate unit, null for base-unit lines
+ */
+export function formatEnteredQty(line: { entered_qty?: number | null; entered_uom?: string | null }): string | null {
+  if (line.entered_qty == null || !line.entered_uom) return null
+  return `${Number(line.entered_qty)} ${line.entered_uom}`
+}
+
+/**
+ * "12 Case" for a base quantity in the product's stock unit, null when stock
+ * is displayed in base units
+ */
+export function formatInStockUnit(qty: number, product: WithUnits | null | undefined): string | null {
+  if (!product) return null
+  const unitName = getDefaultUnit(product, 'stock')
+  if (!unitName) return null
+  return `${fromBaseQty(qty, unitName, product)} ${unitName}`
+}
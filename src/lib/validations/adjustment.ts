@@ -8,6 +8,7 @@ export const createAdjustmentLineSchema = (t: TranslationFn) => z.object({
   lot_number: z.string().nullable().optional(),
   expiry_date: z.string().nullable().optional(),
   unit_cost: z.coerce.number().min(0).nullable().optional(),
+  entered_uom: z.string().nullable().optional(),
 })
 
 export const createAdjustmentSchema = (t: TranslationFn) => z.object({
@@ -0,0 +1,19 @@
+import { z } from 'zod'
+
+type TranslationFn = (key: string) => string
+
+export const createAssemblySchema = (t: TranslationFn) => z.object({
+  assembly_type: z.enum(['assembly', 'disassembly']),
+  product_id: z.string().uuid(t('validation.selectProduct')),
+  location_id: z.string().uuid(t('validation.selectLocation')),
+  qty: z.coerce.number().positive(t('validation.quantityPositive')),
+  // Lot of the finished item: produced by an assembly, consumed by a disassembly
+  lot_number: z.string().nullable().optional(),
+  expiry_date: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+})
+
+// Default schemas for type inference
+export const assemblySchema = createAssemblySchema((key) => key)
+
+export type AssemblyFormData = z.infer<typeof assemblySchema>
@@ -21,6 +21,9 @@ export const createCountEntrySchema = (_t: TranslationFn) => z.object({
   lines: z.array(z.object({
     line_id: z.string().uuid(),
     counted_qty: z.coerce.number().min(0),
+    entered_uom: z.string().nullable().optional(),
+    // Units counted, one per line or comma-separated, for serialized products
+    serial_numbers: z.string().nullable().optional(),
   })),
 })
 
@@ -34,3 +34,19 @@ export const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
 export const MAX_FILES_PER_ENTITY = 10
 
 export const ALLOWED_EXTENSIONS = '.pdf,.doc,.docx,.xls,.xlsx,.csv,.txt,.xml,.jpg,.jpeg,.png,.webp'
+
+/**
+ * Reduce a file name to something safe to use as a storage path segment:
+ * no directory separators, control characters or leading dots.
+ */
+export function sanitizeFileName(name: string): string {
+  const cleaned = name
+    .split(/[\\/]/)
+    .pop()!
+    .replace(/[\u0000-\u001f\u007f]/g, '')
+    .replace(/[<>:"|?*]/g, '_')
+    .replace(/^\.+/, '')
+    .trim()
+    .slice(0, 200)
+  return cleaned || 'file'
+}
@@ -4,14 +4,37 @@ type TranslationFn = (key: string) => string
 
 export const createLocationSchema = (t: TranslationFn) => z.object({
   name: z.string().min(1, t('validation.nameRequired')).max(100),
-  type: z.enum(['warehouse', 'store', 'outlet']),
+  type: z.enum(['warehouse', 'store', 'outlet', 'bin']),
   parent_id: z.string().uuid().nullable().optional(),
   is_parent: z.boolean().default(false),
   address: z.string().max(500).nullable().optional(),
   active: z.boolean().default(true),
-})
+  // null follows the tenant setting
+  allow_negative_stock: z.boolean().nullable().default(null),
+}).refine(
+  // Bins only exist inside a warehouse
+  (data) => data.type !== 'bin' || !!data.parent_id,
+  { message: t('validation.binWarehouseRequired'), path: ['parent_id'] }
+)
 
-// Default schema for type inference
+export const createBinMoveSchema = (t: TranslationFn) => z.object({
+  product_id: z.string().uuid(t('validation.selectProduct')),
+  from_location_id: z.string().uuid(),
+  to_location_id: z.string().uuid(t('validation.selectBin')),
+  qty: z.coerce.number().positive(t('validation.quantityPositive')),
+  lot_number: z.string().nullable().optional(),
+  expiry_date: z.string().nullable().optional(),
+  // One per line or comma-separated, for serialized products
+  serial_numbers: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+}).refine(
+  (data) => data.from_location_id !== data.to_location_id,
+  { message: t('validation.sourceDestinationDifferent'), path: ['to_location_id'] }
+)
+
+// Default schemas for type inference
 export const locationSchema = createLocationSchema((key) => key)
+export const binMoveSchema = createBinMoveSchema((key) => key)
 
 export type LocationFormData = z.infer<typeof locationSchema>
+export type BinMoveFormData = z.infer<typeof binMoveSchema>
@@ -1,32 +1,100 @@
 import { z } from 'zod'
+import { splitVariantValues, variantKey } from '@/lib/variant-utils'
 
 type TranslationFn = (key: string) => string
 
+export const createProductUnitSchema = (t: TranslationFn) => z.object({
+  name: z.string().trim().min(1, t('validation.unitNameRequired')).max(20),
+  factor: z.coerce.number().positive(t('validation.unitFactorPositive')),
+  barcode: z.string().max(50).nullable().optional(),
+  is_purchase_default: z.boolean().default(false),
+  is_sales_default: z.boolean().default(false),
+  is_stock_default: z.boolean().default(false),
+})
+
+export const createBomLineSchema = (t: TranslationFn) => z.object({
+  component_id: z.string().uuid(t('validation.selectProduct')),
+  // Base units of the component in one base unit of the product
+  qty: z.coerce.number().positive(t('validation.quantityPositive')),
+})
+
+export const createVariantOptionSchema = (t: TranslationFn) => z.object({
+  name: z.string().trim().min(1, t('validation.variantOptionNameRequired')).max(30),
+  // Comma-separated, e.g. "S, M, L"
+  values: z.string().refine(
+    (values) => splitVariantValues(values).length > 0,
+    t('validation.variantValuesRequired')
+  ),
+})
+
+export const createVariantSchema = (t: TranslationFn) => z.object({
+  sku: z.string().trim().min(1, t('validation.skuRequired')).max(50, t('validation.skuMaxLength')),
+  name: z.string().trim().min(1, t('validation.nameRequired')).max(200, t('validation.nameMaxLength200')),
+  values: z.record(z.string(), z.string()),
+})
+
 export const createProductSchema = (t: TranslationFn) => z.object({
   sku: z.string().min(1, t('validation.skuRequired')).max(50, t('validation.skuMaxLength')),
   name: z.string().min(1, t('validation.nameRequired')).max(200, t('validation.nameMaxLength200')),
   barcode: z.string().max(50).nullable().optional(),
   category_id: z.string().uuid().nullable().optional(),
   base_uom: z.enum(['EA', 'KG', 'G', 'L', 'ML', 'M', 'CM', 'BOX', 'PACK']),
-  pack_uom_name: z.string().max(20).nullable().optional(),
-  pack_qty_in_base: z.coerce.number().positive().nullable().optional(),
+  units: z.array(createProductUnitSchema(t)).default([]),
+  bom: z.array(createBomLineSchema(t)).default([]),
   current_cost: z.coerce.number().min(0).default(0),
+  weight: z.coerce.number().min(0).nullable().optional(),
   track_expiry: z.boolean().default(false),
   track_lot: z.boolean().default(false),
+  // One serial number per base unit on every stock movement
+  track_serial: z.boolean().default(false),
   reorder_point: z.coerce.number().min(0).default(0),
   reorder_qty: z.coerce.number().min(0).default(0),
+  max_stock: z.coerce.number().min(0).nullable().optional(),
   active: z.boolean().default(true),
+  variant_options: z.array(createVariantOptionSchema(t)).default([]),
+  // New variants to create; existing ones are edited as products of their own
+  variants: z.array(createVariantSchema(t)).default([]),
 }).refine(
   (data) => {
-    // If pack_uom_name is set, pack_qty_in_base must also be set
-    if (data.pack_uom_name && !data.pack_qty_in_base) return false
-    if (data.pack_qty_in_base && !data.pack_uom_name) return false
-    return true
+    // Unit names must be unique per product and differ from the base unit
+    const names = data.units.map((unit) => unit.name.toLowerCase())
+    return new Set(names).size === names.length && !names.includes(data.base_uom.toLowerCase())
+  },
+  { message: t('validation.unitNamesUnique'), path: ['units'] }
+).refine(
+  (data) => (['is_purchase_default', 'is_sales_default', 'is_stock_default'] as const).every(
+    (key) => data.units.filter((unit) => unit[key]).length <= 1
+  ),
+  { message: t('validation.unitDefaultsUnique'), path: ['units'] }
+).refine(
+  (data) => {
+    const components = data.bom.map((line) => line.component_id)
+    return new Set(components).size === components.length
+  },
+  { message: t('validation.bomComponentsUnique'), path: ['bom'] }
+).refine(
+  (data) => {
+    const names = data.variant_options.map((option) => option.name.toLowerCase())
+    return new Set(names).size === names.length
+  },
+  { message: t('validation.variantOptionsUnique'), path: ['variant_options'] }
+).refine(
+  (data) => {
+    const skus = [data.sku, ...data.variants.map((variant) => variant.sku)].map((sku) => sku.toLowerCase())
+    const keys = data.variants.map((variant) => variantKey(variant.values))
+    return new Set(skus).size === skus.length && new Set(keys).size === keys.length
   },
-  { message: t('validation.packUnitBothRequired') }
+  { message: t('validation.variantsUnique'), path: ['variants'] }
 )
 
-// Default schema for type inference
+// Default schemas for type inference
+export const productUnitSchema = createProductUnitSchema((key) => key)
+export const bomLineSchema = createBomLineSchema((key) => key)
+export const variantOptionSchema = createVariantOptionSchema((key) => key)
+export const variantSchema = createVariantSchema((key) => key)
 export const productSchema = createProductSchema((key) => key)
 
 export type ProductFormData = z.infer<typeof productSchema>
+export type ProductUnitFormData = z.infer<typeof productUnitSchema>
+export type BomLineFormData = z.infer<typeof bomLineSchema>
+export type VariantFormData = z.infer<typeof variantSchema>
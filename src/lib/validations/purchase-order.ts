@@ -6,6 +6,8 @@ export const createPurchaseOrderLineSchema = (t: TranslationFn) => z.object({
   product_id: z.string().uuid(t('validation.selectProduct')),
   qty_ordered: z.coerce.number().positive(t('validation.quantityPositive')),
   unit_cost: z.coerce.number().min(0, t('validation.costNotNegative')),
+  // Unit the quantity was entered in; empty means base units
+  entered_uom: z.string().nullable().optional(),
 })
 
 export const createPurchaseOrderSchema = (t: TranslationFn) => z.object({
@@ -21,8 +23,13 @@ export const createReceiveLineSchema = (t: TranslationFn) => z.object({
   line_id: z.string().uuid(),
   product_id: z.string().uuid(),
   qty_to_receive: z.coerce.number().min(0, t('validation.costNotNegative')),
+  entered_uom: z.string().nullable().optional(),
   lot_number: z.string().nullable().optional(),
   expiry_date: z.string().nullable().optional(),
+  // One per line or comma-separated, for serialized products
+  serial_numbers: z.string().nullable().optional(),
+  // Putaway bin under the PO's location
+  bin_id: z.string().uuid().nullable().optional(),
 })
 
 export const createReceiveSchema = (t: TranslationFn) => z.object({
@@ -30,13 +37,48 @@ export const createReceiveSchema = (t: TranslationFn) => z.object({
   received_date: z.string().nullable().optional(),
 })
 
+export const createLandedCostSchema = (t: TranslationFn) => z.object({
+  receipt_id: z.string().uuid().nullable().optional(),
+  charge_type: z.enum(['freight', 'duty', 'handling', 'insurance', 'other']),
+  description: z.string().max(200).nullable().optional(),
+  amount: z.coerce.number().positive(t('validation.amountPositive')),
+  allocation_method: z.enum(['value', 'quantity', 'weight']),
+})
+
+export const createReplenishmentLineSchema = (t: TranslationFn) => z.object({
+  product_id: z.string().uuid(t('validation.selectProduct')),
+  supplier_id: z.string().uuid(t('validation.selectSupplier')),
+  location_id: z.string().uuid(t('validation.selectLocation')),
+  // Base units
+  qty: z.coerce.number().positive(t('validation.quantityPositive')),
+  unit_cost: z.coerce.number().min(0, t('validation.costNotNegative')),
+})
+
+export const createReplenishmentSchema = (t: TranslationFn) => z.object({
+  lines: z.array(createReplenishmentLineSchema(t)).min(1, t('validation.addAtLeastOneLine')),
+})
+
+export const createPoDecisionSchema = (t: TranslationFn) => z.object({
+  decision: z.enum(['approved', 'rejected']),
+  comment: z.string().trim().max(500).optional(),
+}).refine((data) => data.decision === 'approved' || !!data.comment, {
+  message: t('validation.rejectCommentRequired'),
+  path: ['comment'],
+})
+
 // Default schemas for type inference
 export const purchaseOrderLineSchema = createPurchaseOrderLineSchema((key) => key)
 export const purchaseOrderSchema = createPurchaseOrderSchema((key) => key)
 export const receiveLineSchema = createReceiveLineSchema((key) => key)
 export const receiveSchema = createReceiveSchema((key) => key)
+export const landedCostSchema = createLandedCostSchema((key) => key)
+export const replenishmentSchema = createReplenishmentSchema((key) => key)
+export const poDecisionSchema = createPoDecisionSchema((key) => key)
 
 export type PurchaseOrderFormData = z.infer<typeof purchaseOrderSchema>
 export type PurchaseOrderLineFormData = z.infer<typeof purchaseOrderLineSchema>
 export type ReceiveFormData = z.infer<typeof receiveSchema>
 export type ReceiveLineFormData = z.infer<typeof receiveLineSchema>
+export type LandedCostFormData = z.infer<typeof landedCostSchema>
+export type ReplenishmentFormData = z.infer<typeof replenishmentSchema>
+export type PoDecisionFormData = z.infer<typeof poDecisionSchema>
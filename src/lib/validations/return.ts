@@ -7,6 +7,9 @@ export const createReturnLineSchema = (t: TranslationFn) => z.object({
   qty: z.coerce.number().positive(t('validation.quantityPositive')),
   lot_number: z.string().nullable().optional(),
   expiry_date: z.string().nullable().optional(),
+  entered_uom: z.string().nullable().optional(),
+  // One per line or comma-separated, for serialized products
+  serial_numbers: z.string().nullable().optional(),
 })
 
 export const createReturnSchema = (t: TranslationFn) => z.object({
@@ -6,15 +6,71 @@ export const createProfileSchema = (t: TranslationFn) => z.object({
   name: z.string().min(1, t('validation.nameRequired')).max(100, t('validation.nameMaxLength')),
 })
 
-export const createOrganizationSchema = (t: TranslationFn) => z.object({
-  name: z.string().min(1, t('validation.organizationNameRequired')).max(100, t('validation.nameMaxLength')),
-  default_currency: z.string().min(1, t('validation.currencyRequired')).max(10, t('validation.currencyMaxLength')),
-  require_adjustment_approval: z.boolean(),
+export const createDocNumberFormatSchema = (t: TranslationFn) => z.object({
+  prefix: z.string()
+    .max(10, t('validation.docPrefixMaxLength'))
+    .regex(/^[A-Za-z0-9/_.-]*$/, t('validation.docPrefixInvalid')),
+  include_year: z.boolean(),
+  padding: z.coerce.number().int().min(1, t('validation.docPaddingRange')).max(10, t('validation.docPaddingRange')),
+  reset_yearly: z.boolean(),
+}).refine((format) => format.include_year || !format.reset_yearly, {
+  message: t('validation.resetYearlyRequiresYear'),
+  path: ['reset_yearly'],
+})
+
+export const createOrganizationSchema = (t: TranslationFn) => {
+  const formatSchema = createDocNumberFormatSchema(t)
+  return z.object({
+    name: z.string().min(1, t('validation.organizationNameRequired')).max(100, t('validation.nameMaxLength')),
+    default_currency: z.string().min(1, t('validation.currencyRequired')).max(10, t('validation.currencyMaxLength')),
+    require_adjustment_approval: z.boolean(),
+    fefo_default: z.boolean(),
+    costing_method: z.enum(['weighted_average', 'fifo']),
+    allow_negative_stock: z.boolean(),
+    doc_number_formats: z.object({
+      purchase_order: formatSchema,
+      shipment: formatSchema,
+      transfer: formatSchema,
+      adjustment: formatSchema,
+      cycle_count: formatSchema,
+      return: formatSchema,
+      assembly: formatSchema,
+    }),
+  })
+}
+
+export const createPoApprovalSchema = (t: TranslationFn) => z.object({
+  enabled: z.boolean(),
+  threshold: z.coerce.number().min(0, t('validation.amountNotNegative')).nullable(),
+  supplier_ids: z.array(z.string().uuid()),
+  location_ids: z.array(z.string().uuid()),
+  approver_roles: z.array(z.enum(['admin', 'manager'])).min(1, t('validation.approverRoleRequired')),
+})
+
+export const createInvoiceMatchingSchema = (t: TranslationFn) => z.object({
+  qty_tolerance_pct: z.coerce.number().min(0, t('validation.tolerancePercentRange')).max(100, t('validation.tolerancePercentRange')),
+  price_tolerance_pct: z.coerce.number().min(0, t('validation.tolerancePercentRange')).max(100, t('validation.tolerancePercentRange')),
+})
+
+export const createClosePeriodSchema = (t: TranslationFn) => z.object({
+  period_end: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, t('validation.periodEndRequired')),
+})
+
+export const createReopenPeriodSchema = (t: TranslationFn) => z.object({
+  note: z.string().trim().min(1, t('validation.reopenNoteRequired')).max(500),
 })
 
 // Default schemas for type inference
 export const profileSchema = createProfileSchema((key) => key)
 export const organizationSchema = createOrganizationSchema((key) => key)
+export const closePeriodSchema = createClosePeriodSchema((key) => key)
+export const reopenPeriodSchema = createReopenPeriodSchema((key) => key)
+export const poApprovalSchema = createPoApprovalSchema((key) => key)
+export const invoiceMatchingSchema = createInvoiceMatchingSchema((key) => key)
 
 export type ProfileFormData = z.infer<typeof profileSchema>
 export type OrganizationFormData = z.infer<typeof organizationSchema>
+export type ClosePeriodFormData = z.infer<typeof closePeriodSchema>
+export type ReopenPeriodFormData = z.infer<typeof reopenPeriodSchema>
+export type PoApprovalFormData = z.infer<typeof poApprovalSchema>
+export type InvoiceMatchingFormData = z.infer<typeof invoiceMatchingSchema>
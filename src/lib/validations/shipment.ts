@@ -7,6 +7,12 @@ export const createShipmentLineSchema = (t: TranslationFn) => z.object({
   qty: z.coerce.number().positive(t('validation.quantityPositive')),
   lot_number: z.string().nullable().optional(),
   expiry_date: z.string().nullable().optional(),
+  auto_allocate: z.boolean().optional(),
+  entered_uom: z.string().nullable().optional(),
+  // One per line or comma-separated, for serialized products
+  serial_numbers: z.string().nullable().optional(),
+  // Bin of the ship-from location to pick from
+  bin_id: z.string().uuid().nullable().optional(),
 })
 
 export const createShipmentSchema = (t: TranslationFn) => z.object({
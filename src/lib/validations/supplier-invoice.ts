@@ -0,0 +1,36 @@
+import { z } from 'zod'
+
+type TranslationFn = (key: string) => string
+
+export const createSupplierInvoiceLineSchema = (t: TranslationFn) => z.object({
+  po_line_id: z.string().uuid(),
+  product_id: z.string().uuid(t('validation.selectProduct')),
+  // Zero leaves the PO line off this invoice
+  qty_invoiced: z.coerce.number().min(0, t('validation.quantityNonNegative')),
+  unit_price: z.coerce.number().min(0, t('validation.costNotNegative')),
+})
+
+export const createSupplierInvoiceSchema = (t: TranslationFn) => z.object({
+  po_id: z.string().uuid(t('validation.selectPurchaseOrder')),
+  invoice_number: z.string().trim().min(1, t('validation.invoiceNumberRequired')).max(50, t('validation.maxLength')),
+  invoice_date: z.string().min(1, t('validation.invoiceDateRequired')),
+  due_date: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+  lines: z.array(createSupplierInvoiceLineSchema(t)),
+}).refine((data) => data.lines.some((line) => line.qty_invoiced > 0), {
+  message: t('validation.addAtLeastOneLine'),
+  path: ['lines'],
+})
+
+export const createInvoiceApprovalSchema = (t: TranslationFn) => z.object({
+  note: z.string().trim().min(1, t('validation.approvalNoteRequired')).max(500),
+})
+
+// Default schemas for type inference
+export const supplierInvoiceLineSchema = createSupplierInvoiceLineSchema((key) => key)
+export const supplierInvoiceSchema = createSupplierInvoiceSchema((key) => key)
+export const invoiceApprovalSchema = createInvoiceApprovalSchema((key) => key)
+
+export type SupplierInvoiceFormData = z.infer<typeof supplierInvoiceSchema>
+export type SupplierInvoiceLineFormData = z.infer<typeof supplierInvoiceLineSchema>
+export type InvoiceApprovalFormData = z.infer<typeof invoiceApprovalSchema>
@@ -18,7 +18,22 @@ export const createSupplierSchema = (t: TranslationFn) => z.object({
   active: z.boolean().default(true),
 })
 
-// Default schema for type inference
+export const createSupplierProductSchema = (t: TranslationFn) => z.object({
+  supplier_id: z.string().uuid(t('validation.selectSupplier')),
+  product_id: z.string().uuid(t('validation.selectProduct')),
+  supplier_sku: z.string().max(50).nullable().optional(),
+  // Per base unit
+  contract_price: z.coerce.number().min(0, t('validation.costNotNegative')).nullable().optional(),
+  currency: z.string().max(3).nullable().optional(),
+  lead_time_days: z.coerce.number().int().min(0).nullable().optional(),
+  min_order_qty: z.coerce.number().positive(t('validation.quantityPositive')).nullable().optional(),
+  pack_size: z.coerce.number().positive(t('validation.quantityPositive')).nullable().optional(),
+  preferred: z.boolean().default(false),
+})
+
+// Default schemas for type inference
 export const supplierSchema = createSupplierSchema((key) => key)
+export const supplierProductSchema = createSupplierProductSchema((key) => key)
 
 export type SupplierFormData = z.infer<typeof supplierSchema>
+export type SupplierProductFormData = z.infer<typeof supplierProductSchema>
@@ -7,6 +7,10 @@ export const createTransferLineSchema = (t: TranslationFn) => z.object({
   qty: z.coerce.number().positive(t('validation.quantityPositive')),
   lot_number: z.string().nullable().optional(),
   expiry_date: z.string().nullable().optional(),
+  auto_allocate: z.boolean().optional(),
+  entered_uom: z.string().nullable().optional(),
+  // One per line or comma-separated, for serialized products
+  serial_numbers: z.string().nullable().optional(),
 })
 
 export const createTransferSchema = (t: TranslationFn) => z.object({
@@ -19,9 +23,24 @@ export const createTransferSchema = (t: TranslationFn) => z.object({
   { message: t('validation.sourceDestinationDifferent'), path: ['to_location_id'] }
 )
 
+export const createTransferReceiveLineSchema = (t: TranslationFn) => z.object({
+  line_id: z.string().uuid(),
+  qty_received: z.coerce.number().min(0, t('validation.quantityNonNegative')),
+  resolution: z.enum(['loss', 'return_to_source']).optional(),
+  // Units that arrived; omitted means every unit sent
+  serial_numbers: z.string().nullable().optional(),
+})
+
+export const createTransferReceiveSchema = (t: TranslationFn) => z.object({
+  lines: z.array(createTransferReceiveLineSchema(t)),
+  received_date: z.string().nullable().optional(),
+})
+
 // Default schemas for type inference
 export const transferLineSchema = createTransferLineSchema((key) => key)
 export const transferSchema = createTransferSchema((key) => key)
+export const transferReceiveSchema = createTransferReceiveSchema((key) => key)
 
 export type TransferFormData = z.infer<typeof transferSchema>
 export type TransferLineFormData = z.infer<typeof transferLineSchema>
+export type TransferReceiveFormData = z.infer<typeof transferReceiveSchema>
@@ -0,0 +1,150 @@
+import type { Product, VariantOption } from '@/types'
+
+export type VariantValues = Record<string, string>
+
+export type VariantParent = Pick<Product, 'id' | 'sku' | 'name'>
+
+/**
+ * Split a comma-separated value list ("S, M, L"), dropping blanks and duplicates
+ */
+export function splitVariantValues(values: string): string[] {
+  const seen = new Set<string>()
+  return values
+    .split(',')
+    .map((value) => value.trim())
+    .filter((value) => {
+      const key = value.toLowerCase()
+      if (!value || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+}
+
+/**
+ * Form attribute rows (values as typed) to stored variant options
+ */
+export function toVariantOptions(options: { name: string; values: string }[]): VariantOption[] {
+  return options
+    .map((option) => ({ name: option.name.trim(), values: splitVariantValues(option.values) }))
+    .filter((option) => option.name && option.values.length > 0)
+}
+
+/**
+ * Every combination of the options' values, in option order
+ */
+export function buildVariantCombinations(options: VariantOption[]): VariantValues[] {
+  if (options.length === 0) return []
+  return options.reduce<VariantValues[]>(
+    (combinations, option) => combinations.flatMap((combination) =>
+      option.values.map((value) => ({ ...combination, [option.name]: value }))
+    ),
+    [{}]
+  )
+}
+
+/**
+ * Case-insensitive identity of a combination, independent of attribute order
+ */
+export function variantKey(values: VariantValues | null | undefined): string {
+  return Object.entries(values || {})
+    .map(([name, value]) => `${name.toLowerCase()}=${value.toLowerCase()}`)
+    .sort()
+    .join('|')
+}
+
+/**
+ * "M / Red"
+ */
+export function formatVariantValues(values: VariantValues | null | undefined): string {
+  return Object.values(values || {}).join(' / ')
+}
+
+/**
+ * Suggested child sku: "TSHIRT-M-RED"
+ */
+export function variantSku(parentSku: string, values: VariantValues): string {
+  const suffix = Object.values(values).map((value) => value.toUpperCase().replace(/\s+/g, ''))
+  return [parentSku.trim(), ...suffix].join('-')
+}
+
+/**
+ * Suggested child name: "T-Shirt - M / Red"
+ */
+export function variantName(parentName: string, values: VariantValues): string {
+  return `${parentName.trim()} - ${formatVariantValues(values)}`
+}
+
+/**
+ * Map variant product ids to their parent
+ */
+export function buildVariantParentMap(
+  products: (VariantParent & Pick<Product, 'parent_id'>)[]
+): Record<string, VariantParent> {
+  const byId = new Map(products.map((product) => [product.id, product]))
+  const parents: Record<string, VariantParent> = {}
+  for (const product of products) {
+    const parent = product.parent_id ? byId.get(product.parent_id) : undefined
+    if (parent) parents[product.id] = { id: parent.id, sku: parent.sku, name: parent.name }
+  }
+  return parents
+}
+
+export interface RollUpRow {
+  id: string
+  product_id: string
+  location_id: string
+  lot_number: string | null
+  expiry_date: string | null
+  qty_on_hand: number
+  avg_cost: number
+  inventory_value: number
+  reserved_qty?: number
+  available_qty?: number
+  product?: { sku: string; name: string } | null
+}
+
+/**
+ * Combine variant stock rows into one row per parent and location. Lots and
+ * expiry dates don't survive the roll-up; avg_cost becomes the value-weighted
+ * average. Rows of products without a parent pass through unchanged.
+ */
+export function rollUpToParents<T extends RollUpRow>(rows: T[], parents: Record<string, VariantParent>): T[] {
+  const result: T[] = []
+  const rolledUp = new Map<string, T>()
+
+  for (const row of rows) {
+    const parent = parents[row.product_id]
+    if (!parent) {
+      result.push(row)
+      continue
+    }
+
+    const key = `${parent.id}-${row.location_id}`
+    const existing = rolledUp.get(key)
+    if (existing) {
+      existing.qty_on_hand += Number(row.qty_on_hand)
+      existing.inventory_value += Number(row.inventory_value)
+      if (existing.reserved_qty !== undefined) existing.reserved_qty += Number(row.reserved_qty || 0)
+      if (existing.available_qty !== undefined) existing.available_qty += Number(row.available_qty || 0)
+      continue
+    }
+
+    const combined = {
+      ...row,
+      id: key,
+      product_id: parent.id,
+      lot_number: null,
+      expiry_date: null,
+      qty_on_hand: Number(row.qty_on_hand),
+      inventory_value: Number(row.inventory_value),
+      product: row.product ? { ...row.product, sku: parent.sku, name: parent.name } : row.product,
+    }
+    rolledUp.set(key, combined)
+    result.push(combined)
+  }
+
+  for (const row of rolledUp.values()) {
+    row.avg_cost = row.qty_on_hand ? row.inventory_value / row.qty_on_hand : 0
+  }
+  return result
+}
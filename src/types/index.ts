@@ -1,11 +1,41 @@
 // Database types
 export type UserRole = 'admin' | 'manager' | 'staff' | 'readonly'
-export type LocationType = 'warehouse' | 'store' | 'outlet'
-export type DocumentStatus = 'draft' | 'confirmed' | 'partial' | 'completed' | 'cancelled'
-export type MovementType = 'receive' | 'ship' | 'transfer_out' | 'transfer_in' | 'adjustment' | 'count_variance' | 'return_in' | 'return_out' | 'void'
+export type LocationType = 'warehouse' | 'store' | 'outlet' | 'bin'
+export type DocumentStatus = 'draft' | 'pending_approval' | 'confirmed' | 'partial' | 'completed' | 'cancelled' | 'voided'
+export type MovementType = 'receive' | 'ship' | 'transfer_out' | 'transfer_in' | 'adjustment' | 'count_variance' | 'return_in' | 'return_out' | 'void' | 'assembly_consume' | 'assembly_produce' | 'bin_move' | 'transfer_loss' | 'transfer_return' | 'cost_adjustment'
 export type AdjustmentReason = 'damage' | 'shrinkage' | 'expiry' | 'correction' | 'sample' | 'count_variance' | 'other'
+export type AssemblyType = 'assembly' | 'disassembly'
 export type BaseUom = 'EA' | 'KG' | 'G' | 'L' | 'ML' | 'M' | 'CM' | 'BOX' | 'PACK'
 export type ReservationStatus = 'active' | 'released' | 'consumed'
+export type DocNumberType = 'purchase_order' | 'shipment' | 'transfer' | 'adjustment' | 'cycle_count' | 'return' | 'assembly'
+
+export interface DocNumberFormat {
+  prefix: string
+  include_year: boolean
+  padding: number
+  reset_yearly: boolean
+}
+
+export type CostingMethod = 'weighted_average' | 'fifo'
+
+// When confirming a purchase order needs an approver
+export interface PoApprovalSettings {
+  enabled: boolean
+  // Order total above which approval is needed; null for no value limit
+  threshold: number | null
+  // Suppliers and receiving locations that always need approval
+  supplier_ids: string[]
+  location_ids: string[]
+  approver_roles: UserRole[]
+}
+
+// How far a supplier invoice may differ from the PO and still match
+export interface InvoiceMatchingSettings {
+  // Percent over the received quantity allowed on invoices
+  qty_tolerance_pct: number
+  // Percent difference from the PO unit cost allowed on invoice prices
+  price_tolerance_pct: number
+}
 
 export interface Tenant {
   id: string
@@ -16,6 +46,14 @@ export interface Tenant {
     require_adjustment_approval: boolean
     default_currency: string
     default_locale?: string
+    fefo_default?: boolean
+    costing_method?: CostingMethod
+    allow_negative_stock?: boolean
+    // Postings dated on or before this day are locked (end of the latest closed period)
+    lock_date?: string | null
+    doc_number_formats?: Partial<Record<DocNumberType, DocNumberFormat>>
+    po_approval?: Partial<PoApprovalSettings>
+    invoice_matching?: Partial<InvoiceMatchingSettings>
   }
   created_at: string
 }
@@ -70,19 +108,60 @@ export interface Product {
   barcode: string | null
   category_id: string | null
   base_uom: BaseUom
-  pack_uom_name: string | null
-  pack_qty_in_base: number | null
   allow_decimal_qty: boolean
   current_cost: number
+  weight: number | null
   track_expiry: boolean
   track_lot: boolean
+  track_serial: boolean
   reorder_point: number
   reorder_qty: number
+  // Replenishment orders up to this level instead of reorder_qty when set
+  max_stock: number | null
   active: boolean
+  // Variant parent this product is a combination of
+  parent_id: string | null
+  // Set on variant parents only
+  variant_options: VariantOption[] | null
+  // Set on variants only, e.g. { Size: 'M', Colour: 'Red' }
+  variant_values: Record<string, string> | null
   created_at: string
   updated_at: string
   // Joined fields
   category?: Category
+  units?: ProductUnit[]
+  bom?: BomLine[]
+}
+
+export interface BomLine {
+  id: string
+  tenant_id: string
+  product_id: string
+  component_id: string
+  // Base units of the component in one base unit of the product
+  qty: number
+  created_at: string
+  // Joined
+  component?: Product
+}
+
+export interface VariantOption {
+  name: string
+  values: string[]
+}
+
+export interface ProductUnit {
+  id: string
+  tenant_id: string
+  product_id: string
+  name: string
+  // Base units in one of this unit
+  factor: number
+  barcode: string | null
+  is_purchase_default: boolean
+  is_sales_default: boolean
+  is_stock_default: boolean
+  created_at: string
 }
 
 export interface Location {
@@ -94,6 +173,8 @@ export interface Location {
   is_parent: boolean
   address: string | null
   active: boolean
+  // Negative stock override, null follows the tenant setting
+  allow_negative_stock: boolean | null
   created_at: string
 }
 
@@ -110,6 +191,27 @@ export interface Supplier {
   created_at: string
 }
 
+// A product in a supplier's catalogue; quantities and prices are per base unit
+export interface SupplierProduct {
+  id: string
+  tenant_id: string
+  supplier_id: string
+  product_id: string
+  supplier_sku: string | null
+  contract_price: number | null
+  // Unit cost of the latest confirmed purchase order line from this supplier
+  last_price: number | null
+  currency: string | null
+  lead_time_days: number | null
+  min_order_qty: number | null
+  pack_size: number | null
+  preferred: boolean
+  created_at: string
+  updated_at: string
+  supplier?: Pick<Supplier, 'id' | 'code' | 'name'>
+  product?: Pick<Product, 'id' | 'sku' | 'name' | 'base_uom'>
+}
+
 export interface Customer {
   id: string
   tenant_id: string
@@ -133,6 +235,10 @@ export interface InventoryBalance {
   qty_on_hand: number
   avg_cost: number
   inventory_value: number
+  reserved_qty?: number
+  available_qty?: number
+  // Depleted stock only: effective date of the last movement
+  last_movement_date?: string
   updated_at: string
   // Joined
   product?: Product
@@ -150,6 +256,11 @@ export interface PurchaseOrder {
   expected_date: string | null
   notes: string | null
   created_by: string | null
+  approved_by: string | null
+  approved_at: string | null
+  // Last time the PO was emailed to the supplier
+  sent_at: string | null
+  sent_to: string | null
   created_at: string
   updated_at: string
   // Joined
@@ -158,6 +269,22 @@ export interface PurchaseOrder {
   lines?: PurchaseOrderLine[]
 }
 
+export type PoApprovalDecision = 'approved' | 'rejected'
+
+export interface PurchaseOrderApproval {
+  id: string
+  tenant_id: string
+  po_id: string
+  decision: PoApprovalDecision
+  comment: string | null
+  // Order total at the time of the decision
+  order_total: number
+  decided_by: string | null
+  decided_at: string
+  // Joined
+  decided_by_user?: { id: string; name: string } | null
+}
+
 export interface PurchaseOrderLine {
   id: string
   po_id: string
@@ -165,8 +292,109 @@ export interface PurchaseOrderLine {
   qty_ordered: number
   qty_received: number
   unit_cost: number
+  entered_qty: number | null
+  entered_uom: string | null
+  // Joined
+  product?: Product
+}
+
+export type SupplierInvoiceStatus = 'matched' | 'mismatch' | 'approved' | 'cancelled'
+
+export interface SupplierInvoice {
+  id: string
+  tenant_id: string
+  po_id: string
+  supplier_id: string
+  invoice_number: string
+  invoice_date: string
+  due_date: string | null
+  status: SupplierInvoiceStatus
+  notes: string | null
+  // Set once price variances have been applied to inventory cost
+  posted_at: string | null
+  approved_by: string | null
+  approved_at: string | null
+  approval_note: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+  // Joined
+  supplier?: Supplier
+  purchase_order?: PurchaseOrder
+  lines?: SupplierInvoiceLine[]
+}
+
+export interface SupplierInvoiceLine {
+  id: string
+  tenant_id: string
+  invoice_id: string
+  po_line_id: string
+  product_id: string
+  qty_invoiced: number
+  unit_price: number
+  // PO line values at the time of matching
+  qty_ordered: number
+  qty_received: number
+  qty_previously_invoiced: number
+  po_unit_cost: number
+  qty_match: boolean
+  price_match: boolean
+  cost_adjustment: number
+  // Joined
+  product?: Product
+}
+
+export interface PurchaseOrderReceipt {
+  id: string
+  tenant_id: string
+  po_id: string
+  received_at: string
+  created_by: string | null
+  voided_at: string | null
+  voided_by: string | null
+  void_reason: string | null
+  created_at: string
+  // Joined
+  lines?: PurchaseOrderReceiptLine[]
+}
+
+export interface PurchaseOrderReceiptLine {
+  id: string
+  receipt_id: string
+  po_line_id: string
+  product_id: string
+  qty: number
+  entered_qty: number | null
+  entered_uom: string | null
+  lot_number: string | null
+  expiry_date: string | null
+  unit_cost: number
+  landed_cost: number
+  movement_id: string | null
+  cost_layer_id: string | null
+  serial_numbers: string[] | null
+  // Putaway bin, null when received into the location itself
+  bin_id: string | null
   // Joined
   product?: Product
+  bin?: Location
+}
+
+export type LandedCostChargeType = 'freight' | 'duty' | 'handling' | 'insurance' | 'other'
+
+export type LandedCostAllocationMethod = 'value' | 'quantity' | 'weight'
+
+export interface LandedCost {
+  id: string
+  tenant_id: string
+  po_id: string
+  receipt_id: string | null
+  charge_type: LandedCostChargeType
+  description: string | null
+  amount: number
+  allocation_method: LandedCostAllocationMethod
+  created_by: string | null
+  created_at: string
 }
 
 export interface Shipment {
@@ -180,6 +408,10 @@ export interface Shipment {
   ship_date: string | null
   notes: string | null
   created_by: string | null
+  voided_at: string | null
+  voided_by: string | null
+  void_reason: string | null
+  backorder_of: string | null
   created_at: string
   updated_at: string
   // Joined
@@ -193,11 +425,18 @@ export interface ShipmentLine {
   shipment_id: string
   product_id: string
   qty: number
+  qty_shipped: number
+  entered_qty: number | null
+  entered_uom: string | null
   lot_number: string | null
   expiry_date: string | null
   unit_cost: number | null
+  serial_numbers: string[] | null
+  // Bin picked from, null for the location's own stock
+  bin_id: string | null
   // Joined
   product?: Product
+  bin?: Location
 }
 
 export interface Transfer {
@@ -223,13 +462,58 @@ export interface TransferLine {
   transfer_id: string
   product_id: string
   qty: number
+  qty_received: number | null
+  entered_qty: number | null
+  entered_uom: string | null
   lot_number: string | null
   expiry_date: string | null
   unit_cost: number | null
+  serial_numbers: string[] | null
+  // Joined
+  product?: Product
+}
+
+export type TransferDiscrepancyResolution = 'loss' | 'return_to_source' | 'over_receipt'
+
+export interface TransferDiscrepancy {
+  id: string
+  tenant_id: string
+  transfer_id: string
+  transfer_line_id: string
+  product_id: string
+  lot_number: string | null
+  expiry_date: string | null
+  qty_sent: number
+  qty_received: number
+  qty_difference: number
+  unit_cost: number
+  resolution: TransferDiscrepancyResolution
+  created_by: string | null
+  created_at: string
   // Joined
   product?: Product
 }
 
+export interface InTransitStock {
+  line_id: string
+  tenant_id: string
+  transfer_id: string
+  transfer_number: string
+  from_location_id: string
+  to_location_id: string
+  sent_at: string | null
+  product_id: string
+  lot_number: string | null
+  expiry_date: string | null
+  qty: number
+  unit_cost: number
+  inventory_value: number
+  // Joined
+  product?: Product
+  from_location?: Location
+  to_location?: Location
+}
+
 export interface Adjustment {
   id: string
   tenant_id: string
@@ -241,6 +525,9 @@ export interface Adjustment {
   created_by: string | null
   approved_by: string | null
   approved_at: string | null
+  voided_at: string | null
+  voided_by: string | null
+  void_reason: string | null
   created_at: string
   // Joined
   location?: Location
@@ -252,6 +539,46 @@ export interface AdjustmentLine {
   adjustment_id: string
   product_id: string
   qty: number
+  entered_qty: number | null
+  entered_uom: string | null
+  lot_number: string | null
+  expiry_date: string | null
+  unit_cost: number | null
+  // Joined
+  product?: Product
+}
+
+export interface Assembly {
+  id: string
+  tenant_id: string
+  assembly_number: string
+  assembly_type: AssemblyType
+  product_id: string
+  location_id: string
+  qty: number
+  lot_number: string | null
+  expiry_date: string | null
+  // Cost per unit of the finished item, set when posted
+  unit_cost: number | null
+  status: DocumentStatus
+  notes: string | null
+  created_by: string | null
+  voided_at: string | null
+  voided_by: string | null
+  void_reason: string | null
+  created_at: string
+  updated_at: string
+  // Joined
+  product?: Product
+  location?: Location
+  lines?: AssemblyLine[]
+}
+
+export interface AssemblyLine {
+  id: string
+  assembly_id: string
+  product_id: string
+  qty: number
   lot_number: string | null
   expiry_date: string | null
   unit_cost: number | null
@@ -274,6 +601,8 @@ export interface StockMovement {
   extended_cost: number
   reason: AdjustmentReason | null
   notes: string | null
+  // Business date of the posting document; created_at is when it was keyed in
+  effective_date: string
   created_by: string | null
   created_at: string
   // Joined
@@ -281,6 +610,63 @@ export interface StockMovement {
   location?: Location
 }
 
+export type SerialStatus = 'in_stock' | 'in_transit' | 'out'
+
+export interface SerialNumber {
+  id: string
+  tenant_id: string
+  product_id: string
+  serial_number: string
+  status: SerialStatus
+  // Set while in stock
+  location_id: string | null
+  lot_number: string | null
+  expiry_date: string | null
+  created_at: string
+  updated_at: string
+  // Joined
+  product?: Product
+  location?: Location
+  movements?: SerialMovement[]
+}
+
+export interface SerialMovement {
+  id: string
+  tenant_id: string
+  serial_id: string
+  stock_movement_id: string | null
+  movement_type: MovementType
+  location_id: string
+  // 1 = into stock at location_id, -1 = out of it
+  direction: 1 | -1
+  reference_type: string | null
+  reference_id: string | null
+  created_by: string | null
+  created_at: string
+  // Joined
+  location?: Location
+}
+
+export interface BinMove {
+  id: string
+  tenant_id: string
+  product_id: string
+  from_location_id: string
+  to_location_id: string
+  qty: number
+  lot_number: string | null
+  expiry_date: string | null
+  serial_numbers: string[] | null
+  unit_cost: number | null
+  notes: string | null
+  created_by: string | null
+  created_at: string
+  // Joined
+  product?: Product
+  from_location?: Location
+  to_location?: Location
+}
+
 export interface StockSummary {
   tenant_id: string
   product_id: string
@@ -307,6 +693,9 @@ export interface CycleCount {
   count_date: string
   notes: string | null
   created_by: string | null
+  voided_at: string | null
+  voided_by: string | null
+  void_reason: string | null
   created_at: string
   // Joined
   location?: Location
@@ -319,9 +708,14 @@ export interface CycleCountLine {
   product_id: string
   system_qty: number
   counted_qty: number | null
+  // Counted quantity as entered, when counted in an alternate unit
+  entered_qty: number | null
+  entered_uom: string | null
   variance: number
   lot_number: string | null
   expiry_date: string | null
+  // Units counted, for serialized products
+  serial_numbers: string[] | null
   // Joined
   product?: Product
 }
@@ -340,6 +734,9 @@ export interface Return {
   reason: string | null
   notes: string | null
   created_by: string | null
+  voided_at: string | null
+  voided_by: string | null
+  void_reason: string | null
   created_at: string
   // Joined
   location?: Location
@@ -351,15 +748,68 @@ export interface ReturnLine {
   return_id: string
   product_id: string
   qty: number
+  entered_qty: number | null
+  entered_uom: string | null
   lot_number: string | null
   expiry_date: string | null
   unit_cost: number | null
+  serial_numbers: string[] | null
   // Joined
   product?: Product
 }
 
+// A balance that disagrees with its movement ledger
+export interface BalanceDiscrepancy {
+  product_id: string
+  location_id: string
+  lot_number: string | null
+  expiry_date: string | null
+  // null when the ledger has movements but no balance row exists
+  balance_qty: number | null
+  balance_avg_cost: number | null
+  ledger_qty: number
+  ledger_avg_cost: number
+  movement_count: number
+  last_movement_at: string | null
+  // Joined
+  product?: Pick<Product, 'id' | 'sku' | 'name' | 'base_uom'>
+  location?: Pick<Location, 'id' | 'name'>
+}
+
+export type InventoryPeriodStatus = 'closed' | 'reopened'
+
+export interface InventoryPeriod {
+  id: string
+  tenant_id: string
+  period_end: string
+  status: InventoryPeriodStatus
+  total_qty: number
+  total_value: number
+  closed_by: string | null
+  closed_at: string
+  reopened_by: string | null
+  reopened_at: string | null
+  reopen_note: string | null
+  // Joined
+  closed_by_user?: Pick<User, 'id' | 'name'>
+  reopened_by_user?: Pick<User, 'id' | 'name'>
+}
+
+export interface InventoryPeriodSnapshot {
+  id: string
+  tenant_id: string
+  period_id: string
+  product_id: string
+  location_id: string
+  qty: number
+  value: number
+  // Joined
+  product?: Pick<Product, 'id' | 'sku' | 'name' | 'base_uom'>
+  location?: Pick<Location, 'id' | 'name'>
+}
+
 // Audit Log Types
-export type AuditAction = 'create' | 'update' | 'delete' | 'login' | 'logout' | 'confirm' | 'cancel' | 'receive' | 'ship' | 'transfer' | 'adjust' | 'count' | 'return' | 'approve' | 'upload'
+export type AuditAction = 'create' | 'update' | 'delete' | 'login' | 'logout' | 'confirm' | 'cancel' | 'receive' | 'ship' | 'transfer' | 'adjust' | 'count' | 'return' | 'approve' | 'reject' | 'submit' | 'send' | 'upload' | 'void' | 'reconcile' | 'close' | 'reopen'
 
 export type AuditResourceType =
   | 'user'
@@ -367,13 +817,19 @@ export type AuditResourceType =
   | 'category'
   | 'location'
   | 'supplier'
+  | 'supplier_product'
   | 'customer'
   | 'purchase_order'
+  | 'supplier_invoice'
   | 'shipment'
   | 'transfer'
   | 'adjustment'
   | 'cycle_count'
   | 'return'
+  | 'assembly'
+  | 'bin_move'
+  | 'inventory_balance'
+  | 'inventory_period'
   | 'settings'
   | 'tenant'
   | 'document'
@@ -472,6 +928,7 @@ export type DocumentEntityType =
   | 'adjustment'
   | 'cycle_count'
   | 'return'
+  | 'supplier_invoice'
 
 export interface Document {
   id: string
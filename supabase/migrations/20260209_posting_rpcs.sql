@@ -0,0 +1,543 @@
+-- =============================================================================
+-- Transactional posting functions for stock-moving documents
+-- =============================================================================
+-- Each posting runs as a single transaction: the document row and every
+-- affected inventory_balances row are locked (SELECT ... FOR UPDATE),
+-- quantities are validated, stock_movements are written and the document
+-- status is flipped. Any failure rolls back the whole posting, so balances and
+-- movements can no longer drift apart halfway through a document.
+--
+-- Functions run as SECURITY INVOKER so the caller's RLS tenant isolation
+-- still applies to every row they read or write.
+-- =============================================================================
+
+
+-- -----------------------------------------------------------------------------
+-- 1. apply_stock_movement() - lock balance, validate, update, write ledger
+-- -----------------------------------------------------------------------------
+-- Positive p_qty adds stock using weighted average cost, negative p_qty removes
+-- stock and fails when the locked balance is insufficient. Returns the unit
+-- cost the movement was recorded at.
+CREATE OR REPLACE FUNCTION apply_stock_movement(
+  p_tenant_id UUID,
+  p_product_id UUID,
+  p_location_id UUID,
+  p_qty NUMERIC,
+  p_movement_type movement_type,
+  p_reference_type TEXT,
+  p_reference_id UUID,
+  p_lot_number TEXT DEFAULT NULL,
+  p_expiry_date DATE DEFAULT NULL,
+  p_unit_cost NUMERIC DEFAULT NULL,
+  p_reason adjustment_reason DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_lot_number TEXT := NULLIF(TRIM(p_lot_number), '');
+  v_balance_id UUID;
+  v_qty_on_hand NUMERIC;
+  v_avg_cost NUMERIC;
+  v_unit_cost NUMERIC;
+  v_new_qty NUMERIC;
+  v_sku TEXT;
+BEGIN
+  -- Lock the balance row (legacy rows may store '' instead of NULL lots)
+  SELECT id, qty_on_hand, avg_cost
+  INTO v_balance_id, v_qty_on_hand, v_avg_cost
+  FROM inventory_balances
+  WHERE tenant_id = p_tenant_id
+    AND product_id = p_product_id
+    AND location_id = p_location_id
+    AND COALESCE(lot_number, '') = COALESCE(v_lot_number, '')
+    AND COALESCE(expiry_date, '1900-01-01'::date) = COALESCE(p_expiry_date, '1900-01-01'::date)
+  LIMIT 1
+  FOR UPDATE;
+
+  v_unit_cost := COALESCE(p_unit_cost, v_avg_cost, 0);
+
+  IF p_qty < 0 THEN
+    IF v_balance_id IS NULL OR v_qty_on_hand < ABS(p_qty) THEN
+      SELECT sku INTO v_sku FROM products WHERE id = p_product_id;
+      RAISE EXCEPTION 'Insufficient stock for %: have %, need %',
+        COALESCE(v_sku, 'product'), COALESCE(v_qty_on_hand, 0), ABS(p_qty);
+    END IF;
+
+    UPDATE inventory_balances
+    SET qty_on_hand = qty_on_hand + p_qty,
+        updated_at = NOW()
+    WHERE id = v_balance_id;
+  ELSIF p_qty > 0 THEN
+    IF v_balance_id IS NULL THEN
+      INSERT INTO inventory_balances (
+        tenant_id, product_id, location_id, lot_number, expiry_date, qty_on_hand, avg_cost
+      ) VALUES (
+        p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date, p_qty, v_unit_cost
+      );
+    ELSE
+      v_new_qty := v_qty_on_hand + p_qty;
+
+      UPDATE inventory_balances
+      SET qty_on_hand = v_new_qty,
+          avg_cost = CASE
+            WHEN v_qty_on_hand <= 0 THEN v_unit_cost
+            ELSE ((v_qty_on_hand * v_avg_cost) + (p_qty * v_unit_cost)) / v_new_qty
+          END,
+          updated_at = NOW()
+      WHERE id = v_balance_id;
+    END IF;
+  ELSE
+    RETURN v_unit_cost;
+  END IF;
+
+  -- extended_cost is a generated column
+  INSERT INTO stock_movements (
+    tenant_id, product_id, location_id, qty, movement_type,
+    reference_type, reference_id, lot_number, expiry_date,
+    unit_cost, reason, created_by
+  ) VALUES (
+    p_tenant_id, p_product_id, p_location_id, p_qty, p_movement_type,
+    p_reference_type, p_reference_id, v_lot_number, p_expiry_date,
+    v_unit_cost, p_reason, auth.uid()
+  );
+
+  RETURN v_unit_cost;
+END;
+$$;
+
+
+-- -----------------------------------------------------------------------------
+-- 2. ship_shipment() - confirmed -> completed
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION ship_shipment(
+  p_shipment_id UUID,
+  p_ship_date DATE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_shipment shipments%ROWTYPE;
+  v_line RECORD;
+  v_unit_cost NUMERIC;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_shipment FROM shipments WHERE id = p_shipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment not found';
+  END IF;
+  IF v_shipment.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Can only ship confirmed shipments';
+  END IF;
+
+  -- Consistent line order keeps balance locks deadlock-free between postings
+  FOR v_line IN
+    SELECT * FROM shipment_lines
+    WHERE shipment_id = p_shipment_id
+    ORDER BY product_id, lot_number NULLS FIRST, expiry_date NULLS FIRST, id
+  LOOP
+    v_unit_cost := apply_stock_movement(
+      v_shipment.tenant_id, v_line.product_id, v_shipment.location_id, -v_line.qty,
+      'ship', 'shipment', p_shipment_id, v_line.lot_number, v_line.expiry_date
+    );
+
+    UPDATE shipment_lines SET unit_cost = v_unit_cost WHERE id = v_line.id;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_line.qty);
+  END LOOP;
+
+  UPDATE shipments
+  SET status = 'completed',
+      ship_date = COALESCE(p_ship_date, ship_date, CURRENT_DATE),
+      updated_at = NOW()
+  WHERE id = p_shipment_id;
+
+  RETURN v_items;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION ship_shipment(UUID, DATE) TO authenticated;
+
+
+-- -----------------------------------------------------------------------------
+-- 3. send_transfer() - draft -> confirmed, deducts from source location
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION send_transfer(
+  p_transfer_id UUID,
+  p_sent_date DATE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transfer transfers%ROWTYPE;
+  v_line RECORD;
+  v_unit_cost NUMERIC;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_transfer FROM transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+  IF v_transfer.status <> 'draft' THEN
+    RAISE EXCEPTION 'Can only send draft transfers';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM transfer_lines
+    WHERE transfer_id = p_transfer_id
+    ORDER BY product_id, lot_number NULLS FIRST, expiry_date NULLS FIRST, id
+  LOOP
+    v_unit_cost := apply_stock_movement(
+      v_transfer.tenant_id, v_line.product_id, v_transfer.from_location_id, -v_line.qty,
+      'transfer_out', 'transfer', p_transfer_id, v_line.lot_number, v_line.expiry_date
+    );
+
+    -- Destination receives at the cost it left the source with
+    UPDATE transfer_lines SET unit_cost = v_unit_cost WHERE id = v_line.id;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_line.qty);
+  END LOOP;
+
+  UPDATE transfers
+  SET status = 'confirmed',
+      sent_at = COALESCE(p_sent_date, CURRENT_DATE),
+      updated_at = NOW()
+  WHERE id = p_transfer_id;
+
+  RETURN v_items;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION send_transfer(UUID, DATE) TO authenticated;
+
+
+-- -----------------------------------------------------------------------------
+-- 4. receive_transfer() - confirmed -> completed, adds to destination
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION receive_transfer(
+  p_transfer_id UUID,
+  p_received_date DATE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transfer transfers%ROWTYPE;
+  v_line RECORD;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_transfer FROM transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+  IF v_transfer.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Can only receive sent transfers';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM transfer_lines
+    WHERE transfer_id = p_transfer_id
+    ORDER BY product_id, lot_number NULLS FIRST, expiry_date NULLS FIRST, id
+  LOOP
+    PERFORM apply_stock_movement(
+      v_transfer.tenant_id, v_line.product_id, v_transfer.to_location_id, v_line.qty,
+      'transfer_in', 'transfer', p_transfer_id, v_line.lot_number, v_line.expiry_date,
+      COALESCE(v_line.unit_cost, 0)
+    );
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_line.qty);
+  END LOOP;
+
+  UPDATE transfers
+  SET status = 'completed',
+      received_at = COALESCE(p_received_date, CURRENT_DATE),
+      updated_at = NOW()
+  WHERE id = p_transfer_id;
+
+  RETURN v_items;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION receive_transfer(UUID, DATE) TO authenticated;
+
+
+-- -----------------------------------------------------------------------------
+-- 5. receive_purchase_order() - confirmed/partial -> partial/completed
+-- -----------------------------------------------------------------------------
+-- p_lines: [{ "line_id": uuid, "qty_to_receive": number,
+--             "lot_number": text|null, "expiry_date": date|null }]
+-- Product and unit cost always come from the PO line, never from the caller.
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+  p_po_id UUID,
+  p_lines JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_po purchase_orders%ROWTYPE;
+  v_input RECORD;
+  v_line purchase_order_lines%ROWTYPE;
+  v_all_complete BOOLEAN;
+  v_any_received BOOLEAN;
+  v_status document_status;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_po FROM purchase_orders WHERE id = p_po_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+  IF v_po.status = 'draft' THEN
+    RAISE EXCEPTION 'PO must be confirmed before receiving';
+  END IF;
+  IF v_po.status = 'completed' THEN
+    RAISE EXCEPTION 'PO is already completed';
+  END IF;
+  IF v_po.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cannot receive cancelled PO';
+  END IF;
+
+  FOR v_input IN
+    SELECT *
+    FROM jsonb_to_recordset(p_lines) AS x(
+      line_id UUID,
+      qty_to_receive NUMERIC,
+      lot_number TEXT,
+      expiry_date DATE
+    )
+    ORDER BY line_id
+  LOOP
+    CONTINUE WHEN COALESCE(v_input.qty_to_receive, 0) <= 0;
+
+    SELECT * INTO v_line
+    FROM purchase_order_lines
+    WHERE id = v_input.line_id AND po_id = p_po_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order line % not found', v_input.line_id;
+    END IF;
+
+    IF COALESCE(v_line.qty_received, 0) + v_input.qty_to_receive > v_line.qty_ordered THEN
+      RAISE EXCEPTION 'Cannot receive more than ordered for line %', v_input.line_id;
+    END IF;
+
+    UPDATE purchase_order_lines
+    SET qty_received = COALESCE(qty_received, 0) + v_input.qty_to_receive
+    WHERE id = v_line.id;
+
+    PERFORM apply_stock_movement(
+      v_po.tenant_id, v_line.product_id, v_po.location_id, v_input.qty_to_receive,
+      'receive', 'po', p_po_id, v_input.lot_number, v_input.expiry_date,
+      COALESCE(v_line.unit_cost, 0)
+    );
+
+    UPDATE products
+    SET current_cost = COALESCE(v_line.unit_cost, 0), updated_at = NOW()
+    WHERE id = v_line.product_id;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_input.qty_to_receive);
+  END LOOP;
+
+  SELECT
+    BOOL_AND(COALESCE(qty_received, 0) >= qty_ordered),
+    BOOL_OR(COALESCE(qty_received, 0) > 0)
+  INTO v_all_complete, v_any_received
+  FROM purchase_order_lines
+  WHERE po_id = p_po_id;
+
+  v_status := CASE
+    WHEN v_all_complete THEN 'completed'
+    WHEN v_any_received THEN 'partial'
+    ELSE 'confirmed'
+  END;
+
+  UPDATE purchase_orders
+  SET status = v_status, updated_at = NOW()
+  WHERE id = p_po_id;
+
+  RETURN jsonb_build_object('status', v_status, 'items', v_items);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION receive_purchase_order(UUID, JSONB) TO authenticated;
+
+
+-- -----------------------------------------------------------------------------
+-- 6. post_adjustment() - draft -> completed
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION post_adjustment(p_adjustment_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_adjustment adjustments%ROWTYPE;
+  v_line RECORD;
+  v_unit_cost NUMERIC;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_adjustment FROM adjustments WHERE id = p_adjustment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Adjustment not found';
+  END IF;
+  IF v_adjustment.status <> 'draft' THEN
+    RAISE EXCEPTION 'Can only post draft adjustments';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM adjustment_lines
+    WHERE adjustment_id = p_adjustment_id
+    ORDER BY product_id, lot_number NULLS FIRST, expiry_date NULLS FIRST, id
+  LOOP
+    -- User-provided unit_cost wins, otherwise the balance avg_cost is used
+    v_unit_cost := apply_stock_movement(
+      v_adjustment.tenant_id, v_line.product_id, v_adjustment.location_id, v_line.qty,
+      'adjustment', 'adjustment', p_adjustment_id, v_line.lot_number, v_line.expiry_date,
+      v_line.unit_cost, v_adjustment.reason
+    );
+
+    UPDATE adjustment_lines SET unit_cost = v_unit_cost WHERE id = v_line.id;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_line.qty);
+  END LOOP;
+
+  UPDATE adjustments SET status = 'completed' WHERE id = p_adjustment_id;
+
+  RETURN v_items;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION post_adjustment(UUID) TO authenticated;
+
+
+-- -----------------------------------------------------------------------------
+-- 7. post_cycle_count() - draft -> completed
+-- -----------------------------------------------------------------------------
+-- The variance is measured against the balance locked at posting time, not the
+-- snapshot taken when the count was created, so stock moved in the meantime is
+-- not double counted. system_qty is refreshed to the value actually used.
+CREATE OR REPLACE FUNCTION post_cycle_count(p_count_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count cycle_counts%ROWTYPE;
+  v_line RECORD;
+  v_system_qty NUMERIC;
+  v_variance NUMERIC;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_count FROM cycle_counts WHERE id = p_count_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cycle count not found';
+  END IF;
+  IF v_count.status <> 'draft' THEN
+    RAISE EXCEPTION 'Can only post draft counts';
+  END IF;
+  IF EXISTS (SELECT 1 FROM cycle_count_lines WHERE count_id = p_count_id AND counted_qty IS NULL) THEN
+    RAISE EXCEPTION 'All lines must be counted before posting';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM cycle_count_lines
+    WHERE count_id = p_count_id
+    ORDER BY product_id, lot_number NULLS FIRST, expiry_date NULLS FIRST, id
+  LOOP
+    SELECT qty_on_hand INTO v_system_qty
+    FROM inventory_balances
+    WHERE tenant_id = v_count.tenant_id
+      AND product_id = v_line.product_id
+      AND location_id = v_count.location_id
+      AND COALESCE(lot_number, '') = COALESCE(NULLIF(TRIM(v_line.lot_number), ''), '')
+      AND COALESCE(expiry_date, '1900-01-01'::date) = COALESCE(v_line.expiry_date, '1900-01-01'::date)
+    LIMIT 1
+    FOR UPDATE;
+
+    v_system_qty := COALESCE(v_system_qty, 0);
+    v_variance := v_line.counted_qty - v_system_qty;
+
+    UPDATE cycle_count_lines SET system_qty = v_system_qty WHERE id = v_line.id;
+
+    IF v_variance <> 0 THEN
+      PERFORM apply_stock_movement(
+        v_count.tenant_id, v_line.product_id, v_count.location_id, v_variance,
+        'count_variance', 'cycle_count', p_count_id, v_line.lot_number, v_line.expiry_date,
+        NULL, 'count_variance'
+      );
+    END IF;
+
+    v_items := v_items || jsonb_build_object(
+      'product_id', v_line.product_id,
+      'system_qty', v_system_qty,
+      'counted_qty', v_line.counted_qty,
+      'variance', v_variance
+    );
+  END LOOP;
+
+  UPDATE cycle_counts SET status = 'completed' WHERE id = p_count_id;
+
+  RETURN v_items;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION post_cycle_count(UUID) TO authenticated;
+
+
+-- -----------------------------------------------------------------------------
+-- 8. process_return() - draft -> completed
+-- -----------------------------------------------------------------------------
+-- Customer returns add stock (return_in), supplier returns remove it (return_out).
+CREATE OR REPLACE FUNCTION process_return(p_return_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_return returns%ROWTYPE;
+  v_line RECORD;
+  v_is_customer BOOLEAN;
+  v_unit_cost NUMERIC;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_return FROM returns WHERE id = p_return_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return not found';
+  END IF;
+  IF v_return.status <> 'draft' THEN
+    RAISE EXCEPTION 'Can only process draft returns';
+  END IF;
+
+  v_is_customer := v_return.return_type = 'customer';
+
+  FOR v_line IN
+    SELECT * FROM return_lines
+    WHERE return_id = p_return_id
+    ORDER BY product_id, lot_number NULLS FIRST, expiry_date NULLS FIRST, id
+  LOOP
+    v_unit_cost := apply_stock_movement(
+      v_return.tenant_id, v_line.product_id, v_return.location_id,
+      CASE WHEN v_is_customer THEN v_line.qty ELSE -v_line.qty END,
+      CASE WHEN v_is_customer THEN 'return_in' ELSE 'return_out' END::movement_type,
+      'return', p_return_id, v_line.lot_number, v_line.expiry_date
+    );
+
+    UPDATE return_lines SET unit_cost = v_unit_cost WHERE id = v_line.id;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_line.qty);
+  END LOOP;
+
+  UPDATE returns SET status = 'completed' WHERE id = p_return_id;
+
+  RETURN v_items;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION process_return(UUID) TO authenticated;
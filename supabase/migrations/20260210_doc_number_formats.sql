@@ -0,0 +1,128 @@
+-- =============================================================================
+-- Race-free, configurable document numbering
+-- =============================================================================
+-- Document numbers were generated in the app as count(*) + 1, which hands out
+-- duplicates under concurrent creation and reuses numbers after deletes.
+-- All document types now allocate numbers through doc_sequences, where the
+-- upsert row lock serialises concurrent callers.
+--
+-- Formats are configured per tenant in tenants.settings.doc_number_formats:
+--   { "<doc_type>": { "prefix": "PO-", "include_year": false,
+--                     "padding": 6, "reset_yearly": false } }
+-- doc_type is one of purchase_order, shipment, transfer, adjustment,
+-- cycle_count, return. Sequences that never reset are stored with year = 0.
+-- =============================================================================
+
+
+-- -----------------------------------------------------------------------------
+-- 1. doc_sequences table (already present in the base schema)
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS doc_sequences (
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  doc_type TEXT NOT NULL,
+  year INTEGER NOT NULL,
+  last_number INTEGER DEFAULT 0,
+  PRIMARY KEY (tenant_id, doc_type, year)
+);
+
+ALTER TABLE doc_sequences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS tenant_isolation ON doc_sequences;
+CREATE POLICY tenant_isolation ON doc_sequences
+  FOR ALL USING (tenant_id = get_user_tenant_id());
+
+
+-- -----------------------------------------------------------------------------
+-- 2. Seed sequences from existing documents so numbering continues
+-- -----------------------------------------------------------------------------
+INSERT INTO doc_sequences (tenant_id, doc_type, year, last_number)
+SELECT tenant_id, 'purchase_order', 0, COALESCE(MAX(SUBSTRING(po_number FROM '(\d+)$')::INTEGER), 0)
+FROM purchase_orders GROUP BY tenant_id
+ON CONFLICT (tenant_id, doc_type, year)
+DO UPDATE SET last_number = GREATEST(doc_sequences.last_number, EXCLUDED.last_number);
+
+INSERT INTO doc_sequences (tenant_id, doc_type, year, last_number)
+SELECT tenant_id, 'shipment', 0, COALESCE(MAX(SUBSTRING(shipment_number FROM '(\d+)$')::INTEGER), 0)
+FROM shipments GROUP BY tenant_id
+ON CONFLICT (tenant_id, doc_type, year)
+DO UPDATE SET last_number = GREATEST(doc_sequences.last_number, EXCLUDED.last_number);
+
+INSERT INTO doc_sequences (tenant_id, doc_type, year, last_number)
+SELECT tenant_id, 'transfer', 0, COALESCE(MAX(SUBSTRING(transfer_number FROM '(\d+)$')::INTEGER), 0)
+FROM transfers GROUP BY tenant_id
+ON CONFLICT (tenant_id, doc_type, year)
+DO UPDATE SET last_number = GREATEST(doc_sequences.last_number, EXCLUDED.last_number);
+
+INSERT INTO doc_sequences (tenant_id, doc_type, year, last_number)
+SELECT tenant_id, 'adjustment', 0, COALESCE(MAX(SUBSTRING(adjustment_number FROM '(\d+)$')::INTEGER), 0)
+FROM adjustments GROUP BY tenant_id
+ON CONFLICT (tenant_id, doc_type, year)
+DO UPDATE SET last_number = GREATEST(doc_sequences.last_number, EXCLUDED.last_number);
+
+INSERT INTO doc_sequences (tenant_id, doc_type, year, last_number)
+SELECT tenant_id, 'cycle_count', 0, COALESCE(MAX(SUBSTRING(count_number FROM '(\d+)$')::INTEGER), 0)
+FROM cycle_counts GROUP BY tenant_id
+ON CONFLICT (tenant_id, doc_type, year)
+DO UPDATE SET last_number = GREATEST(doc_sequences.last_number, EXCLUDED.last_number);
+
+INSERT INTO doc_sequences (tenant_id, doc_type, year, last_number)
+SELECT tenant_id, 'return', 0, COALESCE(MAX(SUBSTRING(return_number FROM '(\d+)$')::INTEGER), 0)
+FROM returns GROUP BY tenant_id
+ON CONFLICT (tenant_id, doc_type, year)
+DO UPDATE SET last_number = GREATEST(doc_sequences.last_number, EXCLUDED.last_number);
+
+
+-- -----------------------------------------------------------------------------
+-- 3. next_doc_number() - allocate and format the next number
+-- -----------------------------------------------------------------------------
+-- Runs as SECURITY INVOKER: RLS on tenants and doc_sequences keeps callers
+-- inside their own tenant. Defaults match the numbers issued before formats
+-- were configurable (e.g. PO-000001).
+CREATE OR REPLACE FUNCTION next_doc_number(
+  p_tenant_id UUID,
+  p_doc_type TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_format JSONB;
+  v_prefix TEXT;
+  v_include_year BOOLEAN;
+  v_padding INTEGER;
+  v_reset_yearly BOOLEAN;
+  v_year INTEGER := EXTRACT(YEAR FROM CURRENT_DATE);
+  v_num INTEGER;
+BEGIN
+  SELECT settings -> 'doc_number_formats' -> p_doc_type
+  INTO v_format
+  FROM tenants
+  WHERE id = p_tenant_id;
+
+  v_prefix := COALESCE(v_format ->> 'prefix', CASE p_doc_type
+    WHEN 'purchase_order' THEN 'PO-'
+    WHEN 'shipment' THEN 'SHP-'
+    WHEN 'transfer' THEN 'TRF-'
+    WHEN 'adjustment' THEN 'ADJ-'
+    WHEN 'cycle_count' THEN 'CNT-'
+    WHEN 'return' THEN 'RET-'
+    ELSE UPPER(p_doc_type) || '-'
+  END);
+  v_include_year := COALESCE((v_format ->> 'include_year')::BOOLEAN, false);
+  v_padding := COALESCE((v_format ->> 'padding')::INTEGER, 6);
+  v_reset_yearly := COALESCE((v_format ->> 'reset_yearly')::BOOLEAN, false);
+
+  INSERT INTO doc_sequences (tenant_id, doc_type, year, last_number)
+  VALUES (p_tenant_id, p_doc_type, CASE WHEN v_reset_yearly THEN v_year ELSE 0 END, 1)
+  ON CONFLICT (tenant_id, doc_type, year)
+  DO UPDATE SET last_number = doc_sequences.last_number + 1
+  RETURNING last_number INTO v_num;
+
+  -- LPAD truncates longer strings, so only pad numbers shorter than the width
+  RETURN v_prefix
+    || CASE WHEN v_include_year THEN v_year || '-' ELSE '' END
+    || CASE WHEN LENGTH(v_num::TEXT) >= v_padding THEN v_num::TEXT ELSE LPAD(v_num::TEXT, v_padding, '0') END;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION next_doc_number(UUID, TEXT) TO authenticated;
@@ -0,0 +1,505 @@
+-- =============================================================================
+-- Stock reservations for confirmed shipments
+-- =============================================================================
+-- Confirming a shipment reserves its lines, shipping consumes the reservations
+-- and cancelling releases them. Available stock is on hand minus active,
+-- unexpired reservations, so two confirmed shipments can no longer promise
+-- the same units. Transfers are sent from available stock as well.
+--
+-- Reservations expire after tenants.settings.reservation_expiry_hours
+-- (no expiry when unset or 0).
+-- =============================================================================
+
+
+-- -----------------------------------------------------------------------------
+-- 1. reserved_stock view - active reservations per balance
+-- -----------------------------------------------------------------------------
+DROP VIEW IF EXISTS reserved_stock CASCADE;
+
+CREATE VIEW reserved_stock
+WITH (security_invoker = true)
+AS
+SELECT
+    r.tenant_id,
+    r.product_id,
+    r.location_id,
+    NULLIF(r.lot_number, '') as lot_number,
+    r.expiry_date,
+    SUM(r.qty) as reserved_qty
+FROM reservations r
+WHERE r.status = 'active'
+  AND (r.expires_at IS NULL OR r.expires_at > NOW())
+GROUP BY
+    r.tenant_id,
+    r.product_id,
+    r.location_id,
+    NULLIF(r.lot_number, ''),
+    r.expiry_date;
+
+GRANT SELECT ON reserved_stock TO authenticated;
+
+COMMENT ON VIEW reserved_stock IS 'Active, unexpired reservations per product/location/lot. Uses security_invoker to enforce RLS.';
+
+
+-- -----------------------------------------------------------------------------
+-- 2. calculated_stock view - add reserved_qty and available_qty
+-- -----------------------------------------------------------------------------
+DROP VIEW IF EXISTS calculated_stock CASCADE;
+
+CREATE VIEW calculated_stock
+WITH (security_invoker = true)
+AS
+SELECT
+    s.id,
+    s.tenant_id,
+    s.product_id,
+    s.location_id,
+    s.lot_number,
+    s.expiry_date,
+    s.qty_on_hand,
+    s.avg_cost,
+    s.inventory_value,
+    COALESCE(rs.reserved_qty, 0) as reserved_qty,
+    s.qty_on_hand - COALESCE(rs.reserved_qty, 0) as available_qty
+FROM (
+    SELECT
+        md5(
+            COALESCE(sm.product_id::text, '') ||
+            COALESCE(sm.location_id::text, '') ||
+            COALESCE(sm.lot_number, '') ||
+            COALESCE(sm.expiry_date::text, '')
+        )::uuid as id,
+        sm.tenant_id,
+        sm.product_id,
+        sm.location_id,
+        sm.lot_number,
+        sm.expiry_date,
+        SUM(sm.qty) as qty_on_hand,
+        COALESCE(
+            SUM(CASE WHEN sm.qty > 0 AND sm.unit_cost IS NOT NULL THEN sm.qty * sm.unit_cost ELSE 0 END) /
+            NULLIF(SUM(CASE WHEN sm.qty > 0 AND sm.unit_cost IS NOT NULL THEN sm.qty ELSE 0 END), 0),
+            0
+        ) as avg_cost,
+        SUM(sm.qty) * COALESCE(
+            SUM(CASE WHEN sm.qty > 0 AND sm.unit_cost IS NOT NULL THEN sm.qty * sm.unit_cost ELSE 0 END) /
+            NULLIF(SUM(CASE WHEN sm.qty > 0 AND sm.unit_cost IS NOT NULL THEN sm.qty ELSE 0 END), 0),
+            0
+        ) as inventory_value
+    FROM stock_movements sm
+    GROUP BY
+        sm.tenant_id,
+        sm.product_id,
+        sm.location_id,
+        sm.lot_number,
+        sm.expiry_date
+    HAVING SUM(sm.qty) > 0
+) s
+LEFT JOIN reserved_stock rs
+    ON rs.tenant_id = s.tenant_id
+    AND rs.product_id = s.product_id
+    AND rs.location_id = s.location_id
+    AND COALESCE(rs.lot_number, '') = COALESCE(s.lot_number, '')
+    AND COALESCE(rs.expiry_date, '1900-01-01'::date) = COALESCE(s.expiry_date, '1900-01-01'::date);
+
+GRANT SELECT ON calculated_stock TO authenticated;
+
+COMMENT ON VIEW calculated_stock IS 'Calculates current stock levels by aggregating all stock movements, with reserved and available quantities. Uses security_invoker to enforce RLS.';
+
+
+-- -----------------------------------------------------------------------------
+-- 3. get_calculated_stock() RPC - include reserved/available
+-- -----------------------------------------------------------------------------
+DROP FUNCTION IF EXISTS get_calculated_stock();
+
+CREATE OR REPLACE FUNCTION get_calculated_stock()
+RETURNS TABLE (
+    id UUID,
+    tenant_id UUID,
+    product_id UUID,
+    location_id UUID,
+    lot_number TEXT,
+    expiry_date DATE,
+    qty_on_hand NUMERIC,
+    avg_cost NUMERIC,
+    inventory_value NUMERIC,
+    reserved_qty NUMERIC,
+    available_qty NUMERIC,
+    product JSONB,
+    location JSONB
+)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+    SELECT
+        cs.id,
+        cs.tenant_id,
+        cs.product_id,
+        cs.location_id,
+        cs.lot_number,
+        cs.expiry_date,
+        cs.qty_on_hand,
+        cs.avg_cost,
+        cs.inventory_value,
+        cs.reserved_qty,
+        cs.available_qty,
+        jsonb_build_object(
+            'id', p.id,
+            'sku', p.sku,
+            'name', p.name,
+            'base_uom', p.base_uom,
+            'reorder_point', p.reorder_point,
+            'track_expiry', p.track_expiry,
+            'track_lot', p.track_lot,
+            'category_id', p.category_id
+        ) as product,
+        jsonb_build_object(
+            'id', l.id,
+            'name', l.name,
+            'type', l.type
+        ) as location
+    FROM calculated_stock cs
+    JOIN products p ON p.id = cs.product_id
+    JOIN locations l ON l.id = cs.location_id
+    WHERE cs.tenant_id = get_user_tenant_id()
+    ORDER BY cs.product_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_calculated_stock() TO authenticated;
+
+
+-- -----------------------------------------------------------------------------
+-- 4. Helpers
+-- -----------------------------------------------------------------------------
+-- Locks the balance row and returns its qty_on_hand (0 when none exists).
+-- Holding this lock serialises concurrent reservations of the same stock.
+CREATE OR REPLACE FUNCTION lock_balance_qty(
+  p_tenant_id UUID,
+  p_product_id UUID,
+  p_location_id UUID,
+  p_lot_number TEXT DEFAULT NULL,
+  p_expiry_date DATE DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_qty NUMERIC;
+BEGIN
+  SELECT qty_on_hand INTO v_qty
+  FROM inventory_balances
+  WHERE tenant_id = p_tenant_id
+    AND product_id = p_product_id
+    AND location_id = p_location_id
+    AND COALESCE(lot_number, '') = COALESCE(NULLIF(TRIM(p_lot_number), ''), '')
+    AND COALESCE(expiry_date, '1900-01-01'::date) = COALESCE(p_expiry_date, '1900-01-01'::date)
+  LIMIT 1
+  FOR UPDATE;
+
+  RETURN COALESCE(v_qty, 0);
+END;
+$$;
+
+-- Active, unexpired reserved quantity for a balance, optionally ignoring one
+-- shipment's own reservations.
+CREATE OR REPLACE FUNCTION get_reserved_qty(
+  p_tenant_id UUID,
+  p_product_id UUID,
+  p_location_id UUID,
+  p_lot_number TEXT DEFAULT NULL,
+  p_expiry_date DATE DEFAULT NULL,
+  p_exclude_shipment_id UUID DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(SUM(qty), 0)
+  FROM reservations
+  WHERE tenant_id = p_tenant_id
+    AND product_id = p_product_id
+    AND location_id = p_location_id
+    AND COALESCE(lot_number, '') = COALESCE(NULLIF(TRIM(p_lot_number), ''), '')
+    AND COALESCE(expiry_date, '1900-01-01'::date) = COALESCE(p_expiry_date, '1900-01-01'::date)
+    AND status = 'active'
+    AND (expires_at IS NULL OR expires_at > NOW())
+    AND shipment_id IS DISTINCT FROM p_exclude_shipment_id;
+$$;
+
+CREATE OR REPLACE FUNCTION release_expired_reservations()
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE reservations
+  SET status = 'released'
+  WHERE status = 'active' AND expires_at < NOW();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION release_expired_reservations() TO authenticated;
+
+
+-- -----------------------------------------------------------------------------
+-- 5. confirm_shipment() - draft -> confirmed, reserves every line
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION confirm_shipment(p_shipment_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_shipment shipments%ROWTYPE;
+  v_line RECORD;
+  v_expiry_hours INTEGER;
+  v_on_hand NUMERIC;
+  v_reserved NUMERIC;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_shipment FROM shipments WHERE id = p_shipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment not found';
+  END IF;
+  IF v_shipment.status <> 'draft' THEN
+    RAISE EXCEPTION 'Can only confirm draft shipments';
+  END IF;
+
+  PERFORM release_expired_reservations();
+
+  SELECT (settings ->> 'reservation_expiry_hours')::INTEGER
+  INTO v_expiry_hours
+  FROM tenants
+  WHERE id = v_shipment.tenant_id;
+
+  FOR v_line IN
+    SELECT sl.*, p.sku
+    FROM shipment_lines sl
+    JOIN products p ON p.id = sl.product_id
+    WHERE sl.shipment_id = p_shipment_id
+    ORDER BY sl.product_id, sl.lot_number NULLS FIRST, sl.expiry_date NULLS FIRST, sl.id
+  LOOP
+    v_on_hand := lock_balance_qty(
+      v_shipment.tenant_id, v_line.product_id, v_shipment.location_id,
+      v_line.lot_number, v_line.expiry_date
+    );
+    v_reserved := get_reserved_qty(
+      v_shipment.tenant_id, v_line.product_id, v_shipment.location_id,
+      v_line.lot_number, v_line.expiry_date
+    );
+
+    IF v_on_hand - v_reserved < v_line.qty THEN
+      RAISE EXCEPTION 'Insufficient available stock for %: on hand %, reserved %, need %',
+        v_line.sku, v_on_hand, v_reserved, v_line.qty;
+    END IF;
+
+    INSERT INTO reservations (
+      tenant_id, shipment_id, product_id, location_id, qty,
+      lot_number, expiry_date, status, expires_at
+    ) VALUES (
+      v_shipment.tenant_id, p_shipment_id, v_line.product_id, v_shipment.location_id, v_line.qty,
+      NULLIF(TRIM(v_line.lot_number), ''), v_line.expiry_date, 'active',
+      CASE WHEN COALESCE(v_expiry_hours, 0) > 0 THEN NOW() + make_interval(hours => v_expiry_hours) END
+    );
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_line.qty);
+  END LOOP;
+
+  UPDATE shipments
+  SET status = 'confirmed', updated_at = NOW()
+  WHERE id = p_shipment_id;
+
+  RETURN v_items;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION confirm_shipment(UUID) TO authenticated;
+
+
+-- -----------------------------------------------------------------------------
+-- 6. ship_shipment() - consume own reservations, respect everyone else's
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION ship_shipment(
+  p_shipment_id UUID,
+  p_ship_date DATE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_shipment shipments%ROWTYPE;
+  v_line RECORD;
+  v_on_hand NUMERIC;
+  v_reserved NUMERIC;
+  v_unit_cost NUMERIC;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_shipment FROM shipments WHERE id = p_shipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment not found';
+  END IF;
+  IF v_shipment.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Can only ship confirmed shipments';
+  END IF;
+
+  -- Consistent line order keeps balance locks deadlock-free between postings
+  FOR v_line IN
+    SELECT sl.*, p.sku
+    FROM shipment_lines sl
+    JOIN products p ON p.id = sl.product_id
+    WHERE sl.shipment_id = p_shipment_id
+    ORDER BY sl.product_id, sl.lot_number NULLS FIRST, sl.expiry_date NULLS FIRST, sl.id
+  LOOP
+    v_on_hand := lock_balance_qty(
+      v_shipment.tenant_id, v_line.product_id, v_shipment.location_id,
+      v_line.lot_number, v_line.expiry_date
+    );
+    v_reserved := get_reserved_qty(
+      v_shipment.tenant_id, v_line.product_id, v_shipment.location_id,
+      v_line.lot_number, v_line.expiry_date, p_shipment_id
+    );
+
+    IF v_on_hand - v_reserved < v_line.qty THEN
+      RAISE EXCEPTION 'Insufficient available stock for %: on hand %, reserved %, need %',
+        v_line.sku, v_on_hand, v_reserved, v_line.qty;
+    END IF;
+
+    v_unit_cost := apply_stock_movement(
+      v_shipment.tenant_id, v_line.product_id, v_shipment.location_id, -v_line.qty,
+      'ship', 'shipment', p_shipment_id, v_line.lot_number, v_line.expiry_date
+    );
+
+    UPDATE shipment_lines SET unit_cost = v_unit_cost WHERE id = v_line.id;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_line.qty);
+  END LOOP;
+
+  UPDATE reservations
+  SET status = 'consumed'
+  WHERE shipment_id = p_shipment_id AND status = 'active';
+
+  UPDATE shipments
+  SET status = 'completed',
+      ship_date = COALESCE(p_ship_date, ship_date, CURRENT_DATE),
+      updated_at = NOW()
+  WHERE id = p_shipment_id;
+
+  RETURN v_items;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION ship_shipment(UUID, DATE) TO authenticated;
+
+
+-- -----------------------------------------------------------------------------
+-- 7. send_transfer() - only unreserved stock can leave the source location
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION send_transfer(
+  p_transfer_id UUID,
+  p_sent_date DATE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transfer transfers%ROWTYPE;
+  v_line RECORD;
+  v_on_hand NUMERIC;
+  v_reserved NUMERIC;
+  v_unit_cost NUMERIC;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_transfer FROM transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+  IF v_transfer.status <> 'draft' THEN
+    RAISE EXCEPTION 'Can only send draft transfers';
+  END IF;
+
+  FOR v_line IN
+    SELECT tl.*, p.sku
+    FROM transfer_lines tl
+    JOIN products p ON p.id = tl.product_id
+    WHERE tl.transfer_id = p_transfer_id
+    ORDER BY tl.product_id, tl.lot_number NULLS FIRST, tl.expiry_date NULLS FIRST, tl.id
+  LOOP
+    v_on_hand := lock_balance_qty(
+      v_transfer.tenant_id, v_line.product_id, v_transfer.from_location_id,
+      v_line.lot_number, v_line.expiry_date
+    );
+    v_reserved := get_reserved_qty(
+      v_transfer.tenant_id, v_line.product_id, v_transfer.from_location_id,
+      v_line.lot_number, v_line.expiry_date
+    );
+
+    IF v_on_hand - v_reserved < v_line.qty THEN
+      RAISE EXCEPTION 'Insufficient available stock for %: on hand %, reserved %, need %',
+        v_line.sku, v_on_hand, v_reserved, v_line.qty;
+    END IF;
+
+    v_unit_cost := apply_stock_movement(
+      v_transfer.tenant_id, v_line.product_id, v_transfer.from_location_id, -v_line.qty,
+      'transfer_out', 'transfer', p_transfer_id, v_line.lot_number, v_line.expiry_date
+    );
+
+    -- Destination receives at the cost it left the source with
+    UPDATE transfer_lines SET unit_cost = v_unit_cost WHERE id = v_line.id;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_line.qty);
+  END LOOP;
+
+  UPDATE transfers
+  SET status = 'confirmed',
+      sent_at = COALESCE(p_sent_date, CURRENT_DATE),
+      updated_at = NOW()
+  WHERE id = p_transfer_id;
+
+  RETURN v_items;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION send_transfer(UUID, DATE) TO authenticated;
+
+
+-- -----------------------------------------------------------------------------
+-- 8. cancel_shipment() - cancel and release reservations together
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION cancel_shipment(p_shipment_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_shipment shipments%ROWTYPE;
+  v_released INTEGER;
+BEGIN
+  SELECT * INTO v_shipment FROM shipments WHERE id = p_shipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment not found';
+  END IF;
+  IF v_shipment.status NOT IN ('draft', 'confirmed') THEN
+    RAISE EXCEPTION 'Can only cancel draft or confirmed shipments';
+  END IF;
+
+  UPDATE reservations
+  SET status = 'released'
+  WHERE shipment_id = p_shipment_id AND status = 'active';
+
+  GET DIAGNOSTICS v_released = ROW_COUNT;
+
+  UPDATE shipments
+  SET status = 'cancelled', updated_at = NOW()
+  WHERE id = p_shipment_id;
+
+  RETURN jsonb_build_object('released', v_released);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION cancel_shipment(UUID) TO authenticated;
@@ -0,0 +1,70 @@
+-- =============================================================================
+-- FEFO (first-expired, first-out) lot allocation
+-- =============================================================================
+-- Shipment and transfer lines can be auto-allocated: the requested quantity is
+-- split across lots by earliest expiry using get_fefo_allocation(), and the
+-- resulting lot lines are saved on the document.
+--
+-- Tenants can make FEFO the default for track_expiry products with
+-- tenants.settings.fefo_default (boolean, app-level setting).
+-- =============================================================================
+
+
+-- -----------------------------------------------------------------------------
+-- 1. get_fefo_allocation() - split a quantity across lots by earliest expiry
+-- -----------------------------------------------------------------------------
+-- Only unreserved stock is allocated and already expired lots are skipped.
+-- Returns fewer rows than needed when stock is short; callers compare the sum
+-- of qty_to_use with the requested quantity.
+CREATE OR REPLACE FUNCTION get_fefo_allocation(
+  p_tenant_id UUID,
+  p_product_id UUID,
+  p_location_id UUID,
+  p_qty_needed NUMERIC
+)
+RETURNS TABLE (
+  lot_number TEXT,
+  expiry_date DATE,
+  qty_to_use NUMERIC,
+  available_qty NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_remaining NUMERIC := p_qty_needed;
+  v_row RECORD;
+BEGIN
+  FOR v_row IN
+    SELECT
+      NULLIF(b.lot_number, '') AS lot,
+      b.expiry_date AS expiry,
+      b.qty_on_hand - COALESCE(rs.reserved_qty, 0) AS available
+    FROM inventory_balances b
+    LEFT JOIN reserved_stock rs
+      ON rs.tenant_id = b.tenant_id
+      AND rs.product_id = b.product_id
+      AND rs.location_id = b.location_id
+      AND COALESCE(rs.lot_number, '') = COALESCE(b.lot_number, '')
+      AND COALESCE(rs.expiry_date, '1900-01-01'::date) = COALESCE(b.expiry_date, '1900-01-01'::date)
+    WHERE b.tenant_id = p_tenant_id
+      AND b.product_id = p_product_id
+      AND b.location_id = p_location_id
+      AND (b.expiry_date IS NULL OR b.expiry_date >= CURRENT_DATE)
+      AND b.qty_on_hand - COALESCE(rs.reserved_qty, 0) > 0
+    ORDER BY b.expiry_date ASC NULLS LAST, b.lot_number ASC NULLS LAST
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+
+    lot_number := v_row.lot;
+    expiry_date := v_row.expiry;
+    available_qty := v_row.available;
+    qty_to_use := LEAST(v_row.available, v_remaining);
+    v_remaining := v_remaining - qty_to_use;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_fefo_allocation(UUID, UUID, UUID, NUMERIC) TO authenticated;
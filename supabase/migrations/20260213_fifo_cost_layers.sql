@@ -0,0 +1,441 @@
+-- =============================================================================
+-- FIFO cost layers
+-- =============================================================================
+-- Every inbound movement opens a cost layer and every outbound movement
+-- consumes the oldest open layers of the same balance (product, location, lot,
+-- expiry). Layers are kept for all tenants so the costing method can be
+-- switched without rebuilding history.
+--
+-- The costing method is set per tenant in tenants.settings.costing_method:
+--   'weighted_average' (default) - outbound movements are costed at the
+--                                  balance avg_cost, as before
+--   'fifo'                       - outbound movements are costed at the
+--                                  consumed layers, and the balance avg_cost
+--                                  is the average of the remaining layers
+--
+-- Transfers carry the blended cost of the layers consumed at the source into
+-- a single layer at the destination.
+-- =============================================================================
+
+
+-- -----------------------------------------------------------------------------
+-- 1. cost_layers table
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS cost_layers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  product_id UUID NOT NULL REFERENCES products(id),
+  location_id UUID NOT NULL REFERENCES locations(id),
+  lot_number TEXT,
+  expiry_date DATE,
+  original_qty NUMERIC NOT NULL CHECK (original_qty > 0),
+  remaining_qty NUMERIC NOT NULL CHECK (remaining_qty >= 0),
+  unit_cost NUMERIC NOT NULL DEFAULT 0,
+  movement_type movement_type,
+  reference_type TEXT,
+  reference_id UUID,
+  -- clock_timestamp() keeps layers opened in one transaction in order
+  received_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cost_layers_open
+  ON cost_layers (tenant_id, product_id, location_id, received_at)
+  WHERE remaining_qty > 0;
+
+ALTER TABLE cost_layers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS tenant_isolation ON cost_layers;
+CREATE POLICY tenant_isolation ON cost_layers
+  FOR ALL USING (tenant_id = get_user_tenant_id());
+
+
+-- -----------------------------------------------------------------------------
+-- 2. Opening layers for stock on hand
+-- -----------------------------------------------------------------------------
+-- Existing stock becomes one layer per balance at its current avg_cost.
+INSERT INTO cost_layers (
+  tenant_id, product_id, location_id, lot_number, expiry_date,
+  original_qty, remaining_qty, unit_cost, received_at
+)
+SELECT
+  b.tenant_id, b.product_id, b.location_id, NULLIF(b.lot_number, ''), b.expiry_date,
+  b.qty_on_hand, b.qty_on_hand, COALESCE(b.avg_cost, 0), COALESCE(b.updated_at, NOW())
+FROM inventory_balances b
+WHERE b.qty_on_hand > 0
+  AND NOT EXISTS (
+    SELECT 1 FROM cost_layers cl
+    WHERE cl.tenant_id = b.tenant_id
+      AND cl.product_id = b.product_id
+      AND cl.location_id = b.location_id
+      AND COALESCE(cl.lot_number, '') = COALESCE(b.lot_number, '')
+      AND COALESCE(cl.expiry_date, '1900-01-01'::date) = COALESCE(b.expiry_date, '1900-01-01'::date)
+  );
+
+
+-- -----------------------------------------------------------------------------
+-- 3. Helpers
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION get_costing_method(p_tenant_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(settings->>'costing_method', 'weighted_average')
+  FROM tenants
+  WHERE id = p_tenant_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_costing_method(UUID) TO authenticated;
+
+-- Consumes p_qty from the oldest open layers and returns the average cost of
+-- the consumed quantity. Any shortfall (stock that never had a layer) is
+-- costed at p_fallback_cost.
+CREATE OR REPLACE FUNCTION consume_cost_layers(
+  p_tenant_id UUID,
+  p_product_id UUID,
+  p_location_id UUID,
+  p_lot_number TEXT,
+  p_expiry_date DATE,
+  p_qty NUMERIC,
+  p_fallback_cost NUMERIC DEFAULT 0
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_remaining NUMERIC := p_qty;
+  v_take NUMERIC;
+  v_total_cost NUMERIC := 0;
+  v_layer RECORD;
+BEGIN
+  IF p_qty <= 0 THEN
+    RETURN COALESCE(p_fallback_cost, 0);
+  END IF;
+
+  FOR v_layer IN
+    SELECT id, remaining_qty, unit_cost
+    FROM cost_layers
+    WHERE tenant_id = p_tenant_id
+      AND product_id = p_product_id
+      AND location_id = p_location_id
+      AND COALESCE(lot_number, '') = COALESCE(NULLIF(TRIM(p_lot_number), ''), '')
+      AND COALESCE(expiry_date, '1900-01-01'::date) = COALESCE(p_expiry_date, '1900-01-01'::date)
+      AND remaining_qty > 0
+    ORDER BY received_at, id
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+
+    v_take := LEAST(v_layer.remaining_qty, v_remaining);
+
+    UPDATE cost_layers
+    SET remaining_qty = remaining_qty - v_take
+    WHERE id = v_layer.id;
+
+    v_total_cost := v_total_cost + v_take * v_layer.unit_cost;
+    v_remaining := v_remaining - v_take;
+  END LOOP;
+
+  IF v_remaining > 0 THEN
+    v_total_cost := v_total_cost + v_remaining * COALESCE(p_fallback_cost, 0);
+  END IF;
+
+  RETURN v_total_cost / p_qty;
+END;
+$$;
+
+-- Average unit cost of the open layers of a balance (NULL when none are open).
+CREATE OR REPLACE FUNCTION get_cost_layer_avg(
+  p_tenant_id UUID,
+  p_product_id UUID,
+  p_location_id UUID,
+  p_lot_number TEXT,
+  p_expiry_date DATE
+)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT SUM(remaining_qty * unit_cost) / NULLIF(SUM(remaining_qty), 0)
+  FROM cost_layers
+  WHERE tenant_id = p_tenant_id
+    AND product_id = p_product_id
+    AND location_id = p_location_id
+    AND COALESCE(lot_number, '') = COALESCE(NULLIF(TRIM(p_lot_number), ''), '')
+    AND COALESCE(expiry_date, '1900-01-01'::date) = COALESCE(p_expiry_date, '1900-01-01'::date)
+    AND remaining_qty > 0;
+$$;
+
+
+-- -----------------------------------------------------------------------------
+-- 4. apply_stock_movement() - maintain cost layers, cost by tenant method
+-- -----------------------------------------------------------------------------
+-- Inbound movements open a layer at the movement cost. Outbound movements
+-- always consume layers; under FIFO they are also costed at those layers and
+-- a caller-supplied p_unit_cost is ignored.
+CREATE OR REPLACE FUNCTION apply_stock_movement(
+  p_tenant_id UUID,
+  p_product_id UUID,
+  p_location_id UUID,
+  p_qty NUMERIC,
+  p_movement_type movement_type,
+  p_reference_type TEXT,
+  p_reference_id UUID,
+  p_lot_number TEXT DEFAULT NULL,
+  p_expiry_date DATE DEFAULT NULL,
+  p_unit_cost NUMERIC DEFAULT NULL,
+  p_reason adjustment_reason DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_lot_number TEXT := NULLIF(TRIM(p_lot_number), '');
+  v_is_fifo BOOLEAN := get_costing_method(p_tenant_id) = 'fifo';
+  v_balance_id UUID;
+  v_qty_on_hand NUMERIC;
+  v_avg_cost NUMERIC;
+  v_unit_cost NUMERIC;
+  v_layer_cost NUMERIC;
+  v_new_qty NUMERIC;
+  v_sku TEXT;
+BEGIN
+  -- Lock the balance row (legacy rows may store '' instead of NULL lots)
+  SELECT id, qty_on_hand, avg_cost
+  INTO v_balance_id, v_qty_on_hand, v_avg_cost
+  FROM inventory_balances
+  WHERE tenant_id = p_tenant_id
+    AND product_id = p_product_id
+    AND location_id = p_location_id
+    AND COALESCE(lot_number, '') = COALESCE(v_lot_number, '')
+    AND COALESCE(expiry_date, '1900-01-01'::date) = COALESCE(p_expiry_date, '1900-01-01'::date)
+  LIMIT 1
+  FOR UPDATE;
+
+  v_unit_cost := COALESCE(p_unit_cost, v_avg_cost, 0);
+
+  IF p_qty < 0 THEN
+    IF v_balance_id IS NULL OR v_qty_on_hand < ABS(p_qty) THEN
+      SELECT sku INTO v_sku FROM products WHERE id = p_product_id;
+      RAISE EXCEPTION 'Insufficient stock for %: have %, need %',
+        COALESCE(v_sku, 'product'), COALESCE(v_qty_on_hand, 0), ABS(p_qty);
+    END IF;
+
+    v_layer_cost := consume_cost_layers(
+      p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date,
+      ABS(p_qty), COALESCE(v_avg_cost, 0)
+    );
+
+    IF v_is_fifo THEN
+      v_unit_cost := v_layer_cost;
+    END IF;
+
+    UPDATE inventory_balances
+    SET qty_on_hand = qty_on_hand + p_qty,
+        avg_cost = CASE
+          WHEN v_is_fifo THEN COALESCE(
+            get_cost_layer_avg(p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date),
+            avg_cost
+          )
+          ELSE avg_cost
+        END,
+        updated_at = NOW()
+    WHERE id = v_balance_id;
+  ELSIF p_qty > 0 THEN
+    INSERT INTO cost_layers (
+      tenant_id, product_id, location_id, lot_number, expiry_date,
+      original_qty, remaining_qty, unit_cost, movement_type, reference_type, reference_id
+    ) VALUES (
+      p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date,
+      p_qty, p_qty, v_unit_cost, p_movement_type, p_reference_type, p_reference_id
+    );
+
+    IF v_balance_id IS NULL THEN
+      INSERT INTO inventory_balances (
+        tenant_id, product_id, location_id, lot_number, expiry_date, qty_on_hand, avg_cost
+      ) VALUES (
+        p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date, p_qty, v_unit_cost
+      );
+    ELSE
+      v_new_qty := v_qty_on_hand + p_qty;
+
+      UPDATE inventory_balances
+      SET qty_on_hand = v_new_qty,
+          avg_cost = CASE
+            WHEN v_is_fifo THEN COALESCE(
+              get_cost_layer_avg(p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date),
+              v_unit_cost
+            )
+            WHEN v_qty_on_hand <= 0 THEN v_unit_cost
+            ELSE ((v_qty_on_hand * v_avg_cost) + (p_qty * v_unit_cost)) / v_new_qty
+          END,
+          updated_at = NOW()
+      WHERE id = v_balance_id;
+    END IF;
+  ELSE
+    RETURN v_unit_cost;
+  END IF;
+
+  -- extended_cost is a generated column
+  INSERT INTO stock_movements (
+    tenant_id, product_id, location_id, qty, movement_type,
+    reference_type, reference_id, lot_number, expiry_date,
+    unit_cost, reason, created_by
+  ) VALUES (
+    p_tenant_id, p_product_id, p_location_id, p_qty, p_movement_type,
+    p_reference_type, p_reference_id, v_lot_number, p_expiry_date,
+    v_unit_cost, p_reason, auth.uid()
+  );
+
+  RETURN v_unit_cost;
+END;
+$$;
+
+
+-- -----------------------------------------------------------------------------
+-- 5. calculated_stock view - value FIFO tenants at their open layers
+-- -----------------------------------------------------------------------------
+DROP VIEW IF EXISTS calculated_stock CASCADE;
+
+CREATE VIEW calculated_stock
+WITH (security_invoker = true)
+AS
+SELECT
+    s.id,
+    s.tenant_id,
+    s.product_id,
+    s.location_id,
+    s.lot_number,
+    s.expiry_date,
+    s.qty_on_hand,
+    CASE
+        WHEN t.settings->>'costing_method' = 'fifo' AND cl.layer_avg_cost IS NOT NULL
+            THEN cl.layer_avg_cost
+        ELSE s.avg_cost
+    END as avg_cost,
+    s.qty_on_hand * CASE
+        WHEN t.settings->>'costing_method' = 'fifo' AND cl.layer_avg_cost IS NOT NULL
+            THEN cl.layer_avg_cost
+        ELSE s.avg_cost
+    END as inventory_value,
+    COALESCE(rs.reserved_qty, 0) as reserved_qty,
+    s.qty_on_hand - COALESCE(rs.reserved_qty, 0) as available_qty
+FROM (
+    SELECT
+        md5(
+            COALESCE(sm.product_id::text, '') ||
+            COALESCE(sm.location_id::text, '') ||
+            COALESCE(sm.lot_number, '') ||
+            COALESCE(sm.expiry_date::text, '')
+        )::uuid as id,
+        sm.tenant_id,
+        sm.product_id,
+        sm.location_id,
+        sm.lot_number,
+        sm.expiry_date,
+        SUM(sm.qty) as qty_on_hand,
+        COALESCE(
+            SUM(CASE WHEN sm.qty > 0 AND sm.unit_cost IS NOT NULL THEN sm.qty * sm.unit_cost ELSE 0 END) /
+            NULLIF(SUM(CASE WHEN sm.qty > 0 AND sm.unit_cost IS NOT NULL THEN sm.qty ELSE 0 END), 0),
+            0
+        ) as avg_cost
+    FROM stock_movements sm
+    GROUP BY
+        sm.tenant_id,
+        sm.product_id,
+        sm.location_id,
+        sm.lot_number,
+        sm.expiry_date
+    HAVING SUM(sm.qty) > 0
+) s
+JOIN tenants t ON t.id = s.tenant_id
+LEFT JOIN (
+    SELECT
+        tenant_id,
+        product_id,
+        location_id,
+        lot_number,
+        expiry_date,
+        SUM(remaining_qty * unit_cost) / NULLIF(SUM(remaining_qty), 0) as layer_avg_cost
+    FROM cost_layers
+    WHERE remaining_qty > 0
+    GROUP BY tenant_id, product_id, location_id, lot_number, expiry_date
+) cl
+    ON cl.tenant_id = s.tenant_id
+    AND cl.product_id = s.product_id
+    AND cl.location_id = s.location_id
+    AND COALESCE(cl.lot_number, '') = COALESCE(s.lot_number, '')
+    AND COALESCE(cl.expiry_date, '1900-01-01'::date) = COALESCE(s.expiry_date, '1900-01-01'::date)
+LEFT JOIN reserved_stock rs
+    ON rs.tenant_id = s.tenant_id
+    AND rs.product_id = s.product_id
+    AND rs.location_id = s.location_id
+    AND COALESCE(rs.lot_number, '') = COALESCE(s.lot_number, '')
+    AND COALESCE(rs.expiry_date, '1900-01-01'::date) = COALESCE(s.expiry_date, '1900-01-01'::date);
+
+GRANT SELECT ON calculated_stock TO authenticated;
+
+COMMENT ON VIEW calculated_stock IS 'Calculates current stock levels by aggregating all stock movements, with reserved and available quantities. FIFO tenants are valued at their open cost layers. Uses security_invoker to enforce RLS.';
+
+
+-- -----------------------------------------------------------------------------
+-- 6. get_calculated_stock() RPC - recreated after the view drop
+-- -----------------------------------------------------------------------------
+DROP FUNCTION IF EXISTS get_calculated_stock();
+
+CREATE OR REPLACE FUNCTION get_calculated_stock()
+RETURNS TABLE (
+    id UUID,
+    tenant_id UUID,
+    product_id UUID,
+    location_id UUID,
+    lot_number TEXT,
+    expiry_date DATE,
+    qty_on_hand NUMERIC,
+    avg_cost NUMERIC,
+    inventory_value NUMERIC,
+    reserved_qty NUMERIC,
+    available_qty NUMERIC,
+    product JSONB,
+    location JSONB
+)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+    SELECT
+        cs.id,
+        cs.tenant_id,
+        cs.product_id,
+        cs.location_id,
+        cs.lot_number,
+        cs.expiry_date,
+        cs.qty_on_hand,
+        cs.avg_cost,
+        cs.inventory_value,
+        cs.reserved_qty,
+        cs.available_qty,
+        jsonb_build_object(
+            'id', p.id,
+            'sku', p.sku,
+            'name', p.name,
+            'base_uom', p.base_uom,
+            'reorder_point', p.reorder_point,
+            'track_expiry', p.track_expiry,
+            'track_lot', p.track_lot,
+            'category_id', p.category_id
+        ) as product,
+        jsonb_build_object(
+            'id', l.id,
+            'name', l.name,
+            'type', l.type
+        ) as location
+    FROM calculated_stock cs
+    JOIN products p ON p.id = cs.product_id
+    JOIN locations l ON l.id = cs.location_id
+    WHERE cs.tenant_id = get_user_tenant_id()
+    ORDER BY cs.product_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_calculated_stock() TO authenticated;
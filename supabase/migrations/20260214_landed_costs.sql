@@ -0,0 +1,397 @@
+-- =============================================================================
+-- Landed cost allocation on purchase order receipts
+-- =============================================================================
+-- Each receive_purchase_order() call now records a po_receipts row with one
+-- po_receipt_lines row per received line, linked to the receive movement and
+-- the cost layer it opened.
+--
+-- Additional charges (freight, duty, handling, ...) are recorded in
+-- landed_costs against a whole PO or one receipt and allocated across the
+-- received lines by value, quantity or weight (products.weight). Allocation:
+--   - adds the per-unit charge to the receive movement's unit_cost
+--   - adds it to the receipt's cost layer
+--   - raises the balance avg_cost for the part of the receipt still on hand
+--     (stock already shipped keeps the cost it left with)
+-- =============================================================================
+
+
+-- -----------------------------------------------------------------------------
+-- 1. Product weight (per base unit) for weight-based allocation
+-- -----------------------------------------------------------------------------
+ALTER TABLE products ADD COLUMN IF NOT EXISTS weight NUMERIC CHECK (weight >= 0);
+
+
+-- -----------------------------------------------------------------------------
+-- 2. Receipts
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS po_receipts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  po_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_po_receipts_po ON po_receipts(po_id);
+
+CREATE TABLE IF NOT EXISTS po_receipt_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  receipt_id UUID NOT NULL REFERENCES po_receipts(id) ON DELETE CASCADE,
+  po_line_id UUID NOT NULL REFERENCES purchase_order_lines(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id),
+  qty NUMERIC NOT NULL CHECK (qty > 0),
+  lot_number TEXT,
+  expiry_date DATE,
+  unit_cost NUMERIC NOT NULL DEFAULT 0,
+  landed_cost NUMERIC NOT NULL DEFAULT 0,
+  movement_id UUID REFERENCES stock_movements(id) ON DELETE SET NULL,
+  cost_layer_id UUID REFERENCES cost_layers(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_po_receipt_lines_receipt ON po_receipt_lines(receipt_id);
+CREATE INDEX IF NOT EXISTS idx_po_receipt_lines_movement ON po_receipt_lines(movement_id);
+
+ALTER TABLE po_receipts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE po_receipt_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS tenant_isolation ON po_receipts;
+CREATE POLICY tenant_isolation ON po_receipts
+  FOR ALL USING (tenant_id = get_user_tenant_id());
+
+DROP POLICY IF EXISTS tenant_isolation ON po_receipt_lines;
+CREATE POLICY tenant_isolation ON po_receipt_lines
+  FOR ALL USING (tenant_id = get_user_tenant_id());
+
+
+-- -----------------------------------------------------------------------------
+-- 3. Landed costs and their allocations
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS landed_costs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  po_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  receipt_id UUID REFERENCES po_receipts(id) ON DELETE CASCADE,
+  charge_type TEXT NOT NULL CHECK (charge_type IN ('freight', 'duty', 'handling', 'insurance', 'other')),
+  description TEXT,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  allocation_method TEXT NOT NULL CHECK (allocation_method IN ('value', 'quantity', 'weight')),
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_landed_costs_po ON landed_costs(po_id);
+
+CREATE TABLE IF NOT EXISTS landed_cost_allocations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  landed_cost_id UUID NOT NULL REFERENCES landed_costs(id) ON DELETE CASCADE,
+  receipt_line_id UUID NOT NULL REFERENCES po_receipt_lines(id) ON DELETE CASCADE,
+  amount NUMERIC NOT NULL,
+  unit_cost_increase NUMERIC NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_landed_cost_allocations_cost ON landed_cost_allocations(landed_cost_id);
+
+ALTER TABLE landed_costs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE landed_cost_allocations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS tenant_isolation ON landed_costs;
+CREATE POLICY tenant_isolation ON landed_costs
+  FOR ALL USING (tenant_id = get_user_tenant_id());
+
+DROP POLICY IF EXISTS tenant_isolation ON landed_cost_allocations;
+CREATE POLICY tenant_isolation ON landed_cost_allocations
+  FOR ALL USING (tenant_id = get_user_tenant_id());
+
+
+-- -----------------------------------------------------------------------------
+-- 4. receive_purchase_order() - record the receipt
+-- -----------------------------------------------------------------------------
+-- Same contract as before, plus "receipt_id" in the result. The movement and
+-- cost layer written by apply_stock_movement() are linked to the receipt line
+-- right after each line is posted, so the newest unlinked row is always ours.
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+  p_po_id UUID,
+  p_lines JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_po purchase_orders%ROWTYPE;
+  v_input RECORD;
+  v_line purchase_order_lines%ROWTYPE;
+  v_lot_number TEXT;
+  v_receipt_id UUID;
+  v_movement_id UUID;
+  v_layer_id UUID;
+  v_all_complete BOOLEAN;
+  v_any_received BOOLEAN;
+  v_status document_status;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_po FROM purchase_orders WHERE id = p_po_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+  IF v_po.status = 'draft' THEN
+    RAISE EXCEPTION 'PO must be confirmed before receiving';
+  END IF;
+  IF v_po.status = 'completed' THEN
+    RAISE EXCEPTION 'PO is already completed';
+  END IF;
+  IF v_po.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cannot receive cancelled PO';
+  END IF;
+
+  FOR v_input IN
+    SELECT *
+    FROM jsonb_to_recordset(p_lines) AS x(
+      line_id UUID,
+      qty_to_receive NUMERIC,
+      lot_number TEXT,
+      expiry_date DATE
+    )
+    ORDER BY line_id
+  LOOP
+    CONTINUE WHEN COALESCE(v_input.qty_to_receive, 0) <= 0;
+
+    SELECT * INTO v_line
+    FROM purchase_order_lines
+    WHERE id = v_input.line_id AND po_id = p_po_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order line % not found', v_input.line_id;
+    END IF;
+
+    IF COALESCE(v_line.qty_received, 0) + v_input.qty_to_receive > v_line.qty_ordered THEN
+      RAISE EXCEPTION 'Cannot receive more than ordered for line %', v_input.line_id;
+    END IF;
+
+    IF v_receipt_id IS NULL THEN
+      INSERT INTO po_receipts (tenant_id, po_id, created_by)
+      VALUES (v_po.tenant_id, p_po_id, auth.uid())
+      RETURNING id INTO v_receipt_id;
+    END IF;
+
+    UPDATE purchase_order_lines
+    SET qty_received = COALESCE(qty_received, 0) + v_input.qty_to_receive
+    WHERE id = v_line.id;
+
+    PERFORM apply_stock_movement(
+      v_po.tenant_id, v_line.product_id, v_po.location_id, v_input.qty_to_receive,
+      'receive', 'po', p_po_id, v_input.lot_number, v_input.expiry_date,
+      COALESCE(v_line.unit_cost, 0)
+    );
+
+    v_lot_number := NULLIF(TRIM(v_input.lot_number), '');
+
+    SELECT sm.id INTO v_movement_id
+    FROM stock_movements sm
+    WHERE sm.reference_type = 'po'
+      AND sm.reference_id = p_po_id
+      AND sm.movement_type = 'receive'
+      AND sm.product_id = v_line.product_id
+      AND NOT EXISTS (SELECT 1 FROM po_receipt_lines rl WHERE rl.movement_id = sm.id)
+    ORDER BY sm.created_at DESC
+    LIMIT 1;
+
+    SELECT cl.id INTO v_layer_id
+    FROM cost_layers cl
+    WHERE cl.reference_type = 'po'
+      AND cl.reference_id = p_po_id
+      AND cl.product_id = v_line.product_id
+    ORDER BY cl.received_at DESC
+    LIMIT 1;
+
+    INSERT INTO po_receipt_lines (
+      tenant_id, receipt_id, po_line_id, product_id, qty,
+      lot_number, expiry_date, unit_cost, movement_id, cost_layer_id
+    ) VALUES (
+      v_po.tenant_id, v_receipt_id, v_line.id, v_line.product_id, v_input.qty_to_receive,
+      v_lot_number, v_input.expiry_date, COALESCE(v_line.unit_cost, 0), v_movement_id, v_layer_id
+    );
+
+    UPDATE products
+    SET current_cost = COALESCE(v_line.unit_cost, 0), updated_at = NOW()
+    WHERE id = v_line.product_id;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_input.qty_to_receive);
+  END LOOP;
+
+  SELECT
+    BOOL_AND(COALESCE(qty_received, 0) >= qty_ordered),
+    BOOL_OR(COALESCE(qty_received, 0) > 0)
+  INTO v_all_complete, v_any_received
+  FROM purchase_order_lines
+  WHERE po_id = p_po_id;
+
+  v_status := CASE
+    WHEN v_all_complete THEN 'completed'
+    WHEN v_any_received THEN 'partial'
+    ELSE 'confirmed'
+  END;
+
+  UPDATE purchase_orders
+  SET status = v_status, updated_at = NOW()
+  WHERE id = p_po_id;
+
+  RETURN jsonb_build_object('status', v_status, 'receipt_id', v_receipt_id, 'items', v_items);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION receive_purchase_order(UUID, JSONB) TO authenticated;
+
+
+-- -----------------------------------------------------------------------------
+-- 5. apply_landed_cost() - record a charge and allocate it
+-- -----------------------------------------------------------------------------
+-- p_receipt_id NULL allocates across every receipt of the PO.
+CREATE OR REPLACE FUNCTION apply_landed_cost(
+  p_po_id UUID,
+  p_receipt_id UUID,
+  p_charge_type TEXT,
+  p_description TEXT,
+  p_amount NUMERIC,
+  p_allocation_method TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_po purchase_orders%ROWTYPE;
+  v_is_fifo BOOLEAN;
+  v_landed_cost_id UUID;
+  v_line_count INTEGER;
+  v_total_basis NUMERIC;
+  v_line RECORD;
+  v_share NUMERIC;
+  v_per_unit NUMERIC;
+  v_balance_id UUID;
+  v_qty_on_hand NUMERIC;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_po FROM purchase_orders WHERE id = p_po_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+  IF COALESCE(p_amount, 0) <= 0 THEN
+    RAISE EXCEPTION 'Landed cost amount must be positive';
+  END IF;
+  IF p_allocation_method NOT IN ('value', 'quantity', 'weight') THEN
+    RAISE EXCEPTION 'Unknown allocation method %', p_allocation_method;
+  END IF;
+  IF p_receipt_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM po_receipts WHERE id = p_receipt_id AND po_id = p_po_id) THEN
+    RAISE EXCEPTION 'Receipt not found';
+  END IF;
+
+  SELECT COUNT(*), SUM(
+    CASE p_allocation_method
+      WHEN 'value' THEN rl.qty * rl.unit_cost
+      WHEN 'quantity' THEN rl.qty
+      ELSE rl.qty * COALESCE(p.weight, 0)
+    END
+  )
+  INTO v_line_count, v_total_basis
+  FROM po_receipt_lines rl
+  JOIN po_receipts r ON r.id = rl.receipt_id
+  JOIN products p ON p.id = rl.product_id
+  WHERE r.po_id = p_po_id
+    AND (p_receipt_id IS NULL OR r.id = p_receipt_id);
+
+  IF v_line_count = 0 THEN
+    RAISE EXCEPTION 'Nothing has been received on this purchase order';
+  END IF;
+  IF COALESCE(v_total_basis, 0) <= 0 THEN
+    RAISE EXCEPTION 'Received lines have no % to allocate by', p_allocation_method;
+  END IF;
+
+  INSERT INTO landed_costs (
+    tenant_id, po_id, receipt_id, charge_type, description, amount, allocation_method, created_by
+  ) VALUES (
+    v_po.tenant_id, p_po_id, p_receipt_id, p_charge_type, NULLIF(TRIM(p_description), ''),
+    p_amount, p_allocation_method, auth.uid()
+  )
+  RETURNING id INTO v_landed_cost_id;
+
+  v_is_fifo := get_costing_method(v_po.tenant_id) = 'fifo';
+
+  FOR v_line IN
+    SELECT * FROM (
+      SELECT
+        rl.*,
+        CASE p_allocation_method
+          WHEN 'value' THEN rl.qty * rl.unit_cost
+          WHEN 'quantity' THEN rl.qty
+          ELSE rl.qty * COALESCE(p.weight, 0)
+        END AS basis
+      FROM po_receipt_lines rl
+      JOIN po_receipts r ON r.id = rl.receipt_id
+      JOIN products p ON p.id = rl.product_id
+      WHERE r.po_id = p_po_id
+        AND (p_receipt_id IS NULL OR r.id = p_receipt_id)
+    ) lines
+    WHERE basis > 0
+    ORDER BY product_id, lot_number NULLS FIRST, expiry_date NULLS FIRST, id
+  LOOP
+    v_share := p_amount * v_line.basis / v_total_basis;
+    v_per_unit := v_share / v_line.qty;
+
+    INSERT INTO landed_cost_allocations (
+      tenant_id, landed_cost_id, receipt_line_id, amount, unit_cost_increase
+    ) VALUES (
+      v_po.tenant_id, v_landed_cost_id, v_line.id, v_share, v_per_unit
+    );
+
+    UPDATE po_receipt_lines SET landed_cost = landed_cost + v_share WHERE id = v_line.id;
+
+    -- extended_cost is a generated column
+    UPDATE stock_movements
+    SET unit_cost = COALESCE(unit_cost, 0) + v_per_unit
+    WHERE id = v_line.movement_id;
+
+    UPDATE cost_layers
+    SET unit_cost = unit_cost + v_per_unit
+    WHERE id = v_line.cost_layer_id;
+
+    SELECT id, qty_on_hand INTO v_balance_id, v_qty_on_hand
+    FROM inventory_balances
+    WHERE tenant_id = v_po.tenant_id
+      AND product_id = v_line.product_id
+      AND location_id = v_po.location_id
+      AND COALESCE(lot_number, '') = COALESCE(v_line.lot_number, '')
+      AND COALESCE(expiry_date, '1900-01-01'::date) = COALESCE(v_line.expiry_date, '1900-01-01'::date)
+    LIMIT 1
+    FOR UPDATE;
+
+    IF v_balance_id IS NOT NULL AND v_qty_on_hand > 0 THEN
+      UPDATE inventory_balances
+      SET avg_cost = CASE
+            WHEN v_is_fifo THEN COALESCE(
+              get_cost_layer_avg(tenant_id, product_id, location_id, lot_number, expiry_date),
+              avg_cost
+            )
+            ELSE (qty_on_hand * avg_cost + LEAST(qty_on_hand, v_line.qty) * v_per_unit) / qty_on_hand
+          END,
+          updated_at = NOW()
+      WHERE id = v_balance_id;
+    END IF;
+
+    v_items := v_items || jsonb_build_object(
+      'product_id', v_line.product_id,
+      'qty', v_line.qty,
+      'amount', v_share
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object('landed_cost_id', v_landed_cost_id, 'items', v_items);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION apply_landed_cost(UUID, UUID, TEXT, TEXT, NUMERIC, TEXT) TO authenticated;
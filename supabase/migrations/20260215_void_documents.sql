@@ -0,0 +1,568 @@
+-- =============================================================================
+-- Void completed documents
+-- =============================================================================
+-- Completed shipments, adjustments, cycle counts, returns and individual PO
+-- receipts can be voided. Voiding writes a reversing stock movement of type
+-- 'void' for every movement the document posted, restores balances and
+-- costs, and marks the document voided with a reason.
+--
+-- Reversals that take stock back out (receipts, customer returns, positive
+-- adjustments and count gains) fail when they would leave less than zero
+-- available stock, so reserved stock is never voided away.
+-- =============================================================================
+
+
+-- -----------------------------------------------------------------------------
+-- 1. 'voided' status and void tracking columns
+-- -----------------------------------------------------------------------------
+ALTER TYPE document_status ADD VALUE IF NOT EXISTS 'voided';
+
+ALTER TABLE shipments ADD COLUMN IF NOT EXISTS voided_at TIMESTAMPTZ;
+ALTER TABLE shipments ADD COLUMN IF NOT EXISTS voided_by UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE shipments ADD COLUMN IF NOT EXISTS void_reason TEXT;
+
+ALTER TABLE adjustments ADD COLUMN IF NOT EXISTS voided_at TIMESTAMPTZ;
+ALTER TABLE adjustments ADD COLUMN IF NOT EXISTS voided_by UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE adjustments ADD COLUMN IF NOT EXISTS void_reason TEXT;
+
+ALTER TABLE cycle_counts ADD COLUMN IF NOT EXISTS voided_at TIMESTAMPTZ;
+ALTER TABLE cycle_counts ADD COLUMN IF NOT EXISTS voided_by UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE cycle_counts ADD COLUMN IF NOT EXISTS void_reason TEXT;
+
+ALTER TABLE returns ADD COLUMN IF NOT EXISTS voided_at TIMESTAMPTZ;
+ALTER TABLE returns ADD COLUMN IF NOT EXISTS voided_by UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE returns ADD COLUMN IF NOT EXISTS void_reason TEXT;
+
+ALTER TABLE po_receipts ADD COLUMN IF NOT EXISTS voided_at TIMESTAMPTZ;
+ALTER TABLE po_receipts ADD COLUMN IF NOT EXISTS voided_by UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE po_receipts ADD COLUMN IF NOT EXISTS void_reason TEXT;
+
+
+-- -----------------------------------------------------------------------------
+-- 2. reverse_stock_movement() - post the opposite of one movement
+-- -----------------------------------------------------------------------------
+-- Outbound movements are put back at the cost they left with. Inbound
+-- movements are taken back out at the cost they came in with, consuming the
+-- cost layers opened by the same document first.
+CREATE OR REPLACE FUNCTION reverse_stock_movement(p_movement_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_movement stock_movements%ROWTYPE;
+  v_is_fifo BOOLEAN;
+  v_unit_cost NUMERIC;
+  v_balance_id UUID;
+  v_qty_on_hand NUMERIC;
+  v_avg_cost NUMERIC;
+  v_available NUMERIC;
+  v_remaining NUMERIC;
+  v_take NUMERIC;
+  v_layer RECORD;
+  v_sku TEXT;
+BEGIN
+  SELECT * INTO v_movement FROM stock_movements WHERE id = p_movement_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock movement % not found', p_movement_id;
+  END IF;
+
+  v_unit_cost := COALESCE(v_movement.unit_cost, 0);
+
+  IF v_movement.qty < 0 THEN
+    RETURN apply_stock_movement(
+      v_movement.tenant_id, v_movement.product_id, v_movement.location_id, -v_movement.qty,
+      'void', v_movement.reference_type, v_movement.reference_id,
+      v_movement.lot_number, v_movement.expiry_date, v_unit_cost
+    );
+  END IF;
+
+  SELECT id, qty_on_hand, avg_cost
+  INTO v_balance_id, v_qty_on_hand, v_avg_cost
+  FROM inventory_balances
+  WHERE tenant_id = v_movement.tenant_id
+    AND product_id = v_movement.product_id
+    AND location_id = v_movement.location_id
+    AND COALESCE(lot_number, '') = COALESCE(v_movement.lot_number, '')
+    AND COALESCE(expiry_date, '1900-01-01'::date) = COALESCE(v_movement.expiry_date, '1900-01-01'::date)
+  LIMIT 1
+  FOR UPDATE;
+
+  v_available := COALESCE(v_qty_on_hand, 0) - get_reserved_qty(
+    v_movement.tenant_id, v_movement.product_id, v_movement.location_id,
+    v_movement.lot_number, v_movement.expiry_date
+  );
+
+  IF v_balance_id IS NULL OR v_available < v_movement.qty THEN
+    SELECT sku INTO v_sku FROM products WHERE id = v_movement.product_id;
+    RAISE EXCEPTION 'Cannot void: stock for % would go negative (available %, reversing %)',
+      COALESCE(v_sku, 'product'), GREATEST(v_available, 0), v_movement.qty;
+  END IF;
+
+  v_remaining := v_movement.qty;
+
+  FOR v_layer IN
+    SELECT id, remaining_qty
+    FROM cost_layers
+    WHERE tenant_id = v_movement.tenant_id
+      AND product_id = v_movement.product_id
+      AND location_id = v_movement.location_id
+      AND COALESCE(lot_number, '') = COALESCE(v_movement.lot_number, '')
+      AND COALESCE(expiry_date, '1900-01-01'::date) = COALESCE(v_movement.expiry_date, '1900-01-01'::date)
+      AND remaining_qty > 0
+    ORDER BY
+      (reference_type IS NOT DISTINCT FROM v_movement.reference_type
+        AND reference_id IS NOT DISTINCT FROM v_movement.reference_id) DESC,
+      received_at,
+      id
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+
+    v_take := LEAST(v_layer.remaining_qty, v_remaining);
+
+    UPDATE cost_layers SET remaining_qty = remaining_qty - v_take WHERE id = v_layer.id;
+
+    v_remaining := v_remaining - v_take;
+  END LOOP;
+
+  v_is_fifo := get_costing_method(v_movement.tenant_id) = 'fifo';
+
+  UPDATE inventory_balances
+  SET qty_on_hand = qty_on_hand - v_movement.qty,
+      avg_cost = CASE
+        WHEN v_is_fifo THEN COALESCE(
+          get_cost_layer_avg(tenant_id, product_id, location_id, lot_number, expiry_date),
+          avg_cost
+        )
+        WHEN qty_on_hand - v_movement.qty > 0 THEN GREATEST(
+          (qty_on_hand * avg_cost - v_movement.qty * v_unit_cost) / (qty_on_hand - v_movement.qty),
+          0
+        )
+        ELSE avg_cost
+      END,
+      updated_at = NOW()
+  WHERE id = v_balance_id;
+
+  -- extended_cost is a generated column
+  INSERT INTO stock_movements (
+    tenant_id, product_id, location_id, qty, movement_type,
+    reference_type, reference_id, lot_number, expiry_date,
+    unit_cost, created_by
+  ) VALUES (
+    v_movement.tenant_id, v_movement.product_id, v_movement.location_id, -v_movement.qty, 'void',
+    v_movement.reference_type, v_movement.reference_id, v_movement.lot_number, v_movement.expiry_date,
+    v_unit_cost, auth.uid()
+  );
+
+  RETURN v_unit_cost;
+END;
+$$;
+
+
+-- -----------------------------------------------------------------------------
+-- 3. reverse_document_movements() - reverse everything a document posted
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION reverse_document_movements(
+  p_reference_type TEXT,
+  p_reference_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_movement RECORD;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  FOR v_movement IN
+    SELECT id, product_id, qty
+    FROM stock_movements
+    WHERE reference_type = p_reference_type
+      AND reference_id = p_reference_id
+      AND movement_type <> 'void'
+    ORDER BY product_id, lot_number NULLS FIRST, expiry_date NULLS FIRST, id
+  LOOP
+    PERFORM reverse_stock_movement(v_movement.id);
+
+    v_items := v_items || jsonb_build_object('product_id', v_movement.product_id, 'qty', -v_movement.qty);
+  END LOOP;
+
+  RETURN v_items;
+END;
+$$;
+
+
+-- -----------------------------------------------------------------------------
+-- 4. Document void functions - completed -> voided
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION void_shipment(p_shipment_id UUID, p_reason TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_shipment shipments%ROWTYPE;
+  v_items JSONB;
+BEGIN
+  SELECT * INTO v_shipment FROM shipments WHERE id = p_shipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment not found';
+  END IF;
+  IF v_shipment.status <> 'completed' THEN
+    RAISE EXCEPTION 'Can only void completed shipments';
+  END IF;
+  IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A void reason is required';
+  END IF;
+
+  v_items := reverse_document_movements('shipment', p_shipment_id);
+
+  UPDATE shipments
+  SET status = 'voided',
+      voided_at = NOW(),
+      voided_by = auth.uid(),
+      void_reason = TRIM(p_reason),
+      updated_at = NOW()
+  WHERE id = p_shipment_id;
+
+  RETURN v_items;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION void_shipment(UUID, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION void_adjustment(p_adjustment_id UUID, p_reason TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_adjustment adjustments%ROWTYPE;
+  v_items JSONB;
+BEGIN
+  SELECT * INTO v_adjustment FROM adjustments WHERE id = p_adjustment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Adjustment not found';
+  END IF;
+  IF v_adjustment.status <> 'completed' THEN
+    RAISE EXCEPTION 'Can only void completed adjustments';
+  END IF;
+  IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A void reason is required';
+  END IF;
+
+  v_items := reverse_document_movements('adjustment', p_adjustment_id);
+
+  UPDATE adjustments
+  SET status = 'voided',
+      voided_at = NOW(),
+      voided_by = auth.uid(),
+      void_reason = TRIM(p_reason)
+  WHERE id = p_adjustment_id;
+
+  RETURN v_items;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION void_adjustment(UUID, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION void_cycle_count(p_count_id UUID, p_reason TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count cycle_counts%ROWTYPE;
+  v_items JSONB;
+BEGIN
+  SELECT * INTO v_count FROM cycle_counts WHERE id = p_count_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cycle count not found';
+  END IF;
+  IF v_count.status <> 'completed' THEN
+    RAISE EXCEPTION 'Can only void completed counts';
+  END IF;
+  IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A void reason is required';
+  END IF;
+
+  v_items := reverse_document_movements('cycle_count', p_count_id);
+
+  UPDATE cycle_counts
+  SET status = 'voided',
+      voided_at = NOW(),
+      voided_by = auth.uid(),
+      void_reason = TRIM(p_reason)
+  WHERE id = p_count_id;
+
+  RETURN v_items;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION void_cycle_count(UUID, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION void_return(p_return_id UUID, p_reason TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_return returns%ROWTYPE;
+  v_items JSONB;
+BEGIN
+  SELECT * INTO v_return FROM returns WHERE id = p_return_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return not found';
+  END IF;
+  IF v_return.status <> 'completed' THEN
+    RAISE EXCEPTION 'Can only void completed returns';
+  END IF;
+  IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A void reason is required';
+  END IF;
+
+  v_items := reverse_document_movements('return', p_return_id);
+
+  UPDATE returns
+  SET status = 'voided',
+      voided_at = NOW(),
+      voided_by = auth.uid(),
+      void_reason = TRIM(p_reason)
+  WHERE id = p_return_id;
+
+  RETURN v_items;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION void_return(UUID, TEXT) TO authenticated;
+
+
+-- -----------------------------------------------------------------------------
+-- 5. void_po_receipt() - reverse one receipt and reopen the PO lines
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION void_po_receipt(p_receipt_id UUID, p_reason TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_receipt po_receipts%ROWTYPE;
+  v_po purchase_orders%ROWTYPE;
+  v_line RECORD;
+  v_any_received BOOLEAN;
+  v_status document_status;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_receipt FROM po_receipts WHERE id = p_receipt_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receipt not found';
+  END IF;
+
+  -- PO first, then the receipt, matching receive_purchase_order() lock order
+  SELECT * INTO v_po FROM purchase_orders WHERE id = v_receipt.po_id FOR UPDATE;
+  SELECT * INTO v_receipt FROM po_receipts WHERE id = p_receipt_id FOR UPDATE;
+
+  IF v_receipt.voided_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Receipt is already voided';
+  END IF;
+  IF v_po.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cannot void receipts of a cancelled PO';
+  END IF;
+  IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A void reason is required';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM po_receipt_lines
+    WHERE receipt_id = p_receipt_id
+    ORDER BY product_id, lot_number NULLS FIRST, expiry_date NULLS FIRST, id
+  LOOP
+    IF v_line.movement_id IS NULL THEN
+      RAISE EXCEPTION 'Receipt line % has no stock movement to reverse', v_line.id;
+    END IF;
+
+    PERFORM reverse_stock_movement(v_line.movement_id);
+
+    UPDATE purchase_order_lines
+    SET qty_received = GREATEST(COALESCE(qty_received, 0) - v_line.qty, 0)
+    WHERE id = v_line.po_line_id;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', -v_line.qty);
+  END LOOP;
+
+  UPDATE po_receipts
+  SET voided_at = NOW(),
+      voided_by = auth.uid(),
+      void_reason = TRIM(p_reason)
+  WHERE id = p_receipt_id;
+
+  SELECT BOOL_OR(COALESCE(qty_received, 0) > 0)
+  INTO v_any_received
+  FROM purchase_order_lines
+  WHERE po_id = v_po.id;
+
+  v_status := CASE WHEN v_any_received THEN 'partial' ELSE 'confirmed' END;
+
+  UPDATE purchase_orders
+  SET status = v_status, updated_at = NOW()
+  WHERE id = v_po.id;
+
+  RETURN jsonb_build_object('status', v_status, 'items', v_items);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION void_po_receipt(UUID, TEXT) TO authenticated;
+
+
+-- -----------------------------------------------------------------------------
+-- 6. apply_landed_cost() - skip voided receipts
+-- -----------------------------------------------------------------------------
+-- Unchanged except that voided receipts can no longer receive charges.
+CREATE OR REPLACE FUNCTION apply_landed_cost(
+  p_po_id UUID,
+  p_receipt_id UUID,
+  p_charge_type TEXT,
+  p_description TEXT,
+  p_amount NUMERIC,
+  p_allocation_method TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_po purchase_orders%ROWTYPE;
+  v_is_fifo BOOLEAN;
+  v_landed_cost_id UUID;
+  v_line_count INTEGER;
+  v_total_basis NUMERIC;
+  v_line RECORD;
+  v_share NUMERIC;
+  v_per_unit NUMERIC;
+  v_balance_id UUID;
+  v_qty_on_hand NUMERIC;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_po FROM purchase_orders WHERE id = p_po_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+  IF COALESCE(p_amount, 0) <= 0 THEN
+    RAISE EXCEPTION 'Landed cost amount must be positive';
+  END IF;
+  IF p_allocation_method NOT IN ('value', 'quantity', 'weight') THEN
+    RAISE EXCEPTION 'Unknown allocation method %', p_allocation_method;
+  END IF;
+  IF p_receipt_id IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM po_receipts WHERE id = p_receipt_id AND po_id = p_po_id AND voided_at IS NULL
+    ) THEN
+    RAISE EXCEPTION 'Receipt not found';
+  END IF;
+
+  SELECT COUNT(*), SUM(
+    CASE p_allocation_method
+      WHEN 'value' THEN rl.qty * rl.unit_cost
+      WHEN 'quantity' THEN rl.qty
+      ELSE rl.qty * COALESCE(p.weight, 0)
+    END
+  )
+  INTO v_line_count, v_total_basis
+  FROM po_receipt_lines rl
+  JOIN po_receipts r ON r.id = rl.receipt_id
+  JOIN products p ON p.id = rl.product_id
+  WHERE r.po_id = p_po_id
+    AND r.voided_at IS NULL
+    AND (p_receipt_id IS NULL OR r.id = p_receipt_id);
+
+  IF v_line_count = 0 THEN
+    RAISE EXCEPTION 'Nothing has been received on this purchase order';
+  END IF;
+  IF COALESCE(v_total_basis, 0) <= 0 THEN
+    RAISE EXCEPTION 'Received lines have no % to allocate by', p_allocation_method;
+  END IF;
+
+  INSERT INTO landed_costs (
+    tenant_id, po_id, receipt_id, charge_type, description, amount, allocation_method, created_by
+  ) VALUES (
+    v_po.tenant_id, p_po_id, p_receipt_id, p_charge_type, NULLIF(TRIM(p_description), ''),
+    p_amount, p_allocation_method, auth.uid()
+  )
+  RETURNING id INTO v_landed_cost_id;
+
+  v_is_fifo := get_costing_method(v_po.tenant_id) = 'fifo';
+
+  FOR v_line IN
+    SELECT * FROM (
+      SELECT
+        rl.*,
+        CASE p_allocation_method
+          WHEN 'value' THEN rl.qty * rl.unit_cost
+          WHEN 'quantity' THEN rl.qty
+          ELSE rl.qty * COALESCE(p.weight, 0)
+        END AS basis
+      FROM po_receipt_lines rl
+      JOIN po_receipts r ON r.id = rl.receipt_id
+      JOIN products p ON p.id = rl.product_id
+      WHERE r.po_id = p_po_id
+        AND r.voided_at IS NULL
+        AND (p_receipt_id IS NULL OR r.id = p_receipt_id)
+    ) lines
+    WHERE basis > 0
+    ORDER BY product_id, lot_number NULLS FIRST, expiry_date NULLS FIRST, id
+  LOOP
+    v_share := p_amount * v_line.basis / v_total_basis;
+    v_per_unit := v_share / v_line.qty;
+
+    INSERT INTO landed_cost_allocations (
+      tenant_id, landed_cost_id, receipt_line_id, amount, unit_cost_increase
+    ) VALUES (
+      v_po.tenant_id, v_landed_cost_id, v_line.id, v_share, v_per_unit
+    );
+
+    UPDATE po_receipt_lines SET landed_cost = landed_cost + v_share WHERE id = v_line.id;
+
+    -- extended_cost is a generated column
+    UPDATE stock_movements
+    SET unit_cost = COALESCE(unit_cost, 0) + v_per_unit
+    WHERE id = v_line.movement_id;
+
+    UPDATE cost_layers
+    SET unit_cost = unit_cost + v_per_unit
+    WHERE id = v_line.cost_layer_id;
+
+    SELECT id, qty_on_hand INTO v_balance_id, v_qty_on_hand
+    FROM inventory_balances
+    WHERE tenant_id = v_po.tenant_id
+      AND product_id = v_line.product_id
+      AND location_id = v_po.location_id
+      AND COALESCE(lot_number, '') = COALESCE(v_line.lot_number, '')
+      AND COALESCE(expiry_date, '1900-01-01'::date) = COALESCE(v_line.expiry_date, '1900-01-01'::date)
+    LIMIT 1
+    FOR UPDATE;
+
+    IF v_balance_id IS NOT NULL AND v_qty_on_hand > 0 THEN
+      UPDATE inventory_balances
+      SET avg_cost = CASE
+            WHEN v_is_fifo THEN COALESCE(
+              get_cost_layer_avg(tenant_id, product_id, location_id, lot_number, expiry_date),
+              avg_cost
+            )
+            ELSE (qty_on_hand * avg_cost + LEAST(qty_on_hand, v_line.qty) * v_per_unit) / qty_on_hand
+          END,
+          updated_at = NOW()
+      WHERE id = v_balance_id;
+    END IF;
+
+    v_items := v_items || jsonb_build_object(
+      'product_id', v_line.product_id,
+      'qty', v_line.qty,
+      'amount', v_share
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object('landed_cost_id', v_landed_cost_id, 'items', v_items);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION apply_landed_cost(UUID, UUID, TEXT, TEXT, NUMERIC, TEXT) TO authenticated;
@@ -0,0 +1,436 @@
+-- =============================================================================
+-- Partial shipments and backorders
+-- =============================================================================
+-- Shipment lines track qty_shipped. Shipping posts whatever is available now
+-- (or the quantities the user picked) and leaves the shipment 'partial' while
+-- anything is still outstanding. The remainder can optionally be split off
+-- into a new draft backorder shipment, which closes the original.
+--
+-- Confirming a shipment no longer fails on a shortfall: it reserves what is
+-- available and the rest waits for stock or a backorder.
+-- =============================================================================
+
+
+-- -----------------------------------------------------------------------------
+-- 1. qty_shipped per line and backorder link
+-- -----------------------------------------------------------------------------
+ALTER TABLE shipment_lines ADD COLUMN IF NOT EXISTS qty_shipped NUMERIC(12,4) NOT NULL DEFAULT 0;
+
+-- Shipments posted before this migration always shipped in full
+UPDATE shipment_lines sl
+SET qty_shipped = sl.qty
+FROM shipments s
+WHERE s.id = sl.shipment_id
+  AND s.status = 'completed'
+  AND sl.qty_shipped = 0;
+
+ALTER TABLE shipments ADD COLUMN IF NOT EXISTS backorder_of UUID REFERENCES shipments(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_shipments_backorder_of ON shipments(backorder_of)
+  WHERE backorder_of IS NOT NULL;
+
+
+-- -----------------------------------------------------------------------------
+-- 2. shipment_backorders view - outstanding quantities per line
+-- -----------------------------------------------------------------------------
+-- Outstanding = the unshipped remainder of partial shipments plus every open
+-- backorder shipment. Confirmed shipments that have not shipped yet are not
+-- backorders.
+DROP VIEW IF EXISTS shipment_backorders;
+
+CREATE VIEW shipment_backorders
+WITH (security_invoker = true)
+AS
+SELECT
+    sl.id as line_id,
+    s.tenant_id,
+    s.id as shipment_id,
+    s.shipment_number,
+    s.status,
+    s.backorder_of,
+    s.location_id,
+    s.customer_id,
+    COALESCE(c.name, s.customer_name) as customer_name,
+    sl.product_id,
+    sl.lot_number,
+    sl.expiry_date,
+    sl.qty as qty_ordered,
+    sl.qty_shipped,
+    sl.qty - sl.qty_shipped as qty_outstanding,
+    s.created_at
+FROM shipment_lines sl
+JOIN shipments s ON s.id = sl.shipment_id
+LEFT JOIN customers c ON c.id = s.customer_id
+WHERE sl.qty > sl.qty_shipped
+  AND (
+    s.status = 'partial'
+    OR (s.backorder_of IS NOT NULL AND s.status IN ('draft', 'confirmed'))
+  );
+
+GRANT SELECT ON shipment_backorders TO authenticated;
+
+COMMENT ON VIEW shipment_backorders IS 'Outstanding shipment quantities on partial shipments and open backorders. Uses security_invoker to enforce RLS.';
+
+
+-- -----------------------------------------------------------------------------
+-- 3. confirm_shipment() - reserve what is available instead of failing
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION confirm_shipment(p_shipment_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_shipment shipments%ROWTYPE;
+  v_line RECORD;
+  v_expiry_hours INTEGER;
+  v_on_hand NUMERIC;
+  v_reserved NUMERIC;
+  v_reserve_qty NUMERIC;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_shipment FROM shipments WHERE id = p_shipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment not found';
+  END IF;
+  IF v_shipment.status <> 'draft' THEN
+    RAISE EXCEPTION 'Can only confirm draft shipments';
+  END IF;
+
+  PERFORM release_expired_reservations();
+
+  SELECT (settings ->> 'reservation_expiry_hours')::INTEGER
+  INTO v_expiry_hours
+  FROM tenants
+  WHERE id = v_shipment.tenant_id;
+
+  FOR v_line IN
+    SELECT sl.*, p.sku
+    FROM shipment_lines sl
+    JOIN products p ON p.id = sl.product_id
+    WHERE sl.shipment_id = p_shipment_id
+    ORDER BY sl.product_id, sl.lot_number NULLS FIRST, sl.expiry_date NULLS FIRST, sl.id
+  LOOP
+    v_on_hand := lock_balance_qty(
+      v_shipment.tenant_id, v_line.product_id, v_shipment.location_id,
+      v_line.lot_number, v_line.expiry_date
+    );
+    v_reserved := get_reserved_qty(
+      v_shipment.tenant_id, v_line.product_id, v_shipment.location_id,
+      v_line.lot_number, v_line.expiry_date
+    );
+
+    v_reserve_qty := LEAST(v_line.qty - v_line.qty_shipped, GREATEST(v_on_hand - v_reserved, 0));
+
+    IF v_reserve_qty > 0 THEN
+      INSERT INTO reservations (
+        tenant_id, shipment_id, product_id, location_id, qty,
+        lot_number, expiry_date, status, expires_at
+      ) VALUES (
+        v_shipment.tenant_id, p_shipment_id, v_line.product_id, v_shipment.location_id, v_reserve_qty,
+        NULLIF(TRIM(v_line.lot_number), ''), v_line.expiry_date, 'active',
+        CASE WHEN COALESCE(v_expiry_hours, 0) > 0 THEN NOW() + make_interval(hours => v_expiry_hours) END
+      );
+    END IF;
+
+    v_items := v_items || jsonb_build_object(
+      'product_id', v_line.product_id,
+      'qty', v_line.qty,
+      'reserved', v_reserve_qty
+    );
+  END LOOP;
+
+  UPDATE shipments
+  SET status = 'confirmed', updated_at = NOW()
+  WHERE id = p_shipment_id;
+
+  RETURN v_items;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION confirm_shipment(UUID) TO authenticated;
+
+
+-- -----------------------------------------------------------------------------
+-- 4. ship_shipment() - ship available or chosen quantities
+-- -----------------------------------------------------------------------------
+-- p_lines is an optional array of {"line_id", "qty_to_ship"}. When omitted,
+-- every line ships as much of its remainder as is available. With
+-- p_create_backorder the remainder moves to a new draft shipment and this one
+-- is completed; otherwise it stays 'partial' and keeps what it can reserved.
+DROP FUNCTION IF EXISTS ship_shipment(UUID, DATE);
+
+CREATE OR REPLACE FUNCTION ship_shipment(
+  p_shipment_id UUID,
+  p_ship_date DATE DEFAULT NULL,
+  p_lines JSONB DEFAULT NULL,
+  p_create_backorder BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_shipment shipments%ROWTYPE;
+  v_line RECORD;
+  v_on_hand NUMERIC;
+  v_reserved NUMERIC;
+  v_available NUMERIC;
+  v_remaining NUMERIC;
+  v_to_ship NUMERIC;
+  v_unit_cost NUMERIC;
+  v_outstanding NUMERIC;
+  v_expiry_hours INTEGER;
+  v_backorder_id UUID;
+  v_status document_status;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_shipment FROM shipments WHERE id = p_shipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment not found';
+  END IF;
+  IF v_shipment.status NOT IN ('confirmed', 'partial') THEN
+    RAISE EXCEPTION 'Can only ship confirmed or partially shipped shipments';
+  END IF;
+
+  -- Consistent line order keeps balance locks deadlock-free between postings
+  FOR v_line IN
+    SELECT sl.*, p.sku
+    FROM shipment_lines sl
+    JOIN products p ON p.id = sl.product_id
+    WHERE sl.shipment_id = p_shipment_id
+    ORDER BY sl.product_id, sl.lot_number NULLS FIRST, sl.expiry_date NULLS FIRST, sl.id
+    FOR UPDATE OF sl
+  LOOP
+    v_remaining := v_line.qty - v_line.qty_shipped;
+    CONTINUE WHEN v_remaining <= 0;
+
+    v_on_hand := lock_balance_qty(
+      v_shipment.tenant_id, v_line.product_id, v_shipment.location_id,
+      v_line.lot_number, v_line.expiry_date
+    );
+    v_reserved := get_reserved_qty(
+      v_shipment.tenant_id, v_line.product_id, v_shipment.location_id,
+      v_line.lot_number, v_line.expiry_date, p_shipment_id
+    );
+    v_available := GREATEST(v_on_hand - v_reserved, 0);
+
+    IF p_lines IS NULL THEN
+      v_to_ship := LEAST(v_remaining, v_available);
+    ELSE
+      SELECT COALESCE(SUM(x.qty_to_ship), 0) INTO v_to_ship
+      FROM jsonb_to_recordset(p_lines) AS x(line_id UUID, qty_to_ship NUMERIC)
+      WHERE x.line_id = v_line.id;
+
+      IF v_to_ship < 0 THEN
+        RAISE EXCEPTION 'Quantity to ship for % cannot be negative', v_line.sku;
+      END IF;
+      IF v_to_ship > v_remaining THEN
+        RAISE EXCEPTION 'Cannot ship more than ordered for %: remaining %, requested %',
+          v_line.sku, v_remaining, v_to_ship;
+      END IF;
+      IF v_to_ship > v_available THEN
+        RAISE EXCEPTION 'Insufficient available stock for %: on hand %, reserved %, need %',
+          v_line.sku, v_on_hand, v_reserved, v_to_ship;
+      END IF;
+    END IF;
+
+    CONTINUE WHEN v_to_ship <= 0;
+
+    v_unit_cost := apply_stock_movement(
+      v_shipment.tenant_id, v_line.product_id, v_shipment.location_id, -v_to_ship,
+      'ship', 'shipment', p_shipment_id, v_line.lot_number, v_line.expiry_date
+    );
+
+    -- Later partial shipments may leave at a different cost, so the line
+    -- keeps the quantity-weighted average of everything it shipped
+    UPDATE shipment_lines
+    SET unit_cost = (COALESCE(unit_cost, 0) * qty_shipped + v_unit_cost * v_to_ship) / (qty_shipped + v_to_ship),
+        qty_shipped = qty_shipped + v_to_ship
+    WHERE id = v_line.id;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_to_ship);
+  END LOOP;
+
+  IF jsonb_array_length(v_items) = 0 THEN
+    RAISE EXCEPTION 'No stock available to ship';
+  END IF;
+
+  -- Reservations are rebuilt for whatever is still outstanding
+  UPDATE reservations
+  SET status = 'consumed'
+  WHERE shipment_id = p_shipment_id AND status = 'active';
+
+  SELECT COALESCE(SUM(qty - qty_shipped), 0) INTO v_outstanding
+  FROM shipment_lines
+  WHERE shipment_id = p_shipment_id;
+
+  IF v_outstanding > 0 AND p_create_backorder THEN
+    INSERT INTO shipments (
+      tenant_id, shipment_number, location_id, customer_id, customer_name,
+      status, notes, created_by, backorder_of
+    ) VALUES (
+      v_shipment.tenant_id, next_doc_number(v_shipment.tenant_id, 'shipment'),
+      v_shipment.location_id, v_shipment.customer_id, v_shipment.customer_name,
+      'draft', v_shipment.notes, auth.uid(), p_shipment_id
+    )
+    RETURNING id INTO v_backorder_id;
+
+    INSERT INTO shipment_lines (shipment_id, product_id, qty, lot_number, expiry_date)
+    SELECT v_backorder_id, product_id, qty - qty_shipped, lot_number, expiry_date
+    FROM shipment_lines
+    WHERE shipment_id = p_shipment_id AND qty > qty_shipped;
+
+    v_status := 'completed';
+  ELSIF v_outstanding > 0 THEN
+    SELECT (settings ->> 'reservation_expiry_hours')::INTEGER
+    INTO v_expiry_hours
+    FROM tenants
+    WHERE id = v_shipment.tenant_id;
+
+    INSERT INTO reservations (
+      tenant_id, shipment_id, product_id, location_id, qty,
+      lot_number, expiry_date, status, expires_at
+    )
+    SELECT
+      v_shipment.tenant_id, p_shipment_id, x.product_id, v_shipment.location_id, x.reserve_qty,
+      NULLIF(TRIM(x.lot_number), ''), x.expiry_date, 'active',
+      CASE WHEN COALESCE(v_expiry_hours, 0) > 0 THEN NOW() + make_interval(hours => v_expiry_hours) END
+    FROM (
+      SELECT
+        sl.product_id, sl.lot_number, sl.expiry_date,
+        LEAST(
+          sl.qty - sl.qty_shipped,
+          GREATEST(
+            COALESCE(b.qty_on_hand, 0) - get_reserved_qty(
+              v_shipment.tenant_id, sl.product_id, v_shipment.location_id,
+              sl.lot_number, sl.expiry_date
+            ),
+            0
+          )
+        ) as reserve_qty
+      FROM shipment_lines sl
+      LEFT JOIN inventory_balances b
+        ON b.tenant_id = v_shipment.tenant_id
+        AND b.product_id = sl.product_id
+        AND b.location_id = v_shipment.location_id
+        AND COALESCE(b.lot_number, '') = COALESCE(NULLIF(TRIM(sl.lot_number), ''), '')
+        AND COALESCE(b.expiry_date, '1900-01-01'::date) = COALESCE(sl.expiry_date, '1900-01-01'::date)
+      WHERE sl.shipment_id = p_shipment_id AND sl.qty > sl.qty_shipped
+    ) x
+    WHERE x.reserve_qty > 0;
+
+    v_status := 'partial';
+  ELSE
+    v_status := 'completed';
+  END IF;
+
+  UPDATE shipments
+  SET status = v_status,
+      ship_date = COALESCE(p_ship_date, ship_date, CURRENT_DATE),
+      updated_at = NOW()
+  WHERE id = p_shipment_id;
+
+  RETURN jsonb_build_object(
+    'status', v_status,
+    'backorder_id', v_backorder_id,
+    'items', v_items
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION ship_shipment(UUID, DATE, JSONB, BOOLEAN) TO authenticated;
+
+
+-- -----------------------------------------------------------------------------
+-- 5. create_shipment_backorder() - split the remainder of a partial shipment
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION create_shipment_backorder(p_shipment_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_shipment shipments%ROWTYPE;
+  v_backorder_id UUID;
+BEGIN
+  SELECT * INTO v_shipment FROM shipments WHERE id = p_shipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment not found';
+  END IF;
+  IF v_shipment.status <> 'partial' THEN
+    RAISE EXCEPTION 'Can only create backorders for partially shipped shipments';
+  END IF;
+
+  INSERT INTO shipments (
+    tenant_id, shipment_number, location_id, customer_id, customer_name,
+    status, notes, created_by, backorder_of
+  ) VALUES (
+    v_shipment.tenant_id, next_doc_number(v_shipment.tenant_id, 'shipment'),
+    v_shipment.location_id, v_shipment.customer_id, v_shipment.customer_name,
+    'draft', v_shipment.notes, auth.uid(), p_shipment_id
+  )
+  RETURNING id INTO v_backorder_id;
+
+  INSERT INTO shipment_lines (shipment_id, product_id, qty, lot_number, expiry_date)
+  SELECT v_backorder_id, product_id, qty - qty_shipped, lot_number, expiry_date
+  FROM shipment_lines
+  WHERE shipment_id = p_shipment_id AND qty > qty_shipped;
+
+  UPDATE reservations
+  SET status = 'released'
+  WHERE shipment_id = p_shipment_id AND status = 'active';
+
+  UPDATE shipments
+  SET status = 'completed', updated_at = NOW()
+  WHERE id = p_shipment_id;
+
+  RETURN v_backorder_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_shipment_backorder(UUID) TO authenticated;
+
+
+-- -----------------------------------------------------------------------------
+-- 6. void_shipment() - partial shipments can be voided too
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION void_shipment(p_shipment_id UUID, p_reason TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_shipment shipments%ROWTYPE;
+  v_items JSONB;
+BEGIN
+  SELECT * INTO v_shipment FROM shipments WHERE id = p_shipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment not found';
+  END IF;
+  IF v_shipment.status NOT IN ('completed', 'partial') THEN
+    RAISE EXCEPTION 'Can only void completed or partially shipped shipments';
+  END IF;
+  IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A void reason is required';
+  END IF;
+
+  v_items := reverse_document_movements('shipment', p_shipment_id);
+
+  UPDATE reservations
+  SET status = 'released'
+  WHERE shipment_id = p_shipment_id AND status = 'active';
+
+  UPDATE shipments
+  SET status = 'voided',
+      voided_at = NOW(),
+      voided_by = auth.uid(),
+      void_reason = TRIM(p_reason),
+      updated_at = NOW()
+  WHERE id = p_shipment_id;
+
+  RETURN v_items;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION void_shipment(UUID, TEXT) TO authenticated;
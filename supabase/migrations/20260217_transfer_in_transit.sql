@@ -0,0 +1,214 @@
+-- =============================================================================
+-- In-transit stock and transfer discrepancies
+-- =============================================================================
+-- A sent (confirmed) transfer has left its source but not reached its
+-- destination. in_transit_stock exposes those lines, valued at the cost they
+-- left with, so goods on the road are no longer invisible.
+--
+-- Receiving now records the quantity that actually arrived per line. When it
+-- differs from what was sent, a transfer_discrepancies row is written:
+--   - loss:             the shortfall is written off (it already left the
+--                       source and never reached the destination)
+--   - return_to_source: the shortfall is booked back into the source location
+--   - over_receipt:     the extra arrived and is added at the destination
+-- =============================================================================
+
+
+-- -----------------------------------------------------------------------------
+-- 1. qty_received per line
+-- -----------------------------------------------------------------------------
+ALTER TABLE transfer_lines ADD COLUMN IF NOT EXISTS qty_received NUMERIC(12,4);
+
+-- Transfers received before this migration always arrived in full
+UPDATE transfer_lines tl
+SET qty_received = tl.qty
+FROM transfers t
+WHERE t.id = tl.transfer_id
+  AND t.status = 'completed'
+  AND tl.qty_received IS NULL;
+
+
+-- -----------------------------------------------------------------------------
+-- 2. Discrepancy records
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS transfer_discrepancies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  transfer_id UUID NOT NULL REFERENCES transfers(id) ON DELETE CASCADE,
+  transfer_line_id UUID NOT NULL REFERENCES transfer_lines(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id),
+  lot_number TEXT,
+  expiry_date DATE,
+  qty_sent NUMERIC(12,4) NOT NULL,
+  qty_received NUMERIC(12,4) NOT NULL,
+  -- received - sent: negative for shortfalls, positive for over-receipts
+  qty_difference NUMERIC(12,4) NOT NULL,
+  unit_cost NUMERIC(12,4) NOT NULL DEFAULT 0,
+  resolution TEXT NOT NULL CHECK (resolution IN ('loss', 'return_to_source', 'over_receipt')),
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transfer_discrepancies_transfer ON transfer_discrepancies(transfer_id);
+
+ALTER TABLE transfer_discrepancies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS tenant_isolation ON transfer_discrepancies;
+CREATE POLICY tenant_isolation ON transfer_discrepancies
+  FOR ALL USING (tenant_id = get_user_tenant_id());
+
+
+-- -----------------------------------------------------------------------------
+-- 3. in_transit_stock view - lines of sent, not yet received transfers
+-- -----------------------------------------------------------------------------
+DROP VIEW IF EXISTS in_transit_stock;
+
+CREATE VIEW in_transit_stock
+WITH (security_invoker = true)
+AS
+SELECT
+    tl.id as line_id,
+    t.tenant_id,
+    t.id as transfer_id,
+    t.transfer_number,
+    t.from_location_id,
+    t.to_location_id,
+    t.sent_at,
+    tl.product_id,
+    tl.lot_number,
+    tl.expiry_date,
+    tl.qty,
+    COALESCE(tl.unit_cost, 0) as unit_cost,
+    tl.qty * COALESCE(tl.unit_cost, 0) as inventory_value
+FROM transfer_lines tl
+JOIN transfers t ON t.id = tl.transfer_id
+WHERE t.status = 'confirmed';
+
+GRANT SELECT ON in_transit_stock TO authenticated;
+
+COMMENT ON VIEW in_transit_stock IS 'Stock on sent transfers that has not been received yet, valued at transfer cost. Uses security_invoker to enforce RLS.';
+
+
+-- -----------------------------------------------------------------------------
+-- 4. receive_transfer() - per-line received quantities and discrepancies
+-- -----------------------------------------------------------------------------
+-- p_lines: [{ "line_id": uuid, "qty_received": number,
+--             "resolution": "loss" | "return_to_source" }]
+-- Lines not listed (or p_lines NULL) are received in full. resolution only
+-- applies to shortfalls and defaults to "loss".
+DROP FUNCTION IF EXISTS receive_transfer(UUID, DATE);
+
+CREATE OR REPLACE FUNCTION receive_transfer(
+  p_transfer_id UUID,
+  p_received_date DATE DEFAULT NULL,
+  p_lines JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transfer transfers%ROWTYPE;
+  v_line RECORD;
+  v_input RECORD;
+  v_qty_received NUMERIC;
+  v_resolution TEXT;
+  v_difference NUMERIC;
+  v_items JSONB := '[]'::jsonb;
+  v_discrepancies JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_transfer FROM transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+  IF v_transfer.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Can only receive sent transfers';
+  END IF;
+
+  FOR v_line IN
+    SELECT tl.*, p.sku
+    FROM transfer_lines tl
+    JOIN products p ON p.id = tl.product_id
+    WHERE tl.transfer_id = p_transfer_id
+    ORDER BY tl.product_id, tl.lot_number NULLS FIRST, tl.expiry_date NULLS FIRST, tl.id
+  LOOP
+    v_qty_received := v_line.qty;
+    v_resolution := 'loss';
+
+    IF p_lines IS NOT NULL THEN
+      SELECT * INTO v_input
+      FROM jsonb_to_recordset(p_lines) AS x(line_id UUID, qty_received NUMERIC, resolution TEXT)
+      WHERE x.line_id = v_line.id
+      LIMIT 1;
+
+      IF FOUND THEN
+        v_qty_received := COALESCE(v_input.qty_received, v_line.qty);
+        v_resolution := COALESCE(NULLIF(v_input.resolution, ''), 'loss');
+      END IF;
+    END IF;
+
+    IF v_qty_received < 0 THEN
+      RAISE EXCEPTION 'Received quantity for % cannot be negative', v_line.sku;
+    END IF;
+    IF v_resolution NOT IN ('loss', 'return_to_source') THEN
+      RAISE EXCEPTION 'Invalid discrepancy resolution: %', v_resolution;
+    END IF;
+
+    IF v_qty_received > 0 THEN
+      PERFORM apply_stock_movement(
+        v_transfer.tenant_id, v_line.product_id, v_transfer.to_location_id, v_qty_received,
+        'transfer_in', 'transfer', p_transfer_id, v_line.lot_number, v_line.expiry_date,
+        COALESCE(v_line.unit_cost, 0)
+      );
+    END IF;
+
+    UPDATE transfer_lines SET qty_received = v_qty_received WHERE id = v_line.id;
+
+    v_difference := v_qty_received - v_line.qty;
+
+    IF v_difference <> 0 THEN
+      IF v_difference > 0 THEN
+        v_resolution := 'over_receipt';
+      ELSIF v_resolution = 'return_to_source' THEN
+        -- The shortfall never left: book it back in at the cost it went out with
+        PERFORM apply_stock_movement(
+          v_transfer.tenant_id, v_line.product_id, v_transfer.from_location_id, -v_difference,
+          'transfer_in', 'transfer', p_transfer_id, v_line.lot_number, v_line.expiry_date,
+          COALESCE(v_line.unit_cost, 0)
+        );
+      END IF;
+
+      INSERT INTO transfer_discrepancies (
+        tenant_id, transfer_id, transfer_line_id, product_id, lot_number, expiry_date,
+        qty_sent, qty_received, qty_difference, unit_cost, resolution, created_by
+      ) VALUES (
+        v_transfer.tenant_id, p_transfer_id, v_line.id, v_line.product_id,
+        v_line.lot_number, v_line.expiry_date,
+        v_line.qty, v_qty_received, v_difference, COALESCE(v_line.unit_cost, 0),
+        v_resolution, auth.uid()
+      );
+
+      v_discrepancies := v_discrepancies || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'qty_difference', v_difference,
+        'resolution', v_resolution
+      );
+    END IF;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_qty_received);
+  END LOOP;
+
+  UPDATE transfers
+  SET status = 'completed',
+      received_at = COALESCE(p_received_date, CURRENT_DATE),
+      updated_at = NOW()
+  WHERE id = p_transfer_id;
+
+  RETURN jsonb_build_object(
+    'items', v_items,
+    'discrepancies', v_discrepancies
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION receive_transfer(UUID, DATE, JSONB) TO authenticated;
@@ -0,0 +1,170 @@
+-- =============================================================================
+-- Pack units on document lines
+-- =============================================================================
+-- Lines can be entered in the product's pack unit (pack_uom_name, worth
+-- pack_qty_in_base base units) instead of the base unit. The line quantity
+-- columns keep holding base units, so stock posting is unchanged; the quantity
+-- and unit the user actually typed are kept alongside for display.
+--
+-- entered_qty / entered_uom are NULL when the line was entered in base units.
+-- =============================================================================
+
+
+-- -----------------------------------------------------------------------------
+-- 1. Entered quantity and unit per line
+-- -----------------------------------------------------------------------------
+ALTER TABLE purchase_order_lines ADD COLUMN IF NOT EXISTS entered_qty NUMERIC(12,4);
+ALTER TABLE purchase_order_lines ADD COLUMN IF NOT EXISTS entered_uom TEXT;
+
+ALTER TABLE po_receipt_lines ADD COLUMN IF NOT EXISTS entered_qty NUMERIC(12,4);
+ALTER TABLE po_receipt_lines ADD COLUMN IF NOT EXISTS entered_uom TEXT;
+
+ALTER TABLE shipment_lines ADD COLUMN IF NOT EXISTS entered_qty NUMERIC(12,4);
+ALTER TABLE shipment_lines ADD COLUMN IF NOT EXISTS entered_uom TEXT;
+
+ALTER TABLE transfer_lines ADD COLUMN IF NOT EXISTS entered_qty NUMERIC(12,4);
+ALTER TABLE transfer_lines ADD COLUMN IF NOT EXISTS entered_uom TEXT;
+
+
+-- -----------------------------------------------------------------------------
+-- 2. receive_purchase_order() - keep the entered unit on receipt lines
+-- -----------------------------------------------------------------------------
+-- p_lines items accept optional "entered_qty" / "entered_uom". qty_to_receive
+-- is always in base units; conversion happens in the application, which knows
+-- the product's pack size at entry time.
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+  p_po_id UUID,
+  p_lines JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_po purchase_orders%ROWTYPE;
+  v_input RECORD;
+  v_line purchase_order_lines%ROWTYPE;
+  v_lot_number TEXT;
+  v_receipt_id UUID;
+  v_movement_id UUID;
+  v_layer_id UUID;
+  v_all_complete BOOLEAN;
+  v_any_received BOOLEAN;
+  v_status document_status;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_po FROM purchase_orders WHERE id = p_po_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+  IF v_po.status = 'draft' THEN
+    RAISE EXCEPTION 'PO must be confirmed before receiving';
+  END IF;
+  IF v_po.status = 'completed' THEN
+    RAISE EXCEPTION 'PO is already completed';
+  END IF;
+  IF v_po.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cannot receive cancelled PO';
+  END IF;
+
+  FOR v_input IN
+    SELECT *
+    FROM jsonb_to_recordset(p_lines) AS x(
+      line_id UUID,
+      qty_to_receive NUMERIC,
+      lot_number TEXT,
+      expiry_date DATE,
+      entered_qty NUMERIC,
+      entered_uom TEXT
+    )
+    ORDER BY line_id
+  LOOP
+    CONTINUE WHEN COALESCE(v_input.qty_to_receive, 0) <= 0;
+
+    SELECT * INTO v_line
+    FROM purchase_order_lines
+    WHERE id = v_input.line_id AND po_id = p_po_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order line % not found', v_input.line_id;
+    END IF;
+
+    IF COALESCE(v_line.qty_received, 0) + v_input.qty_to_receive > v_line.qty_ordered THEN
+      RAISE EXCEPTION 'Cannot receive more than ordered for line %', v_input.line_id;
+    END IF;
+
+    IF v_receipt_id IS NULL THEN
+      INSERT INTO po_receipts (tenant_id, po_id, created_by)
+      VALUES (v_po.tenant_id, p_po_id, auth.uid())
+      RETURNING id INTO v_receipt_id;
+    END IF;
+
+    UPDATE purchase_order_lines
+    SET qty_received = COALESCE(qty_received, 0) + v_input.qty_to_receive
+    WHERE id = v_line.id;
+
+    PERFORM apply_stock_movement(
+      v_po.tenant_id, v_line.product_id, v_po.location_id, v_input.qty_to_receive,
+      'receive', 'po', p_po_id, v_input.lot_number, v_input.expiry_date,
+      COALESCE(v_line.unit_cost, 0)
+    );
+
+    v_lot_number := NULLIF(TRIM(v_input.lot_number), '');
+
+    SELECT sm.id INTO v_movement_id
+    FROM stock_movements sm
+    WHERE sm.reference_type = 'po'
+      AND sm.reference_id = p_po_id
+      AND sm.movement_type = 'receive'
+      AND sm.product_id = v_line.product_id
+      AND NOT EXISTS (SELECT 1 FROM po_receipt_lines rl WHERE rl.movement_id = sm.id)
+    ORDER BY sm.created_at DESC
+    LIMIT 1;
+
+    SELECT cl.id INTO v_layer_id
+    FROM cost_layers cl
+    WHERE cl.reference_type = 'po'
+      AND cl.reference_id = p_po_id
+      AND cl.product_id = v_line.product_id
+    ORDER BY cl.received_at DESC
+    LIMIT 1;
+
+    INSERT INTO po_receipt_lines (
+      tenant_id, receipt_id, po_line_id, product_id, qty, entered_qty, entered_uom,
+      lot_number, expiry_date, unit_cost, movement_id, cost_layer_id
+    ) VALUES (
+      v_po.tenant_id, v_receipt_id, v_line.id, v_line.product_id, v_input.qty_to_receive,
+      v_input.entered_qty, NULLIF(TRIM(v_input.entered_uom), ''),
+      v_lot_number, v_input.expiry_date, COALESCE(v_line.unit_cost, 0), v_movement_id, v_layer_id
+    );
+
+    UPDATE products
+    SET current_cost = COALESCE(v_line.unit_cost, 0), updated_at = NOW()
+    WHERE id = v_line.product_id;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_input.qty_to_receive);
+  END LOOP;
+
+  SELECT
+    BOOL_AND(COALESCE(qty_received, 0) >= qty_ordered),
+    BOOL_OR(COALESCE(qty_received, 0) > 0)
+  INTO v_all_complete, v_any_received
+  FROM purchase_order_lines
+  WHERE po_id = p_po_id;
+
+  v_status := CASE
+    WHEN v_all_complete THEN 'completed'
+    WHEN v_any_received THEN 'partial'
+    ELSE 'confirmed'
+  END;
+
+  UPDATE purchase_orders
+  SET status = v_status, updated_at = NOW()
+  WHERE id = p_po_id;
+
+  RETURN jsonb_build_object('status', v_status, 'receipt_id', v_receipt_id, 'items', v_items);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION receive_purchase_order(UUID, JSONB) TO authenticated;
@@ -0,0 +1,86 @@
+-- =============================================================================
+-- Product unit conversion table
+-- =============================================================================
+-- Replaces the single pack unit (pack_uom_name / pack_qty_in_base) with any
+-- number of named units per product, each worth a fixed number of base units.
+-- A product bought by the pallet, stocked by the case and sold by the each
+-- keeps EA as its base unit and gets "Case" and "Pallet" rows here.
+--
+-- Each unit can be the default for purchasing, sales or stock display; at most
+-- one unit per product holds each default. No default means the base unit.
+--
+-- Stock quantities stay in base units everywhere. Document lines keep the unit
+-- they were entered in by name (entered_qty / entered_uom), so renaming or
+-- deleting a unit never changes posted quantities.
+-- =============================================================================
+
+
+-- -----------------------------------------------------------------------------
+-- 1. product_units
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS product_units (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- Base units in one of this unit
+  factor NUMERIC(12,4) NOT NULL CHECK (factor > 0),
+  barcode TEXT,
+  is_purchase_default BOOLEAN NOT NULL DEFAULT FALSE,
+  is_sales_default BOOLEAN NOT NULL DEFAULT FALSE,
+  is_stock_default BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_units_product ON product_units(product_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_units_name ON product_units(product_id, LOWER(name));
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_units_barcode ON product_units(tenant_id, barcode)
+  WHERE barcode IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_units_purchase_default ON product_units(product_id)
+  WHERE is_purchase_default;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_units_sales_default ON product_units(product_id)
+  WHERE is_sales_default;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_units_stock_default ON product_units(product_id)
+  WHERE is_stock_default;
+
+ALTER TABLE product_units ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS tenant_isolation ON product_units;
+CREATE POLICY tenant_isolation ON product_units
+  FOR ALL USING (tenant_id = get_user_tenant_id());
+
+
+-- -----------------------------------------------------------------------------
+-- 2. Move existing pack units over
+-- -----------------------------------------------------------------------------
+-- The old pack unit was what purchase orders were typically raised in, so it
+-- becomes the purchase default.
+INSERT INTO product_units (tenant_id, product_id, name, factor, is_purchase_default)
+SELECT p.tenant_id, p.id, p.pack_uom_name, p.pack_qty_in_base, TRUE
+FROM products p
+WHERE p.pack_uom_name IS NOT NULL
+  AND p.pack_qty_in_base > 0
+  AND NOT EXISTS (SELECT 1 FROM product_units pu WHERE pu.product_id = p.id);
+
+
+-- -----------------------------------------------------------------------------
+-- 3. Drop the single pack unit
+-- -----------------------------------------------------------------------------
+ALTER TABLE products DROP CONSTRAINT IF EXISTS valid_pack;
+ALTER TABLE products DROP COLUMN IF EXISTS pack_uom_name;
+ALTER TABLE products DROP COLUMN IF EXISTS pack_qty_in_base;
+
+
+-- -----------------------------------------------------------------------------
+-- 4. Entered quantity and unit on the remaining document lines
+-- -----------------------------------------------------------------------------
+-- Same as the purchase, receipt, shipment and transfer lines: qty stays in
+-- base units. On cycle count lines the entered quantity is the counted one.
+ALTER TABLE adjustment_lines ADD COLUMN IF NOT EXISTS entered_qty NUMERIC(12,4);
+ALTER TABLE adjustment_lines ADD COLUMN IF NOT EXISTS entered_uom TEXT;
+
+ALTER TABLE return_lines ADD COLUMN IF NOT EXISTS entered_qty NUMERIC(12,4);
+ALTER TABLE return_lines ADD COLUMN IF NOT EXISTS entered_uom TEXT;
+
+ALTER TABLE cycle_count_lines ADD COLUMN IF NOT EXISTS entered_qty NUMERIC(12,4);
+ALTER TABLE cycle_count_lines ADD COLUMN IF NOT EXISTS entered_uom TEXT;
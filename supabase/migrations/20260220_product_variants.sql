@@ -0,0 +1,32 @@
+-- =============================================================================
+-- Product variants
+-- =============================================================================
+-- A parent product (e.g. "T-Shirt") declares its variant attributes and their
+-- values in variant_options:
+--   [{ "name": "Size", "values": ["S", "M", "L"] },
+--    { "name": "Colour", "values": ["Red", "Blue"] }]
+--
+-- Each combination is a normal child product with its own sku, pointing at the
+-- parent through parent_id and recording its combination in variant_values:
+--   { "Size": "M", "Colour": "Red" }
+--
+-- Stock, costing and documents stay on the child products. The parent never
+-- holds stock; reports roll children up to it when asked to.
+-- =============================================================================
+
+
+-- -----------------------------------------------------------------------------
+-- 1. Variant columns
+-- -----------------------------------------------------------------------------
+ALTER TABLE products ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES products(id);
+ALTER TABLE products ADD COLUMN IF NOT EXISTS variant_options JSONB;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS variant_values JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_products_parent ON products(parent_id)
+  WHERE parent_id IS NOT NULL;
+
+-- Only one level: a variant cannot itself have variants
+ALTER TABLE products DROP CONSTRAINT IF EXISTS valid_variant;
+ALTER TABLE products ADD CONSTRAINT valid_variant CHECK (
+  parent_id IS NULL OR (variant_options IS NULL AND parent_id <> id)
+);
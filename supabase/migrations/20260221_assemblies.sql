@@ -0,0 +1,308 @@
+-- =============================================================================
+-- Bills of materials and assembly documents
+-- =============================================================================
+-- A product can have a bill of materials (bom_lines): the components and the
+-- quantity of each that go into one unit of it. Kits and assembled items are
+-- both modelled this way.
+--
+-- An assembly document works at a single location:
+--   - assembly:    consumes the components and produces the finished item.
+--                  The item's unit cost is the cost of the components consumed
+--                  divided by the quantity produced.
+--   - disassembly: consumes the finished item and puts the components back.
+--                  The item's cost is shared across the components in
+--                  proportion to their current cost.
+--
+-- Consumption and production are recorded with their own movement types,
+-- assembly_consume and assembly_produce, referencing the assembly document.
+-- =============================================================================
+
+
+-- -----------------------------------------------------------------------------
+-- 1. Movement types
+-- -----------------------------------------------------------------------------
+ALTER TYPE movement_type ADD VALUE IF NOT EXISTS 'assembly_consume';
+ALTER TYPE movement_type ADD VALUE IF NOT EXISTS 'assembly_produce';
+
+
+-- -----------------------------------------------------------------------------
+-- 2. bom_lines
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS bom_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  component_id UUID NOT NULL REFERENCES products(id),
+  -- Base units of the component in one base unit of the product
+  qty NUMERIC(12,4) NOT NULL CHECK (qty > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(product_id, component_id),
+  CHECK (component_id <> product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bom_lines_product ON bom_lines(product_id);
+
+ALTER TABLE bom_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS tenant_isolation ON bom_lines;
+CREATE POLICY tenant_isolation ON bom_lines
+  FOR ALL USING (tenant_id = get_user_tenant_id());
+
+
+-- -----------------------------------------------------------------------------
+-- 3. assemblies and assembly_lines
+-- -----------------------------------------------------------------------------
+-- lot_number / expiry_date identify the finished item's stock; the lines hold
+-- the components, already split by lot for assemblies.
+CREATE TABLE IF NOT EXISTS assemblies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  assembly_number TEXT NOT NULL,
+  assembly_type TEXT NOT NULL DEFAULT 'assembly' CHECK (assembly_type IN ('assembly', 'disassembly')),
+  product_id UUID NOT NULL REFERENCES products(id),
+  location_id UUID NOT NULL REFERENCES locations(id),
+  qty NUMERIC(12,4) NOT NULL CHECK (qty > 0),
+  lot_number TEXT,
+  expiry_date DATE,
+  -- Cost per unit of the finished item, set when posted
+  unit_cost NUMERIC(12,4),
+  status document_status DEFAULT 'draft',
+  notes TEXT,
+  created_by UUID REFERENCES users(id),
+  voided_at TIMESTAMPTZ,
+  voided_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  void_reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(tenant_id, assembly_number)
+);
+
+CREATE TABLE IF NOT EXISTS assembly_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  assembly_id UUID NOT NULL REFERENCES assemblies(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id),
+  qty NUMERIC(12,4) NOT NULL CHECK (qty > 0),
+  lot_number TEXT,
+  expiry_date DATE,
+  unit_cost NUMERIC(12,4)
+);
+
+CREATE INDEX IF NOT EXISTS idx_assemblies_tenant ON assemblies(tenant_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_assembly_lines_assembly ON assembly_lines(assembly_id);
+
+ALTER TABLE assemblies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE assembly_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS tenant_isolation ON assemblies;
+CREATE POLICY tenant_isolation ON assemblies
+  FOR ALL USING (tenant_id = get_user_tenant_id());
+
+DROP POLICY IF EXISTS tenant_isolation ON assembly_lines;
+CREATE POLICY tenant_isolation ON assembly_lines FOR ALL USING (
+  assembly_id IN (SELECT id FROM assemblies WHERE tenant_id = get_user_tenant_id())
+);
+
+
+-- -----------------------------------------------------------------------------
+-- 4. next_doc_number() - ASM- prefix for assemblies
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION next_doc_number(
+  p_tenant_id UUID,
+  p_doc_type TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_format JSONB;
+  v_prefix TEXT;
+  v_include_year BOOLEAN;
+  v_padding INTEGER;
+  v_reset_yearly BOOLEAN;
+  v_year INTEGER := EXTRACT(YEAR FROM CURRENT_DATE);
+  v_num INTEGER;
+BEGIN
+  SELECT settings -> 'doc_number_formats' -> p_doc_type
+  INTO v_format
+  FROM tenants
+  WHERE id = p_tenant_id;
+
+  v_prefix := COALESCE(v_format ->> 'prefix', CASE p_doc_type
+    WHEN 'purchase_order' THEN 'PO-'
+    WHEN 'shipment' THEN 'SHP-'
+    WHEN 'transfer' THEN 'TRF-'
+    WHEN 'adjustment' THEN 'ADJ-'
+    WHEN 'cycle_count' THEN 'CNT-'
+    WHEN 'return' THEN 'RET-'
+    WHEN 'assembly' THEN 'ASM-'
+    ELSE UPPER(p_doc_type) || '-'
+  END);
+  v_include_year := COALESCE((v_format ->> 'include_year')::BOOLEAN, false);
+  v_padding := COALESCE((v_format ->> 'padding')::INTEGER, 6);
+  v_reset_yearly := COALESCE((v_format ->> 'reset_yearly')::BOOLEAN, false);
+
+  INSERT INTO doc_sequences (tenant_id, doc_type, year, last_number)
+  VALUES (p_tenant_id, p_doc_type, CASE WHEN v_reset_yearly THEN v_year ELSE 0 END, 1)
+  ON CONFLICT (tenant_id, doc_type, year)
+  DO UPDATE SET last_number = doc_sequences.last_number + 1
+  RETURNING last_number INTO v_num;
+
+  -- LPAD truncates longer strings, so only pad numbers shorter than the width
+  RETURN v_prefix
+    || CASE WHEN v_include_year THEN v_year || '-' ELSE '' END
+    || CASE WHEN LENGTH(v_num::TEXT) >= v_padding THEN v_num::TEXT ELSE LPAD(v_num::TEXT, v_padding, '0') END;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION next_doc_number(UUID, TEXT) TO authenticated;
+
+
+-- -----------------------------------------------------------------------------
+-- 5. post_assembly() - draft -> completed
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION post_assembly(p_assembly_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_assembly assemblies%ROWTYPE;
+  v_line RECORD;
+  v_unit_cost NUMERIC;
+  v_total_cost NUMERIC := 0;
+  v_total_weight NUMERIC := 0;
+  v_total_qty NUMERIC := 0;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_assembly FROM assemblies WHERE id = p_assembly_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Assembly not found';
+  END IF;
+  IF v_assembly.status <> 'draft' THEN
+    RAISE EXCEPTION 'Can only post draft assemblies';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM assembly_lines WHERE assembly_id = p_assembly_id) THEN
+    RAISE EXCEPTION 'Assembly has no components';
+  END IF;
+
+  IF v_assembly.assembly_type = 'assembly' THEN
+    -- Consume the components, adding up what they cost
+    FOR v_line IN
+      SELECT * FROM assembly_lines
+      WHERE assembly_id = p_assembly_id
+      ORDER BY product_id, lot_number NULLS FIRST, expiry_date NULLS FIRST, id
+    LOOP
+      v_unit_cost := apply_stock_movement(
+        v_assembly.tenant_id, v_line.product_id, v_assembly.location_id, -v_line.qty,
+        'assembly_consume', 'assembly', p_assembly_id, v_line.lot_number, v_line.expiry_date
+      );
+
+      UPDATE assembly_lines SET unit_cost = v_unit_cost WHERE id = v_line.id;
+
+      v_total_cost := v_total_cost + v_line.qty * v_unit_cost;
+      v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', -v_line.qty);
+    END LOOP;
+
+    v_unit_cost := v_total_cost / v_assembly.qty;
+
+    PERFORM apply_stock_movement(
+      v_assembly.tenant_id, v_assembly.product_id, v_assembly.location_id, v_assembly.qty,
+      'assembly_produce', 'assembly', p_assembly_id, v_assembly.lot_number, v_assembly.expiry_date,
+      v_unit_cost
+    );
+
+    v_items := v_items || jsonb_build_object('product_id', v_assembly.product_id, 'qty', v_assembly.qty);
+  ELSE
+    -- Consume the finished item, then share its cost across the components
+    v_unit_cost := apply_stock_movement(
+      v_assembly.tenant_id, v_assembly.product_id, v_assembly.location_id, -v_assembly.qty,
+      'assembly_consume', 'assembly', p_assembly_id, v_assembly.lot_number, v_assembly.expiry_date
+    );
+
+    v_total_cost := v_assembly.qty * v_unit_cost;
+    v_items := v_items || jsonb_build_object('product_id', v_assembly.product_id, 'qty', -v_assembly.qty);
+
+    SELECT COALESCE(SUM(al.qty * COALESCE(p.current_cost, 0)), 0), COALESCE(SUM(al.qty), 0)
+    INTO v_total_weight, v_total_qty
+    FROM assembly_lines al
+    JOIN products p ON p.id = al.product_id
+    WHERE al.assembly_id = p_assembly_id;
+
+    FOR v_line IN
+      SELECT al.*, COALESCE(p.current_cost, 0) AS current_cost
+      FROM assembly_lines al
+      JOIN products p ON p.id = al.product_id
+      WHERE al.assembly_id = p_assembly_id
+      ORDER BY al.product_id, al.lot_number NULLS FIRST, al.expiry_date NULLS FIRST, al.id
+    LOOP
+      -- Components without a current cost split the value by quantity instead
+      v_unit_cost := CASE
+        WHEN v_total_weight > 0 THEN v_total_cost * v_line.current_cost / v_total_weight
+        ELSE v_total_cost / v_total_qty
+      END;
+
+      PERFORM apply_stock_movement(
+        v_assembly.tenant_id, v_line.product_id, v_assembly.location_id, v_line.qty,
+        'assembly_produce', 'assembly', p_assembly_id, v_line.lot_number, v_line.expiry_date,
+        v_unit_cost
+      );
+
+      UPDATE assembly_lines SET unit_cost = v_unit_cost WHERE id = v_line.id;
+
+      v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_line.qty);
+    END LOOP;
+
+    v_unit_cost := v_total_cost / v_assembly.qty;
+  END IF;
+
+  UPDATE assemblies
+  SET status = 'completed',
+      unit_cost = v_unit_cost,
+      updated_at = NOW()
+  WHERE id = p_assembly_id;
+
+  RETURN v_items;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION post_assembly(UUID) TO authenticated;
+
+
+-- -----------------------------------------------------------------------------
+-- 6. void_assembly() - completed -> voided
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION void_assembly(p_assembly_id UUID, p_reason TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_assembly assemblies%ROWTYPE;
+  v_items JSONB;
+BEGIN
+  SELECT * INTO v_assembly FROM assemblies WHERE id = p_assembly_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Assembly not found';
+  END IF;
+  IF v_assembly.status <> 'completed' THEN
+    RAISE EXCEPTION 'Can only void completed assemblies';
+  END IF;
+  IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A void reason is required';
+  END IF;
+
+  v_items := reverse_document_movements('assembly', p_assembly_id);
+
+  UPDATE assemblies
+  SET status = 'voided',
+      voided_at = NOW(),
+      voided_by = auth.uid(),
+      void_reason = TRIM(p_reason),
+      updated_at = NOW()
+  WHERE id = p_assembly_id;
+
+  RETURN v_items;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION void_assembly(UUID, TEXT) TO authenticated;
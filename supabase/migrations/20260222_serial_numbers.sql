@@ -0,0 +1,1216 @@
+-- =============================================================================
+-- Serial number tracking
+-- =============================================================================
+-- Products with track_serial capture one serial number per base unit on
+-- receipt, shipment, transfer, return and cycle count lines (serial_numbers
+-- on each line table).
+--
+-- serial_numbers is the registry of individual units: where each one is now
+-- and whether it is in stock. serial_movements is its history, one row per
+-- unit per posting, written alongside the stock movement of the same
+-- document:
+--   - inbound postings put the unit in stock at the location. A unit that is
+--     already in stock somewhere cannot arrive again.
+--   - outbound postings require the unit to be in stock at the source
+--     location. Transfers leave it in_transit until received; everything else
+--     takes it out of stock.
+--
+-- Voiding a document reverses its serial movements along with its stock.
+-- =============================================================================
+
+
+-- -----------------------------------------------------------------------------
+-- 1. track_serial flag
+-- -----------------------------------------------------------------------------
+ALTER TABLE products ADD COLUMN IF NOT EXISTS track_serial BOOLEAN NOT NULL DEFAULT false;
+
+
+-- -----------------------------------------------------------------------------
+-- 2. serial_numbers and serial_movements
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS serial_numbers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  product_id UUID NOT NULL REFERENCES products(id),
+  serial_number TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'in_stock' CHECK (status IN ('in_stock', 'in_transit', 'out')),
+  -- Current location, NULL unless in stock
+  location_id UUID REFERENCES locations(id),
+  lot_number TEXT,
+  expiry_date DATE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(tenant_id, product_id, serial_number),
+  CHECK ((status = 'in_stock') = (location_id IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_serial_numbers_serial ON serial_numbers(tenant_id, serial_number);
+CREATE INDEX IF NOT EXISTS idx_serial_numbers_location ON serial_numbers(product_id, location_id)
+  WHERE status = 'in_stock';
+
+CREATE TABLE IF NOT EXISTS serial_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  serial_id UUID NOT NULL REFERENCES serial_numbers(id) ON DELETE CASCADE,
+  -- Set where a posting needs to reverse individual movements (PO receipts)
+  stock_movement_id UUID REFERENCES stock_movements(id) ON DELETE SET NULL,
+  movement_type movement_type NOT NULL,
+  location_id UUID NOT NULL REFERENCES locations(id),
+  -- 1 = into stock at location_id, -1 = out of it
+  direction SMALLINT NOT NULL CHECK (direction IN (1, -1)),
+  reference_type TEXT,
+  reference_id UUID,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_serial_movements_serial ON serial_movements(serial_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_serial_movements_reference ON serial_movements(reference_type, reference_id);
+
+ALTER TABLE serial_numbers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE serial_movements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS tenant_isolation ON serial_numbers;
+CREATE POLICY tenant_isolation ON serial_numbers
+  FOR ALL USING (tenant_id = get_user_tenant_id());
+
+DROP POLICY IF EXISTS tenant_isolation ON serial_movements;
+CREATE POLICY tenant_isolation ON serial_movements
+  FOR ALL USING (tenant_id = get_user_tenant_id());
+
+
+-- -----------------------------------------------------------------------------
+-- 3. Serial numbers on document lines
+-- -----------------------------------------------------------------------------
+-- For cycle counts these are the units counted; everywhere else the units
+-- moved.
+ALTER TABLE po_receipt_lines ADD COLUMN IF NOT EXISTS serial_numbers TEXT[];
+ALTER TABLE shipment_lines ADD COLUMN IF NOT EXISTS serial_numbers TEXT[];
+ALTER TABLE transfer_lines ADD COLUMN IF NOT EXISTS serial_numbers TEXT[];
+ALTER TABLE return_lines ADD COLUMN IF NOT EXISTS serial_numbers TEXT[];
+ALTER TABLE cycle_count_lines ADD COLUMN IF NOT EXISTS serial_numbers TEXT[];
+
+
+-- -----------------------------------------------------------------------------
+-- 4. normalize_serial_numbers() - validate a line's serials against its qty
+-- -----------------------------------------------------------------------------
+-- Returns the trimmed serials in entry order, or NULL for products that don't
+-- track serials. Serialized lines need exactly one distinct serial per unit.
+CREATE OR REPLACE FUNCTION normalize_serial_numbers(
+  p_product_id UUID,
+  p_qty NUMERIC,
+  p_serials TEXT[]
+)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_product products%ROWTYPE;
+  v_serials TEXT[];
+BEGIN
+  SELECT * INTO v_product FROM products WHERE id = p_product_id;
+
+  IF NOT COALESCE(v_product.track_serial, false) THEN
+    RETURN NULL;
+  END IF;
+
+  v_serials := ARRAY(
+    SELECT TRIM(x.serial)
+    FROM unnest(COALESCE(p_serials, '{}'::TEXT[])) WITH ORDINALITY AS x(serial, n)
+    WHERE TRIM(x.serial) <> ''
+    ORDER BY x.n
+  );
+
+  IF (SELECT COUNT(DISTINCT s) FROM unnest(v_serials) AS s) <> cardinality(v_serials) THEN
+    RAISE EXCEPTION 'Duplicate serial numbers for %', v_product.sku;
+  END IF;
+  IF cardinality(v_serials) <> p_qty THEN
+    RAISE EXCEPTION 'Enter one serial number per unit for %: qty %, serials %',
+      v_product.sku, p_qty, cardinality(v_serials);
+  END IF;
+
+  RETURN v_serials;
+END;
+$$;
+
+
+-- -----------------------------------------------------------------------------
+-- 5. apply_serial_movement() - move units into or out of a location
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION apply_serial_movement(
+  p_tenant_id UUID,
+  p_product_id UUID,
+  p_location_id UUID,
+  p_serials TEXT[],
+  p_direction INTEGER,
+  p_movement_type movement_type,
+  p_reference_type TEXT,
+  p_reference_id UUID,
+  p_lot_number TEXT DEFAULT NULL,
+  p_expiry_date DATE DEFAULT NULL,
+  p_stock_movement_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_serial_number TEXT;
+  v_serial serial_numbers%ROWTYPE;
+  v_sku TEXT;
+BEGIN
+  IF p_serials IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT sku INTO v_sku FROM products WHERE id = p_product_id;
+
+  FOREACH v_serial_number IN ARRAY p_serials
+  LOOP
+    SELECT * INTO v_serial
+    FROM serial_numbers
+    WHERE tenant_id = p_tenant_id
+      AND product_id = p_product_id
+      AND serial_number = v_serial_number
+    FOR UPDATE;
+
+    IF p_direction > 0 THEN
+      IF v_serial.id IS NULL THEN
+        INSERT INTO serial_numbers (
+          tenant_id, product_id, serial_number, status, location_id, lot_number, expiry_date
+        ) VALUES (
+          p_tenant_id, p_product_id, v_serial_number, 'in_stock', p_location_id,
+          NULLIF(TRIM(p_lot_number), ''), p_expiry_date
+        )
+        RETURNING * INTO v_serial;
+      ELSIF v_serial.status = 'in_stock' THEN
+        RAISE EXCEPTION 'Serial % of % is already in stock', v_serial_number, COALESCE(v_sku, 'product');
+      ELSE
+        UPDATE serial_numbers
+        SET status = 'in_stock',
+            location_id = p_location_id,
+            lot_number = NULLIF(TRIM(p_lot_number), ''),
+            expiry_date = p_expiry_date,
+            updated_at = NOW()
+        WHERE id = v_serial.id;
+      END IF;
+    ELSE
+      IF v_serial.id IS NULL
+        OR v_serial.status <> 'in_stock'
+        OR v_serial.location_id IS DISTINCT FROM p_location_id
+      THEN
+        RAISE EXCEPTION 'Serial % of % is not in stock at this location', v_serial_number, COALESCE(v_sku, 'product');
+      END IF;
+
+      UPDATE serial_numbers
+      SET status = CASE WHEN p_movement_type = 'transfer_out' THEN 'in_transit' ELSE 'out' END,
+          location_id = NULL,
+          updated_at = NOW()
+      WHERE id = v_serial.id;
+    END IF;
+
+    INSERT INTO serial_movements (
+      tenant_id, serial_id, stock_movement_id, movement_type, location_id, direction,
+      reference_type, reference_id, created_by
+    ) VALUES (
+      p_tenant_id, v_serial.id, p_stock_movement_id, p_movement_type, p_location_id, SIGN(p_direction),
+      p_reference_type, p_reference_id, auth.uid()
+    );
+  END LOOP;
+END;
+$$;
+
+
+-- -----------------------------------------------------------------------------
+-- 6. reverse_serial_movements() - undo the serial movements of a document
+-- -----------------------------------------------------------------------------
+-- p_stock_movement_id narrows the reversal to one stock movement (a single PO
+-- receipt line). Units must still be where the document left them.
+CREATE OR REPLACE FUNCTION reverse_serial_movements(
+  p_reference_type TEXT,
+  p_reference_id UUID,
+  p_stock_movement_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_movement RECORD;
+  v_serial serial_numbers%ROWTYPE;
+  v_sku TEXT;
+BEGIN
+  FOR v_movement IN
+    SELECT *
+    FROM serial_movements
+    WHERE reference_type = p_reference_type
+      AND reference_id = p_reference_id
+      AND movement_type <> 'void'
+      AND (p_stock_movement_id IS NULL OR stock_movement_id = p_stock_movement_id)
+    ORDER BY created_at DESC, id
+  LOOP
+    SELECT * INTO v_serial FROM serial_numbers WHERE id = v_movement.serial_id FOR UPDATE;
+    SELECT sku INTO v_sku FROM products WHERE id = v_serial.product_id;
+
+    IF v_movement.direction > 0 THEN
+      IF v_serial.status <> 'in_stock' OR v_serial.location_id IS DISTINCT FROM v_movement.location_id THEN
+        RAISE EXCEPTION 'Cannot void: serial % of % has moved since', v_serial.serial_number, COALESCE(v_sku, 'product');
+      END IF;
+
+      UPDATE serial_numbers
+      SET status = 'out', location_id = NULL, updated_at = NOW()
+      WHERE id = v_serial.id;
+    ELSE
+      IF v_serial.status = 'in_stock' THEN
+        RAISE EXCEPTION 'Cannot void: serial % of % is back in stock', v_serial.serial_number, COALESCE(v_sku, 'product');
+      END IF;
+
+      UPDATE serial_numbers
+      SET status = 'in_stock', location_id = v_movement.location_id, updated_at = NOW()
+      WHERE id = v_serial.id;
+    END IF;
+
+    INSERT INTO serial_movements (
+      tenant_id, serial_id, movement_type, location_id, direction,
+      reference_type, reference_id, created_by
+    ) VALUES (
+      v_movement.tenant_id, v_serial.id, 'void', v_movement.location_id, -v_movement.direction,
+      p_reference_type, p_reference_id, auth.uid()
+    );
+  END LOOP;
+END;
+$$;
+
+
+-- -----------------------------------------------------------------------------
+-- 7. reverse_document_movements() / void_po_receipt() - reverse serials too
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION reverse_document_movements(
+  p_reference_type TEXT,
+  p_reference_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_movement RECORD;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  FOR v_movement IN
+    SELECT id, product_id, qty
+    FROM stock_movements
+    WHERE reference_type = p_reference_type
+      AND reference_id = p_reference_id
+      AND movement_type <> 'void'
+    ORDER BY product_id, lot_number NULLS FIRST, expiry_date NULLS FIRST, id
+  LOOP
+    PERFORM reverse_stock_movement(v_movement.id);
+
+    v_items := v_items || jsonb_build_object('product_id', v_movement.product_id, 'qty', -v_movement.qty);
+  END LOOP;
+
+  PERFORM reverse_serial_movements(p_reference_type, p_reference_id);
+
+  RETURN v_items;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION void_po_receipt(p_receipt_id UUID, p_reason TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_receipt po_receipts%ROWTYPE;
+  v_po purchase_orders%ROWTYPE;
+  v_line RECORD;
+  v_any_received BOOLEAN;
+  v_status document_status;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_receipt FROM po_receipts WHERE id = p_receipt_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receipt not found';
+  END IF;
+
+  -- PO first, then the receipt, matching receive_purchase_order() lock order
+  SELECT * INTO v_po FROM purchase_orders WHERE id = v_receipt.po_id FOR UPDATE;
+  SELECT * INTO v_receipt FROM po_receipts WHERE id = p_receipt_id FOR UPDATE;
+
+  IF v_receipt.voided_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Receipt is already voided';
+  END IF;
+  IF v_po.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cannot void receipts of a cancelled PO';
+  END IF;
+  IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A void reason is required';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM po_receipt_lines
+    WHERE receipt_id = p_receipt_id
+    ORDER BY product_id, lot_number NULLS FIRST, expiry_date NULLS FIRST, id
+  LOOP
+    IF v_line.movement_id IS NULL THEN
+      RAISE EXCEPTION 'Receipt line % has no stock movement to reverse', v_line.id;
+    END IF;
+
+    PERFORM reverse_stock_movement(v_line.movement_id);
+    PERFORM reverse_serial_movements('po', v_po.id, v_line.movement_id);
+
+    UPDATE purchase_order_lines
+    SET qty_received = GREATEST(COALESCE(qty_received, 0) - v_line.qty, 0)
+    WHERE id = v_line.po_line_id;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', -v_line.qty);
+  END LOOP;
+
+  UPDATE po_receipts
+  SET voided_at = NOW(),
+      voided_by = auth.uid(),
+      void_reason = TRIM(p_reason)
+  WHERE id = p_receipt_id;
+
+  SELECT BOOL_OR(COALESCE(qty_received, 0) > 0)
+  INTO v_any_received
+  FROM purchase_order_lines
+  WHERE po_id = v_po.id;
+
+  v_status := CASE WHEN v_any_received THEN 'partial' ELSE 'confirmed' END;
+
+  UPDATE purchase_orders
+  SET status = v_status, updated_at = NOW()
+  WHERE id = v_po.id;
+
+  RETURN jsonb_build_object('status', v_status, 'items', v_items);
+END;
+$$;
+
+
+-- -----------------------------------------------------------------------------
+-- 8. receive_purchase_order() - serials per receipt line
+-- -----------------------------------------------------------------------------
+-- p_lines items accept an optional "serial_numbers" array.
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+  p_po_id UUID,
+  p_lines JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_po purchase_orders%ROWTYPE;
+  v_input RECORD;
+  v_line purchase_order_lines%ROWTYPE;
+  v_lot_number TEXT;
+  v_serials TEXT[];
+  v_receipt_id UUID;
+  v_movement_id UUID;
+  v_layer_id UUID;
+  v_all_complete BOOLEAN;
+  v_any_received BOOLEAN;
+  v_status document_status;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_po FROM purchase_orders WHERE id = p_po_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+  IF v_po.status = 'draft' THEN
+    RAISE EXCEPTION 'PO must be confirmed before receiving';
+  END IF;
+  IF v_po.status = 'completed' THEN
+    RAISE EXCEPTION 'PO is already completed';
+  END IF;
+  IF v_po.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cannot receive cancelled PO';
+  END IF;
+
+  FOR v_input IN
+    SELECT *
+    FROM jsonb_to_recordset(p_lines) AS x(
+      line_id UUID,
+      qty_to_receive NUMERIC,
+      lot_number TEXT,
+      expiry_date DATE,
+      entered_qty NUMERIC,
+      entered_uom TEXT,
+      serial_numbers JSONB
+    )
+    ORDER BY line_id
+  LOOP
+    CONTINUE WHEN COALESCE(v_input.qty_to_receive, 0) <= 0;
+
+    SELECT * INTO v_line
+    FROM purchase_order_lines
+    WHERE id = v_input.line_id AND po_id = p_po_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order line % not found', v_input.line_id;
+    END IF;
+
+    IF COALESCE(v_line.qty_received, 0) + v_input.qty_to_receive > v_line.qty_ordered THEN
+      RAISE EXCEPTION 'Cannot receive more than ordered for line %', v_input.line_id;
+    END IF;
+
+    v_serials := normalize_serial_numbers(
+      v_line.product_id, v_input.qty_to_receive,
+      ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_input.serial_numbers, '[]'::jsonb)))
+    );
+
+    IF v_receipt_id IS NULL THEN
+      INSERT INTO po_receipts (tenant_id, po_id, created_by)
+      VALUES (v_po.tenant_id, p_po_id, auth.uid())
+      RETURNING id INTO v_receipt_id;
+    END IF;
+
+    UPDATE purchase_order_lines
+    SET qty_received = COALESCE(qty_received, 0) + v_input.qty_to_receive
+    WHERE id = v_line.id;
+
+    PERFORM apply_stock_movement(
+      v_po.tenant_id, v_line.product_id, v_po.location_id, v_input.qty_to_receive,
+      'receive', 'po', p_po_id, v_input.lot_number, v_input.expiry_date,
+      COALESCE(v_line.unit_cost, 0)
+    );
+
+    v_lot_number := NULLIF(TRIM(v_input.lot_number), '');
+
+    SELECT sm.id INTO v_movement_id
+    FROM stock_movements sm
+    WHERE sm.reference_type = 'po'
+      AND sm.reference_id = p_po_id
+      AND sm.movement_type = 'receive'
+      AND sm.product_id = v_line.product_id
+      AND NOT EXISTS (SELECT 1 FROM po_receipt_lines rl WHERE rl.movement_id = sm.id)
+    ORDER BY sm.created_at DESC
+    LIMIT 1;
+
+    SELECT cl.id INTO v_layer_id
+    FROM cost_layers cl
+    WHERE cl.reference_type = 'po'
+      AND cl.reference_id = p_po_id
+      AND cl.product_id = v_line.product_id
+    ORDER BY cl.received_at DESC
+    LIMIT 1;
+
+    PERFORM apply_serial_movement(
+      v_po.tenant_id, v_line.product_id, v_po.location_id, v_serials, 1,
+      'receive', 'po', p_po_id, v_lot_number, v_input.expiry_date, v_movement_id
+    );
+
+    INSERT INTO po_receipt_lines (
+      tenant_id, receipt_id, po_line_id, product_id, qty, entered_qty, entered_uom,
+      lot_number, expiry_date, unit_cost, movement_id, cost_layer_id, serial_numbers
+    ) VALUES (
+      v_po.tenant_id, v_receipt_id, v_line.id, v_line.product_id, v_input.qty_to_receive,
+      v_input.entered_qty, NULLIF(TRIM(v_input.entered_uom), ''),
+      v_lot_number, v_input.expiry_date, COALESCE(v_line.unit_cost, 0), v_movement_id, v_layer_id,
+      v_serials
+    );
+
+    UPDATE products
+    SET current_cost = COALESCE(v_line.unit_cost, 0), updated_at = NOW()
+    WHERE id = v_line.product_id;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_input.qty_to_receive);
+  END LOOP;
+
+  SELECT
+    BOOL_AND(COALESCE(qty_received, 0) >= qty_ordered),
+    BOOL_OR(COALESCE(qty_received, 0) > 0)
+  INTO v_all_complete, v_any_received
+  FROM purchase_order_lines
+  WHERE po_id = p_po_id;
+
+  v_status := CASE
+    WHEN v_all_complete THEN 'completed'
+    WHEN v_any_received THEN 'partial'
+    ELSE 'confirmed'
+  END;
+
+  UPDATE purchase_orders
+  SET status = v_status, updated_at = NOW()
+  WHERE id = p_po_id;
+
+  RETURN jsonb_build_object('status', v_status, 'receipt_id', v_receipt_id, 'items', v_items);
+END;
+$$;
+
+
+-- -----------------------------------------------------------------------------
+-- 9. Shipments - units leave in line order, backorders keep the rest
+-- -----------------------------------------------------------------------------
+-- Serials of a shipment line that this shipment hasn't shipped yet
+CREATE OR REPLACE FUNCTION shipment_pending_serials(
+  p_shipment_id UUID,
+  p_product_id UUID,
+  p_serials TEXT[]
+)
+RETURNS TEXT[]
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT ARRAY(
+    SELECT x.serial
+    FROM unnest(p_serials) WITH ORDINALITY AS x(serial, n)
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM serial_movements sm
+      JOIN serial_numbers sn ON sn.id = sm.serial_id
+      WHERE sm.reference_type = 'shipment'
+        AND sm.reference_id = p_shipment_id
+        AND sm.movement_type = 'ship'
+        AND sn.product_id = p_product_id
+        AND sn.serial_number = TRIM(x.serial)
+    )
+    ORDER BY x.n
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION ship_shipment(
+  p_shipment_id UUID,
+  p_ship_date DATE DEFAULT NULL,
+  p_lines JSONB DEFAULT NULL,
+  p_create_backorder BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_shipment shipments%ROWTYPE;
+  v_line RECORD;
+  v_on_hand NUMERIC;
+  v_reserved NUMERIC;
+  v_available NUMERIC;
+  v_remaining NUMERIC;
+  v_to_ship NUMERIC;
+  v_serials TEXT[];
+  v_unit_cost NUMERIC;
+  v_outstanding NUMERIC;
+  v_expiry_hours INTEGER;
+  v_backorder_id UUID;
+  v_status document_status;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_shipment FROM shipments WHERE id = p_shipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment not found';
+  END IF;
+  IF v_shipment.status NOT IN ('confirmed', 'partial') THEN
+    RAISE EXCEPTION 'Can only ship confirmed or partially shipped shipments';
+  END IF;
+
+  -- Consistent line order keeps balance locks deadlock-free between postings
+  FOR v_line IN
+    SELECT sl.*, p.sku
+    FROM shipment_lines sl
+    JOIN products p ON p.id = sl.product_id
+    WHERE sl.shipment_id = p_shipment_id
+    ORDER BY sl.product_id, sl.lot_number NULLS FIRST, sl.expiry_date NULLS FIRST, sl.id
+    FOR UPDATE OF sl
+  LOOP
+    v_remaining := v_line.qty - v_line.qty_shipped;
+    CONTINUE WHEN v_remaining <= 0;
+
+    v_on_hand := lock_balance_qty(
+      v_shipment.tenant_id, v_line.product_id, v_shipment.location_id,
+      v_line.lot_number, v_line.expiry_date
+    );
+    v_reserved := get_reserved_qty(
+      v_shipment.tenant_id, v_line.product_id, v_shipment.location_id,
+      v_line.lot_number, v_line.expiry_date, p_shipment_id
+    );
+    v_available := GREATEST(v_on_hand - v_reserved, 0);
+
+    IF p_lines IS NULL THEN
+      v_to_ship := LEAST(v_remaining, v_available);
+    ELSE
+      SELECT COALESCE(SUM(x.qty_to_ship), 0) INTO v_to_ship
+      FROM jsonb_to_recordset(p_lines) AS x(line_id UUID, qty_to_ship NUMERIC)
+      WHERE x.line_id = v_line.id;
+
+      IF v_to_ship < 0 THEN
+        RAISE EXCEPTION 'Quantity to ship for % cannot be negative', v_line.sku;
+      END IF;
+      IF v_to_ship > v_remaining THEN
+        RAISE EXCEPTION 'Cannot ship more than ordered for %: remaining %, requested %',
+          v_line.sku, v_remaining, v_to_ship;
+      END IF;
+      IF v_to_ship > v_available THEN
+        RAISE EXCEPTION 'Insufficient available stock for %: on hand %, reserved %, need %',
+          v_line.sku, v_on_hand, v_reserved, v_to_ship;
+      END IF;
+    END IF;
+
+    CONTINUE WHEN v_to_ship <= 0;
+
+    v_serials := normalize_serial_numbers(v_line.product_id, v_line.qty, v_line.serial_numbers);
+
+    IF v_serials IS NOT NULL THEN
+      IF v_to_ship <> TRUNC(v_to_ship) THEN
+        RAISE EXCEPTION 'Serialized % ships in whole units', v_line.sku;
+      END IF;
+
+      v_serials := (shipment_pending_serials(p_shipment_id, v_line.product_id, v_serials))[1:v_to_ship::INTEGER];
+    END IF;
+
+    v_unit_cost := apply_stock_movement(
+      v_shipment.tenant_id, v_line.product_id, v_shipment.location_id, -v_to_ship,
+      'ship', 'shipment', p_shipment_id, v_line.lot_number, v_line.expiry_date
+    );
+
+    PERFORM apply_serial_movement(
+      v_shipment.tenant_id, v_line.product_id, v_shipment.location_id, v_serials, -1,
+      'ship', 'shipment', p_shipment_id
+    );
+
+    -- Later partial shipments may leave at a different cost, so the line
+    -- keeps the quantity-weighted average of everything it shipped
+    UPDATE shipment_lines
+    SET unit_cost = (COALESCE(unit_cost, 0) * qty_shipped + v_unit_cost * v_to_ship) / (qty_shipped + v_to_ship),
+        qty_shipped = qty_shipped + v_to_ship
+    WHERE id = v_line.id;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_to_ship);
+  END LOOP;
+
+  IF jsonb_array_length(v_items) = 0 THEN
+    RAISE EXCEPTION 'No stock available to ship';
+  END IF;
+
+  -- Reservations are rebuilt for whatever is still outstanding
+  UPDATE reservations
+  SET status = 'consumed'
+  WHERE shipment_id = p_shipment_id AND status = 'active';
+
+  SELECT COALESCE(SUM(qty - qty_shipped), 0) INTO v_outstanding
+  FROM shipment_lines
+  WHERE shipment_id = p_shipment_id;
+
+  IF v_outstanding > 0 AND p_create_backorder THEN
+    INSERT INTO shipments (
+      tenant_id, shipment_number, location_id, customer_id, customer_name,
+      status, notes, created_by, backorder_of
+    ) VALUES (
+      v_shipment.tenant_id, next_doc_number(v_shipment.tenant_id, 'shipment'),
+      v_shipment.location_id, v_shipment.customer_id, v_shipment.customer_name,
+      'draft', v_shipment.notes, auth.uid(), p_shipment_id
+    )
+    RETURNING id INTO v_backorder_id;
+
+    INSERT INTO shipment_lines (shipment_id, product_id, qty, lot_number, expiry_date, serial_numbers)
+    SELECT
+      v_backorder_id, product_id, qty - qty_shipped, lot_number, expiry_date,
+      CASE WHEN serial_numbers IS NOT NULL
+        THEN shipment_pending_serials(p_shipment_id, product_id, serial_numbers)
+      END
+    FROM shipment_lines
+    WHERE shipment_id = p_shipment_id AND qty > qty_shipped;
+
+    v_status := 'completed';
+  ELSIF v_outstanding > 0 THEN
+    SELECT (settings ->> 'reservation_expiry_hours')::INTEGER
+    INTO v_expiry_hours
+    FROM tenants
+    WHERE id = v_shipment.tenant_id;
+
+    INSERT INTO reservations (
+      tenant_id, shipment_id, product_id, location_id, qty,
+      lot_number, expiry_date, status, expires_at
+    )
+    SELECT
+      v_shipment.tenant_id, p_shipment_id, x.product_id, v_shipment.location_id, x.reserve_qty,
+      NULLIF(TRIM(x.lot_number), ''), x.expiry_date, 'active',
+      CASE WHEN COALESCE(v_expiry_hours, 0) > 0 THEN NOW() + make_interval(hours => v_expiry_hours) END
+    FROM (
+      SELECT
+        sl.product_id, sl.lot_number, sl.expiry_date,
+        LEAST(
+          sl.qty - sl.qty_shipped,
+          GREATEST(
+            COALESCE(b.qty_on_hand, 0) - get_reserved_qty(
+              v_shipment.tenant_id, sl.product_id, v_shipment.location_id,
+              sl.lot_number, sl.expiry_date
+            ),
+            0
+          )
+        ) as reserve_qty
+      FROM shipment_lines sl
+      LEFT JOIN inventory_balances b
+        ON b.tenant_id = v_shipment.tenant_id
+        AND b.product_id = sl.product_id
+        AND b.location_id = v_shipment.location_id
+        AND COALESCE(b.lot_number, '') = COALESCE(NULLIF(TRIM(sl.lot_number), ''), '')
+        AND COALESCE(b.expiry_date, '1900-01-01'::date) = COALESCE(sl.expiry_date, '1900-01-01'::date)
+      WHERE sl.shipment_id = p_shipment_id AND sl.qty > sl.qty_shipped
+    ) x
+    WHERE x.reserve_qty > 0;
+
+    v_status := 'partial';
+  ELSE
+    v_status := 'completed';
+  END IF;
+
+  UPDATE shipments
+  SET status = v_status,
+      ship_date = COALESCE(p_ship_date, ship_date, CURRENT_DATE),
+      updated_at = NOW()
+  WHERE id = p_shipment_id;
+
+  RETURN jsonb_build_object(
+    'status', v_status,
+    'backorder_id', v_backorder_id,
+    'items', v_items
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_shipment_backorder(p_shipment_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_shipment shipments%ROWTYPE;
+  v_backorder_id UUID;
+BEGIN
+  SELECT * INTO v_shipment FROM shipments WHERE id = p_shipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment not found';
+  END IF;
+  IF v_shipment.status <> 'partial' THEN
+    RAISE EXCEPTION 'Can only create backorders for partially shipped shipments';
+  END IF;
+
+  INSERT INTO shipments (
+    tenant_id, shipment_number, location_id, customer_id, customer_name,
+    status, notes, created_by, backorder_of
+  ) VALUES (
+    v_shipment.tenant_id, next_doc_number(v_shipment.tenant_id, 'shipment'),
+    v_shipment.location_id, v_shipment.customer_id, v_shipment.customer_name,
+    'draft', v_shipment.notes, auth.uid(), p_shipment_id
+  )
+  RETURNING id INTO v_backorder_id;
+
+  INSERT INTO shipment_lines (shipment_id, product_id, qty, lot_number, expiry_date, serial_numbers)
+  SELECT
+    v_backorder_id, product_id, qty - qty_shipped, lot_number, expiry_date,
+    CASE WHEN serial_numbers IS NOT NULL
+      THEN shipment_pending_serials(p_shipment_id, product_id, serial_numbers)
+    END
+  FROM shipment_lines
+  WHERE shipment_id = p_shipment_id AND qty > qty_shipped;
+
+  UPDATE reservations
+  SET status = 'released'
+  WHERE shipment_id = p_shipment_id AND status = 'active';
+
+  UPDATE shipments
+  SET status = 'completed', updated_at = NOW()
+  WHERE id = p_shipment_id;
+
+  RETURN v_backorder_id;
+END;
+$$;
+
+
+-- -----------------------------------------------------------------------------
+-- 10. Transfers - units are in transit between send and receive
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION send_transfer(
+  p_transfer_id UUID,
+  p_sent_date DATE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transfer transfers%ROWTYPE;
+  v_line RECORD;
+  v_on_hand NUMERIC;
+  v_reserved NUMERIC;
+  v_unit_cost NUMERIC;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_transfer FROM transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+  IF v_transfer.status <> 'draft' THEN
+    RAISE EXCEPTION 'Can only send draft transfers';
+  END IF;
+
+  FOR v_line IN
+    SELECT tl.*, p.sku
+    FROM transfer_lines tl
+    JOIN products p ON p.id = tl.product_id
+    WHERE tl.transfer_id = p_transfer_id
+    ORDER BY tl.product_id, tl.lot_number NULLS FIRST, tl.expiry_date NULLS FIRST, tl.id
+  LOOP
+    v_on_hand := lock_balance_qty(
+      v_transfer.tenant_id, v_line.product_id, v_transfer.from_location_id,
+      v_line.lot_number, v_line.expiry_date
+    );
+    v_reserved := get_reserved_qty(
+      v_transfer.tenant_id, v_line.product_id, v_transfer.from_location_id,
+      v_line.lot_number, v_line.expiry_date
+    );
+
+    IF v_on_hand - v_reserved < v_line.qty THEN
+      RAISE EXCEPTION 'Insufficient available stock for %: on hand %, reserved %, need %',
+        v_line.sku, v_on_hand, v_reserved, v_line.qty;
+    END IF;
+
+    v_unit_cost := apply_stock_movement(
+      v_transfer.tenant_id, v_line.product_id, v_transfer.from_location_id, -v_line.qty,
+      'transfer_out', 'transfer', p_transfer_id, v_line.lot_number, v_line.expiry_date
+    );
+
+    PERFORM apply_serial_movement(
+      v_transfer.tenant_id, v_line.product_id, v_transfer.from_location_id,
+      normalize_serial_numbers(v_line.product_id, v_line.qty, v_line.serial_numbers), -1,
+      'transfer_out', 'transfer', p_transfer_id
+    );
+
+    -- Destination receives at the cost it left the source with
+    UPDATE transfer_lines SET unit_cost = v_unit_cost WHERE id = v_line.id;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_line.qty);
+  END LOOP;
+
+  UPDATE transfers
+  SET status = 'confirmed',
+      sent_at = COALESCE(p_sent_date, CURRENT_DATE),
+      updated_at = NOW()
+  WHERE id = p_transfer_id;
+
+  RETURN v_items;
+END;
+$$;
+
+-- p_lines items accept an optional "serial_numbers" array: the units that
+-- arrived. Without it every unit sent is received. Units sent but not
+-- received follow the line's resolution: back in stock at the source, or out
+-- of stock as lost.
+CREATE OR REPLACE FUNCTION receive_transfer(
+  p_transfer_id UUID,
+  p_received_date DATE DEFAULT NULL,
+  p_lines JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transfer transfers%ROWTYPE;
+  v_line RECORD;
+  v_input RECORD;
+  v_qty_received NUMERIC;
+  v_resolution TEXT;
+  v_difference NUMERIC;
+  v_sent_serials TEXT[];
+  v_received_serials TEXT[];
+  v_missing_serials TEXT[];
+  v_items JSONB := '[]'::jsonb;
+  v_discrepancies JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_transfer FROM transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+  IF v_transfer.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Can only receive sent transfers';
+  END IF;
+
+  FOR v_line IN
+    SELECT tl.*, p.sku
+    FROM transfer_lines tl
+    JOIN products p ON p.id = tl.product_id
+    WHERE tl.transfer_id = p_transfer_id
+    ORDER BY tl.product_id, tl.lot_number NULLS FIRST, tl.expiry_date NULLS FIRST, tl.id
+  LOOP
+    v_qty_received := v_line.qty;
+    v_resolution := 'loss';
+    v_sent_serials := normalize_serial_numbers(v_line.product_id, v_line.qty, v_line.serial_numbers);
+    v_received_serials := v_sent_serials;
+
+    IF p_lines IS NOT NULL THEN
+      SELECT * INTO v_input
+      FROM jsonb_to_recordset(p_lines) AS x(line_id UUID, qty_received NUMERIC, resolution TEXT, serial_numbers JSONB)
+      WHERE x.line_id = v_line.id
+      LIMIT 1;
+
+      IF FOUND THEN
+        v_qty_received := COALESCE(v_input.qty_received, v_line.qty);
+        v_resolution := COALESCE(NULLIF(v_input.resolution, ''), 'loss');
+
+        IF v_input.serial_numbers IS NOT NULL THEN
+          v_received_serials := ARRAY(SELECT jsonb_array_elements_text(v_input.serial_numbers));
+        END IF;
+      END IF;
+    END IF;
+
+    IF v_qty_received < 0 THEN
+      RAISE EXCEPTION 'Received quantity for % cannot be negative', v_line.sku;
+    END IF;
+    IF v_resolution NOT IN ('loss', 'return_to_source') THEN
+      RAISE EXCEPTION 'Invalid discrepancy resolution: %', v_resolution;
+    END IF;
+
+    IF v_sent_serials IS NOT NULL THEN
+      v_received_serials := normalize_serial_numbers(v_line.product_id, v_qty_received, v_received_serials);
+      v_missing_serials := ARRAY(
+        SELECT s FROM unnest(v_sent_serials) AS s WHERE s <> ALL(v_received_serials)
+      );
+    END IF;
+
+    IF v_qty_received > 0 THEN
+      PERFORM apply_stock_movement(
+        v_transfer.tenant_id, v_line.product_id, v_transfer.to_location_id, v_qty_received,
+        'transfer_in', 'transfer', p_transfer_id, v_line.lot_number, v_line.expiry_date,
+        COALESCE(v_line.unit_cost, 0)
+      );
+
+      PERFORM apply_serial_movement(
+        v_transfer.tenant_id, v_line.product_id, v_transfer.to_location_id, v_received_serials, 1,
+        'transfer_in', 'transfer', p_transfer_id, v_line.lot_number, v_line.expiry_date
+      );
+    END IF;
+
+    UPDATE transfer_lines SET qty_received = v_qty_received WHERE id = v_line.id;
+
+    v_difference := v_qty_received - v_line.qty;
+
+    IF v_difference <> 0 THEN
+      IF v_difference > 0 THEN
+        v_resolution := 'over_receipt';
+      ELSIF v_resolution = 'return_to_source' THEN
+        -- The shortfall never left: book it back in at the cost it went out with
+        PERFORM apply_stock_movement(
+          v_transfer.tenant_id, v_line.product_id, v_transfer.from_location_id, -v_difference,
+          'transfer_in', 'transfer', p_transfer_id, v_line.lot_number, v_line.expiry_date,
+          COALESCE(v_line.unit_cost, 0)
+        );
+      END IF;
+
+      INSERT INTO transfer_discrepancies (
+        tenant_id, transfer_id, transfer_line_id, product_id, lot_number, expiry_date,
+        qty_sent, qty_received, qty_difference, unit_cost, resolution, created_by
+      ) VALUES (
+        v_transfer.tenant_id, p_transfer_id, v_line.id, v_line.product_id,
+        v_line.lot_number, v_line.expiry_date,
+        v_line.qty, v_qty_received, v_difference, COALESCE(v_line.unit_cost, 0),
+        v_resolution, auth.uid()
+      );
+
+      v_discrepancies := v_discrepancies || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'qty_difference', v_difference,
+        'resolution', v_resolution
+      );
+    END IF;
+
+    IF cardinality(v_missing_serials) > 0 THEN
+      IF v_resolution = 'return_to_source' THEN
+        PERFORM apply_serial_movement(
+          v_transfer.tenant_id, v_line.product_id, v_transfer.from_location_id, v_missing_serials, 1,
+          'transfer_in', 'transfer', p_transfer_id, v_line.lot_number, v_line.expiry_date
+        );
+      ELSE
+        UPDATE serial_numbers
+        SET status = 'out', updated_at = NOW()
+        WHERE tenant_id = v_transfer.tenant_id
+          AND product_id = v_line.product_id
+          AND serial_number = ANY(v_missing_serials)
+          AND status = 'in_transit';
+      END IF;
+    END IF;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_qty_received);
+  END LOOP;
+
+  UPDATE transfers
+  SET status = 'completed',
+      received_at = COALESCE(p_received_date, CURRENT_DATE),
+      updated_at = NOW()
+  WHERE id = p_transfer_id;
+
+  RETURN jsonb_build_object(
+    'items', v_items,
+    'discrepancies', v_discrepancies
+  );
+END;
+$$;
+
+
+-- -----------------------------------------------------------------------------
+-- 11. process_return() - customer returns bring units back, supplier returns
+--     take them out
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION process_return(p_return_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_return returns%ROWTYPE;
+  v_line RECORD;
+  v_is_customer BOOLEAN;
+  v_unit_cost NUMERIC;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_return FROM returns WHERE id = p_return_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return not found';
+  END IF;
+  IF v_return.status <> 'draft' THEN
+    RAISE EXCEPTION 'Can only process draft returns';
+  END IF;
+
+  v_is_customer := v_return.return_type = 'customer';
+
+  FOR v_line IN
+    SELECT * FROM return_lines
+    WHERE return_id = p_return_id
+    ORDER BY product_id, lot_number NULLS FIRST, expiry_date NULLS FIRST, id
+  LOOP
+    v_unit_cost := apply_stock_movement(
+      v_return.tenant_id, v_line.product_id, v_return.location_id,
+      CASE WHEN v_is_customer THEN v_line.qty ELSE -v_line.qty END,
+      CASE WHEN v_is_customer THEN 'return_in' ELSE 'return_out' END::movement_type,
+      'return', p_return_id, v_line.lot_number, v_line.expiry_date
+    );
+
+    PERFORM apply_serial_movement(
+      v_return.tenant_id, v_line.product_id, v_return.location_id,
+      normalize_serial_numbers(v_line.product_id, v_line.qty, v_line.serial_numbers),
+      CASE WHEN v_is_customer THEN 1 ELSE -1 END,
+      CASE WHEN v_is_customer THEN 'return_in' ELSE 'return_out' END::movement_type,
+      'return', p_return_id, v_line.lot_number, v_line.expiry_date
+    );
+
+    UPDATE return_lines SET unit_cost = v_unit_cost WHERE id = v_line.id;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_line.qty);
+  END LOOP;
+
+  UPDATE returns SET status = 'completed' WHERE id = p_return_id;
+
+  RETURN v_items;
+END;
+$$;
+
+
+-- -----------------------------------------------------------------------------
+-- 12. post_cycle_count() - reconcile counted units with the registry
+-- -----------------------------------------------------------------------------
+-- For serialized lines, units on record at the location but not counted go
+-- out of stock and counted units not on record come in, both as
+-- count_variance.
+CREATE OR REPLACE FUNCTION post_cycle_count(p_count_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count cycle_counts%ROWTYPE;
+  v_line RECORD;
+  v_system_qty NUMERIC;
+  v_variance NUMERIC;
+  v_serials TEXT[];
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_count FROM cycle_counts WHERE id = p_count_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cycle count not found';
+  END IF;
+  IF v_count.status <> 'draft' THEN
+    RAISE EXCEPTION 'Can only post draft counts';
+  END IF;
+  IF EXISTS (SELECT 1 FROM cycle_count_lines WHERE count_id = p_count_id AND counted_qty IS NULL) THEN
+    RAISE EXCEPTION 'All lines must be counted before posting';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM cycle_count_lines
+    WHERE count_id = p_count_id
+    ORDER BY product_id, lot_number NULLS FIRST, expiry_date NULLS FIRST, id
+  LOOP
+    SELECT qty_on_hand INTO v_system_qty
+    FROM inventory_balances
+    WHERE tenant_id = v_count.tenant_id
+      AND product_id = v_line.product_id
+      AND location_id = v_count.location_id
+      AND COALESCE(lot_number, '') = COALESCE(NULLIF(TRIM(v_line.lot_number), ''), '')
+      AND COALESCE(expiry_date, '1900-01-01'::date) = COALESCE(v_line.expiry_date, '1900-01-01'::date)
+    LIMIT 1
+    FOR UPDATE;
+
+    v_system_qty := COALESCE(v_system_qty, 0);
+    v_variance := v_line.counted_qty - v_system_qty;
+
+    UPDATE cycle_count_lines SET system_qty = v_system_qty WHERE id = v_line.id;
+
+    IF v_variance <> 0 THEN
+      PERFORM apply_stock_movement(
+        v_count.tenant_id, v_line.product_id, v_count.location_id, v_variance,
+        'count_variance', 'cycle_count', p_count_id, v_line.lot_number, v_line.expiry_date,
+        NULL, 'count_variance'
+      );
+    END IF;
+
+    v_serials := normalize_serial_numbers(v_line.product_id, v_line.counted_qty, v_line.serial_numbers);
+
+    IF v_serials IS NOT NULL THEN
+      PERFORM apply_serial_movement(
+        v_count.tenant_id, v_line.product_id, v_count.location_id,
+        ARRAY(
+          SELECT sn.serial_number
+          FROM serial_numbers sn
+          WHERE sn.tenant_id = v_count.tenant_id
+            AND sn.product_id = v_line.product_id
+            AND sn.location_id = v_count.location_id
+            AND sn.status = 'in_stock'
+            AND COALESCE(sn.lot_number, '') = COALESCE(NULLIF(TRIM(v_line.lot_number), ''), '')
+            AND COALESCE(sn.expiry_date, '1900-01-01'::date) = COALESCE(v_line.expiry_date, '1900-01-01'::date)
+            AND sn.serial_number <> ALL(v_serials)
+          ORDER BY sn.serial_number
+        ),
+        -1, 'count_variance', 'cycle_count', p_count_id
+      );
+
+      PERFORM apply_serial_movement(
+        v_count.tenant_id, v_line.product_id, v_count.location_id,
+        ARRAY(
+          SELECT s
+          FROM unnest(v_serials) AS s
+          WHERE NOT EXISTS (
+            SELECT 1
+            FROM serial_numbers sn
+            WHERE sn.tenant_id = v_count.tenant_id
+              AND sn.product_id = v_line.product_id
+              AND sn.location_id = v_count.location_id
+              AND sn.serial_number = s
+          )
+        ),
+        1, 'count_variance', 'cycle_count', p_count_id, v_line.lot_number, v_line.expiry_date
+      );
+    END IF;
+
+    v_items := v_items || jsonb_build_object(
+      'product_id', v_line.product_id,
+      'system_qty', v_system_qty,
+      'counted_qty', v_line.counted_qty,
+      'variance', v_variance
+    );
+  END LOOP;
+
+  UPDATE cycle_counts SET status = 'completed' WHERE id = p_count_id;
+
+  RETURN v_items;
+END;
+$$;
@@ -0,0 +1,781 @@
+-- =============================================================================
+-- Bins within warehouses
+-- =============================================================================
+-- A bin is a location of type 'bin' whose parent is the warehouse it sits in.
+-- Bins hold inventory_balances like any other location, so stock can be
+-- found down to the shelf while reports add bins back up to their warehouse.
+--
+-- Documents still belong to the warehouse; lines say which bin they use:
+--   - po_receipt_lines.bin_id:  putaway bin chosen when receiving
+--   - shipment_lines.bin_id:    bin the line is picked from
+-- A line without a bin uses the warehouse's own (unbinned) stock. FEFO
+-- allocation of shipment lines looks into the bins as well and sets the bin.
+--
+-- bin_moves records stock moved between bins of one warehouse. Both legs are
+-- posted immediately with the bin_move movement type at the source cost.
+-- =============================================================================
+
+
+-- -----------------------------------------------------------------------------
+-- 1. Location and movement types
+-- -----------------------------------------------------------------------------
+ALTER TYPE location_type ADD VALUE IF NOT EXISTS 'bin';
+ALTER TYPE movement_type ADD VALUE IF NOT EXISTS 'bin_move';
+
+
+-- -----------------------------------------------------------------------------
+-- 2. Bins on receipt and shipment lines
+-- -----------------------------------------------------------------------------
+ALTER TABLE po_receipt_lines ADD COLUMN IF NOT EXISTS bin_id UUID REFERENCES locations(id);
+ALTER TABLE shipment_lines ADD COLUMN IF NOT EXISTS bin_id UUID REFERENCES locations(id);
+
+
+-- -----------------------------------------------------------------------------
+-- 3. bin_moves
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS bin_moves (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  product_id UUID NOT NULL REFERENCES products(id),
+  -- The warehouse or one of its bins, on both sides
+  from_location_id UUID NOT NULL REFERENCES locations(id),
+  to_location_id UUID NOT NULL REFERENCES locations(id),
+  qty NUMERIC(12,4) NOT NULL CHECK (qty > 0),
+  lot_number TEXT,
+  expiry_date DATE,
+  serial_numbers TEXT[],
+  unit_cost NUMERIC(12,4),
+  notes TEXT,
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (from_location_id <> to_location_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bin_moves_tenant ON bin_moves(tenant_id, created_at DESC);
+
+ALTER TABLE bin_moves ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS tenant_isolation ON bin_moves;
+CREATE POLICY tenant_isolation ON bin_moves
+  FOR ALL USING (tenant_id = get_user_tenant_id());
+
+
+-- -----------------------------------------------------------------------------
+-- 4. Helpers
+-- -----------------------------------------------------------------------------
+-- Location a document line stocks at: its bin, which must belong to the
+-- document's warehouse, or the warehouse itself when no bin is given.
+CREATE OR REPLACE FUNCTION bin_stock_location(
+  p_location_id UUID,
+  p_bin_id UUID
+)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_bin locations%ROWTYPE;
+BEGIN
+  IF p_bin_id IS NULL OR p_bin_id = p_location_id THEN
+    RETURN p_location_id;
+  END IF;
+
+  SELECT * INTO v_bin FROM locations WHERE id = p_bin_id;
+
+  IF NOT FOUND OR v_bin.type::TEXT <> 'bin' OR v_bin.parent_id IS DISTINCT FROM p_location_id THEN
+    RAISE EXCEPTION 'Bin does not belong to this location';
+  END IF;
+  IF NOT v_bin.active THEN
+    RAISE EXCEPTION 'Bin % is inactive', v_bin.name;
+  END IF;
+
+  RETURN p_bin_id;
+END;
+$$;
+
+-- The warehouse a location belongs to: a bin's parent, otherwise itself
+CREATE OR REPLACE FUNCTION bin_warehouse_id(p_location_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE WHEN type::TEXT = 'bin' THEN parent_id ELSE id END
+  FROM locations
+  WHERE id = p_location_id;
+$$;
+
+
+-- -----------------------------------------------------------------------------
+-- 5. move_bin_stock() - move stock between bins of one warehouse
+-- -----------------------------------------------------------------------------
+-- Reserved stock stays put: only the unreserved quantity at the source can
+-- move. Serialized products move the listed units.
+CREATE OR REPLACE FUNCTION move_bin_stock(
+  p_product_id UUID,
+  p_from_location_id UUID,
+  p_to_location_id UUID,
+  p_qty NUMERIC,
+  p_lot_number TEXT DEFAULT NULL,
+  p_expiry_date DATE DEFAULT NULL,
+  p_serial_numbers TEXT[] DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tenant_id UUID := get_user_tenant_id();
+  v_warehouse_id UUID;
+  v_on_hand NUMERIC;
+  v_reserved NUMERIC;
+  v_serials TEXT[];
+  v_unit_cost NUMERIC;
+  v_move_id UUID;
+  v_out_movement_id UUID;
+  v_in_movement_id UUID;
+BEGIN
+  IF COALESCE(p_qty, 0) <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be positive';
+  END IF;
+  IF p_from_location_id = p_to_location_id THEN
+    RAISE EXCEPTION 'Source and destination must differ';
+  END IF;
+
+  v_warehouse_id := bin_warehouse_id(p_from_location_id);
+
+  IF v_warehouse_id IS NULL OR bin_warehouse_id(p_to_location_id) IS DISTINCT FROM v_warehouse_id THEN
+    RAISE EXCEPTION 'Bin moves must stay within one warehouse';
+  END IF;
+
+  PERFORM bin_stock_location(v_warehouse_id, p_from_location_id);
+  PERFORM bin_stock_location(v_warehouse_id, p_to_location_id);
+
+  v_on_hand := lock_balance_qty(
+    v_tenant_id, p_product_id, p_from_location_id, p_lot_number, p_expiry_date
+  );
+  v_reserved := get_reserved_qty(
+    v_tenant_id, p_product_id, p_from_location_id, p_lot_number, p_expiry_date
+  );
+
+  IF p_qty > v_on_hand - v_reserved THEN
+    RAISE EXCEPTION 'Insufficient available stock: on hand %, reserved %, need %',
+      v_on_hand, v_reserved, p_qty;
+  END IF;
+
+  v_serials := normalize_serial_numbers(p_product_id, p_qty, p_serial_numbers);
+
+  INSERT INTO bin_moves (
+    tenant_id, product_id, from_location_id, to_location_id, qty,
+    lot_number, expiry_date, serial_numbers, notes, created_by
+  ) VALUES (
+    v_tenant_id, p_product_id, p_from_location_id, p_to_location_id, p_qty,
+    NULLIF(TRIM(p_lot_number), ''), p_expiry_date, v_serials, p_notes, auth.uid()
+  )
+  RETURNING id INTO v_move_id;
+
+  v_unit_cost := apply_stock_movement(
+    v_tenant_id, p_product_id, p_from_location_id, -p_qty,
+    'bin_move', 'bin_move', v_move_id, p_lot_number, p_expiry_date
+  );
+
+  PERFORM apply_stock_movement(
+    v_tenant_id, p_product_id, p_to_location_id, p_qty,
+    'bin_move', 'bin_move', v_move_id, p_lot_number, p_expiry_date, v_unit_cost
+  );
+
+  SELECT id INTO v_out_movement_id
+  FROM stock_movements
+  WHERE reference_type = 'bin_move' AND reference_id = v_move_id AND qty < 0;
+
+  SELECT id INTO v_in_movement_id
+  FROM stock_movements
+  WHERE reference_type = 'bin_move' AND reference_id = v_move_id AND qty > 0;
+
+  PERFORM apply_serial_movement(
+    v_tenant_id, p_product_id, p_from_location_id, v_serials, -1,
+    'bin_move', 'bin_move', v_move_id, NULL, NULL, v_out_movement_id
+  );
+  PERFORM apply_serial_movement(
+    v_tenant_id, p_product_id, p_to_location_id, v_serials, 1,
+    'bin_move', 'bin_move', v_move_id, p_lot_number, p_expiry_date, v_in_movement_id
+  );
+
+  UPDATE bin_moves SET unit_cost = v_unit_cost WHERE id = v_move_id;
+
+  RETURN v_move_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION move_bin_stock(UUID, UUID, UUID, NUMERIC, TEXT, DATE, TEXT[], TEXT) TO authenticated;
+
+
+-- -----------------------------------------------------------------------------
+-- 6. receive_purchase_order() - putaway bin per receipt line
+-- -----------------------------------------------------------------------------
+-- p_lines items accept an optional "bin_id" under the PO's location.
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+  p_po_id UUID,
+  p_lines JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_po purchase_orders%ROWTYPE;
+  v_input RECORD;
+  v_line purchase_order_lines%ROWTYPE;
+  v_location_id UUID;
+  v_lot_number TEXT;
+  v_serials TEXT[];
+  v_receipt_id UUID;
+  v_movement_id UUID;
+  v_layer_id UUID;
+  v_all_complete BOOLEAN;
+  v_any_received BOOLEAN;
+  v_status document_status;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_po FROM purchase_orders WHERE id = p_po_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+  IF v_po.status = 'draft' THEN
+    RAISE EXCEPTION 'PO must be confirmed before receiving';
+  END IF;
+  IF v_po.status = 'completed' THEN
+    RAISE EXCEPTION 'PO is already completed';
+  END IF;
+  IF v_po.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cannot receive cancelled PO';
+  END IF;
+
+  FOR v_input IN
+    SELECT *
+    FROM jsonb_to_recordset(p_lines) AS x(
+      line_id UUID,
+      qty_to_receive NUMERIC,
+      lot_number TEXT,
+      expiry_date DATE,
+      entered_qty NUMERIC,
+      entered_uom TEXT,
+      serial_numbers JSONB,
+      bin_id UUID
+    )
+    ORDER BY line_id
+  LOOP
+    CONTINUE WHEN COALESCE(v_input.qty_to_receive, 0) <= 0;
+
+    SELECT * INTO v_line
+    FROM purchase_order_lines
+    WHERE id = v_input.line_id AND po_id = p_po_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order line % not found', v_input.line_id;
+    END IF;
+
+    IF COALESCE(v_line.qty_received, 0) + v_input.qty_to_receive > v_line.qty_ordered THEN
+      RAISE EXCEPTION 'Cannot receive more than ordered for line %', v_input.line_id;
+    END IF;
+
+    v_location_id := bin_stock_location(v_po.location_id, v_input.bin_id);
+
+    v_serials := normalize_serial_numbers(
+      v_line.product_id, v_input.qty_to_receive,
+      ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_input.serial_numbers, '[]'::jsonb)))
+    );
+
+    IF v_receipt_id IS NULL THEN
+      INSERT INTO po_receipts (tenant_id, po_id, created_by)
+      VALUES (v_po.tenant_id, p_po_id, auth.uid())
+      RETURNING id INTO v_receipt_id;
+    END IF;
+
+    UPDATE purchase_order_lines
+    SET qty_received = COALESCE(qty_received, 0) + v_input.qty_to_receive
+    WHERE id = v_line.id;
+
+    PERFORM apply_stock_movement(
+      v_po.tenant_id, v_line.product_id, v_location_id, v_input.qty_to_receive,
+      'receive', 'po', p_po_id, v_input.lot_number, v_input.expiry_date,
+      COALESCE(v_line.unit_cost, 0)
+    );
+
+    v_lot_number := NULLIF(TRIM(v_input.lot_number), '');
+
+    SELECT sm.id INTO v_movement_id
+    FROM stock_movements sm
+    WHERE sm.reference_type = 'po'
+      AND sm.reference_id = p_po_id
+      AND sm.movement_type = 'receive'
+      AND sm.product_id = v_line.product_id
+      AND sm.location_id = v_location_id
+      AND NOT EXISTS (SELECT 1 FROM po_receipt_lines rl WHERE rl.movement_id = sm.id)
+    ORDER BY sm.created_at DESC
+    LIMIT 1;
+
+    SELECT cl.id INTO v_layer_id
+    FROM cost_layers cl
+    WHERE cl.reference_type = 'po'
+      AND cl.reference_id = p_po_id
+      AND cl.product_id = v_line.product_id
+    ORDER BY cl.received_at DESC
+    LIMIT 1;
+
+    PERFORM apply_serial_movement(
+      v_po.tenant_id, v_line.product_id, v_location_id, v_serials, 1,
+      'receive', 'po', p_po_id, v_lot_number, v_input.expiry_date, v_movement_id
+    );
+
+    INSERT INTO po_receipt_lines (
+      tenant_id, receipt_id, po_line_id, product_id, qty, entered_qty, entered_uom,
+      lot_number, expiry_date, unit_cost, movement_id, cost_layer_id, serial_numbers, bin_id
+    ) VALUES (
+      v_po.tenant_id, v_receipt_id, v_line.id, v_line.product_id, v_input.qty_to_receive,
+      v_input.entered_qty, NULLIF(TRIM(v_input.entered_uom), ''),
+      v_lot_number, v_input.expiry_date, COALESCE(v_line.unit_cost, 0), v_movement_id, v_layer_id,
+      v_serials, v_input.bin_id
+    );
+
+    UPDATE products
+    SET current_cost = COALESCE(v_line.unit_cost, 0), updated_at = NOW()
+    WHERE id = v_line.product_id;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_input.qty_to_receive);
+  END LOOP;
+
+  SELECT
+    BOOL_AND(COALESCE(qty_received, 0) >= qty_ordered),
+    BOOL_OR(COALESCE(qty_received, 0) > 0)
+  INTO v_all_complete, v_any_received
+  FROM purchase_order_lines
+  WHERE po_id = p_po_id;
+
+  v_status := CASE
+    WHEN v_all_complete THEN 'completed'
+    WHEN v_any_received THEN 'partial'
+    ELSE 'confirmed'
+  END;
+
+  UPDATE purchase_orders
+  SET status = v_status, updated_at = NOW()
+  WHERE id = p_po_id;
+
+  RETURN jsonb_build_object('status', v_status, 'receipt_id', v_receipt_id, 'items', v_items);
+END;
+$$;
+
+
+-- -----------------------------------------------------------------------------
+-- 7. Shipments - reserve and pick from the line's bin, backorders keep it
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION confirm_shipment(p_shipment_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_shipment shipments%ROWTYPE;
+  v_line RECORD;
+  v_location_id UUID;
+  v_expiry_hours INTEGER;
+  v_on_hand NUMERIC;
+  v_reserved NUMERIC;
+  v_reserve_qty NUMERIC;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_shipment FROM shipments WHERE id = p_shipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment not found';
+  END IF;
+  IF v_shipment.status <> 'draft' THEN
+    RAISE EXCEPTION 'Can only confirm draft shipments';
+  END IF;
+
+  PERFORM release_expired_reservations();
+
+  SELECT (settings ->> 'reservation_expiry_hours')::INTEGER
+  INTO v_expiry_hours
+  FROM tenants
+  WHERE id = v_shipment.tenant_id;
+
+  FOR v_line IN
+    SELECT sl.*, p.sku
+    FROM shipment_lines sl
+    JOIN products p ON p.id = sl.product_id
+    WHERE sl.shipment_id = p_shipment_id
+    ORDER BY sl.product_id, sl.lot_number NULLS FIRST, sl.expiry_date NULLS FIRST, sl.id
+  LOOP
+    v_location_id := bin_stock_location(v_shipment.location_id, v_line.bin_id);
+
+    v_on_hand := lock_balance_qty(
+      v_shipment.tenant_id, v_line.product_id, v_location_id,
+      v_line.lot_number, v_line.expiry_date
+    );
+    v_reserved := get_reserved_qty(
+      v_shipment.tenant_id, v_line.product_id, v_location_id,
+      v_line.lot_number, v_line.expiry_date
+    );
+
+    v_reserve_qty := LEAST(v_line.qty - v_line.qty_shipped, GREATEST(v_on_hand - v_reserved, 0));
+
+    IF v_reserve_qty > 0 THEN
+      INSERT INTO reservations (
+        tenant_id, shipment_id, product_id, location_id, qty,
+        lot_number, expiry_date, status, expires_at
+      ) VALUES (
+        v_shipment.tenant_id, p_shipment_id, v_line.product_id, v_location_id, v_reserve_qty,
+        NULLIF(TRIM(v_line.lot_number), ''), v_line.expiry_date, 'active',
+        CASE WHEN COALESCE(v_expiry_hours, 0) > 0 THEN NOW() + make_interval(hours => v_expiry_hours) END
+      );
+    END IF;
+
+    v_items := v_items || jsonb_build_object(
+      'product_id', v_line.product_id,
+      'qty', v_line.qty,
+      'reserved', v_reserve_qty
+    );
+  END LOOP;
+
+  UPDATE shipments
+  SET status = 'confirmed', updated_at = NOW()
+  WHERE id = p_shipment_id;
+
+  RETURN v_items;
+END;
+$$;
+
+
+CREATE OR REPLACE FUNCTION ship_shipment(
+  p_shipment_id UUID,
+  p_ship_date DATE DEFAULT NULL,
+  p_lines JSONB DEFAULT NULL,
+  p_create_backorder BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_shipment shipments%ROWTYPE;
+  v_line RECORD;
+  v_location_id UUID;
+  v_on_hand NUMERIC;
+  v_reserved NUMERIC;
+  v_available NUMERIC;
+  v_remaining NUMERIC;
+  v_to_ship NUMERIC;
+  v_serials TEXT[];
+  v_unit_cost NUMERIC;
+  v_outstanding NUMERIC;
+  v_expiry_hours INTEGER;
+  v_backorder_id UUID;
+  v_status document_status;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_shipment FROM shipments WHERE id = p_shipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment not found';
+  END IF;
+  IF v_shipment.status NOT IN ('confirmed', 'partial') THEN
+    RAISE EXCEPTION 'Can only ship confirmed or partially shipped shipments';
+  END IF;
+
+  -- Consistent line order keeps balance locks deadlock-free between postings
+  FOR v_line IN
+    SELECT sl.*, p.sku
+    FROM shipment_lines sl
+    JOIN products p ON p.id = sl.product_id
+    WHERE sl.shipment_id = p_shipment_id
+    ORDER BY sl.product_id, sl.lot_number NULLS FIRST, sl.expiry_date NULLS FIRST, sl.id
+    FOR UPDATE OF sl
+  LOOP
+    v_remaining := v_line.qty - v_line.qty_shipped;
+    CONTINUE WHEN v_remaining <= 0;
+
+    v_location_id := bin_stock_location(v_shipment.location_id, v_line.bin_id);
+
+    v_on_hand := lock_balance_qty(
+      v_shipment.tenant_id, v_line.product_id, v_location_id,
+      v_line.lot_number, v_line.expiry_date
+    );
+    v_reserved := get_reserved_qty(
+      v_shipment.tenant_id, v_line.product_id, v_location_id,
+      v_line.lot_number, v_line.expiry_date, p_shipment_id
+    );
+    v_available := GREATEST(v_on_hand - v_reserved, 0);
+
+    IF p_lines IS NULL THEN
+      v_to_ship := LEAST(v_remaining, v_available);
+    ELSE
+      SELECT COALESCE(SUM(x.qty_to_ship), 0) INTO v_to_ship
+      FROM jsonb_to_recordset(p_lines) AS x(line_id UUID, qty_to_ship NUMERIC)
+      WHERE x.line_id = v_line.id;
+
+      IF v_to_ship < 0 THEN
+        RAISE EXCEPTION 'Quantity to ship for % cannot be negative', v_line.sku;
+      END IF;
+      IF v_to_ship > v_remaining THEN
+        RAISE EXCEPTION 'Cannot ship more than ordered for %: remaining %, requested %',
+          v_line.sku, v_remaining, v_to_ship;
+      END IF;
+      IF v_to_ship > v_available THEN
+        RAISE EXCEPTION 'Insufficient available stock for %: on hand %, reserved %, need %',
+          v_line.sku, v_on_hand, v_reserved, v_to_ship;
+      END IF;
+    END IF;
+
+    CONTINUE WHEN v_to_ship <= 0;
+
+    v_serials := normalize_serial_numbers(v_line.product_id, v_line.qty, v_line.serial_numbers);
+
+    IF v_serials IS NOT NULL THEN
+      IF v_to_ship <> TRUNC(v_to_ship) THEN
+        RAISE EXCEPTION 'Serialized % ships in whole units', v_line.sku;
+      END IF;
+
+      v_serials := (shipment_pending_serials(p_shipment_id, v_line.product_id, v_serials))[1:v_to_ship::INTEGER];
+    END IF;
+
+    v_unit_cost := apply_stock_movement(
+      v_shipment.tenant_id, v_line.product_id, v_location_id, -v_to_ship,
+      'ship', 'shipment', p_shipment_id, v_line.lot_number, v_line.expiry_date
+    );
+
+    PERFORM apply_serial_movement(
+      v_shipment.tenant_id, v_line.product_id, v_location_id, v_serials, -1,
+      'ship', 'shipment', p_shipment_id
+    );
+
+    -- Later partial shipments may leave at a different cost, so the line
+    -- keeps the quantity-weighted average of everything it shipped
+    UPDATE shipment_lines
+    SET unit_cost = (COALESCE(unit_cost, 0) * qty_shipped + v_unit_cost * v_to_ship) / (qty_shipped + v_to_ship),
+        qty_shipped = qty_shipped + v_to_ship
+    WHERE id = v_line.id;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_to_ship);
+  END LOOP;
+
+  IF jsonb_array_length(v_items) = 0 THEN
+    RAISE EXCEPTION 'No stock available to ship';
+  END IF;
+
+  -- Reservations are rebuilt for whatever is still outstanding
+  UPDATE reservations
+  SET status = 'consumed'
+  WHERE shipment_id = p_shipment_id AND status = 'active';
+
+  SELECT COALESCE(SUM(qty - qty_shipped), 0) INTO v_outstanding
+  FROM shipment_lines
+  WHERE shipment_id = p_shipment_id;
+
+  IF v_outstanding > 0 AND p_create_backorder THEN
+    INSERT INTO shipments (
+      tenant_id, shipment_number, location_id, customer_id, customer_name,
+      status, notes, created_by, backorder_of
+    ) VALUES (
+      v_shipment.tenant_id, next_doc_number(v_shipment.tenant_id, 'shipment'),
+      v_shipment.location_id, v_shipment.customer_id, v_shipment.customer_name,
+      'draft', v_shipment.notes, auth.uid(), p_shipment_id
+    )
+    RETURNING id INTO v_backorder_id;
+
+    INSERT INTO shipment_lines (shipment_id, product_id, qty, lot_number, expiry_date, serial_numbers, bin_id)
+    SELECT
+      v_backorder_id, product_id, qty - qty_shipped, lot_number, expiry_date,
+      CASE WHEN serial_numbers IS NOT NULL
+        THEN shipment_pending_serials(p_shipment_id, product_id, serial_numbers)
+      END,
+      bin_id
+    FROM shipment_lines
+    WHERE shipment_id = p_shipment_id AND qty > qty_shipped;
+
+    v_status := 'completed';
+  ELSIF v_outstanding > 0 THEN
+    SELECT (settings ->> 'reservation_expiry_hours')::INTEGER
+    INTO v_expiry_hours
+    FROM tenants
+    WHERE id = v_shipment.tenant_id;
+
+    INSERT INTO reservations (
+      tenant_id, shipment_id, product_id, location_id, qty,
+      lot_number, expiry_date, status, expires_at
+    )
+    SELECT
+      v_shipment.tenant_id, p_shipment_id, x.product_id, x.location_id, x.reserve_qty,
+      NULLIF(TRIM(x.lot_number), ''), x.expiry_date, 'active',
+      CASE WHEN COALESCE(v_expiry_hours, 0) > 0 THEN NOW() + make_interval(hours => v_expiry_hours) END
+    FROM (
+      SELECT
+        sl.product_id, COALESCE(sl.bin_id, v_shipment.location_id) AS location_id,
+        sl.lot_number, sl.expiry_date,
+        LEAST(
+          sl.qty - sl.qty_shipped,
+          GREATEST(
+            COALESCE(b.qty_on_hand, 0) - get_reserved_qty(
+              v_shipment.tenant_id, sl.product_id, COALESCE(sl.bin_id, v_shipment.location_id),
+              sl.lot_number, sl.expiry_date
+            ),
+            0
+          )
+        ) as reserve_qty
+      FROM shipment_lines sl
+      LEFT JOIN inventory_balances b
+        ON b.tenant_id = v_shipment.tenant_id
+        AND b.product_id = sl.product_id
+        AND b.location_id = COALESCE(sl.bin_id, v_shipment.location_id)
+        AND COALESCE(b.lot_number, '') = COALESCE(NULLIF(TRIM(sl.lot_number), ''), '')
+        AND COALESCE(b.expiry_date, '1900-01-01'::date) = COALESCE(sl.expiry_date, '1900-01-01'::date)
+      WHERE sl.shipment_id = p_shipment_id AND sl.qty > sl.qty_shipped
+    ) x
+    WHERE x.reserve_qty > 0;
+
+    v_status := 'partial';
+  ELSE
+    v_status := 'completed';
+  END IF;
+
+  UPDATE shipments
+  SET status = v_status,
+      ship_date = COALESCE(p_ship_date, ship_date, CURRENT_DATE),
+      updated_at = NOW()
+  WHERE id = p_shipment_id;
+
+  RETURN jsonb_build_object(
+    'status', v_status,
+    'backorder_id', v_backorder_id,
+    'items', v_items
+  );
+END;
+$$;
+
+
+CREATE OR REPLACE FUNCTION create_shipment_backorder(p_shipment_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_shipment shipments%ROWTYPE;
+  v_backorder_id UUID;
+BEGIN
+  SELECT * INTO v_shipment FROM shipments WHERE id = p_shipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment not found';
+  END IF;
+  IF v_shipment.status <> 'partial' THEN
+    RAISE EXCEPTION 'Can only create backorders for partially shipped shipments';
+  END IF;
+
+  INSERT INTO shipments (
+    tenant_id, shipment_number, location_id, customer_id, customer_name,
+    status, notes, created_by, backorder_of
+  ) VALUES (
+    v_shipment.tenant_id, next_doc_number(v_shipment.tenant_id, 'shipment'),
+    v_shipment.location_id, v_shipment.customer_id, v_shipment.customer_name,
+    'draft', v_shipment.notes, auth.uid(), p_shipment_id
+  )
+  RETURNING id INTO v_backorder_id;
+
+  INSERT INTO shipment_lines (shipment_id, product_id, qty, lot_number, expiry_date, serial_numbers, bin_id)
+  SELECT
+    v_backorder_id, product_id, qty - qty_shipped, lot_number, expiry_date,
+    CASE WHEN serial_numbers IS NOT NULL
+      THEN shipment_pending_serials(p_shipment_id, product_id, serial_numbers)
+    END,
+    bin_id
+  FROM shipment_lines
+  WHERE shipment_id = p_shipment_id AND qty > qty_shipped;
+
+  UPDATE reservations
+  SET status = 'released'
+  WHERE shipment_id = p_shipment_id AND status = 'active';
+
+  UPDATE shipments
+  SET status = 'completed', updated_at = NOW()
+  WHERE id = p_shipment_id;
+
+  RETURN v_backorder_id;
+END;
+$$;
+
+
+-- -----------------------------------------------------------------------------
+-- 8. get_fefo_allocation() - allocate from the warehouse and its bins
+-- -----------------------------------------------------------------------------
+-- With p_include_bins a warehouse allocates from its own stock and from all
+-- of its active bins; each pick says which bin it comes from (NULL for the
+-- warehouse's own stock). Documents whose lines have no bin leave it off and
+-- only see the location itself. A bin passed as p_location_id only ever
+-- allocates from that bin.
+DROP FUNCTION IF EXISTS get_fefo_allocation(UUID, UUID, UUID, NUMERIC);
+
+CREATE OR REPLACE FUNCTION get_fefo_allocation(
+  p_tenant_id UUID,
+  p_product_id UUID,
+  p_location_id UUID,
+  p_qty_needed NUMERIC,
+  p_include_bins BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  lot_number TEXT,
+  expiry_date DATE,
+  qty_to_use NUMERIC,
+  available_qty NUMERIC,
+  bin_id UUID
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_remaining NUMERIC := p_qty_needed;
+  v_row RECORD;
+BEGIN
+  FOR v_row IN
+    SELECT
+      NULLIF(b.lot_number, '') AS lot,
+      b.expiry_date AS expiry,
+      b.qty_on_hand - COALESCE(rs.reserved_qty, 0) AS available,
+      NULLIF(b.location_id, p_location_id) AS bin
+    FROM inventory_balances b
+    LEFT JOIN reserved_stock rs
+      ON rs.tenant_id = b.tenant_id
+      AND rs.product_id = b.product_id
+      AND rs.location_id = b.location_id
+      AND COALESCE(rs.lot_number, '') = COALESCE(b.lot_number, '')
+      AND COALESCE(rs.expiry_date, '1900-01-01'::date) = COALESCE(b.expiry_date, '1900-01-01'::date)
+    WHERE b.tenant_id = p_tenant_id
+      AND b.product_id = p_product_id
+      AND (
+        b.location_id = p_location_id
+        OR (p_include_bins AND b.location_id IN (
+          SELECT l.id
+          FROM locations l
+          WHERE l.parent_id = p_location_id
+            AND l.type::TEXT = 'bin'
+            AND l.active
+        ))
+      )
+      AND (b.expiry_date IS NULL OR b.expiry_date >= CURRENT_DATE)
+      AND b.qty_on_hand - COALESCE(rs.reserved_qty, 0) > 0
+    -- Within one lot the warehouse's own stock goes before its bins
+    ORDER BY b.expiry_date ASC NULLS LAST, b.lot_number ASC NULLS LAST,
+      (b.location_id = p_location_id) DESC, b.location_id
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+
+    lot_number := v_row.lot;
+    expiry_date := v_row.expiry;
+    available_qty := v_row.available;
+    bin_id := v_row.bin;
+    qty_to_use := LEAST(v_row.available, v_remaining);
+    v_remaining := v_remaining - qty_to_use;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_fefo_allocation(UUID, UUID, UUID, NUMERIC, BOOLEAN) TO authenticated;
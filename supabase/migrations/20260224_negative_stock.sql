@@ -0,0 +1,646 @@
+-- =============================================================================
+-- Negative stock policy
+-- =============================================================================
+-- Outbound postings normally fail when a balance is short. Stores that sell
+-- before goods are received in the system can instead let balances go
+-- negative:
+--   - tenants.settings.allow_negative_stock: tenant-wide default (off)
+--   - locations.allow_negative_stock: per-location override, NULL inherits
+--     (a bin without an override follows its warehouse)
+--
+-- The part of an outbound movement not covered by stock on hand is costed at
+-- the balance's last average cost, or the product's current_cost when the
+-- balance never had one, and recorded in negative_stock_deficits.
+--
+-- Inbound movements settle open deficits oldest first before opening a cost
+-- layer for the rest. The outbound movement that created a deficit is
+-- re-costed by the difference between the inbound cost and the deficit cost
+-- for the settled quantity, the same way landed costs correct a receipt.
+-- =============================================================================
+
+
+-- -----------------------------------------------------------------------------
+-- 1. Per-location override
+-- -----------------------------------------------------------------------------
+ALTER TABLE locations ADD COLUMN IF NOT EXISTS allow_negative_stock BOOLEAN;
+
+
+-- -----------------------------------------------------------------------------
+-- 2. negative_stock_deficits
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS negative_stock_deficits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  product_id UUID NOT NULL REFERENCES products(id),
+  location_id UUID NOT NULL REFERENCES locations(id),
+  lot_number TEXT,
+  expiry_date DATE,
+  -- Outbound movement that took the balance below zero
+  movement_id UUID REFERENCES stock_movements(id) ON DELETE SET NULL,
+  qty NUMERIC NOT NULL CHECK (qty > 0),
+  remaining_qty NUMERIC NOT NULL CHECK (remaining_qty >= 0),
+  -- Provisional cost the shortfall left with
+  unit_cost NUMERIC NOT NULL DEFAULT 0,
+  -- Inbound cost of the quantity settled so far
+  settled_value NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp(),
+  settled_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_negative_stock_deficits_open
+  ON negative_stock_deficits(tenant_id, product_id, location_id, created_at)
+  WHERE remaining_qty > 0;
+
+ALTER TABLE negative_stock_deficits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS tenant_isolation ON negative_stock_deficits;
+CREATE POLICY tenant_isolation ON negative_stock_deficits
+  FOR ALL USING (tenant_id = get_user_tenant_id());
+
+
+-- -----------------------------------------------------------------------------
+-- 3. Helpers
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION negative_stock_allowed(
+  p_tenant_id UUID,
+  p_location_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    l.allow_negative_stock,
+    w.allow_negative_stock,
+    (t.settings->>'allow_negative_stock')::boolean,
+    false
+  )
+  FROM tenants t
+  LEFT JOIN locations l ON l.id = p_location_id AND l.tenant_id = t.id
+  LEFT JOIN locations w ON w.id = l.parent_id AND l.type = 'bin'
+  WHERE t.id = p_tenant_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION negative_stock_allowed(UUID, UUID) TO authenticated;
+
+-- Settles open deficits of a balance oldest first with p_qty arriving at
+-- p_unit_cost, re-costing the outbound movements behind them. Returns the
+-- quantity used.
+CREATE OR REPLACE FUNCTION settle_negative_stock(
+  p_tenant_id UUID,
+  p_product_id UUID,
+  p_location_id UUID,
+  p_lot_number TEXT,
+  p_expiry_date DATE,
+  p_qty NUMERIC,
+  p_unit_cost NUMERIC
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_remaining NUMERIC := p_qty;
+  v_take NUMERIC;
+  v_deficit RECORD;
+BEGIN
+  FOR v_deficit IN
+    SELECT d.id, d.remaining_qty, d.unit_cost, d.movement_id, ABS(sm.qty) AS movement_qty
+    FROM negative_stock_deficits d
+    LEFT JOIN stock_movements sm ON sm.id = d.movement_id
+    WHERE d.tenant_id = p_tenant_id
+      AND d.product_id = p_product_id
+      AND d.location_id = p_location_id
+      AND COALESCE(d.lot_number, '') = COALESCE(NULLIF(TRIM(p_lot_number), ''), '')
+      AND COALESCE(d.expiry_date, '1900-01-01'::date) = COALESCE(p_expiry_date, '1900-01-01'::date)
+      AND d.remaining_qty > 0
+    ORDER BY d.created_at, d.id
+    FOR UPDATE OF d
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+
+    v_take := LEAST(v_deficit.remaining_qty, v_remaining);
+
+    UPDATE negative_stock_deficits
+    SET remaining_qty = remaining_qty - v_take,
+        settled_value = settled_value + v_take * p_unit_cost,
+        settled_at = CASE WHEN remaining_qty - v_take <= 0 THEN NOW() END
+    WHERE id = v_deficit.id;
+
+    -- extended_cost is a generated column
+    IF v_deficit.movement_qty > 0 THEN
+      UPDATE stock_movements
+      SET unit_cost = COALESCE(unit_cost, 0)
+            + v_take * (p_unit_cost - v_deficit.unit_cost) / v_deficit.movement_qty
+      WHERE id = v_deficit.movement_id;
+    END IF;
+
+    v_remaining := v_remaining - v_take;
+  END LOOP;
+
+  RETURN p_qty - v_remaining;
+END;
+$$;
+
+
+-- -----------------------------------------------------------------------------
+-- 4. apply_stock_movement() - allow shortfalls where the policy permits
+-- -----------------------------------------------------------------------------
+-- Only the quantity on hand consumes cost layers; the shortfall is costed at
+-- the deficit cost whichever costing method the tenant uses.
+CREATE OR REPLACE FUNCTION apply_stock_movement(
+  p_tenant_id UUID,
+  p_product_id UUID,
+  p_location_id UUID,
+  p_qty NUMERIC,
+  p_movement_type movement_type,
+  p_reference_type TEXT,
+  p_reference_id UUID,
+  p_lot_number TEXT DEFAULT NULL,
+  p_expiry_date DATE DEFAULT NULL,
+  p_unit_cost NUMERIC DEFAULT NULL,
+  p_reason adjustment_reason DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_lot_number TEXT := NULLIF(TRIM(p_lot_number), '');
+  v_is_fifo BOOLEAN := get_costing_method(p_tenant_id) = 'fifo';
+  v_balance_id UUID;
+  v_qty_on_hand NUMERIC;
+  v_avg_cost NUMERIC;
+  v_unit_cost NUMERIC;
+  v_layer_cost NUMERIC;
+  v_new_qty NUMERIC;
+  v_from_stock NUMERIC;
+  v_shortfall NUMERIC := 0;
+  v_deficit_cost NUMERIC;
+  v_settled NUMERIC;
+  v_movement_id UUID;
+  v_sku TEXT;
+BEGIN
+  -- Lock the balance row (legacy rows may store '' instead of NULL lots)
+  SELECT id, qty_on_hand, avg_cost
+  INTO v_balance_id, v_qty_on_hand, v_avg_cost
+  FROM inventory_balances
+  WHERE tenant_id = p_tenant_id
+    AND product_id = p_product_id
+    AND location_id = p_location_id
+    AND COALESCE(lot_number, '') = COALESCE(v_lot_number, '')
+    AND COALESCE(expiry_date, '1900-01-01'::date) = COALESCE(p_expiry_date, '1900-01-01'::date)
+  LIMIT 1
+  FOR UPDATE;
+
+  v_unit_cost := COALESCE(p_unit_cost, v_avg_cost, 0);
+
+  IF p_qty < 0 THEN
+    v_from_stock := LEAST(GREATEST(COALESCE(v_qty_on_hand, 0), 0), ABS(p_qty));
+    v_shortfall := ABS(p_qty) - v_from_stock;
+
+    IF v_shortfall > 0 THEN
+      IF NOT negative_stock_allowed(p_tenant_id, p_location_id) THEN
+        SELECT sku INTO v_sku FROM products WHERE id = p_product_id;
+        RAISE EXCEPTION 'Insufficient stock for %: have %, need %',
+          COALESCE(v_sku, 'product'), COALESCE(v_qty_on_hand, 0), ABS(p_qty);
+      END IF;
+
+      SELECT COALESCE(NULLIF(v_avg_cost, 0), current_cost, 0)
+      INTO v_deficit_cost
+      FROM products
+      WHERE id = p_product_id;
+    END IF;
+
+    IF v_from_stock > 0 THEN
+      v_layer_cost := consume_cost_layers(
+        p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date,
+        v_from_stock, COALESCE(v_avg_cost, 0)
+      );
+
+      IF v_is_fifo THEN
+        v_unit_cost := v_layer_cost;
+      END IF;
+    END IF;
+
+    IF v_shortfall > 0 THEN
+      v_unit_cost := (v_from_stock * v_unit_cost + v_shortfall * COALESCE(v_deficit_cost, 0)) / ABS(p_qty);
+    END IF;
+
+    IF v_balance_id IS NULL THEN
+      INSERT INTO inventory_balances (
+        tenant_id, product_id, location_id, lot_number, expiry_date, qty_on_hand, avg_cost
+      ) VALUES (
+        p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date, p_qty,
+        COALESCE(v_deficit_cost, 0)
+      );
+    ELSE
+      UPDATE inventory_balances
+      SET qty_on_hand = qty_on_hand + p_qty,
+          avg_cost = CASE
+            WHEN v_is_fifo THEN COALESCE(
+              get_cost_layer_avg(p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date),
+              avg_cost
+            )
+            ELSE avg_cost
+          END,
+          updated_at = NOW()
+      WHERE id = v_balance_id;
+    END IF;
+  ELSIF p_qty > 0 THEN
+    v_settled := 0;
+
+    IF COALESCE(v_qty_on_hand, 0) < 0 THEN
+      v_settled := settle_negative_stock(
+        p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date,
+        p_qty, v_unit_cost
+      );
+    END IF;
+
+    IF p_qty > v_settled THEN
+      INSERT INTO cost_layers (
+        tenant_id, product_id, location_id, lot_number, expiry_date,
+        original_qty, remaining_qty, unit_cost, movement_type, reference_type, reference_id
+      ) VALUES (
+        p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date,
+        p_qty - v_settled, p_qty - v_settled, v_unit_cost, p_movement_type, p_reference_type, p_reference_id
+      );
+    END IF;
+
+    IF v_balance_id IS NULL THEN
+      INSERT INTO inventory_balances (
+        tenant_id, product_id, location_id, lot_number, expiry_date, qty_on_hand, avg_cost
+      ) VALUES (
+        p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date, p_qty, v_unit_cost
+      );
+    ELSE
+      v_new_qty := v_qty_on_hand + p_qty;
+
+      UPDATE inventory_balances
+      SET qty_on_hand = v_new_qty,
+          avg_cost = CASE
+            WHEN v_is_fifo THEN COALESCE(
+              get_cost_layer_avg(p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date),
+              v_unit_cost
+            )
+            WHEN v_qty_on_hand <= 0 THEN v_unit_cost
+            ELSE ((v_qty_on_hand * v_avg_cost) + (p_qty * v_unit_cost)) / v_new_qty
+          END,
+          updated_at = NOW()
+      WHERE id = v_balance_id;
+    END IF;
+  ELSE
+    RETURN v_unit_cost;
+  END IF;
+
+  -- extended_cost is a generated column
+  INSERT INTO stock_movements (
+    tenant_id, product_id, location_id, qty, movement_type,
+    reference_type, reference_id, lot_number, expiry_date,
+    unit_cost, reason, created_by
+  ) VALUES (
+    p_tenant_id, p_product_id, p_location_id, p_qty, p_movement_type,
+    p_reference_type, p_reference_id, v_lot_number, p_expiry_date,
+    v_unit_cost, p_reason, auth.uid()
+  )
+  RETURNING id INTO v_movement_id;
+
+  IF v_shortfall > 0 THEN
+    INSERT INTO negative_stock_deficits (
+      tenant_id, product_id, location_id, lot_number, expiry_date,
+      movement_id, qty, remaining_qty, unit_cost
+    ) VALUES (
+      p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date,
+      v_movement_id, v_shortfall, v_shortfall, COALESCE(v_deficit_cost, 0)
+    );
+  END IF;
+
+  RETURN v_unit_cost;
+END;
+$$;
+
+
+-- -----------------------------------------------------------------------------
+-- 5. negative_stock view - balances below zero with their open deficits
+-- -----------------------------------------------------------------------------
+DROP VIEW IF EXISTS negative_stock;
+
+CREATE VIEW negative_stock
+WITH (security_invoker = true)
+AS
+SELECT
+    b.id as balance_id,
+    b.tenant_id,
+    b.product_id,
+    b.location_id,
+    b.lot_number,
+    b.expiry_date,
+    b.qty_on_hand,
+    COALESCE(d.deficit_value, 0) as deficit_value,
+    d.oldest_at
+FROM inventory_balances b
+LEFT JOIN LATERAL (
+    SELECT
+        SUM(nd.remaining_qty * nd.unit_cost) as deficit_value,
+        MIN(nd.created_at) as oldest_at
+    FROM negative_stock_deficits nd
+    WHERE nd.tenant_id = b.tenant_id
+      AND nd.product_id = b.product_id
+      AND nd.location_id = b.location_id
+      AND COALESCE(nd.lot_number, '') = COALESCE(b.lot_number, '')
+      AND COALESCE(nd.expiry_date, '1900-01-01'::date) = COALESCE(b.expiry_date, '1900-01-01'::date)
+      AND nd.remaining_qty > 0
+) d ON true
+WHERE b.qty_on_hand < 0;
+
+GRANT SELECT ON negative_stock TO authenticated;
+
+COMMENT ON VIEW negative_stock IS 'Balances below zero with the provisional value of their open deficits. Uses security_invoker to enforce RLS.';
+
+
+-- -----------------------------------------------------------------------------
+-- 6. ship_shipment() - ship past zero where negative stock is allowed
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION ship_shipment(
+  p_shipment_id UUID,
+  p_ship_date DATE DEFAULT NULL,
+  p_lines JSONB DEFAULT NULL,
+  p_create_backorder BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_shipment shipments%ROWTYPE;
+  v_line RECORD;
+  v_location_id UUID;
+  v_on_hand NUMERIC;
+  v_reserved NUMERIC;
+  v_available NUMERIC;
+  v_remaining NUMERIC;
+  v_to_ship NUMERIC;
+  v_serials TEXT[];
+  v_unit_cost NUMERIC;
+  v_outstanding NUMERIC;
+  v_expiry_hours INTEGER;
+  v_backorder_id UUID;
+  v_status document_status;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_shipment FROM shipments WHERE id = p_shipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment not found';
+  END IF;
+  IF v_shipment.status NOT IN ('confirmed', 'partial') THEN
+    RAISE EXCEPTION 'Can only ship confirmed or partially shipped shipments';
+  END IF;
+
+  -- Consistent line order keeps balance locks deadlock-free between postings
+  FOR v_line IN
+    SELECT sl.*, p.sku
+    FROM shipment_lines sl
+    JOIN products p ON p.id = sl.product_id
+    WHERE sl.shipment_id = p_shipment_id
+    ORDER BY sl.product_id, sl.lot_number NULLS FIRST, sl.expiry_date NULLS FIRST, sl.id
+    FOR UPDATE OF sl
+  LOOP
+    v_remaining := v_line.qty - v_line.qty_shipped;
+    CONTINUE WHEN v_remaining <= 0;
+
+    v_location_id := bin_stock_location(v_shipment.location_id, v_line.bin_id);
+
+    v_on_hand := lock_balance_qty(
+      v_shipment.tenant_id, v_line.product_id, v_location_id,
+      v_line.lot_number, v_line.expiry_date
+    );
+    v_reserved := get_reserved_qty(
+      v_shipment.tenant_id, v_line.product_id, v_location_id,
+      v_line.lot_number, v_line.expiry_date, p_shipment_id
+    );
+    v_available := GREATEST(v_on_hand - v_reserved, 0);
+
+    -- Locations that allow negative stock can ship the whole remainder
+    IF negative_stock_allowed(v_shipment.tenant_id, v_location_id) THEN
+      v_available := v_remaining;
+    END IF;
+
+    IF p_lines IS NULL THEN
+      v_to_ship := LEAST(v_remaining, v_available);
+    ELSE
+      SELECT COALESCE(SUM(x.qty_to_ship), 0) INTO v_to_ship
+      FROM jsonb_to_recordset(p_lines) AS x(line_id UUID, qty_to_ship NUMERIC)
+      WHERE x.line_id = v_line.id;
+
+      IF v_to_ship < 0 THEN
+        RAISE EXCEPTION 'Quantity to ship for % cannot be negative', v_line.sku;
+      END IF;
+      IF v_to_ship > v_remaining THEN
+        RAISE EXCEPTION 'Cannot ship more than ordered for %: remaining %, requested %',
+          v_line.sku, v_remaining, v_to_ship;
+      END IF;
+      IF v_to_ship > v_available THEN
+        RAISE EXCEPTION 'Insufficient available stock for %: on hand %, reserved %, need %',
+          v_line.sku, v_on_hand, v_reserved, v_to_ship;
+      END IF;
+    END IF;
+
+    CONTINUE WHEN v_to_ship <= 0;
+
+    v_serials := normalize_serial_numbers(v_line.product_id, v_line.qty, v_line.serial_numbers);
+
+    IF v_serials IS NOT NULL THEN
+      IF v_to_ship <> TRUNC(v_to_ship) THEN
+        RAISE EXCEPTION 'Serialized % ships in whole units', v_line.sku;
+      END IF;
+
+      v_serials := (shipment_pending_serials(p_shipment_id, v_line.product_id, v_serials))[1:v_to_ship::INTEGER];
+    END IF;
+
+    v_unit_cost := apply_stock_movement(
+      v_shipment.tenant_id, v_line.product_id, v_location_id, -v_to_ship,
+      'ship', 'shipment', p_shipment_id, v_line.lot_number, v_line.expiry_date
+    );
+
+    PERFORM apply_serial_movement(
+      v_shipment.tenant_id, v_line.product_id, v_location_id, v_serials, -1,
+      'ship', 'shipment', p_shipment_id
+    );
+
+    -- Later partial shipments may leave at a different cost, so the line
+    -- keeps the quantity-weighted average of everything it shipped
+    UPDATE shipment_lines
+    SET unit_cost = (COALESCE(unit_cost, 0) * qty_shipped + v_unit_cost * v_to_ship) / (qty_shipped + v_to_ship),
+        qty_shipped = qty_shipped + v_to_ship
+    WHERE id = v_line.id;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_to_ship);
+  END LOOP;
+
+  IF jsonb_array_length(v_items) = 0 THEN
+    RAISE EXCEPTION 'No stock available to ship';
+  END IF;
+
+  -- Reservations are rebuilt for whatever is still outstanding
+  UPDATE reservations
+  SET status = 'consumed'
+  WHERE shipment_id = p_shipment_id AND status = 'active';
+
+  SELECT COALESCE(SUM(qty - qty_shipped), 0) INTO v_outstanding
+  FROM shipment_lines
+  WHERE shipment_id = p_shipment_id;
+
+  IF v_outstanding > 0 AND p_create_backorder THEN
+    INSERT INTO shipments (
+      tenant_id, shipment_number, location_id, customer_id, customer_name,
+      status, notes, created_by, backorder_of
+    ) VALUES (
+      v_shipment.tenant_id, next_doc_number(v_shipment.tenant_id, 'shipment'),
+      v_shipment.location_id, v_shipment.customer_id, v_shipment.customer_name,
+      'draft', v_shipment.notes, auth.uid(), p_shipment_id
+    )
+    RETURNING id INTO v_backorder_id;
+
+    INSERT INTO shipment_lines (shipment_id, product_id, qty, lot_number, expiry_date, serial_numbers, bin_id)
+    SELECT
+      v_backorder_id, product_id, qty - qty_shipped, lot_number, expiry_date,
+      CASE WHEN serial_numbers IS NOT NULL
+        THEN shipment_pending_serials(p_shipment_id, product_id, serial_numbers)
+      END,
+      bin_id
+    FROM shipment_lines
+    WHERE shipment_id = p_shipment_id AND qty > qty_shipped;
+
+    v_status := 'completed';
+  ELSIF v_outstanding > 0 THEN
+    SELECT (settings ->> 'reservation_expiry_hours')::INTEGER
+    INTO v_expiry_hours
+    FROM tenants
+    WHERE id = v_shipment.tenant_id;
+
+    INSERT INTO reservations (
+      tenant_id, shipment_id, product_id, location_id, qty,
+      lot_number, expiry_date, status, expires_at
+    )
+    SELECT
+      v_shipment.tenant_id, p_shipment_id, x.product_id, x.location_id, x.reserve_qty,
+      NULLIF(TRIM(x.lot_number), ''), x.expiry_date, 'active',
+      CASE WHEN COALESCE(v_expiry_hours, 0) > 0 THEN NOW() + make_interval(hours => v_expiry_hours) END
+    FROM (
+      SELECT
+        sl.product_id, COALESCE(sl.bin_id, v_shipment.location_id) AS location_id,
+        sl.lot_number, sl.expiry_date,
+        LEAST(
+          sl.qty - sl.qty_shipped,
+          GREATEST(
+            COALESCE(b.qty_on_hand, 0) - get_reserved_qty(
+              v_shipment.tenant_id, sl.product_id, COALESCE(sl.bin_id, v_shipment.location_id),
+              sl.lot_number, sl.expiry_date
+            ),
+            0
+          )
+        ) as reserve_qty
+      FROM shipment_lines sl
+      LEFT JOIN inventory_balances b
+        ON b.tenant_id = v_shipment.tenant_id
+        AND b.product_id = sl.product_id
+        AND b.location_id = COALESCE(sl.bin_id, v_shipment.location_id)
+        AND COALESCE(b.lot_number, '') = COALESCE(NULLIF(TRIM(sl.lot_number), ''), '')
+        AND COALESCE(b.expiry_date, '1900-01-01'::date) = COALESCE(sl.expiry_date, '1900-01-01'::date)
+      WHERE sl.shipment_id = p_shipment_id AND sl.qty > sl.qty_shipped
+    ) x
+    WHERE x.reserve_qty > 0;
+
+    v_status := 'partial';
+  ELSE
+    v_status := 'completed';
+  END IF;
+
+  UPDATE shipments
+  SET status = v_status,
+      ship_date = COALESCE(p_ship_date, ship_date, CURRENT_DATE),
+      updated_at = NOW()
+  WHERE id = p_shipment_id;
+
+  RETURN jsonb_build_object(
+    'status', v_status,
+    'backorder_id', v_backorder_id,
+    'items', v_items
+  );
+END;
+$$;
+
+
+-- -----------------------------------------------------------------------------
+-- 7. send_transfer() - send past zero where negative stock is allowed
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION send_transfer(
+  p_transfer_id UUID,
+  p_sent_date DATE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transfer transfers%ROWTYPE;
+  v_line RECORD;
+  v_on_hand NUMERIC;
+  v_reserved NUMERIC;
+  v_unit_cost NUMERIC;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_transfer FROM transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+  IF v_transfer.status <> 'draft' THEN
+    RAISE EXCEPTION 'Can only send draft transfers';
+  END IF;
+
+  FOR v_line IN
+    SELECT tl.*, p.sku
+    FROM transfer_lines tl
+    JOIN products p ON p.id = tl.product_id
+    WHERE tl.transfer_id = p_transfer_id
+    ORDER BY tl.product_id, tl.lot_number NULLS FIRST, tl.expiry_date NULLS FIRST, tl.id
+  LOOP
+    v_on_hand := lock_balance_qty(
+      v_transfer.tenant_id, v_line.product_id, v_transfer.from_location_id,
+      v_line.lot_number, v_line.expiry_date
+    );
+    v_reserved := get_reserved_qty(
+      v_transfer.tenant_id, v_line.product_id, v_transfer.from_location_id,
+      v_line.lot_number, v_line.expiry_date
+    );
+
+    IF v_on_hand - v_reserved < v_line.qty
+      AND NOT negative_stock_allowed(v_transfer.tenant_id, v_transfer.from_location_id) THEN
+      RAISE EXCEPTION 'Insufficient available stock for %: on hand %, reserved %, need %',
+        v_line.sku, v_on_hand, v_reserved, v_line.qty;
+    END IF;
+
+    v_unit_cost := apply_stock_movement(
+      v_transfer.tenant_id, v_line.product_id, v_transfer.from_location_id, -v_line.qty,
+      'transfer_out', 'transfer', p_transfer_id, v_line.lot_number, v_line.expiry_date
+    );
+
+    PERFORM apply_serial_movement(
+      v_transfer.tenant_id, v_line.product_id, v_transfer.from_location_id,
+      normalize_serial_numbers(v_line.product_id, v_line.qty, v_line.serial_numbers), -1,
+      'transfer_out', 'transfer', p_transfer_id
+    );
+
+    -- Destination receives at the cost it left the source with
+    UPDATE transfer_lines SET unit_cost = v_unit_cost WHERE id = v_line.id;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_line.qty);
+  END LOOP;
+
+  UPDATE transfers
+  SET status = 'confirmed',
+      sent_at = COALESCE(p_sent_date, CURRENT_DATE),
+      updated_at = NOW()
+  WHERE id = p_transfer_id;
+
+  RETURN v_items;
+END;
+$$;
@@ -0,0 +1,252 @@
+-- =============================================================================
+-- Balance vs movement ledger reconciliation
+-- =============================================================================
+-- Postings keep inventory_balances in step with stock_movements, but the two
+-- can drift (manual fixes, interrupted legacy code, data imports). The stock
+-- page reads the ledger through get_calculated_stock() while postings check
+-- inventory_balances, so drift shows up as stock that can't be shipped.
+--
+--   - ledger_balance():               replay one balance's movements
+--   - get_balance_discrepancies():    every balance that disagrees with its
+--                                     ledger, for the current tenant
+--   - rebuild_inventory_balances():   rewrite those balances from the ledger
+--                                     (admins only, dry run by default)
+--
+-- The replay mirrors apply_stock_movement(): inbound movements average into
+-- the cost (resetting it when the balance was at or below zero), outbound
+-- movements leave it unchanged, and FIFO tenants take the open layer average
+-- when the balance has open layers.
+-- =============================================================================
+
+
+-- -----------------------------------------------------------------------------
+-- 1. ledger_balance() - quantity and average cost from the movement ledger
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION ledger_balance(
+  p_tenant_id UUID,
+  p_product_id UUID,
+  p_location_id UUID,
+  p_lot_number TEXT,
+  p_expiry_date DATE
+)
+RETURNS TABLE (ledger_qty NUMERIC, ledger_avg_cost NUMERIC)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_qty NUMERIC := 0;
+  v_avg_cost NUMERIC := 0;
+  v_cost NUMERIC;
+  v_movement RECORD;
+BEGIN
+  FOR v_movement IN
+    SELECT sm.qty, sm.unit_cost
+    FROM stock_movements sm
+    WHERE sm.tenant_id = p_tenant_id
+      AND sm.product_id = p_product_id
+      AND sm.location_id = p_location_id
+      AND COALESCE(NULLIF(TRIM(sm.lot_number), ''), '') = COALESCE(NULLIF(TRIM(p_lot_number), ''), '')
+      AND COALESCE(sm.expiry_date, '1900-01-01'::date) = COALESCE(p_expiry_date, '1900-01-01'::date)
+    ORDER BY sm.created_at, sm.id
+  LOOP
+    IF v_movement.qty > 0 THEN
+      v_cost := COALESCE(v_movement.unit_cost, v_avg_cost);
+      v_avg_cost := CASE
+        WHEN v_qty <= 0 THEN v_cost
+        ELSE (v_qty * v_avg_cost + v_movement.qty * v_cost) / (v_qty + v_movement.qty)
+      END;
+    END IF;
+
+    v_qty := v_qty + v_movement.qty;
+  END LOOP;
+
+  IF get_costing_method(p_tenant_id) = 'fifo' THEN
+    v_avg_cost := COALESCE(
+      get_cost_layer_avg(p_tenant_id, p_product_id, p_location_id, p_lot_number, p_expiry_date),
+      v_avg_cost
+    );
+  END IF;
+
+  ledger_qty := v_qty;
+  ledger_avg_cost := v_avg_cost;
+  RETURN NEXT;
+END;
+$$;
+
+
+-- -----------------------------------------------------------------------------
+-- 2. get_balance_discrepancies() - balances that disagree with the ledger
+-- -----------------------------------------------------------------------------
+-- Covers balances without movements and movements without a balance. Average
+-- cost only counts as a discrepancy while the ledger has stock.
+CREATE OR REPLACE FUNCTION get_balance_discrepancies()
+RETURNS TABLE (
+  product_id UUID,
+  location_id UUID,
+  lot_number TEXT,
+  expiry_date DATE,
+  balance_qty NUMERIC,
+  balance_avg_cost NUMERIC,
+  ledger_qty NUMERIC,
+  ledger_avg_cost NUMERIC,
+  movement_count BIGINT,
+  last_movement_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_tenant_id UUID := get_user_tenant_id();
+  v_key RECORD;
+  v_ledger RECORD;
+BEGIN
+  FOR v_key IN
+    WITH balances AS (
+      SELECT
+        b.product_id,
+        b.location_id,
+        NULLIF(TRIM(b.lot_number), '') AS lot_number,
+        b.expiry_date,
+        SUM(b.qty_on_hand) AS qty,
+        MAX(b.avg_cost) AS avg_cost
+      FROM inventory_balances b
+      WHERE b.tenant_id = v_tenant_id
+      GROUP BY 1, 2, 3, 4
+    ),
+    ledger AS (
+      SELECT
+        sm.product_id,
+        sm.location_id,
+        NULLIF(TRIM(sm.lot_number), '') AS lot_number,
+        sm.expiry_date,
+        COUNT(*) AS movement_count,
+        MAX(sm.created_at) AS last_movement_at
+      FROM stock_movements sm
+      WHERE sm.tenant_id = v_tenant_id
+      GROUP BY 1, 2, 3, 4
+    )
+    SELECT
+      COALESCE(b.product_id, l.product_id) AS product_id,
+      COALESCE(b.location_id, l.location_id) AS location_id,
+      COALESCE(b.lot_number, l.lot_number) AS lot_number,
+      COALESCE(b.expiry_date, l.expiry_date) AS expiry_date,
+      b.qty AS balance_qty,
+      b.avg_cost AS balance_avg_cost,
+      COALESCE(l.movement_count, 0) AS movement_count,
+      l.last_movement_at
+    FROM balances b
+    FULL JOIN ledger l
+      ON l.product_id = b.product_id
+      AND l.location_id = b.location_id
+      AND COALESCE(l.lot_number, '') = COALESCE(b.lot_number, '')
+      AND COALESCE(l.expiry_date, '1900-01-01'::date) = COALESCE(b.expiry_date, '1900-01-01'::date)
+    ORDER BY 1, 2, 3 NULLS FIRST, 4 NULLS FIRST
+  LOOP
+    SELECT * INTO v_ledger
+    FROM ledger_balance(
+      v_tenant_id, v_key.product_id, v_key.location_id, v_key.lot_number, v_key.expiry_date
+    );
+
+    CONTINUE WHEN COALESCE(v_key.balance_qty, 0) = v_ledger.ledger_qty
+      AND (
+        v_ledger.ledger_qty <= 0
+        OR ABS(COALESCE(v_key.balance_avg_cost, 0) - v_ledger.ledger_avg_cost) < 0.0001
+      );
+
+    product_id := v_key.product_id;
+    location_id := v_key.location_id;
+    lot_number := v_key.lot_number;
+    expiry_date := v_key.expiry_date;
+    balance_qty := v_key.balance_qty;
+    balance_avg_cost := v_key.balance_avg_cost;
+    ledger_qty := v_ledger.ledger_qty;
+    ledger_avg_cost := v_ledger.ledger_avg_cost;
+    movement_count := v_key.movement_count;
+    last_movement_at := v_key.last_movement_at;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_balance_discrepancies() TO authenticated;
+
+
+-- -----------------------------------------------------------------------------
+-- 3. rebuild_inventory_balances() - rewrite drifted balances from the ledger
+-- -----------------------------------------------------------------------------
+-- Returns the discrepancies with the values written. A dry run writes nothing.
+-- Postings are blocked while a rebuild runs so the ledger can't move under it.
+CREATE OR REPLACE FUNCTION rebuild_inventory_balances(p_dry_run BOOLEAN DEFAULT true)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tenant_id UUID := get_user_tenant_id();
+  v_row RECORD;
+  v_balance_id UUID;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can rebuild inventory balances';
+  END IF;
+
+  IF NOT p_dry_run THEN
+    LOCK TABLE inventory_balances IN SHARE ROW EXCLUSIVE MODE;
+  END IF;
+
+  FOR v_row IN SELECT * FROM get_balance_discrepancies() LOOP
+    v_items := v_items || jsonb_build_object(
+      'product_id', v_row.product_id,
+      'location_id', v_row.location_id,
+      'lot_number', v_row.lot_number,
+      'expiry_date', v_row.expiry_date,
+      'old_qty', COALESCE(v_row.balance_qty, 0),
+      'new_qty', v_row.ledger_qty,
+      'old_avg_cost', v_row.balance_avg_cost,
+      'new_avg_cost', v_row.ledger_avg_cost
+    );
+
+    CONTINUE WHEN p_dry_run;
+
+    SELECT id INTO v_balance_id
+    FROM inventory_balances
+    WHERE tenant_id = v_tenant_id
+      AND product_id = v_row.product_id
+      AND location_id = v_row.location_id
+      AND COALESCE(NULLIF(TRIM(lot_number), ''), '') = COALESCE(v_row.lot_number, '')
+      AND COALESCE(expiry_date, '1900-01-01'::date) = COALESCE(v_row.expiry_date, '1900-01-01'::date)
+    ORDER BY updated_at DESC NULLS LAST
+    LIMIT 1;
+
+    IF v_balance_id IS NULL THEN
+      INSERT INTO inventory_balances (
+        tenant_id, product_id, location_id, lot_number, expiry_date, qty_on_hand, avg_cost
+      ) VALUES (
+        v_tenant_id, v_row.product_id, v_row.location_id, v_row.lot_number, v_row.expiry_date,
+        v_row.ledger_qty, v_row.ledger_avg_cost
+      );
+    ELSE
+      -- Legacy rows that stored '' instead of a NULL lot fold into one balance
+      DELETE FROM inventory_balances
+      WHERE tenant_id = v_tenant_id
+        AND product_id = v_row.product_id
+        AND location_id = v_row.location_id
+        AND COALESCE(NULLIF(TRIM(lot_number), ''), '') = COALESCE(v_row.lot_number, '')
+        AND COALESCE(expiry_date, '1900-01-01'::date) = COALESCE(v_row.expiry_date, '1900-01-01'::date)
+        AND id <> v_balance_id;
+
+      UPDATE inventory_balances
+      SET lot_number = v_row.lot_number,
+          qty_on_hand = v_row.ledger_qty,
+          avg_cost = v_row.ledger_avg_cost,
+          updated_at = NOW()
+      WHERE id = v_balance_id;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('dry_run', p_dry_run, 'items', v_items);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION rebuild_inventory_balances(BOOLEAN) TO authenticated;
@@ -0,0 +1,408 @@
+-- =============================================================================
+-- Inventory period close
+-- =============================================================================
+-- Closing a period locks every posting dated on or before its end date and
+-- keeps a valuation snapshot of the period as reported to finance.
+--
+--   - tenants.settings.lock_date: end of the latest closed period, maintained
+--     by close_inventory_period() / reopen_inventory_period()
+--   - inventory_periods:          one row per closed (or reopened) period end
+--   - inventory_period_snapshots: quantity and value per product and location
+--                                 from the movement ledger up to the period end
+--
+-- Only the latest closed period can be reopened, so a single lock date always
+-- describes what is closed. Reopening needs an admin and a note.
+--
+-- apply_stock_movement() refuses to post once today falls in a closed period;
+-- the app also checks each document's own date (ship date, received date,
+-- count date, ...) before posting.
+-- =============================================================================
+
+
+-- -----------------------------------------------------------------------------
+-- 1. Periods and snapshots
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS inventory_periods (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  period_end DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'closed' CHECK (status IN ('closed', 'reopened')),
+  total_qty NUMERIC NOT NULL DEFAULT 0,
+  total_value NUMERIC NOT NULL DEFAULT 0,
+  closed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  closed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  reopened_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  reopened_at TIMESTAMPTZ,
+  reopen_note TEXT,
+  UNIQUE (tenant_id, period_end)
+);
+
+CREATE TABLE IF NOT EXISTS inventory_period_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  period_id UUID NOT NULL REFERENCES inventory_periods(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id),
+  location_id UUID NOT NULL REFERENCES locations(id),
+  qty NUMERIC NOT NULL,
+  value NUMERIC NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_period_snapshots_period ON inventory_period_snapshots(period_id);
+
+ALTER TABLE inventory_periods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inventory_period_snapshots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS tenant_isolation ON inventory_periods;
+CREATE POLICY tenant_isolation ON inventory_periods
+  FOR ALL USING (tenant_id = get_user_tenant_id());
+
+DROP POLICY IF EXISTS tenant_isolation ON inventory_period_snapshots;
+CREATE POLICY tenant_isolation ON inventory_period_snapshots
+  FOR ALL USING (tenant_id = get_user_tenant_id());
+
+
+-- -----------------------------------------------------------------------------
+-- 2. Helpers
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION get_lock_date(p_tenant_id UUID)
+RETURNS DATE
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NULLIF(settings->>'lock_date', '')::date
+  FROM tenants
+  WHERE id = p_tenant_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_lock_date(UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION assert_period_open(p_tenant_id UUID, p_date DATE)
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_lock_date DATE := get_lock_date(p_tenant_id);
+BEGIN
+  IF v_lock_date IS NOT NULL AND p_date <= v_lock_date THEN
+    RAISE EXCEPTION 'Period is closed: postings dated on or before % are locked', v_lock_date;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_lock_date(p_tenant_id UUID, p_lock_date DATE)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  UPDATE tenants
+  SET settings = CASE
+    WHEN p_lock_date IS NULL THEN COALESCE(settings, '{}'::jsonb) - 'lock_date'
+    ELSE jsonb_set(COALESCE(settings, '{}'::jsonb), '{lock_date}', to_jsonb(p_lock_date::text))
+  END
+  WHERE id = p_tenant_id;
+$$;
+
+
+-- -----------------------------------------------------------------------------
+-- 3. close_inventory_period() - snapshot and lock through p_period_end
+-- -----------------------------------------------------------------------------
+-- The snapshot values each product and location at the movement costs posted
+-- up to the end of the period. Closing a reopened period replaces its
+-- snapshot.
+CREATE OR REPLACE FUNCTION close_inventory_period(p_period_end DATE)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tenant_id UUID := get_user_tenant_id();
+  v_lock_date DATE;
+  v_period_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can close periods';
+  END IF;
+  IF p_period_end IS NULL OR p_period_end >= CURRENT_DATE THEN
+    RAISE EXCEPTION 'Period end must be before today';
+  END IF;
+
+  -- Serialize closes per tenant
+  PERFORM 1 FROM tenants WHERE id = v_tenant_id FOR UPDATE;
+
+  v_lock_date := get_lock_date(v_tenant_id);
+  IF v_lock_date IS NOT NULL AND p_period_end <= v_lock_date THEN
+    RAISE EXCEPTION 'Periods through % are already closed', v_lock_date;
+  END IF;
+
+  INSERT INTO inventory_periods (tenant_id, period_end, status, closed_by, closed_at)
+  VALUES (v_tenant_id, p_period_end, 'closed', auth.uid(), NOW())
+  ON CONFLICT (tenant_id, period_end) DO UPDATE
+  SET status = 'closed',
+      closed_by = auth.uid(),
+      closed_at = NOW(),
+      reopened_by = NULL,
+      reopened_at = NULL,
+      reopen_note = NULL
+  RETURNING id INTO v_period_id;
+
+  DELETE FROM inventory_period_snapshots WHERE period_id = v_period_id;
+
+  INSERT INTO inventory_period_snapshots (tenant_id, period_id, product_id, location_id, qty, value)
+  SELECT
+    v_tenant_id, v_period_id, sm.product_id, sm.location_id,
+    SUM(sm.qty), SUM(sm.qty * COALESCE(sm.unit_cost, 0))
+  FROM stock_movements sm
+  WHERE sm.tenant_id = v_tenant_id
+    AND sm.created_at < (p_period_end + 1)
+  GROUP BY sm.product_id, sm.location_id
+  HAVING SUM(sm.qty) <> 0 OR SUM(sm.qty * COALESCE(sm.unit_cost, 0)) <> 0;
+
+  UPDATE inventory_periods p
+  SET total_qty = COALESCE(s.total_qty, 0),
+      total_value = COALESCE(s.total_value, 0)
+  FROM (
+    SELECT SUM(qty) AS total_qty, SUM(value) AS total_value
+    FROM inventory_period_snapshots
+    WHERE period_id = v_period_id
+  ) s
+  WHERE p.id = v_period_id;
+
+  PERFORM set_lock_date(v_tenant_id, p_period_end);
+
+  RETURN v_period_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION close_inventory_period(DATE) TO authenticated;
+
+
+-- -----------------------------------------------------------------------------
+-- 4. reopen_inventory_period() - unlock the latest closed period
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION reopen_inventory_period(p_period_id UUID, p_note TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tenant_id UUID := get_user_tenant_id();
+  v_period inventory_periods%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can reopen periods';
+  END IF;
+  IF NULLIF(TRIM(p_note), '') IS NULL THEN
+    RAISE EXCEPTION 'A note is required to reopen a period';
+  END IF;
+
+  PERFORM 1 FROM tenants WHERE id = v_tenant_id FOR UPDATE;
+
+  SELECT * INTO v_period
+  FROM inventory_periods
+  WHERE id = p_period_id AND tenant_id = v_tenant_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Period not found';
+  END IF;
+  IF v_period.status <> 'closed' THEN
+    RAISE EXCEPTION 'Period is not closed';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM inventory_periods
+    WHERE tenant_id = v_tenant_id AND status = 'closed' AND period_end > v_period.period_end
+  ) THEN
+    RAISE EXCEPTION 'Only the latest closed period can be reopened';
+  END IF;
+
+  UPDATE inventory_periods
+  SET status = 'reopened',
+      reopened_by = auth.uid(),
+      reopened_at = NOW(),
+      reopen_note = TRIM(p_note)
+  WHERE id = p_period_id;
+
+  -- The lock falls back to the previous closed period, if any
+  PERFORM set_lock_date(v_tenant_id, (
+    SELECT MAX(period_end) FROM inventory_periods
+    WHERE tenant_id = v_tenant_id AND status = 'closed'
+  ));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION reopen_inventory_period(UUID, TEXT) TO authenticated;
+
+
+-- -----------------------------------------------------------------------------
+-- 5. apply_stock_movement() - refuse postings into a closed period
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION apply_stock_movement(
+  p_tenant_id UUID,
+  p_product_id UUID,
+  p_location_id UUID,
+  p_qty NUMERIC,
+  p_movement_type movement_type,
+  p_reference_type TEXT,
+  p_reference_id UUID,
+  p_lot_number TEXT DEFAULT NULL,
+  p_expiry_date DATE DEFAULT NULL,
+  p_unit_cost NUMERIC DEFAULT NULL,
+  p_reason adjustment_reason DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_lot_number TEXT := NULLIF(TRIM(p_lot_number), '');
+  v_is_fifo BOOLEAN := get_costing_method(p_tenant_id) = 'fifo';
+  v_balance_id UUID;
+  v_qty_on_hand NUMERIC;
+  v_avg_cost NUMERIC;
+  v_unit_cost NUMERIC;
+  v_layer_cost NUMERIC;
+  v_new_qty NUMERIC;
+  v_from_stock NUMERIC;
+  v_shortfall NUMERIC := 0;
+  v_deficit_cost NUMERIC;
+  v_settled NUMERIC;
+  v_movement_id UUID;
+  v_sku TEXT;
+BEGIN
+  -- Movements post today, which must not fall in a closed period
+  PERFORM assert_period_open(p_tenant_id, CURRENT_DATE);
+
+  -- Lock the balance row (legacy rows may store '' instead of NULL lots)
+  SELECT id, qty_on_hand, avg_cost
+  INTO v_balance_id, v_qty_on_hand, v_avg_cost
+  FROM inventory_balances
+  WHERE tenant_id = p_tenant_id
+    AND product_id = p_product_id
+    AND location_id = p_location_id
+    AND COALESCE(lot_number, '') = COALESCE(v_lot_number, '')
+    AND COALESCE(expiry_date, '1900-01-01'::date) = COALESCE(p_expiry_date, '1900-01-01'::date)
+  LIMIT 1
+  FOR UPDATE;
+
+  v_unit_cost := COALESCE(p_unit_cost, v_avg_cost, 0);
+
+  IF p_qty < 0 THEN
+    v_from_stock := LEAST(GREATEST(COALESCE(v_qty_on_hand, 0), 0), ABS(p_qty));
+    v_shortfall := ABS(p_qty) - v_from_stock;
+
+    IF v_shortfall > 0 THEN
+      IF NOT negative_stock_allowed(p_tenant_id, p_location_id) THEN
+        SELECT sku INTO v_sku FROM products WHERE id = p_product_id;
+        RAISE EXCEPTION 'Insufficient stock for %: have %, need %',
+          COALESCE(v_sku, 'product'), COALESCE(v_qty_on_hand, 0), ABS(p_qty);
+      END IF;
+
+      SELECT COALESCE(NULLIF(v_avg_cost, 0), current_cost, 0)
+      INTO v_deficit_cost
+      FROM products
+      WHERE id = p_product_id;
+    END IF;
+
+    IF v_from_stock > 0 THEN
+      v_layer_cost := consume_cost_layers(
+        p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date,
+        v_from_stock, COALESCE(v_avg_cost, 0)
+      );
+
+      IF v_is_fifo THEN
+        v_unit_cost := v_layer_cost;
+      END IF;
+    END IF;
+
+    IF v_shortfall > 0 THEN
+      v_unit_cost := (v_from_stock * v_unit_cost + v_shortfall * COALESCE(v_deficit_cost, 0)) / ABS(p_qty);
+    END IF;
+
+    IF v_balance_id IS NULL THEN
+      INSERT INTO inventory_balances (
+        tenant_id, product_id, location_id, lot_number, expiry_date, qty_on_hand, avg_cost
+      ) VALUES (
+        p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date, p_qty,
+        COALESCE(v_deficit_cost, 0)
+      );
+    ELSE
+      UPDATE inventory_balances
+      SET qty_on_hand = qty_on_hand + p_qty,
+          avg_cost = CASE
+            WHEN v_is_fifo THEN COALESCE(
+              get_cost_layer_avg(p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date),
+              avg_cost
+            )
+            ELSE avg_cost
+          END,
+          updated_at = NOW()
+      WHERE id = v_balance_id;
+    END IF;
+  ELSIF p_qty > 0 THEN
+    v_settled := 0;
+
+    IF COALESCE(v_qty_on_hand, 0) < 0 THEN
+      v_settled := settle_negative_stock(
+        p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date,
+        p_qty, v_unit_cost
+      );
+    END IF;
+
+    IF p_qty > v_settled THEN
+      INSERT INTO cost_layers (
+        tenant_id, product_id, location_id, lot_number, expiry_date,
+        original_qty, remaining_qty, unit_cost, movement_type, reference_type, reference_id
+      ) VALUES (
+        p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date,
+        p_qty - v_settled, p_qty - v_settled, v_unit_cost, p_movement_type, p_reference_type, p_reference_id
+      );
+    END IF;
+
+    IF v_balance_id IS NULL THEN
+      INSERT INTO inventory_balances (
+        tenant_id, product_id, location_id, lot_number, expiry_date, qty_on_hand, avg_cost
+      ) VALUES (
+        p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date, p_qty, v_unit_cost
+      );
+    ELSE
+      v_new_qty := v_qty_on_hand + p_qty;
+
+      UPDATE inventory_balances
+      SET qty_on_hand = v_new_qty,
+          avg_cost = CASE
+            WHEN v_is_fifo THEN COALESCE(
+              get_cost_layer_avg(p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date),
+              v_unit_cost
+            )
+            WHEN v_qty_on_hand <= 0 THEN v_unit_cost
+            ELSE ((v_qty_on_hand * v_avg_cost) + (p_qty * v_unit_cost)) / v_new_qty
+          END,
+          updated_at = NOW()
+      WHERE id = v_balance_id;
+    END IF;
+  ELSE
+    RETURN v_unit_cost;
+  END IF;
+
+  -- extended_cost is a generated column
+  INSERT INTO stock_movements (
+    tenant_id, product_id, location_id, qty, movement_type,
+    reference_type, reference_id, lot_number, expiry_date,
+    unit_cost, reason, created_by
+  ) VALUES (
+    p_tenant_id, p_product_id, p_location_id, p_qty, p_movement_type,
+    p_reference_type, p_reference_id, v_lot_number, p_expiry_date,
+    v_unit_cost, p_reason, auth.uid()
+  )
+  RETURNING id INTO v_movement_id;
+
+  IF v_shortfall > 0 THEN
+    INSERT INTO negative_stock_deficits (
+      tenant_id, product_id, location_id, lot_number, expiry_date,
+      movement_id, qty, remaining_qty, unit_cost
+    ) VALUES (
+      p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date,
+      v_movement_id, v_shortfall, v_shortfall, COALESCE(v_deficit_cost, 0)
+    );
+  END IF;
+
+  RETURN v_unit_cost;
+END;
+$$;
@@ -0,0 +1,100 @@
+-- =============================================================================
+-- Stock and valuation as of a past date
+-- =============================================================================
+-- get_calculated_stock() shows the current position. Every movement carries
+-- its qty, unit_cost and created_at, so the position at the end of any past
+-- day is the sum of the movements posted up to then.
+--
+--   - get_stock_as_of():  quantity and value per product, location and lot at
+--                         the end of p_as_of, in get_calculated_stock()'s shape
+--
+-- Value is the net movement value (inbound cost in, outbound cost out), the
+-- same basis close_inventory_period() snapshots, so a report as of a closed
+-- period's end agrees with its snapshot. Landed cost and negative stock
+-- corrections re-cost the movements they apply to and are included.
+-- =============================================================================
+
+
+-- -----------------------------------------------------------------------------
+-- 1. get_stock_as_of() RPC
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION get_stock_as_of(p_as_of DATE)
+RETURNS TABLE (
+    id UUID,
+    tenant_id UUID,
+    product_id UUID,
+    location_id UUID,
+    lot_number TEXT,
+    expiry_date DATE,
+    qty_on_hand NUMERIC,
+    avg_cost NUMERIC,
+    inventory_value NUMERIC,
+    reserved_qty NUMERIC,
+    available_qty NUMERIC,
+    product JSONB,
+    location JSONB
+)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+    SELECT
+        s.id,
+        s.tenant_id,
+        s.product_id,
+        s.location_id,
+        s.lot_number,
+        s.expiry_date,
+        s.qty_on_hand,
+        s.inventory_value / s.qty_on_hand as avg_cost,
+        s.inventory_value,
+        -- Reservations are not historised
+        0::numeric as reserved_qty,
+        s.qty_on_hand as available_qty,
+        jsonb_build_object(
+            'id', p.id,
+            'sku', p.sku,
+            'name', p.name,
+            'base_uom', p.base_uom,
+            'reorder_point', p.reorder_point,
+            'track_expiry', p.track_expiry,
+            'track_lot', p.track_lot,
+            'category_id', p.category_id
+        ) as product,
+        jsonb_build_object(
+            'id', l.id,
+            'name', l.name,
+            'type', l.type
+        ) as location
+    FROM (
+        SELECT
+            md5(
+                COALESCE(sm.product_id::text, '') ||
+                COALESCE(sm.location_id::text, '') ||
+                COALESCE(sm.lot_number, '') ||
+                COALESCE(sm.expiry_date::text, '')
+            )::uuid as id,
+            sm.tenant_id,
+            sm.product_id,
+            sm.location_id,
+            sm.lot_number,
+            sm.expiry_date,
+            SUM(sm.qty) as qty_on_hand,
+            SUM(sm.qty * COALESCE(sm.unit_cost, 0)) as inventory_value
+        FROM stock_movements sm
+        WHERE sm.tenant_id = get_user_tenant_id()
+          AND sm.created_at < (p_as_of + 1)
+        GROUP BY
+            sm.tenant_id,
+            sm.product_id,
+            sm.location_id,
+            sm.lot_number,
+            sm.expiry_date
+        HAVING SUM(sm.qty) <> 0
+    ) s
+    JOIN products p ON p.id = s.product_id
+    JOIN locations l ON l.id = s.location_id
+    ORDER BY s.product_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_stock_as_of(DATE) TO authenticated;
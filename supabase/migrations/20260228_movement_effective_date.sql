@@ -0,0 +1,1526 @@
+-- =============================================================================
+-- Effective dates on stock movements
+-- =============================================================================
+-- created_at is when a movement was inserted. Receipts, shipments and
+-- transfers carry their own business date, which can be in the past, so a
+-- backdated receipt used to land on the day it was keyed in.
+--
+--   - stock_movements.effective_date:  the business date, defaulting to the
+--                                      posting day
+--   - apply_stock_movement():          takes the date and checks it against
+--                                      the period lock instead of today
+--   - receive_purchase_order(), ship_shipment(), send_transfer(),
+--     receive_transfer(), post_cycle_count():
+--                                      pass their document date
+--   - post_adjustment(), process_return(), post_assembly(),
+--     move_bin_stock():                take the posting date the caller
+--                                      checked against the period lock
+--   - close_inventory_period(), get_stock_as_of(), get_historical_stock():
+--                                      read effective_date
+--
+-- Voids post on the day they run.
+-- =============================================================================
+
+
+-- -----------------------------------------------------------------------------
+-- 1. stock_movements.effective_date
+-- -----------------------------------------------------------------------------
+ALTER TABLE stock_movements ADD COLUMN IF NOT EXISTS effective_date DATE;
+
+UPDATE stock_movements
+SET effective_date = created_at::date
+WHERE effective_date IS NULL;
+
+-- Transfers already record the day they were sent and received
+UPDATE stock_movements sm
+SET effective_date = t.sent_at::date
+FROM transfers t
+WHERE sm.reference_type = 'transfer'
+  AND sm.reference_id = t.id
+  AND sm.movement_type = 'transfer_out'
+  AND t.sent_at IS NOT NULL;
+
+UPDATE stock_movements sm
+SET effective_date = t.received_at::date
+FROM transfers t
+WHERE sm.reference_type = 'transfer'
+  AND sm.reference_id = t.id
+  AND sm.movement_type = 'transfer_in'
+  AND t.received_at IS NOT NULL;
+
+ALTER TABLE stock_movements ALTER COLUMN effective_date SET DEFAULT CURRENT_DATE;
+ALTER TABLE stock_movements ALTER COLUMN effective_date SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_effective_date
+  ON stock_movements(tenant_id, effective_date);
+
+
+-- -----------------------------------------------------------------------------
+-- 2. apply_stock_movement() - record and lock-check the business date
+-- -----------------------------------------------------------------------------
+DROP FUNCTION IF EXISTS apply_stock_movement(
+  UUID, UUID, UUID, NUMERIC, movement_type, TEXT, UUID, TEXT, DATE, NUMERIC, adjustment_reason
+);
+
+CREATE OR REPLACE FUNCTION apply_stock_movement(
+  p_tenant_id UUID,
+  p_product_id UUID,
+  p_location_id UUID,
+  p_qty NUMERIC,
+  p_movement_type movement_type,
+  p_reference_type TEXT,
+  p_reference_id UUID,
+  p_lot_number TEXT DEFAULT NULL,
+  p_expiry_date DATE DEFAULT NULL,
+  p_unit_cost NUMERIC DEFAULT NULL,
+  p_reason adjustment_reason DEFAULT NULL,
+  p_effective_date DATE DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_lot_number TEXT := NULLIF(TRIM(p_lot_number), '');
+  v_effective_date DATE := COALESCE(p_effective_date, CURRENT_DATE);
+  v_is_fifo BOOLEAN := get_costing_method(p_tenant_id) = 'fifo';
+  v_balance_id UUID;
+  v_qty_on_hand NUMERIC;
+  v_avg_cost NUMERIC;
+  v_unit_cost NUMERIC;
+  v_layer_cost NUMERIC;
+  v_new_qty NUMERIC;
+  v_from_stock NUMERIC;
+  v_shortfall NUMERIC := 0;
+  v_deficit_cost NUMERIC;
+  v_settled NUMERIC;
+  v_movement_id UUID;
+  v_sku TEXT;
+BEGIN
+  -- The movement's business date must not fall in a closed period
+  PERFORM assert_period_open(p_tenant_id, v_effective_date);
+
+  -- Lock the balance row (legacy rows may store '' instead of NULL lots)
+  SELECT id, qty_on_hand, avg_cost
+  INTO v_balance_id, v_qty_on_hand, v_avg_cost
+  FROM inventory_balances
+  WHERE tenant_id = p_tenant_id
+    AND product_id = p_product_id
+    AND location_id = p_location_id
+    AND COALESCE(lot_number, '') = COALESCE(v_lot_number, '')
+    AND COALESCE(expiry_date, '1900-01-01'::date) = COALESCE(p_expiry_date, '1900-01-01'::date)
+  LIMIT 1
+  FOR UPDATE;
+
+  v_unit_cost := COALESCE(p_unit_cost, v_avg_cost, 0);
+
+  IF p_qty < 0 THEN
+    v_from_stock := LEAST(GREATEST(COALESCE(v_qty_on_hand, 0), 0), ABS(p_qty));
+    v_shortfall := ABS(p_qty) - v_from_stock;
+
+    IF v_shortfall > 0 THEN
+      IF NOT negative_stock_allowed(p_tenant_id, p_location_id) THEN
+        SELECT sku INTO v_sku FROM products WHERE id = p_product_id;
+        RAISE EXCEPTION 'Insufficient stock for %: have %, need %',
+          COALESCE(v_sku, 'product'), COALESCE(v_qty_on_hand, 0), ABS(p_qty);
+      END IF;
+
+      SELECT COALESCE(NULLIF(v_avg_cost, 0), current_cost, 0)
+      INTO v_deficit_cost
+      FROM products
+      WHERE id = p_product_id;
+    END IF;
+
+    IF v_from_stock > 0 THEN
+      v_layer_cost := consume_cost_layers(
+        p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date,
+        v_from_stock, COALESCE(v_avg_cost, 0)
+      );
+
+      IF v_is_fifo THEN
+        v_unit_cost := v_layer_cost;
+      END IF;
+    END IF;
+
+    IF v_shortfall > 0 THEN
+      v_unit_cost := (v_from_stock * v_unit_cost + v_shortfall * COALESCE(v_deficit_cost, 0)) / ABS(p_qty);
+    END IF;
+
+    IF v_balance_id IS NULL THEN
+      INSERT INTO inventory_balances (
+        tenant_id, product_id, location_id, lot_number, expiry_date, qty_on_hand, avg_cost
+      ) VALUES (
+        p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date, p_qty,
+        COALESCE(v_deficit_cost, 0)
+      );
+    ELSE
+      UPDATE inventory_balances
+      SET qty_on_hand = qty_on_hand + p_qty,
+          avg_cost = CASE
+            WHEN v_is_fifo THEN COALESCE(
+              get_cost_layer_avg(p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date),
+              avg_cost
+            )
+            ELSE avg_cost
+          END,
+          updated_at = NOW()
+      WHERE id = v_balance_id;
+    END IF;
+  ELSIF p_qty > 0 THEN
+    v_settled := 0;
+
+    IF COALESCE(v_qty_on_hand, 0) < 0 THEN
+      v_settled := settle_negative_stock(
+        p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date,
+        p_qty, v_unit_cost
+      );
+    END IF;
+
+    IF p_qty > v_settled THEN
+      INSERT INTO cost_layers (
+        tenant_id, product_id, location_id, lot_number, expiry_date,
+        original_qty, remaining_qty, unit_cost, movement_type, reference_type, reference_id
+      ) VALUES (
+        p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date,
+        p_qty - v_settled, p_qty - v_settled, v_unit_cost, p_movement_type, p_reference_type, p_reference_id
+      );
+    END IF;
+
+    IF v_balance_id IS NULL THEN
+      INSERT INTO inventory_balances (
+        tenant_id, product_id, location_id, lot_number, expiry_date, qty_on_hand, avg_cost
+      ) VALUES (
+        p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date, p_qty, v_unit_cost
+      );
+    ELSE
+      v_new_qty := v_qty_on_hand + p_qty;
+
+      UPDATE inventory_balances
+      SET qty_on_hand = v_new_qty,
+          avg_cost = CASE
+            WHEN v_is_fifo THEN COALESCE(
+              get_cost_layer_avg(p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date),
+              v_unit_cost
+            )
+            WHEN v_qty_on_hand <= 0 THEN v_unit_cost
+            ELSE ((v_qty_on_hand * v_avg_cost) + (p_qty * v_unit_cost)) / v_new_qty
+          END,
+          updated_at = NOW()
+      WHERE id = v_balance_id;
+    END IF;
+  ELSE
+    RETURN v_unit_cost;
+  END IF;
+
+  -- extended_cost is a generated column
+  INSERT INTO stock_movements (
+    tenant_id, product_id, location_id, qty, movement_type,
+    reference_type, reference_id, lot_number, expiry_date,
+    unit_cost, reason, effective_date, created_by
+  ) VALUES (
+    p_tenant_id, p_product_id, p_location_id, p_qty, p_movement_type,
+    p_reference_type, p_reference_id, v_lot_number, p_expiry_date,
+    v_unit_cost, p_reason, v_effective_date, auth.uid()
+  )
+  RETURNING id INTO v_movement_id;
+
+  IF v_shortfall > 0 THEN
+    INSERT INTO negative_stock_deficits (
+      tenant_id, product_id, location_id, lot_number, expiry_date,
+      movement_id, qty, remaining_qty, unit_cost
+    ) VALUES (
+      p_tenant_id, p_product_id, p_location_id, v_lot_number, p_expiry_date,
+      v_movement_id, v_shortfall, v_shortfall, COALESCE(v_deficit_cost, 0)
+    );
+  END IF;
+
+  RETURN v_unit_cost;
+END;
+$$;
+
+
+-- -----------------------------------------------------------------------------
+-- 3. receive_purchase_order() - movements dated on the receipt date
+-- -----------------------------------------------------------------------------
+DROP FUNCTION IF EXISTS receive_purchase_order(UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+  p_po_id UUID,
+  p_lines JSONB,
+  p_received_date DATE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_po purchase_orders%ROWTYPE;
+  v_input RECORD;
+  v_line purchase_order_lines%ROWTYPE;
+  v_location_id UUID;
+  v_lot_number TEXT;
+  v_serials TEXT[];
+  v_receipt_id UUID;
+  v_movement_id UUID;
+  v_layer_id UUID;
+  v_all_complete BOOLEAN;
+  v_any_received BOOLEAN;
+  v_status document_status;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_po FROM purchase_orders WHERE id = p_po_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+  IF v_po.status = 'draft' THEN
+    RAISE EXCEPTION 'PO must be confirmed before receiving';
+  END IF;
+  IF v_po.status = 'completed' THEN
+    RAISE EXCEPTION 'PO is already completed';
+  END IF;
+  IF v_po.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cannot receive cancelled PO';
+  END IF;
+
+  FOR v_input IN
+    SELECT *
+    FROM jsonb_to_recordset(p_lines) AS x(
+      line_id UUID,
+      qty_to_receive NUMERIC,
+      lot_number TEXT,
+      expiry_date DATE,
+      entered_qty NUMERIC,
+      entered_uom TEXT,
+      serial_numbers JSONB,
+      bin_id UUID
+    )
+    ORDER BY line_id
+  LOOP
+    CONTINUE WHEN COALESCE(v_input.qty_to_receive, 0) <= 0;
+
+    SELECT * INTO v_line
+    FROM purchase_order_lines
+    WHERE id = v_input.line_id AND po_id = p_po_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order line % not found', v_input.line_id;
+    END IF;
+
+    IF COALESCE(v_line.qty_received, 0) + v_input.qty_to_receive > v_line.qty_ordered THEN
+      RAISE EXCEPTION 'Cannot receive more than ordered for line %', v_input.line_id;
+    END IF;
+
+    v_location_id := bin_stock_location(v_po.location_id, v_input.bin_id);
+
+    v_serials := normalize_serial_numbers(
+      v_line.product_id, v_input.qty_to_receive,
+      ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_input.serial_numbers, '[]'::jsonb)))
+    );
+
+    IF v_receipt_id IS NULL THEN
+      INSERT INTO po_receipts (tenant_id, po_id, created_by)
+      VALUES (v_po.tenant_id, p_po_id, auth.uid())
+      RETURNING id INTO v_receipt_id;
+    END IF;
+
+    UPDATE purchase_order_lines
+    SET qty_received = COALESCE(qty_received, 0) + v_input.qty_to_receive
+    WHERE id = v_line.id;
+
+    PERFORM apply_stock_movement(
+      v_po.tenant_id, v_line.product_id, v_location_id, v_input.qty_to_receive,
+      'receive', 'po', p_po_id, v_input.lot_number, v_input.expiry_date,
+      COALESCE(v_line.unit_cost, 0), p_effective_date => COALESCE(p_received_date, CURRENT_DATE)
+    );
+
+    v_lot_number := NULLIF(TRIM(v_input.lot_number), '');
+
+    SELECT sm.id INTO v_movement_id
+    FROM stock_movements sm
+    WHERE sm.reference_type = 'po'
+      AND sm.reference_id = p_po_id
+      AND sm.movement_type = 'receive'
+      AND sm.product_id = v_line.product_id
+      AND sm.location_id = v_location_id
+      AND NOT EXISTS (SELECT 1 FROM po_receipt_lines rl WHERE rl.movement_id = sm.id)
+    ORDER BY sm.created_at DESC
+    LIMIT 1;
+
+    SELECT cl.id INTO v_layer_id
+    FROM cost_layers cl
+    WHERE cl.reference_type = 'po'
+      AND cl.reference_id = p_po_id
+      AND cl.product_id = v_line.product_id
+    ORDER BY cl.received_at DESC
+    LIMIT 1;
+
+    PERFORM apply_serial_movement(
+      v_po.tenant_id, v_line.product_id, v_location_id, v_serials, 1,
+      'receive', 'po', p_po_id, v_lot_number, v_input.expiry_date, v_movement_id
+    );
+
+    INSERT INTO po_receipt_lines (
+      tenant_id, receipt_id, po_line_id, product_id, qty, entered_qty, entered_uom,
+      lot_number, expiry_date, unit_cost, movement_id, cost_layer_id, serial_numbers, bin_id
+    ) VALUES (
+      v_po.tenant_id, v_receipt_id, v_line.id, v_line.product_id, v_input.qty_to_receive,
+      v_input.entered_qty, NULLIF(TRIM(v_input.entered_uom), ''),
+      v_lot_number, v_input.expiry_date, COALESCE(v_line.unit_cost, 0), v_movement_id, v_layer_id,
+      v_serials, v_input.bin_id
+    );
+
+    UPDATE products
+    SET current_cost = COALESCE(v_line.unit_cost, 0), updated_at = NOW()
+    WHERE id = v_line.product_id;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_input.qty_to_receive);
+  END LOOP;
+
+  SELECT
+    BOOL_AND(COALESCE(qty_received, 0) >= qty_ordered),
+    BOOL_OR(COALESCE(qty_received, 0) > 0)
+  INTO v_all_complete, v_any_received
+  FROM purchase_order_lines
+  WHERE po_id = p_po_id;
+
+  v_status := CASE
+    WHEN v_all_complete THEN 'completed'
+    WHEN v_any_received THEN 'partial'
+    ELSE 'confirmed'
+  END;
+
+  UPDATE purchase_orders
+  SET status = v_status, updated_at = NOW()
+  WHERE id = p_po_id;
+
+  RETURN jsonb_build_object('status', v_status, 'receipt_id', v_receipt_id, 'items', v_items);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION receive_purchase_order(UUID, JSONB, DATE) TO authenticated;
+
+
+-- -----------------------------------------------------------------------------
+-- 4. ship_shipment() - movements dated on the ship date
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION ship_shipment(
+  p_shipment_id UUID,
+  p_ship_date DATE DEFAULT NULL,
+  p_lines JSONB DEFAULT NULL,
+  p_create_backorder BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_shipment shipments%ROWTYPE;
+  v_line RECORD;
+  v_location_id UUID;
+  v_on_hand NUMERIC;
+  v_reserved NUMERIC;
+  v_available NUMERIC;
+  v_remaining NUMERIC;
+  v_to_ship NUMERIC;
+  v_serials TEXT[];
+  v_unit_cost NUMERIC;
+  v_outstanding NUMERIC;
+  v_expiry_hours INTEGER;
+  v_backorder_id UUID;
+  v_status document_status;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_shipment FROM shipments WHERE id = p_shipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment not found';
+  END IF;
+  IF v_shipment.status NOT IN ('confirmed', 'partial') THEN
+    RAISE EXCEPTION 'Can only ship confirmed or partially shipped shipments';
+  END IF;
+
+  -- Consistent line order keeps balance locks deadlock-free between postings
+  FOR v_line IN
+    SELECT sl.*, p.sku
+    FROM shipment_lines sl
+    JOIN products p ON p.id = sl.product_id
+    WHERE sl.shipment_id = p_shipment_id
+    ORDER BY sl.product_id, sl.lot_number NULLS FIRST, sl.expiry_date NULLS FIRST, sl.id
+    FOR UPDATE OF sl
+  LOOP
+    v_remaining := v_line.qty - v_line.qty_shipped;
+    CONTINUE WHEN v_remaining <= 0;
+
+    v_location_id := bin_stock_location(v_shipment.location_id, v_line.bin_id);
+
+    v_on_hand := lock_balance_qty(
+      v_shipment.tenant_id, v_line.product_id, v_location_id,
+      v_line.lot_number, v_line.expiry_date
+    );
+    v_reserved := get_reserved_qty(
+      v_shipment.tenant_id, v_line.product_id, v_location_id,
+      v_line.lot_number, v_line.expiry_date, p_shipment_id
+    );
+    v_available := GREATEST(v_on_hand - v_reserved, 0);
+
+    -- Locations that allow negative stock can ship the whole remainder
+    IF negative_stock_allowed(v_shipment.tenant_id, v_location_id) THEN
+      v_available := v_remaining;
+    END IF;
+
+    IF p_lines IS NULL THEN
+      v_to_ship := LEAST(v_remaining, v_available);
+    ELSE
+      SELECT COALESCE(SUM(x.qty_to_ship), 0) INTO v_to_ship
+      FROM jsonb_to_recordset(p_lines) AS x(line_id UUID, qty_to_ship NUMERIC)
+      WHERE x.line_id = v_line.id;
+
+      IF v_to_ship < 0 THEN
+        RAISE EXCEPTION 'Quantity to ship for % cannot be negative', v_line.sku;
+      END IF;
+      IF v_to_ship > v_remaining THEN
+        RAISE EXCEPTION 'Cannot ship more than ordered for %: remaining %, requested %',
+          v_line.sku, v_remaining, v_to_ship;
+      END IF;
+      IF v_to_ship > v_available THEN
+        RAISE EXCEPTION 'Insufficient available stock for %: on hand %, reserved %, need %',
+          v_line.sku, v_on_hand, v_reserved, v_to_ship;
+      END IF;
+    END IF;
+
+    CONTINUE WHEN v_to_ship <= 0;
+
+    v_serials := normalize_serial_numbers(v_line.product_id, v_line.qty, v_line.serial_numbers);
+
+    IF v_serials IS NOT NULL THEN
+      IF v_to_ship <> TRUNC(v_to_ship) THEN
+        RAISE EXCEPTION 'Serialized % ships in whole units', v_line.sku;
+      END IF;
+
+      v_serials := (shipment_pending_serials(p_shipment_id, v_line.product_id, v_serials))[1:v_to_ship::INTEGER];
+    END IF;
+
+    v_unit_cost := apply_stock_movement(
+      v_shipment.tenant_id, v_line.product_id, v_location_id, -v_to_ship,
+      'ship', 'shipment', p_shipment_id, v_line.lot_number, v_line.expiry_date,
+      p_effective_date => COALESCE(p_ship_date, CURRENT_DATE)
+    );
+
+    PERFORM apply_serial_movement(
+      v_shipment.tenant_id, v_line.product_id, v_location_id, v_serials, -1,
+      'ship', 'shipment', p_shipment_id
+    );
+
+    -- Later partial shipments may leave at a different cost, so the line
+    -- keeps the quantity-weighted average of everything it shipped
+    UPDATE shipment_lines
+    SET unit_cost = (COALESCE(unit_cost, 0) * qty_shipped + v_unit_cost * v_to_ship) / (qty_shipped + v_to_ship),
+        qty_shipped = qty_shipped + v_to_ship
+    WHERE id = v_line.id;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_to_ship);
+  END LOOP;
+
+  IF jsonb_array_length(v_items) = 0 THEN
+    RAISE EXCEPTION 'No stock available to ship';
+  END IF;
+
+  -- Reservations are rebuilt for whatever is still outstanding
+  UPDATE reservations
+  SET status = 'consumed'
+  WHERE shipment_id = p_shipment_id AND status = 'active';
+
+  SELECT COALESCE(SUM(qty - qty_shipped), 0) INTO v_outstanding
+  FROM shipment_lines
+  WHERE shipment_id = p_shipment_id;
+
+  IF v_outstanding > 0 AND p_create_backorder THEN
+    INSERT INTO shipments (
+      tenant_id, shipment_number, location_id, customer_id, customer_name,
+      status, notes, created_by, backorder_of
+    ) VALUES (
+      v_shipment.tenant_id, next_doc_number(v_shipment.tenant_id, 'shipment'),
+      v_shipment.location_id, v_shipment.customer_id, v_shipment.customer_name,
+      'draft', v_shipment.notes, auth.uid(), p_shipment_id
+    )
+    RETURNING id INTO v_backorder_id;
+
+    INSERT INTO shipment_lines (shipment_id, product_id, qty, lot_number, expiry_date, serial_numbers, bin_id)
+    SELECT
+      v_backorder_id, product_id, qty - qty_shipped, lot_number, expiry_date,
+      CASE WHEN serial_numbers IS NOT NULL
+        THEN shipment_pending_serials(p_shipment_id, product_id, serial_numbers)
+      END,
+      bin_id
+    FROM shipment_lines
+    WHERE shipment_id = p_shipment_id AND qty > qty_shipped;
+
+    v_status := 'completed';
+  ELSIF v_outstanding > 0 THEN
+    SELECT (settings ->> 'reservation_expiry_hours')::INTEGER
+    INTO v_expiry_hours
+    FROM tenants
+    WHERE id = v_shipment.tenant_id;
+
+    INSERT INTO reservations (
+      tenant_id, shipment_id, product_id, location_id, qty,
+      lot_number, expiry_date, status, expires_at
+    )
+    SELECT
+      v_shipment.tenant_id, p_shipment_id, x.product_id, x.location_id, x.reserve_qty,
+      NULLIF(TRIM(x.lot_number), ''), x.expiry_date, 'active',
+      CASE WHEN COALESCE(v_expiry_hours, 0) > 0 THEN NOW() + make_interval(hours => v_expiry_hours) END
+    FROM (
+      SELECT
+        sl.product_id, COALESCE(sl.bin_id, v_shipment.location_id) AS location_id,
+        sl.lot_number, sl.expiry_date,
+        LEAST(
+          sl.qty - sl.qty_shipped,
+          GREATEST(
+            COALESCE(b.qty_on_hand, 0) - get_reserved_qty(
+              v_shipment.tenant_id, sl.product_id, COALESCE(sl.bin_id, v_shipment.location_id),
+              sl.lot_number, sl.expiry_date
+            ),
+            0
+          )
+        ) as reserve_qty
+      FROM shipment_lines sl
+      LEFT JOIN inventory_balances b
+        ON b.tenant_id = v_shipment.tenant_id
+        AND b.product_id = sl.product_id
+        AND b.location_id = COALESCE(sl.bin_id, v_shipment.location_id)
+        AND COALESCE(b.lot_number, '') = COALESCE(NULLIF(TRIM(sl.lot_number), ''), '')
+        AND COALESCE(b.expiry_date, '1900-01-01'::date) = COALESCE(sl.expiry_date, '1900-01-01'::date)
+      WHERE sl.shipment_id = p_shipment_id AND sl.qty > sl.qty_shipped
+    ) x
+    WHERE x.reserve_qty > 0;
+
+    v_status := 'partial';
+  ELSE
+    v_status := 'completed';
+  END IF;
+
+  UPDATE shipments
+  SET status = v_status,
+      ship_date = COALESCE(p_ship_date, ship_date, CURRENT_DATE),
+      updated_at = NOW()
+  WHERE id = p_shipment_id;
+
+  RETURN jsonb_build_object(
+    'status', v_status,
+    'backorder_id', v_backorder_id,
+    'items', v_items
+  );
+END;
+$$;
+
+
+-- -----------------------------------------------------------------------------
+-- 5. send_transfer() and receive_transfer() - movements dated on the transfer dates
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION send_transfer(
+  p_transfer_id UUID,
+  p_sent_date DATE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transfer transfers%ROWTYPE;
+  v_line RECORD;
+  v_on_hand NUMERIC;
+  v_reserved NUMERIC;
+  v_unit_cost NUMERIC;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_transfer FROM transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+  IF v_transfer.status <> 'draft' THEN
+    RAISE EXCEPTION 'Can only send draft transfers';
+  END IF;
+
+  FOR v_line IN
+    SELECT tl.*, p.sku
+    FROM transfer_lines tl
+    JOIN products p ON p.id = tl.product_id
+    WHERE tl.transfer_id = p_transfer_id
+    ORDER BY tl.product_id, tl.lot_number NULLS FIRST, tl.expiry_date NULLS FIRST, tl.id
+  LOOP
+    v_on_hand := lock_balance_qty(
+      v_transfer.tenant_id, v_line.product_id, v_transfer.from_location_id,
+      v_line.lot_number, v_line.expiry_date
+    );
+    v_reserved := get_reserved_qty(
+      v_transfer.tenant_id, v_line.product_id, v_transfer.from_location_id,
+      v_line.lot_number, v_line.expiry_date
+    );
+
+    IF v_on_hand - v_reserved < v_line.qty
+      AND NOT negative_stock_allowed(v_transfer.tenant_id, v_transfer.from_location_id) THEN
+      RAISE EXCEPTION 'Insufficient available stock for %: on hand %, reserved %, need %',
+        v_line.sku, v_on_hand, v_reserved, v_line.qty;
+    END IF;
+
+    v_unit_cost := apply_stock_movement(
+      v_transfer.tenant_id, v_line.product_id, v_transfer.from_location_id, -v_line.qty,
+      'transfer_out', 'transfer', p_transfer_id, v_line.lot_number, v_line.expiry_date,
+      p_effective_date => COALESCE(p_sent_date, CURRENT_DATE)
+    );
+
+    PERFORM apply_serial_movement(
+      v_transfer.tenant_id, v_line.product_id, v_transfer.from_location_id,
+      normalize_serial_numbers(v_line.product_id, v_line.qty, v_line.serial_numbers), -1,
+      'transfer_out', 'transfer', p_transfer_id
+    );
+
+    -- Destination receives at the cost it left the source with
+    UPDATE transfer_lines SET unit_cost = v_unit_cost WHERE id = v_line.id;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_line.qty);
+  END LOOP;
+
+  UPDATE transfers
+  SET status = 'confirmed',
+      sent_at = COALESCE(p_sent_date, CURRENT_DATE),
+      updated_at = NOW()
+  WHERE id = p_transfer_id;
+
+  RETURN v_items;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION receive_transfer(
+  p_transfer_id UUID,
+  p_received_date DATE DEFAULT NULL,
+  p_lines JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transfer transfers%ROWTYPE;
+  v_line RECORD;
+  v_input RECORD;
+  v_qty_received NUMERIC;
+  v_resolution TEXT;
+  v_difference NUMERIC;
+  v_sent_serials TEXT[];
+  v_received_serials TEXT[];
+  v_missing_serials TEXT[];
+  v_items JSONB := '[]'::jsonb;
+  v_discrepancies JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_transfer FROM transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+  IF v_transfer.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Can only receive sent transfers';
+  END IF;
+
+  FOR v_line IN
+    SELECT tl.*, p.sku
+    FROM transfer_lines tl
+    JOIN products p ON p.id = tl.product_id
+    WHERE tl.transfer_id = p_transfer_id
+    ORDER BY tl.product_id, tl.lot_number NULLS FIRST, tl.expiry_date NULLS FIRST, tl.id
+  LOOP
+    v_qty_received := v_line.qty;
+    v_resolution := 'loss';
+    v_sent_serials := normalize_serial_numbers(v_line.product_id, v_line.qty, v_line.serial_numbers);
+    v_received_serials := v_sent_serials;
+
+    IF p_lines IS NOT NULL THEN
+      SELECT * INTO v_input
+      FROM jsonb_to_recordset(p_lines) AS x(line_id UUID, qty_received NUMERIC, resolution TEXT, serial_numbers JSONB)
+      WHERE x.line_id = v_line.id
+      LIMIT 1;
+
+      IF FOUND THEN
+        v_qty_received := COALESCE(v_input.qty_received, v_line.qty);
+        v_resolution := COALESCE(NULLIF(v_input.resolution, ''), 'loss');
+
+        IF v_input.serial_numbers IS NOT NULL THEN
+          v_received_serials := ARRAY(SELECT jsonb_array_elements_text(v_input.serial_numbers));
+        END IF;
+      END IF;
+    END IF;
+
+    IF v_qty_received < 0 THEN
+      RAISE EXCEPTION 'Received quantity for % cannot be negative', v_line.sku;
+    END IF;
+    IF v_resolution NOT IN ('loss', 'return_to_source') THEN
+      RAISE EXCEPTION 'Invalid discrepancy resolution: %', v_resolution;
+    END IF;
+
+    IF v_sent_serials IS NOT NULL THEN
+      v_received_serials := normalize_serial_numbers(v_line.product_id, v_qty_received, v_received_serials);
+      v_missing_serials := ARRAY(
+        SELECT s FROM unnest(v_sent_serials) AS s WHERE s <> ALL(v_received_serials)
+      );
+    END IF;
+
+    IF v_qty_received > 0 THEN
+      PERFORM apply_stock_movement(
+        v_transfer.tenant_id, v_line.product_id, v_transfer.to_location_id, v_qty_received,
+        'transfer_in', 'transfer', p_transfer_id, v_line.lot_number, v_line.expiry_date,
+        COALESCE(v_line.unit_cost, 0), p_effective_date => COALESCE(p_received_date, CURRENT_DATE)
+      );
+
+      PERFORM apply_serial_movement(
+        v_transfer.tenant_id, v_line.product_id, v_transfer.to_location_id, v_received_serials, 1,
+        'transfer_in', 'transfer', p_transfer_id, v_line.lot_number, v_line.expiry_date
+      );
+    END IF;
+
+    UPDATE transfer_lines SET qty_received = v_qty_received WHERE id = v_line.id;
+
+    v_difference := v_qty_received - v_line.qty;
+
+    IF v_difference <> 0 THEN
+      IF v_difference > 0 THEN
+        v_resolution := 'over_receipt';
+      ELSIF v_resolution = 'return_to_source' THEN
+        -- The shortfall never left: book it back in at the cost it went out with
+        PERFORM apply_stock_movement(
+          v_transfer.tenant_id, v_line.product_id, v_transfer.from_location_id, -v_difference,
+          'transfer_in', 'transfer', p_transfer_id, v_line.lot_number, v_line.expiry_date,
+          COALESCE(v_line.unit_cost, 0), p_effective_date => COALESCE(p_received_date, CURRENT_DATE)
+        );
+      END IF;
+
+      INSERT INTO transfer_discrepancies (
+        tenant_id, transfer_id, transfer_line_id, product_id, lot_number, expiry_date,
+        qty_sent, qty_received, qty_difference, unit_cost, resolution, created_by
+      ) VALUES (
+        v_transfer.tenant_id, p_transfer_id, v_line.id, v_line.product_id,
+        v_line.lot_number, v_line.expiry_date,
+        v_line.qty, v_qty_received, v_difference, COALESCE(v_line.unit_cost, 0),
+        v_resolution, auth.uid()
+      );
+
+      v_discrepancies := v_discrepancies || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'qty_difference', v_difference,
+        'resolution', v_resolution
+      );
+    END IF;
+
+    IF cardinality(v_missing_serials) > 0 THEN
+      IF v_resolution = 'return_to_source' THEN
+        PERFORM apply_serial_movement(
+          v_transfer.tenant_id, v_line.product_id, v_transfer.from_location_id, v_missing_serials, 1,
+          'transfer_in', 'transfer', p_transfer_id, v_line.lot_number, v_line.expiry_date
+        );
+      ELSE
+        UPDATE serial_numbers
+        SET status = 'out', updated_at = NOW()
+        WHERE tenant_id = v_transfer.tenant_id
+          AND product_id = v_line.product_id
+          AND serial_number = ANY(v_missing_serials)
+          AND status = 'in_transit';
+      END IF;
+    END IF;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_qty_received);
+  END LOOP;
+
+  UPDATE transfers
+  SET status = 'completed',
+      received_at = COALESCE(p_received_date, CURRENT_DATE),
+      updated_at = NOW()
+  WHERE id = p_transfer_id;
+
+  RETURN jsonb_build_object(
+    'items', v_items,
+    'discrepancies', v_discrepancies
+  );
+END;
+$$;
+
+
+-- -----------------------------------------------------------------------------
+-- 6. close_inventory_period() - snapshot by effective date
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION close_inventory_period(p_period_end DATE)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tenant_id UUID := get_user_tenant_id();
+  v_lock_date DATE;
+  v_period_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can close periods';
+  END IF;
+  IF p_period_end IS NULL OR p_period_end >= CURRENT_DATE THEN
+    RAISE EXCEPTION 'Period end must be before today';
+  END IF;
+
+  -- Serialize closes per tenant
+  PERFORM 1 FROM tenants WHERE id = v_tenant_id FOR UPDATE;
+
+  v_lock_date := get_lock_date(v_tenant_id);
+  IF v_lock_date IS NOT NULL AND p_period_end <= v_lock_date THEN
+    RAISE EXCEPTION 'Periods through % are already closed', v_lock_date;
+  END IF;
+
+  INSERT INTO inventory_periods (tenant_id, period_end, status, closed_by, closed_at)
+  VALUES (v_tenant_id, p_period_end, 'closed', auth.uid(), NOW())
+  ON CONFLICT (tenant_id, period_end) DO UPDATE
+  SET status = 'closed',
+      closed_by = auth.uid(),
+      closed_at = NOW(),
+      reopened_by = NULL,
+      reopened_at = NULL,
+      reopen_note = NULL
+  RETURNING id INTO v_period_id;
+
+  DELETE FROM inventory_period_snapshots WHERE period_id = v_period_id;
+
+  INSERT INTO inventory_period_snapshots (tenant_id, period_id, product_id, location_id, qty, value)
+  SELECT
+    v_tenant_id, v_period_id, sm.product_id, sm.location_id,
+    SUM(sm.qty), SUM(sm.qty * COALESCE(sm.unit_cost, 0))
+  FROM stock_movements sm
+  WHERE sm.tenant_id = v_tenant_id
+    AND sm.effective_date <= p_period_end
+  GROUP BY sm.product_id, sm.location_id
+  HAVING SUM(sm.qty) <> 0 OR SUM(sm.qty * COALESCE(sm.unit_cost, 0)) <> 0;
+
+  UPDATE inventory_periods p
+  SET total_qty = COALESCE(s.total_qty, 0),
+      total_value = COALESCE(s.total_value, 0)
+  FROM (
+    SELECT SUM(qty) AS total_qty, SUM(value) AS total_value
+    FROM inventory_period_snapshots
+    WHERE period_id = v_period_id
+  ) s
+  WHERE p.id = v_period_id;
+
+  PERFORM set_lock_date(v_tenant_id, p_period_end);
+
+  RETURN v_period_id;
+END;
+$$;
+
+
+-- -----------------------------------------------------------------------------
+-- 7. get_stock_as_of() - position by effective date
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION get_stock_as_of(p_as_of DATE)
+RETURNS TABLE (
+    id UUID,
+    tenant_id UUID,
+    product_id UUID,
+    location_id UUID,
+    lot_number TEXT,
+    expiry_date DATE,
+    qty_on_hand NUMERIC,
+    avg_cost NUMERIC,
+    inventory_value NUMERIC,
+    reserved_qty NUMERIC,
+    available_qty NUMERIC,
+    product JSONB,
+    location JSONB
+)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+    SELECT
+        s.id,
+        s.tenant_id,
+        s.product_id,
+        s.location_id,
+        s.lot_number,
+        s.expiry_date,
+        s.qty_on_hand,
+        s.inventory_value / s.qty_on_hand as avg_cost,
+        s.inventory_value,
+        -- Reservations are not historised
+        0::numeric as reserved_qty,
+        s.qty_on_hand as available_qty,
+        jsonb_build_object(
+            'id', p.id,
+            'sku', p.sku,
+            'name', p.name,
+            'base_uom', p.base_uom,
+            'reorder_point', p.reorder_point,
+            'track_expiry', p.track_expiry,
+            'track_lot', p.track_lot,
+            'category_id', p.category_id
+        ) as product,
+        jsonb_build_object(
+            'id', l.id,
+            'name', l.name,
+            'type', l.type
+        ) as location
+    FROM (
+        SELECT
+            md5(
+                COALESCE(sm.product_id::text, '') ||
+                COALESCE(sm.location_id::text, '') ||
+                COALESCE(sm.lot_number, '') ||
+                COALESCE(sm.expiry_date::text, '')
+            )::uuid as id,
+            sm.tenant_id,
+            sm.product_id,
+            sm.location_id,
+            sm.lot_number,
+            sm.expiry_date,
+            SUM(sm.qty) as qty_on_hand,
+            SUM(sm.qty * COALESCE(sm.unit_cost, 0)) as inventory_value
+        FROM stock_movements sm
+        WHERE sm.tenant_id = get_user_tenant_id()
+          AND sm.effective_date <= p_as_of
+        GROUP BY
+            sm.tenant_id,
+            sm.product_id,
+            sm.location_id,
+            sm.lot_number,
+            sm.expiry_date
+        HAVING SUM(sm.qty) <> 0
+    ) s
+    JOIN products p ON p.id = s.product_id
+    JOIN locations l ON l.id = s.location_id
+    ORDER BY s.product_id;
+$$;
+
+
+-- -----------------------------------------------------------------------------
+-- 8. get_historical_stock() - when each depleted lot last moved
+-- -----------------------------------------------------------------------------
+DROP FUNCTION IF EXISTS get_historical_stock();
+
+CREATE OR REPLACE FUNCTION get_historical_stock()
+RETURNS TABLE (
+    id UUID,
+    tenant_id UUID,
+    product_id UUID,
+    location_id UUID,
+    lot_number TEXT,
+    expiry_date DATE,
+    qty_on_hand NUMERIC,
+    avg_cost NUMERIC,
+    inventory_value NUMERIC,
+    last_movement_date DATE,
+    product JSONB,
+    location JSONB
+)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+    SELECT
+        md5(
+            COALESCE(sm.product_id::text, '') ||
+            COALESCE(sm.location_id::text, '') ||
+            COALESCE(sm.lot_number, '') ||
+            COALESCE(sm.expiry_date::text, '')
+        )::uuid as id,
+        sm.tenant_id,
+        sm.product_id,
+        sm.location_id,
+        sm.lot_number,
+        sm.expiry_date,
+        SUM(sm.qty) as qty_on_hand,
+        COALESCE(
+            SUM(CASE WHEN sm.qty > 0 AND sm.unit_cost IS NOT NULL THEN sm.qty * sm.unit_cost ELSE 0 END) /
+            NULLIF(SUM(CASE WHEN sm.qty > 0 AND sm.unit_cost IS NOT NULL THEN sm.qty ELSE 0 END), 0),
+            0
+        ) as avg_cost,
+        0::numeric as inventory_value,
+        MAX(sm.effective_date) as last_movement_date,
+        jsonb_build_object(
+            'id', p.id,
+            'sku', p.sku,
+            'name', p.name,
+            'base_uom', p.base_uom,
+            'reorder_point', p.reorder_point,
+            'track_expiry', p.track_expiry,
+            'track_lot', p.track_lot
+        ) as product,
+        jsonb_build_object(
+            'id', l.id,
+            'name', l.name,
+            'type', l.type
+        ) as location
+    FROM stock_movements sm
+    JOIN products p ON p.id = sm.product_id
+    JOIN locations l ON l.id = sm.location_id
+    WHERE sm.tenant_id = get_user_tenant_id()
+    GROUP BY
+        sm.tenant_id,
+        sm.product_id,
+        sm.location_id,
+        sm.lot_number,
+        sm.expiry_date,
+        p.id, p.sku, p.name, p.base_uom, p.reorder_point, p.track_expiry, p.track_lot,
+        l.id, l.name, l.type
+    HAVING SUM(sm.qty) = 0
+    ORDER BY MAX(sm.effective_date) DESC, sm.product_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_historical_stock() TO authenticated;
+
+
+-- -----------------------------------------------------------------------------
+-- 9. post_adjustment() - movements dated on the adjustment date
+-- -----------------------------------------------------------------------------
+DROP FUNCTION IF EXISTS post_adjustment(UUID);
+
+CREATE OR REPLACE FUNCTION post_adjustment(
+  p_adjustment_id UUID,
+  p_adjustment_date DATE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_adjustment adjustments%ROWTYPE;
+  v_line RECORD;
+  v_unit_cost NUMERIC;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_adjustment FROM adjustments WHERE id = p_adjustment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Adjustment not found';
+  END IF;
+  IF v_adjustment.status <> 'draft' THEN
+    RAISE EXCEPTION 'Can only post draft adjustments';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM adjustment_lines
+    WHERE adjustment_id = p_adjustment_id
+    ORDER BY product_id, lot_number NULLS FIRST, expiry_date NULLS FIRST, id
+  LOOP
+    -- User-provided unit_cost wins, otherwise the balance avg_cost is used
+    v_unit_cost := apply_stock_movement(
+      v_adjustment.tenant_id, v_line.product_id, v_adjustment.location_id, v_line.qty,
+      'adjustment', 'adjustment', p_adjustment_id, v_line.lot_number, v_line.expiry_date,
+      v_line.unit_cost, v_adjustment.reason,
+      p_effective_date => COALESCE(p_adjustment_date, CURRENT_DATE)
+    );
+
+    UPDATE adjustment_lines SET unit_cost = v_unit_cost WHERE id = v_line.id;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_line.qty);
+  END LOOP;
+
+  UPDATE adjustments SET status = 'completed' WHERE id = p_adjustment_id;
+
+  RETURN v_items;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION post_adjustment(UUID, DATE) TO authenticated;
+
+
+-- -----------------------------------------------------------------------------
+-- 10. post_cycle_count() - movements dated on the count date
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION post_cycle_count(p_count_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count cycle_counts%ROWTYPE;
+  v_line RECORD;
+  v_system_qty NUMERIC;
+  v_variance NUMERIC;
+  v_serials TEXT[];
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_count FROM cycle_counts WHERE id = p_count_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cycle count not found';
+  END IF;
+  IF v_count.status <> 'draft' THEN
+    RAISE EXCEPTION 'Can only post draft counts';
+  END IF;
+  IF EXISTS (SELECT 1 FROM cycle_count_lines WHERE count_id = p_count_id AND counted_qty IS NULL) THEN
+    RAISE EXCEPTION 'All lines must be counted before posting';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM cycle_count_lines
+    WHERE count_id = p_count_id
+    ORDER BY product_id, lot_number NULLS FIRST, expiry_date NULLS FIRST, id
+  LOOP
+    SELECT qty_on_hand INTO v_system_qty
+    FROM inventory_balances
+    WHERE tenant_id = v_count.tenant_id
+      AND product_id = v_line.product_id
+      AND location_id = v_count.location_id
+      AND COALESCE(lot_number, '') = COALESCE(NULLIF(TRIM(v_line.lot_number), ''), '')
+      AND COALESCE(expiry_date, '1900-01-01'::date) = COALESCE(v_line.expiry_date, '1900-01-01'::date)
+    LIMIT 1
+    FOR UPDATE;
+
+    v_system_qty := COALESCE(v_system_qty, 0);
+    v_variance := v_line.counted_qty - v_system_qty;
+
+    UPDATE cycle_count_lines SET system_qty = v_system_qty WHERE id = v_line.id;
+
+    IF v_variance <> 0 THEN
+      PERFORM apply_stock_movement(
+        v_count.tenant_id, v_line.product_id, v_count.location_id, v_variance,
+        'count_variance', 'cycle_count', p_count_id, v_line.lot_number, v_line.expiry_date,
+        NULL, 'count_variance',
+        p_effective_date => COALESCE(v_count.count_date, CURRENT_DATE)
+      );
+    END IF;
+
+    v_serials := normalize_serial_numbers(v_line.product_id, v_line.counted_qty, v_line.serial_numbers);
+
+    IF v_serials IS NOT NULL THEN
+      PERFORM apply_serial_movement(
+        v_count.tenant_id, v_line.product_id, v_count.location_id,
+        ARRAY(
+          SELECT sn.serial_number
+          FROM serial_numbers sn
+          WHERE sn.tenant_id = v_count.tenant_id
+            AND sn.product_id = v_line.product_id
+            AND sn.location_id = v_count.location_id
+            AND sn.status = 'in_stock'
+            AND COALESCE(sn.lot_number, '') = COALESCE(NULLIF(TRIM(v_line.lot_number), ''), '')
+            AND COALESCE(sn.expiry_date, '1900-01-01'::date) = COALESCE(v_line.expiry_date, '1900-01-01'::date)
+            AND sn.serial_number <> ALL(v_serials)
+          ORDER BY sn.serial_number
+        ),
+        -1, 'count_variance', 'cycle_count', p_count_id
+      );
+
+      PERFORM apply_serial_movement(
+        v_count.tenant_id, v_line.product_id, v_count.location_id,
+        ARRAY(
+          SELECT s
+          FROM unnest(v_serials) AS s
+          WHERE NOT EXISTS (
+            SELECT 1
+            FROM serial_numbers sn
+            WHERE sn.tenant_id = v_count.tenant_id
+              AND sn.product_id = v_line.product_id
+              AND sn.location_id = v_count.location_id
+              AND sn.serial_number = s
+          )
+        ),
+        1, 'count_variance', 'cycle_count', p_count_id, v_line.lot_number, v_line.expiry_date
+      );
+    END IF;
+
+    v_items := v_items || jsonb_build_object(
+      'product_id', v_line.product_id,
+      'system_qty', v_system_qty,
+      'counted_qty', v_line.counted_qty,
+      'variance', v_variance
+    );
+  END LOOP;
+
+  UPDATE cycle_counts SET status = 'completed' WHERE id = p_count_id;
+
+  RETURN v_items;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION post_cycle_count(UUID) TO authenticated;
+
+
+-- -----------------------------------------------------------------------------
+-- 11. process_return() - movements dated on the return date
+-- -----------------------------------------------------------------------------
+DROP FUNCTION IF EXISTS process_return(UUID);
+
+CREATE OR REPLACE FUNCTION process_return(
+  p_return_id UUID,
+  p_return_date DATE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_return returns%ROWTYPE;
+  v_line RECORD;
+  v_is_customer BOOLEAN;
+  v_unit_cost NUMERIC;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_return FROM returns WHERE id = p_return_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return not found';
+  END IF;
+  IF v_return.status <> 'draft' THEN
+    RAISE EXCEPTION 'Can only process draft returns';
+  END IF;
+
+  v_is_customer := v_return.return_type = 'customer';
+
+  FOR v_line IN
+    SELECT * FROM return_lines
+    WHERE return_id = p_return_id
+    ORDER BY product_id, lot_number NULLS FIRST, expiry_date NULLS FIRST, id
+  LOOP
+    v_unit_cost := apply_stock_movement(
+      v_return.tenant_id, v_line.product_id, v_return.location_id,
+      CASE WHEN v_is_customer THEN v_line.qty ELSE -v_line.qty END,
+      CASE WHEN v_is_customer THEN 'return_in' ELSE 'return_out' END::movement_type,
+      'return', p_return_id, v_line.lot_number, v_line.expiry_date,
+      p_effective_date => COALESCE(p_return_date, CURRENT_DATE)
+    );
+
+    PERFORM apply_serial_movement(
+      v_return.tenant_id, v_line.product_id, v_return.location_id,
+      normalize_serial_numbers(v_line.product_id, v_line.qty, v_line.serial_numbers),
+      CASE WHEN v_is_customer THEN 1 ELSE -1 END,
+      CASE WHEN v_is_customer THEN 'return_in' ELSE 'return_out' END::movement_type,
+      'return', p_return_id, v_line.lot_number, v_line.expiry_date
+    );
+
+    UPDATE return_lines SET unit_cost = v_unit_cost WHERE id = v_line.id;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_line.qty);
+  END LOOP;
+
+  UPDATE returns SET status = 'completed' WHERE id = p_return_id;
+
+  RETURN v_items;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION process_return(UUID, DATE) TO authenticated;
+
+
+-- -----------------------------------------------------------------------------
+-- 12. post_assembly() - movements dated on the assembly date
+-- -----------------------------------------------------------------------------
+DROP FUNCTION IF EXISTS post_assembly(UUID);
+
+CREATE OR REPLACE FUNCTION post_assembly(
+  p_assembly_id UUID,
+  p_assembly_date DATE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_assembly assemblies%ROWTYPE;
+  v_line RECORD;
+  v_unit_cost NUMERIC;
+  v_total_cost NUMERIC := 0;
+  v_total_weight NUMERIC := 0;
+  v_total_qty NUMERIC := 0;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_assembly FROM assemblies WHERE id = p_assembly_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Assembly not found';
+  END IF;
+  IF v_assembly.status <> 'draft' THEN
+    RAISE EXCEPTION 'Can only post draft assemblies';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM assembly_lines WHERE assembly_id = p_assembly_id) THEN
+    RAISE EXCEPTION 'Assembly has no components';
+  END IF;
+
+  IF v_assembly.assembly_type = 'assembly' THEN
+    -- Consume the components, adding up what they cost
+    FOR v_line IN
+      SELECT * FROM assembly_lines
+      WHERE assembly_id = p_assembly_id
+      ORDER BY product_id, lot_number NULLS FIRST, expiry_date NULLS FIRST, id
+    LOOP
+      v_unit_cost := apply_stock_movement(
+        v_assembly.tenant_id, v_line.product_id, v_assembly.location_id, -v_line.qty,
+        'assembly_consume', 'assembly', p_assembly_id, v_line.lot_number, v_line.expiry_date,
+        p_effective_date => COALESCE(p_assembly_date, CURRENT_DATE)
+      );
+
+      UPDATE assembly_lines SET unit_cost = v_unit_cost WHERE id = v_line.id;
+
+      v_total_cost := v_total_cost + v_line.qty * v_unit_cost;
+      v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', -v_line.qty);
+    END LOOP;
+
+    v_unit_cost := v_total_cost / v_assembly.qty;
+
+    PERFORM apply_stock_movement(
+      v_assembly.tenant_id, v_assembly.product_id, v_assembly.location_id, v_assembly.qty,
+      'assembly_produce', 'assembly', p_assembly_id, v_assembly.lot_number, v_assembly.expiry_date,
+      v_unit_cost,
+      p_effective_date => COALESCE(p_assembly_date, CURRENT_DATE)
+    );
+
+    v_items := v_items || jsonb_build_object('product_id', v_assembly.product_id, 'qty', v_assembly.qty);
+  ELSE
+    -- Consume the finished item, then share its cost across the components
+    v_unit_cost := apply_stock_movement(
+      v_assembly.tenant_id, v_assembly.product_id, v_assembly.location_id, -v_assembly.qty,
+      'assembly_consume', 'assembly', p_assembly_id, v_assembly.lot_number, v_assembly.expiry_date,
+      p_effective_date => COALESCE(p_assembly_date, CURRENT_DATE)
+    );
+
+    v_total_cost := v_assembly.qty * v_unit_cost;
+    v_items := v_items || jsonb_build_object('product_id', v_assembly.product_id, 'qty', -v_assembly.qty);
+
+    SELECT COALESCE(SUM(al.qty * COALESCE(p.current_cost, 0)), 0), COALESCE(SUM(al.qty), 0)
+    INTO v_total_weight, v_total_qty
+    FROM assembly_lines al
+    JOIN products p ON p.id = al.product_id
+    WHERE al.assembly_id = p_assembly_id;
+
+    FOR v_line IN
+      SELECT al.*, COALESCE(p.current_cost, 0) AS current_cost
+      FROM assembly_lines al
+      JOIN products p ON p.id = al.product_id
+      WHERE al.assembly_id = p_assembly_id
+      ORDER BY al.product_id, al.lot_number NULLS FIRST, al.expiry_date NULLS FIRST, al.id
+    LOOP
+      -- Components without a current cost split the value by quantity instead
+      v_unit_cost := CASE
+        WHEN v_total_weight > 0 THEN v_total_cost * v_line.current_cost / v_total_weight
+        ELSE v_total_cost / v_total_qty
+      END;
+
+      PERFORM apply_stock_movement(
+        v_assembly.tenant_id, v_line.product_id, v_assembly.location_id, v_line.qty,
+        'assembly_produce', 'assembly', p_assembly_id, v_line.lot_number, v_line.expiry_date,
+        v_unit_cost,
+        p_effective_date => COALESCE(p_assembly_date, CURRENT_DATE)
+      );
+
+      UPDATE assembly_lines SET unit_cost = v_unit_cost WHERE id = v_line.id;
+
+      v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_line.qty);
+    END LOOP;
+
+    v_unit_cost := v_total_cost / v_assembly.qty;
+  END IF;
+
+  UPDATE assemblies
+  SET status = 'completed',
+      unit_cost = v_unit_cost,
+      updated_at = NOW()
+  WHERE id = p_assembly_id;
+
+  RETURN v_items;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION post_assembly(UUID, DATE) TO authenticated;
+
+
+-- -----------------------------------------------------------------------------
+-- 13. move_bin_stock() - movements dated on the move date
+-- -----------------------------------------------------------------------------
+DROP FUNCTION IF EXISTS move_bin_stock(UUID, UUID, UUID, NUMERIC, TEXT, DATE, TEXT[], TEXT);
+
+CREATE OR REPLACE FUNCTION move_bin_stock(
+  p_product_id UUID,
+  p_from_location_id UUID,
+  p_to_location_id UUID,
+  p_qty NUMERIC,
+  p_lot_number TEXT DEFAULT NULL,
+  p_expiry_date DATE DEFAULT NULL,
+  p_serial_numbers TEXT[] DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_move_date DATE DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tenant_id UUID := get_user_tenant_id();
+  v_warehouse_id UUID;
+  v_on_hand NUMERIC;
+  v_reserved NUMERIC;
+  v_serials TEXT[];
+  v_unit_cost NUMERIC;
+  v_move_id UUID;
+  v_out_movement_id UUID;
+  v_in_movement_id UUID;
+BEGIN
+  IF COALESCE(p_qty, 0) <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be positive';
+  END IF;
+  IF p_from_location_id = p_to_location_id THEN
+    RAISE EXCEPTION 'Source and destination must differ';
+  END IF;
+
+  v_warehouse_id := bin_warehouse_id(p_from_location_id);
+
+  IF v_warehouse_id IS NULL OR bin_warehouse_id(p_to_location_id) IS DISTINCT FROM v_warehouse_id THEN
+    RAISE EXCEPTION 'Bin moves must stay within one warehouse';
+  END IF;
+
+  PERFORM bin_stock_location(v_warehouse_id, p_from_location_id);
+  PERFORM bin_stock_location(v_warehouse_id, p_to_location_id);
+
+  v_on_hand := lock_balance_qty(
+    v_tenant_id, p_product_id, p_from_location_id, p_lot_number, p_expiry_date
+  );
+  v_reserved := get_reserved_qty(
+    v_tenant_id, p_product_id, p_from_location_id, p_lot_number, p_expiry_date
+  );
+
+  IF p_qty > v_on_hand - v_reserved THEN
+    RAISE EXCEPTION 'Insufficient available stock: on hand %, reserved %, need %',
+      v_on_hand, v_reserved, p_qty;
+  END IF;
+
+  v_serials := normalize_serial_numbers(p_product_id, p_qty, p_serial_numbers);
+
+  INSERT INTO bin_moves (
+    tenant_id, product_id, from_location_id, to_location_id, qty,
+    lot_number, expiry_date, serial_numbers, notes, created_by
+  ) VALUES (
+    v_tenant_id, p_product_id, p_from_location_id, p_to_location_id, p_qty,
+    NULLIF(TRIM(p_lot_number), ''), p_expiry_date, v_serials, p_notes, auth.uid()
+  )
+  RETURNING id INTO v_move_id;
+
+  v_unit_cost := apply_stock_movement(
+    v_tenant_id, p_product_id, p_from_location_id, -p_qty,
+    'bin_move', 'bin_move', v_move_id, p_lot_number, p_expiry_date,
+    p_effective_date => COALESCE(p_move_date, CURRENT_DATE)
+  );
+
+  PERFORM apply_stock_movement(
+    v_tenant_id, p_product_id, p_to_location_id, p_qty,
+    'bin_move', 'bin_move', v_move_id, p_lot_number, p_expiry_date, v_unit_cost,
+    p_effective_date => COALESCE(p_move_date, CURRENT_DATE)
+  );
+
+  SELECT id INTO v_out_movement_id
+  FROM stock_movements
+  WHERE reference_type = 'bin_move' AND reference_id = v_move_id AND qty < 0;
+
+  SELECT id INTO v_in_movement_id
+  FROM stock_movements
+  WHERE reference_type = 'bin_move' AND reference_id = v_move_id AND qty > 0;
+
+  PERFORM apply_serial_movement(
+    v_tenant_id, p_product_id, p_from_location_id, v_serials, -1,
+    'bin_move', 'bin_move', v_move_id, NULL, NULL, v_out_movement_id
+  );
+  PERFORM apply_serial_movement(
+    v_tenant_id, p_product_id, p_to_location_id, v_serials, 1,
+    'bin_move', 'bin_move', v_move_id, p_lot_number, p_expiry_date, v_in_movement_id
+  );
+
+  UPDATE bin_moves SET unit_cost = v_unit_cost WHERE id = v_move_id;
+
+  RETURN v_move_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION move_bin_stock(UUID, UUID, UUID, NUMERIC, TEXT, DATE, TEXT[], TEXT, DATE) TO authenticated;
@@ -0,0 +1,13 @@
+-- =============================================================================
+-- Auto-replenishment
+-- =============================================================================
+-- The low stock report can turn selected products into draft purchase orders.
+-- Each product orders its reorder_qty, or up to max_stock when one is set.
+-- Draft POs go through the normal purchase order flow for review.
+-- =============================================================================
+
+
+-- -----------------------------------------------------------------------------
+-- 1. products.max_stock - level replenishment orders up to
+-- -----------------------------------------------------------------------------
+ALTER TABLE products ADD COLUMN IF NOT EXISTS max_stock NUMERIC CHECK (max_stock >= 0);
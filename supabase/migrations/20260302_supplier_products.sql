@@ -0,0 +1,50 @@
+-- =============================================================================
+-- Supplier product catalogue
+-- =============================================================================
+-- Which suppliers sell which products, and on what terms.
+--
+--   - supplier_products: one row per supplier and product with the supplier's
+--                        SKU, contract price, currency, lead time, minimum
+--                        order quantity and pack size
+--
+-- last_price is the unit cost of the latest confirmed purchase order line from
+-- that supplier, kept up to date by the app. Purchase order lines prefill the
+-- contract price, falling back to the last price.
+--
+-- Quantities (min_order_qty, pack_size) and prices are per base unit. At most
+-- one supplier per product is preferred; replenishment orders from it.
+-- =============================================================================
+
+
+-- -----------------------------------------------------------------------------
+-- 1. supplier_products
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS supplier_products (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  supplier_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  supplier_sku TEXT,
+  contract_price NUMERIC CHECK (contract_price >= 0),
+  last_price NUMERIC CHECK (last_price >= 0),
+  currency TEXT,
+  lead_time_days INTEGER CHECK (lead_time_days >= 0),
+  min_order_qty NUMERIC CHECK (min_order_qty > 0),
+  pack_size NUMERIC CHECK (pack_size > 0),
+  preferred BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (supplier_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_products_product ON supplier_products(product_id);
+
+-- One preferred supplier per product
+CREATE UNIQUE INDEX IF NOT EXISTS idx_supplier_products_preferred
+  ON supplier_products(product_id) WHERE preferred;
+
+ALTER TABLE supplier_products ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS tenant_isolation ON supplier_products;
+CREATE POLICY tenant_isolation ON supplier_products
+  FOR ALL USING (tenant_id = get_user_tenant_id());
@@ -0,0 +1,211 @@
+-- =============================================================================
+-- Purchase order approval
+-- =============================================================================
+-- Confirming a purchase order can need an approver's sign-off. The rules live
+-- in tenants.settings.po_approval:
+--
+--   { "enabled": true, "threshold": 5000, "supplier_ids": [...],
+--     "location_ids": [...], "approver_roles": ["admin", "manager"] }
+--
+-- A draft whose total is above the threshold, or whose supplier or receiving
+-- location is listed, goes to 'pending_approval' instead of 'confirmed'. A
+-- user whose role is listed approves it (-> confirmed) or rejects it (-> back
+-- to draft, for the buyer to revise and resubmit).
+--
+--   - document_status 'pending_approval'
+--   - purchase_orders.approved_by / approved_at: the approval that confirmed it
+--   - purchase_order_approvals: every decision with its comment and the order
+--     total it was made on
+--
+-- receive_purchase_order() refuses POs still waiting for approval.
+-- =============================================================================
+
+
+-- -----------------------------------------------------------------------------
+-- 1. 'pending_approval' status and approval columns
+-- -----------------------------------------------------------------------------
+ALTER TYPE document_status ADD VALUE IF NOT EXISTS 'pending_approval';
+
+ALTER TABLE purchase_orders ADD COLUMN IF NOT EXISTS approved_by UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE purchase_orders ADD COLUMN IF NOT EXISTS approved_at TIMESTAMPTZ;
+
+
+-- -----------------------------------------------------------------------------
+-- 2. purchase_order_approvals
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS purchase_order_approvals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  po_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  decision TEXT NOT NULL CHECK (decision IN ('approved', 'rejected')),
+  comment TEXT,
+  order_total NUMERIC NOT NULL DEFAULT 0,
+  decided_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  decided_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_order_approvals_po ON purchase_order_approvals(po_id);
+
+ALTER TABLE purchase_order_approvals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS tenant_isolation ON purchase_order_approvals;
+CREATE POLICY tenant_isolation ON purchase_order_approvals
+  FOR ALL USING (tenant_id = get_user_tenant_id());
+
+
+-- -----------------------------------------------------------------------------
+-- 3. receive_purchase_order() - not before approval
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+  p_po_id UUID,
+  p_lines JSONB,
+  p_received_date DATE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_po purchase_orders%ROWTYPE;
+  v_input RECORD;
+  v_line purchase_order_lines%ROWTYPE;
+  v_location_id UUID;
+  v_lot_number TEXT;
+  v_serials TEXT[];
+  v_receipt_id UUID;
+  v_movement_id UUID;
+  v_layer_id UUID;
+  v_all_complete BOOLEAN;
+  v_any_received BOOLEAN;
+  v_status document_status;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_po FROM purchase_orders WHERE id = p_po_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+  IF v_po.status IN ('draft', 'pending_approval') THEN
+    RAISE EXCEPTION 'PO must be confirmed before receiving';
+  END IF;
+  IF v_po.status = 'completed' THEN
+    RAISE EXCEPTION 'PO is already completed';
+  END IF;
+  IF v_po.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cannot receive cancelled PO';
+  END IF;
+
+  FOR v_input IN
+    SELECT *
+    FROM jsonb_to_recordset(p_lines) AS x(
+      line_id UUID,
+      qty_to_receive NUMERIC,
+      lot_number TEXT,
+      expiry_date DATE,
+      entered_qty NUMERIC,
+      entered_uom TEXT,
+      serial_numbers JSONB,
+      bin_id UUID
+    )
+    ORDER BY line_id
+  LOOP
+    CONTINUE WHEN COALESCE(v_input.qty_to_receive, 0) <= 0;
+
+    SELECT * INTO v_line
+    FROM purchase_order_lines
+    WHERE id = v_input.line_id AND po_id = p_po_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order line % not found', v_input.line_id;
+    END IF;
+
+    IF COALESCE(v_line.qty_received, 0) + v_input.qty_to_receive > v_line.qty_ordered THEN
+      RAISE EXCEPTION 'Cannot receive more than ordered for line %', v_input.line_id;
+    END IF;
+
+    v_location_id := bin_stock_location(v_po.location_id, v_input.bin_id);
+
+    v_serials := normalize_serial_numbers(
+      v_line.product_id, v_input.qty_to_receive,
+      ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_input.serial_numbers, '[]'::jsonb)))
+    );
+
+    IF v_receipt_id IS NULL THEN
+      INSERT INTO po_receipts (tenant_id, po_id, created_by)
+      VALUES (v_po.tenant_id, p_po_id, auth.uid())
+      RETURNING id INTO v_receipt_id;
+    END IF;
+
+    UPDATE purchase_order_lines
+    SET qty_received = COALESCE(qty_received, 0) + v_input.qty_to_receive
+    WHERE id = v_line.id;
+
+    PERFORM apply_stock_movement(
+      v_po.tenant_id, v_line.product_id, v_location_id, v_input.qty_to_receive,
+      'receive', 'po', p_po_id, v_input.lot_number, v_input.expiry_date,
+      COALESCE(v_line.unit_cost, 0), p_effective_date => COALESCE(p_received_date, CURRENT_DATE)
+    );
+
+    v_lot_number := NULLIF(TRIM(v_input.lot_number), '');
+
+    SELECT sm.id INTO v_movement_id
+    FROM stock_movements sm
+    WHERE sm.reference_type = 'po'
+      AND sm.reference_id = p_po_id
+      AND sm.movement_type = 'receive'
+      AND sm.product_id = v_line.product_id
+      AND sm.location_id = v_location_id
+      AND NOT EXISTS (SELECT 1 FROM po_receipt_lines rl WHERE rl.movement_id = sm.id)
+    ORDER BY sm.created_at DESC
+    LIMIT 1;
+
+    SELECT cl.id INTO v_layer_id
+    FROM cost_layers cl
+    WHERE cl.reference_type = 'po'
+      AND cl.reference_id = p_po_id
+      AND cl.product_id = v_line.product_id
+    ORDER BY cl.received_at DESC
+    LIMIT 1;
+
+    PERFORM apply_serial_movement(
+      v_po.tenant_id, v_line.product_id, v_location_id, v_serials, 1,
+      'receive', 'po', p_po_id, v_lot_number, v_input.expiry_date, v_movement_id
+    );
+
+    INSERT INTO po_receipt_lines (
+      tenant_id, receipt_id, po_line_id, product_id, qty, entered_qty, entered_uom,
+      lot_number, expiry_date, unit_cost, movement_id, cost_layer_id, serial_numbers, bin_id
+    ) VALUES (
+      v_po.tenant_id, v_receipt_id, v_line.id, v_line.product_id, v_input.qty_to_receive,
+      v_input.entered_qty, NULLIF(TRIM(v_input.entered_uom), ''),
+      v_lot_number, v_input.expiry_date, COALESCE(v_line.unit_cost, 0), v_movement_id, v_layer_id,
+      v_serials, v_input.bin_id
+    );
+
+    UPDATE products
+    SET current_cost = COALESCE(v_line.unit_cost, 0), updated_at = NOW()
+    WHERE id = v_line.product_id;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_input.qty_to_receive);
+  END LOOP;
+
+  SELECT
+    BOOL_AND(COALESCE(qty_received, 0) >= qty_ordered),
+    BOOL_OR(COALESCE(qty_received, 0) > 0)
+  INTO v_all_complete, v_any_received
+  FROM purchase_order_lines
+  WHERE po_id = p_po_id;
+
+  v_status := CASE
+    WHEN v_all_complete THEN 'completed'
+    WHEN v_any_received THEN 'partial'
+    ELSE 'confirmed'
+  END;
+
+  UPDATE purchase_orders
+  SET status = v_status, updated_at = NOW()
+  WHERE id = p_po_id;
+
+  RETURN jsonb_build_object('status', v_status, 'receipt_id', v_receipt_id, 'items', v_items);
+END;
+$$;
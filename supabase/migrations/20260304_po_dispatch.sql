@@ -0,0 +1,17 @@
+-- =============================================================================
+-- Purchase order dispatch
+-- =============================================================================
+-- Confirmed purchase orders are rendered as a PDF, attached to the PO as a
+-- document and emailed to the supplier.
+--
+--   - purchase_orders.sent_at / sent_to: when and to which address the PO
+--                                        was last emailed
+-- =============================================================================
+
+
+-- -----------------------------------------------------------------------------
+-- 1. purchase_orders
+-- -----------------------------------------------------------------------------
+ALTER TABLE purchase_orders
+  ADD COLUMN IF NOT EXISTS sent_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS sent_to TEXT;
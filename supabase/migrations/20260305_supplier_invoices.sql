@@ -0,0 +1,333 @@
+-- =============================================================================
+-- Supplier invoices and three-way matching
+-- =============================================================================
+-- The supplier's invoice is recorded against a purchase order and each
+-- invoice line is matched against its purchase_order_lines row:
+--
+--   - quantity: everything invoiced so far on the line must not exceed
+--               qty_received (plus the tenant's quantity tolerance)
+--   - price:    unit_price must be within the tenant's price tolerance of
+--               the PO line's unit_cost
+--
+--   - supplier_invoices:                 header; status matched, mismatch,
+--                                        approved or cancelled
+--   - supplier_invoice_lines:            invoiced qty and price with a
+--                                        snapshot of what they were matched
+--                                        against
+--   - supplier_invoice_cost_adjustments: price variances per receipt line,
+--                                        split into the part still in stock
+--                                        and the part already consumed
+--
+-- Tolerances live in tenants.settings.invoice_matching and matching runs in
+-- the app. Invoices that match are posted straight away; mismatches wait in
+-- a queue until they are approved (posted) or cancelled.
+--
+-- Posting revalues the part of the received goods still on hand at the
+-- invoice price: a pair of cost_adjustment movements dated the posting day
+-- (so the period lock applies), the cost layer and the balance avg_cost.
+-- The variance on stock already consumed is only recorded. Posted receive
+-- movements are never rewritten.
+-- =============================================================================
+
+
+-- -----------------------------------------------------------------------------
+-- 1. supplier_invoices
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS supplier_invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  po_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  supplier_id UUID NOT NULL REFERENCES suppliers(id),
+  invoice_number TEXT NOT NULL,
+  invoice_date DATE NOT NULL,
+  due_date DATE,
+  status TEXT NOT NULL CHECK (status IN ('matched', 'mismatch', 'approved', 'cancelled')),
+  notes TEXT,
+  -- Set once price variances have been applied to inventory cost
+  posted_at TIMESTAMPTZ,
+  approved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  approved_at TIMESTAMPTZ,
+  approval_note TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_invoices_po ON supplier_invoices(po_id);
+CREATE INDEX IF NOT EXISTS idx_supplier_invoices_status ON supplier_invoices(tenant_id, status);
+
+-- The same supplier invoice number can only be entered once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_supplier_invoices_number
+  ON supplier_invoices(supplier_id, invoice_number) WHERE status <> 'cancelled';
+
+ALTER TABLE supplier_invoices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS tenant_isolation ON supplier_invoices;
+CREATE POLICY tenant_isolation ON supplier_invoices
+  FOR ALL USING (tenant_id = get_user_tenant_id());
+
+
+-- -----------------------------------------------------------------------------
+-- 2. supplier_invoice_lines
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS supplier_invoice_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  invoice_id UUID NOT NULL REFERENCES supplier_invoices(id) ON DELETE CASCADE,
+  po_line_id UUID NOT NULL REFERENCES purchase_order_lines(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id),
+  qty_invoiced NUMERIC NOT NULL CHECK (qty_invoiced > 0),
+  unit_price NUMERIC NOT NULL CHECK (unit_price >= 0),
+  -- What the line was matched against
+  qty_ordered NUMERIC NOT NULL,
+  qty_received NUMERIC NOT NULL,
+  qty_previously_invoiced NUMERIC NOT NULL DEFAULT 0,
+  po_unit_cost NUMERIC NOT NULL,
+  qty_match BOOLEAN NOT NULL,
+  price_match BOOLEAN NOT NULL,
+  -- Total cost change applied to received stock when posted
+  cost_adjustment NUMERIC NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_invoice_lines_invoice ON supplier_invoice_lines(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_supplier_invoice_lines_po_line ON supplier_invoice_lines(po_line_id);
+
+ALTER TABLE supplier_invoice_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS tenant_isolation ON supplier_invoice_lines;
+CREATE POLICY tenant_isolation ON supplier_invoice_lines
+  FOR ALL USING (tenant_id = get_user_tenant_id());
+
+
+-- -----------------------------------------------------------------------------
+-- 3. supplier_invoice_cost_adjustments
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS supplier_invoice_cost_adjustments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  invoice_line_id UUID NOT NULL REFERENCES supplier_invoice_lines(id) ON DELETE CASCADE,
+  receipt_line_id UUID NOT NULL REFERENCES po_receipt_lines(id) ON DELETE CASCADE,
+  amount NUMERIC NOT NULL,
+  unit_cost_change NUMERIC NOT NULL,
+  -- amount = qty_on_hand * unit_cost_change (revalued inventory)
+  --        + consumed_amount (variance on stock already issued)
+  qty_on_hand NUMERIC NOT NULL DEFAULT 0,
+  consumed_amount NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_invoice_cost_adjustments_line
+  ON supplier_invoice_cost_adjustments(invoice_line_id);
+
+ALTER TABLE supplier_invoice_cost_adjustments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS tenant_isolation ON supplier_invoice_cost_adjustments;
+CREATE POLICY tenant_isolation ON supplier_invoice_cost_adjustments
+  FOR ALL USING (tenant_id = get_user_tenant_id());
+
+
+-- -----------------------------------------------------------------------------
+-- 4. Invoices can carry attachments (the supplier's PDF or scan)
+-- -----------------------------------------------------------------------------
+ALTER TYPE document_entity_type ADD VALUE IF NOT EXISTS 'supplier_invoice';
+
+
+-- -----------------------------------------------------------------------------
+-- 5. Price variances post as cost_adjustment movements
+-- -----------------------------------------------------------------------------
+-- A revaluation is written as a pair on the same balance: qty out at the old
+-- unit cost, then the same qty back in at the new one. Quantity is unchanged
+-- and the ledger value (SUM(qty * unit_cost)) moves by the variance.
+ALTER TYPE movement_type ADD VALUE IF NOT EXISTS 'cost_adjustment';
+
+
+-- -----------------------------------------------------------------------------
+-- 6. post_supplier_invoice() - apply price variances to inventory cost
+-- -----------------------------------------------------------------------------
+-- For every line billed at a different price than the PO, the variance on
+-- the received quantity ((unit_price - po_unit_cost) * LEAST(qty_invoiced,
+-- received)) is spread over the line's receipts by quantity. Lines with
+-- nothing received yet are left alone.
+--
+-- Per receipt line, the quantity still on hand (the open cost layer under
+-- FIFO; the balance under average cost, less what earlier receipts of this
+-- invoice already took) is revalued today. The rest went out at the PO price
+-- and its variance is recorded as consumed_amount. Today must be in an open
+-- period.
+--
+-- The invoice's status change goes with the posting: p_status 'matched' for
+-- a mismatch that now matches, or 'approved' to accept a mismatch, which
+-- also records the approver and p_approval_note.
+CREATE OR REPLACE FUNCTION post_supplier_invoice(
+  p_invoice_id UUID,
+  p_status TEXT DEFAULT NULL,
+  p_approval_note TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_invoice supplier_invoices%ROWTYPE;
+  v_po purchase_orders%ROWTYPE;
+  v_is_fifo BOOLEAN;
+  v_line supplier_invoice_lines%ROWTYPE;
+  v_received NUMERIC;
+  v_amount NUMERIC;
+  v_per_unit NUMERIC;
+  v_receipt RECORD;
+  v_location_id UUID;
+  v_balance inventory_balances%ROWTYPE;
+  v_on_hand NUMERIC;
+  v_from_cost NUMERIC;
+  v_items JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_invoice FROM supplier_invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Supplier invoice not found';
+  END IF;
+  IF v_invoice.posted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Supplier invoice is already posted';
+  END IF;
+  IF v_invoice.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cannot post a cancelled invoice';
+  END IF;
+  IF p_status IS NOT NULL AND p_status NOT IN ('matched', 'approved') THEN
+    RAISE EXCEPTION 'Invalid invoice status: %', p_status;
+  END IF;
+  IF p_status IS NOT NULL AND v_invoice.status <> 'mismatch' THEN
+    RAISE EXCEPTION 'Only mismatched invoices can change status when posted';
+  END IF;
+
+  SELECT * INTO v_po FROM purchase_orders WHERE id = v_invoice.po_id FOR UPDATE;
+  v_is_fifo := get_costing_method(v_po.tenant_id) = 'fifo';
+
+  PERFORM assert_period_open(v_po.tenant_id, CURRENT_DATE);
+
+  FOR v_line IN
+    SELECT * FROM supplier_invoice_lines
+    WHERE invoice_id = p_invoice_id AND unit_price <> po_unit_cost
+    ORDER BY product_id, id
+  LOOP
+    SELECT COALESCE(SUM(rl.qty), 0) INTO v_received
+    FROM po_receipt_lines rl
+    JOIN po_receipts r ON r.id = rl.receipt_id
+    WHERE rl.po_line_id = v_line.po_line_id
+      AND r.voided_at IS NULL;
+
+    CONTINUE WHEN v_received <= 0;
+
+    v_amount := (v_line.unit_price - v_line.po_unit_cost) * LEAST(v_line.qty_invoiced, v_received);
+    v_per_unit := v_amount / v_received;
+
+    FOR v_receipt IN
+      SELECT rl.*
+      FROM po_receipt_lines rl
+      JOIN po_receipts r ON r.id = rl.receipt_id
+      WHERE rl.po_line_id = v_line.po_line_id
+        AND r.voided_at IS NULL
+      ORDER BY rl.lot_number NULLS FIRST, rl.expiry_date NULLS FIRST, rl.id
+    LOOP
+      v_location_id := COALESCE(v_receipt.bin_id, v_po.location_id);
+      v_on_hand := 0;
+
+      SELECT * INTO v_balance
+      FROM inventory_balances
+      WHERE tenant_id = v_po.tenant_id
+        AND product_id = v_receipt.product_id
+        AND location_id = v_location_id
+        AND COALESCE(lot_number, '') = COALESCE(v_receipt.lot_number, '')
+        AND COALESCE(expiry_date, '1900-01-01'::date) = COALESCE(v_receipt.expiry_date, '1900-01-01'::date)
+      LIMIT 1
+      FOR UPDATE;
+
+      IF v_balance.id IS NOT NULL AND v_balance.qty_on_hand > 0 THEN
+        IF v_is_fifo THEN
+          SELECT remaining_qty, unit_cost INTO v_on_hand, v_from_cost
+          FROM cost_layers
+          WHERE id = v_receipt.cost_layer_id
+          FOR UPDATE;
+        ELSE
+          SELECT LEAST(v_receipt.qty, v_balance.qty_on_hand - COALESCE(SUM(sm.qty), 0))
+          INTO v_on_hand
+          FROM stock_movements sm
+          WHERE sm.reference_type = 'supplier_invoice'
+            AND sm.reference_id = p_invoice_id
+            AND sm.movement_type = 'cost_adjustment'
+            AND sm.qty > 0
+            AND sm.product_id = v_receipt.product_id
+            AND sm.location_id = v_location_id
+            AND COALESCE(sm.lot_number, '') = COALESCE(v_receipt.lot_number, '')
+            AND COALESCE(sm.expiry_date, '1900-01-01'::date) = COALESCE(v_receipt.expiry_date, '1900-01-01'::date);
+
+          v_from_cost := v_balance.avg_cost;
+        END IF;
+
+        v_on_hand := GREATEST(COALESCE(v_on_hand, 0), 0);
+      END IF;
+
+      IF v_on_hand > 0 THEN
+        -- clock_timestamp() keeps the out row ahead of the in row for
+        -- ledger replays ordered by created_at
+        INSERT INTO stock_movements (
+          tenant_id, product_id, location_id, qty, movement_type,
+          reference_type, reference_id, lot_number, expiry_date,
+          unit_cost, notes, effective_date, created_by, created_at
+        ) VALUES
+          (v_po.tenant_id, v_receipt.product_id, v_location_id, -v_on_hand, 'cost_adjustment',
+           'supplier_invoice', p_invoice_id, v_receipt.lot_number, v_receipt.expiry_date,
+           v_from_cost, v_invoice.invoice_number, CURRENT_DATE, auth.uid(), clock_timestamp()),
+          (v_po.tenant_id, v_receipt.product_id, v_location_id, v_on_hand, 'cost_adjustment',
+           'supplier_invoice', p_invoice_id, v_receipt.lot_number, v_receipt.expiry_date,
+           v_from_cost + v_per_unit, v_invoice.invoice_number, CURRENT_DATE, auth.uid(), clock_timestamp());
+
+        IF v_is_fifo THEN
+          UPDATE cost_layers
+          SET unit_cost = unit_cost + v_per_unit
+          WHERE id = v_receipt.cost_layer_id;
+        END IF;
+
+        UPDATE inventory_balances
+        SET avg_cost = CASE
+              WHEN v_is_fifo THEN COALESCE(
+                get_cost_layer_avg(tenant_id, product_id, location_id, lot_number, expiry_date),
+                avg_cost
+              )
+              ELSE GREATEST((qty_on_hand * avg_cost + v_on_hand * v_per_unit) / qty_on_hand, 0)
+            END,
+            updated_at = NOW()
+        WHERE id = v_balance.id;
+      END IF;
+
+      INSERT INTO supplier_invoice_cost_adjustments (
+        tenant_id, invoice_line_id, receipt_line_id, amount, unit_cost_change,
+        qty_on_hand, consumed_amount
+      ) VALUES (
+        v_po.tenant_id, v_line.id, v_receipt.id, v_per_unit * v_receipt.qty, v_per_unit,
+        v_on_hand, v_per_unit * (v_receipt.qty - v_on_hand)
+      );
+    END LOOP;
+
+    UPDATE supplier_invoice_lines SET cost_adjustment = v_amount WHERE id = v_line.id;
+
+    v_items := v_items || jsonb_build_object(
+      'product_id', v_line.product_id,
+      'qty', LEAST(v_line.qty_invoiced, v_received),
+      'amount', v_amount
+    );
+  END LOOP;
+
+  UPDATE supplier_invoices
+  SET posted_at = NOW(),
+      status = COALESCE(p_status, status),
+      approved_by = CASE WHEN p_status = 'approved' THEN auth.uid() ELSE approved_by END,
+      approved_at = CASE WHEN p_status = 'approved' THEN NOW() ELSE approved_at END,
+      approval_note = CASE WHEN p_status = 'approved' THEN p_approval_note ELSE approval_note END,
+      updated_at = NOW()
+  WHERE id = p_invoice_id;
+
+  RETURN jsonb_build_object('items', v_items);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION post_supplier_invoice(UUID, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,209 @@
+-- =============================================================================
+-- Stock movements for transfer discrepancies
+-- =============================================================================
+-- Receiving a transfer with a discrepancy used to leave the ledger unclear:
+-- a loss was only a transfer_discrepancies row, an over-receipt came in as
+-- transferred stock the source never sent, and a return to source was
+-- posted as transfer_in at the source. Each resolution now posts its own
+-- movement type, all referencing the transfer:
+--
+--   - transfer_loss:   the shortfall is written off out of the in-transit
+--                      stock. Receiving takes the whole line off the road
+--                      into the destination as transfer_in, and the loss is
+--                      posted there on the received date at transfer cost.
+--                      The transfer_out already posted is left as it is.
+--   - transfer_return: the shortfall is booked back into the source.
+--   - adjustment:      an over-receipt brings in what was sent as
+--                      transfer_in and the surplus as a 'correction'
+--                      adjustment at the destination, at transfer cost.
+-- =============================================================================
+
+
+-- -----------------------------------------------------------------------------
+-- 1. Movement types
+-- -----------------------------------------------------------------------------
+ALTER TYPE movement_type ADD VALUE IF NOT EXISTS 'transfer_loss';
+ALTER TYPE movement_type ADD VALUE IF NOT EXISTS 'transfer_return';
+
+
+-- -----------------------------------------------------------------------------
+-- 2. receive_transfer() - post a movement for every discrepancy
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION receive_transfer(
+  p_transfer_id UUID,
+  p_received_date DATE DEFAULT NULL,
+  p_lines JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transfer transfers%ROWTYPE;
+  v_line RECORD;
+  v_input RECORD;
+  v_qty_received NUMERIC;
+  v_qty_in NUMERIC;
+  v_resolution TEXT;
+  v_difference NUMERIC;
+  v_received_date DATE;
+  v_sent_serials TEXT[];
+  v_received_serials TEXT[];
+  v_missing_serials TEXT[];
+  v_items JSONB := '[]'::jsonb;
+  v_discrepancies JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_transfer FROM transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+  IF v_transfer.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Can only receive sent transfers';
+  END IF;
+
+  v_received_date := COALESCE(p_received_date, CURRENT_DATE);
+
+  FOR v_line IN
+    SELECT tl.*, p.sku
+    FROM transfer_lines tl
+    JOIN products p ON p.id = tl.product_id
+    WHERE tl.transfer_id = p_transfer_id
+    ORDER BY tl.product_id, tl.lot_number NULLS FIRST, tl.expiry_date NULLS FIRST, tl.id
+  LOOP
+    v_qty_received := v_line.qty;
+    v_resolution := 'loss';
+    v_sent_serials := normalize_serial_numbers(v_line.product_id, v_line.qty, v_line.serial_numbers);
+    v_received_serials := v_sent_serials;
+    v_missing_serials := NULL;
+
+    IF p_lines IS NOT NULL THEN
+      SELECT * INTO v_input
+      FROM jsonb_to_recordset(p_lines) AS x(line_id UUID, qty_received NUMERIC, resolution TEXT, serial_numbers JSONB)
+      WHERE x.line_id = v_line.id
+      LIMIT 1;
+
+      IF FOUND THEN
+        v_qty_received := COALESCE(v_input.qty_received, v_line.qty);
+        v_resolution := COALESCE(NULLIF(v_input.resolution, ''), 'loss');
+
+        IF v_input.serial_numbers IS NOT NULL THEN
+          v_received_serials := ARRAY(SELECT jsonb_array_elements_text(v_input.serial_numbers));
+        END IF;
+      END IF;
+    END IF;
+
+    IF v_qty_received < 0 THEN
+      RAISE EXCEPTION 'Received quantity for % cannot be negative', v_line.sku;
+    END IF;
+    IF v_resolution NOT IN ('loss', 'return_to_source') THEN
+      RAISE EXCEPTION 'Invalid discrepancy resolution: %', v_resolution;
+    END IF;
+
+    IF v_sent_serials IS NOT NULL THEN
+      v_received_serials := normalize_serial_numbers(v_line.product_id, v_qty_received, v_received_serials);
+      v_missing_serials := ARRAY(
+        SELECT s FROM unnest(v_sent_serials) AS s WHERE s <> ALL(v_received_serials)
+      );
+    END IF;
+
+    -- Only what was sent arrives as transferred stock. A lost shortfall
+    -- comes off the road with the rest of the line and is written off below
+    v_qty_in := CASE
+      WHEN v_resolution = 'loss' THEN v_line.qty
+      ELSE LEAST(v_qty_received, v_line.qty)
+    END;
+
+    IF v_qty_in > 0 THEN
+      PERFORM apply_stock_movement(
+        v_transfer.tenant_id, v_line.product_id, v_transfer.to_location_id, v_qty_in,
+        'transfer_in', 'transfer', p_transfer_id, v_line.lot_number, v_line.expiry_date,
+        COALESCE(v_line.unit_cost, 0), p_effective_date => v_received_date
+      );
+    END IF;
+
+    IF v_qty_received > 0 THEN
+      PERFORM apply_serial_movement(
+        v_transfer.tenant_id, v_line.product_id, v_transfer.to_location_id, v_received_serials, 1,
+        'transfer_in', 'transfer', p_transfer_id, v_line.lot_number, v_line.expiry_date
+      );
+    END IF;
+
+    UPDATE transfer_lines SET qty_received = v_qty_received WHERE id = v_line.id;
+
+    v_difference := v_qty_received - v_line.qty;
+
+    IF v_difference > 0 THEN
+      v_resolution := 'over_receipt';
+
+      PERFORM apply_stock_movement(
+        v_transfer.tenant_id, v_line.product_id, v_transfer.to_location_id, v_difference,
+        'adjustment', 'transfer', p_transfer_id, v_line.lot_number, v_line.expiry_date,
+        COALESCE(v_line.unit_cost, 0), 'correction', v_received_date
+      );
+    ELSIF v_difference < 0 AND v_resolution = 'return_to_source' THEN
+      -- The shortfall never left: book it back in at the cost it went out with
+      PERFORM apply_stock_movement(
+        v_transfer.tenant_id, v_line.product_id, v_transfer.from_location_id, -v_difference,
+        'transfer_return', 'transfer', p_transfer_id, v_line.lot_number, v_line.expiry_date,
+        COALESCE(v_line.unit_cost, 0), p_effective_date => v_received_date
+      );
+    ELSIF v_difference < 0 THEN
+      -- The shortfall never arrived: write it off the received line
+      PERFORM apply_stock_movement(
+        v_transfer.tenant_id, v_line.product_id, v_transfer.to_location_id, v_difference,
+        'transfer_loss', 'transfer', p_transfer_id, v_line.lot_number, v_line.expiry_date,
+        COALESCE(v_line.unit_cost, 0), 'shrinkage', v_received_date
+      );
+    END IF;
+
+    IF v_difference <> 0 THEN
+      INSERT INTO transfer_discrepancies (
+        tenant_id, transfer_id, transfer_line_id, product_id, lot_number, expiry_date,
+        qty_sent, qty_received, qty_difference, unit_cost, resolution, created_by
+      ) VALUES (
+        v_transfer.tenant_id, p_transfer_id, v_line.id, v_line.product_id,
+        v_line.lot_number, v_line.expiry_date,
+        v_line.qty, v_qty_received, v_difference, COALESCE(v_line.unit_cost, 0),
+        v_resolution, auth.uid()
+      );
+
+      v_discrepancies := v_discrepancies || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'qty_difference', v_difference,
+        'resolution', v_resolution
+      );
+    END IF;
+
+    IF cardinality(v_missing_serials) > 0 THEN
+      IF v_resolution = 'return_to_source' THEN
+        PERFORM apply_serial_movement(
+          v_transfer.tenant_id, v_line.product_id, v_transfer.from_location_id, v_missing_serials, 1,
+          'transfer_return', 'transfer', p_transfer_id, v_line.lot_number, v_line.expiry_date
+        );
+      ELSE
+        UPDATE serial_numbers
+        SET status = 'out', updated_at = NOW()
+        WHERE tenant_id = v_transfer.tenant_id
+          AND product_id = v_line.product_id
+          AND serial_number = ANY(v_missing_serials)
+          AND status = 'in_transit';
+      END IF;
+    END IF;
+
+    v_items := v_items || jsonb_build_object('product_id', v_line.product_id, 'qty', v_qty_received);
+  END LOOP;
+
+  UPDATE transfers
+  SET status = 'completed',
+      received_at = v_received_date,
+      updated_at = NOW()
+  WHERE id = p_transfer_id;
+
+  RETURN jsonb_build_object(
+    'items', v_items,
+    'discrepancies', v_discrepancies
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION receive_transfer(UUID, DATE, JSONB) TO authenticated;
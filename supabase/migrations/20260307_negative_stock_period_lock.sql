@@ -0,0 +1,73 @@
+-- =============================================================================
+-- Period lock for negative stock settlement
+-- =============================================================================
+-- Settling a deficit re-costs the outbound movement that created it. That
+-- movement can be dated in a period that has since been closed, and changing
+-- its cost would change the closed period's values behind its snapshot.
+--
+--   - settle_negative_stock(): refuses to re-cost a movement dated on or
+--                              before the lock date, so the inbound posting
+--                              that would settle it fails instead
+-- =============================================================================
+
+
+-- -----------------------------------------------------------------------------
+-- 1. settle_negative_stock() - check the deficit movement's date
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION settle_negative_stock(
+  p_tenant_id UUID,
+  p_product_id UUID,
+  p_location_id UUID,
+  p_lot_number TEXT,
+  p_expiry_date DATE,
+  p_qty NUMERIC,
+  p_unit_cost NUMERIC
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_remaining NUMERIC := p_qty;
+  v_take NUMERIC;
+  v_deficit RECORD;
+BEGIN
+  FOR v_deficit IN
+    SELECT d.id, d.remaining_qty, d.unit_cost, d.movement_id, ABS(sm.qty) AS movement_qty,
+           sm.effective_date
+    FROM negative_stock_deficits d
+    LEFT JOIN stock_movements sm ON sm.id = d.movement_id
+    WHERE d.tenant_id = p_tenant_id
+      AND d.product_id = p_product_id
+      AND d.location_id = p_location_id
+      AND COALESCE(d.lot_number, '') = COALESCE(NULLIF(TRIM(p_lot_number), ''), '')
+      AND COALESCE(d.expiry_date, '1900-01-01'::date) = COALESCE(p_expiry_date, '1900-01-01'::date)
+      AND d.remaining_qty > 0
+    ORDER BY d.created_at, d.id
+    FOR UPDATE OF d
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+
+    v_take := LEAST(v_deficit.remaining_qty, v_remaining);
+
+    UPDATE negative_stock_deficits
+    SET remaining_qty = remaining_qty - v_take,
+        settled_value = settled_value + v_take * p_unit_cost,
+        settled_at = CASE WHEN remaining_qty - v_take <= 0 THEN NOW() END
+    WHERE id = v_deficit.id;
+
+    -- extended_cost is a generated column
+    IF v_deficit.movement_qty > 0 THEN
+      PERFORM assert_period_open(p_tenant_id, v_deficit.effective_date);
+
+      UPDATE stock_movements
+      SET unit_cost = COALESCE(unit_cost, 0)
+            + v_take * (p_unit_cost - v_deficit.unit_cost) / v_deficit.movement_qty
+      WHERE id = v_deficit.movement_id;
+    END IF;
+
+    v_remaining := v_remaining - v_take;
+  END LOOP;
+
+  RETURN p_qty - v_remaining;
+END;
+$$;
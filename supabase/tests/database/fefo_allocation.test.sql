@@ -0,0 +1,89 @@
+-- FEFO allocation across a warehouse and its bins (supabase test db)
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(6);
+
+INSERT INTO tenants (id, name) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'FEFO test tenant');
+
+INSERT INTO locations (id, tenant_id, name, type, parent_id, active) VALUES
+  ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a1', 'Main warehouse', 'warehouse', NULL, true),
+  ('00000000-0000-0000-0000-0000000000b2', '00000000-0000-0000-0000-0000000000a1', 'Bin A-01', 'bin', '00000000-0000-0000-0000-0000000000b1', true),
+  ('00000000-0000-0000-0000-0000000000b3', '00000000-0000-0000-0000-0000000000a1', 'Bin A-02', 'bin', '00000000-0000-0000-0000-0000000000b1', false);
+
+INSERT INTO products (id, tenant_id, sku, name, track_expiry, track_lot) VALUES
+  ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000a1', 'FEFO-1', 'FEFO product', true, true);
+
+-- LOT-1 (earliest) sits only in bin A-01, LOT-2 in the warehouse itself,
+-- LOT-0 expires even earlier but sits in the inactive bin A-02
+INSERT INTO inventory_balances (tenant_id, product_id, location_id, lot_number, expiry_date, qty_on_hand) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000b2', 'LOT-1', CURRENT_DATE + 10, 5),
+  ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000b1', 'LOT-2', CURRENT_DATE + 20, 8),
+  ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000b3', 'LOT-0', CURRENT_DATE + 5, 50);
+
+SELECT results_eq(
+  $$SELECT lot_number, qty_to_use, bin_id FROM get_fefo_allocation(
+      '00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000c1',
+      '00000000-0000-0000-0000-0000000000b1', 10, true)$$,
+  $$VALUES ('LOT-1', 5::NUMERIC, '00000000-0000-0000-0000-0000000000b2'::UUID),
+           ('LOT-2', 5::NUMERIC, NULL::UUID)$$,
+  'warehouse with bins allocates the earliest lot from its bin first'
+);
+
+SELECT results_eq(
+  $$SELECT lot_number, qty_to_use, bin_id FROM get_fefo_allocation(
+      '00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000c1',
+      '00000000-0000-0000-0000-0000000000b1', 10)$$,
+  $$VALUES ('LOT-2', 8::NUMERIC, NULL::UUID)$$,
+  'without bins only the warehouse''s own stock is allocated'
+);
+
+SELECT results_eq(
+  $$SELECT lot_number, qty_to_use, bin_id FROM get_fefo_allocation(
+      '00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000c1',
+      '00000000-0000-0000-0000-0000000000b2', 10, true)$$,
+  $$VALUES ('LOT-1', 5::NUMERIC, NULL::UUID)$$,
+  'a bin allocates only from itself'
+);
+
+SELECT is(
+  (SELECT SUM(qty_to_use) FROM get_fefo_allocation(
+      '00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000c1',
+      '00000000-0000-0000-0000-0000000000b1', 100, true)),
+  13::NUMERIC,
+  'short stock returns what is available, inactive bins excluded'
+);
+
+-- Reserved stock in the bin is not available
+INSERT INTO shipments (id, tenant_id, shipment_number, location_id, status) VALUES
+  ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000a1', 'SH-FEFO', '00000000-0000-0000-0000-0000000000b1', 'confirmed');
+
+INSERT INTO reservations (tenant_id, shipment_id, product_id, location_id, qty, lot_number, expiry_date, status) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000c1',
+   '00000000-0000-0000-0000-0000000000b2', 3, 'LOT-1', CURRENT_DATE + 10, 'active');
+
+SELECT results_eq(
+  $$SELECT lot_number, qty_to_use, bin_id FROM get_fefo_allocation(
+      '00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000c1',
+      '00000000-0000-0000-0000-0000000000b1', 4, true)$$,
+  $$VALUES ('LOT-1', 2::NUMERIC, '00000000-0000-0000-0000-0000000000b2'::UUID),
+           ('LOT-2', 2::NUMERIC, NULL::UUID)$$,
+  'reservations in a bin reduce what it can allocate'
+);
+
+-- Expired lots are skipped wherever they are
+UPDATE inventory_balances SET expiry_date = CURRENT_DATE - 1
+WHERE location_id = '00000000-0000-0000-0000-0000000000b2';
+
+SELECT results_eq(
+  $$SELECT lot_number, qty_to_use, bin_id FROM get_fefo_allocation(
+      '00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000c1',
+      '00000000-0000-0000-0000-0000000000b1', 4, true)$$,
+  $$VALUES ('LOT-2', 4::NUMERIC, NULL::UUID)$$,
+  'expired stock in bins is not allocated'
+);
+
+SELECT * FROM finish();
+ROLLBACK;